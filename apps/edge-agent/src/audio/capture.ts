@@ -1,12 +1,13 @@
 import { ipcMain, desktopCapturer, app, BrowserWindow } from 'electron';
 import fs from 'fs-extra';
-const { ensureDir, writeFile } = fs;
+const { ensureDir } = fs;
 import { join } from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
 import type { Ingest } from '@ellipsa/shared';
 import { whisperASR } from './asr.js';
 import { audioPreprocessor } from './audioPreprocessor.js';
+import { captureVault } from '../capture/captureVault.js';
 
 // Extend the Window interface to include Electron-specific APIs
 declare global {
@@ -181,17 +182,22 @@ async function processAudioSegment(chunks: Blob[], mainWindow: BrowserWindow | n
   const buffer = Buffer.from(arrayBuffer);
   const segmentId = uuidv4();
   const filename = `${segmentId}.webm`;
-  const filePath: string = join(getAudioDir(), filename);
 
   try {
-    await ensureDir(getAudioDir());
-    await writeFile(filePath, buffer);
+    // Recordings are only kept sealed; the segment is still transcribed while locked
+    let filePath = '';
+    if (captureVault.locked) {
+      console.warn('Capture vault is locked, recording not saved');
+    } else {
+      await ensureDir(getAudioDir());
+      filePath = await captureVault.write(join(getAudioDir(), filename), buffer, 'audio/webm');
+    }
     
     const ingest: Ingest = {
       agent_id: 'edge-agent',
       session_id: 'current-session',
       segment_ts: new Date().toISOString(),
-      audio_ref: filePath,
+      audio_ref: filePath || undefined,
       meta: {
         duration: chunks.length * 1000,
         format: 'webm',
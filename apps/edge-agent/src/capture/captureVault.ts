@@ -0,0 +1,344 @@
+import { app, safeStorage } from 'electron';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+const CIPHER = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Sealed files start with this, then a length-prefixed JSON header
+const MAGIC = Buffer.from('ELPSVLT1');
+export const SEALED_SUFFIX = '.enc';
+
+/**
+ * Where the vault's master key comes from
+ */
+export interface KeyProvider {
+  readonly kind: string;
+  deriveKey(salt: Buffer): Promise<Buffer>;
+}
+
+/**
+ * Master key derived from the user's passphrase with scrypt
+ */
+export class PassphraseKeyProvider implements KeyProvider {
+  readonly kind = 'passphrase';
+
+  constructor(private readonly passphrase: string) {}
+
+  deriveKey(salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      scrypt(this.passphrase.normalize('NFKC'), salt, KEY_BYTES, { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }, (error, key) =>
+        error ? reject(error) : resolve(key)
+      );
+    });
+  }
+}
+
+/**
+ * Random master key kept in a file sealed by the OS keyring (Keychain, DPAPI
+ * or libsecret, through Electron's safeStorage)
+ */
+export class OsKeyringProvider implements KeyProvider {
+  readonly kind = 'os-keyring';
+
+  constructor(private readonly path: string) {}
+
+  static available(): boolean {
+    return safeStorage.isEncryptionAvailable();
+  }
+
+  async deriveKey(): Promise<Buffer> {
+    try {
+      return Buffer.from(safeStorage.decryptString(await readFile(this.path)), 'base64');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+
+    const key = randomBytes(KEY_BYTES);
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, safeStorage.encryptString(key.toString('base64')), { mode: 0o600 });
+    return key;
+  }
+}
+
+/**
+ * Master key in a plain local file, made on first use. For tests only.
+ */
+export class FileKeyProvider implements KeyProvider {
+  readonly kind = 'file';
+
+  constructor(private readonly path: string) {}
+
+  async deriveKey(): Promise<Buffer> {
+    try {
+      return Buffer.from((await readFile(this.path, 'utf8')).trim(), 'base64');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+
+    const key = randomBytes(KEY_BYTES);
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, key.toString('base64'), { mode: 0o600 });
+    return key;
+  }
+}
+
+export class LockedError extends Error {
+  constructor(message: string = 'Capture vault is locked') {
+    super(message);
+    this.name = 'LockedError';
+  }
+}
+
+interface VaultKeyFile {
+  version: 1;
+  provider: string;
+  salt: string;
+  /** The vault key sealed with the master key */
+  wrapped: string;
+  /** The key being rotated away from, until every file is re-wrapped */
+  previous?: string;
+}
+
+interface SealedHeader {
+  /** The file's content key sealed with the vault key */
+  wrapped_key: string;
+  mime_type: string;
+  created_at: string;
+}
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const decipher = createDecipheriv(CIPHER, key, sealed.subarray(0, IV_BYTES));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+function tryOpen(key: Buffer, sealed: Buffer): Buffer | null {
+  try {
+    return open(key, sealed);
+  } catch {
+    return null;
+  }
+}
+
+function parseSealed(file: Buffer): { header: SealedHeader; body: Buffer } {
+  if (!file.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error('Not a sealed capture');
+  }
+  const headerLength = file.readUInt32BE(MAGIC.length);
+  const start = MAGIC.length + 4;
+  return {
+    header: JSON.parse(file.subarray(start, start + headerLength).toString('utf8')),
+    body: file.subarray(start + headerLength),
+  };
+}
+
+function formatSealed(header: SealedHeader, body: Buffer): Buffer {
+  const json = Buffer.from(JSON.stringify(header), 'utf8');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(json.length);
+  return Buffer.concat([MAGIC, length, json, body]);
+}
+
+// Write then rename, so readers never see half a file
+async function writeAtomic(path: string, data: Buffer | string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(`${path}.tmp`, data, { mode: 0o600 });
+  await rename(`${path}.tmp`, path);
+}
+
+/**
+ * Envelope-encrypted store for raw captures (design.md 10.3). Every file is
+ * sealed with its own AES-256-GCM content key, which is wrapped by the vault
+ * key; the vault key is in turn wrapped by the master key from a
+ * KeyProvider. Changing the passphrase re-wraps the vault key only, and
+ * rotating the vault key re-wraps each file's header, never its content.
+ * Nothing can be written or read while the vault is locked.
+ */
+export class CaptureVault {
+  // The vault key, then the previous one while a rotation is unfinished
+  private keys: Buffer[] | null = null;
+
+  constructor(private readonly keyFile: string) {}
+
+  get locked(): boolean {
+    return this.keys === null;
+  }
+
+  /**
+   * The provider kind the vault was created with, or null before first unlock
+   */
+  async providerKind(): Promise<string | null> {
+    return (await this.readKeyFile())?.provider ?? null;
+  }
+
+  /**
+   * Unwrap the vault key, creating it on first use
+   */
+  async unlock(provider: KeyProvider): Promise<void> {
+    const stored = await this.readKeyFile();
+    if (!stored) {
+      const vaultKey = randomBytes(KEY_BYTES);
+      await this.writeKeyFile(provider, [vaultKey]);
+      this.keys = [vaultKey];
+      return;
+    }
+    this.keys = await this.unwrapKeys(stored, provider);
+  }
+
+  lock(): void {
+    this.keys?.forEach(key => key.fill(0));
+    this.keys = null;
+  }
+
+  /**
+   * Re-wrap the vault key for a new passphrase or provider
+   */
+  async changeProvider(current: KeyProvider, next: KeyProvider): Promise<void> {
+    await this.writeKeyFile(next, await this.unwrapKeys(await this.requireKeyFile(), current));
+  }
+
+  /**
+   * Replace the vault key and re-wrap the content keys of every sealed file
+   * in the given directories; returns how many files were re-wrapped. The old
+   * key stays in the key file until all are done, so an interrupted rotation
+   * loses nothing and finishes on the next call.
+   */
+  async rotate(provider: KeyProvider, directories: string[]): Promise<number> {
+    const stored = await this.requireKeyFile();
+    const unwrapped = await this.unwrapKeys(stored, provider);
+    const [newKey, oldKey] = stored.previous ? unwrapped : [randomBytes(KEY_BYTES), unwrapped[0]];
+    await this.writeKeyFile(provider, [newKey, oldKey]);
+    // Captures taken meanwhile are sealed with the new key already
+    const wasUnlocked = !this.locked;
+    if (wasUnlocked) {
+      this.lock();
+      this.keys = [Buffer.from(newKey), Buffer.from(oldKey)];
+    }
+
+    let rewrapped = 0;
+    for (const directory of directories) {
+      const files = await readdir(directory).catch((error: any) => {
+        if (error?.code === 'ENOENT') return [] as string[];
+        throw error;
+      });
+      for (const file of files.filter(name => name.endsWith(SEALED_SUFFIX))) {
+        const path = join(directory, file);
+        const { header, body } = parseSealed(await readFile(path));
+        const wrappedKey = Buffer.from(header.wrapped_key, 'base64');
+        if (tryOpen(newKey, wrappedKey)) continue;
+
+        const contentKey = open(oldKey, wrappedKey);
+        await writeAtomic(path, formatSealed({ ...header, wrapped_key: seal(newKey, contentKey).toString('base64') }, body));
+        contentKey.fill(0);
+        rewrapped++;
+      }
+    }
+
+    await this.writeKeyFile(provider, [newKey]);
+    if (wasUnlocked && !this.locked) {
+      this.lock();
+      this.keys = [Buffer.from(newKey)];
+    }
+    newKey.fill(0);
+    oldKey.fill(0);
+    return rewrapped;
+  }
+
+  /**
+   * Seal data to `<path>.enc`; returns the path written
+   */
+  async write(path: string, data: Buffer, mimeType: string): Promise<string> {
+    const [vaultKey] = this.requireKeys();
+    const contentKey = randomBytes(KEY_BYTES);
+    const header: SealedHeader = {
+      wrapped_key: seal(vaultKey, contentKey).toString('base64'),
+      mime_type: mimeType,
+      created_at: new Date().toISOString(),
+    };
+
+    const sealedPath = path.endsWith(SEALED_SUFFIX) ? path : `${path}${SEALED_SUFFIX}`;
+    await writeAtomic(sealedPath, formatSealed(header, seal(contentKey, data)));
+    contentKey.fill(0);
+    return sealedPath;
+  }
+
+  async read(sealedPath: string): Promise<{ data: Buffer; mimeType: string }> {
+    const keys = this.requireKeys();
+    const { header, body } = parseSealed(await readFile(sealedPath));
+    const wrappedKey = Buffer.from(header.wrapped_key, 'base64');
+    const contentKey = keys.map(key => tryOpen(key, wrappedKey)).find(Boolean);
+    if (!contentKey) {
+      throw new Error(`No vault key opens ${sealedPath}`);
+    }
+    try {
+      return { data: open(contentKey, body), mimeType: header.mime_type };
+    } finally {
+      contentKey.fill(0);
+    }
+  }
+
+  private requireKeys(): Buffer[] {
+    if (!this.keys) {
+      throw new LockedError();
+    }
+    return this.keys;
+  }
+
+  private async requireKeyFile(): Promise<VaultKeyFile> {
+    const stored = await this.readKeyFile();
+    if (!stored) {
+      throw new Error('Capture vault has not been created yet');
+    }
+    return stored;
+  }
+
+  private async unwrapKeys(stored: VaultKeyFile, provider: KeyProvider): Promise<Buffer[]> {
+    const master = await provider.deriveKey(Buffer.from(stored.salt, 'base64'));
+    try {
+      return [stored.wrapped, stored.previous]
+        .filter((wrapped): wrapped is string => Boolean(wrapped))
+        .map(wrapped => open(master, Buffer.from(wrapped, 'base64')));
+    } catch {
+      throw new Error('Wrong passphrase or key for the capture vault');
+    } finally {
+      master.fill(0);
+    }
+  }
+
+  private async readKeyFile(): Promise<VaultKeyFile | null> {
+    try {
+      return JSON.parse(await readFile(this.keyFile, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async writeKeyFile(provider: KeyProvider, [vaultKey, previous]: Buffer[]): Promise<void> {
+    const salt = randomBytes(16);
+    const master = await provider.deriveKey(salt);
+    const stored: VaultKeyFile = {
+      version: 1,
+      provider: provider.kind,
+      salt: salt.toString('base64'),
+      wrapped: seal(master, vaultKey).toString('base64'),
+      ...(previous ? { previous: seal(master, previous).toString('base64') } : {}),
+    };
+    master.fill(0);
+    await writeAtomic(this.keyFile, JSON.stringify(stored, null, 2));
+  }
+}
+
+// Screenshots and recordings share one vault
+export const captureVault = new CaptureVault(join(app.getPath('userData'), 'keys', 'capture-vault.json'));
@@ -1,11 +1,13 @@
 import { desktopCapturer, BrowserWindow, nativeImage, app, DesktopCapturerSource } from 'electron';
-import { writeFile, mkdir } from 'fs/promises';
+import { mkdir } from 'fs/promises';
 import { join } from 'path';
 import { createWorker, Worker } from 'tesseract.js';
 import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
 import { EventService } from '../services/EventService';
 import { LLMService } from '../services/LLMService';
+import { captureVault } from './captureVault';
+import { memoryClient } from '../services/api';
 
 // Remove global declaration as it's not needed
 
@@ -51,6 +53,11 @@ export class ScreenCapture {
     return this._applicationContext;
   }
 
+  // Where screenshots are written, for the retention pruner
+  public get screenshotsPath(): string {
+    return this.capturePath;
+  }
+
   private worker: any = null; // Using any due to Tesseract.js type issues
   private readonly OCR_ENGINE = 'eng';
   private readonly MIN_CAPTURE_INTERVAL = 1000; // 1 second
@@ -380,16 +387,27 @@ export class ScreenCapture {
         return null;
       }
 
-      // Save the image
+      // Save the image, sealed in the capture vault; nothing is kept while it is locked
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const filename = `capture_${timestamp}.png`;
-      const filePath = join(this.capturePath, filename);
-
-      // console.log(`[ScreenCapture] Saving screenshot to: ${filePath}`);
-      await writeFile(filePath, source.thumbnail.toPNG());
+      let filePath = '';
+      if (captureVault.locked) {
+        console.warn('[ScreenCapture] Capture vault is locked, screenshot not saved');
+      } else {
+        filePath = await captureVault.write(join(this.capturePath, filename), source.thumbnail.toPNG(), 'image/png');
+      }
 
       // Convert the thumbnail to base64 for text extraction
-      const imageData = source.thumbnail.toPNG().toString('base64');
+      const png = source.thumbnail.toPNG();
+      const imageData = png.toString('base64');
+
+      // The memory service keeps the original so the UI can show it behind the memory
+      let blobId: string | undefined;
+      try {
+        blobId = (await memoryClient.uploadBlob(png, 'image/png', filename)).id;
+      } catch (error) {
+        console.warn('[ScreenCapture] Could not upload screenshot to the blob store:', error);
+      }
 
       // Extract text from the screenshot
       const textContent = await this.extractText(imageData);
@@ -423,7 +441,8 @@ export class ScreenCapture {
               bounds: captureMetadata.bounds,
               dpiScale: captureMetadata.dpiScale,
               windowTitle: captureMetadata.windowTitle,
-              appName: captureMetadata.appName
+              appName: captureMetadata.appName,
+              blob_id: blobId
             }
           }
         });
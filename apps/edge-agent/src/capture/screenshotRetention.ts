@@ -0,0 +1,85 @@
+import { readdir, stat, unlink } from 'fs/promises';
+import { join } from 'path';
+import { memoryClient } from '../services/api';
+import { SEALED_SUFFIX } from './captureVault';
+
+// Used when the memory service cannot be reached
+const DEFAULT_RETENTION_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deletes screenshots older than the memory service's screenshot rule, so
+ * raw captures leave the device on the same schedule as the hot lane.
+ * Pinned screenshots (by file name) are kept; a sealed capture_x.png.enc
+ * is pinned as capture_x.png.
+ */
+export class ScreenshotRetention {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly screenshotsPath: string) {}
+
+  start(intervalMs: number = 60 * 60 * 1000) {
+    if (this.timer) return;
+
+    void this.prune();
+    this.timer = setInterval(() => void this.prune(), intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Delete expired screenshots; returns how many were deleted
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    let retentionDays: number | null = DEFAULT_RETENTION_DAYS;
+    let pinned = new Set<string>();
+    try {
+      const [policy, pins] = await Promise.all([
+        memoryClient.getRetentionPolicy(),
+        memoryClient.getRetentionPins('screenshot'),
+      ]);
+      const rule = policy.find(candidate => candidate.type === 'screenshot' && candidate.source === null);
+      if (rule) retentionDays = rule.warmDays;
+      pinned = new Set(pins.map(pin => pin.item_id));
+    } catch (error) {
+      console.warn(`[ScreenshotRetention] Retention policy unavailable, keeping ${DEFAULT_RETENTION_DAYS} days:`, error);
+    }
+    if (retentionDays === null) return 0;
+
+    let files: string[];
+    try {
+      files = await readdir(this.screenshotsPath);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    const cutoff = now.getTime() - retentionDays * DAY_MS;
+    let deleted = 0;
+    for (const file of files) {
+      const name = file.endsWith(SEALED_SUFFIX) ? file.slice(0, -SEALED_SUFFIX.length) : file;
+      if (!name.endsWith('.png') || pinned.has(name)) continue;
+
+      const filePath = join(this.screenshotsPath, file);
+      try {
+        if ((await stat(filePath)).mtimeMs < cutoff) {
+          await unlink(filePath);
+          deleted++;
+        }
+      } catch (error) {
+        console.error(`[ScreenshotRetention] Failed to delete ${file}:`, error);
+      }
+    }
+
+    if (deleted > 0) {
+      console.log(`[ScreenshotRetention] Deleted ${deleted} screenshot(s) older than ${retentionDays} days`);
+    }
+    return deleted;
+  }
+}
@@ -5,14 +5,35 @@ import * as fs from 'fs';
 import { realtimeService } from './services/RealtimeService';
 import { EventService } from './services/EventService';
 import { ScreenCapture } from './capture/screenCapture';
+import { ScreenshotRetention } from './capture/screenshotRetention';
+import { captureVault, OsKeyringProvider, PassphraseKeyProvider, type KeyProvider } from './capture/captureVault';
 import { processorClient } from './services/ProcessorClient.js';
 import { memoryClient } from './services/MemoryClient.js';
+import { memoryClient as memoryApi } from './services/api';
 import { initializeLLMService } from './services/LLMService';
 import { setupLLMHandlers } from './services/llmHandlers';
 
 // Initialize screen capture
 const screenCapture = new ScreenCapture();
 
+// Delete screenshots past the memory service's retention window
+const screenshotRetention = new ScreenshotRetention(screenCapture.screenshotsPath);
+
+// Raw captures are sealed in the vault; its master key comes from the OS
+// keyring unless the user has switched it to a passphrase
+const osKeyring = new OsKeyringProvider(path.join(app.getPath('userData'), 'keys', 'capture-vault.key'));
+const captureDirectories = () => [screenCapture.screenshotsPath, path.join(app.getPath('userData'), 'recordings')];
+
+async function unlockCaptureVault() {
+  const provider = await captureVault.providerKind();
+  if ((provider === null || provider === osKeyring.kind) && OsKeyringProvider.available()) {
+    await captureVault.unlock(osKeyring);
+    console.log('[CaptureVault] Unlocked with the OS keyring');
+  } else {
+    console.warn('[CaptureVault] Locked until the passphrase is entered; captures are not saved');
+  }
+}
+
 // Main process class
 export class MainProcess {
   async start() {
@@ -48,6 +69,9 @@ app.whenReady().then(() => {
     console.error('Error initializing screen:', error);
   }
 
+  screenshotRetention.start();
+  unlockCaptureVault().catch(error => console.error('[CaptureVault] Failed to unlock:', error));
+
   return mainProcess.start();
 }).catch(error => {
   console.error('Failed to start application:', error);
@@ -158,6 +182,9 @@ ipcMain.handle('process-audio', async (event, { audioData, timestamp, size, samp
 
 // Clean up on app quit
 app.on('will-quit', () => {
+  screenshotRetention.stop();
+  captureVault.lock();
+
   if (audioCaptureCleanup) {
     audioCaptureCleanup();
     audioCaptureCleanup = null;
@@ -766,12 +793,24 @@ ipcMain.on('send-message', async (event, message) => {
     // Process the message (in a real app, this would call your AI service)
     console.log('Message received:', message);
 
-    // Simulate a response after a short delay
-    setTimeout(() => {
-      if (chatWindow && !chatWindow.isDestroyed()) {
-        chatWindow.webContents.send('message-received', 'I received your message: ' + message);
+    // Answer from the memory timeline when it has anything on the topic
+    let reply = 'I received your message: ' + message;
+    try {
+      const timeline = await memoryApi.getTimeline({
+        topic: message,
+        from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+        limit: 20,
+      });
+      if (timeline?.count > 0) {
+        reply = `Here is what I have on that:\n${timeline.chronology}`;
       }
-    }, 1000);
+    } catch (error) {
+      console.warn('Timeline lookup failed:', error);
+    }
+
+    if (chatWindow && !chatWindow.isDestroyed()) {
+      chatWindow.webContents.send('message-received', reply);
+    }
 
   } catch (error) {
     console.error('Error processing message:', error);
@@ -781,6 +820,58 @@ ipcMain.on('send-message', async (event, message) => {
   }
 });
 
+// Person card for whoever the user is composing to (ID, name or email)
+ipcMain.handle('get-person-card', async (_, person: string) => {
+  try {
+    return await memoryApi.getPersonCard(person);
+  } catch (error) {
+    console.warn('Person card lookup failed:', error);
+    return null;
+  }
+});
+
+// Capture vault: locked state, passphrase and key rotation
+const vaultProvider = (passphrase?: string): KeyProvider =>
+  passphrase ? new PassphraseKeyProvider(passphrase) : osKeyring;
+
+ipcMain.handle('get-vault-status', async () => ({
+  locked: captureVault.locked,
+  provider: await captureVault.providerKind(),
+}));
+
+ipcMain.handle('unlock-vault', async (_, passphrase: string) => {
+  try {
+    await captureVault.unlock(new PassphraseKeyProvider(passphrase));
+    return { success: true };
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('lock-vault', () => {
+  captureVault.lock();
+  return { success: true };
+});
+
+// Omit current to move from the OS keyring to a passphrase, or next to move back
+ipcMain.handle('change-vault-passphrase', async (_, { current, next }: { current?: string; next?: string }) => {
+  try {
+    await captureVault.changeProvider(vaultProvider(current), vaultProvider(next));
+    return { success: true };
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('rotate-vault-key', async (_, passphrase?: string) => {
+  try {
+    const rewrapped = await captureVault.rotate(vaultProvider(passphrase), captureDirectories());
+    return { success: true, rewrapped };
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : String(error) };
+  }
+});
+
 // Quit application
 ipcMain.on('quit-app', () => {
   app.quit();
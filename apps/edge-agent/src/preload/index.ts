@@ -1,5 +1,6 @@
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
 import type { ElectronAPI } from '../types/electron';
+import type { PersonCard } from '../services/api';
 
 // Audio capture state
 let audioCleanup: (() => void) | null = null;
@@ -156,6 +157,9 @@ if (!window.electron) {
     // Screen
     getScreenSize,
 
+    // Memory
+    getPersonCard: (person: string) => ipcRenderer.invoke('get-person-card', person) as Promise<PersonCard | null>,
+
     // Audio
     startAudioCapture: async (): Promise<void> => {
       if (audioCleanup) {
@@ -1,11 +1,12 @@
 import { realtimeService, RealtimeService, MessageType } from '../../services/RealtimeService';
 import { v4 as uuidv4 } from 'uuid';
 import type { ElectronAPI } from '../../types/electron';
+import type { PersonCard } from '../../services/api';
 import logo from '../../assets/logo.png';
 
 interface AssistantMessage {
   id: string;
-  type: MessageType;
+  type: MessageType | 'person_card';
   content: string;
   timestamp: number;
   contextId?: string;
@@ -271,6 +272,11 @@ class FloatingAssistantUI {
       this.isTyping = false;
       this.updateTypingIndicator();
 
+      // Drafts addressed to someone come with their person card
+      if (message.metadata?.compose_to) {
+        this.showPersonCard(message.metadata.compose_to);
+      }
+
       // Auto-open panel on message
       if (!this.isPanelOpen) {
         this.openPanel();
@@ -305,6 +311,10 @@ class FloatingAssistantUI {
         source: suggestion.source,
         metadata: suggestion.metadata
       });
+
+      if (suggestion.metadata?.compose_to) {
+        this.showPersonCard(suggestion.metadata.compose_to);
+      }
     });
 
     // Handle errors
@@ -578,6 +588,10 @@ class FloatingAssistantUI {
           `;
           break;
 
+        case 'person_card':
+          content = this.renderPersonCard(message.metadata?.card as PersonCard);
+          break;
+
         case 'status':
           content = `
             <div class="status-message" style="text-align: center; color: #666; font-size: 12px; margin: 8px 0; font-style: italic;">
@@ -605,6 +619,61 @@ class FloatingAssistantUI {
     this.scrollToBottom();
   }
 
+  private renderPersonCard(card: PersonCard): string {
+    const escape = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+    const day = (timestamp: string) => new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' });
+    const promises = [
+      ...card.open_promises.by_them.map(task => `<li>They owe: ${escape(task.title)}</li>`),
+      ...card.open_promises.to_them.map(task => `<li>You owe: ${escape(task.title)}</li>`),
+    ];
+    const trendIcon = { rising: '↗', falling: '↘', steady: '→' }[card.relationship_strength.trend];
+
+    return `
+      <div class="person-card">
+        <div class="person-card-header">
+          <strong>${escape(card.entity.name)}</strong>
+          <span class="person-card-strength" title="Relationship strength">
+            ${Math.round(card.relationship_strength.current * 100)}% ${trendIcon}
+          </span>
+        </div>
+        <div class="person-card-section">
+          <div class="person-card-label">Last interactions</div>
+          <ul>${card.last_interactions.map(item =>
+            `<li>${item.kind === 'email' ? '✉️' : '📅'} ${escape(item.title)} <span class="message-time">${day(item.timestamp)}</span></li>`
+          ).join('') || '<li>None yet</li>'}</ul>
+        </div>
+        ${promises.length > 0 ? `
+          <div class="person-card-section">
+            <div class="person-card-label">Open promises</div>
+            <ul>${promises.join('')}</ul>
+          </div>` : ''}
+        ${card.tone_history.points.length > 1 ? `
+          <div class="person-card-section">
+            <div class="person-card-label">Tone</div>
+            ${this.sparkline(card.tone_history.points.map(point => point.score), -1, 1)}
+          </div>` : ''}
+        ${card.suggested_openers.length > 0 ? `
+          <div class="person-card-section">
+            <div class="person-card-label">Openers</div>
+            <ul>${card.suggested_openers.map(opener => `<li>${escape(opener)}</li>`).join('')}</ul>
+          </div>` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Inline SVG line for a series of values between min and max
+   */
+  private sparkline(values: number[], min: number, max: number, width = 120, height = 24): string {
+    const step = width / Math.max(1, values.length - 1);
+    const points = values
+      .map((value, i) => `${(i * step).toFixed(1)},${(height - ((value - min) / (max - min)) * height).toFixed(1)}`)
+      .join(' ');
+    return `<svg class="sparkline" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+      <polyline points="${points}" fill="none" stroke="currentColor" stroke-width="1.5" />
+    </svg>`;
+  }
+
   private formatMessageContent(content: any): string {
     if (typeof content !== 'string') {
       try {
@@ -661,6 +730,28 @@ class FloatingAssistantUI {
     }, 10000); // 10 second timeout
   }
 
+  /**
+   * Show the person card for whoever the user is composing to
+   * (entity ID, name or email address)
+   */
+  public async showPersonCard(person: string): Promise<void> {
+    try {
+      const card = await window.ellipsa?.getPersonCard?.(person);
+      if (!card) return;
+
+      this.addMessage({
+        id: uuidv4(),
+        type: 'person_card',
+        content: card.entity.name,
+        timestamp: Date.now(),
+        contextId: this.activeContextId || undefined,
+        metadata: { card }
+      });
+    } catch (error) {
+      console.error('[FloatingAssistantUI] Error loading person card:', error);
+    }
+  }
+
   public showNotification(message: string, type: 'info' | 'error' | 'success' = 'info'): void {
     // Show badge
     const badge = this.button.querySelector('.notification-badge') as HTMLElement;
@@ -1,4 +1,15 @@
 import { Notification, ElectronAPI } from '@ellipsa/shared/electron';
+import { realtimeService } from './RealtimeService';
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  if (minutes < 24 * 60) {
+    const hours = Math.round(minutes / 60);
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  const days = Math.round(minutes / (24 * 60));
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
 
 export class NotificationService {
   private notifications: Notification[] = [];
@@ -10,6 +21,8 @@ export class NotificationService {
   private constructor() {
     this.loadNotifications();
     this.setupElectronListeners();
+    this.setupTaskListeners();
+    this.setupSessionListeners();
   }
 
   public static getInstance(): NotificationService {
@@ -47,6 +60,49 @@ export class NotificationService {
     }
   }
 
+  // Due date reminders and overdue notices from the memory service scheduler
+  private setupTaskListeners() {
+    realtimeService.on('task:due', (message: any) => {
+      const { task, minutes_left } = message.data || {};
+      if (!task) return;
+
+      this.addNotification({
+        type: 'reminder',
+        title: task.title,
+        message: `Due in ${formatMinutes(Math.max(0, minutes_left ?? 0))}`,
+        data: message.data
+      });
+    });
+
+    realtimeService.on('task:overdue', (message: any) => {
+      const { task, overdue_minutes, escalated } = message.data || {};
+      if (!task) return;
+
+      const priority = escalated ? `; priority raised to ${escalated.to}` : '';
+      this.addNotification({
+        type: 'alert',
+        title: task.title,
+        message: `Overdue by ${formatMinutes(Math.max(0, overdue_minutes ?? 0))}${priority}`,
+        data: message.data
+      });
+    });
+  }
+
+  // "Captured 3 items — review?" once a meeting or work session ends
+  private setupSessionListeners() {
+    realtimeService.on('session:review', (message: any) => {
+      const { session, message: text } = message.data || {};
+      if (!session) return;
+
+      this.addNotification({
+        type: 'system',
+        title: session.title,
+        message: text,
+        data: message.data
+      });
+    });
+  }
+
   private async syncWithMainProcess() {
     const electronAPI = (window as any).electronAPI as ElectronAPI | undefined;
     
@@ -1,7 +1,7 @@
 import { EventEmitter } from 'events';
 import { WebSocketClient } from './WebSocketClient';
 
-export type MessageType = 'status' | 'transcript' | 'action' | 'error' | 'suggestion' | 'assistant_message' | 'user_message';
+export type MessageType = 'status' | 'transcript' | 'action' | 'error' | 'suggestion' | 'assistant_message' | 'user_message' | 'task:due' | 'task:overdue' | 'session:review';
 
 export interface RealtimeMessage {
   type: MessageType;
@@ -61,8 +61,8 @@ export class RealtimeService extends EventEmitter {
         const parsed = typeof message === 'string' ? JSON.parse(message) : message;
         this.emit('message', parsed);
         
-        // Emit specific message types
-        if (parsed.type) {
+        // Emit specific message types; subscribed ones are emitted by their handlers
+        if (parsed.type && !Array.isArray(parsed.subscriptions)) {
           this.emit(parsed.type, parsed);
         }
       } catch (error) {
@@ -70,6 +70,11 @@ export class RealtimeService extends EventEmitter {
       }
     });
 
+    // Reminders and session reviews, for NotificationService
+    for (const channel of ['task:due', 'task:overdue', 'session:review'] as const) {
+      this.wsClient.subscribe(channel, undefined, message => this.emit(channel, message));
+    }
+
     // Handle errors
     this.wsClient.on('error', (error: Error) => {
       console.error('[RealtimeService] WebSocket error:', error);
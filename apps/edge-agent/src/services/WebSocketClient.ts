@@ -48,6 +48,90 @@ interface WebSocketClientOptions {
   maxReconnectAttempts?: number;
 }
 
+type FilterValue = string | number | boolean;
+type Filter<Fields extends string> = Partial<Record<Fields, FilterValue | FilterValue[]>>;
+
+/**
+ * Memory service channels, with the fields each can be filtered on and the
+ * data its messages carry
+ */
+export interface Channels {
+  'event:created': {
+    filter: Filter<'type' | 'source' | 'session_id'>;
+    data: { event: { id: string; type: string; title: string; session_id?: string | null; blob_id?: string | null; [key: string]: any } };
+  };
+  'event:progress': {
+    // id is the one the capture was sent with
+    filter: Filter<'id' | 'event_id'>;
+    data: { id: string | null; stage: 'queued' | 'extracting' | 'stored' | 'completed' | 'failed'; event_id?: string; error?: string };
+  };
+  'entity:updated': {
+    filter: Filter<'entity_id' | 'type'>;
+    data: { entity: { id: string; name: string; type: string }; created: boolean; event_id: string };
+  };
+  'task:due': {
+    filter: Filter<'task_id' | 'priority'>;
+    data: { task: { id: string; title: string; priority: string; [key: string]: any }; due_at: string; minutes_left?: number };
+  };
+  'task:overdue': {
+    filter: Filter<'task_id' | 'priority'>;
+    data: {
+      task: { id: string; title: string; priority: string; [key: string]: any };
+      due_at: string;
+      overdue_minutes?: number;
+      escalated?: { from: string; to: string };
+    };
+  };
+  'session:review': {
+    filter: Filter<'kind'>;
+    data: { session: { id: string; title: string; kind: string; [key: string]: any }; item_count: number; message: string };
+  };
+  'email:received': {
+    filter: Filter<'from' | 'thread_id'>;
+    data: {
+      email: {
+        id: string;
+        thread_id?: string;
+        subject?: string;
+        from: { name?: string; address: string };
+        to: Array<{ name?: string; address: string }>;
+        date?: string;
+        snippet?: string;
+      };
+    };
+  };
+}
+
+export type Channel = keyof Channels;
+
+export interface ChannelMessage<C extends Channel> {
+  type: C;
+  data: Channels[C]['data'];
+  timestamp: string;
+  /** Position in the service's stream, used to resume after reconnecting */
+  seq: number;
+  /** This client's subscriptions the message matched */
+  subscriptions: string[];
+}
+
+export interface Subscription {
+  readonly id: string;
+  readonly channel: Channel;
+  unsubscribe(): void;
+}
+
+interface ActiveSubscription {
+  channel: Channel;
+  filter?: Record<string, FilterValue | FilterValue[]>;
+  handler: (message: ChannelMessage<any>) => void;
+  /** Everything up to here has been received; where to resume from */
+  lastSeq?: number;
+  /** Between subscribing and the server's reply */
+  pending: boolean;
+  /** Replayed messages still to come, and the point they bring us up to */
+  replay?: { remaining: number; until: number };
+}
+
 export class WebSocketClient extends EventEmitter {
   private ws: WebSocketInstance | null = null;
   private readonly url: string;
@@ -59,6 +143,9 @@ export class WebSocketClient extends EventEmitter {
   private reconnectTimeout: any = null;
   private messageQueue: Array<{ data: any; callback?: (error?: Error) => void }> = [];
   private sessionId: string = uuidv4();
+  private subscriptions = new Map<string, ActiveSubscription>();
+  // The server's stream; sequence numbers only mean something within one
+  private stream: string | null = null;
 
   constructor(options: WebSocketClientOptions) {
     super();
@@ -115,6 +202,7 @@ export class WebSocketClient extends EventEmitter {
     this.isConnected = true;
     this.reconnectAttempts = 0;
     this.emit('connected');
+    this.resubscribe();
     this.flushMessageQueue();
   }
 
@@ -135,6 +223,9 @@ export class WebSocketClient extends EventEmitter {
         data = event.data;
       }
 
+      if (data && typeof data === 'object') {
+        this.handleChannelMessage(data);
+      }
       this.emit('message', data);
     } catch (error) {
       console.error('Error processing message:', error);
@@ -142,6 +233,95 @@ export class WebSocketClient extends EventEmitter {
     }
   }
 
+  private handleChannelMessage(message: any): void {
+    if (message.type === 'subscribed') {
+      const subscription = this.subscriptions.get(message.subscription);
+      if (!subscription) return;
+
+      this.stream = message.stream;
+      subscription.pending = false;
+      if (message.replayed > 0) {
+        subscription.replay = { remaining: message.replayed, until: message.seq };
+      } else {
+        subscription.lastSeq = Math.max(subscription.lastSeq ?? 0, message.seq);
+      }
+      if (!message.complete) {
+        // Some of what was missed is gone; listeners should reload
+        this.emit('resync', { subscription: message.subscription, channel: message.channel });
+      }
+      return;
+    }
+
+    if (typeof message.seq !== 'number' || !Array.isArray(message.subscriptions)) return;
+
+    for (const [id, subscription] of this.subscriptions) {
+      const matched = message.subscriptions.includes(id);
+      if (subscription.replay) {
+        if (!matched) continue;
+        subscription.lastSeq = message.seq;
+        if (--subscription.replay.remaining === 0) {
+          subscription.lastSeq = subscription.replay.until;
+          subscription.replay = undefined;
+        }
+      } else if (!subscription.pending && subscription.lastSeq !== undefined) {
+        // Messages arrive in order, so anything earlier that matched has arrived
+        subscription.lastSeq = Math.max(subscription.lastSeq, message.seq);
+      }
+      if (matched) {
+        subscription.handler(message);
+      }
+    }
+  }
+
+  /**
+   * Receive the messages on `channel` that match `filter`, e.g.
+   * subscribe('event:progress', { id: captureId }, onProgress). The
+   * subscription is renewed after reconnecting, with anything missed in
+   * between replayed first.
+   */
+  public subscribe<C extends Channel>(
+    channel: C,
+    filter: Channels[C]['filter'] | undefined,
+    handler: (message: ChannelMessage<C>) => void
+  ): Subscription {
+    const id = uuidv4();
+    this.subscriptions.set(id, { channel, filter: filter as ActiveSubscription['filter'], handler, pending: false });
+    if (this.isConnected) {
+      this.sendSubscribe(id);
+    }
+
+    return {
+      id,
+      channel,
+      unsubscribe: () => {
+        if (this.subscriptions.delete(id) && this.isConnected) {
+          this.send({ type: 'unsubscribe', subscription: id });
+        }
+      },
+    };
+  }
+
+  private resubscribe(): void {
+    for (const id of this.subscriptions.keys()) {
+      this.sendSubscribe(id);
+    }
+  }
+
+  private sendSubscribe(id: string): void {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return;
+
+    subscription.pending = true;
+    subscription.replay = undefined;
+    this.send({
+      type: 'subscribe',
+      id,
+      channel: subscription.channel,
+      filter: subscription.filter,
+      ...(this.stream && subscription.lastSeq !== undefined ? { since: subscription.lastSeq, stream: this.stream } : {}),
+    });
+  }
+
   private handleError(error: Event | Error): void {
     console.error('WebSocket error:', error);
     this.emit('error', error);
@@ -63,6 +63,40 @@ class ServiceClient {
   }
 }
 
+// Retention rule from the memory service: days in the hot lane, and before
+// purging; null keeps the item
+export interface RetentionRule {
+  type: 'event' | 'session' | 'summary' | 'screenshot';
+  source: string | null;
+  hotDays: number | null;
+  warmDays: number | null;
+}
+
+// Person card returned by the memory service (design.md 9.4)
+export interface PersonCard {
+  entity: { id: string; name: string; type: string; description?: string | null };
+  interaction_count: number;
+  last_interactions: Array<{ event_id: string; kind: 'event' | 'email'; title: string; timestamp: string; summary?: string }>;
+  open_promises: {
+    by_them: Array<{ id: string; title: string; due_date?: string }>;
+    to_them: Array<{ id: string; title: string; due_date?: string }>;
+  };
+  tone_history: { points: Array<{ timestamp: string; score: number }>; average: number | null };
+  relationship_strength: { current: number; trend: 'rising' | 'falling' | 'steady'; series: Array<{ date: string; value: number }> };
+  suggested_openers: string[];
+}
+
+// Stored capture or attachment, keyed by the sha256 of its content
+export interface BlobInfo {
+  id: string;
+  mime_type: string;
+  size: number;
+  width?: number | null;
+  height?: number | null;
+  thumbnail_id?: string | null;
+  deduplicated: boolean;
+}
+
 // Memory client implementation
 export class MemoryClient extends ServiceClient {
   constructor(baseUrl: string) {
@@ -83,6 +117,117 @@ export class MemoryClient extends ServiceClient {
       url: `/events?query=${encodeURIComponent(query)}`,
     });
   }
+
+  // Chronological timeline for a person and/or topic, with a prompt-ready chronology block
+  async getTimeline(params: { entity?: string; topic?: string; from?: Date; to?: Date; limit?: number }) {
+    const query = new URLSearchParams();
+    if (params.entity) query.set('entity', params.entity);
+    if (params.topic) query.set('topic', params.topic);
+    if (params.from) query.set('from', params.from.toISOString());
+    if (params.to) query.set('to', params.to.toISOString());
+    if (params.limit) query.set('limit', String(params.limit));
+
+    const response = await this.request({
+      method: 'GET',
+      url: `/api/v1/timeline?${query.toString()}`,
+    });
+    return response.data as { count: number; chronology: string; days: any[] };
+  }
+
+  // Person card for an entity ID, name or email address; null if the person is unknown
+  async getPersonCard(person: string, options: { openers?: boolean } = {}) {
+    let entityId = person;
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(person)) {
+      const resolved = await this.request({
+        method: 'POST',
+        url: '/api/v1/entities/resolve',
+        data: person.includes('@') ? { email: person, create: false } : { name: person, create: false },
+      });
+      if (!resolved.data?.entity) return null;
+      entityId = resolved.data.entity.id;
+    }
+
+    const query = options.openers === false ? '?openers=false' : '';
+    const response = await this.request({
+      method: 'GET',
+      url: `/api/v1/entities/${encodeURIComponent(entityId)}/card${query}`,
+    });
+    return response.data as PersonCard;
+  }
+
+  // Tasks, commitments and facts captured in a session, for the post-session review
+  async getSessionReview(sessionId: string) {
+    const response = await this.request({
+      method: 'GET',
+      url: `/api/v1/sessions/${encodeURIComponent(sessionId)}/review`,
+    });
+    return response.data as { session: any; items: { tasks: any[]; commitments: any[]; facts: any[] }; item_count: number };
+  }
+
+  // Accept a session's items (minus the unticked ones in `discard`) or discard them all
+  async reviewSession(sessionId: string, answer: { action: 'accept'; discard?: string[] } | { action: 'discard' }) {
+    const response = await this.request({
+      method: 'POST',
+      url: `/api/v1/sessions/${encodeURIComponent(sessionId)}/review`,
+      data: answer,
+    });
+    return response.data as { session: any; kept: number; discarded: number };
+  }
+
+  // Retention rules in force; screenshots follow the rule with type 'screenshot'
+  async getRetentionPolicy() {
+    const response = await this.request({
+      method: 'GET',
+      url: '/api/v1/retention/policy',
+    });
+    return response.data as RetentionRule[];
+  }
+
+  // Items exempt from retention; screenshot pins hold file names
+  async getRetentionPins(type?: RetentionRule['type']) {
+    const response = await this.request({
+      method: 'GET',
+      url: `/api/v1/retention/pins${type ? `?type=${type}` : ''}`,
+    });
+    return response.data as Array<{ id: string; item_type: string; item_id: string; reason: string | null }>;
+  }
+
+  // Keep an item past its retention window
+  async pinItem(type: RetentionRule['type'], id: string, reason?: string) {
+    const response = await this.request({
+      method: 'POST',
+      url: '/api/v1/retention/pins',
+      data: { item_type: type, item_id: id, reason },
+    });
+    return response.data;
+  }
+
+  async unpinItem(type: RetentionRule['type'], id: string) {
+    const response = await this.request({
+      method: 'DELETE',
+      url: `/api/v1/retention/pins/${type}/${encodeURIComponent(id)}`,
+    });
+    return response.data;
+  }
+
+  // Upload a screenshot or recording as a raw body; the same bytes twice give the same ID
+  async uploadBlob(data: Buffer, mimeType: string, filename?: string) {
+    const query = filename ? `?filename=${encodeURIComponent(filename)}` : '';
+    const response = await fetch(`${this.baseUrl}/api/v1/blobs${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': mimeType, 'X-Service-Name': this.serviceName },
+      body: new Uint8Array(data),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return (await response.json()).data as BlobInfo;
+  }
+
+  // Where the UI loads a blob, or its thumbnail, from
+  blobUrl(id: string, variant?: 'thumbnail') {
+    return `${this.baseUrl}/api/v1/blobs/${id}${variant ? `/${variant}` : ''}`;
+  }
 }
 
 // Service URLs - these should come from environment variables in production
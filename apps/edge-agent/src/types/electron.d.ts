@@ -1,4 +1,5 @@
 import { IpcRendererEvent } from 'electron';
+import type { PersonCard } from '../services/api';
 
 // Main Electron API interface
 export interface ElectronAPI {
@@ -27,6 +28,7 @@ export interface ElectronAPI {
   getIconData: (path: string) => Promise<string>;
   getIconPath: (name: string) => Promise<string>;
   getScreenSize: () => Promise<{ width: number; height: number; x: number; y: number }>;
+  getPersonCard: (person: string) => Promise<PersonCard | null>;
   startAudioCapture: () => Promise<void>;
   stopAudioCapture: () => void;
   onAudioLevel: (callback: (level: number) => void) => () => void;
@@ -117,8 +117,11 @@ export class EmailProcessingService {
         }
       }
 
-      // 2. Generate response using prompt service
-      const prompt = this.createResponsePrompt(email, conversationHistory, context.additionalContext);
+      // 2. Chronology of earlier interactions with the sender (design.md 7.3)
+      const chronology = await this.getSenderChronology(email);
+
+      // 3. Generate response using prompt service
+      const prompt = this.createResponsePrompt(email, conversationHistory, context.additionalContext, chronology);
       // Create a formatted prompt with parameters
       const formattedPrompt = `Prompt: ${prompt}\n\nMax Tokens: 1000\nTemperature: 0.7`;
       const response = await this.promptService.generateText({
@@ -127,7 +130,7 @@ export class EmailProcessingService {
         temperature: 0.7
       });
 
-      // 3. Create draft response
+      // 4. Create draft response
       const draft: DraftResponse = {
         threadId: email.threadId,
         to: [email.from],
@@ -138,7 +141,7 @@ export class EmailProcessingService {
         emailId: email.id  // Add emailId to reference the original email
       };
 
-      // 4. Send draft notification
+      // 5. Send draft notification
       await notificationBridge.notifyDraftReady({
         threadId: draft.threadId || '',
         to: draft.to.map(addr => addr.address),
@@ -149,7 +152,7 @@ export class EmailProcessingService {
         emailId: email.id
       });
 
-      // 5. Update email status
+      // 6. Update email status
       await this.memoryService.updateEmailStatus(email.id, 'drafted');
       return draft;
     } catch (error) {
@@ -310,10 +313,33 @@ export class EmailProcessingService {
     return Array.from(categories);
   }
 
+  /**
+   * Timeline of the last 90 days with the sender, falling back to the subject
+   * when the sender is not a known entity. Drafting goes on without it.
+   */
+  private async getSenderChronology(email: EmailMessage): Promise<string | null> {
+    if (!this.memoryService.getChronology) return null;
+
+    const from = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+    const sender = email.from?.name || email.from?.address;
+    const topic = email.subject?.replace(/^(re|fwd?):\s*/i, '');
+
+    try {
+      const chronology = sender
+        ? await this.memoryService.getChronology({ entity: sender, from, limit: 20 })
+        : null;
+      return chronology ?? (topic ? await this.memoryService.getChronology({ topic, from, limit: 20 }) : null);
+    } catch (error) {
+      console.warn('Could not load chronology for draft:', error);
+      return null;
+    }
+  }
+
   private createResponsePrompt(
     email: EmailMessage,
     conversationHistory: EmailMessage[],
-    additionalContext?: string
+    additionalContext?: string,
+    chronology?: string | null
   ): string {
     // Format the conversation history
     const history = conversationHistory
@@ -349,11 +375,14 @@ ${emailInfo.cc ? `CC: ${emailInfo.cc}\n` : ''}Has Attachments: ${emailInfo.hasAt
 === CONVERSATION HISTORY ===
 ${history || 'No previous messages in this thread.'}
 
+=== CHRONOLOGY ===
+${chronology || 'No earlier interactions recorded.'}
+
 === ADDITIONAL CONTEXT ===
 ${additionalContext || 'No additional context provided.'}
 
 === INSTRUCTIONS ===
-1. Carefully read the entire conversation history to understand the context.
+1. Carefully read the entire conversation history to understand the context. Use the chronology for earlier interactions and open commitments with the sender.
 2. Identify all questions, requests, or action items that need to be addressed.
 3. Consider the tone and style of the conversation.
 4. Draft a response that is:
@@ -1,5 +1,13 @@
 import type { EmailMessage, EmailSummary, DraftResponse } from '../types/email.types.js';
 
+export interface ChronologyQuery {
+  entity?: string;
+  topic?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
 export interface IEmailMemoryService {
   // Core email operations
   storeEmail(email: EmailMessage): Promise<void>;
@@ -10,6 +18,9 @@ export interface IEmailMemoryService {
   storeEmailSummary(summary: EmailSummary): Promise<void>;
   updateEmailStatus(emailId: string, status: string): Promise<void>;
   getConversationHistory(threadId: string): Promise<EmailMessage[]>;
+
+  // Chronology block from the memory service timeline, null if unavailable
+  getChronology?(query: ChronologyQuery): Promise<string | null>;
   
   // Draft operations
   createDraft(draft: any): Promise<DraftResponse>;
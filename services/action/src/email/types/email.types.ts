@@ -11,6 +11,8 @@ export interface EmailAttachment {
   size: number;
   content: Uint8Array;
   contentId?: string;
+  /** Set once the content is in the memory service's blob store; content is then empty */
+  blobId?: string;
 }
 
 export interface EmailMessage {
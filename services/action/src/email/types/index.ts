@@ -9,6 +9,8 @@ export interface EmailAttachment {
   size: number;
   content: Buffer;
   contentId?: string;
+  /** Set once the content is in the memory service's blob store; content is then empty */
+  blobId?: string;
 }
 
 export interface EmailMessage {
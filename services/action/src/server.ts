@@ -5,7 +5,8 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { GmailEmailService } from './email/services/GmailEmailService.js';
 import { EmailProcessingService } from './email/services/EmailProcessingService.js';
-import { IEmailMemoryService } from './email/services/IEmailMemoryService.js';
+import axios from 'axios';
+import { IEmailMemoryService, ChronologyQuery } from './email/services/IEmailMemoryService.js';
 import { EmailMemoryService } from './email/services/EmailMemoryService.js';
 import { PromptService } from '@ellipsa/prompt';
 import { createEmailRouter } from './email/routes.js';
@@ -67,6 +68,7 @@ class MemoryServiceClient implements IEmailMemoryService {
   public readonly drafts: Map<string, DraftResponse> = new Map();
 
   async storeEmail(email: EmailMessage): Promise<void> {
+    const isNew = !this.emails.has(email.id);
     // Convert attachments content to Uint8Array if it's a Buffer
     const processedEmail = {
       ...email,
@@ -78,7 +80,13 @@ class MemoryServiceClient implements IEmailMemoryService {
           : attachment.content
       }))
     } as ExtendedEmailMessage;
+    if (processedEmail.attachments) {
+      processedEmail.attachments = await Promise.all(processedEmail.attachments.map(attachment => this.offloadAttachment(attachment, email.id)));
+    }
     this.emails.set(email.id, processedEmail);
+    if (isNew) {
+      await this.announceEmail(email);
+    }
   }
 
   async storeEmailSummary(summary: EmailSummary): Promise<void> {
@@ -97,11 +105,14 @@ class MemoryServiceClient implements IEmailMemoryService {
     // Ensure attachments content is Uint8Array
     return {
       ...email,
-      attachments: email.attachments?.map(attachment => ({
-        ...attachment,
-        content: attachment.content instanceof Uint8Array 
-          ? Buffer.from(attachment.content.buffer)
-          : attachment.content
+      attachments: email.attachments && await Promise.all(email.attachments.map(async attachment => {
+        const { content } = await this.loadAttachment(attachment);
+        return {
+          ...attachment,
+          content: content instanceof Uint8Array 
+            ? Buffer.from(content.buffer)
+            : content
+        };
       }))
     };
   }
@@ -154,6 +165,120 @@ class MemoryServiceClient implements IEmailMemoryService {
     }
   }
 
+  // Cached emails and drafts sent to, from or copying any of `addresses`; all of them for null
+  findByAddresses(addresses: string[] | null): { emails: ExtendedEmailMessage[]; drafts: DraftResponse[] } {
+    const wanted = new Set((addresses || []).map(address => address.trim().toLowerCase()));
+    const involves = (message: { from?: EmailAddress; to?: EmailAddress[]; cc?: EmailAddress[]; bcc?: EmailAddress[] }) =>
+      addresses === null || [message.from, ...(message.to || []), ...(message.cc || []), ...(message.bcc || [])]
+        .some(party => party?.address && wanted.has(party.address.toLowerCase()));
+
+    return {
+      emails: Array.from(this.emails.values()).filter(involves),
+      drafts: Array.from(this.drafts.values()).filter(involves),
+    };
+  }
+
+  // Drop the cached emails and drafts involving any of `addresses`, and
+  // their hold on stored attachments
+  async forgetAddresses(addresses: string[] | null): Promise<{ emails: number; drafts: number }> {
+    const { emails, drafts } = this.findByAddresses(addresses);
+    for (const email of emails) {
+      this.emails.delete(email.id);
+    }
+    for (const [id, draft] of this.drafts) {
+      if (drafts.includes(draft)) this.drafts.delete(id);
+    }
+
+    for (const email of emails) {
+      for (const blobId of new Set(email.attachments?.map(attachment => attachment.blobId))) {
+        if (!blobId) continue;
+        try {
+          // The store keeps the blob while another email or an event holds it
+          await axios.delete(`${this.blobsUrl}/${blobId}`, { params: { owner: `email:${email.id}` }, timeout: 5000 });
+        } catch (error) {
+          if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+            console.warn(`Failed to delete attachment blob ${blobId}:`, error instanceof Error ? error.message : error);
+          }
+        }
+      }
+    }
+    return { emails: emails.length, drafts: drafts.length };
+  }
+
+  // Move an attachment's content to the memory service's blob store, where
+  // the same file received twice is kept once, held by the email it came
+  // with. Kept inline if that fails.
+  private async offloadAttachment(attachment: EmailAttachment, emailId: string): Promise<EmailAttachment> {
+    if (attachment.blobId || !attachment.content?.length) return attachment;
+    try {
+      const response = await axios.post(this.blobsUrl, Buffer.from(attachment.content), {
+        headers: { 'Content-Type': attachment.mimeType || 'application/octet-stream' },
+        params: { filename: attachment.filename, owner: `email:${emailId}` },
+        maxBodyLength: Infinity,
+        timeout: 30000,
+      });
+      return { ...attachment, blobId: response.data.data.id, content: new Uint8Array(0) };
+    } catch (error) {
+      console.warn(`Failed to store attachment ${attachment.filename}:`, error instanceof Error ? error.message : error);
+      return attachment;
+    }
+  }
+
+  // An attachment with its content, fetched back from the blob store if it was moved there
+  async loadAttachment(attachment: EmailAttachment): Promise<EmailAttachment> {
+    if (!attachment.blobId) return attachment;
+    const response = await axios.get(`${this.blobsUrl}/${attachment.blobId}`, {
+      responseType: 'arraybuffer',
+      timeout: 30000,
+    });
+    return { ...attachment, content: new Uint8Array(response.data) };
+  }
+
+  // Tell the memory service, which passes it on to email:received subscribers
+  private async announceEmail(email: EmailMessage): Promise<void> {
+    const baseUrl = process.env.MEMORY_SERVICE_URL || 'http://localhost:4001';
+    try {
+      await axios.post(`${baseUrl}/api/v1/notifications/email`, {
+        id: email.id,
+        thread_id: email.threadId,
+        subject: email.subject,
+        from: email.from,
+        to: email.to,
+        date: email.date?.toISOString(),
+        snippet: (email.snippet ?? email.text)?.substring(0, 150),
+      }, { timeout: 5000 });
+    } catch (error) {
+      console.warn('Failed to announce new email:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private get blobsUrl(): string {
+    return `${process.env.MEMORY_SERVICE_URL || 'http://localhost:4001'}/api/v1/blobs`;
+  }
+
+  async getChronology(query: ChronologyQuery): Promise<string | null> {
+    const baseUrl = process.env.MEMORY_SERVICE_URL || 'http://localhost:4001';
+    try {
+      const response = await axios.get(`${baseUrl}/api/v1/timeline`, {
+        params: {
+          entity: query.entity,
+          topic: query.topic,
+          from: query.from?.toISOString(),
+          to: query.to?.toISOString(),
+          limit: query.limit,
+        },
+        timeout: 5000,
+      });
+      return response.data?.data?.count > 0 ? response.data.data.chronology : null;
+    } catch (error) {
+      // 404 means the sender is not a known entity
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+        console.warn('Failed to fetch chronology from memory service:', error instanceof Error ? error.message : error);
+      }
+      return null;
+    }
+  }
+
   private convertAttachments(attachments?: EmailAttachment[]): Array<EmailAttachment & { content: Buffer }> | undefined {
     if (!attachments) return undefined;
     return attachments.map(attachment => ({
@@ -163,6 +288,25 @@ class MemoryServiceClient implements IEmailMemoryService {
   }
 }
 
+// Attachments as base64, so a message survives JSON
+function withPortableAttachments<T extends { attachments?: EmailAttachment[] }>(message: T) {
+  return {
+    ...message,
+    attachments: message.attachments?.map(attachment => ({
+      ...attachment,
+      content: Buffer.from(attachment.content).toString('base64'),
+    })),
+  };
+}
+
+// Addresses named in a privacy request; null for { all: true }, undefined if invalid
+function addressList(body: any): string[] | null | undefined {
+  if (body?.all === true) return null;
+
+  const addresses = body?.addresses;
+  return Array.isArray(addresses) && addresses.every(address => typeof address === 'string') ? addresses : undefined;
+}
+
 interface Services {
   emailService: GmailEmailService;
   processingService: EmailProcessingService;
@@ -179,7 +323,8 @@ async function initializeServices(app: express.Express): Promise<Services> {
     apiKey: process.env.OPENAI_API_KEY || '',
     defaultModel: 'gpt-4',
   });
-  const memoryService: IEmailMemoryService = new MemoryServiceClient();
+  const emailCache = new MemoryServiceClient();
+  const memoryService: IEmailMemoryService = emailCache;
   const processingService = new EmailProcessingService(promptService, memoryService);
   
   // Create Gmail service without initializing it yet
@@ -197,6 +342,40 @@ async function initializeServices(app: express.Express): Promise<Services> {
   // Set up routes
   const emailRouter = createEmailRouter(services.emailService, services.processingService);
   app.use('/api/emails', emailRouter);
+
+  // Cached emails involving a contact, for the memory service's privacy
+  // export and erasure (design.md 10.4)
+  app.post('/api/privacy/export', async (req, res) => {
+    const addresses = addressList(req.body);
+    if (addresses === undefined) {
+      return res.status(400).json({ error: 'addresses must be an array of email addresses, or all must be true' });
+    }
+
+    // Attachments moved to the blob store are fetched back, so the export is whole
+    const withContent = async <T extends { attachments?: EmailAttachment[] }>(message: T) => withPortableAttachments({
+      ...message,
+      attachments: message.attachments && await Promise.all(message.attachments.map(attachment => emailCache.loadAttachment(attachment))),
+    });
+    try {
+      const { emails, drafts } = emailCache.findByAddresses(addresses);
+      return res.json({
+        emails: await Promise.all(emails.map(withContent)),
+        drafts: await Promise.all(drafts.map(withContent)),
+      });
+    } catch (error) {
+      console.error('Failed to load attachments for export:', error);
+      return res.status(502).json({ error: 'Attachments could not be read from the memory service' });
+    }
+  });
+
+  app.post('/api/privacy/erase', async (req, res) => {
+    const addresses = addressList(req.body);
+    if (addresses === undefined) {
+      return res.status(400).json({ error: 'addresses must be an array of email addresses, or all must be true' });
+    }
+
+    return res.json({ erased: await emailCache.forgetAddresses(addresses) });
+  });
   
   // OAuth callback route
   app.get('/oauth2callback', async (req, res) => {
@@ -10,7 +10,7 @@ export async function up(knex: Knex): Promise<void> {
       table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
     } else {
       // SQLite fallback
-      table.uuid('id').primary().defaultTo(knex.raw('(lower(hex(randomblob(4))) || "-" || lower(hex(randomblob(2))) || "-4" || substr(lower(hex(randomblob(2))),2) || "-" || substr("89ab", abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || "-" || lower(hex(randomblob(6))))'));
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
     }
     
     // Core fields
@@ -90,7 +90,9 @@ export async function up(knex: Knex): Promise<void> {
   });
   
   // Add GIN index for JSONB metadata
-  await knex.raw('CREATE INDEX idx_events_metadata ON events USING GIN (metadata jsonb_path_ops)');
+  if (isPg) {
+    await knex.raw('CREATE INDEX idx_events_metadata ON events USING GIN (metadata jsonb_path_ops)');
+  }
   
   // Vector index for similarity search (temporarily disabled)
   // if (knex.client.config.client === 'pg') {
@@ -0,0 +1,55 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  // Create the facts table
+  await knex.schema.createTable('facts', (table) => {
+    // Primary key
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    // Core fields
+    table.text('statement_text').notNullable();
+
+    // Structured form of the statement, used for contradiction detection
+    table.string('subject_entity_id', 36).nullable();
+    table.string('predicate').nullable();
+    table.text('object_value').nullable();
+
+    // Provenance
+    table.string('source_event_id', 36).nullable();
+    table.float('confidence').defaultTo(1);
+    table.timestamp('last_verified_ts').nullable();
+
+    // Versioning
+    table.string('status').notNullable().defaultTo('active');
+    table.integer('version').notNullable().defaultTo(1);
+    table.string('superseded_by', 36).nullable();
+
+    // Metadata
+    if (isPg) {
+      table.jsonb('metadata').defaultTo('{}');
+    } else {
+      table.text('metadata', 'text').defaultTo('{}');
+    }
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at').nullable();
+
+    // Indexes
+    table.index(['subject_entity_id', 'predicate']);
+    table.index(['source_event_id']);
+    table.index(['status']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('facts');
+}
@@ -0,0 +1,49 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  // Create the memory_summaries table
+  await knex.schema.createTable('memory_summaries', (table) => {
+    // Primary key
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    // Scope of the summary: a session, an entity or a calendar day
+    table.string('scope').notNullable();
+    table.string('scope_id').notNullable();
+    table.timestamp('period_start').notNullable();
+    table.timestamp('period_end').notNullable();
+
+    table.text('summary_text').notNullable();
+    table.integer('event_count').notNullable().defaultTo(0);
+
+    // JSON fields
+    if (isPg) {
+      table.jsonb('source_event_ids').defaultTo('[]');
+      table.jsonb('embedding').nullable();
+      table.jsonb('metadata').defaultTo('{}');
+    } else {
+      table.text('source_event_ids', 'text').defaultTo('[]');
+      table.text('embedding', 'text').nullable();
+      table.text('metadata', 'text').defaultTo('{}');
+    }
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at').nullable();
+
+    // A scope only has one summary per period, so consolidation can be re-run safely
+    table.unique(['scope', 'scope_id', 'period_start']);
+    table.index(['period_start']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('memory_summaries');
+}
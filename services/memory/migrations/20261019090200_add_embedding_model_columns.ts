@@ -0,0 +1,29 @@
+import { Knex } from 'knex';
+
+// Tables that store an embedding alongside the row
+const EMBEDDED_TABLES = ['events', 'entities', 'memory_summaries'];
+
+export async function up(knex: Knex): Promise<void> {
+  for (const tableName of EMBEDDED_TABLES) {
+    const hasColumn = await knex.schema.hasColumn(tableName, 'embedding_model');
+    if (!hasColumn) {
+      await knex.schema.alterTable(tableName, (table) => {
+        // Identifier of the provider that produced the embedding, e.g. local:hash-ngram-v1:384
+        table.string('embedding_model').nullable();
+        table.index(['embedding_model']);
+      });
+    }
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  for (const tableName of EMBEDDED_TABLES) {
+    const hasColumn = await knex.schema.hasColumn(tableName, 'embedding_model');
+    if (hasColumn) {
+      await knex.schema.alterTable(tableName, (table) => {
+        table.dropIndex(['embedding_model']);
+        table.dropColumn('embedding_model');
+      });
+    }
+  }
+}
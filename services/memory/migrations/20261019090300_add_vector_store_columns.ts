@@ -0,0 +1,69 @@
+import { Knex } from 'knex';
+
+// Tables searched through the vector store
+const VECTOR_TABLES = ['events', 'entities', 'tasks'];
+
+// Size of the local embedding provider's vectors. Migrations do not read the
+// runtime configuration; PgVectorStore.initialize resizes the columns to the
+// configured provider's dimensions on startup.
+const INITIAL_DIMENSIONS = 384;
+
+export async function up(knex: Knex): Promise<void> {
+  // Tasks are embedded for the vector store but keep no embedding of their own
+  const hasTaskModel = await knex.schema.hasColumn('tasks', 'embedding_model');
+  if (!hasTaskModel) {
+    await knex.schema.alterTable('tasks', (table) => {
+      table.string('embedding_model').nullable();
+      table.index(['embedding_model']);
+    });
+  }
+
+  // Mark every row as pending so the re-embedding job indexes existing data into the vector store
+  for (const tableName of VECTOR_TABLES) {
+    await knex(tableName).update({ embedding_model: null });
+  }
+
+  if (knex.client.config.client !== 'pg') return;
+
+  // pgvector is optional: only add vector columns where the server provides the extension
+  const available = await knex.raw(`SELECT 1 FROM pg_available_extensions WHERE name = 'vector'`);
+  if (available.rows.length === 0) return;
+
+  await knex.raw('CREATE EXTENSION IF NOT EXISTS vector');
+
+  for (const tableName of VECTOR_TABLES) {
+    const hasColumn = await knex.schema.hasColumn(tableName, 'embedding_vec');
+    if (!hasColumn) {
+      await knex.raw(
+        `ALTER TABLE ?? ADD COLUMN embedding_vec vector(${INITIAL_DIMENSIONS})`,
+        [tableName]
+      );
+      await knex.raw(
+        `CREATE INDEX ?? ON ?? USING hnsw (embedding_vec vector_cosine_ops)`,
+        [`idx_${tableName}_embedding_vec`, tableName]
+      );
+    }
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  if (knex.client.config.client === 'pg') {
+    for (const tableName of VECTOR_TABLES) {
+      const hasColumn = await knex.schema.hasColumn(tableName, 'embedding_vec');
+      if (hasColumn) {
+        await knex.raw(`DROP INDEX IF EXISTS ??`, [`idx_${tableName}_embedding_vec`]);
+        await knex.schema.alterTable(tableName, (table) => {
+          table.dropColumn('embedding_vec');
+        });
+      }
+    }
+  }
+
+  const hasTaskModel = await knex.schema.hasColumn('tasks', 'embedding_model');
+  if (hasTaskModel) {
+    await knex.schema.alterTable('tasks', (table) => {
+      table.dropIndex(['embedding_model']);
+      table.dropColumn('embedding_model');
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+
+// Tables whose rows keep a version history for as-of queries
+const VERSIONED_TABLES = ['entities', 'tasks', 'facts'];
+
+// Columns left out of snapshots: large and irrelevant to historical state
+const UNVERSIONED_COLUMNS = ['embedding', 'embedding_vec'];
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  await knex.schema.createTable('row_versions', (table) => {
+    // Primary key
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    // Versioned row
+    table.string('table_name').notNullable();
+    table.string('row_id', 36).notNullable();
+    table.integer('version').notNullable();
+    table.string('operation').notNullable(); // create, update or delete
+
+    // Row state while this version was current
+    if (isPg) {
+      table.jsonb('data').notNullable();
+    } else {
+      table.text('data', 'text').notNullable();
+    }
+
+    // Validity interval, valid_to is null for the current version
+    table.timestamp('valid_from').notNullable();
+    table.timestamp('valid_to').nullable();
+
+    // Indexes
+    table.unique(['table_name', 'row_id', 'version']);
+    table.index(['table_name', 'valid_from']);
+  });
+
+  // Existing rows get a first version from their current state; earlier
+  // edits were overwritten in place and cannot be recovered
+  for (const tableName of VERSIONED_TABLES) {
+    const rows = await knex(tableName).select('*');
+    const versions = rows.map(row => {
+      const data = { ...row };
+      for (const column of UNVERSIONED_COLUMNS) delete data[column];
+
+      return {
+        id: uuidv4(),
+        table_name: tableName,
+        row_id: String(row.id),
+        version: 1,
+        operation: row.deleted_at ? 'delete' : 'create',
+        data: JSON.stringify(data),
+        valid_from: new Date(row.created_at || Date.now()).toISOString(),
+        valid_to: null,
+      };
+    });
+
+    if (versions.length > 0) {
+      await knex.batchInsert('row_versions', versions, 100);
+    }
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('row_versions');
+}
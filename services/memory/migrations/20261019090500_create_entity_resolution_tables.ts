@@ -0,0 +1,96 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  const uuidPrimary = (table: Knex.CreateTableBuilder) => {
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+  };
+
+  const json = (table: Knex.CreateTableBuilder, name: string, fallback: string) => {
+    if (isPg) {
+      table.jsonb(name).defaultTo(fallback);
+    } else {
+      table.text(name, 'text').defaultTo(fallback);
+    }
+  };
+
+  // Merged entities are soft deleted and point at the entity that absorbed them
+  await knex.schema.alterTable('entities', (table) => {
+    table.uuid('merged_into').nullable();
+    table.index('merged_into');
+  });
+
+  // Alternative names, email addresses and handles that identify an entity
+  await knex.schema.createTable('entity_aliases', (table) => {
+    uuidPrimary(table);
+
+    table.uuid('entity_id').notNullable();
+    table.string('alias_type').notNullable(); // name, email or handle
+    table.string('value').notNullable();
+    table.string('normalized').notNullable();
+    table.string('source').notNullable().defaultTo('manual'); // manual, resolution or merge
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at').nullable();
+
+    table.unique(['entity_id', 'alias_type', 'normalized']);
+    table.index(['alias_type', 'normalized']);
+  });
+
+  // Pairs of entities that may be the same, waiting for a user decision
+  await knex.schema.createTable('entity_merge_candidates', (table) => {
+    uuidPrimary(table);
+
+    table.uuid('entity_id').notNullable(); // Existing entity, kept by default
+    table.uuid('candidate_id').notNullable(); // Suspected duplicate
+    table.float('confidence').notNullable();
+    json(table, 'reasons', '[]');
+    table.string('status').notNullable().defaultTo('pending'); // pending, accepted or rejected
+    table.uuid('merge_id').nullable();
+    table.timestamp('resolved_at').nullable();
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at').nullable();
+
+    table.unique(['entity_id', 'candidate_id']);
+    table.index('status');
+  });
+
+  // Every merge with the references it moved, so it can be undone
+  await knex.schema.createTable('entity_merges', (table) => {
+    uuidPrimary(table);
+
+    table.uuid('primary_id').notNullable();
+    table.uuid('merged_id').notNullable();
+    table.string('method').notNullable(); // auto, review or manual
+    table.float('confidence').nullable();
+    json(table, 'changes', '{}');
+    table.timestamp('reverted_at').nullable();
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at').nullable();
+
+    table.index('primary_id');
+    table.index('merged_id');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('entity_merges');
+  await knex.schema.dropTableIfExists('entity_merge_candidates');
+  await knex.schema.dropTableIfExists('entity_aliases');
+
+  await knex.schema.alterTable('entities', (table) => {
+    table.dropIndex('merged_into');
+    table.dropColumn('merged_into');
+  });
+}
@@ -0,0 +1,53 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  // How close the user is to each entity, from every interaction they shared
+  await knex.schema.alterTable('entities', (table) => {
+    table.float('relationship_strength').notNullable().defaultTo(0);
+    table.float('interaction_score').notNullable().defaultTo(0); // Decayed interaction count as of last_interaction_at
+    table.timestamp('last_interaction_at').nullable();
+  });
+
+  // INTERACTED_WITH aggregates between two entities, one row per direction
+  await knex.schema.createTable('entity_interactions', (table) => {
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    table.uuid('entity_id').notNullable();
+    table.uuid('contact_id').notNullable();
+    table.integer('interaction_count').notNullable().defaultTo(0);
+    table.timestamp('first_interaction_at').nullable();
+    table.timestamp('last_interaction_at').nullable();
+    if (isPg) {
+      table.jsonb('channels').defaultTo('{}'); // Interaction count per event type
+    } else {
+      table.text('channels', 'text').defaultTo('{}');
+    }
+    table.float('sentiment_sum').notNullable().defaultTo(0);
+    table.integer('sentiment_count').notNullable().defaultTo(0);
+    table.float('score').notNullable().defaultTo(0); // Decayed interaction count as of last_interaction_at
+    table.float('strength').notNullable().defaultTo(0); // 0-1, refreshed by the decay job
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['entity_id', 'contact_id']);
+    table.index(['entity_id', 'strength']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('entity_interactions');
+
+  await knex.schema.alterTable('entities', (table) => {
+    table.dropColumn('relationship_strength');
+    table.dropColumn('interaction_score');
+    table.dropColumn('last_interaction_at');
+  });
+}
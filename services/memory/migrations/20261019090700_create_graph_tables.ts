@@ -0,0 +1,54 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  // Graph nodes for the SQL graph store (GRAPH_STORE=sql), one per label and ID
+  await knex.schema.createTable('graph_nodes', (table) => {
+    table.string('label', 32).notNullable(); // Entity, Event or Task
+    table.uuid('id').notNullable();
+    if (isPg) {
+      table.jsonb('properties').defaultTo('{}');
+    } else {
+      table.text('properties', 'text').defaultTo('{}');
+    }
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.primary(['label', 'id']);
+    table.index(['id']);
+  });
+
+  // Directed, typed edges between graph nodes
+  await knex.schema.createTable('graph_edges', (table) => {
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    table.string('type', 64).notNullable();
+    table.string('from_label', 32).notNullable();
+    table.uuid('from_id').notNullable();
+    table.string('to_label', 32).notNullable();
+    table.uuid('to_id').notNullable();
+    if (isPg) {
+      table.jsonb('properties').defaultTo('{}');
+    } else {
+      table.text('properties', 'text').defaultTo('{}');
+    }
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['from_id', 'type']);
+    table.index(['to_id', 'type']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('graph_edges');
+  await knex.schema.dropTableIfExists('graph_nodes');
+}
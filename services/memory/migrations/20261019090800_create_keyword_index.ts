@@ -0,0 +1,76 @@
+import { Knex } from 'knex';
+
+// Text searched by keyword for each table (see src/db/search/keywordIndex.ts)
+const DOCUMENTS = [
+  { table: 'events', type: 'event', title: 'title' },
+  { table: 'tasks', type: 'task', title: 'title' },
+  { table: 'entities', type: 'entity', title: 'name' },
+];
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  if (isPg) {
+    // Expression indexes matching the tsvector the keyword index queries
+    for (const { table, title } of DOCUMENTS) {
+      await knex.raw(
+        `CREATE INDEX IF NOT EXISTS ${table}_keyword_idx ON ${table}
+         USING GIN (to_tsvector('simple', coalesce(${title}, '') || ' ' || coalesce(description, '')))`
+      );
+    }
+    return;
+  }
+
+  // SQLite: an FTS5 table ranked with BM25, kept in sync by triggers
+  await knex.raw(`
+    CREATE VIRTUAL TABLE keyword_index USING fts5(
+      doc_type UNINDEXED,
+      doc_id UNINDEXED,
+      title,
+      body
+    )
+  `);
+
+  for (const { table, type, title } of DOCUMENTS) {
+    await knex.raw(`
+      CREATE TRIGGER ${table}_keyword_insert AFTER INSERT ON ${table} BEGIN
+        INSERT INTO keyword_index (doc_type, doc_id, title, body)
+        VALUES ('${type}', new.id, coalesce(new.${title}, ''), coalesce(new.description, ''));
+      END
+    `);
+    await knex.raw(`
+      CREATE TRIGGER ${table}_keyword_update AFTER UPDATE OF ${title}, description ON ${table} BEGIN
+        DELETE FROM keyword_index WHERE doc_type = '${type}' AND doc_id = old.id;
+        INSERT INTO keyword_index (doc_type, doc_id, title, body)
+        VALUES ('${type}', new.id, coalesce(new.${title}, ''), coalesce(new.description, ''));
+      END
+    `);
+    await knex.raw(`
+      CREATE TRIGGER ${table}_keyword_delete AFTER DELETE ON ${table} BEGIN
+        DELETE FROM keyword_index WHERE doc_type = '${type}' AND doc_id = old.id;
+      END
+    `);
+    await knex.raw(`
+      INSERT INTO keyword_index (doc_type, doc_id, title, body)
+      SELECT '${type}', id, coalesce(${title}, ''), coalesce(description, '') FROM ${table}
+    `);
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  if (isPg) {
+    for (const { table } of DOCUMENTS) {
+      await knex.raw(`DROP INDEX IF EXISTS ${table}_keyword_idx`);
+    }
+    return;
+  }
+
+  for (const { table } of DOCUMENTS) {
+    for (const action of ['insert', 'update', 'delete']) {
+      await knex.raw(`DROP TRIGGER IF EXISTS ${table}_keyword_${action}`);
+    }
+  }
+  await knex.raw('DROP TABLE IF EXISTS keyword_index');
+}
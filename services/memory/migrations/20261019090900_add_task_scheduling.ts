@@ -0,0 +1,44 @@
+import { Knex } from 'knex';
+
+const COLUMNS = [
+  'recurrence_rule',
+  'recurrence_index',
+  'previous_occurrence_id',
+  'reminder_offsets',
+  'snoozed_until',
+  'reminded_at',
+  'overdue_notified_at',
+  'escalation_level',
+];
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  await knex.schema.alterTable('tasks', (table) => {
+    // Recurrence: an RRULE subset, the occurrence's position in the series
+    // and the occurrence it was created from
+    table.string('recurrence_rule').nullable();
+    table.integer('recurrence_index').notNullable().defaultTo(0);
+    if (isPg) {
+      table.uuid('previous_occurrence_id').nullable();
+      table.jsonb('reminder_offsets').nullable(); // Minutes before the due date
+    } else {
+      table.string('previous_occurrence_id', 36).nullable();
+      table.text('reminder_offsets', 'text').nullable();
+    }
+
+    // Scheduler state, reset whenever the due date moves
+    table.timestamp('snoozed_until').nullable();
+    table.timestamp('reminded_at').nullable(); // Time of the last reminder sent
+    table.timestamp('overdue_notified_at').nullable();
+    table.integer('escalation_level').notNullable().defaultTo(0); // Priority levels added while overdue
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  // Plain ALTER TABLE: knex would rebuild the SQLite table and lose its
+  // keyword index triggers
+  for (const column of COLUMNS) {
+    await knex.raw(`ALTER TABLE tasks DROP COLUMN ${column}`);
+  }
+}
@@ -0,0 +1,43 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  // Subtasks point at their parent; tasks blocked by their dependencies
+  // remember the status to return to once unblocked
+  await knex.schema.alterTable('tasks', (table) => {
+    table.uuid('parent_id').nullable();
+    table.string('status_before_block').nullable();
+    table.index('parent_id');
+  });
+
+  // Tasks that cannot start before another task is done
+  await knex.schema.createTable('task_dependencies', (table) => {
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    table.uuid('task_id').notNullable(); // The waiting task
+    table.uuid('depends_on_id').notNullable(); // The task it waits for
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['task_id', 'depends_on_id']);
+    table.index('depends_on_id');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('task_dependencies');
+
+  // Plain ALTER TABLE: knex would rebuild the SQLite table and lose its
+  // keyword index triggers
+  await knex.schema.alterTable('tasks', (table) => {
+    table.dropIndex('parent_id');
+  });
+  for (const column of ['parent_id', 'status_before_block']) {
+    await knex.raw(`ALTER TABLE tasks DROP COLUMN ${column}`);
+  }
+}
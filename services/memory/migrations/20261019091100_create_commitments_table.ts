@@ -0,0 +1,62 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  // Promises one party made to another, e.g. "Bob promised an updated
+  // forecast by 2025-10-02"
+  await knex.schema.createTable('commitments', (table) => {
+    // Primary key
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    // Core fields
+    table.text('statement_text').notNullable();
+    table.text('deliverable').notNullable(); // What is owed
+
+    // Parties: who owes and who is owed. A party is an entity, a name that
+    // matched no entity, or the user (user_role)
+    table.string('debtor_entity_id', 36).nullable();
+    table.string('debtor_name').nullable();
+    table.string('creditor_entity_id', 36).nullable();
+    table.string('creditor_name').nullable();
+    table.string('user_role').nullable(); // debtor, creditor or null
+
+    table.timestamp('due_date').nullable();
+    table.string('status').notNullable().defaultTo('open');
+
+    // Provenance
+    table.string('source_event_id', 36).nullable();
+    table.float('confidence').defaultTo(1);
+
+    // Fulfilment: when, by which event, and why it matched
+    table.timestamp('fulfilled_at').nullable();
+    table.string('fulfilled_by_event_id', 36).nullable();
+    if (isPg) {
+      table.jsonb('fulfilment_evidence').nullable();
+      table.jsonb('metadata').defaultTo('{}');
+    } else {
+      table.text('fulfilment_evidence', 'text').nullable();
+      table.text('metadata', 'text').defaultTo('{}');
+    }
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at').nullable();
+
+    // Indexes
+    table.index(['debtor_entity_id', 'status']);
+    table.index(['creditor_entity_id', 'status']);
+    table.index(['user_role', 'status']);
+    table.index(['source_event_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('commitments');
+}
@@ -0,0 +1,63 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  // Consecutive captures grouped into a meeting or a stretch of work
+  await knex.schema.createTable('sessions', (table) => {
+    // Primary key
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    // Core fields
+    table.string('kind').notNullable().defaultTo('work'); // meeting or work
+    table.string('title').notNullable();
+    table.string('app_context').nullable(); // Application the session started in
+    table.timestamp('start_time').notNullable();
+    table.timestamp('end_time').notNullable();
+    table.string('status').notNullable().defaultTo('open'); // open until it goes quiet
+    table.integer('event_count').notNullable().defaultTo(0);
+
+    // What was captured, and what came of it once closed
+    table.text('transcript').notNullable().defaultTo('');
+    table.text('summary').nullable();
+    table.string('review_status').nullable(); // pending, accepted or discarded
+
+    if (isPg) {
+      table.jsonb('participant_ids').defaultTo('[]');
+      table.jsonb('metadata').defaultTo('{}');
+    } else {
+      table.text('participant_ids', 'text').defaultTo('[]');
+      table.text('metadata', 'text').defaultTo('{}');
+    }
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at').nullable();
+
+    // Indexes
+    table.index(['status', 'end_time']);
+    table.index(['start_time']);
+  });
+
+  await knex.schema.alterTable('events', (table) => {
+    table.uuid('session_id').nullable();
+    table.index('session_id');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  // Plain ALTER TABLE: knex would rebuild the SQLite table and lose its
+  // keyword index triggers
+  await knex.schema.alterTable('events', (table) => {
+    table.dropIndex('session_id');
+  });
+  await knex.raw('ALTER TABLE events DROP COLUMN session_id');
+
+  await knex.schema.dropTableIfExists('sessions');
+}
@@ -0,0 +1,62 @@
+import { Knex } from 'knex';
+
+const TABLES = ['events', 'tasks', 'entities'];
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  // Rows created from low-confidence extractions wait for the user to
+  // verify them
+  for (const tableName of TABLES) {
+    await knex.schema.alterTable(tableName, (table) => {
+      table.string('verification_status').notNullable().defaultTo('verified');
+      table.index('verification_status');
+    });
+  }
+
+  // Every answer to the review queue, kept to evaluate the extraction prompt
+  await knex.schema.createTable('review_decisions', (table) => {
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    table.string('item_type').notNullable(); // event, task or entity
+    table.string('item_id', 36).notNullable();
+    table.string('decision').notNullable(); // approved, edited or rejected
+    table.text('reason').nullable();
+    table.float('confidence').nullable(); // Extraction confidence of the item
+    table.string('source_event_id', 36).nullable();
+
+    // The item as extracted, and what the user changed
+    if (isPg) {
+      table.jsonb('original').defaultTo('{}');
+      table.jsonb('changes').nullable();
+    } else {
+      table.text('original', 'text').defaultTo('{}');
+      table.text('changes', 'text').nullable();
+    }
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at').nullable();
+
+    table.index(['item_type', 'item_id']);
+    table.index(['decision', 'created_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('review_decisions');
+
+  // Plain ALTER TABLE: knex would rebuild the SQLite tables and lose their
+  // keyword index triggers
+  for (const tableName of TABLES) {
+    await knex.schema.alterTable(tableName, (table) => {
+      table.dropIndex('verification_status');
+    });
+    await knex.raw(`ALTER TABLE ${tableName} DROP COLUMN verification_status`);
+  }
+}
@@ -0,0 +1,42 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  const isPg = knex.client.config.client === 'pg';
+
+  // hot: as captured; warm: raw content dropped, summary and embedding kept
+  await knex.schema.alterTable('events', (table) => {
+    table.string('retention_lane').notNullable().defaultTo('hot');
+    table.index(['retention_lane', 'start_time']);
+  });
+
+  // Items the retention job must leave alone
+  await knex.schema.createTable('retention_pins', (table) => {
+    if (isPg) {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    } else {
+      // SQLite fallback
+      table.uuid('id').primary().defaultTo(knex.raw(`(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6))))`));
+    }
+
+    table.string('item_type').notNullable(); // event, session, summary or screenshot
+    table.string('item_id').notNullable(); // Row ID, or file name for screenshots
+    table.text('reason').nullable();
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at').nullable();
+
+    table.index(['item_type', 'item_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('retention_pins');
+
+  // Plain ALTER TABLE: knex would rebuild the SQLite table and lose its
+  // keyword index triggers
+  await knex.schema.alterTable('events', (table) => {
+    table.dropIndex(['retention_lane', 'start_time']);
+  });
+  await knex.raw('ALTER TABLE events DROP COLUMN retention_lane');
+}
@@ -0,0 +1,36 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Screenshots, audio and attachments, keyed by the sha256 of their content
+  await knex.schema.createTable('blobs', (table) => {
+    table.string('id', 64).primary();
+    table.string('mime_type').notNullable();
+    table.bigInteger('size').notNullable();
+    table.integer('width').nullable(); // Images only
+    table.integer('height').nullable();
+    table.string('thumbnail_id', 64).nullable(); // A PNG blob, for images
+    table.string('filename').nullable(); // As first uploaded
+    table.string('backend').notNullable(); // fs or s3
+    table.boolean('encrypted').notNullable().defaultTo(false);
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+
+  // The original capture behind an event
+  await knex.schema.alterTable('events', (table) => {
+    table.string('blob_id', 64).nullable();
+    table.index(['blob_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  // Plain ALTER TABLE: knex would rebuild the SQLite table and lose its
+  // keyword index triggers
+  await knex.schema.alterTable('events', (table) => {
+    table.dropIndex(['blob_id']);
+  });
+  await knex.raw('ALTER TABLE events DROP COLUMN blob_id');
+
+  await knex.schema.dropTableIfExists('blobs');
+}
@@ -0,0 +1,20 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Sealed titles run past 255 characters. SQLite does not enforce string
+  // lengths, and altering there would rebuild the table and lose its keyword
+  // index triggers.
+  if (knex.client.config.client !== 'pg') return;
+
+  await knex.schema.alterTable('events', (table) => {
+    table.text('title').notNullable().alter();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  if (knex.client.config.client !== 'pg') return;
+
+  await knex.schema.alterTable('events', (table) => {
+    table.string('title').notNullable().alter();
+  });
+}
@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Holders of a blob other than events, which point at theirs through
+  // events.blob_id: email attachments, as `email:<message id>`
+  await knex.schema.createTable('blob_references', (table) => {
+    table.string('blob_id', 64).notNullable();
+    table.string('owner').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.primary(['blob_id', 'owner']);
+    table.index(['owner']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('blob_references');
+}
@@ -2,6 +2,26 @@ import { Router } from 'express';
 import { EventModel } from '../models/EventModel';
 import { EntityModel } from '../models/EntityModel';
 import { TaskModel } from '../models/TaskModel';
+import { FactModel } from '../models/FactModel';
+import { CommitmentModel } from '../models/CommitmentModel';
+import { SessionModel } from '../models/SessionModel';
+import { ReviewDecisionModel } from '../models/ReviewDecisionModel';
+import { RetentionPinModel } from '../models/RetentionPinModel';
+import { MemorySummaryModel } from '../models/MemorySummaryModel';
+import { ConsolidationService } from '../services/ConsolidationService';
+import { ReembeddingService } from '../services/ReembeddingService';
+import { TimelineService } from '../services/TimelineService';
+import { EntityResolutionService } from '../services/EntityResolutionService';
+import { PersonCardService } from '../services/PersonCardService';
+import { RelationshipService } from '../services/RelationshipService';
+import { GraphQueryService } from '../services/GraphQueryService';
+import { SessionService } from '../services/SessionService';
+import { ReviewService } from '../services/ReviewService';
+import { RetentionService } from '../services/RetentionService';
+import { PrivacyService } from '../services/PrivacyService';
+import { EncryptionService } from '../services/EncryptionService';
+import { BlobService } from '../services/BlobService';
+import type { ChannelNotification } from '../services/WebSocketService';
 import { RetrievalService } from '../services/RetrievalService';
 import { createV1Router } from './v1';
 
@@ -9,7 +29,27 @@ export function createApiRouter(
   eventModel: EventModel,
   entityModel: EntityModel,
   taskModel: TaskModel,
-  retrievalService: RetrievalService
+  retrievalService: RetrievalService,
+  factModel: FactModel,
+  summaryModel: MemorySummaryModel,
+  consolidationService: ConsolidationService,
+  reembeddingService: ReembeddingService,
+  timelineService: TimelineService,
+  entityResolutionService: EntityResolutionService,
+  personCardService: PersonCardService,
+  relationshipService: RelationshipService,
+  graphQueryService: GraphQueryService,
+  commitmentModel: CommitmentModel,
+  sessionModel: SessionModel,
+  sessionService: SessionService,
+  reviewService: ReviewService,
+  reviewDecisionModel: ReviewDecisionModel,
+  retentionService: RetentionService,
+  retentionPinModel: RetentionPinModel,
+  privacyService: PrivacyService,
+  encryptionService: EncryptionService,
+  blobService: BlobService,
+  notify: (notification: ChannelNotification) => void
 ): Router {
   const router = Router();
 
@@ -28,7 +68,32 @@ export function createApiRouter(
   });
 
   // Mount versioned API routers
-  router.use('/v1', createV1Router(eventModel, entityModel, taskModel, retrievalService));
+  router.use('/v1', createV1Router(
+    eventModel,
+    entityModel,
+    taskModel,
+    retrievalService,
+    factModel,
+    summaryModel,
+    consolidationService,
+    reembeddingService,
+    timelineService,
+    entityResolutionService,
+    personCardService,
+    relationshipService,
+    graphQueryService,
+    commitmentModel,
+    sessionModel,
+    sessionService,
+    reviewService,
+    reviewDecisionModel,
+    retentionService,
+    retentionPinModel,
+    privacyService,
+    encryptionService,
+    blobService,
+    notify
+  ));
 
   // Handle 404 for API routes
   router.use((req, res) => {
@@ -4,12 +4,16 @@ import { EventModel } from '../models/EventModel';
 import { EntityModel } from '../models/EntityModel';
 import { TaskModel } from '../models/TaskModel';
 import { RetrievalService } from '../services/RetrievalService';
+import { EntityResolutionService } from '../services/EntityResolutionService';
+import { RelationshipService } from '../services/RelationshipService';
 
 export function createRouter(
   eventModel: EventModel,
   entityModel: EntityModel,
   taskModel: TaskModel,
-  retrievalService: RetrievalService
+  retrievalService: RetrievalService,
+  entityResolutionService: EntityResolutionService,
+  relationshipService: RelationshipService
 ): express.Router {
   const router = express.Router();
 
@@ -17,31 +21,25 @@ export function createRouter(
   router.post('/events', async (req, res) => {
     try {
       const eventData = req.body;
-      
+
+      // Resolve participants to canonical entities before storing the event
+      const participants = eventData.participants?.length
+        ? await entityResolutionService.resolveParticipants(eventData.participants)
+        : [];
+
       // Validate and create event
       const event = await eventModel.create({
         ...eventData,
+        participants,
         start_time: new Date(eventData.start_time),
         end_time: eventData.end_time ? new Date(eventData.end_time) : undefined,
       });
-      
-      // Process participants - create entities first if they don't exist
-      if (eventData.participants?.length) {
-        await Promise.all(
-          eventData.participants.map(async (participant: any) => {
-            // Check if entity exists
-            const existingEntity = await entityModel.findById(participant.entity_id);
-            
-            if (!existingEntity) {
-              // Create new entity (without id in input)
-              await entityModel.create({
-                name: participant.name || `Participant ${participant.entity_id}`,
-                type: 'person', // Default type, can be overridden
-                metadata: participant.metadata || {},
-              });
-            }
-          })
-        );
+
+      // Count the interaction between the participants
+      try {
+        await relationshipService.recordEvent(event);
+      } catch (error) {
+        console.error('Error updating relationships:', error);
       }
       
       // Create tasks if any
@@ -75,14 +73,15 @@ export function createRouter(
   // Retrieve relevant memories
   router.post('/retrieve', async (req, res) => {
     try {
-      const { query, context, weights } = req.body;
+      const { query, context, weights, intent } = req.body;
       
       if (!query) {
         return res.status(400).json({ error: 'Query parameter is required' });
       }
       
       const results = await retrievalService.retrieve(query, {
-        weights: weights || { semantic: 0.4, temporal: 0.3, relational: 0.3 },
+        intent,
+        weights,
         entityContext: context?.entities,
         timeWindow: context?.timeWindow,
       });
@@ -105,21 +104,12 @@ export function createRouter(
         return res.status(404).json({ error: 'Entity not found' });
       }
       
-      // Get related events - use proper pagination
-      const events = await eventModel.findAll(
-        {
-          // Note: Direct participant filtering might need a custom query
-          // depending on your schema structure
-        }, 
-        { 
-          pageSize: 50,
-          page: 1
-        }
-      );
+      // Get events the entity took part in
+      const events = await eventModel.findByParticipant(entity.id as string, { limit: 50 });
       
       res.json({
         entity,
-        recent_events: events.data,
+        recent_events: events,
       });
     } catch (error) {
       console.error('Error fetching entity:', error);
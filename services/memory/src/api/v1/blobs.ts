@@ -0,0 +1,212 @@
+import express, { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseError, NotFoundError, ValidationError } from '../../models/BaseModel';
+import type { ByteRange } from '../../db/blob/store';
+import { BlobService, type BlobContent } from '../../services/BlobService';
+
+// Uploads are raw bodies; audio segments and attachments stay well under this
+const MAX_UPLOAD = '50mb';
+
+// Who holds an uploaded blob, when it is not an event: `email:<message id>`
+const OwnerSchema = z.string().min(1).max(255);
+
+// JSON bodies are parsed before this router, so JSON-typed uploads use this form
+const JsonUploadSchema = z.object({
+  data: z.string().min(1), // base64
+  mime_type: z.string().optional(),
+  filename: z.string().max(255).optional(),
+  owner: OwnerSchema.optional(),
+});
+
+const UploadQuerySchema = z.object({
+  filename: z.string().max(255).optional(),
+  owner: OwnerSchema.optional(),
+});
+
+const DeleteQuerySchema = z.object({
+  owner: OwnerSchema.optional(),
+});
+
+const BlobParamsSchema = z.object({
+  id: z.string().regex(/^[0-9a-f]{64}$/, 'Blob IDs are sha256 hex digests'),
+});
+
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Reply to a failed request: 404 for unknown blobs, 400 for requests the
+ * service refused, 500 otherwise
+ */
+function sendError(res: Response, failure: unknown, code: string, message: string) {
+  // Model transactions wrap whatever failed inside them in a DatabaseError
+  const error = failure instanceof DatabaseError && failure.originalError instanceof Error
+    ? failure.originalError
+    : failure;
+
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error.message },
+      meta: meta()
+    });
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: error.message, details: error.issues },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
+
+function parse<T>(schema: z.ZodType<T>, input: unknown): T {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid request', parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+/**
+ * A single byte range from a Range header: bytes=0-99, bytes=100- or
+ * bytes=-100 (the last 100 bytes). Null when absent or not a single range,
+ * in which case the whole blob is sent.
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  const range = match[1] === ''
+    ? { start: Math.max(0, size - parseInt(match[2], 10)), end: size - 1 }
+    : { start: parseInt(match[1], 10), end: match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1) };
+
+  return range.start > range.end || range.start >= size ? 'unsatisfiable' : range;
+}
+
+function sendContent(res: Response, { blob, data, range }: BlobContent) {
+  res.set({
+    'Content-Type': blob.mime_type,
+    'Accept-Ranges': 'bytes',
+    // Content never changes under an ID
+    'ETag': `"${blob.id}"`,
+    'Cache-Control': 'private, max-age=31536000, immutable',
+  });
+  if (blob.filename) {
+    res.set('Content-Disposition', `inline; filename="${blob.filename.replace(/["\\\r\n]/g, '_')}"`);
+  }
+
+  if (range) {
+    res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${blob.size}`);
+  }
+  res.set('Content-Length', String(data.length));
+  res.end(data);
+}
+
+export function createBlobsRouter(blobService: BlobService): Router {
+  const router = Router();
+
+  // Store a screenshot, recording or attachment sent as the raw body, with
+  // its type in Content-Type (?filename=...&owner=...). 201 when new, 200
+  // when the same content was already stored.
+  router.post('/', express.raw({ type: () => true, limit: MAX_UPLOAD }), async (req: Request, res: Response) => {
+    try {
+      let upload: { data: Buffer; mimeType?: string; filename?: string; owner?: string };
+      if (Buffer.isBuffer(req.body)) {
+        upload = {
+          data: req.body,
+          mimeType: req.get('content-type'),
+          ...parse(UploadQuerySchema, req.query),
+        };
+      } else {
+        const { data, mime_type, filename, owner } = parse(JsonUploadSchema, req.body);
+        upload = { data: Buffer.from(data, 'base64'), mimeType: mime_type, filename, owner };
+      }
+
+      const { data, ...options } = upload;
+      const blob = await blobService.put(data, options);
+      res.status(blob.deduplicated ? 200 : 201).json({ success: true, data: blob, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'BLOB_UPLOAD_FAILED', 'Failed to store blob');
+    }
+  });
+
+  // Type, size, dimensions and thumbnail of a blob
+  router.get('/:id/metadata', async (req: Request, res: Response) => {
+    try {
+      const { id } = parse(BlobParamsSchema, req.params);
+      const blob = await blobService.get(id);
+      if (!blob) {
+        throw new NotFoundError(`Blob ${id} not found`);
+      }
+      res.json({ success: true, data: blob, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'BLOB_FETCH_FAILED', 'Failed to fetch blob');
+    }
+  });
+
+  router.get('/:id/thumbnail', async (req: Request, res: Response) => {
+    try {
+      const { id } = parse(BlobParamsSchema, req.params);
+      sendContent(res, await blobService.thumbnail(id));
+    } catch (error: unknown) {
+      sendError(res, error, 'BLOB_FETCH_FAILED', 'Failed to fetch thumbnail');
+    }
+  });
+
+  // The content; honours a single Range, so audio can be seeked
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const { id } = parse(BlobParamsSchema, req.params);
+      const blob = await blobService.get(id);
+      if (!blob) {
+        throw new NotFoundError(`Blob ${id} not found`);
+      }
+
+      const range = parseRange(req.get('range'), blob.size);
+      if (range === 'unsatisfiable') {
+        res.status(416).set('Content-Range', `bytes */${blob.size}`).end();
+        return;
+      }
+      sendContent(res, await blobService.read(id, range ?? undefined));
+    } catch (error: unknown) {
+      sendError(res, error, 'BLOB_FETCH_FAILED', 'Failed to fetch blob');
+    }
+  });
+
+  // Let go of a blob (?owner=...), removing it and its thumbnail once no
+  // event or other owner holds it. Without an owner, a blob still held is
+  // refused with 409.
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const { id } = parse(BlobParamsSchema, req.params);
+      const { owner } = parse(DeleteQuerySchema, req.query);
+      if (!await blobService.release(id, owner) && !owner) {
+        return res.status(409).json({
+          success: false,
+          error: { code: 'BLOB_IN_USE', message: `Blob ${id} is still used by an event or attachment` },
+          meta: meta()
+        });
+      }
+      res.status(204).end();
+    } catch (error: unknown) {
+      sendError(res, error, 'BLOB_DELETE_FAILED', 'Failed to delete blob');
+    }
+  });
+
+  return router;
+}
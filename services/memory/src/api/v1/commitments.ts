@@ -0,0 +1,165 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseError, NotFoundError, ValidationError } from '../../models/BaseModel';
+import {
+  CommitmentModel,
+  CommitmentStatus,
+  CommitmentUserRole,
+} from '../../models/CommitmentModel';
+
+const AssertCommitmentSchema = z.object({
+  statement_text: z.string().min(1),
+  deliverable: z.string().min(1).optional(),
+  debtor_entity_id: z.string().uuid().nullable().optional(),
+  debtor_name: z.string().nullable().optional(),
+  creditor_entity_id: z.string().uuid().nullable().optional(),
+  creditor_name: z.string().nullable().optional(),
+  user_role: CommitmentUserRole.nullable().optional(),
+  due_date: z.string().nullable().optional(),
+  source_event_id: z.string().uuid().nullable().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+const FulfilSchema = z.object({
+  event_id: z.string().uuid().optional(),
+  note: z.string().max(1000).optional(),
+});
+
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Reply to a failed request: 404 for unknown commitments, 400 for
+ * requests the model refused, 500 otherwise
+ */
+function sendError(res: Response, failure: unknown, code: string, message: string) {
+  // Model transactions wrap whatever failed inside them in a DatabaseError
+  const error = failure instanceof DatabaseError && failure.originalError instanceof Error
+    ? failure.originalError
+    : failure;
+
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error.message },
+      meta: meta()
+    });
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: error.message, details: error.issues },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
+
+export function createCommitmentsRouter(commitmentModel: CommitmentModel): Router {
+  const router = Router();
+
+  // List commitments, soonest due first
+  // (?status=open, ?role=owed_to_me|i_owe, ?entity_id=..., ?limit=50, ?offset=0)
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const { status, role, entity_id, limit, offset } = req.query;
+
+      if (status !== undefined && !CommitmentStatus.safeParse(status).success) {
+        throw new ValidationError(`status must be one of: ${CommitmentStatus.options.join(', ')}`);
+      }
+      if (role !== undefined && role !== 'owed_to_me' && role !== 'i_owe') {
+        throw new ValidationError('role must be owed_to_me or i_owe');
+      }
+
+      const commitments = await commitmentModel.list({
+        status: status as CommitmentStatus | undefined,
+        role: role as 'owed_to_me' | 'i_owe' | undefined,
+        entityId: entity_id as string | undefined,
+        limit: limit ? Math.min(parseInt(limit as string, 10) || 50, 200) : 50,
+        offset: offset ? parseInt(offset as string, 10) || 0 : 0,
+      });
+
+      res.json({ success: true, data: commitments, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_COMMITMENTS_FAILED', 'Failed to list commitments');
+    }
+  });
+
+  // Record a commitment by hand; repeats of an open one refresh it instead
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const parsed = AssertCommitmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid commitment payload', parsed.error.issues);
+      }
+
+      const result = await commitmentModel.assert(parsed.data);
+      res.status(result.duplicate ? 200 : 201).json({ success: true, data: result, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'COMMITMENT_CREATION_FAILED', 'Failed to record commitment');
+    }
+  });
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const commitment = await commitmentModel.findById(req.params.id);
+      if (!commitment) {
+        throw new NotFoundError('Commitment not found');
+      }
+
+      res.json({ success: true, data: commitment, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_COMMITMENT_FAILED', 'Failed to fetch commitment');
+    }
+  });
+
+  // Mark a commitment kept, optionally pointing at the event that shows it
+  router.post('/:id/fulfill', async (req: Request, res: Response) => {
+    try {
+      const parsed = FulfilSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        throw new ValidationError('Invalid fulfilment', parsed.error.issues);
+      }
+
+      const commitment = await commitmentModel.fulfill(req.params.id, {
+        source: 'manual',
+        event_id: parsed.data.event_id ?? null,
+        note: parsed.data.note,
+      });
+      res.json({ success: true, data: commitment, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FULFIL_COMMITMENT_FAILED', 'Failed to fulfil commitment');
+    }
+  });
+
+  // Reopen, cancel or fulfil a commitment: body { status }
+  router.patch('/:id/status', async (req: Request, res: Response) => {
+    try {
+      const parsed = CommitmentStatus.safeParse(req.body?.status);
+      if (!parsed.success) {
+        throw new ValidationError(`status must be one of: ${CommitmentStatus.options.join(', ')}`);
+      }
+
+      const commitment = await commitmentModel.setStatus(req.params.id, parsed.data);
+      res.json({ success: true, data: commitment, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'COMMITMENT_UPDATE_FAILED', 'Failed to update commitment');
+    }
+  });
+
+  return router;
+}
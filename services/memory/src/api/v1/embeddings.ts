@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { ReembeddingService } from '../../services/ReembeddingService';
+
+export function createEmbeddingsRouter(reembeddingService: ReembeddingService): Router {
+  const router = Router();
+
+  // Active provider and how many rows still carry embeddings from another one
+  router.get('/status', async (req, res) => {
+    try {
+      const status = await reembeddingService.status();
+
+      res.json({
+        success: true,
+        data: status,
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: unknown) {
+      console.error('Error fetching embedding status:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'EMBEDDING_STATUS_FAILED',
+          message: 'Failed to fetch embedding status',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  });
+
+  // Re-embed pending rows in the background
+  router.post('/reembed', async (req, res) => {
+    const status = await reembeddingService.status().catch(() => null);
+
+    if (status?.running) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'REEMBEDDING_IN_PROGRESS',
+          message: 'Re-embedding is already running'
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    reembeddingService.start();
+
+    res.status(202).json({
+      success: true,
+      data: status,
+      meta: {
+        version: '1.0.0',
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,143 @@
+import { Router, Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import { DatabaseError, ValidationError } from '../../models/BaseModel';
+import { LockedError } from '../../db/crypto/keyring';
+import { EncryptionService } from '../../services/EncryptionService';
+
+const UnlockSchema = z.object({
+  passphrase: z.string().min(1),
+});
+
+const PassphraseSchema = z.object({
+  current: z.string().min(1),
+  next: z.string().min(12, 'Passphrase must be at least 12 characters'),
+});
+
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+const lockedResponse = (message: string) => ({
+  success: false,
+  error: { code: 'LOCKED', message },
+  meta: meta()
+});
+
+/**
+ * Reply to a failed request: 423 while locked, 400 for requests the service
+ * refused (including a wrong passphrase), 500 otherwise
+ */
+function sendError(res: Response, failure: unknown, code: string, message: string) {
+  // Model transactions wrap whatever failed inside them in a DatabaseError
+  const error = failure instanceof DatabaseError && failure.originalError instanceof Error
+    ? failure.originalError
+    : failure;
+
+  if (error instanceof LockedError) {
+    return res.status(423).json(lockedResponse(error.message));
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: error.message, details: error.issues },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
+
+function parse<T>(schema: z.ZodType<T>, input: unknown): T {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid request', parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+/**
+ * Refuse every request with 423 while the encryption keys are locked
+ */
+export function requireUnlocked(encryptionService: EncryptionService): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (encryptionService.locked) {
+      res.status(423).json(lockedResponse('Memory is locked; unlock it with POST /api/v1/encryption/unlock'));
+      return;
+    }
+    next();
+  };
+}
+
+export function createEncryptionRouter(encryptionService: EncryptionService): Router {
+  const router = Router();
+
+  // Whether encryption is on, locked, and which data keys the ring holds
+  router.get('/status', async (req: Request, res: Response) => {
+    try {
+      res.json({ success: true, data: await encryptionService.status(), meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'ENCRYPTION_STATUS_FAILED', 'Failed to read encryption status');
+    }
+  });
+
+  // The first unlock creates the key ring with this passphrase
+  router.post('/unlock', async (req: Request, res: Response) => {
+    try {
+      const { passphrase } = parse(UnlockSchema, req.body);
+      await encryptionService.unlock(passphrase);
+      res.json({ success: true, data: await encryptionService.status(), meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'UNLOCK_FAILED', 'Failed to unlock');
+    }
+  });
+
+  router.post('/lock', async (req: Request, res: Response) => {
+    try {
+      encryptionService.lock();
+      res.json({ success: true, data: await encryptionService.status(), meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'LOCK_FAILED', 'Failed to lock');
+    }
+  });
+
+  router.post('/passphrase', async (req: Request, res: Response) => {
+    try {
+      const { current, next } = parse(PassphraseSchema, req.body);
+      await encryptionService.changePassphrase(current, next);
+      res.json({ success: true, data: await encryptionService.status(), meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'PASSPHRASE_CHANGE_FAILED', 'Failed to change passphrase');
+    }
+  });
+
+  // New data key; events are re-sealed with it and old keys retired
+  router.post('/rotate', async (req: Request, res: Response) => {
+    try {
+      res.json({ success: true, data: await encryptionService.rotate(), meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'KEY_ROTATION_FAILED', 'Failed to rotate keys');
+    }
+  });
+
+  // Seal events stored before encryption was enabled
+  router.post('/reseal', async (req: Request, res: Response) => {
+    try {
+      res.json({ success: true, data: await encryptionService.reseal(), meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'RESEAL_FAILED', 'Failed to reseal events');
+    }
+  });
+
+  return router;
+}
@@ -1,6 +1,12 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { EntityModel } from '../../models/EntityModel';
+import { AliasType, EntityModel } from '../../models/EntityModel';
 import { EventModel } from '../../models/EventModel';
+import { MergeCandidateStatus } from '../../models/MergeCandidateModel';
+import { CommitmentModel, CommitmentStatus } from '../../models/CommitmentModel';
+import { NotFoundError, ValidationError } from '../../models/BaseModel';
+import { EntityResolutionService } from '../../services/EntityResolutionService';
+import { PersonCardService } from '../../services/PersonCardService';
+import { RelationshipService } from '../../services/RelationshipService';
 
 interface CustomError extends Error {
   code?: string;
@@ -16,16 +22,291 @@ declare global {
   }
 }
 
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Reply to a failed request: 404 for unknown records, 400 for
+ * requests the service refused, 500 otherwise
+ */
+function sendError(res: Response, error: unknown, code: string, message: string) {
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error.message },
+      meta: meta()
+    });
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: error.message },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
+
 export function createEntitiesRouter(
   entityModel: EntityModel,
-  eventModel: EventModel
+  eventModel: EventModel,
+  entityResolutionService: EntityResolutionService,
+  personCardService: PersonCardService,
+  relationshipService: RelationshipService,
+  commitmentModel: CommitmentModel
 ): Router {
   const router = Router();
 
-  // Get entity by ID
+  // Resolve a name, email or handle to an entity, creating it if nothing matches
+  router.post('/resolve', async (req: Request, res: Response) => {
+    try {
+      const { name, email, handle, type, metadata, create } = req.body;
+      const result = await entityResolutionService.resolve(
+        { name, email, handle, type, metadata },
+        { create: create !== false }
+      );
+
+      res.json({ success: true, data: result, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'RESOLVE_ENTITY_FAILED', 'Failed to resolve entity');
+    }
+  });
+
+  // Possible duplicates awaiting review (?status=pending|accepted|rejected)
+  router.get('/merge-candidates', async (req: Request, res: Response) => {
+    try {
+      const status = MergeCandidateStatus.safeParse(req.query.status ?? 'pending');
+      if (!status.success) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_STATUS',
+            message: `status must be one of: ${MergeCandidateStatus.options.join(', ')}`
+          },
+          meta: meta()
+        });
+      }
+
+      const candidates = await entityResolutionService.listCandidates(status.data, {
+        page: req.query.page ? parseInt(req.query.page as string, 10) : 1,
+        pageSize: req.query.pageSize ? parseInt(req.query.pageSize as string, 10) : 20,
+      });
+
+      res.json({
+        success: true,
+        data: candidates.data,
+        pagination: candidates.pagination,
+        meta: meta()
+      });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_MERGE_CANDIDATES_FAILED', 'Failed to list merge candidates');
+    }
+  });
+
+  // Merge a candidate pair; body.primary_id picks which entity survives
+  router.post('/merge-candidates/:id/accept', async (req: Request, res: Response) => {
+    try {
+      const merge = await entityResolutionService.acceptCandidate(req.params.id, req.body?.primary_id);
+      res.json({ success: true, data: merge, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'ACCEPT_MERGE_FAILED', 'Failed to accept merge candidate');
+    }
+  });
+
+  router.post('/merge-candidates/:id/reject', async (req: Request, res: Response) => {
+    try {
+      const candidate = await entityResolutionService.rejectCandidate(req.params.id);
+      res.json({ success: true, data: candidate, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'REJECT_MERGE_FAILED', 'Failed to reject merge candidate');
+    }
+  });
+
+  // Undo a merge, restoring the merged entity and its references
+  router.post('/merges/:id/undo', async (req: Request, res: Response) => {
+    try {
+      const result = await entityResolutionService.undoMerge(req.params.id);
+      res.json({ success: true, data: result, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'UNDO_MERGE_FAILED', 'Failed to undo merge');
+    }
+  });
+
+  // Merge another entity (body.duplicate_id) into this one
+  router.post('/:id/merge', async (req: Request, res: Response) => {
+    try {
+      if (!req.body?.duplicate_id) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'MISSING_DUPLICATE',
+            message: 'duplicate_id is required'
+          },
+          meta: meta()
+        });
+      }
+
+      const merge = await entityResolutionService.merge(req.params.id, req.body.duplicate_id, { method: 'manual' });
+      res.status(201).json({ success: true, data: merge, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'MERGE_FAILED', 'Failed to merge entities');
+    }
+  });
+
+  // Merges into or out of an entity that can still be undone
+  router.get('/:id/merges', async (req: Request, res: Response) => {
+    try {
+      const merges = await entityResolutionService.listMerges(req.params.id);
+      res.json({ success: true, data: merges, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_MERGES_FAILED', 'Failed to list merges');
+    }
+  });
+
+  // Person card: last interactions, open promises, tone and relationship
+  // history and suggested openers (?window_days=90, ?openers=false skips the LLM)
+  router.get('/:id/card', async (req: Request, res: Response) => {
+    try {
+      const windowDays = req.query.window_days !== undefined ? Number(req.query.window_days) : undefined;
+      if (windowDays !== undefined && !(windowDays > 0)) {
+        throw new ValidationError('window_days must be a positive number');
+      }
+
+      const card = await personCardService.build(req.params.id, {
+        windowDays,
+        openers: req.query.openers !== 'false',
+      });
+      if (!card) {
+        throw new NotFoundError('Entity not found');
+      }
+
+      res.json({ success: true, data: card, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_PERSON_CARD_FAILED', 'Failed to build person card');
+    }
+  });
+
+  // Strongest contacts by INTERACTED_WITH strength (?limit=10)
+  router.get('/:id/network', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string, 10) : 10;
+      if (!(limit > 0)) {
+        throw new ValidationError('limit must be a positive integer');
+      }
+
+      const entity = await entityModel.findCanonical(req.params.id);
+      const network = entity?.id ? await relationshipService.getNetwork(entity.id, { limit }) : null;
+      if (!network) {
+        throw new NotFoundError('Entity not found');
+      }
+
+      res.json({ success: true, data: network, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_NETWORK_FAILED', 'Failed to fetch entity network');
+    }
+  });
+
+  // What the entity owes the user and what the user owes it (?status=open)
+  router.get('/:id/commitments', async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status ?? 'open';
+      if (!CommitmentStatus.safeParse(status).success) {
+        throw new ValidationError(`status must be one of: ${CommitmentStatus.options.join(', ')}`);
+      }
+
+      const entity = await entityModel.findCanonical(req.params.id);
+      if (!entity?.id) {
+        throw new NotFoundError('Entity not found');
+      }
+
+      const commitments = await commitmentModel.findForEntity(entity.id, { status: status as CommitmentStatus });
+      res.json({ success: true, data: commitments, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_COMMITMENTS_FAILED', 'Failed to list entity commitments');
+    }
+  });
+
+  router.get('/:id/aliases', async (req: Request, res: Response) => {
+    try {
+      const aliases = await entityModel.getAliases(req.params.id);
+      res.json({ success: true, data: aliases, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_ALIASES_FAILED', 'Failed to list aliases');
+    }
+  });
+
+  // Add an alias: body { type: name|email|handle, value }
+  router.post('/:id/aliases', async (req: Request, res: Response) => {
+    try {
+      const type = AliasType.safeParse(req.body?.type);
+      if (!type.success || typeof req.body?.value !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_ALIAS',
+            message: `type (one of: ${AliasType.options.join(', ')}) and value are required`
+          },
+          meta: meta()
+        });
+      }
+
+      if (!await entityModel.findById(req.params.id)) {
+        throw new NotFoundError('Entity not found');
+      }
+
+      const alias = await entityModel.addAlias(req.params.id, type.data, req.body.value);
+      res.status(201).json({ success: true, data: alias, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'ADD_ALIAS_FAILED', 'Failed to add alias');
+    }
+  });
+
+  router.delete('/:id/aliases/:aliasId', async (req: Request, res: Response) => {
+    try {
+      if (!await entityModel.removeAlias(req.params.id, req.params.aliasId)) {
+        throw new NotFoundError('Alias not found');
+      }
+      res.json({ success: true, data: { id: req.params.aliasId }, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'REMOVE_ALIAS_FAILED', 'Failed to remove alias');
+    }
+  });
+
+  // Get entity by ID, optionally as it was at ?as_of=<ISO date>
   router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const entity = await entityModel.findById(req.params.id);
+      const asOf = req.query.as_of ? new Date(req.query.as_of as string) : undefined;
+      if (asOf && isNaN(asOf.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_AS_OF',
+            message: 'as_of must be an ISO 8601 date'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      // IDs of merged entities lead to the entity that absorbed them
+      const entity = asOf
+        ? await entityModel.findByIdAsOf(req.params.id, asOf)
+        : await entityModel.findCanonical(req.params.id);
       if (!entity) {
         return res.status(404).json({ 
           success: false,
@@ -41,21 +322,18 @@ export function createEntitiesRouter(
       }
       
       // Get related events using the event model
-      const events = await eventModel.findAll(
-        { 'participants.entity_id': entity.id },
-        {
-          page: 1,
-          pageSize: 50,
-          sortBy: 'created_at',
-          sortOrder: 'desc' as const
-        }
-      );
+      const events = await eventModel.findByParticipant(entity.id as string, {
+        endTime: asOf,
+        limit: 50
+      });
 
       res.json({ 
         success: true,
         data: {
           ...entity,
-          recent_events: events
+          recent_events: asOf
+            ? events.filter(event => !event.created_at || new Date(event.created_at) <= asOf)
+            : events
         },
         meta: {
           version: '1.0.0',
@@ -116,6 +394,13 @@ export function createEntitiesRouter(
           type: entityData.type || 'unknown',
           metadata: entityData.metadata || {},
         });
+
+        // Queue likely duplicates for review; explicit creates are never merged away
+        try {
+          await entityResolutionService.reviewEntity(entity.id as string, { autoMerge: false });
+        } catch (error) {
+          console.error('Error reviewing new entity for duplicates:', error);
+        }
       }
       
       res.status(201).json({ 
@@ -2,11 +2,19 @@ import { Router } from 'express';
 import { EventModel } from '../../models/EventModel';
 import { EntityModel } from '../../models/EntityModel';
 import { TaskModel } from '../../models/TaskModel';
+import { CommitmentModel } from '../../models/CommitmentModel';
+import { SessionService } from '../../services/SessionService';
+import { EntityResolutionService } from '../../services/EntityResolutionService';
+import { RelationshipService } from '../../services/RelationshipService';
 
 export function createEventsRouter(
   eventModel: EventModel,
   entityModel: EntityModel,
-  taskModel: TaskModel
+  taskModel: TaskModel,
+  entityResolutionService: EntityResolutionService,
+  relationshipService: RelationshipService,
+  commitmentModel: CommitmentModel,
+  sessionService: SessionService
 ): Router {
   const router = Router();
 
@@ -14,29 +22,44 @@ export function createEventsRouter(
   router.post('/', async (req, res) => {
     try {
       const eventData = req.body;
-      
+
+      // Map participants to canonical entities, matching unknown ones by name,
+      // email or handle instead of creating a new entity for each
+      const participants = eventData.participants?.length
+        ? await entityResolutionService.resolveParticipants(eventData.participants)
+        : [];
+
       // Validate and create event
       const event = await eventModel.create({
         ...eventData,
+        participants,
         start_time: new Date(eventData.start_time),
         end_time: eventData.end_time ? new Date(eventData.end_time) : undefined,
       });
-      
-      // Process participants - create entities first if they don't exist
-      if (eventData.participants?.length) {
-        await Promise.all(
-          eventData.participants.map(async (participant: any) => {
-            const existingEntity = await entityModel.findById(participant.entity_id);
-            
-            if (!existingEntity) {
-              await entityModel.create({
-                name: participant.name || `Participant ${participant.entity_id}`,
-                type: 'person',
-                metadata: participant.metadata || {},
-              });
-            }
-          })
-        );
+
+      // Count the interaction between the participants
+      try {
+        await relationshipService.recordEvent(event);
+      } catch (error) {
+        console.error('Error updating relationships:', error);
+      }
+
+      // Group the event with the captures before it
+      let sessionId: string | undefined;
+      try {
+        const session = await sessionService.assign(event, {
+          participants: participants.map(participant => participant.entity_id),
+        });
+        sessionId = session.id;
+      } catch (error) {
+        console.error('Error assigning session:', error);
+      }
+
+      // Fulfil open commitments owed by a participant that the event delivers
+      try {
+        await commitmentModel.matchEvent(event, participants.map(participant => participant.entity_id));
+      } catch (error) {
+        console.error('Error matching commitments:', error);
       }
 
       // Process tasks if any
@@ -63,7 +86,8 @@ export function createEventsRouter(
       res.status(201).json({ 
         success: true,
         data: { 
-          event_id: event.id 
+          event_id: event.id,
+          session_id: sessionId ?? null
         },
         meta: {
           version: '1.0.0',
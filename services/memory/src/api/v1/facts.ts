@@ -0,0 +1,273 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { FactModel, FactStatus } from '../../models/FactModel';
+import { NotFoundError } from '../../models/BaseModel';
+
+const AssertFactSchema = z.object({
+  statement_text: z.string().min(1),
+  subject_entity_id: z.string().uuid().nullable().optional(),
+  predicate: z.string().nullable().optional(),
+  object_value: z.string().nullable().optional(),
+  source_event_id: z.string().uuid().nullable().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export function createFactsRouter(factModel: FactModel): Router {
+  const router = Router();
+
+  // List facts, optionally filtered by subject, status or source event
+  router.get('/', async (req, res) => {
+    try {
+      const { subject_entity_id, source_event_id, status, page, pageSize } = req.query;
+
+      if (status && !FactStatus.safeParse(status).success) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_STATUS',
+            message: 'Invalid status value'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const filters: Record<string, unknown> = {};
+      if (subject_entity_id) filters.subject_entity_id = subject_entity_id;
+      if (source_event_id) filters.source_event_id = source_event_id;
+      filters.status = status || 'active';
+
+      const facts = await factModel.findAll(filters, {
+        page: page ? parseInt(page as string, 10) : 1,
+        pageSize: pageSize ? parseInt(pageSize as string, 10) : 20,
+      });
+
+      res.json({
+        success: true,
+        data: facts.data,
+        pagination: facts.pagination,
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: unknown) {
+      console.error('Error listing facts:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FETCH_FACTS_FAILED',
+          message: 'Failed to list facts',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  });
+
+  // Assert a fact, superseding contradicting facts about the same subject
+  router.post('/', async (req, res) => {
+    try {
+      const parsed = AssertFactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_FACT',
+            message: 'Invalid fact payload',
+            details: parsed.error.issues
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const result = await factModel.assert(parsed.data);
+
+      res.status(result.reverified ? 200 : 201).json({
+        success: true,
+        data: result,
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: unknown) {
+      console.error('Error asserting fact:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FACT_CREATION_FAILED',
+          message: 'Failed to assert fact',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  });
+
+  // Get fact by ID
+  router.get('/:id', async (req, res) => {
+    try {
+      const fact = await factModel.findById(req.params.id);
+      if (!fact) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Fact not found'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({
+        success: true,
+        data: fact,
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: unknown) {
+      console.error('Error fetching fact:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FETCH_FACT_FAILED',
+          message: 'Failed to fetch fact',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  });
+
+  // Get every version of the statement a fact belongs to
+  router.get('/:id/history', async (req, res) => {
+    try {
+      const history = await factModel.getHistory(req.params.id);
+
+      res.json({
+        success: true,
+        data: history,
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: unknown) {
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Fact not found'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error('Error fetching fact history:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FETCH_FACT_HISTORY_FAILED',
+          message: 'Failed to fetch fact history',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  });
+
+  // Re-verify a fact
+  router.post('/:id/verify', async (req, res) => {
+    try {
+      const { confidence } = req.body || {};
+
+      if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 1)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_CONFIDENCE',
+            message: 'Confidence must be a number between 0 and 1'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const fact = await factModel.verify(req.params.id, confidence);
+
+      res.json({
+        success: true,
+        data: fact,
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: unknown) {
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Fact not found'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error('Error verifying fact:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FACT_VERIFY_FAILED',
+          message: 'Failed to verify fact',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  });
+
+  return router;
+}
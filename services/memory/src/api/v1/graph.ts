@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { NotFoundError, ValidationError } from '../../models/BaseModel';
+import { GraphQueryService } from '../../services/GraphQueryService';
+
+export function createGraphRouter(graphQueryService: GraphQueryService): Router {
+  const router = Router();
+
+  // Multi-hop relationship query in the JSON DSL, run by the configured graph store
+  router.post('/query', async (req, res) => {
+    const meta = {
+      version: '1.0.0',
+      timestamp: new Date().toISOString()
+    };
+
+    try {
+      const result = await graphQueryService.query(req.body);
+      res.json({ success: true, data: result, meta });
+    } catch (error: unknown) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_GRAPH_QUERY', message: error.message },
+          meta
+        });
+      }
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'ENTITY_NOT_FOUND', message: error.message },
+          meta
+        });
+      }
+
+      console.error('Error running graph query:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GRAPH_QUERY_FAILED',
+          message: 'Failed to run graph query',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta
+      });
+    }
+  });
+
+  return router;
+}
@@ -2,16 +2,77 @@ import { Router } from 'express';
 import { EventModel } from '../../models/EventModel';
 import { EntityModel } from '../../models/EntityModel';
 import { TaskModel } from '../../models/TaskModel';
-import { RetrievalService } from '../../services/RetrievalService';
+import { FactModel } from '../../models/FactModel';
+import { CommitmentModel } from '../../models/CommitmentModel';
+import { SessionModel } from '../../models/SessionModel';
+import { ReviewDecisionModel } from '../../models/ReviewDecisionModel';
+import { RetentionPinModel } from '../../models/RetentionPinModel';
+import { MemorySummaryModel } from '../../models/MemorySummaryModel';
+import { ConsolidationService } from '../../services/ConsolidationService';
+import { ReembeddingService } from '../../services/ReembeddingService';
+import { TimelineService } from '../../services/TimelineService';
+import { EntityResolutionService } from '../../services/EntityResolutionService';
+import { PersonCardService } from '../../services/PersonCardService';
+import { RelationshipService } from '../../services/RelationshipService';
+import { GraphQueryService } from '../../services/GraphQueryService';
+import { SessionService } from '../../services/SessionService';
+import { ReviewService } from '../../services/ReviewService';
+import { RetentionService } from '../../services/RetentionService';
+import { PrivacyService } from '../../services/PrivacyService';
+import { EncryptionService } from '../../services/EncryptionService';
+import { BlobService } from '../../services/BlobService';
+import type { ChannelNotification } from '../../services/WebSocketService';
+import {
+  RetrievalService,
+  RETRIEVAL_MODES,
+  UNVERIFIED_HANDLING,
+  WEIGHT_PROFILES,
+  type RetrievalIntent,
+  type RetrievalMode,
+  type UnverifiedHandling,
+} from '../../services/RetrievalService';
 import { createEventsRouter } from './events';
 import { createEntitiesRouter } from './entities';
 import { createTasksRouter } from './tasks';
+import { createFactsRouter } from './facts';
+import { createSummariesRouter } from './summaries';
+import { createEmbeddingsRouter } from './embeddings';
+import { createTimelineRouter } from './timeline';
+import { createGraphRouter } from './graph';
+import { createCommitmentsRouter } from './commitments';
+import { createSessionsRouter } from './sessions';
+import { createReviewRouter } from './review';
+import { createRetentionRouter } from './retention';
+import { createPrivacyRouter } from './privacy';
+import { createEncryptionRouter, requireUnlocked } from './encryption';
+import { createBlobsRouter } from './blobs';
+import { createNotificationsRouter } from './notifications';
 
 export function createV1Router(
   eventModel: EventModel,
   entityModel: EntityModel,
   taskModel: TaskModel,
-  retrievalService: RetrievalService
+  retrievalService: RetrievalService,
+  factModel: FactModel,
+  summaryModel: MemorySummaryModel,
+  consolidationService: ConsolidationService,
+  reembeddingService: ReembeddingService,
+  timelineService: TimelineService,
+  entityResolutionService: EntityResolutionService,
+  personCardService: PersonCardService,
+  relationshipService: RelationshipService,
+  graphQueryService: GraphQueryService,
+  commitmentModel: CommitmentModel,
+  sessionModel: SessionModel,
+  sessionService: SessionService,
+  reviewService: ReviewService,
+  reviewDecisionModel: ReviewDecisionModel,
+  retentionService: RetentionService,
+  retentionPinModel: RetentionPinModel,
+  privacyService: PrivacyService,
+  encryptionService: EncryptionService,
+  blobService: BlobService,
+  notify: (notification: ChannelNotification) => void
 ): Router {
   const router = Router();
 
@@ -29,15 +90,31 @@ export function createV1Router(
     });
   });
 
+  // Locking and keys stay reachable while locked; everything after refuses
+  router.use('/encryption', createEncryptionRouter(encryptionService));
+  router.use(requireUnlocked(encryptionService));
+
   // Mount versioned routes
-  router.use('/events', createEventsRouter(eventModel, entityModel, taskModel));
-  router.use('/entities', createEntitiesRouter(entityModel, eventModel));
+  router.use('/events', createEventsRouter(eventModel, entityModel, taskModel, entityResolutionService, relationshipService, commitmentModel, sessionService));
+  router.use('/entities', createEntitiesRouter(entityModel, eventModel, entityResolutionService, personCardService, relationshipService, commitmentModel));
   router.use('/tasks', createTasksRouter(taskModel));
+  router.use('/facts', createFactsRouter(factModel));
+  router.use('/summaries', createSummariesRouter(summaryModel, consolidationService));
+  router.use('/embeddings', createEmbeddingsRouter(reembeddingService));
+  router.use('/timeline', createTimelineRouter(timelineService));
+  router.use('/graph', createGraphRouter(graphQueryService));
+  router.use('/commitments', createCommitmentsRouter(commitmentModel));
+  router.use('/sessions', createSessionsRouter(sessionModel, eventModel, sessionService));
+  router.use('/review', createReviewRouter(reviewService, reviewDecisionModel));
+  router.use('/retention', createRetentionRouter(retentionService, retentionPinModel));
+  router.use('/privacy', createPrivacyRouter(privacyService));
+  router.use('/blobs', createBlobsRouter(blobService));
+  router.use('/notifications', createNotificationsRouter(notify));
 
   // Search endpoint
   router.post('/search', async (req, res) => {
     try {
-      const { query, limit = 10, context = {} } = req.body;
+      const { query, limit = 10, context = {}, intent, mode, weights, lambda, rerank, as_of, unverified } = req.body;
       
       if (!query) {
         return res.status(400).json({
@@ -53,10 +130,74 @@ export function createV1Router(
         });
       }
 
+      if (intent !== undefined && !Object.prototype.hasOwnProperty.call(WEIGHT_PROFILES, intent)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_INTENT',
+            message: `intent must be one of: ${Object.keys(WEIGHT_PROFILES).join(', ')}`
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (mode !== undefined && !RETRIEVAL_MODES.includes(mode)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_MODE',
+            message: `mode must be one of: ${RETRIEVAL_MODES.join(', ')}`
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (unverified !== undefined && !UNVERIFIED_HANDLING.includes(unverified)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_UNVERIFIED',
+            message: `unverified must be one of: ${UNVERIFIED_HANDLING.join(', ')}`
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const asOf = as_of !== undefined ? new Date(as_of) : undefined;
+      if (asOf && isNaN(asOf.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_AS_OF',
+            message: 'as_of must be an ISO 8601 date'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
       const results = await retrievalService.retrieve(query, { 
         limit, 
+        intent: intent as RetrievalIntent | undefined,
+        mode: mode as RetrievalMode | undefined,
+        weights,
+        lambda: lambda !== undefined ? Number(lambda) : undefined,
+        rerank: rerank !== false,
         entityContext: context.entityContext || [],
-        timeWindow: context.timeWindow 
+        timeWindow: context.timeWindow,
+        asOf,
+        unverified: unverified as UnverifiedHandling | undefined
       });
       
       res.json({
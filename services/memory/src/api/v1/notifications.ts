@@ -0,0 +1,75 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ValidationError } from '../../models/BaseModel';
+import type { ChannelNotification } from '../../services/WebSocketService';
+
+const AddressSchema = z.object({
+  name: z.string().optional(),
+  address: z.string().email(),
+});
+
+// What the action service knows of a message when it arrives
+const EmailReceivedSchema = z.object({
+  id: z.string().min(1),
+  thread_id: z.string().optional(),
+  subject: z.string().optional(),
+  from: AddressSchema,
+  to: z.array(AddressSchema).default([]),
+  date: z.string().datetime({ offset: true }).optional(),
+  snippet: z.string().max(500).optional(),
+});
+
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+function sendError(res: Response, error: unknown, code: string, message: string) {
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: error.message, details: error.issues },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
+
+function parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid request', parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+/**
+ * Notifications raised by other services, passed on to WebSocket subscribers
+ */
+export function createNotificationsRouter(notify: (notification: ChannelNotification) => void): Router {
+  const router = Router();
+
+  // A new email in the action service's inbox, for email:received subscribers
+  router.post('/email', (req: Request, res: Response) => {
+    try {
+      const email = parse(EmailReceivedSchema, req.body);
+      notify({ type: 'email:received', data: { email }, timestamp: new Date().toISOString() });
+      res.status(202).json({ success: true, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'NOTIFICATION_FAILED', 'Failed to publish notification');
+    }
+  });
+
+  return router;
+}
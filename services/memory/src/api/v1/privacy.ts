@@ -0,0 +1,112 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseError, NotFoundError, ValidationError } from '../../models/BaseModel';
+import { PrivacyService } from '../../services/PrivacyService';
+
+// A contact is named by one of entity_id, email, handle or name
+const SubjectSchema = z.discriminatedUnion('scope', [
+  z.object({ scope: z.literal('user') }),
+  z.object({
+    scope: z.literal('contact'),
+    entity_id: z.string().uuid().optional(),
+    email: z.string().min(1).optional(),
+    handle: z.string().min(1).optional(),
+    name: z.string().min(1).optional(),
+  }),
+]);
+
+const EraseOptionsSchema = z.object({
+  dry_run: z.boolean().default(false),
+  // Erasing everything has to be asked for explicitly
+  confirm: z.boolean().optional(),
+});
+
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Reply to a failed request: 404 for unknown contacts, 400 for requests the
+ * service refused, 500 otherwise
+ */
+function sendError(res: Response, failure: unknown, code: string, message: string) {
+  // Model transactions wrap whatever failed inside them in a DatabaseError
+  const error = failure instanceof DatabaseError && failure.originalError instanceof Error
+    ? failure.originalError
+    : failure;
+
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error.message },
+      meta: meta()
+    });
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: error.message, details: error.issues },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
+
+function parseSubject(input: unknown) {
+  const parsed = SubjectSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid subject', parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+export function createPrivacyRouter(privacyService: PrivacyService): Router {
+  const router = Router();
+
+  // Download everything stored about the user (?scope=user) or a contact
+  // (?scope=contact&email=bob@example.com, or entity_id, handle or name)
+  router.get('/export', async (req: Request, res: Response) => {
+    try {
+      const archive = await privacyService.export(parseSubject(req.query));
+
+      const name = `ellipsa-export-${archive.subject.scope}-${archive.exported_at.slice(0, 10)}.json`;
+      res.attachment(name).json(archive);
+    } catch (error: unknown) {
+      sendError(res, error, 'PRIVACY_EXPORT_FAILED', 'Failed to export data');
+    }
+  });
+
+  // Forget a contact ({ scope: 'contact', email: ... }) or everything
+  // ({ scope: 'user', confirm: true }); dry_run reports without erasing
+  router.post('/erase', async (req: Request, res: Response) => {
+    try {
+      const subject = parseSubject(req.body);
+      const options = EraseOptionsSchema.safeParse(req.body);
+      if (!options.success) {
+        throw new ValidationError('Invalid erasure options', options.error.issues);
+      }
+      if (subject.scope === 'user' && !options.data.dry_run && options.data.confirm !== true) {
+        throw new ValidationError('Erasing everything requires confirm: true');
+      }
+
+      const report = await privacyService.erase(subject, { dryRun: options.data.dry_run });
+      res.json({ success: true, data: report, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'PRIVACY_ERASE_FAILED', 'Failed to erase data');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,153 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseError, NotFoundError, ValidationError } from '../../models/BaseModel';
+import { RetentionItemType, RetentionPinModel } from '../../models/RetentionPinModel';
+import { RetentionService } from '../../services/RetentionService';
+
+const ReportQuerySchema = z.object({
+  as_of: z.coerce.date().optional(),
+});
+
+const PinsQuerySchema = z.object({
+  type: RetentionItemType.optional(),
+});
+
+const PinSchema = z.object({
+  item_type: RetentionItemType,
+  item_id: z.string().min(1).max(255),
+  reason: z.string().max(1000).optional(),
+});
+
+const PinParamsSchema = z.object({
+  type: RetentionItemType,
+  id: z.string().min(1).max(255),
+});
+
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Reply to a failed request: 404 for unknown pins, 400 for requests the
+ * service refused, 500 otherwise
+ */
+function sendError(res: Response, failure: unknown, code: string, message: string) {
+  // Model transactions wrap whatever failed inside them in a DatabaseError
+  const error = failure instanceof DatabaseError && failure.originalError instanceof Error
+    ? failure.originalError
+    : failure;
+
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error.message },
+      meta: meta()
+    });
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: error.message, details: error.issues },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
+
+export function createRetentionRouter(
+  retentionService: RetentionService,
+  pinModel: RetentionPinModel
+): Router {
+  const router = Router();
+
+  // Rules in force per type and source, in days
+  router.get('/policy', (_req: Request, res: Response) => {
+    res.json({ success: true, data: retentionService.policy(), meta: meta() });
+  });
+
+  // What a run would do, without doing it (?as_of=2026-01-31)
+  router.get('/report', async (req: Request, res: Response) => {
+    try {
+      const parsed = ReportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', parsed.error.issues);
+      }
+
+      const report = await retentionService.run({ dryRun: true, now: parsed.data.as_of });
+      res.json({ success: true, data: report, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'RETENTION_REPORT_FAILED', 'Failed to build retention report');
+    }
+  });
+
+  // Run the job now rather than at its scheduled hour
+  router.post('/run', async (_req: Request, res: Response) => {
+    try {
+      const report = await retentionService.run();
+      res.json({ success: true, data: report, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'RETENTION_RUN_FAILED', 'Failed to run retention');
+    }
+  });
+
+  // Pinned items (?type=event|session|summary|screenshot)
+  router.get('/pins', async (req: Request, res: Response) => {
+    try {
+      const parsed = PinsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', parsed.error.issues);
+      }
+
+      const pins = await pinModel.list(parsed.data.type);
+      res.json({ success: true, data: pins, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_PINS_FAILED', 'Failed to fetch pins');
+    }
+  });
+
+  // Exempt an item from retention ({ item_type, item_id, reason })
+  router.post('/pins', async (req: Request, res: Response) => {
+    try {
+      const parsed = PinSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid pin', parsed.error.issues);
+      }
+
+      const pin = await pinModel.pin(parsed.data);
+      res.status(201).json({ success: true, data: pin, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'PIN_FAILED', 'Failed to pin item');
+    }
+  });
+
+  router.delete('/pins/:type/:id', async (req: Request, res: Response) => {
+    try {
+      const parsed = PinParamsSchema.safeParse(req.params);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid pin', parsed.error.issues);
+      }
+
+      const { type, id } = parsed.data;
+      if (!(await pinModel.unpin(type, id))) {
+        throw new NotFoundError(`No pin for ${type} ${id}`);
+      }
+      res.json({ success: true, data: { item_type: type, item_id: id }, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'UNPIN_FAILED', 'Failed to unpin item');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,167 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseError, NotFoundError, ValidationError } from '../../models/BaseModel';
+import { ReviewDecision, ReviewDecisionModel, ReviewItemType } from '../../models/ReviewDecisionModel';
+import { ReviewService } from '../../services/ReviewService';
+
+const QueueQuerySchema = z.object({
+  type: ReviewItemType.optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const DecisionsQuerySchema = z.object({
+  decision: ReviewDecision.optional(),
+  type: ReviewItemType.optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const ItemParamsSchema = z.object({
+  type: ReviewItemType,
+  id: z.string().uuid(),
+});
+
+const EditSchema = z.object({
+  changes: z.record(z.unknown()),
+});
+
+const RejectSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Reply to a failed request: 404 for unknown items, 400 for requests the
+ * service refused, 500 otherwise
+ */
+function sendError(res: Response, failure: unknown, code: string, message: string) {
+  // Model transactions wrap whatever failed inside them in a DatabaseError
+  const error = failure instanceof DatabaseError && failure.originalError instanceof Error
+    ? failure.originalError
+    : failure;
+
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error.message },
+      meta: meta()
+    });
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: error.message, details: error.issues },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
+
+function itemParams(req: Request) {
+  const parsed = ItemParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid item', parsed.error.issues);
+  }
+  return parsed.data;
+}
+
+export function createReviewRouter(
+  reviewService: ReviewService,
+  decisionModel: ReviewDecisionModel
+): Router {
+  const router = Router();
+
+  // Unverified events, tasks and entities, newest first (?type=event|task|entity, ?limit=50, ?offset=0)
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const parsed = QueueQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', parsed.error.issues);
+      }
+
+      const queue = await reviewService.queue(parsed.data);
+      res.json({ success: true, data: queue, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_REVIEW_QUEUE_FAILED', 'Failed to fetch review queue');
+    }
+  });
+
+  // Past answers and their counts, to evaluate the extraction prompt
+  // (?decision=approved|edited|rejected, ?type=event|task|entity, ?limit=50, ?offset=0)
+  router.get('/decisions', async (req: Request, res: Response) => {
+    try {
+      const parsed = DecisionsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', parsed.error.issues);
+      }
+
+      const { type, ...options } = parsed.data;
+      const [decisions, stats] = await Promise.all([
+        decisionModel.list({ ...options, itemType: type }),
+        decisionModel.stats(),
+      ]);
+      res.json({ success: true, data: { decisions, stats }, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_REVIEW_DECISIONS_FAILED', 'Failed to fetch review decisions');
+    }
+  });
+
+  router.post('/:type/:id/approve', async (req: Request, res: Response) => {
+    try {
+      const { type, id } = itemParams(req);
+      const outcome = await reviewService.approve(type, id);
+      res.json({ success: true, data: outcome, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'APPROVE_FAILED', 'Failed to approve item');
+    }
+  });
+
+  // Correct the item and keep it ({ changes: { title: ... } })
+  router.post('/:type/:id/edit', async (req: Request, res: Response) => {
+    try {
+      const { type, id } = itemParams(req);
+      const parsed = EditSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid edit', parsed.error.issues);
+      }
+
+      const outcome = await reviewService.edit(type, id, parsed.data.changes);
+      res.json({ success: true, data: outcome, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'EDIT_FAILED', 'Failed to edit item');
+    }
+  });
+
+  router.post('/:type/:id/reject', async (req: Request, res: Response) => {
+    try {
+      const { type, id } = itemParams(req);
+      const parsed = RejectSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        throw new ValidationError('Invalid rejection', parsed.error.issues);
+      }
+
+      const outcome = await reviewService.reject(type, id, parsed.data.reason);
+      res.json({ success: true, data: outcome, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'REJECT_FAILED', 'Failed to reject item');
+    }
+  });
+
+  return router;
+}
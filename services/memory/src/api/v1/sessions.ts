@@ -0,0 +1,163 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseError, NotFoundError, ValidationError } from '../../models/BaseModel';
+import { EventModel } from '../../models/EventModel';
+import {
+  SessionKind,
+  SessionModel,
+  SessionReviewStatus,
+  SessionStatus,
+} from '../../models/SessionModel';
+import { SessionService } from '../../services/SessionService';
+
+const ListQuerySchema = z.object({
+  status: SessionStatus.optional(),
+  kind: SessionKind.optional(),
+  review_status: SessionReviewStatus.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const ReviewSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('accept'), discard: z.array(z.string().uuid()).max(500).optional() }),
+  z.object({ action: z.literal('discard') }),
+]);
+
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Reply to a failed request: 404 for unknown sessions, 400 for requests the
+ * service refused, 500 otherwise
+ */
+function sendError(res: Response, failure: unknown, code: string, message: string) {
+  // Model transactions wrap whatever failed inside them in a DatabaseError
+  const error = failure instanceof DatabaseError && failure.originalError instanceof Error
+    ? failure.originalError
+    : failure;
+
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error.message },
+      meta: meta()
+    });
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: error.message, details: error.issues },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
+
+export function createSessionsRouter(
+  sessionModel: SessionModel,
+  eventModel: EventModel,
+  sessionService: SessionService
+): Router {
+  const router = Router();
+
+  // List sessions, most recent first
+  // (?status=open|closed, ?kind=meeting|work, ?review_status=pending, ?from=..., ?to=..., ?limit=50, ?offset=0)
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const parsed = ListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', parsed.error.issues);
+      }
+
+      const { review_status, ...options } = parsed.data;
+      const sessions = await sessionModel.list({ ...options, reviewStatus: review_status });
+      res.json({ success: true, data: sessions, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_SESSIONS_FAILED', 'Failed to list sessions');
+    }
+  });
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const session = await sessionModel.findById(req.params.id);
+      if (!session) {
+        throw new NotFoundError('Session not found');
+      }
+
+      res.json({ success: true, data: session, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_SESSION_FAILED', 'Failed to fetch session');
+    }
+  });
+
+  // The session's events, oldest first
+  router.get('/:id/events', async (req: Request, res: Response) => {
+    try {
+      const session = await sessionModel.findById(req.params.id);
+      if (!session) {
+        throw new NotFoundError('Session not found');
+      }
+
+      const events = await eventModel.findBySession(req.params.id);
+      res.json({
+        success: true,
+        data: events.map(({ embedding, ...event }) => event),
+        meta: meta()
+      });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_SESSION_EVENTS_FAILED', 'Failed to fetch session events');
+    }
+  });
+
+  // End a session now instead of waiting for it to go quiet
+  router.post('/:id/close', async (req: Request, res: Response) => {
+    try {
+      const review = await sessionService.close(req.params.id);
+      res.json({ success: true, data: review, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'CLOSE_SESSION_FAILED', 'Failed to close session');
+    }
+  });
+
+  // The tasks, commitments and facts captured in the session
+  router.get('/:id/review', async (req: Request, res: Response) => {
+    try {
+      const review = await sessionService.getReview(req.params.id);
+      res.json({ success: true, data: review, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_SESSION_REVIEW_FAILED', 'Failed to fetch session review');
+    }
+  });
+
+  // Accept the captured items (minus the IDs in `discard`) or discard them all
+  router.post('/:id/review', async (req: Request, res: Response) => {
+    try {
+      const parsed = ReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid review', parsed.error.issues);
+      }
+
+      const result = await sessionService.review(req.params.id, parsed.data);
+      res.json({ success: true, data: result, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'SESSION_REVIEW_FAILED', 'Failed to review session');
+    }
+  });
+
+  return router;
+}
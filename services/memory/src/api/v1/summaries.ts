@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { MemorySummaryModel, SummaryScope } from '../../models/MemorySummaryModel';
+import { ConsolidationService } from '../../services/ConsolidationService';
+
+export function createSummariesRouter(
+  summaryModel: MemorySummaryModel,
+  consolidationService: ConsolidationService
+): Router {
+  const router = Router();
+
+  // List summaries, optionally filtered by scope and period
+  router.get('/', async (req, res) => {
+    try {
+      const { scope, scope_id, from, to } = req.query;
+
+      if (scope && !SummaryScope.safeParse(scope).success) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_SCOPE',
+            message: 'Scope must be one of session, entity or day'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const summaries = await summaryModel.findInPeriod(
+        from ? new Date(from as string) : new Date(0),
+        to ? new Date(to as string) : new Date(),
+        {
+          scope: scope as SummaryScope | undefined,
+          scopeId: scope_id as string | undefined,
+        }
+      );
+
+      res.json({
+        success: true,
+        data: summaries.map(({ embedding, ...summary }) => summary),
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: unknown) {
+      console.error('Error listing summaries:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FETCH_SUMMARIES_FAILED',
+          message: 'Failed to list summaries',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  });
+
+  // Run consolidation for a day on demand (defaults to today)
+  router.post('/consolidate', async (req, res) => {
+    try {
+      // A bare date names a local day, where Date would read it as UTC midnight
+      const date = req.body?.date;
+      const day = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)
+        ? new Date(`${date}T00:00:00`)
+        : date ? new Date(date) : new Date();
+
+      if (isNaN(day.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_DATE',
+            message: 'Invalid date value'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const report = await consolidationService.consolidateDay(day);
+
+      res.json({
+        success: true,
+        data: report,
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: unknown) {
+      console.error('Error consolidating memory:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CONSOLIDATION_FAILED',
+          message: 'Failed to consolidate memory',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  });
+
+  return router;
+}
@@ -1,109 +1,368 @@
-import { Router } from 'express';
-import { TaskModel } from '../../models/TaskModel';
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseError, NotFoundError, ValidationError } from '../../models/BaseModel';
+import {
+  TaskCreateSchema,
+  TaskModel,
+  TaskStatus,
+  TaskUpdateSchema,
+} from '../../models/TaskModel';
+
+// Largest number of tasks one bulk request may touch
+const MAX_BULK_TASKS = 100;
+
+const CreateTaskSchema = TaskCreateSchema.extend({
+  depends_on: z.array(z.string().uuid()).optional(),
+});
+
+// Point-in-time listings read old versions, which the list filters and
+// cursor do not apply to
+const AsOfQuerySchema = z.object({
+  status: TaskStatus.optional(),
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+}).strict();
+
+const BulkIdsSchema = z.array(z.string().uuid()).min(1).max(MAX_BULK_TASKS);
+
+const BulkOperationSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('create'), tasks: z.array(CreateTaskSchema).min(1).max(MAX_BULK_TASKS) }),
+  z.object({ action: z.literal('update'), ids: BulkIdsSchema, changes: TaskUpdateSchema }),
+  z.object({ action: z.literal('delete'), ids: BulkIdsSchema }),
+  z.object({ action: z.literal('restore'), ids: BulkIdsSchema }),
+]);
+
+interface BulkResult {
+  id?: string;
+  success: boolean;
+  data?: unknown;
+  error?: { code: string; message: string };
+}
+
+/**
+ * Accept the field names older clients send with event tasks
+ */
+function withLegacyFields(body: any): unknown {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return body;
+  const { text, owner, due_ts, ...rest } = body;
+  return {
+    ...rest,
+    title: rest.title ?? text,
+    assignee_id: rest.assignee_id ?? owner,
+    due_date: rest.due_date ?? due_ts,
+  };
+}
+
+function invalid(error: z.ZodError, message: string): ValidationError {
+  return new ValidationError(message, error.issues);
+}
+
+// Model transactions wrap whatever failed inside them in a DatabaseError
+function unwrap(error: unknown): unknown {
+  return error instanceof DatabaseError && error.originalError instanceof Error
+    ? error.originalError
+    : error;
+}
+
+const meta = () => ({
+  version: '1.0.0',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Reply to a failed request: 404 for unknown tasks, 400 (with
+ * `invalidCode`) for changes the model refused, 500 otherwise
+ */
+function sendError(res: Response, failure: unknown, code: string, message: string, invalidCode = 'INVALID_REQUEST') {
+  const error = unwrap(failure);
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error.message },
+      meta: meta()
+    });
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: invalidCode, message: error.message, details: error.issues },
+      meta: meta()
+    });
+  }
+
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+  return res.status(500).json({
+    success: false,
+    error: {
+      code,
+      message,
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+    },
+    meta: meta()
+  });
+}
 
 export function createTasksRouter(taskModel: TaskModel): Router {
   const router = Router();
 
+  // Tasks as they were at a moment, filtered by status and paged with page
+  // and pageSize
+  const listAsOf = async (asOfParam: unknown, query: Record<string, unknown>, res: Response) => {
+    try {
+      const asOf = new Date(asOfParam as string);
+      if (typeof asOfParam !== 'string' || isNaN(asOf.getTime())) {
+        throw new ValidationError('as_of must be an ISO 8601 date');
+      }
+      const parsed = AsOfQuerySchema.safeParse(query);
+      if (!parsed.success) throw invalid(parsed.error, 'Only status, page and pageSize can be combined with as_of');
+
+      const { status, page, pageSize } = parsed.data;
+      const tasks = await taskModel.findAllAsOf(asOf, status ? { status } : {}, {
+        page,
+        pageSize,
+        sortBy: 'due_date',
+        sortOrder: 'asc',
+      });
+      res.json({ success: true, data: tasks.data, pagination: tasks.pagination, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_TASKS_FAILED', 'Failed to list tasks', 'INVALID_AS_OF');
+    }
+  };
+
+  // List tasks matching the filters a page at a time (see TaskListQuerySchema),
+  // or as they were at ?as_of=<ISO date>
+  router.get('/', async (req, res) => {
+    const { as_of, ...query } = req.query;
+    if (as_of !== undefined) return listAsOf(as_of, query, res);
+    try {
+      const tasks = await taskModel.list(query);
+      res.json({ success: true, data: tasks.data, pagination: tasks.pagination, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_TASKS_FAILED', 'Failed to list tasks', 'INVALID_QUERY');
+    }
+  });
+
   // Create a new task
   router.post('/', async (req, res) => {
     try {
-      const taskData = req.body;
-      
-      const task = await taskModel.create({
-        title: taskData.title || taskData.text || 'Untitled task',
-        description: taskData.description,
-        status: taskData.status || 'pending',
-        priority: taskData.priority || 'medium',
-        related_event_id: taskData.related_event_id,
-        assignee_id: taskData.owner || taskData.assignee_id,
-        due_date: taskData.due_ts || taskData.due_date,
-        metadata: taskData.metadata || {},
-      });
-      
-      res.status(201).json({ 
-        success: true,
-        data: task,
-        meta: {
-          version: '1.0.0',
-          timestamp: new Date().toISOString()
-        }
-      });
+      const parsed = CreateTaskSchema.safeParse(withLegacyFields(req.body));
+      if (!parsed.success) throw invalid(parsed.error, 'Invalid task payload');
+
+      const { depends_on, ...taskData } = parsed.data;
+      const task = await taskModel.create(taskData, undefined, { dependsOn: depends_on });
+
+      res.status(201).json({ success: true, data: task, meta: meta() });
     } catch (error: unknown) {
-      console.error('Error creating task:', error);
-      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-      res.status(500).json({ 
-        success: false,
-        error: {
-          code: 'TASK_CREATION_FAILED',
-          message: 'Failed to create task',
-          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
-        },
-        meta: {
-          version: '1.0.0',
-          timestamp: new Date().toISOString()
+      // An unknown parent or dependency is a bad request, not a missing task
+      const cause = unwrap(error);
+      sendError(
+        res,
+        cause instanceof NotFoundError ? new ValidationError(cause.message) : cause,
+        'TASK_CREATION_FAILED',
+        'Failed to create task',
+        'INVALID_TASK'
+      );
+    }
+  });
+
+  // Create, update, delete or restore up to MAX_BULK_TASKS tasks. Each task
+  // succeeds or fails on its own; the response lists the outcome of each.
+  router.post('/bulk', async (req, res) => {
+    try {
+      const parsed = BulkOperationSchema.safeParse(req.body);
+      if (!parsed.success) throw invalid(parsed.error, 'Invalid bulk operation');
+      const operation = parsed.data;
+
+      const attempt = async (id: string | undefined, run: () => Promise<unknown>): Promise<BulkResult> => {
+        try {
+          const data = await run();
+          if (data === null || data === false) {
+            return { id, success: false, error: { code: 'NOT_FOUND', message: 'Task not found' } };
+          }
+          return { id, success: true, data: data === true ? undefined : data };
+        } catch (error: unknown) {
+          const cause = unwrap(error);
+          if (cause instanceof NotFoundError) {
+            return { id, success: false, error: { code: 'NOT_FOUND', message: cause.message } };
+          }
+          if (cause instanceof ValidationError) {
+            return { id, success: false, error: { code: 'INVALID_TASK', message: cause.message } };
+          }
+          console.error(`Bulk ${operation.action} failed for task ${id ?? '(new)'}:`, error);
+          return { id, success: false, error: { code: 'TASK_OPERATION_FAILED', message: `Failed to ${operation.action} task` } };
+        }
+      };
+
+      const results: BulkResult[] = [];
+      if (operation.action === 'create') {
+        for (const { depends_on, ...taskData } of operation.tasks) {
+          results.push(await attempt(undefined, () => taskModel.create(taskData, undefined, { dependsOn: depends_on })));
+        }
+      } else {
+        for (const id of Array.from(new Set(operation.ids))) {
+          results.push(await attempt(id, () => {
+            switch (operation.action) {
+              case 'update': return taskModel.update(id, operation.changes);
+              case 'delete': return taskModel.softDeleteById(id);
+              case 'restore': return taskModel.restore(id);
+            }
+          }));
         }
+      }
+
+      const succeeded = results.filter(result => result.success).length;
+      res.json({
+        success: true,
+        data: { results, succeeded, failed: results.length - succeeded },
+        meta: meta()
       });
+    } catch (error: unknown) {
+      sendError(res, error, 'BULK_OPERATION_FAILED', 'Failed to apply bulk operation', 'INVALID_BULK_OPERATION');
+    }
+  });
+
+  router.get('/:id', async (req, res) => {
+    try {
+      const task = await taskModel.findById(req.params.id);
+      if (!task) throw new NotFoundError('Task not found');
+
+      res.json({ success: true, data: task, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_TASK_FAILED', 'Failed to fetch task');
+    }
+  });
+
+  const updateTask = async (req: Request, res: Response) => {
+    try {
+      const parsed = TaskUpdateSchema.safeParse(req.body);
+      if (!parsed.success) throw invalid(parsed.error, 'Invalid task payload');
+
+      const task = await taskModel.update(req.params.id, parsed.data);
+      if (!task) throw new NotFoundError('Task not found');
+
+      res.json({ success: true, data: task, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'TASK_UPDATE_FAILED', 'Failed to update task', 'INVALID_TASK');
+    }
+  };
+
+  // PUT and PATCH both change only the fields given; leaving a field out
+  // keeps its stored value rather than resetting it to the default
+  router.put('/:id', updateTask);
+  router.patch('/:id', updateTask);
+
+  // Soft delete a task; restore it with POST /:id/restore
+  router.delete('/:id', async (req, res) => {
+    try {
+      const deleted = await taskModel.softDeleteById(req.params.id);
+      if (!deleted) throw new NotFoundError('Task not found');
+
+      res.json({ success: true, data: { id: req.params.id, deleted: true }, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'TASK_DELETE_FAILED', 'Failed to delete task');
+    }
+  });
+
+  router.post('/:id/restore', async (req, res) => {
+    try {
+      const task = await taskModel.restore(req.params.id);
+      if (!task) throw new NotFoundError('Task not found or not deleted');
+
+      res.json({ success: true, data: task, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'TASK_RESTORE_FAILED', 'Failed to restore task');
     }
   });
 
   // Update task status
   router.patch('/:id/status', async (req, res) => {
     try {
-      const { status } = req.body;
-      
-      if (!['pending', 'in_progress', 'completed', 'failed'].includes(status)) {
-        return res.status(400).json({ 
-          success: false,
-          error: {
-            code: 'INVALID_STATUS',
-            message: 'Invalid status value'
-          },
-          meta: {
-            version: '1.0.0',
-            timestamp: new Date().toISOString()
-          }
-        });
+      const parsed = TaskStatus.safeParse(req.body?.status);
+      if (!parsed.success) throw invalid(parsed.error, 'Invalid status value');
+
+      const task = await taskModel.update(req.params.id, { status: parsed.data });
+      if (!task) throw new NotFoundError('Task not found');
+
+      res.json({ success: true, data: task, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'TASK_UPDATE_FAILED', 'Failed to update task status', 'INVALID_STATUS');
+    }
+  });
+
+  // Silence a task's reminders until a time, or for a number of minutes
+  router.post('/:id/snooze', async (req, res) => {
+    try {
+      const { until, minutes } = req.body;
+      const snoozeUntil = until !== undefined
+        ? new Date(until)
+        : new Date(Date.now() + Number(minutes) * 60 * 1000);
+
+      if (isNaN(snoozeUntil.getTime()) || snoozeUntil.getTime() <= Date.now()) {
+        throw new ValidationError('Provide a future ISO 8601 date as until, or a positive number of minutes');
       }
-      
-      const task = await taskModel.update(req.params.id, { status });
-      
-      if (!task) {
-        return res.status(404).json({ 
-          success: false,
-          error: {
-            code: 'NOT_FOUND',
-            message: 'Task not found'
-          },
-          meta: {
-            version: '1.0.0',
-            timestamp: new Date().toISOString()
-          }
-        });
+
+      const task = await taskModel.snooze(req.params.id, snoozeUntil);
+      if (!task) throw new NotFoundError('Task not found');
+
+      res.json({ success: true, data: task, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'TASK_SNOOZE_FAILED', 'Failed to snooze task', 'INVALID_SNOOZE');
+    }
+  });
+
+  // A task with its subtasks, their dependencies and what blocks them
+  router.get('/:id/tree', async (req, res) => {
+    try {
+      const tree = await taskModel.getTree(req.params.id);
+      if (!tree) throw new NotFoundError('Task not found');
+
+      res.json({ success: true, data: tree, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'FETCH_TASK_TREE_FAILED', 'Failed to fetch task tree');
+    }
+  });
+
+  // Make a task wait for another; blocks it while the other is unfinished
+  router.post('/:id/dependencies', async (req, res) => {
+    try {
+      const { depends_on_id } = req.body;
+      if (typeof depends_on_id !== 'string' || !depends_on_id) {
+        throw new ValidationError('depends_on_id is required');
       }
-      
-      res.json({ 
-        success: true,
-        data: task,
-        meta: {
-          version: '1.0.0',
-          timestamp: new Date().toISOString()
-        }
-      });
+
+      const task = await taskModel.addDependency(req.params.id, depends_on_id);
+      res.status(201).json({ success: true, data: task, meta: meta() });
     } catch (error: unknown) {
-      console.error('Error updating task status:', error);
-      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-      res.status(500).json({ 
-        success: false,
-        error: {
-          code: 'TASK_UPDATE_FAILED',
-          message: 'Failed to update task status',
-          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
-        },
-        meta: {
-          version: '1.0.0',
-          timestamp: new Date().toISOString()
-        }
-      });
+      sendError(res, error, 'ADD_DEPENDENCY_FAILED', 'Failed to add task dependency', 'INVALID_DEPENDENCY');
+    }
+  });
+
+  router.delete('/:id/dependencies/:dependsOnId', async (req, res) => {
+    try {
+      const removed = await taskModel.removeDependency(req.params.id, req.params.dependsOnId);
+      if (!removed) throw new NotFoundError('Task dependency not found');
+
+      res.json({ success: true, data: await taskModel.findById(req.params.id), meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'REMOVE_DEPENDENCY_FAILED', 'Failed to remove task dependency');
+    }
+  });
+
+  // Move a task under another task, or make it top-level with parent_id null
+  router.patch('/:id/parent', async (req, res) => {
+    try {
+      const { parent_id } = req.body;
+      if (parent_id !== null && (typeof parent_id !== 'string' || !parent_id)) {
+        throw new ValidationError('parent_id must be a task id or null');
+      }
+
+      const task = await taskModel.update(req.params.id, { parent_id });
+      if (!task) throw new NotFoundError('Task not found');
+
+      res.json({ success: true, data: task, meta: meta() });
+    } catch (error: unknown) {
+      sendError(res, error, 'TASK_UPDATE_FAILED', 'Failed to move task', 'INVALID_PARENT');
     }
   });
 
@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { TimelineService } from '../../services/TimelineService';
+
+export function createTimelineRouter(timelineService: TimelineService): Router {
+  const router = Router();
+
+  // Chronological timeline for a person (?entity=) and/or topic (?topic=)
+  router.get('/', async (req, res) => {
+    try {
+      const { entity, topic, from, to, limit } = req.query;
+
+      if (!entity && !topic) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'MISSING_FILTER',
+            message: 'entity or topic is required'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_DATE',
+            message: 'from and to must be ISO 8601 dates'
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const timeline = await timelineService.build({
+        entity: entity as string | undefined,
+        topic: topic as string | undefined,
+        from: fromDate,
+        to: toDate,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+      });
+
+      if (!timeline) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'ENTITY_NOT_FOUND',
+            message: `No entity matches "${entity}"`
+          },
+          meta: {
+            version: '1.0.0',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({
+        success: true,
+        data: timeline,
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error: unknown) {
+      console.error('Error building timeline:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TIMELINE_FAILED',
+          message: 'Failed to build timeline',
+          details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+        },
+        meta: {
+          version: '1.0.0',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  });
+
+  return router;
+}
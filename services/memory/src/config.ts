@@ -40,12 +40,100 @@ export interface ChromaConfig {
   ssl?: boolean;
 }
 
+export interface EmbeddingConfig {
+  provider: 'local' | 'openai';
+  model?: string;
+  dimensions: number;
+  apiKey?: string;
+}
+
+export interface VectorStoreConfig {
+  backend: 'chroma' | 'pgvector' | 'memory';
+}
+
+export interface GraphStoreConfig {
+  backend: 'neo4j' | 'sql';
+}
+
+export interface RetrievalConfig {
+  reranker: 'prompt' | 'heuristic';
+}
+
+export interface ConsolidationConfig {
+  enabled: boolean;
+  runAtHour: number; // Local hour of day (0-23) for the nightly job, which consolidates the previous day
+  sessionGapMinutes: number; // Events further apart than this start a new session
+}
+
+export interface EntityResolutionConfig {
+  autoMergeThreshold: number; // Matches at or above this confidence are merged without asking
+  reviewThreshold: number; // Matches at or above this confidence are queued for review
+}
+
+export interface RelationshipConfig {
+  halfLifeDays: number; // Days after which an interaction counts half towards relationship strength
+  decayHour: number; // Local hour of day (0-23) for the daily decay job
+}
+
+export interface TaskSchedulerConfig {
+  enabled: boolean;
+  intervalSeconds: number; // Seconds between due date checks
+  reminderMinutes: number[]; // Default reminder offsets before the due date
+  escalationHours: number; // Hours overdue per priority level added; 0 disables escalation
+  escalationMaxPriority: 'low' | 'medium' | 'high' | 'urgent';
+}
+
+export interface SessionConfig {
+  enabled: boolean;
+  gapMinutes: number; // Captures further apart than this start a new session; quiet sessions close after it
+  intervalSeconds: number; // Seconds between checks for quiet sessions
+}
+
+export interface ReviewConfig {
+  confidenceThreshold: number; // Extractions less confident than this are queued for verification
+}
+
+export interface RetentionConfig {
+  enabled: boolean;
+  runAtHour: number; // Local hour of day (0-23) for the retention job
+  hotDays: number; // Days raw captures are kept
+  warmDays: number; // Days before captures are purged, leaving their summaries
+  rules: unknown[]; // Per-type and per-source overrides, checked by RetentionService
+}
+
+export interface EncryptionConfig {
+  enabled: boolean;
+  keyRingPath: string; // Data keys, wrapped by the master key
+  passphrase?: string; // Unlock at startup with this passphrase...
+  masterKeyPath?: string; // ...or with the key in this file; otherwise start locked
+}
+
+export interface BlobStoreConfig {
+  backend: 'fs' | 's3';
+  path: string; // Blob directory, or the local S3 stand-in's root
+  bucket: string; // S3 only
+  prefix: string; // S3 only: key prefix inside the bucket
+}
+
 export interface Config {
   port: number;
   env: string;
   database: DatabaseConfig;
   neo4j: Neo4jConfig;
   chroma: ChromaConfig;
+  embeddings: EmbeddingConfig;
+  vectorStore: VectorStoreConfig;
+  graphStore: GraphStoreConfig;
+  retrieval: RetrievalConfig;
+  consolidation: ConsolidationConfig;
+  entityResolution: EntityResolutionConfig;
+  relationships: RelationshipConfig;
+  tasks: TaskSchedulerConfig;
+  sessions: SessionConfig;
+  review: ReviewConfig;
+  retention: RetentionConfig;
+  encryption: EncryptionConfig;
+  blobStore: BlobStoreConfig;
   openaiApiKey?: string;
 }
 
@@ -96,6 +184,93 @@ const config: Config = {
     ssl: process.env.CHROMA_SSL === 'true',
   },
 
+  // Embeddings are computed locally unless an OpenAI key is configured
+  embeddings: (() => {
+    const provider = (process.env.EMBEDDING_PROVIDER
+      || (process.env.OPENAI_API_KEY ? 'openai' : 'local')) as EmbeddingConfig['provider'];
+    return {
+      provider,
+      model: process.env.EMBEDDING_MODEL || (provider === 'openai' ? 'text-embedding-3-small' : undefined),
+      dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || (provider === 'openai' ? '1536' : '384'), 10),
+      apiKey: process.env.OPENAI_API_KEY,
+    };
+  })(),
+
+  // pgvector keeps vectors in Postgres next to the rows; Chroma is the default
+  vectorStore: {
+    backend: (process.env.VECTOR_STORE || 'chroma') as VectorStoreConfig['backend'],
+  },
+
+  // The SQL graph store keeps edges in the relational database, so Neo4j is optional
+  graphStore: {
+    backend: (process.env.GRAPH_STORE || 'neo4j') as GraphStoreConfig['backend'],
+  },
+
+  // Second-stage reranking; the prompt reranker falls back to the heuristic one
+  retrieval: {
+    reranker: (process.env.RERANKER || 'prompt') as RetrievalConfig['reranker'],
+  },
+
+  consolidation: {
+    enabled: process.env.CONSOLIDATION_ENABLED !== 'false',
+    runAtHour: parseInt(process.env.CONSOLIDATION_HOUR || '0', 10),
+    sessionGapMinutes: parseInt(process.env.CONSOLIDATION_SESSION_GAP_MINUTES || '30', 10),
+  },
+
+  entityResolution: {
+    autoMergeThreshold: parseFloat(process.env.ENTITY_AUTO_MERGE_THRESHOLD || '0.92'),
+    reviewThreshold: parseFloat(process.env.ENTITY_REVIEW_THRESHOLD || '0.75'),
+  },
+
+  relationships: {
+    halfLifeDays: parseFloat(process.env.RELATIONSHIP_HALF_LIFE_DAYS || '30'),
+    decayHour: parseInt(process.env.RELATIONSHIP_DECAY_HOUR || '3', 10),
+  },
+
+  tasks: {
+    enabled: process.env.TASK_SCHEDULER_ENABLED !== 'false',
+    intervalSeconds: parseInt(process.env.TASK_SCHEDULER_INTERVAL_SECONDS || '60', 10),
+    reminderMinutes: (process.env.TASK_REMINDER_MINUTES ?? '15')
+      .split(',')
+      .filter(value => value.trim() !== '')
+      .map(value => parseInt(value, 10)),
+    escalationHours: parseFloat(process.env.TASK_ESCALATION_HOURS || '24'),
+    escalationMaxPriority: (process.env.TASK_ESCALATION_MAX_PRIORITY || 'urgent') as TaskSchedulerConfig['escalationMaxPriority'],
+  },
+
+  sessions: {
+    enabled: process.env.SESSIONS_ENABLED !== 'false',
+    gapMinutes: parseFloat(process.env.SESSION_GAP_MINUTES || '10'),
+    intervalSeconds: parseInt(process.env.SESSION_CHECK_INTERVAL_SECONDS || '60', 10),
+  },
+
+  review: {
+    confidenceThreshold: parseFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD || '0.6'),
+  },
+
+  retention: {
+    enabled: process.env.RETENTION_ENABLED !== 'false',
+    runAtHour: parseInt(process.env.RETENTION_HOUR || '3', 10),
+    hotDays: parseFloat(process.env.RETENTION_HOT_DAYS || '7'),
+    warmDays: parseFloat(process.env.RETENTION_WARM_DAYS || '90'),
+    rules: JSON.parse(process.env.RETENTION_RULES || '[]'),
+  },
+
+  encryption: {
+    enabled: process.env.ENCRYPTION_ENABLED === 'true',
+    keyRingPath: process.env.ENCRYPTION_KEY_RING || './data/keyring.json',
+    passphrase: process.env.ENCRYPTION_PASSPHRASE || undefined,
+    masterKeyPath: process.env.ENCRYPTION_MASTER_KEY_FILE || undefined,
+  },
+
+  // Screenshots, audio and attachments, stored once per distinct content
+  blobStore: {
+    backend: (process.env.BLOB_STORE || 'fs') as BlobStoreConfig['backend'],
+    path: process.env.BLOB_PATH || './data/blobs',
+    bucket: process.env.BLOB_S3_BUCKET || 'ellipsa-blobs',
+    prefix: process.env.BLOB_S3_PREFIX || '',
+  },
+
   openaiApiKey: process.env.OPENAI_API_KEY,
 };
 
@@ -0,0 +1,63 @@
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import type { BlobBackend, ByteRange } from './store';
+
+/**
+ * Blobs as files under a root directory, fanned out by the first two bytes
+ * of the key so no directory grows too large
+ */
+export class FilesystemBlobBackend implements BlobBackend {
+  readonly kind = 'fs' as const;
+
+  constructor(private readonly root: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathFor(key);
+    await mkdir(path.dirname(file), { recursive: true });
+
+    // Write then rename, so a reader never sees half a blob
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, data);
+    await rename(tmp, file);
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Buffer> {
+    if (!range) {
+      return readFile(this.pathFor(key));
+    }
+
+    const handle = await open(this.pathFor(key), 'r');
+    try {
+      const buffer = Buffer.alloc(range.end - range.start + 1);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, range.start);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await stat(this.pathFor(key));
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.pathFor(key));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+
+  private pathFor(key: string): string {
+    if (!/^[0-9a-f]{8,}$/.test(key)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.root, key.slice(0, 2), key.slice(2, 4), key);
+  }
+}
@@ -0,0 +1,127 @@
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import type { BlobBackend, ByteRange } from './store';
+
+/**
+ * The subset of the S3 API the blob store uses, shaped like the object
+ * commands of the AWS SDK so a thin adapter over any S3-compatible client
+ * (AWS, MinIO, R2) satisfies it. Missing objects fail with an error named
+ * NoSuchKey, or NotFound from headObject, as S3 does.
+ */
+export interface S3Client {
+  putObject(input: { Bucket: string; Key: string; Body: Buffer; ContentType?: string }): Promise<unknown>;
+  /** `Range` is an HTTP range header value, e.g. bytes=0-1023 */
+  getObject(input: { Bucket: string; Key: string; Range?: string }): Promise<{ Body: Buffer }>;
+  headObject(input: { Bucket: string; Key: string }): Promise<{ ContentLength?: number; ContentType?: string }>;
+  deleteObject(input: { Bucket: string; Key: string }): Promise<unknown>;
+}
+
+function notFound(name: 'NoSuchKey' | 'NotFound', key: string): Error {
+  const error = new Error(`No such object: ${key}`);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Blobs as objects in an S3 bucket, under an optional key prefix
+ */
+export class S3BlobBackend implements BlobBackend {
+  readonly kind = 's3' as const;
+
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string,
+    private readonly prefix: string = ''
+  ) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.putObject({ Bucket: this.bucket, Key: this.objectKey(key), Body: data, ContentType: contentType });
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Buffer> {
+    const { Body } = await this.client.getObject({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    });
+    return Body;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.headObject({ Bucket: this.bucket, Key: this.objectKey(key) });
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.name === 'NoSuchKey') return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.deleteObject({ Bucket: this.bucket, Key: this.objectKey(key) });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+}
+
+/**
+ * Local stand-in for an S3 service: objects are files under root/bucket/key,
+ * with the content type in a sidecar file. For development and tests.
+ */
+export class LocalS3Client implements S3Client {
+  constructor(private readonly root: string) {}
+
+  async putObject({ Bucket, Key, Body, ContentType }: { Bucket: string; Key: string; Body: Buffer; ContentType?: string }) {
+    const file = this.pathFor(Bucket, Key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, Body);
+    await rename(`${file}.tmp`, file);
+    await writeFile(`${file}.meta.json`, JSON.stringify({ ContentType: ContentType ?? 'application/octet-stream' }));
+    return {};
+  }
+
+  async getObject({ Bucket, Key, Range }: { Bucket: string; Key: string; Range?: string }) {
+    const body = await this.read(Bucket, Key, 'NoSuchKey');
+    const match = Range && /^bytes=(\d+)-(\d*)$/.exec(Range);
+    if (!match) {
+      return { Body: body };
+    }
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : body.length - 1;
+    return { Body: body.subarray(start, end + 1) };
+  }
+
+  async headObject({ Bucket, Key }: { Bucket: string; Key: string }) {
+    const body = await this.read(Bucket, Key, 'NotFound');
+    const meta = JSON.parse(await readFile(`${this.pathFor(Bucket, Key)}.meta.json`, 'utf8').catch(() => '{}'));
+    return { ContentLength: body.length, ContentType: meta.ContentType as string | undefined };
+  }
+
+  async deleteObject({ Bucket, Key }: { Bucket: string; Key: string }) {
+    const file = this.pathFor(Bucket, Key);
+    // S3 deletes are idempotent
+    await Promise.all([file, `${file}.meta.json`].map(target => unlink(target).catch((error: any) => {
+      if (error?.code !== 'ENOENT') throw error;
+    })));
+    return {};
+  }
+
+  private async read(bucket: string, key: string, missing: 'NoSuchKey' | 'NotFound'): Promise<Buffer> {
+    try {
+      return await readFile(this.pathFor(bucket, key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') throw notFound(missing, key);
+      throw error;
+    }
+  }
+
+  private pathFor(bucket: string, key: string): string {
+    const file = path.resolve(this.root, bucket, key);
+    if (!file.startsWith(path.resolve(this.root, bucket) + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return file;
+  }
+}
@@ -0,0 +1,84 @@
+// Leading bytes of the formats captures and attachments arrive in
+const SIGNATURES: Array<{ mimeType: string; bytes: number[] }> = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'audio/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mimeType: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { mimeType: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { mimeType: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+  { mimeType: 'audio/mpeg', bytes: [0xff, 0xfb] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+];
+
+const startsWith = (data: Uint8Array, bytes: number[]) =>
+  data.length >= bytes.length && bytes.every((byte, i) => data[i] === byte);
+
+const ascii = (data: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...data.subarray(start, end));
+
+/**
+ * The MIME type of `data` from its leading bytes, or null if unrecognised.
+ * WebM and Matroska share a signature, so both sniff as audio/webm; a
+ * declared video/webm is kept by the caller.
+ */
+export function sniffMimeType(data: Uint8Array): string | null {
+  for (const signature of SIGNATURES) {
+    if (startsWith(data, signature.bytes)) return signature.mimeType;
+  }
+
+  // RIFF containers name their format at offset 8
+  if (ascii(data, 0, 4) === 'RIFF') {
+    const format = ascii(data, 8, 12);
+    if (format === 'WAVE') return 'audio/wav';
+    if (format === 'WEBP') return 'image/webp';
+  }
+
+  // ISO media: ftyp box with a brand, e.g. M4A, isom or qt
+  if (ascii(data, 4, 8) === 'ftyp') {
+    const brand = ascii(data, 8, 12);
+    if (brand.startsWith('M4A')) return 'audio/mp4';
+    if (brand === 'qt  ') return 'video/quicktime';
+    return 'video/mp4';
+  }
+
+  return looksLikeText(data) ? 'text/plain' : null;
+}
+
+// No NUL bytes and mostly printable in the first few KB
+function looksLikeText(data: Uint8Array): boolean {
+  if (data.length === 0) return false;
+
+  const sample = data.subarray(0, 4096);
+  let control = 0;
+  for (const byte of sample) {
+    if (byte === 0) return false;
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) control++;
+  }
+  return control / sample.length < 0.02;
+}
+
+/**
+ * The type to store: the sniffed one, unless the content was declared as a
+ * more specific variant of it (text/html over text/plain, video/webm over
+ * audio/webm), then the declared type, then application/octet-stream
+ */
+export function resolveMimeType(data: Uint8Array, declared?: string | null): string {
+  const declaredType = declared?.split(';')[0].trim().toLowerCase() || null;
+  const sniffed = sniffMimeType(data);
+  if (!sniffed) {
+    return declaredType && declaredType !== 'application/octet-stream' ? declaredType : 'application/octet-stream';
+  }
+
+  const refines = declaredType && (
+    (sniffed === 'text/plain' && declaredType.startsWith('text/')) ||
+    (sniffed === 'text/plain' && ['application/json', 'image/svg+xml'].includes(declaredType)) ||
+    (sniffed === 'audio/webm' && declaredType === 'video/webm') ||
+    (sniffed === 'audio/ogg' && declaredType === 'video/ogg') ||
+    (sniffed === 'video/mp4' && declaredType === 'audio/mp4') ||
+    (sniffed === 'application/zip' && declaredType.startsWith('application/vnd.openxmlformats'))
+  );
+  return refines ? declaredType : sniffed;
+}
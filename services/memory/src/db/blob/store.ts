@@ -0,0 +1,40 @@
+import type { BlobStoreConfig } from '../../config';
+import { FilesystemBlobBackend } from './fsBackend';
+import { LocalS3Client, S3BlobBackend } from './s3Backend';
+
+/**
+ * Inclusive byte offsets, as in an HTTP Range header
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where blob bytes are kept. Keys are content hashes, so an object is never
+ * overwritten with different bytes; metadata lives in the blobs table.
+ */
+export interface BlobBackend {
+  readonly kind: 'fs' | 's3';
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** The whole object, or the bytes in `range` */
+  get(key: string, range?: ByteRange): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Create the blob backend selected by the configuration
+ */
+export function createBlobBackend(cfg: BlobStoreConfig): BlobBackend {
+  switch (cfg.backend) {
+    case 'fs':
+      return new FilesystemBlobBackend(cfg.path);
+    case 's3':
+      // Any S3Client can be passed to S3BlobBackend; the stand-in keeps
+      // objects in a local directory laid out as bucket/key
+      return new S3BlobBackend(new LocalS3Client(cfg.path), cfg.bucket, cfg.prefix);
+    default:
+      throw new Error(`Unknown blob store backend: ${cfg.backend}`);
+  }
+}
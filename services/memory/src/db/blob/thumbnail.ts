@@ -0,0 +1,241 @@
+import { deflateSync, inflateSync } from 'zlib';
+
+export const THUMBNAIL_MIME_TYPE = 'image/png';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Channels per pixel for each PNG colour type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export interface Thumbnail {
+  data: Buffer;
+  /** Size of the original image */
+  width: number;
+  height: number;
+}
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  /** 8-bit RGBA, row by row */
+  pixels: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Parsing works on plain bytes; the workspace's global Buffer declaration
+// hides Buffer's read methods from parameters typed as Buffer
+const uint32 = (data: Uint8Array, offset: number) =>
+  new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset);
+
+const hasPngSignature = (data: Uint8Array) =>
+  data.length >= 8 && PNG_SIGNATURE.every((byte, i) => data[i] === byte);
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * A PNG thumbnail no larger than `maxSize` on either side, or null if the
+ * image is not a PNG this decoder handles (interlaced or sub-byte depths).
+ * Screenshots from the edge agent are always 8-bit RGBA PNGs; other image
+ * types are stored without a thumbnail.
+ */
+export function createThumbnail(data: Uint8Array, maxSize: number = 256): Thumbnail | null {
+  const image = decodePng(data);
+  if (!image) return null;
+
+  const scale = Math.min(1, maxSize / image.width, maxSize / image.height);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  return {
+    data: encodePng(width, height, scale < 1 ? downscale(image, width, height) : image.pixels),
+    width: image.width,
+    height: image.height,
+  };
+}
+
+/**
+ * Width and height from a PNG header, without decoding it
+ */
+export function pngDimensions(data: Uint8Array): { width: number; height: number } | null {
+  if (data.length < 24 || !hasPngSignature(data)) return null;
+  return { width: uint32(data, 16), height: uint32(data, 20) };
+}
+
+function decodePng(data: Uint8Array): DecodedImage | null {
+  if (!pngDimensions(data)) return null;
+
+  let header: { width: number; height: number; depth: number; colorType: number; interlace: number } | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= data.length;) {
+    const length = uint32(data, offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      header = {
+        width: uint32(chunk, 0),
+        height: uint32(chunk, 4),
+        depth: chunk[8],
+        colorType: chunk[9],
+        interlace: chunk[12],
+      };
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!header || header.interlace !== 0 || !(header.colorType in CHANNELS)) return null;
+  if (header.depth !== 8 && !(header.depth === 16 && header.colorType !== 3)) return null;
+  if (header.colorType === 3 && !palette) return null;
+
+  const { width, height, depth, colorType } = header;
+  const channels = CHANNELS[colorType];
+  const bytesPerPixel = channels * (depth / 8);
+  const stride = width * bytesPerPixel;
+  const raw = inflateSync(Buffer.concat(idat));
+  if (raw.length < height * (stride + 1)) return null;
+
+  const pixels = new Uint8Array(width * height * 4);
+  let previous: Uint8Array = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const row = unfilter(raw[y * (stride + 1)], raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)), previous, bytesPerPixel);
+    previous = row;
+
+    for (let x = 0; x < width; x++) {
+      // 16-bit samples keep their high byte
+      const sample = (channel: number) => row[(x * channels + channel) * (depth / 8)];
+      const out = (y * width + x) * 4;
+      if (colorType === 3) {
+        const index = sample(0);
+        pixels[out] = palette![index * 3];
+        pixels[out + 1] = palette![index * 3 + 1];
+        pixels[out + 2] = palette![index * 3 + 2];
+        pixels[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (channels <= 2) {
+        pixels[out] = pixels[out + 1] = pixels[out + 2] = sample(0);
+        pixels[out + 3] = channels === 2 ? sample(1) : 255;
+      } else {
+        pixels[out] = sample(0);
+        pixels[out + 1] = sample(1);
+        pixels[out + 2] = sample(2);
+        pixels[out + 3] = channels === 4 ? sample(3) : 255;
+      }
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+// Reverse a scanline's PNG filter, given the already unfiltered row above it
+function unfilter(filter: number, line: Uint8Array, previous: Uint8Array, bpp: number): Uint8Array {
+  const row = new Uint8Array(line.length);
+  for (let i = 0; i < line.length; i++) {
+    const left = i >= bpp ? row[i - bpp] : 0;
+    const up = previous[i];
+    const upLeft = i >= bpp ? previous[i - bpp] : 0;
+
+    let predictor = 0;
+    switch (filter) {
+      case 1: predictor = left; break;
+      case 2: predictor = up; break;
+      case 3: predictor = (left + up) >> 1; break;
+      case 4: {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+        break;
+      }
+    }
+    row[i] = (line[i] + predictor) & 0xff;
+  }
+  return row;
+}
+
+// Box filter: each output pixel averages the source pixels it covers. Only
+// shrinks, so every output pixel covers at least one source pixel.
+function downscale(image: DecodedImage, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(width * height * 4);
+  const columns = Array.from({ length: width + 1 }, (_, x) => Math.floor((x * image.width) / width));
+  const sums = new Float64Array(width * 4);
+
+  for (let ty = 0; ty < height; ty++) {
+    const y0 = Math.floor((ty * image.height) / height);
+    const y1 = Math.floor(((ty + 1) * image.height) / height);
+    sums.fill(0);
+
+    for (let sy = y0; sy < y1; sy++) {
+      for (let tx = 0; tx < width; tx++) {
+        for (let sx = columns[tx]; sx < columns[tx + 1]; sx++) {
+          const source = (sy * image.width + sx) * 4;
+          for (let c = 0; c < 4; c++) sums[tx * 4 + c] += image.pixels[source + c];
+        }
+      }
+    }
+
+    for (let tx = 0; tx < width; tx++) {
+      const count = (y1 - y0) * (columns[tx + 1] - columns[tx]);
+      for (let c = 0; c < 4; c++) out[(ty * width + tx) * 4 + c] = Math.round(sums[tx * 4 + c] / count);
+    }
+  }
+  return out;
+}
+
+function encodePng(width: number, height: number, pixels: Uint8Array): Buffer {
+  const stride = width * 4;
+  const raw = Buffer.alloc(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    // Filter type 0 (none) on every row
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', ihdr),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
@@ -0,0 +1,46 @@
+import { isEncrypted } from './keyring';
+
+/**
+ * What models need to seal and open columns; a KeyRing in production
+ */
+export interface FieldCipher {
+  encrypt(plaintext: string): string;
+  decrypt(value: string): string;
+}
+
+/**
+ * Seal the given keys of a JSON object. Values are JSON-encoded first, so
+ * objects and numbers come back as they went in. Values that are already
+ * sealed are left alone.
+ */
+export function encryptFields(
+  record: Record<string, unknown>,
+  keys: readonly string[],
+  cipher: FieldCipher
+): Record<string, unknown> {
+  const sealed = { ...record };
+  for (const key of keys) {
+    const value = sealed[key];
+    if (value === undefined || value === null || isEncrypted(value)) continue;
+    sealed[key] = cipher.encrypt(JSON.stringify(value));
+  }
+  return sealed;
+}
+
+/**
+ * Open the sealed values of a JSON object; plaintext values pass through
+ */
+export function decryptFields(
+  record: Record<string, unknown>,
+  keys: readonly string[],
+  cipher: FieldCipher
+): Record<string, unknown> {
+  const opened = { ...record };
+  for (const key of keys) {
+    const value = opened[key];
+    if (isEncrypted(value)) {
+      opened[key] = JSON.parse(cipher.decrypt(value));
+    }
+  }
+  return opened;
+}
@@ -0,0 +1,84 @@
+import { randomBytes, scrypt } from 'crypto';
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+export const KEY_BYTES = 32;
+
+/** scrypt cost parameters, stored in the key ring next to its salt */
+export interface KdfParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+// About 100ms and 32MB per derivation
+export const DEFAULT_KDF: KdfParams = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Bytes as text. Goes through Buffer.from because the workspace's global
+ * Buffer declaration hides toString's encoding overload from crypto results.
+ */
+export function encode(bytes: Uint8Array, encoding: BufferEncoding): string {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString(encoding);
+}
+
+/**
+ * Where the key ring's master key comes from. The master key only wraps the
+ * data keys, so swapping providers or passphrases re-wraps a few keys rather
+ * than re-encrypting the data.
+ */
+export interface KeyProvider {
+  /** A short description for logs and status, never the key itself */
+  readonly kind: string;
+  deriveKey(salt: Buffer, kdf: KdfParams): Promise<Buffer>;
+}
+
+/**
+ * Master key derived from a user passphrase with scrypt
+ */
+export class PassphraseKeyProvider implements KeyProvider {
+  readonly kind = 'passphrase';
+
+  constructor(private readonly passphrase: string) {
+    if (!passphrase) {
+      throw new Error('Passphrase must not be empty');
+    }
+  }
+
+  deriveKey(salt: Buffer, kdf: KdfParams): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      scrypt(this.passphrase.normalize('NFKC'), salt, KEY_BYTES, { ...kdf, maxmem: 256 * kdf.N * kdf.r }, (error, key) =>
+        error ? reject(error) : resolve(key)
+      );
+    });
+  }
+}
+
+/**
+ * Master key read from a local file holding 32 random bytes in base64, made
+ * on first use. Meant for tests and for hosts that mount the key from a
+ * secrets volume; the salt is not used.
+ */
+export class FileKeyProvider implements KeyProvider {
+  readonly kind = 'file';
+
+  constructor(private readonly path: string) {}
+
+  async deriveKey(): Promise<Buffer> {
+    try {
+      const key = Buffer.from((await readFile(this.path, 'utf8')).trim(), 'base64');
+      if (key.length !== KEY_BYTES) {
+        throw new Error(`Key file ${this.path} does not hold a ${KEY_BYTES}-byte key`);
+      }
+      return key;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+
+    const key = randomBytes(KEY_BYTES);
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, encode(key, 'base64'), { mode: 0o600, flag: 'wx' });
+    await chmod(this.path, 0o600);
+    return key;
+  }
+}
@@ -0,0 +1,282 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { DEFAULT_KDF, KEY_BYTES, encode, type KdfParams, type KeyProvider } from './keyProvider';
+
+const CIPHER = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Encrypted values are stored as enc:v1:<key id>:<base64url iv|tag|ciphertext>
+export const CIPHERTEXT_PREFIX = 'enc:v1:';
+
+/**
+ * Raised when data is read or written while the keys are locked
+ */
+export class LockedError extends Error {
+  constructor(message: string = 'Encryption keys are locked') {
+    super(message);
+    this.name = 'LockedError';
+  }
+}
+
+/**
+ * Raised for a wrong passphrase or key, or a value sealed with a key the
+ * ring does not hold
+ */
+export class KeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyError';
+  }
+}
+
+interface StoredKey {
+  id: string;
+  created_at: string;
+  /** The data key sealed with the master key */
+  wrapped: string;
+}
+
+interface KeyRingFile {
+  version: 1;
+  kdf: KdfParams & { salt: string };
+  /** Kind of provider the master key came from, e.g. passphrase */
+  provider: string;
+  active_key_id: string;
+  keys: StoredKey[];
+}
+
+export interface KeyRingStatus {
+  initialized: boolean;
+  locked: boolean;
+  provider: string | null;
+  active_key_id: string | null;
+  keys: Array<{ id: string; created_at: string; active: boolean }>;
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(CIPHERTEXT_PREFIX);
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  const decipher = createDecipheriv(CIPHER, key, sealed.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * AES-256-GCM data keys, wrapped by a master key from a KeyProvider and kept
+ * in a JSON file. While unlocked the unwrapped keys live in memory only.
+ * Rotation adds a data key that new values are sealed with; older keys stay
+ * until nothing sealed with them is left and they are retired.
+ */
+export class KeyRing {
+  private master: Buffer | null = null;
+  private keys: Map<string, Buffer> | null = null;
+  private file: KeyRingFile | null = null;
+
+  constructor(private readonly path: string, private readonly kdf: KdfParams = DEFAULT_KDF) {}
+
+  get locked(): boolean {
+    return this.keys === null;
+  }
+
+  get activeKeyId(): string {
+    return this.unlocked().file.active_key_id;
+  }
+
+  /**
+   * Unwrap the data keys. The first unlock creates the key ring with the
+   * given provider.
+   */
+  async unlock(provider: KeyProvider): Promise<void> {
+    const file = await this.read();
+    if (!file) {
+      await this.create(provider);
+      return;
+    }
+
+    const master = await provider.deriveKey(Buffer.from(file.kdf.salt, 'base64'), file.kdf);
+    this.keys = this.unwrap(file, master);
+    this.master = master;
+    this.file = file;
+  }
+
+  /**
+   * Forget the unwrapped keys
+   */
+  lock(): void {
+    this.master?.fill(0);
+    this.keys?.forEach(key => key.fill(0));
+    this.master = null;
+    this.keys = null;
+    this.file = null;
+  }
+
+  /**
+   * Re-wrap the data keys under a new passphrase or provider. Needs the
+   * current one, locked or not.
+   */
+  async rekey(current: KeyProvider, next: KeyProvider): Promise<void> {
+    const file = await this.read();
+    if (!file) {
+      throw new KeyError('Key ring has not been created yet');
+    }
+
+    const keys = this.unwrap(file, await current.deriveKey(Buffer.from(file.kdf.salt, 'base64'), file.kdf));
+    const salt = randomBytes(16);
+    const master = await next.deriveKey(salt, this.kdf);
+    const rekeyed: KeyRingFile = {
+      ...file,
+      kdf: { ...this.kdf, salt: encode(salt, 'base64') },
+      provider: next.kind,
+      keys: file.keys.map(stored => ({ ...stored, wrapped: this.wrap(master, stored.id, keys.get(stored.id) as Buffer) })),
+    };
+    await this.write(rekeyed);
+
+    if (!this.locked) {
+      this.master?.fill(0);
+      this.master = master;
+      this.file = rekeyed;
+    }
+  }
+
+  /**
+   * Add a data key and seal new values with it; returns its ID
+   */
+  async rotate(): Promise<string> {
+    const { master, keys, file } = this.unlocked();
+    const id = encode(randomBytes(8), 'hex');
+    const key = randomBytes(KEY_BYTES);
+
+    const rotated: KeyRingFile = {
+      ...file,
+      active_key_id: id,
+      keys: [...file.keys, { id, created_at: new Date().toISOString(), wrapped: this.wrap(master, id, key) }],
+    };
+    await this.write(rotated);
+    keys.set(id, key);
+    this.file = rotated;
+    return id;
+  }
+
+  /**
+   * Drop data keys nothing is sealed with any more. The active key stays.
+   */
+  async retire(ids: string[]): Promise<string[]> {
+    const { keys, file } = this.unlocked();
+    const retired = ids.filter(id => id !== file.active_key_id && keys.has(id));
+    if (retired.length === 0) return [];
+
+    const kept: KeyRingFile = { ...file, keys: file.keys.filter(stored => !retired.includes(stored.id)) };
+    await this.write(kept);
+    for (const id of retired) {
+      keys.get(id)?.fill(0);
+      keys.delete(id);
+    }
+    this.file = kept;
+    return retired;
+  }
+
+  encrypt(plaintext: string): string {
+    const { keys, file } = this.unlocked();
+    const id = file.active_key_id;
+    const sealed = seal(keys.get(id) as Buffer, Buffer.from(plaintext, 'utf8'), id);
+    return `${CIPHERTEXT_PREFIX}${id}:${encode(sealed, 'base64url')}`;
+  }
+
+  decrypt(value: string): string {
+    const { keys } = this.unlocked();
+    const id = this.keyIdOf(value);
+    const key = id ? keys.get(id) : undefined;
+    if (!id || !key) {
+      throw new KeyError(`No data key for ${id ? `key ${id}` : 'a malformed value'}`);
+    }
+    return encode(open(key, Buffer.from(value.slice(CIPHERTEXT_PREFIX.length + id.length + 1), 'base64url'), id), 'utf8');
+  }
+
+  /**
+   * The data key a value was sealed with, or null for plaintext
+   */
+  keyIdOf(value: string): string | null {
+    if (!isEncrypted(value)) return null;
+    const end = value.indexOf(':', CIPHERTEXT_PREFIX.length);
+    return end > CIPHERTEXT_PREFIX.length ? value.slice(CIPHERTEXT_PREFIX.length, end) : null;
+  }
+
+  async status(): Promise<KeyRingStatus> {
+    const file = this.file ?? await this.read();
+    return {
+      initialized: file !== null,
+      locked: this.locked,
+      provider: file?.provider ?? null,
+      active_key_id: file?.active_key_id ?? null,
+      keys: (file?.keys ?? []).map(({ id, created_at }) => ({ id, created_at, active: id === file?.active_key_id })),
+    };
+  }
+
+  private unlocked(): { master: Buffer; keys: Map<string, Buffer>; file: KeyRingFile } {
+    if (!this.master || !this.keys || !this.file) {
+      throw new LockedError();
+    }
+    return { master: this.master, keys: this.keys, file: this.file };
+  }
+
+  private async create(provider: KeyProvider): Promise<void> {
+    const salt = randomBytes(16);
+    const master = await provider.deriveKey(salt, this.kdf);
+    const id = encode(randomBytes(8), 'hex');
+    const key = randomBytes(KEY_BYTES);
+
+    const file: KeyRingFile = {
+      version: 1,
+      kdf: { ...this.kdf, salt: encode(salt, 'base64') },
+      provider: provider.kind,
+      active_key_id: id,
+      keys: [{ id, created_at: new Date().toISOString(), wrapped: this.wrap(master, id, key) }],
+    };
+    await this.write(file);
+    this.master = master;
+    this.keys = new Map([[id, key]]);
+    this.file = file;
+  }
+
+  private wrap(master: Buffer, id: string, key: Buffer): string {
+    return encode(seal(master, key, `key:${id}`), 'base64');
+  }
+
+  private unwrap(file: KeyRingFile, master: Buffer): Map<string, Buffer> {
+    try {
+      return new Map(file.keys.map(stored => [stored.id, open(master, Buffer.from(stored.wrapped, 'base64'), `key:${stored.id}`)]));
+    } catch {
+      throw new KeyError('Wrong passphrase or key');
+    }
+  }
+
+  private async read(): Promise<KeyRingFile | null> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as KeyRingFile;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Write then rename, so a crash never leaves a half-written key ring
+  private async write(file: KeyRingFile): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await rename(tmp, this.path);
+  }
+}
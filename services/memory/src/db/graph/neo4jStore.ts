@@ -0,0 +1,323 @@
+import neo4j, { type Driver, type Session, type Transaction } from 'neo4j-driver';
+import { logger } from '../../utils/logger';
+import { getDriver, getSession } from './connection';
+import type {
+  GraphEdge,
+  GraphEdgeFilter,
+  GraphEdgeInput,
+  GraphNode,
+  GraphNodeRef,
+  GraphPathQuery,
+  GraphPaths,
+  GraphStore,
+} from './store';
+
+export interface CompiledGraphQuery {
+  cypher: string;
+  params: Record<string, unknown>;
+}
+
+// When a relationship was last updated; each writer names it differently
+const EDGE_TIME = 'coalesce(rel.last_ts, rel.updated_at, rel.created_at, toString(rel.last_updated))';
+
+// Labels, relationship types and property names end up in Cypher text, so
+// only plain identifiers are accepted
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function identifier(value: string, what: string): string {
+  if (!IDENTIFIER.test(value)) {
+    throw new Error(`Invalid graph ${what}: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Compile a validated path query to a single parameterized MATCH. Only
+ * whitelisted relationship types, labels and integer hop counts are written
+ * into the Cypher text; every value goes through parameters.
+ */
+export function compileGraphQuery(query: GraphPathQuery, startId: string): CompiledGraphQuery {
+  const params: Record<string, unknown> = { startId, limit: neo4j.int(query.limit) };
+  const conditions: string[] = [];
+  let pattern = '(n0:Entity {id: $startId})';
+
+  if (query.time?.from) params.from = query.time.from.toISOString();
+  if (query.time?.to) params.to = query.time.to.toISOString();
+
+  query.steps.forEach((step, i) => {
+    const n = i + 1;
+    const types = step.edges?.length
+      ? `:${Array.from(new Set(step.edges)).map(type => identifier(type, 'relationship type')).join('|')}`
+      : '';
+    const hops = `*${step.min_hops}..${step.max_hops ?? step.min_hops}`;
+    const relationship = `[r${i}${types}${hops}]`;
+
+    if (step.direction === 'out') pattern += `-${relationship}->`;
+    else if (step.direction === 'in') pattern += `<-${relationship}-`;
+    else pattern += `-${relationship}-`;
+    pattern += `(n${n}:${identifier(step.node.label, 'label')})`;
+
+    if (step.node.types?.length) {
+      params[`types${n}`] = step.node.types;
+      conditions.push(`n${n}.type IN $types${n}`);
+    }
+    if (step.node.ids?.length) {
+      params[`ids${n}`] = step.node.ids;
+      conditions.push(`n${n}.id IN $ids${n}`);
+    }
+    if (params.from) conditions.push(`ALL(rel IN r${i} WHERE ${EDGE_TIME} >= $from)`);
+    if (params.to) conditions.push(`ALL(rel IN r${i} WHERE ${EDGE_TIME} <= $to)`);
+  });
+
+  const cypher = [
+    `MATCH p = ${pattern}`,
+    conditions.length > 0 ? `WHERE ${conditions.join('\n  AND ')}` : '',
+    'RETURN p',
+    'LIMIT $limit',
+  ].filter(Boolean).join('\n');
+
+  return { cypher, params };
+}
+
+/**
+ * Convert driver values (integers, temporal types) to plain JSON
+ */
+function toPlain(value: unknown): unknown {
+  if (neo4j.isInt(value)) return (value as any).toNumber();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    if (typeof (value as any).toString === 'function' && (value as any).constructor?.name !== 'Object') {
+      return (value as any).toString();
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlain(item)]));
+  }
+  return value;
+}
+
+// Nodes are identified by their id property when they have one
+const nodeId = (node: any) => String(node.properties?.id ?? node.elementId);
+
+function toNode(node: any): GraphNode {
+  return {
+    id: nodeId(node),
+    labels: node.labels,
+    properties: toPlain(node.properties) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Create the uniqueness constraints the MERGE statements rely on
+ */
+async function verifyNeo4jConstraints(driver: Driver): Promise<void> {
+  const session = driver.session();
+
+  try {
+    for (const label of ['Entity', 'Event', 'Task']) {
+      const name = `${label.toLowerCase()}_id`;
+      try {
+        await session.writeTransaction((tx: Transaction) =>
+          tx.run(`
+            CREATE CONSTRAINT ${name} IF NOT EXISTS
+            FOR (n:${label}) REQUIRE n.id IS UNIQUE
+          `)
+        );
+        logger.debug(`Created constraint ${name} on :${label}(id)`);
+      } catch (error) {
+        logger.warn(`Failed to create constraint ${name}:`, error);
+        throw error;
+      }
+    }
+
+    logger.info('Neo4j constraints verified/created');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Error setting up Neo4j constraints:', errorMessage);
+    throw error;
+  } finally {
+    try {
+      await session.close();
+    } catch (closeError) {
+      logger.warn('Error closing Neo4j session:', closeError);
+    }
+  }
+}
+
+/**
+ * Graph store backed by Neo4j. Connects on initialize() unless given a
+ * session.
+ */
+export class Neo4jGraphStore implements GraphStore {
+  readonly kind = 'neo4j' as const;
+
+  constructor(private session?: Session) {}
+
+  async initialize(): Promise<void> {
+    if (this.session) return;
+
+    const driver = await getDriver();
+    await verifyNeo4jConstraints(driver);
+    this.session = getSession();
+  }
+
+  async upsertNode(node: GraphNodeRef & { properties: Record<string, unknown> }): Promise<void> {
+    await this.graph.writeTransaction((tx: Transaction) =>
+      tx.run(
+        `MERGE (n:${identifier(node.label, 'label')} {id: $id})
+         SET n += $properties`,
+        { id: node.id, properties: node.properties }
+      )
+    );
+  }
+
+  async mergeEdges(edges: GraphEdgeInput[]): Promise<void> {
+    if (edges.length === 0) return;
+
+    // One UNWIND per shape, since types and labels cannot be parameters
+    const groups = new Map<string, GraphEdgeInput[]>();
+    for (const edge of edges) {
+      const key = [edge.type, edge.from.label, edge.to.label, edge.id ? 'id' : '', edge.counter ?? ''].join('|');
+      groups.set(key, [...(groups.get(key) ?? []), edge]);
+    }
+
+    await this.graph.writeTransaction(async (tx: Transaction) => {
+      for (const group of groups.values()) {
+        const [{ type, from, to, id, counter }] = group;
+        const property = counter && identifier(counter, 'property');
+        await tx.run(
+          [
+            'UNWIND $edges AS edge',
+            `MATCH (a:${identifier(from.label, 'label')} {id: edge.from}), (b:${identifier(to.label, 'label')} {id: edge.to})`,
+            `MERGE (a)-[r:${identifier(type, 'relationship type')}${id ? ' {id: edge.id}' : ''}]->(b)`,
+            'SET r += edge.properties',
+            property ? `SET r.${property} = coalesce(r.${property}, 0) + 1` : '',
+          ].filter(Boolean).join('\n'),
+          {
+            edges: group.map(edge => ({
+              from: edge.from.id,
+              to: edge.to.id,
+              id: edge.id ?? null,
+              properties: edge.properties ?? {},
+            })),
+          }
+        );
+      }
+    });
+  }
+
+  async getEdges(node: GraphNodeRef, filter: GraphEdgeFilter = {}): Promise<GraphEdge[]> {
+    const { types, direction = 'both', label } = filter;
+    const typeClause = types?.length
+      ? `:${types.map(type => identifier(type, 'relationship type')).join('|')}`
+      : '';
+    const other = label ? `:${identifier(label, 'label')}` : '';
+    const relationship = `[r${typeClause}]`;
+    const pattern = direction === 'out'
+      ? `-${relationship}->`
+      : direction === 'in' ? `<-${relationship}-` : `-${relationship}-`;
+
+    const result = await this.graph.readTransaction((tx: Transaction) =>
+      tx.run(
+        `MATCH (a:${identifier(node.label, 'label')} {id: $id})${pattern}(b${other})
+         RETURN r, startNode(r).id AS source, endNode(r).id AS target`,
+        { id: node.id }
+      )
+    );
+
+    return result.records.map(record => {
+      const rel = record.get('r');
+      const properties = toPlain(rel.properties) as Record<string, unknown>;
+      return {
+        id: String(properties.id ?? rel.elementId),
+        type: rel.type,
+        source: String(record.get('source')),
+        target: String(record.get('target')),
+        properties,
+      };
+    });
+  }
+
+  async deleteEdge(id: string): Promise<void> {
+    await this.graph.writeTransaction((tx: Transaction) =>
+      tx.run(
+        `MATCH ()-[r {id: $id}]->()
+         DELETE r`,
+        { id }
+      )
+    );
+  }
+
+  async deleteNodes(nodes: GraphNodeRef[]): Promise<void> {
+    if (nodes.length === 0) return;
+
+    // One statement per label, since labels cannot be parameters
+    const byLabel = new Map<GraphNodeRef['label'], string[]>();
+    for (const node of nodes) {
+      byLabel.set(node.label, [...(byLabel.get(node.label) ?? []), node.id]);
+    }
+
+    await this.graph.writeTransaction(async (tx: Transaction) => {
+      for (const [label, ids] of byLabel) {
+        await tx.run(
+          `MATCH (n:${identifier(label, 'label')})
+           WHERE n.id IN $ids
+           DETACH DELETE n`,
+          { ids }
+        );
+      }
+    });
+  }
+
+  async findPaths(query: GraphPathQuery, startId: string, options: { timeoutMs?: number } = {}): Promise<GraphPaths> {
+    const { cypher, params } = compileGraphQuery(query, startId);
+    const result = await this.graph.readTransaction(
+      tx => tx.run(cypher, params),
+      options.timeoutMs ? { timeout: options.timeoutMs } : undefined
+    );
+
+    const nodes = new Map<string, GraphNode>();
+    const edges = new Map<string, GraphEdge>();
+    const paths: string[][] = [];
+
+    for (const record of result.records) {
+      const path = record.get('p');
+      const ids = [nodeId(path.start)];
+      nodes.set(ids[0], toNode(path.start));
+
+      for (const segment of path.segments) {
+        const endId = nodeId(segment.end);
+        nodes.set(nodeId(segment.start), toNode(segment.start));
+        nodes.set(endId, toNode(segment.end));
+
+        const relationship = segment.relationship;
+        const forward = relationship.startNodeElementId === segment.start.elementId;
+        edges.set(relationship.elementId, {
+          id: relationship.elementId,
+          type: relationship.type,
+          source: forward ? nodeId(segment.start) : endId,
+          target: forward ? endId : nodeId(segment.start),
+          properties: toPlain(relationship.properties) as Record<string, unknown>,
+        });
+        ids.push(endId);
+      }
+      paths.push(ids);
+    }
+
+    return {
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values()),
+      paths,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.session?.close();
+    this.session = undefined;
+  }
+
+  private get graph(): Session {
+    if (!this.session) {
+      throw new Error('Neo4j graph store is not initialized');
+    }
+    return this.session;
+  }
+}
@@ -0,0 +1,332 @@
+import type { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  GraphEdge,
+  GraphEdgeFilter,
+  GraphEdgeInput,
+  GraphNode,
+  GraphNodeLabel,
+  GraphNodeRef,
+  GraphPathQuery,
+  GraphPathStep,
+  GraphPaths,
+  GraphStore,
+} from './store';
+
+const NODES = 'graph_nodes';
+const EDGES = 'graph_edges';
+
+// Partial paths kept per hop, so dense neighbourhoods cannot exhaust memory
+const MAX_PARTIAL_PATHS = 10_000;
+
+interface EdgeRow {
+  id: string;
+  type: string;
+  from_label: GraphNodeLabel;
+  from_id: string;
+  to_label: GraphNodeLabel;
+  to_id: string;
+  properties: unknown;
+  updated_at: unknown;
+}
+
+interface PartialPath {
+  nodes: GraphNodeRef[];
+  edges: EdgeRow[];
+}
+
+function parseJson(value: unknown): Record<string, unknown> {
+  if (!value) return {};
+  if (typeof value !== 'string') return value as Record<string, unknown>;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+function toEdge(row: EdgeRow): GraphEdge {
+  return {
+    id: row.id,
+    type: row.type,
+    source: row.from_id,
+    target: row.to_id,
+    properties: parseJson(row.properties),
+  };
+}
+
+// When an edge was last updated, preferring what the writer recorded
+function edgeTime(row: EdgeRow): number {
+  const properties = parseJson(row.properties);
+  const value = properties.last_ts ?? properties.updated_at ?? properties.created_at ?? properties.last_updated ?? row.updated_at;
+  return value ? new Date(value as string).getTime() : NaN;
+}
+
+/**
+ * Graph store on the relational database: nodes and directed edges in two
+ * tables, traversed hop by hop. Lets the service run without Neo4j.
+ */
+export class SqlGraphStore implements GraphStore {
+  readonly kind = 'sql' as const;
+
+  constructor(private db: Knex) {}
+
+  async initialize(): Promise<void> {
+    // Tables are created by the migrations
+  }
+
+  async upsertNode(node: GraphNodeRef & { properties: Record<string, unknown> }, trx?: Knex.Transaction): Promise<void> {
+    const db = trx || this.db;
+    const now = new Date().toISOString();
+    const existing = await db(NODES).where({ label: node.label, id: node.id }).first();
+
+    if (existing) {
+      await db(NODES)
+        .where({ label: node.label, id: node.id })
+        .update({
+          properties: JSON.stringify({ ...parseJson(existing.properties), ...node.properties }),
+          updated_at: now,
+        });
+    } else {
+      await db(NODES).insert({
+        label: node.label,
+        id: node.id,
+        properties: JSON.stringify(node.properties),
+        created_at: now,
+        updated_at: now,
+      });
+    }
+  }
+
+  async mergeEdges(edges: GraphEdgeInput[], trx?: Knex.Transaction): Promise<void> {
+    if (edges.length === 0) return;
+
+    const mergeFn = async (tx: Knex.Transaction) => {
+      const now = new Date().toISOString();
+
+      for (const edge of edges) {
+        const existing: EdgeRow | undefined = edge.id
+          ? await tx(EDGES).where({ id: edge.id }).first()
+          : await tx(EDGES)
+            .where({
+              type: edge.type,
+              from_label: edge.from.label,
+              from_id: edge.from.id,
+              to_label: edge.to.label,
+              to_id: edge.to.id,
+            })
+            .first();
+
+        const properties: Record<string, unknown> = {
+          ...parseJson(existing?.properties),
+          ...edge.properties,
+        };
+        if (edge.counter) {
+          properties[edge.counter] = Number(properties[edge.counter] ?? 0) + 1;
+        }
+
+        if (existing) {
+          await tx(EDGES)
+            .where({ id: existing.id })
+            .update({ properties: JSON.stringify(properties), updated_at: now });
+        } else {
+          await tx(EDGES).insert({
+            id: edge.id ?? uuidv4(),
+            type: edge.type,
+            from_label: edge.from.label,
+            from_id: edge.from.id,
+            to_label: edge.to.label,
+            to_id: edge.to.id,
+            properties: JSON.stringify(properties),
+            created_at: now,
+            updated_at: now,
+          });
+        }
+      }
+    };
+
+    await (trx ? mergeFn(trx) : this.db.transaction(mergeFn));
+  }
+
+  async getEdges(node: GraphNodeRef, filter: GraphEdgeFilter = {}, trx?: Knex.Transaction): Promise<GraphEdge[]> {
+    const { types, direction = 'both', label } = filter;
+
+    const rows: EdgeRow[] = await (trx || this.db)(EDGES)
+      .where(qb => {
+        if (direction !== 'in') {
+          qb.orWhere(out => {
+            out.where({ from_label: node.label, from_id: node.id });
+            if (label) out.where('to_label', label);
+          });
+        }
+        if (direction !== 'out') {
+          qb.orWhere(incoming => {
+            incoming.where({ to_label: node.label, to_id: node.id });
+            if (label) incoming.where('from_label', label);
+          });
+        }
+      })
+      .modify(qb => {
+        if (types?.length) qb.whereIn('type', types);
+      })
+      .orderBy('created_at', 'asc');
+
+    return rows.map(toEdge);
+  }
+
+  async deleteEdge(id: string, trx?: Knex.Transaction): Promise<void> {
+    await (trx || this.db)(EDGES).where({ id }).delete();
+  }
+
+  async deleteNodes(nodes: GraphNodeRef[], trx?: Knex.Transaction): Promise<void> {
+    if (nodes.length === 0) return;
+
+    const deleteFn = async (tx: Knex.Transaction) => {
+      const byLabel = new Map<string, string[]>();
+      for (const node of nodes) {
+        byLabel.set(node.label, [...(byLabel.get(node.label) ?? []), node.id]);
+      }
+
+      for (const [label, ids] of byLabel) {
+        await tx(EDGES)
+          .where(qb => qb
+            .where(from => from.where('from_label', label).whereIn('from_id', ids))
+            .orWhere(to => to.where('to_label', label).whereIn('to_id', ids)))
+          .delete();
+        await tx(NODES).where('label', label).whereIn('id', ids).delete();
+      }
+    };
+
+    await (trx ? deleteFn(trx) : this.db.transaction(deleteFn));
+  }
+
+  /**
+   * Expand paths one hop at a time, following the same rules as the Cypher
+   * the Neo4j store runs: variable-length steps, no edge used twice in a path,
+   * and constraints checked on the node each step ends at.
+   */
+  async findPaths(query: GraphPathQuery, startId: string, options: { timeoutMs?: number } = {}): Promise<GraphPaths> {
+    let paths: PartialPath[] = [{ nodes: [{ label: 'Entity', id: startId }], edges: [] }];
+
+    for (const step of query.steps) {
+      const matched: PartialPath[] = [];
+      const maxHops = step.max_hops ?? step.min_hops;
+      let frontier = paths;
+
+      for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+        frontier = await this.expand(frontier, step, query.time, options.timeoutMs);
+        if (hop >= step.min_hops) matched.push(...frontier);
+      }
+
+      paths = await this.matchingEnds(matched, step, options.timeoutMs);
+      if (paths.length === 0) break;
+    }
+
+    paths = paths.slice(0, query.limit);
+    const ids = Array.from(new Set(paths.flatMap(path => path.nodes.map(node => node.id))));
+    const stored = ids.length > 0 ? await this.loadNodes(ids, options.timeoutMs) : new Map();
+
+    const nodes = new Map<string, GraphNode>();
+    const edges = new Map<string, GraphEdge>();
+    for (const path of paths) {
+      for (const node of path.nodes) {
+        nodes.set(node.id, {
+          id: node.id,
+          labels: [node.label],
+          properties: { ...stored.get(`${node.label}:${node.id}`), id: node.id },
+        });
+      }
+      for (const edge of path.edges) edges.set(edge.id, toEdge(edge));
+    }
+
+    return {
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values()),
+      paths: paths.map(path => path.nodes.map(node => node.id)),
+    };
+  }
+
+  async close(): Promise<void> {
+    // The knex connection is shared with the rest of the service
+  }
+
+  private async expand(
+    paths: PartialPath[],
+    step: GraphPathStep,
+    time: GraphPathQuery['time'],
+    timeoutMs?: number
+  ): Promise<PartialPath[]> {
+    const ends = Array.from(new Set(paths.map(path => path.nodes[path.nodes.length - 1].id)));
+
+    let query = this.db(EDGES)
+      .where(qb => {
+        if (step.direction !== 'in') qb.orWhereIn('from_id', ends);
+        if (step.direction !== 'out') qb.orWhereIn('to_id', ends);
+      })
+      .modify(qb => {
+        if (step.edges?.length) qb.whereIn('type', step.edges);
+      })
+      .orderBy('created_at', 'asc');
+    if (timeoutMs) query = query.timeout(timeoutMs);
+
+    const from = time?.from?.getTime();
+    const to = time?.to?.getTime();
+    const rows = ((await query) as EdgeRow[]).filter(row => {
+      if (from === undefined && to === undefined) return true;
+      const at = edgeTime(row);
+      return (from === undefined || at >= from) && (to === undefined || at <= to);
+    });
+
+    const outgoing = new Map<string, EdgeRow[]>();
+    const incoming = new Map<string, EdgeRow[]>();
+    for (const row of rows) {
+      outgoing.set(row.from_id, [...(outgoing.get(row.from_id) ?? []), row]);
+      incoming.set(row.to_id, [...(incoming.get(row.to_id) ?? []), row]);
+    }
+
+    const expanded: PartialPath[] = [];
+    for (const path of paths) {
+      const end = path.nodes[path.nodes.length - 1].id;
+      const next: Array<[EdgeRow, GraphNodeRef]> = [];
+      if (step.direction !== 'in') {
+        for (const row of outgoing.get(end) ?? []) next.push([row, { label: row.to_label, id: row.to_id }]);
+      }
+      if (step.direction !== 'out') {
+        for (const row of incoming.get(end) ?? []) next.push([row, { label: row.from_label, id: row.from_id }]);
+      }
+
+      for (const [row, node] of next) {
+        if (path.edges.some(edge => edge.id === row.id)) continue;
+        expanded.push({ nodes: [...path.nodes, node], edges: [...path.edges, row] });
+        if (expanded.length >= MAX_PARTIAL_PATHS) return expanded;
+      }
+    }
+    return expanded;
+  }
+
+  private async matchingEnds(paths: PartialPath[], step: GraphPathStep, timeoutMs?: number): Promise<PartialPath[]> {
+    const { label, types, ids } = step.node;
+    let candidates = paths.filter(path => {
+      const end = path.nodes[path.nodes.length - 1];
+      return end.label === label && (!ids?.length || ids.includes(end.id));
+    });
+
+    if (types?.length && candidates.length > 0) {
+      const ends = Array.from(new Set(candidates.map(path => path.nodes[path.nodes.length - 1].id)));
+      const stored = await this.loadNodes(ends, timeoutMs);
+      candidates = candidates.filter(path => {
+        const end = path.nodes[path.nodes.length - 1];
+        return types.includes(stored.get(`${end.label}:${end.id}`)?.type as string);
+      });
+    }
+    return candidates;
+  }
+
+  private async loadNodes(ids: string[], timeoutMs?: number): Promise<Map<string, Record<string, unknown>>> {
+    let query = this.db(NODES).whereIn('id', ids);
+    if (timeoutMs) query = query.timeout(timeoutMs);
+
+    const rows = await query;
+    return new Map(rows.map((row: any) => [`${row.label}:${row.id}`, parseJson(row.properties)]));
+  }
+}
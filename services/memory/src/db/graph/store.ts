@@ -0,0 +1,107 @@
+import type { Knex } from 'knex';
+import type { GraphStoreConfig } from '../../config';
+import { Neo4jGraphStore } from './neo4jStore';
+import { SqlGraphStore } from './sqlStore';
+
+export type GraphNodeLabel = 'Entity' | 'Event' | 'Task';
+
+export interface GraphNodeRef {
+  label: GraphNodeLabel;
+  id: string;
+}
+
+export interface GraphNode {
+  id: string;
+  labels: string[];
+  properties: Record<string, unknown>;
+}
+
+export interface GraphEdge {
+  id: string;
+  type: string;
+  source: string;
+  target: string;
+  properties: Record<string, unknown>;
+}
+
+export interface GraphEdgeInput {
+  type: string;
+  from: GraphNodeRef;
+  to: GraphNodeRef;
+  /** Edges with an ID are merged on it, others on their type and endpoints */
+  id?: string;
+  /** Set on the edge; existing properties not named here are kept */
+  properties?: Record<string, unknown>;
+  /** Numeric property incremented by one every time the edge is merged */
+  counter?: string;
+}
+
+export interface GraphEdgeFilter {
+  types?: string[];
+  direction?: 'out' | 'in' | 'both';
+  /** Label of the node at the other end */
+  label?: GraphNodeLabel;
+}
+
+export interface GraphPathStep {
+  /** Relationship types to follow; any type when omitted */
+  edges?: string[];
+  direction: 'out' | 'in' | 'both';
+  min_hops: number;
+  max_hops?: number;
+  /** Constraints on the node the step ends at */
+  node: {
+    label: GraphNodeLabel;
+    types?: string[];
+    ids?: string[];
+  };
+}
+
+/**
+ * A bounded path pattern from a start entity, as validated by the graph
+ * query DSL (see GraphQueryService)
+ */
+export interface GraphPathQuery {
+  steps: GraphPathStep[];
+  /** Only follow relationships last updated within this window */
+  time?: { from?: Date; to?: Date };
+  limit: number;
+}
+
+export interface GraphPaths {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Node IDs along each matching path, starting with the start entity */
+  paths: string[][];
+}
+
+/**
+ * Relationship storage for entities, events and tasks. Writes that take a
+ * transaction join it on the SQL backend; Neo4j ignores it.
+ */
+export interface GraphStore {
+  readonly kind: 'neo4j' | 'sql';
+  initialize(): Promise<void>;
+  upsertNode(node: GraphNodeRef & { properties: Record<string, unknown> }, trx?: Knex.Transaction): Promise<void>;
+  mergeEdges(edges: GraphEdgeInput[], trx?: Knex.Transaction): Promise<void>;
+  getEdges(node: GraphNodeRef, filter?: GraphEdgeFilter, trx?: Knex.Transaction): Promise<GraphEdge[]>;
+  deleteEdge(id: string, trx?: Knex.Transaction): Promise<void>;
+  /** Remove nodes together with every edge touching them */
+  deleteNodes(nodes: GraphNodeRef[], trx?: Knex.Transaction): Promise<void>;
+  findPaths(query: GraphPathQuery, startId: string, options?: { timeoutMs?: number }): Promise<GraphPaths>;
+  close(): Promise<void>;
+}
+
+/**
+ * Create the graph store selected by the configuration
+ */
+export function createGraphStore(cfg: GraphStoreConfig, deps: { knex: Knex }): GraphStore {
+  switch (cfg.backend) {
+    case 'neo4j':
+      return new Neo4jGraphStore();
+    case 'sql':
+      return new SqlGraphStore(deps.knex);
+    default:
+      throw new Error(`Unknown graph store backend: ${cfg.backend}`);
+  }
+}
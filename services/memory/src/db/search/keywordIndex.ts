@@ -0,0 +1,110 @@
+import type { Knex } from 'knex';
+
+export type KeywordDocumentType = 'event' | 'task' | 'entity';
+
+export interface KeywordMatch {
+  type: KeywordDocumentType;
+  id: string;
+  /** Lexical relevance, higher is better; only comparable within one search */
+  score: number;
+}
+
+// Tables searched on Postgres, with the same text the migration indexes
+const DOCUMENTS: Record<KeywordDocumentType, { table: string; title: string; softDelete: boolean }> = {
+  event: { table: 'events', title: 'title', softDelete: false },
+  task: { table: 'tasks', title: 'title', softDelete: true },
+  entity: { table: 'entities', title: 'name', softDelete: true },
+};
+
+const MAX_TERMS = 32;
+
+// Words that match nearly every document; any term may match, so they would
+// only add noise
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'in', 'is', 'it', 'its', 'me',
+  'my', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'there', 'they', 'this',
+  'to', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with',
+  'you', 'your',
+]);
+
+/**
+ * Split a query into lowercase words and numbers, without stopwords.
+ * Punctuation separates terms, so "INV-2024-0042" searches for "inv", "2024"
+ * and "0042".
+ */
+export function keywordTerms(query: string): string[] {
+  const terms = (query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(term => !STOPWORDS.has(term));
+  return Array.from(new Set(terms)).slice(0, MAX_TERMS);
+}
+
+/**
+ * Lexical search over event content, task titles and entity names. Uses
+ * Postgres full-text search, or an FTS5 table ranked with BM25 on SQLite.
+ * Any query term may match; documents matching more, and rarer, terms rank
+ * higher.
+ */
+export class KeywordIndex {
+  private readonly isPg: boolean;
+
+  constructor(private db: Knex) {
+    this.isPg = db.client.config.client === 'pg';
+  }
+
+  async search(
+    query: string,
+    options: { types?: KeywordDocumentType[]; limit: number }
+  ): Promise<KeywordMatch[]> {
+    const terms = keywordTerms(query);
+    const types = options.types ?? (Object.keys(DOCUMENTS) as KeywordDocumentType[]);
+    if (terms.length === 0 || types.length === 0) return [];
+
+    return this.isPg
+      ? this.searchPostgres(terms, types, options.limit)
+      : this.searchSqlite(terms, types, options.limit);
+  }
+
+  private async searchSqlite(terms: string[], types: KeywordDocumentType[], limit: number): Promise<KeywordMatch[]> {
+    // Quoted terms are matched literally; titles weigh twice the body
+    const match = terms.map(term => `"${term}"`).join(' OR ');
+    const rows = await this.db.raw(
+      `SELECT doc_type, doc_id, bm25(keyword_index, 0, 0, 2.0, 1.0) AS rank
+       FROM keyword_index
+       WHERE keyword_index MATCH ? AND doc_type IN (${types.map(() => '?').join(', ')})
+       ORDER BY rank
+       LIMIT ?`,
+      [match, ...types, limit]
+    );
+
+    // bm25() is lower for better matches
+    return (rows as any[]).map(row => ({
+      type: row.doc_type as KeywordDocumentType,
+      id: String(row.doc_id),
+      score: -Number(row.rank),
+    }));
+  }
+
+  private async searchPostgres(terms: string[], types: KeywordDocumentType[], limit: number): Promise<KeywordMatch[]> {
+    const tsquery = terms.join(' | ');
+    const selects = types.map(type => {
+      const { table, title, softDelete } = DOCUMENTS[type];
+      const document = `to_tsvector('simple', coalesce(${title}, '') || ' ' || coalesce(description, ''))`;
+      return `SELECT '${type}' AS doc_type, id, ts_rank_cd(${document}, query) AS score
+        FROM ${table}, to_tsquery('simple', ?) query
+        WHERE ${document} @@ query${softDelete ? ' AND deleted_at IS NULL' : ''}`;
+    });
+
+    const result = await this.db.raw(
+      `${selects.join('\nUNION ALL\n')}
+       ORDER BY score DESC
+       LIMIT ?`,
+      [...types.map(() => tsquery), limit]
+    );
+
+    return result.rows.map((row: any) => ({
+      type: row.doc_type as KeywordDocumentType,
+      id: String(row.id),
+      score: Number(row.score),
+    }));
+  }
+}
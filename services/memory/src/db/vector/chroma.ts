@@ -1,10 +1,10 @@
 import { ChromaClient, type IEmbeddingFunction } from 'chromadb';
-import { ChromaConfig } from '../../config';
+import { ChromaConfig, EmbeddingConfig } from '../../config';
 import config from '../../config';
-import { OpenAIEmbeddingFunction } from 'chromadb';
+import { createEmbeddingProvider, type EmbeddingProvider } from './embeddings';
 
 let chromaClient: ChromaClient | null = null;
-let embeddingFunction: IEmbeddingFunction | null = null;
+let embeddingFunction: EmbeddingProvider | null = null;
 
 /**
  * Get or create a ChromaDB client
@@ -36,21 +36,14 @@ export function getChromaClient(cfg: ChromaConfig = config.chroma): ChromaClient
 }
 
 /**
- * Get or create an embedding function
+ * Get or create the configured embedding provider
  */
-export function getEmbeddingFunction(apiKey: string = config.openaiApiKey || ''): IEmbeddingFunction {
+export function getEmbeddingFunction(cfg: EmbeddingConfig = config.embeddings): EmbeddingProvider {
   if (!embeddingFunction) {
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required for embeddings');
-    }
-    
     try {
-      embeddingFunction = new OpenAIEmbeddingFunction({
-        openai_api_key: apiKey,
-        openai_model: 'text-embedding-3-small',
-      });
+      embeddingFunction = createEmbeddingProvider(cfg);
       
-      console.log('✅ Embedding function initialized');
+      console.log(`✅ Embedding function initialized (${embeddingFunction.id})`);
     } catch (error) {
       console.error('❌ Failed to initialize embedding function:', error);
       throw error;
@@ -69,6 +62,14 @@ export async function closeChromaClient(): Promise<void> {
   console.log('ChromaDB client closed');
 }
 
+/**
+ * Name of a collection for the active embedding provider. Each provider gets
+ * its own collections because vectors from different models cannot be mixed.
+ */
+export function getCollectionName(name: string, provider: EmbeddingProvider = getEmbeddingFunction()): string {
+  return `${name}_${provider.id.replace(/[^a-zA-Z0-9]+/g, '-')}`;
+}
+
 /**
  * Get or create a collection
  */
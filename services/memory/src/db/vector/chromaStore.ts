@@ -0,0 +1,114 @@
+import { getCollectionName, getOrCreateCollection } from './chroma';
+import type { EmbeddingProvider } from './embeddings';
+import type {
+  VectorCollection,
+  VectorFilter,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+} from './store';
+
+/**
+ * Vector store backed by ChromaDB collections (one per collection and
+ * embedding provider).
+ */
+export class ChromaVectorStore implements VectorStore {
+  readonly kind = 'chroma' as const;
+  private collections = new Map<VectorCollection, Promise<any>>();
+
+  constructor(private provider: EmbeddingProvider) {}
+
+  async initialize(): Promise<void> {
+    await Promise.all([
+      this.getCollection('entities'),
+      this.getCollection('events'),
+    ]);
+  }
+
+  async upsert(collection: VectorCollection, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const chromaCollection = await this.getCollection(collection);
+    await chromaCollection.upsert({
+      ids: records.map(record => record.id),
+      embeddings: records.map(record => record.embedding),
+      metadatas: records.map(record => this.toChromaMetadata(record.metadata || {})),
+      documents: records.map(record => record.document || ''),
+    });
+  }
+
+  async query(collection: VectorCollection, query: VectorQuery): Promise<VectorMatch[]> {
+    const chromaCollection = await this.getCollection(collection);
+    const where = this.toChromaWhere(query.filter);
+
+    const results = await chromaCollection.query({
+      queryEmbeddings: [query.embedding],
+      nResults: query.limit,
+      ...(where && { where }),
+      include: ['metadatas', 'distances'],
+    });
+
+    const ids: string[] = results?.ids?.[0] || [];
+    return ids.map((id, i) => ({
+      id,
+      // Collections use cosine space, so distance = 1 - similarity
+      score: 1 - (results.distances?.[0]?.[i] ?? 1),
+      metadata: results.metadatas?.[0]?.[i] || {},
+    }));
+  }
+
+  async delete(collection: VectorCollection, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const chromaCollection = await this.getCollection(collection);
+    await chromaCollection.delete({ ids });
+  }
+
+  private getCollection(collection: VectorCollection): Promise<any> {
+    let pending = this.collections.get(collection);
+    if (!pending) {
+      pending = getOrCreateCollection(
+        getCollectionName(collection, this.provider),
+        { 'hnsw:space': 'cosine', description: `${collection} vector store for semantic search` },
+        this.provider
+      );
+      // Do not cache failures, so a later call can retry
+      pending.catch(() => this.collections.delete(collection));
+      this.collections.set(collection, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Chroma metadata only supports scalars; dates become epoch milliseconds
+   */
+  private toChromaMetadata(metadata: Record<string, unknown>): Record<string, string | number | boolean> {
+    const result: Record<string, string | number | boolean> = {};
+    for (const [key, value] of Object.entries(metadata)) {
+      if (value === null || value === undefined) continue;
+      if (value instanceof Date) {
+        result[key] = value.getTime();
+      } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  private toChromaWhere(filter?: VectorFilter): Record<string, unknown> | undefined {
+    if (!filter) return undefined;
+
+    const clauses: Record<string, unknown>[] = [];
+    for (const [key, value] of Object.entries(filter.equals || {})) {
+      clauses.push({ [key]: { $eq: value } });
+    }
+    for (const [key, range] of Object.entries(filter.range || {})) {
+      if (range.gte !== undefined) clauses.push({ [key]: { $gte: new Date(range.gte).getTime() } });
+      if (range.lte !== undefined) clauses.push({ [key]: { $lte: new Date(range.lte).getTime() } });
+    }
+
+    if (clauses.length === 0) return undefined;
+    return clauses.length === 1 ? clauses[0] : { $and: clauses };
+  }
+}
@@ -0,0 +1,117 @@
+import { OpenAIEmbeddingFunction, type IEmbeddingFunction } from 'chromadb';
+import type { EmbeddingConfig } from '../../config';
+
+/**
+ * A source of text embeddings. Every provider exposes a stable `id` that is
+ * stored next to each embedding, so vectors from different models are never
+ * compared with each other.
+ */
+export interface EmbeddingProvider extends IEmbeddingFunction {
+  readonly id: string;
+  readonly dimensions: number;
+  generate(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embeddings from the OpenAI API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private fn: OpenAIEmbeddingFunction;
+
+  constructor(
+    apiKey: string,
+    private model: string = 'text-embedding-3-small',
+    readonly dimensions: number = 1536
+  ) {
+    if (!apiKey) {
+      throw new Error('OpenAI API key is required for embeddings');
+    }
+
+    this.id = `openai:${model}:${dimensions}`;
+    this.fn = new OpenAIEmbeddingFunction({
+      openai_api_key: apiKey,
+      openai_model: model,
+    });
+  }
+
+  async generate(texts: string[]): Promise<number[][]> {
+    const result = await this.fn.generate(texts);
+    // Ensure the result is a plain array, not a TypedArray
+    return result.map(embedding => Array.from(embedding));
+  }
+}
+
+/**
+ * Deterministic offline embeddings built from hashed word unigrams, word
+ * bigrams and character trigrams (the "hashing trick"). Quality is well below
+ * a neural model, but it needs no network, no model files and is stable across
+ * runs and machines.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(readonly dimensions: number = 384) {
+    this.id = `local:hash-ngram-v1:${dimensions}`;
+  }
+
+  async generate(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = (text || '')
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .match(/[\p{L}\p{N}]+/gu) || [];
+
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      // Use an independent bit for the sign so collisions tend to cancel out
+      const sign = (hash >>> 31) === 1 ? -1 : 1;
+      vector[index] += sign * weight;
+    };
+
+    tokens.forEach((token, i) => {
+      add(`w:${token}`, 1);
+      if (i > 0) add(`b:${tokens[i - 1]} ${token}`, 0.75);
+
+      const padded = ` ${token} `;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.5);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create the embedding provider described by the configuration
+ */
+export function createEmbeddingProvider(cfg: EmbeddingConfig): EmbeddingProvider {
+  switch (cfg.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(cfg.apiKey || '', cfg.model, cfg.dimensions);
+    case 'local':
+      return new LocalHashEmbeddingProvider(cfg.dimensions);
+    default:
+      throw new Error(`Unknown embedding provider: ${cfg.provider}`);
+  }
+}
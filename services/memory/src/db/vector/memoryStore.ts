@@ -0,0 +1,97 @@
+import type {
+  VectorCollection,
+  VectorFilter,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+} from './store';
+
+interface StoredVector {
+  embedding: number[];
+  norm: number;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * In-process vector store with exact (brute force) cosine search. Nothing is
+ * persisted; intended for tests, evaluation runs and small local setups.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly kind = 'memory' as const;
+  private collections = new Map<VectorCollection, Map<string, StoredVector>>();
+
+  async initialize(): Promise<void> {}
+
+  async upsert(collection: VectorCollection, records: VectorRecord[]): Promise<void> {
+    const vectors = this.getCollection(collection);
+    for (const record of records) {
+      vectors.set(record.id, {
+        embedding: Array.from(record.embedding),
+        norm: Math.sqrt(record.embedding.reduce((sum, value) => sum + value * value, 0)),
+        metadata: { ...record.metadata },
+      });
+    }
+  }
+
+  async query(collection: VectorCollection, query: VectorQuery): Promise<VectorMatch[]> {
+    const queryNorm = Math.sqrt(query.embedding.reduce((sum, value) => sum + value * value, 0));
+    const matches: VectorMatch[] = [];
+
+    for (const [id, vector] of this.getCollection(collection)) {
+      if (!this.matchesFilter(vector.metadata, query.filter)) continue;
+      if (vector.embedding.length !== query.embedding.length) continue;
+
+      let dot = 0;
+      for (let i = 0; i < vector.embedding.length; i++) {
+        dot += vector.embedding[i] * query.embedding[i];
+      }
+      const denominator = vector.norm * queryNorm;
+
+      matches.push({
+        id,
+        score: denominator === 0 ? 0 : dot / denominator,
+        metadata: vector.metadata,
+      });
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.limit);
+  }
+
+  async delete(collection: VectorCollection, ids: string[]): Promise<void> {
+    const vectors = this.getCollection(collection);
+    for (const id of ids) {
+      vectors.delete(id);
+    }
+  }
+
+  private getCollection(collection: VectorCollection): Map<string, StoredVector> {
+    let vectors = this.collections.get(collection);
+    if (!vectors) {
+      vectors = new Map();
+      this.collections.set(collection, vectors);
+    }
+    return vectors;
+  }
+
+  private matchesFilter(metadata: Record<string, unknown>, filter?: VectorFilter): boolean {
+    if (!filter) return true;
+
+    for (const [key, value] of Object.entries(filter.equals || {})) {
+      if (metadata[key] !== value) return false;
+    }
+
+    for (const [key, range] of Object.entries(filter.range || {})) {
+      const raw = metadata[key];
+      if (raw === null || raw === undefined) return false;
+
+      const value = new Date(raw as string | number | Date).getTime();
+      if (range.gte !== undefined && value < new Date(range.gte).getTime()) return false;
+      if (range.lte !== undefined && value > new Date(range.lte).getTime()) return false;
+    }
+
+    return true;
+  }
+}
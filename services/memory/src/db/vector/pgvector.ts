@@ -0,0 +1,139 @@
+import type { Knex } from 'knex';
+import type { EmbeddingProvider } from './embeddings';
+import type {
+  VectorCollection,
+  VectorFilter,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+} from './store';
+
+const VECTOR_COLUMN = 'embedding_vec';
+
+// Vectors live next to the rows they describe, so filters are plain column predicates
+const TABLES: Record<VectorCollection, { table: string; softDelete: boolean }> = {
+  events: { table: 'events', softDelete: false },
+  entities: { table: 'entities', softDelete: true },
+  tasks: { table: 'tasks', softDelete: true },
+};
+
+/**
+ * Serialize a vector in pgvector's text format, e.g. [0.1,0.2]
+ */
+export function toPgVector(embedding: number[]): string {
+  return `[${embedding.map(value => (Number.isFinite(value) ? value : 0)).join(',')}]`;
+}
+
+/**
+ * Vector store backed by pgvector columns on the relational tables. Similarity
+ * search, metadata filters and the row itself come back from a single query
+ * served by an HNSW index.
+ */
+export class PgVectorStore implements VectorStore {
+  readonly kind = 'pgvector' as const;
+
+  constructor(private knex: Knex, private provider: EmbeddingProvider) {}
+
+  /**
+   * Check the extension is installed and resize vector columns when the
+   * provider's dimensions changed. Resized columns are cleared; the
+   * re-embedding job fills them again.
+   */
+  async initialize(): Promise<void> {
+    if (this.knex.client.config.client !== 'pg') {
+      throw new Error('The pgvector vector store requires the pg database client');
+    }
+
+    const extension = await this.knex.raw(`SELECT 1 FROM pg_extension WHERE extname = 'vector'`);
+    if (extension.rows.length === 0) {
+      throw new Error('The pgvector extension is not installed; run the migrations on a server that provides it');
+    }
+
+    const expected = `vector(${this.provider.dimensions})`;
+    for (const { table } of Object.values(TABLES)) {
+      const result = await this.knex.raw(
+        `SELECT format_type(atttypid, atttypmod) AS type
+         FROM pg_attribute
+         WHERE attrelid = ?::regclass AND attname = ? AND NOT attisdropped`,
+        [table, VECTOR_COLUMN]
+      );
+      const current = result.rows[0]?.type;
+
+      if (!current) {
+        throw new Error(`Missing ${table}.${VECTOR_COLUMN} column; run the migrations`);
+      }
+
+      if (current !== expected) {
+        await this.knex.transaction(async trx => {
+          await trx.raw(`DROP INDEX IF EXISTS ??`, [`idx_${table}_${VECTOR_COLUMN}`]);
+          await trx.raw(`ALTER TABLE ?? ALTER COLUMN ?? TYPE ${expected} USING NULL`, [table, VECTOR_COLUMN]);
+          await trx.raw(
+            `CREATE INDEX ?? ON ?? USING hnsw (?? vector_cosine_ops)`,
+            [`idx_${table}_${VECTOR_COLUMN}`, table, VECTOR_COLUMN]
+          );
+        });
+      }
+    }
+  }
+
+  async upsert(collection: VectorCollection, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const { table } = TABLES[collection];
+    await this.knex.transaction(async trx => {
+      for (const record of records) {
+        await trx(table)
+          .where({ id: record.id })
+          .update({ [VECTOR_COLUMN]: trx.raw('?::vector', [toPgVector(record.embedding)]) });
+      }
+    });
+  }
+
+  async query(collection: VectorCollection, query: VectorQuery): Promise<VectorMatch[]> {
+    const { table, softDelete } = TABLES[collection];
+    const vector = toPgVector(query.embedding);
+
+    const builder = this.knex(table)
+      .select('*', this.knex.raw(`1 - (?? <=> ?::vector) AS vector_score`, [VECTOR_COLUMN, vector]))
+      .whereNotNull(VECTOR_COLUMN);
+
+    if (softDelete) builder.whereNull('deleted_at');
+    this.applyFilter(builder, query.filter);
+
+    const rows = await builder
+      .orderByRaw(`?? <=> ?::vector`, [VECTOR_COLUMN, vector])
+      .limit(query.limit);
+
+    return rows.map((row: Record<string, unknown>) => {
+      const { [VECTOR_COLUMN]: _vector, vector_score: score, ...record } = row;
+      return {
+        id: String(record.id),
+        score: Number(score),
+        metadata: {},
+        record,
+      };
+    });
+  }
+
+  async delete(collection: VectorCollection, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const { table } = TABLES[collection];
+    await this.knex(table)
+      .whereIn('id', ids)
+      .update({ [VECTOR_COLUMN]: null });
+  }
+
+  private applyFilter(builder: Knex.QueryBuilder, filter?: VectorFilter): void {
+    if (!filter) return;
+
+    for (const [column, value] of Object.entries(filter.equals || {})) {
+      builder.where(column, value);
+    }
+    for (const [column, range] of Object.entries(filter.range || {})) {
+      if (range.gte !== undefined) builder.where(column, '>=', new Date(range.gte).toISOString());
+      if (range.lte !== undefined) builder.where(column, '<=', new Date(range.lte).toISOString());
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import type { Knex } from 'knex';
+import type { VectorStoreConfig } from '../../config';
+import type { EmbeddingProvider } from './embeddings';
+import { ChromaVectorStore } from './chromaStore';
+import { InMemoryVectorStore } from './memoryStore';
+import { PgVectorStore } from './pgvector';
+
+/**
+ * Collections of vectors kept by the memory service. Each maps to the
+ * relational table holding the rows the vectors were computed from.
+ */
+export type VectorCollection = 'events' | 'entities' | 'tasks';
+
+export type VectorMetadataValue = string | number | boolean | Date | null;
+
+export interface VectorRecord {
+  id: string;
+  embedding: number[];
+  /** Filterable attributes. Pass timestamps as Date so range filters work on every backend. */
+  metadata?: Record<string, VectorMetadataValue>;
+  document?: string;
+}
+
+export interface VectorFilter {
+  equals?: Record<string, string | number | boolean>;
+  range?: Record<string, { gte?: Date | number; lte?: Date | number }>;
+}
+
+export interface VectorQuery {
+  embedding: number[];
+  limit: number;
+  filter?: VectorFilter;
+}
+
+export interface VectorMatch {
+  id: string;
+  /** Cosine similarity between the query and the stored vector */
+  score: number;
+  metadata: Record<string, unknown>;
+  /** The full relational row, when the backend can return it in the same query */
+  record?: Record<string, unknown>;
+}
+
+export interface VectorStore {
+  readonly kind: 'chroma' | 'pgvector' | 'memory';
+  initialize(): Promise<void>;
+  upsert(collection: VectorCollection, records: VectorRecord[]): Promise<void>;
+  query(collection: VectorCollection, query: VectorQuery): Promise<VectorMatch[]>;
+  delete(collection: VectorCollection, ids: string[]): Promise<void>;
+}
+
+/**
+ * Create the vector store selected by the configuration
+ */
+export function createVectorStore(
+  cfg: VectorStoreConfig,
+  deps: { knex: Knex; provider: EmbeddingProvider }
+): VectorStore {
+  switch (cfg.backend) {
+    case 'pgvector':
+      return new PgVectorStore(deps.knex, deps.provider);
+    case 'chroma':
+      return new ChromaVectorStore(deps.provider);
+    case 'memory':
+      return new InMemoryVectorStore();
+    default:
+      throw new Error(`Unknown vector store backend: ${cfg.backend}`);
+  }
+}
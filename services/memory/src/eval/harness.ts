@@ -0,0 +1,291 @@
+import fs from 'fs';
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import type { RetrievalOptions, RetrievalService } from '../services/RetrievalService';
+import type { ReembeddingService } from '../services/ReembeddingService';
+import { mean, ndcgAtK, reciprocalRank, recallAtK, type Judgements } from './metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Synthetic corpus. Rows are referred to by fixture keys; times are relative
+ * to the moment the corpus is seeded so recency scoring is reproducible.
+ */
+export interface CorpusFixture {
+  entities: Array<{ key: string; name: string; type: string; description?: string }>;
+  events: Array<{
+    key: string;
+    type: string;
+    title: string;
+    description?: string;
+    daysAgo: number;
+    participants?: string[];
+    metadata?: Record<string, unknown>;
+  }>;
+  tasks: Array<{
+    key: string;
+    title: string;
+    description?: string;
+    status?: string;
+    priority?: string;
+    dueInDays?: number;
+    assignee?: string;
+    daysAgo?: number;
+  }>;
+}
+
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  /** Fixture keys of the relevant rows, or keys mapped to graded relevance */
+  relevant: string[] | Judgements;
+  entityContext?: string[];
+}
+
+export interface GoldenFixture {
+  corpus: CorpusFixture;
+  queries: GoldenQuery[];
+}
+
+/**
+ * A named set of retrieval options to evaluate, e.g. a weight profile
+ */
+export interface EvaluationConfig {
+  name: string;
+  options: Omit<RetrievalOptions, 'entityContext' | 'timeWindow' | 'limit'>;
+}
+
+export interface QueryEvaluation {
+  id: string;
+  query: string;
+  /** Returned fixture keys, best first */
+  ranked: string[];
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+}
+
+export interface EvaluationReport {
+  config: string;
+  k: number;
+  recall: number;
+  mrr: number;
+  ndcg: number;
+  queries: QueryEvaluation[];
+}
+
+export interface QueryDiff {
+  id: string;
+  query: string;
+  delta: { recall: number; reciprocalRank: number; ndcg: number };
+  /** Relevant keys whose rank changed; null means not in the top k */
+  moved: Array<{ key: string; baseRank: number | null; candidateRank: number | null }>;
+}
+
+export interface ReportDiff {
+  base: string;
+  candidate: string;
+  k: number;
+  delta: { recall: number; mrr: number; ndcg: number };
+  queries: QueryDiff[];
+}
+
+export function loadFixture(filePath: string): GoldenFixture {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as GoldenFixture;
+}
+
+/**
+ * Insert the corpus and embed it through the re-embedding job, which also
+ * indexes the rows in the vector store. Returns fixture key to row ID.
+ */
+export async function seedCorpus(
+  db: Knex,
+  corpus: CorpusFixture,
+  reembeddingService: ReembeddingService,
+  now: Date = new Date()
+): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+  const idFor = (key: string) => {
+    if (!ids.has(key)) ids.set(key, uuidv4());
+    return ids.get(key)!;
+  };
+  const daysFromNow = (days: number) => new Date(now.getTime() + days * DAY_MS).toISOString();
+
+  await db.transaction(async trx => {
+    for (const entity of corpus.entities) {
+      await trx('entities').insert({
+        id: idFor(entity.key),
+        name: entity.name,
+        type: entity.type,
+        description: entity.description ?? null,
+        metadata: JSON.stringify({}),
+        last_seen_at: now.toISOString(),
+      });
+    }
+
+    for (const event of corpus.events) {
+      await trx('events').insert({
+        id: idFor(event.key),
+        type: event.type,
+        title: event.title,
+        description: event.description ?? null,
+        start_time: daysFromNow(-event.daysAgo),
+        participants: JSON.stringify((event.participants || []).map(key => ({ entity_id: idFor(key) }))),
+        source: 'eval',
+        metadata: JSON.stringify(event.metadata || {}),
+      });
+    }
+
+    for (const task of corpus.tasks) {
+      const createdAt = daysFromNow(-(task.daysAgo ?? 0));
+      await trx('tasks').insert({
+        id: idFor(task.key),
+        title: task.title,
+        description: task.description ?? null,
+        status: task.status || 'pending',
+        priority: task.priority || 'medium',
+        due_date: task.dueInDays !== undefined ? daysFromNow(task.dueInDays) : null,
+        assignee_id: task.assignee ? idFor(task.assignee) : null,
+        metadata: JSON.stringify({}),
+        created_at: createdAt,
+        updated_at: createdAt,
+      });
+    }
+  });
+
+  await reembeddingService.run();
+  return ids;
+}
+
+function toJudgements(relevant: GoldenQuery['relevant']): Judgements {
+  return Array.isArray(relevant)
+    ? Object.fromEntries(relevant.map(key => [key, 1]))
+    : relevant;
+}
+
+/**
+ * Run every golden query with one configuration and score the rankings
+ */
+export async function evaluate(
+  retrievalService: RetrievalService,
+  queries: GoldenQuery[],
+  ids: Map<string, string>,
+  config: EvaluationConfig,
+  k: number = 10
+): Promise<EvaluationReport> {
+  const keysById = new Map(Array.from(ids.entries()).map(([key, id]) => [id, key]));
+  const evaluations: QueryEvaluation[] = [];
+
+  for (const golden of queries) {
+    const results = await retrievalService.retrieve(golden.query, {
+      ...config.options,
+      limit: k,
+      entityContext: (golden.entityContext || []).map(key => ids.get(key) || key),
+    });
+
+    const ranked = results.map(result => keysById.get(result.id) || result.id);
+    const judgements = toJudgements(golden.relevant);
+
+    evaluations.push({
+      id: golden.id,
+      query: golden.query,
+      ranked,
+      recall: recallAtK(ranked, judgements, k),
+      reciprocalRank: reciprocalRank(ranked, judgements),
+      ndcg: ndcgAtK(ranked, judgements, k),
+    });
+  }
+
+  return {
+    config: config.name,
+    k,
+    recall: mean(evaluations.map(e => e.recall)),
+    mrr: mean(evaluations.map(e => e.reciprocalRank)),
+    ndcg: mean(evaluations.map(e => e.ndcg)),
+    queries: evaluations,
+  };
+}
+
+/**
+ * Compare two reports over the same golden queries. Only queries whose
+ * metrics or relevant ranks changed are listed.
+ */
+export function diffReports(base: EvaluationReport, candidate: EvaluationReport, queries: GoldenQuery[]): ReportDiff {
+  const candidateById = new Map(candidate.queries.map(q => [q.id, q]));
+  const relevantById = new Map(queries.map(q => [q.id, Object.keys(toJudgements(q.relevant))]));
+  const rankOf = (ranked: string[], key: string) => {
+    const index = ranked.indexOf(key);
+    return index === -1 ? null : index + 1;
+  };
+
+  const diffs: QueryDiff[] = [];
+  for (const before of base.queries) {
+    const after = candidateById.get(before.id);
+    if (!after) continue;
+
+    const moved = (relevantById.get(before.id) || [])
+      .map(key => ({ key, baseRank: rankOf(before.ranked, key), candidateRank: rankOf(after.ranked, key) }))
+      .filter(change => change.baseRank !== change.candidateRank);
+
+    const delta = {
+      recall: after.recall - before.recall,
+      reciprocalRank: after.reciprocalRank - before.reciprocalRank,
+      ndcg: after.ndcg - before.ndcg,
+    };
+
+    if (moved.length > 0 || Object.values(delta).some(value => Math.abs(value) > 1e-9)) {
+      diffs.push({ id: before.id, query: before.query, delta, moved });
+    }
+  }
+
+  return {
+    base: base.config,
+    candidate: candidate.config,
+    k: base.k,
+    delta: {
+      recall: candidate.recall - base.recall,
+      mrr: candidate.mrr - base.mrr,
+      ndcg: candidate.ndcg - base.ndcg,
+    },
+    queries: diffs,
+  };
+}
+
+const formatNumber = (value: number) => value.toFixed(3);
+const formatDelta = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+
+export function formatReports(reports: EvaluationReport[]): string {
+  const k = reports[0]?.k ?? 10;
+  const width = Math.max(6, ...reports.map(report => report.config.length));
+  const header = ['config'.padEnd(width), `recall@${k}`.padEnd(10), 'MRR'.padEnd(10), `nDCG@${k}`];
+
+  return [
+    header.join('  '),
+    ...reports.map(report => [
+      report.config.padEnd(width),
+      formatNumber(report.recall).padEnd(10),
+      formatNumber(report.mrr).padEnd(10),
+      formatNumber(report.ndcg),
+    ].join('  ')),
+  ].join('\n');
+}
+
+export function formatDiff(diff: ReportDiff): string {
+  const lines = [
+    `${diff.base} -> ${diff.candidate} (k=${diff.k})`,
+    `  recall ${formatDelta(diff.delta.recall)}  MRR ${formatDelta(diff.delta.mrr)}  nDCG ${formatDelta(diff.delta.ndcg)}`,
+  ];
+
+  if (diff.queries.length === 0) {
+    lines.push('  no ranking changes');
+  }
+
+  for (const query of diff.queries) {
+    lines.push(`  [${query.id}] ${query.query}: nDCG ${formatDelta(query.delta.ndcg)}, RR ${formatDelta(query.delta.reciprocalRank)}`);
+    for (const change of query.moved) {
+      lines.push(`    ${change.key}: ${change.baseRank ?? '-'} -> ${change.candidateRank ?? '-'}`);
+    }
+  }
+
+  return lines.join('\n');
+}
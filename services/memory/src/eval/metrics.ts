@@ -0,0 +1,43 @@
+/**
+ * Ranking metrics for retrieval evaluation. Relevance judgements map an ID
+ * to a graded relevance (1 = relevant, higher = more relevant); IDs not in
+ * the judgements are irrelevant.
+ */
+export type Judgements = Record<string, number>;
+
+/**
+ * Fraction of the relevant IDs found in the top k results
+ */
+export function recallAtK(ranked: string[], judgements: Judgements, k: number): number {
+  const relevant = Object.keys(judgements).filter(id => judgements[id] > 0);
+  if (relevant.length === 0) return 0;
+
+  const topK = new Set(ranked.slice(0, k));
+  return relevant.filter(id => topK.has(id)).length / relevant.length;
+}
+
+/**
+ * 1 / rank of the first relevant result, 0 if none was returned
+ */
+export function reciprocalRank(ranked: string[], judgements: Judgements): number {
+  const index = ranked.findIndex(id => (judgements[id] || 0) > 0);
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Normalized discounted cumulative gain over the top k results, using the
+ * exponential gain 2^rel - 1
+ */
+export function ndcgAtK(ranked: string[], judgements: Judgements, k: number): number {
+  const dcg = (grades: number[]) =>
+    grades.slice(0, k).reduce((sum, grade, i) => sum + (Math.pow(2, grade) - 1) / Math.log2(i + 2), 0);
+
+  const ideal = dcg(Object.values(judgements).filter(grade => grade > 0).sort((a, b) => b - a));
+  if (ideal === 0) return 0;
+
+  return dcg(ranked.map(id => judgements[id] || 0)) / ideal;
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
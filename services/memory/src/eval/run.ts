@@ -0,0 +1,153 @@
+/**
+ * Retrieval evaluation runner.
+ *
+ * Seeds an in-memory SQLite database and vector store with the golden corpus,
+ * runs the golden queries and reports recall@k, MRR and nDCG per configuration.
+ *
+ *   pnpm eval:retrieval                                  # every weight profile
+ *   pnpm eval:retrieval --profiles default,recall --k 5
+ *   pnpm eval:retrieval --base default --candidate '{"intent":"default","lambda":0.02}'
+ *   pnpm eval:retrieval --out report.json                # save reports
+ *   pnpm eval:retrieval --baseline report.json           # diff against saved reports
+ *   pnpm eval:retrieval --min-ndcg 0.6                   # fail when a configuration scores lower
+ */
+import fs from 'fs';
+import path from 'path';
+import knex from 'knex';
+import { getEmbeddingFunction } from '../db/vector/chroma';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { KeywordIndex } from '../db/search/keywordIndex';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { EventModel } from '../models/EventModel';
+import { EntityModel } from '../models/EntityModel';
+import { TaskModel } from '../models/TaskModel';
+import { MemorySummaryModel } from '../models/MemorySummaryModel';
+import { ReembeddingService } from '../services/ReembeddingService';
+import { HeuristicReranker } from '../services/Reranker';
+import { RetrievalService, WEIGHT_PROFILES, type RetrievalIntent } from '../services/RetrievalService';
+import {
+  diffReports,
+  evaluate,
+  formatDiff,
+  formatReports,
+  loadFixture,
+  seedCorpus,
+  type EvaluationConfig,
+  type EvaluationReport,
+} from './harness';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[key] = 'true';
+    } else {
+      args[key] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+/**
+ * A configuration is either a weight profile name or a JSON object of retrieval options
+ */
+function parseConfig(value: string): EvaluationConfig {
+  if (Object.prototype.hasOwnProperty.call(WEIGHT_PROFILES, value)) {
+    return { name: value, options: { intent: value as RetrievalIntent } };
+  }
+  return { name: value, options: JSON.parse(value) };
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  const k = parseInt(args.k || '10', 10);
+  const fixture = loadFixture(args.fixture || path.resolve(__dirname, 'fixtures/golden.json'));
+
+  const configs: EvaluationConfig[] = args.base || args.candidate
+    ? [parseConfig(args.base || 'default'), parseConfig(args.candidate || 'default')]
+    : (args.profiles ? args.profiles.split(',') : Object.keys(WEIGHT_PROFILES)).map(parseConfig);
+
+  // Deterministic offline embeddings, whatever the environment configures
+  const provider = getEmbeddingFunction({ provider: 'local', dimensions: 384 });
+
+  const db = knex({
+    client: 'better-sqlite3',
+    connection: { filename: ':memory:' },
+    pool: { min: 1, max: 1 },
+    useNullAsDefault: true,
+  });
+
+  try {
+    await db.migrate.latest({ directory: path.resolve(__dirname, '../../migrations') });
+
+    const vectorStore = new InMemoryVectorStore();
+    // Retrieval never touches the graph, the SQL store just satisfies the models
+    const graphStore = new SqlGraphStore(db);
+    const eventModel = new EventModel(db, graphStore, vectorStore);
+    const entityModel = new EntityModel(db, graphStore, vectorStore);
+    const taskModel = new TaskModel(db, graphStore, vectorStore);
+    const summaryModel = new MemorySummaryModel(db);
+
+    const ids = await seedCorpus(db, fixture.corpus, new ReembeddingService(db, provider, { vectorStore }));
+    const retrievalService = new RetrievalService(
+      eventModel,
+      entityModel,
+      taskModel,
+      summaryModel,
+      new HeuristicReranker(),
+      undefined,
+      new KeywordIndex(db)
+    );
+
+    const reports: EvaluationReport[] = [];
+    for (const config of configs) {
+      reports.push(await evaluate(retrievalService, fixture.queries, ids, config, k));
+    }
+
+    const diffs = [];
+    if (args.base || args.candidate) {
+      diffs.push(diffReports(reports[0], reports[1], fixture.queries));
+    }
+    if (args.baseline) {
+      const baseline: EvaluationReport[] = JSON.parse(fs.readFileSync(args.baseline, 'utf8'));
+      for (const report of reports) {
+        const before = baseline.find(candidate => candidate.config === report.config);
+        if (before) diffs.push(diffReports(before, report, fixture.queries));
+      }
+    }
+
+    if (args.out) {
+      fs.writeFileSync(args.out, JSON.stringify(reports, null, 2));
+    }
+
+    if (args.json) {
+      console.log(JSON.stringify({ reports, diffs }, null, 2));
+    } else {
+      console.log(formatReports(reports));
+      for (const diff of diffs) {
+        console.log(`\n${formatDiff(diff)}`);
+      }
+    }
+
+    const minNdcg = args['min-ndcg'] !== undefined ? parseFloat(args['min-ndcg']) : undefined;
+    const failing = minNdcg !== undefined ? reports.filter(report => report.ndcg < minNdcg) : [];
+    if (failing.length > 0) {
+      console.error(`nDCG@${k} below ${minNdcg}: ${failing.map(report => report.config).join(', ')}`);
+      return 1;
+    }
+    return 0;
+  } finally {
+    await db.destroy();
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Retrieval evaluation failed:', error);
+    process.exit(1);
+  });
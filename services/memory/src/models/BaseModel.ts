@@ -1,5 +1,7 @@
 import { Knex } from 'knex';
 import { z, ZodType } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import type { VectorMatch } from '../db/vector/store';
 
 export class DatabaseError extends Error {
   constructor(
@@ -29,6 +31,26 @@ export class ValidationError extends Error {
   }
 }
 
+// Review state of rows created from extraction; low-confidence ones start
+// unverified until the user approves, edits or rejects them
+export const VerificationStatus = z.enum([
+  'verified',
+  'unverified',
+  'rejected',
+]);
+
+export type VerificationStatus = z.infer<typeof VerificationStatus>;
+
+// Retention lanes (design.md 6.2): hot rows are kept as captured, warm ones
+// keep their summary and embedding, cold ones only live on in summaries
+export const RetentionLane = z.enum([
+  'hot',
+  'warm',
+  'cold',
+]);
+
+export type RetentionLane = z.infer<typeof RetentionLane>;
+
 export interface PaginationOptions {
   page?: number;
   pageSize?: number;
@@ -54,6 +76,60 @@ export type SoftDeletable = {
 
 export type TransactionCallback<T> = (trx: Knex.Transaction) => Promise<T>;
 
+export type RowOperation = 'create' | 'update' | 'delete';
+
+/**
+ * One entry in a row's history: the row's state between valid_from and
+ * valid_to (null while it is the current version)
+ */
+export interface RowVersion<T> {
+  version: number;
+  operation: RowOperation;
+  valid_from: string;
+  valid_to: string | null;
+  data: T;
+}
+
+const VERSIONS_TABLE = 'row_versions';
+
+// Columns left out of version snapshots: large and irrelevant to historical state
+const UNVERSIONED_COLUMNS = ['embedding', 'embedding_vec'];
+
+/**
+ * Append a row's new state to its table's history and close the previous
+ * version. Models record their own writes; services that update versioned
+ * tables directly call this with the row as it is after the write.
+ */
+export async function recordRowVersion(
+  trx: Knex.Transaction,
+  tableName: string,
+  row: Record<string, any> | undefined,
+  operation: RowOperation
+): Promise<void> {
+  if (!row?.id) return;
+
+  const rowId = String(row.id);
+  const now = new Date().toISOString();
+  const history = trx(VERSIONS_TABLE).where({ table_name: tableName, row_id: rowId });
+
+  const latest = await history.clone().max('version as version').first();
+  await history.clone().whereNull('valid_to').update({ valid_to: now });
+
+  const data = { ...row };
+  for (const column of UNVERSIONED_COLUMNS) delete data[column];
+
+  await trx(VERSIONS_TABLE).insert({
+    id: uuidv4(),
+    table_name: tableName,
+    row_id: rowId,
+    version: Number(latest?.version || 0) + 1,
+    operation,
+    data: JSON.stringify(data),
+    valid_from: now,
+    valid_to: null,
+  });
+}
+
 /**
  * Base type for all model entities
  */
@@ -78,7 +154,8 @@ export abstract class BaseModel<
     protected tableName: string,
     protected schema: ZodType<T, any, TBase>,
     protected db: Knex,
-    protected softDelete: boolean = true
+    protected softDelete: boolean = true,
+    protected versioned: boolean = false
   ) {}
 
   /**
@@ -112,9 +189,10 @@ export abstract class BaseModel<
       });
       
       const [result] = await tx(this.tableName)
-        .insert(validatedData)
+        .insert(this.toRow(validatedData))
         .returning('*');
       
+      await this.recordVersion(result, 'create', tx);
       return this.toEntity(result);
     };
 
@@ -131,6 +209,10 @@ export abstract class BaseModel<
       return result;
     } catch (error) {
       await trx.rollback();
+      // Checks made inside the transaction keep their own errors
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw error;
+      }
       throw new DatabaseError(
         'Transaction failed',
         error,
@@ -188,9 +270,10 @@ export abstract class BaseModel<
       
       const [result] = await tx(this.tableName)
         .where({ id })
-        .update(validatedData)
+        .update(this.toRow(validatedData))
         .returning('*');
       
+      await this.recordVersion(result, 'update', tx);
       return this.toEntity(result);
     };
 
@@ -212,6 +295,10 @@ export abstract class BaseModel<
           deleted_at: new Date().toISOString(),
           updated_at: new Date().toISOString() 
         });
+
+      if (result > 0 && this.versioned) {
+        await this.recordVersion(await tx(this.tableName).where({ id }).first(), 'delete', tx);
+      }
       return result > 0;
     };
 
@@ -223,13 +310,44 @@ export abstract class BaseModel<
    */
   async hardDeleteById(id: string, trx?: Knex.Transaction): Promise<boolean> {
     const deleteFn = async (tx: Knex.Transaction) => {
+      const existing = this.versioned ? await tx(this.tableName).where({ id }).first() : null;
       const count = await tx(this.tableName).where({ id }).del();
+
+      if (count > 0 && existing) {
+        await this.recordVersion(existing, 'delete', tx);
+      }
       return count > 0;
     };
 
     return trx ? deleteFn(trx) : this.withTransaction(deleteFn);
   }
 
+  /**
+   * Bring back a soft deleted record. Returns null if it was not deleted.
+   */
+  async restore(id: string, trx?: Knex.Transaction): Promise<T | null> {
+    if (!this.softDelete) {
+      throw new ValidationError(`${this.tableName} does not support soft delete`);
+    }
+
+    const restoreFn = async (tx: Knex.Transaction) => {
+      const count = await tx(this.tableName)
+        .where({ id })
+        .whereNotNull('deleted_at')
+        .update({
+          deleted_at: null,
+          updated_at: new Date().toISOString()
+        });
+      if (count === 0) return null;
+
+      const row = await tx(this.tableName).where({ id }).first();
+      await this.recordVersion(row, 'update', tx);
+      return this.toEntity(row);
+    };
+
+    return trx ? restoreFn(trx) : this.withTransaction(restoreFn);
+  }
+
   /**
    * Delete a record by ID (uses soft delete if enabled)
    */
@@ -305,6 +423,197 @@ export abstract class BaseModel<
     return result ? Number(result.count) : 0;
   }
 
+  /**
+   * Find records by ID in the order given. IDs without a row (or whose row
+   * is soft deleted) are skipped.
+   */
+  async findByIds(ids: string[], trx?: Knex.Transaction): Promise<T[]> {
+    if (ids.length === 0) return [];
+
+    const rows = await this.query(trx).whereIn('id', ids);
+    const rowsById = new Map(rows.map((row: any) => [String(row.id), row]));
+    return ids.flatMap(id => {
+      const row = rowsById.get(id);
+      return row ? [this.toEntity(row)] : [];
+    });
+  }
+
+  /**
+   * Turn vector store matches into entities, keeping the match order. Rows the
+   * store did not return are loaded in one query; matches whose row no longer
+   * exists (or is soft deleted) are dropped.
+   */
+  protected async hydrateMatches(
+    matches: VectorMatch[],
+    trx?: Knex.Transaction
+  ): Promise<Array<{ item: T; score: number }>> {
+    const missing = matches.filter(match => !match.record).map(match => match.id);
+    const rows = missing.length > 0 ? await this.query(trx).whereIn('id', missing) : [];
+    const rowsById = new Map(rows.map((row: any) => [String(row.id), row]));
+
+    return matches.flatMap(match => {
+      const row = match.record ?? rowsById.get(match.id);
+      return row ? [{ item: this.toEntity(row), score: match.score }] : [];
+    });
+  }
+
+  /**
+   * Serialize JSON fields for the database. SQLite cannot bind objects and
+   * node-postgres would send arrays as Postgres arrays rather than JSON.
+   */
+  protected toRow(data: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [
+      key,
+      value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : value,
+    ]));
+  }
+
+  /**
+   * Append a row's new state to its history and close the previous version.
+   * Does nothing for models that are not versioned.
+   */
+  protected async recordVersion(
+    row: Record<string, any> | undefined,
+    operation: RowOperation,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    if (this.versioned) await recordRowVersion(trx, this.tableName, row, operation);
+  }
+
+  /**
+   * Versions of this table's rows that were current at a point in time
+   */
+  private versionsAt(asOf: Date, trx?: Knex.Transaction) {
+    if (!this.versioned) {
+      throw new ValidationError(`${this.tableName} does not keep a version history`);
+    }
+
+    const timestamp = asOf.toISOString();
+    return (trx || this.db)(VERSIONS_TABLE)
+      .where('table_name', this.tableName)
+      .where('valid_from', '<=', timestamp)
+      .where(query => query.whereNull('valid_to').orWhere('valid_to', '>', timestamp));
+  }
+
+  private parseVersion(row: any): RowVersion<T> {
+    return {
+      version: Number(row.version),
+      operation: row.operation,
+      valid_from: new Date(row.valid_from).toISOString(),
+      valid_to: row.valid_to ? new Date(row.valid_to).toISOString() : null,
+      data: this.toEntity(typeof row.data === 'string' ? JSON.parse(row.data) : row.data),
+    };
+  }
+
+  /**
+   * Reconstruct a record as it was at a point in time. Returns null if the
+   * record did not exist yet or had been deleted.
+   */
+  async findByIdAsOf(id: string, asOf: Date, trx?: Knex.Transaction): Promise<T | null> {
+    const row = await this.versionsAt(asOf, trx).where('row_id', id).first();
+    return row && row.operation !== 'delete' ? this.parseVersion(row).data : null;
+  }
+
+  /**
+   * A field of a version's snapshot, as SQL. Postgres keeps snapshots as
+   * jsonb and SQLite as JSON text.
+   */
+  private versionField(key: string, asText = true): { sql: string; bindings: string[] } {
+    if (this.db.client.config.client === 'pg') {
+      return { sql: asText ? 'data ->> ?' : 'data -> ?', bindings: [key] };
+    }
+    return { sql: 'json_extract(data, ?)', bindings: [`$."${key}"`] };
+  }
+
+  /**
+   * A filter value as the snapshot field compares to it: text in Postgres,
+   * and 1 or 0 for booleans in SQLite
+   */
+  private versionValue(value: Knex.Value): Knex.Value {
+    if (this.db.client.config.client === 'pg') return String(value);
+    return typeof value === 'boolean' ? Number(value) : value;
+  }
+
+  /**
+   * Reconstruct the table as it was at a point in time, with equality filters
+   * (an array matches any of its values) applied to the historical state.
+   * Rows without the sort field come last.
+   */
+  async findAllAsOf(
+    asOf: Date,
+    filters: Record<string, any> = {},
+    options: PaginationOptions = {},
+    trx?: Knex.Transaction
+  ): Promise<PaginatedResult<T>> {
+    const {
+      page = 1,
+      pageSize = 20,
+      sortBy = 'created_at',
+      sortOrder = 'desc',
+    } = options;
+
+    const query = this.versionsAt(asOf, trx).whereNot('operation', 'delete');
+    for (const [key, value] of Object.entries(filters)) {
+      const field = this.versionField(key);
+      if (value === null || value === undefined) {
+        query.whereRaw(`${field.sql} is null`, field.bindings);
+      } else if (Array.isArray(value)) {
+        if (value.length === 0) {
+          query.whereRaw('1 = 0');
+          continue;
+        }
+        query.whereRaw(
+          `${field.sql} in (${value.map(() => '?').join(', ')})`,
+          [...field.bindings, ...value.map(item => this.versionValue(item))]
+        );
+      } else {
+        query.whereRaw(`${field.sql} = ?`, [...field.bindings, this.versionValue(value)]);
+      }
+    }
+
+    const countResult = await query.clone().count('* as count').first();
+    const totalItems = countResult ? Number(countResult.count) : 0;
+    const totalPages = Math.ceil(totalItems / pageSize);
+    const offset = (page - 1) * pageSize;
+
+    // Postgres orders jsonb values by type, so numbers sort as numbers
+    const sortText = this.versionField(sortBy);
+    const sortValue = this.versionField(sortBy, false);
+    const rows = await query
+      .orderByRaw(`(${sortText.sql}) is null`, sortText.bindings)
+      .orderByRaw(`${sortValue.sql} ${sortOrder === 'asc' ? 'asc' : 'desc'}`, sortValue.bindings)
+      .orderBy('row_id')
+      .offset(offset)
+      .limit(pageSize);
+
+    return {
+      data: rows.map(row => this.parseVersion(row).data),
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Every recorded version of a record, oldest first
+   */
+  async getVersions(id: string, trx?: Knex.Transaction): Promise<RowVersion<T>[]> {
+    if (!this.versioned) {
+      throw new ValidationError(`${this.tableName} does not keep a version history`);
+    }
+
+    const rows = await (trx || this.db)(VERSIONS_TABLE)
+      .where({ table_name: this.tableName, row_id: id })
+      .orderBy('version', 'asc');
+
+    return rows.map(row => this.parseVersion(row));
+  }
+
   /**
    * Convert a database record to the entity type
    */
@@ -0,0 +1,85 @@
+import { Knex } from 'knex';
+import { z, type ZodType } from 'zod';
+import { BaseModel } from './BaseModel';
+
+/**
+ * A stored screenshot, recording or attachment. The ID is the sha256 of the
+ * content, so uploading the same bytes again finds the same row.
+ */
+export const BlobSchema = z.object({
+  id: z.string().regex(/^[0-9a-f]{64}$/),
+  mime_type: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  width: z.number().int().nullable().optional(),
+  height: z.number().int().nullable().optional(),
+  thumbnail_id: z.string().nullable().optional(),
+  filename: z.string().max(255).nullable().optional(),
+  backend: z.enum(['fs', 's3']),
+  // Content sealed with the encryption key ring
+  encrypted: z.boolean().default(false),
+  created_at: z.date().or(z.string()).optional(),
+  updated_at: z.date().or(z.string()).optional(),
+});
+
+export type BlobRecord = z.infer<typeof BlobSchema>;
+export type BlobInput = Omit<BlobRecord, 'created_at' | 'updated_at'>;
+type BlobUpdate = Partial<Omit<BlobInput, 'id'>>;
+
+export class BlobModel extends BaseModel<BlobRecord, BlobInput, BlobUpdate> {
+  constructor(db: Knex) {
+    // Blobs are removed outright, there is no deleted_at column
+    super('blobs', BlobSchema as unknown as ZodType<BlobRecord>, db, false);
+  }
+
+  /**
+   * Record a stored blob. Unlike BaseModel.create, writes no deleted_at.
+   */
+  async create(data: BlobInput, trx?: Knex.Transaction): Promise<BlobRecord> {
+    const now = new Date().toISOString();
+    const [result] = await (trx || this.db)(this.tableName)
+      .insert(this.toRow(this.validate({ ...data, created_at: now, updated_at: now })))
+      .returning('*');
+    return this.toEntity(result);
+  }
+
+  /**
+   * Record that `owner`, such as `email:<message id>`, holds the blob. Events
+   * hold theirs through events.blob_id instead.
+   */
+  async addReference(id: string, owner: string): Promise<void> {
+    await this.db('blob_references').insert({ blob_id: id, owner }).onConflict(['blob_id', 'owner']).ignore();
+  }
+
+  /**
+   * Drop `owner`'s hold on the blob, or every hold when no owner is given.
+   * Returns how many were dropped.
+   */
+  async removeReference(id: string, owner?: string): Promise<number> {
+    return this.db('blob_references').where({ blob_id: id, ...(owner ? { owner } : {}) }).del();
+  }
+
+  /**
+   * Those of `ids` no event or other owner holds. Content is shared by every
+   * event and attachment with the same bytes, so a blob is in use while any
+   * of them remains.
+   */
+  async unreferenced(ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+    const kept = new Set([
+      ...await this.db('events').whereIn('blob_id', ids).pluck('blob_id'),
+      ...await this.db('blob_references').whereIn('blob_id', ids).pluck('blob_id'),
+    ]);
+    return Array.from(new Set(ids)).filter(id => !kept.has(id));
+  }
+
+  protected toEntity(data: any): BlobRecord {
+    return {
+      ...data,
+      // SQLite returns booleans as 0/1 and Postgres bigints as strings
+      size: Number(data.size),
+      encrypted: Boolean(data.encrypted),
+    };
+  }
+}
+
+export default BlobModel;
@@ -0,0 +1,435 @@
+import { Knex } from 'knex';
+import { z, type ZodType } from 'zod';
+import { BaseModel, NotFoundError, ValidationError } from './BaseModel';
+import { keywordTerms } from '../db/search/keywordIndex';
+
+export const CommitmentStatus = z.enum([
+  'open',
+  'fulfilled',
+  'cancelled',
+]);
+
+// Which side of a commitment the user is on, if either
+export const CommitmentUserRole = z.enum([
+  'debtor',
+  'creditor',
+]);
+
+export type CommitmentStatus = z.infer<typeof CommitmentStatus>;
+export type CommitmentUserRole = z.infer<typeof CommitmentUserRole>;
+
+export const CommitmentSchema = z.object({
+  id: z.string().uuid().optional(),
+  statement_text: z.string().min(1),
+  deliverable: z.string().min(1),
+  debtor_entity_id: z.string().uuid().nullable().optional(),
+  debtor_name: z.string().nullable().optional(),
+  creditor_entity_id: z.string().uuid().nullable().optional(),
+  creditor_name: z.string().nullable().optional(),
+  user_role: CommitmentUserRole.nullable().optional(),
+  due_date: z.string().or(z.date()).nullable().optional(),
+  status: CommitmentStatus.default('open'),
+  source_event_id: z.string().uuid().nullable().optional(),
+  confidence: z.number().min(0).max(1).default(1),
+  fulfilled_at: z.string().or(z.date()).nullable().optional(),
+  fulfilled_by_event_id: z.string().uuid().nullable().optional(),
+  fulfilment_evidence: z.record(z.unknown()).nullable().optional(),
+  metadata: z.record(z.unknown()).default({}),
+  created_at: z.date().or(z.string()).optional(),
+  updated_at: z.date().or(z.string()).optional(),
+  deleted_at: z.date().or(z.string()).nullable().optional(),
+});
+
+export type Commitment = z.infer<typeof CommitmentSchema>;
+export type CommitmentInput = Omit<Commitment, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+type CommitmentUpdate = Partial<CommitmentInput>;
+
+export interface CommitmentAssertion {
+  statement_text: string;
+  deliverable?: string | null;
+  debtor_entity_id?: string | null;
+  debtor_name?: string | null;
+  creditor_entity_id?: string | null;
+  creditor_name?: string | null;
+  user_role?: CommitmentUserRole | null;
+  due_date?: string | Date | null;
+  source_event_id?: string | null;
+  confidence?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CommitmentAssertionResult {
+  commitment: Commitment;
+  /** True when the assertion matched an open commitment already on record */
+  duplicate: boolean;
+}
+
+/**
+ * Why a commitment was marked fulfilled
+ */
+export interface FulfilmentEvidence {
+  event_id?: string | null;
+  /** Share of the deliverable's terms found in the evidence, 0 to 1 */
+  score?: number;
+  matched_terms?: string[];
+  /** extraction: the event was said to keep a promise; event: its text matched; manual: set through the API */
+  source: 'extraction' | 'event' | 'manual';
+  /** For `event`: how the event handed the deliverable over */
+  delivery?: EventDelivery;
+  note?: string;
+}
+
+/**
+ * An event a commitment may be kept by
+ */
+export interface MatchableEvent {
+  id: string;
+  title?: string | null;
+  description?: string | null;
+  start_time?: string | Date | null;
+  blob_id?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+export type EventDelivery = 'attachment' | 'reply';
+
+export interface CommitmentsForEntity {
+  /** What the entity promised the user */
+  owed_to_me: Commitment[];
+  /** What the user promised the entity */
+  i_owe: Commitment[];
+}
+
+// Share of a deliverable's terms an event must contain to fulfil it
+export const FULFILMENT_THRESHOLD = 0.75;
+
+// Overlap of deliverable terms above which an assertion repeats an open commitment
+export const DUPLICATE_THRESHOLD = 0.6;
+
+// Names extraction uses for the user
+const USER_REFERENCES = new Set(['me', 'i', 'myself', 'user', 'the user']);
+
+/**
+ * Whether an extracted party name refers to the user
+ */
+export function isUserReference(name?: string | null): boolean {
+  return USER_REFERENCES.has((name || '').trim().toLowerCase());
+}
+
+/**
+ * Share of the deliverable's terms that appear in the text, with the terms
+ * found
+ */
+export function fulfilmentScore(deliverable: string, text: string): { score: number; matched: string[] } {
+  const wanted = keywordTerms(deliverable);
+  if (wanted.length === 0) return { score: 0, matched: [] };
+
+  const present = new Set(keywordTerms(text));
+  const matched = wanted.filter(term => present.has(term));
+  return { score: matched.length / wanted.length, matched };
+}
+
+/**
+ * How an event hands something over, if it does: it carries a file, or it
+ * answers an earlier message. An event that only mentions the deliverable
+ * does neither.
+ */
+export function deliveryOf(event: MatchableEvent): EventDelivery | null {
+  const metadata = event.metadata ?? {};
+  if (event.blob_id || (Array.isArray(metadata.attachments) && metadata.attachments.length > 0)) {
+    return 'attachment';
+  }
+  if (metadata.in_reply_to || /^\s*re:/i.test(event.title || '')) {
+    return 'reply';
+  }
+  return null;
+}
+
+function termOverlap(a: string, b: string): number {
+  const left = new Set(keywordTerms(a));
+  const right = new Set(keywordTerms(b));
+  if (left.size === 0 || right.size === 0) return 0;
+
+  const shared = Array.from(left).filter(term => right.has(term)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+// Unparseable due dates are dropped rather than failing the commitment
+function toIso(value?: string | Date | null): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function normalizeName(name?: string | null): string {
+  return (name || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+type Party = 'debtor' | 'creditor';
+
+/**
+ * Two records name the same party when both are the user, share an entity,
+ * or (without entities) share a name
+ */
+function sameParty(a: CommitmentAssertion | Commitment, b: CommitmentAssertion | Commitment, party: Party): boolean {
+  if ((a.user_role === party) !== (b.user_role === party)) return false;
+  if (a.user_role === party) return true;
+
+  const aId = a[`${party}_entity_id`];
+  const bId = b[`${party}_entity_id`];
+  if (aId || bId) return aId === bId;
+  return normalizeName(a[`${party}_name`]) === normalizeName(b[`${party}_name`]);
+}
+
+export class CommitmentModel extends BaseModel<Commitment, CommitmentInput, CommitmentUpdate> {
+  constructor(db: Knex) {
+    super('commitments', CommitmentSchema as unknown as ZodType<Commitment>, db, true, true);
+  }
+
+  /**
+   * Record a commitment, or refresh the open one it repeats: same parties
+   * and a deliverable of mostly the same terms
+   */
+  async assert(data: CommitmentAssertion, trx?: Knex.Transaction): Promise<CommitmentAssertionResult> {
+    if (data.user_role !== 'debtor' && !data.debtor_entity_id && !data.debtor_name) {
+      throw new ValidationError('A commitment needs a debtor');
+    }
+    const deliverable = data.deliverable?.trim() || data.statement_text;
+
+    const assertFn = async (tx: Knex.Transaction): Promise<CommitmentAssertionResult> => {
+      const open = await this.query(tx).where({ status: 'open' }).andWhere(builder => {
+        if (data.user_role) builder.where('user_role', data.user_role);
+        else builder.whereNull('user_role');
+      });
+      const existing = open
+        .map(row => this.toEntity(row))
+        .find(commitment =>
+          sameParty(data, commitment, 'debtor') &&
+          sameParty(data, commitment, 'creditor') &&
+          termOverlap(deliverable, commitment.deliverable) >= DUPLICATE_THRESHOLD);
+
+      if (existing?.id) {
+        const seenIn = Array.isArray(existing.metadata?.seen_in) ? existing.metadata.seen_in as string[] : [];
+        const commitment = await this.update(existing.id, {
+          confidence: Math.max(existing.confidence ?? 0, data.confidence ?? 0),
+          due_date: existing.due_date ?? toIso(data.due_date),
+          metadata: {
+            ...existing.metadata,
+            seen_in: data.source_event_id ? Array.from(new Set([...seenIn, data.source_event_id])) : seenIn,
+          },
+        }, tx);
+        return { commitment: commitment as Commitment, duplicate: true };
+      }
+
+      const commitment = await this.create({
+        statement_text: data.statement_text,
+        deliverable,
+        debtor_entity_id: data.debtor_entity_id ?? null,
+        debtor_name: data.debtor_name ?? null,
+        creditor_entity_id: data.creditor_entity_id ?? null,
+        creditor_name: data.creditor_name ?? null,
+        user_role: data.user_role ?? null,
+        due_date: toIso(data.due_date),
+        status: 'open',
+        source_event_id: data.source_event_id ?? null,
+        confidence: data.confidence ?? 1,
+        metadata: data.metadata || {},
+      }, tx);
+      return { commitment, duplicate: false };
+    };
+
+    return trx ? assertFn(trx) : this.withTransaction(assertFn);
+  }
+
+  /**
+   * Mark a commitment fulfilled, keeping the evidence
+   */
+  async fulfill(
+    id: string,
+    evidence: FulfilmentEvidence,
+    fulfilledAt: Date = new Date(),
+    trx?: Knex.Transaction
+  ): Promise<Commitment> {
+    const commitment = await this.update(id, {
+      status: 'fulfilled',
+      fulfilled_at: fulfilledAt.toISOString(),
+      fulfilled_by_event_id: evidence.event_id ?? null,
+      fulfilment_evidence: { ...evidence },
+    }, trx);
+
+    if (!commitment) {
+      throw new NotFoundError(`Commitment ${id} not found`);
+    }
+    return commitment;
+  }
+
+  /**
+   * Set a commitment's status by hand. Reopening clears its fulfilment.
+   */
+  async setStatus(id: string, status: CommitmentStatus, trx?: Knex.Transaction): Promise<Commitment> {
+    if (status === 'fulfilled') {
+      return this.fulfill(id, { source: 'manual' }, new Date(), trx);
+    }
+
+    const commitment = await this.update(id, {
+      status,
+      ...(status === 'open' && { fulfilled_at: null, fulfilled_by_event_id: null, fulfilment_evidence: null }),
+    }, trx);
+    if (!commitment) {
+      throw new NotFoundError(`Commitment ${id} not found`);
+    }
+    return commitment;
+  }
+
+  /**
+   * Fulfil the open commitments an event keeps. `entityIds` are the event's
+   * senders and participants, and a commitment is only considered when its
+   * debtor is among them (or the user is the debtor and the creditor is).
+   * With `claims` (the promises extraction says the event keeps)
+   * deliverables are matched against those alone. Otherwise the event must
+   * hand something over, as an attachment or a reply, and they are matched
+   * against its title and description.
+   */
+  async matchEvent(
+    event: MatchableEvent,
+    entityIds: string[],
+    options: { claims?: string[] } = {},
+    trx?: Knex.Transaction
+  ): Promise<Commitment[]> {
+    if (entityIds.length === 0) return [];
+
+    const claimed = options.claims !== undefined;
+    const delivery = claimed ? null : deliveryOf(event);
+    if (!claimed && !delivery) return [];
+
+    const text = claimed
+      ? options.claims!.join('\n')
+      : `${event.title || ''}\n${event.description || ''}`;
+    if (!text.trim()) return [];
+
+    const candidates = await this.query(trx)
+      .where({ status: 'open' })
+      .andWhere(builder => builder
+        .whereIn('debtor_entity_id', entityIds)
+        .orWhere(userOwes => userOwes
+          .where('user_role', 'debtor')
+          .whereIn('creditor_entity_id', entityIds)))
+      .andWhere(builder => builder
+        .whereNull('source_event_id')
+        .orWhereNot('source_event_id', event.id));
+
+    const fulfilledAt = event.start_time ? new Date(event.start_time) : new Date();
+    const fulfilled: Commitment[] = [];
+    for (const row of candidates) {
+      const commitment = this.toEntity(row);
+      const { score, matched } = fulfilmentScore(commitment.deliverable, text);
+      if (score < FULFILMENT_THRESHOLD) continue;
+
+      fulfilled.push(await this.fulfill(commitment.id as string, {
+        event_id: event.id,
+        score: Math.round(score * 1000) / 1000,
+        matched_terms: matched,
+        source: claimed ? 'extraction' : 'event',
+        ...(delivery && { delivery }),
+      }, fulfilledAt, trx));
+    }
+    return fulfilled;
+  }
+
+  /**
+   * What an entity promised the user and what the user promised it,
+   * soonest due first
+   */
+  async findForEntity(
+    entityId: string,
+    options: { status?: CommitmentStatus } = {},
+    trx?: Knex.Transaction
+  ): Promise<CommitmentsForEntity> {
+    const [owedToMe, iOwe] = await Promise.all([
+      this.findByParty({ user_role: 'creditor', debtor_entity_id: entityId }, options.status ?? 'open', trx),
+      this.findByParty({ user_role: 'debtor', creditor_entity_id: entityId }, options.status ?? 'open', trx),
+    ]);
+    return { owed_to_me: owedToMe, i_owe: iOwe };
+  }
+
+  /**
+   * Commitments that came from any of the given events
+   */
+  async findByEvents(eventIds: string[], trx?: Knex.Transaction): Promise<Commitment[]> {
+    if (eventIds.length === 0) return [];
+
+    const results = await this.query(trx)
+      .whereIn('source_event_id', eventIds)
+      .orderBy('created_at', 'asc');
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * List commitments, soonest due first. `role` picks those owed to the user
+   * or by the user; `entityId` those with the entity on either side.
+   */
+  async list(
+    options: {
+      status?: CommitmentStatus;
+      role?: 'owed_to_me' | 'i_owe';
+      entityId?: string;
+      limit?: number;
+      offset?: number;
+    } = {},
+    trx?: Knex.Transaction
+  ): Promise<Commitment[]> {
+    const query = this.query(trx);
+
+    if (options.status) query.where('status', options.status);
+    if (options.role) query.where('user_role', options.role === 'owed_to_me' ? 'creditor' : 'debtor');
+    if (options.entityId) {
+      query.andWhere(builder => builder
+        .where('debtor_entity_id', options.entityId)
+        .orWhere('creditor_entity_id', options.entityId));
+    }
+
+    const results = await query
+      .orderByRaw('due_date is null')
+      .orderBy('due_date', 'asc')
+      .orderBy('created_at', 'desc')
+      .offset(options.offset || 0)
+      .limit(options.limit || 50);
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  private async findByParty(
+    filters: Record<string, string>,
+    status: CommitmentStatus,
+    trx?: Knex.Transaction
+  ): Promise<Commitment[]> {
+    const results = await this.query(trx)
+      .where({ ...filters, status })
+      .orderByRaw('due_date is null')
+      .orderBy('due_date', 'asc')
+      .orderBy('created_at', 'desc');
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Convert a database record to the entity type
+   */
+  protected toEntity(data: any): Commitment {
+    // SQLite returns JSON columns as text
+    const parse = (value: unknown, fallback: unknown) =>
+      typeof value === 'string' ? JSON.parse(value || JSON.stringify(fallback)) : value ?? fallback;
+
+    return {
+      ...data,
+      confidence: data.confidence !== null && data.confidence !== undefined
+        ? Number(data.confidence)
+        : 1,
+      fulfilment_evidence: parse(data.fulfilment_evidence, null),
+      metadata: parse(data.metadata, {}),
+    };
+  }
+}
+
+export default CommitmentModel;
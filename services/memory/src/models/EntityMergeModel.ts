@@ -0,0 +1,85 @@
+import { Knex } from 'knex';
+import { z, type ZodType } from 'zod';
+import { BaseModel } from './BaseModel';
+
+export const MergeMethod = z.enum([
+  'auto',
+  'review',
+  'manual',
+]);
+
+export type MergeMethod = z.infer<typeof MergeMethod>;
+
+/**
+ * Everything a merge moved from the merged entity to the primary one, so
+ * the merge can be undone without touching rows changed since
+ */
+export const MergeChangesSchema = z.object({
+  moved_alias_ids: z.array(z.string()).default([]),
+  created_alias_ids: z.array(z.string()).default([]),
+  assigned_task_ids: z.array(z.string()).default([]),
+  related_task_ids: z.array(z.string()).default([]),
+  fact_ids: z.array(z.string()).default([]),
+  debtor_commitment_ids: z.array(z.string()).default([]),
+  creditor_commitment_ids: z.array(z.string()).default([]),
+  /** entity_interactions rows as they were before the merge */
+  interactions: z.array(z.record(z.unknown())).default([]),
+  events: z.array(z.object({
+    id: z.string(),
+    participants: z.array(z.record(z.unknown())),
+  })).default([]),
+});
+
+export type MergeChanges = z.infer<typeof MergeChangesSchema>;
+
+export const EntityMergeSchema = z.object({
+  id: z.string().uuid().optional(),
+  primary_id: z.string().uuid(),
+  merged_id: z.string().uuid(),
+  method: MergeMethod,
+  confidence: z.number().min(0).max(1).nullable().optional(),
+  changes: MergeChangesSchema,
+  reverted_at: z.date().or(z.string()).nullable().optional(),
+  created_at: z.date().or(z.string()).optional(),
+  updated_at: z.date().or(z.string()).optional(),
+  deleted_at: z.date().or(z.string()).nullable().optional(),
+});
+
+export type EntityMerge = z.infer<typeof EntityMergeSchema>;
+export type EntityMergeInput = Omit<EntityMerge, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+type EntityMergeUpdate = Partial<EntityMergeInput>;
+
+export class EntityMergeModel extends BaseModel<EntityMerge, EntityMergeInput, EntityMergeUpdate> {
+  constructor(db: Knex) {
+    super('entity_merges', EntityMergeSchema as unknown as ZodType<EntityMerge>, db, true);
+  }
+
+  /**
+   * Merges into or out of an entity that have not been undone, newest first
+   */
+  async findActiveFor(entityId: string, trx?: Knex.Transaction): Promise<EntityMerge[]> {
+    const results = await this.query(trx)
+      .where(query => query.where('primary_id', entityId).orWhere('merged_id', entityId))
+      .whereNull('reverted_at')
+      .orderBy('created_at', 'desc');
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Convert a database record to the entity type
+   */
+  protected toEntity(data: any): EntityMerge {
+    return {
+      ...data,
+      confidence: data.confidence !== null && data.confidence !== undefined
+        ? Number(data.confidence)
+        : null,
+      changes: MergeChangesSchema.parse(typeof data.changes === 'string'
+        ? JSON.parse(data.changes || '{}')
+        : data.changes || {}),
+    };
+  }
+}
+
+export default EntityMergeModel;
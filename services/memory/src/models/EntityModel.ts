@@ -1,9 +1,11 @@
 import { Knex } from 'knex';
 import { z } from 'zod';
-import { Session, Transaction } from 'neo4j-driver';
 import { v4 as uuidv4 } from 'uuid';
-import { BaseModel, PaginationOptions, PaginatedResult, DatabaseError, ValidationError } from './BaseModel';
+import { BaseModel, PaginationOptions, PaginatedResult, DatabaseError, ValidationError, VerificationStatus } from './BaseModel';
 import { getEmbeddingFunction } from '../db/vector/chroma';
+import type { EmbeddingProvider } from '../db/vector/embeddings';
+import type { GraphStore } from '../db/graph/store';
+import type { VectorStore } from '../db/vector/store';
 
 // Types for entity relationships
 export const RelationshipType = z.enum([
@@ -14,6 +16,7 @@ export const RelationshipType = z.enum([
   'attended',
   'authored',
   'mentions',
+  'introduced',
   'custom'
 ]);
 
@@ -65,16 +68,22 @@ const BaseEntitySchema = z.object({
   id: z.string().uuid().optional(),
   name: z.string().min(1),
   type: EntityType,
-  description: z.string().optional(),
+  description: z.string().nullable().optional(),
   metadata: z.record(z.unknown()).optional(),
   created_at: z.date().or(z.string()).optional(),
   updated_at: z.date().or(z.string()).optional(),
   deleted_at: z.date().or(z.string()).nullable().optional(),
-  last_seen_at: z.date().or(z.string()).optional(),
+  last_seen_at: z.date().or(z.string()).nullable().optional(),
   embedding: z.array(z.number()).optional(),
+  embedding_model: z.string().nullable().optional(),
+  merged_into: z.string().uuid().nullable().optional(),
+  verification_status: VerificationStatus.optional(),
+  // Maintained by the relationship engine
+  relationship_strength: z.number().optional(),
+  last_interaction_at: z.date().or(z.string()).nullable().optional(),
 });
 
-type BaseEntity = z.infer<typeof BaseEntitySchema>;
+export type BaseEntity = z.infer<typeof BaseEntitySchema>;
 
 export const EntitySchema = BaseEntitySchema.extend({
   metadata: z.record(z.unknown()).default({}),
@@ -85,22 +94,79 @@ export const EntitySchema = BaseEntitySchema.extend({
 
 export type Entity = z.infer<typeof EntitySchema>;
 
-type EntityInput = Omit<BaseEntity, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
-type EntityUpdate = Partial<Omit<BaseEntity, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>>;
+type DerivedFields = 'merged_into' | 'relationship_strength' | 'last_interaction_at';
+type EntityInput = Omit<BaseEntity, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | DerivedFields>;
+type EntityUpdate = Partial<Omit<BaseEntity, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | DerivedFields>>;
+
+export const AliasType = z.enum([
+  'name',
+  'email',
+  'handle',
+]);
+
+export type AliasType = z.infer<typeof AliasType>;
+
+export type AliasSource = 'manual' | 'resolution' | 'merge';
+
+export interface EntityAlias {
+  id: string;
+  entity_id: string;
+  alias_type: AliasType;
+  value: string;
+  normalized: string;
+  source: AliasSource;
+  created_at?: Date | string;
+}
+
+const ALIASES_TABLE = 'entity_aliases';
+// Longest merged_into chain followed before giving up
+const MAX_MERGE_DEPTH = 10;
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'sir']);
+
+/**
+ * Normalize a person or organization name for comparison: no accents,
+ * punctuation or honorifics, lower case, single spaces
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !HONORIFICS.has(token))
+    .join(' ');
+}
+
+/**
+ * Normalize an alias value so lookups ignore case and decoration
+ * ("mailto:", a leading "@")
+ */
+export function normalizeAlias(type: AliasType, value: string): string {
+  const trimmed = value.trim();
+  switch (type) {
+    case 'email':
+      return trimmed.toLowerCase().replace(/^mailto:/, '');
+    case 'handle':
+      return trimmed.toLowerCase().replace(/^@+/, '');
+    default:
+      return normalizeName(trimmed);
+  }
+}
 
 export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate> {
-  private neo4jSession: Session;
-  private collection: any;
-  private embeddingFunction: any;
+  private graphStore: GraphStore;
+  private vectorStore: VectorStore;
+  private embeddingFunction: EmbeddingProvider;
   private readonly SIMILARITY_THRESHOLD = 0.85;
   private readonly DEDUPE_SIMILARITY_THRESHOLD = 0.9;
   private readonly FUZZY_SEARCH_MIN_LENGTH = 3;
   private readonly FUZZY_SEARCH_MAX_DISTANCE = 2;
 
-  constructor(db: Knex, neo4jSession: Session, collection: any) {
-    super('entities', BaseEntitySchema, db, true);
-    this.neo4jSession = neo4jSession;
-    this.collection = collection;
+  constructor(db: Knex, graphStore: GraphStore, vectorStore: VectorStore) {
+    super('entities', BaseEntitySchema, db, true, true);
+    this.graphStore = graphStore;
+    this.vectorStore = vectorStore;
     this.embeddingFunction = getEmbeddingFunction();
   }
 
@@ -131,21 +197,23 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
       const validatedData = this.validate({
         ...entityData,
         embedding,
+        embedding_model: this.embeddingFunction.id,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         deleted_at: null,
       });
 
-      // Stringify embedding for DB insertion
-      const dbData = {
+      // Stringify embedding and metadata for DB insertion
+      const dbData = this.toRow({
         ...validatedData,
-        embedding: JSON.stringify(embedding) as any,
-      };
+        embedding,
+      });
 
       const [result] = await tx(this.tableName)
         .insert(dbData)
         .returning('*');
 
+      await this.recordVersion(result, 'create', tx);
       const entity = this.toEntity(result);
 
       if (!entity?.id) {
@@ -153,32 +221,22 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
       }
 
       try {
-        await this.collection.add(
-          [entity.id],
-          [embedding],
-          [{
+        await this.vectorStore.upsert('entities', [{
+          id: entity.id,
+          embedding,
+          metadata: { name: entity.name, type: entity.type },
+          document: textToEmbed,
+        }]);
+
+        await this.graphStore.upsertNode({
+          label: 'Entity',
+          id: entity.id,
+          properties: {
             name: entity.name,
             type: entity.type,
-            ...(entity.metadata || {}),
-          }],
-          [textToEmbed]
-        );
-
-        await this.neo4jSession.writeTransaction((neo4jTx: Transaction) =>
-          neo4jTx.run(
-            `CREATE (e:Entity {
-              id: $id,
-              name: $name,
-              type: $type,
-              createdAt: datetime()
-            })`,
-            {
-              id: entity.id,
-              name: entity.name,
-              type: entity.type,
-            }
-          )
-        );
+            createdAt: new Date().toISOString(),
+          },
+        }, tx);
 
         return entity;
       } catch (error) {
@@ -200,21 +258,179 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
 
     try {
       const result = await this.embeddingFunction.generate([text]);
-      if (!result || !result.embeddings || !result.embeddings[0]) {
+      if (!result || !result[0]) {
         console.warn('Embedding service returned no result for text:', text.substring(0, 50));
-        return new Array(1536).fill(0); // Return zero vector as fallback
+        return new Array(this.embeddingFunction.dimensions).fill(0); // Return zero vector as fallback
       }
-      return result.embeddings[0] as number[];
+      return Array.from(result[0]);
     } catch (error) {
       console.error('Failed to generate embedding:', error);
-      return new Array(1536).fill(0); // Return zero vector on error to allow processing to continue
+      return new Array(this.embeddingFunction.dimensions).fill(0); // Return zero vector on error to allow processing to continue
     }
   }
 
+  /**
+   * Find the entities closest to an embedding, optionally of one type
+   */
+  async searchSimilar(
+    embedding: number[],
+    options: { limit: number; type?: EntityType }
+  ): Promise<Array<{ entity: BaseEntity; score: number }>> {
+    const matches = await this.vectorStore.query('entities', {
+      embedding,
+      limit: options.limit,
+      filter: options.type && { equals: { type: options.type } },
+    });
+
+    const hydrated = await this.hydrateMatches(matches);
+    return hydrated.map(({ item, score }) => ({ entity: item, score }));
+  }
+
+  /**
+   * Find an entity by exact name, ignoring case
+   */
+  async findByName(name: string, type?: EntityType): Promise<BaseEntity | null> {
+    const query = this.query().whereRaw('lower(name) = ?', [name.trim().toLowerCase()]);
+    if (type) query.andWhere('type', type);
+
+    const result = await query.orderBy('created_at', 'asc').first();
+    return result ? this.toEntity(result) : null;
+  }
+
+  /**
+   * Follow merged_into links from an entity ID to the entity that absorbed
+   * it. Returns the entity itself if it was never merged, or null if it does
+   * not exist or was deleted outright.
+   */
+  async findCanonical(id: string, trx?: Knex.Transaction): Promise<BaseEntity | null> {
+    let currentId = id;
+
+    for (let depth = 0; depth < MAX_MERGE_DEPTH; depth++) {
+      const row = await (trx || this.db)(this.tableName).where({ id: currentId }).first();
+      if (!row) return null;
+      if (!row.deleted_at) return this.toEntity(row);
+      if (!row.merged_into) return null;
+      currentId = row.merged_into;
+    }
+
+    return null;
+  }
+
+  /**
+   * Soft delete an entity that was merged into another one
+   */
+  async markMerged(id: string, primaryId: string, trx: Knex.Transaction): Promise<void> {
+    const now = new Date().toISOString();
+    await trx(this.tableName)
+      .where({ id })
+      .update({ merged_into: primaryId, deleted_at: now, updated_at: now });
+
+    await this.recordVersion(await trx(this.tableName).where({ id }).first(), 'delete', trx);
+  }
+
+  /**
+   * Bring back an entity whose merge was undone
+   */
+  async unmarkMerged(id: string, trx: Knex.Transaction): Promise<BaseEntity | null> {
+    await trx(this.tableName).where({ id }).update({ merged_into: null });
+    return this.restore(id, trx);
+  }
+
+  /**
+   * Attach an alias to an entity. Adding an alias the entity already has
+   * returns the existing one.
+   */
+  async addAlias(
+    entityId: string,
+    type: AliasType,
+    value: string,
+    source: AliasSource = 'manual',
+    trx?: Knex.Transaction
+  ): Promise<EntityAlias> {
+    const normalized = normalizeAlias(type, value);
+    if (!normalized) {
+      throw new ValidationError(`Alias value "${value}" is empty after normalization`);
+    }
+
+    const db = trx || this.db;
+    const existing = await db(ALIASES_TABLE)
+      .where({ entity_id: entityId, alias_type: type, normalized })
+      .whereNull('deleted_at')
+      .first();
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    const [alias] = await db(ALIASES_TABLE)
+      .insert({
+        id: uuidv4(),
+        entity_id: entityId,
+        alias_type: type,
+        value: value.trim(),
+        normalized,
+        source,
+        created_at: now,
+        updated_at: now,
+      })
+      .returning('*');
+
+    return alias;
+  }
+
+  /**
+   * Aliases of an entity, oldest first
+   */
+  async getAliases(entityId: string, trx?: Knex.Transaction): Promise<EntityAlias[]> {
+    return (trx || this.db)(ALIASES_TABLE)
+      .where({ entity_id: entityId })
+      .whereNull('deleted_at')
+      .orderBy('created_at', 'asc');
+  }
+
+  /**
+   * Remove an alias from an entity. Returns false if it had no such alias.
+   */
+  async removeAlias(entityId: string, aliasId: string, trx?: Knex.Transaction): Promise<boolean> {
+    const count = await (trx || this.db)(ALIASES_TABLE)
+      .where({ id: aliasId, entity_id: entityId })
+      .del();
+    return count > 0;
+  }
+
+  /**
+   * Find the active entities carrying an alias, oldest first
+   */
+  async findByAlias(type: AliasType, value: string, entityType?: EntityType): Promise<BaseEntity[]> {
+    const normalized = normalizeAlias(type, value);
+    if (!normalized) return [];
+
+    const query = this.query()
+      .whereIn('id', this.db(ALIASES_TABLE)
+        .select('entity_id')
+        .where({ alias_type: type, normalized })
+        .whereNull('deleted_at'));
+    if (entityType) query.andWhere('type', entityType);
+
+    const results = await query.orderBy('created_at', 'asc');
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Find entities whose name contains a word, for candidate generation
+   */
+  async findByNameToken(token: string, options: { type?: EntityType; limit?: number } = {}): Promise<BaseEntity[]> {
+    if (!token) return [];
+
+    const query = this.query().whereRaw('lower(name) like ?', [`%${token.toLowerCase()}%`]);
+    if (options.type) query.andWhere('type', options.type);
+
+    const results = await query.orderBy('created_at', 'asc').limit(options.limit || 20);
+    return results.map(result => this.toEntity(result));
+  }
+
   /**
    * Find potential duplicate entities
    */
-  private async findPotentialDuplicates(
+  async findPotentialDuplicates(
     name: string,
     type?: EntityType,
     threshold: number = this.SIMILARITY_THRESHOLD
@@ -223,33 +439,11 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
 
     try {
       const embedding = await this.generateEmbedding(name);
+      const matches = await this.searchSimilar(embedding, { limit: 5, type });
 
-      const queryOptions: any = {
-        queryEmbeddings: [embedding],
-        nResults: 5,
-        include: ['metadatas', 'documents', 'distances'],
-      };
-
-      if (type) {
-        queryOptions.where = { type };
-      }
-
-      const results = await this.collection.query(queryOptions);
-
-      if (!results.matches || !results.matches[0]) return [];
-
-      return results.matches[0]
-        .filter((match: any) => match?.score >= threshold)
-        .map((match: any) => ({
-          id: String(match?.id || ''),
-          name: String(match?.metadata?.name || ''),
-          type: match?.metadata?.type as EntityType,
-          description: match?.metadata?.description as string | undefined,
-          metadata: match?.metadata?.metadata || {},
-          created_at: match?.metadata?.created_at,
-          updated_at: match?.metadata?.updated_at,
-          last_seen_at: match?.metadata?.last_seen_at,
-        }));
+      return matches
+        .filter(match => match.score >= threshold)
+        .map(match => match.entity);
     } catch (error) {
       console.error('Error finding potential duplicates:', error);
       return [];
@@ -273,50 +467,28 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
     const relationshipId = uuidv4();
     const now = new Date().toISOString();
 
-    const createFn = async (tx: Knex.Transaction): Promise<EntityRelationship> => {
-      const [relationship] = await tx('entity_relationships')
-        .insert({
-          id: relationshipId,
-          source_id: sourceId,
-          target_id: targetId,
-          type,
-          metadata: JSON.stringify(metadata),
-          created_at: now,
-          updated_at: now,
-        })
-        .returning('*');
-
-      await this.neo4jSession.writeTransaction((neo4jTx: Transaction) =>
-        neo4jTx.run(
-          `MATCH (a:Entity {id: $sourceId}), (b:Entity {id: $targetId})
-           MERGE (a)-[r:${type} {id: $id}]->(b)
-           SET r.metadata = $metadata,
-               r.created_at = $createdAt,
-               r.updated_at = $updatedAt
-           RETURN r`,
-          {
-            sourceId,
-            targetId,
-            id: relationshipId,
-            metadata: JSON.stringify(metadata),
-            createdAt: now,
-            updatedAt: now,
-          }
-        )
-      );
-
-      return {
-        id: relationshipId,
-        sourceId,
-        targetId,
-        type,
-        metadata,
+    // Metadata is stored as a JSON string, Neo4j properties cannot be maps
+    await this.graphStore.mergeEdges([{
+      id: relationshipId,
+      type,
+      from: { label: 'Entity', id: sourceId },
+      to: { label: 'Entity', id: targetId },
+      properties: {
+        metadata: JSON.stringify(metadata),
         created_at: now,
         updated_at: now,
-      };
-    };
+      },
+    }], trx);
 
-    return trx ? createFn(trx) : this.withTransaction(createFn);
+    return {
+      id: relationshipId,
+      sourceId,
+      targetId,
+      type,
+      metadata,
+      created_at: now,
+      updated_at: now,
+    };
   }
 
   /**
@@ -324,33 +496,26 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
    */
   async getRelationships(
     entityId: string,
-    options: { type?: RelationshipType; direction?: 'incoming' | 'outgoing' | 'both' } = {}
+    options: { type?: RelationshipType; direction?: 'incoming' | 'outgoing' | 'both' } = {},
+    trx?: Knex.Transaction
   ): Promise<EntityRelationship[]> {
     if (!entityId) return [];
 
     const { type, direction = 'both' } = options;
 
-    let directionClause = '';
-    if (direction === 'incoming') directionClause = '<-';
-    else if (direction === 'outgoing') directionClause = '->';
-    else directionClause = '-';
-
-    const typeFilter = type ? `:${type}` : '';
-
     try {
-      const result = await this.neo4jSession.readTransaction((tx: Transaction) =>
-        tx.run(
-          `MATCH (a:Entity {id: $entityId})${directionClause}[r${typeFilter}]-${directionClause}(b:Entity)
-           RETURN r, startNode(r).id as sourceId, endNode(r).id as targetId`,
-          { entityId }
-        )
+      const edges = await this.graphStore.getEdges(
+        { label: 'Entity', id: entityId },
+        {
+          types: type ? [type] : undefined,
+          direction: direction === 'incoming' ? 'in' : direction === 'outgoing' ? 'out' : 'both',
+          label: 'Entity',
+        },
+        trx
       );
 
-      if (!result.records || !Array.isArray(result.records)) return [];
-
-      return result.records.map((record: any) => {
-        const rel = record.get('r');
-        const props = rel?.properties || {};
+      return edges.map(edge => {
+        const props = edge.properties;
 
         let parsedMetadata = {};
         if (props.metadata) {
@@ -364,13 +529,13 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
         }
 
         return {
-          id: String(props.id || ''),
-          sourceId: String(record.get('sourceId') || ''),
-          targetId: String(record.get('targetId') || ''),
-          type: rel.type as RelationshipType,
+          id: edge.id,
+          sourceId: edge.source,
+          targetId: edge.target,
+          type: edge.type as RelationshipType,
           metadata: parsedMetadata,
-          created_at: props.created_at,
-          updated_at: props.updated_at,
+          created_at: props.created_at as string | undefined,
+          updated_at: props.updated_at as string | undefined,
         };
       });
     } catch (error) {
@@ -383,17 +548,7 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
    * Remove a relationship between entities
    */
   async removeRelationship(relationshipId: string, trx?: Knex.Transaction): Promise<void> {
-    await this.neo4jSession.writeTransaction((tx: Transaction) =>
-      tx.run(
-        `MATCH ()-[r {id: $id}]->()
-         DELETE r`,
-        { id: relationshipId }
-      )
-    );
-
-    await (trx || this.db)('entity_relationships')
-      .where('id', relationshipId)
-      .delete();
+    await this.graphStore.deleteEdge(relationshipId, trx);
   }
 
   /**
@@ -440,7 +595,7 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
       for (const dup of duplicates) {
         if (!dup || !dup.id) continue;
 
-        const relationships = await this.getRelationships(dup.id);
+        const relationships = await this.getRelationships(dup.id, {}, trx);
 
         for (const rel of relationships) {
           try {
@@ -452,7 +607,7 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
             const exists = await this.getRelationships(primaryId, {
               type: rel.type,
               direction: isSource ? 'outgoing' : 'incoming'
-            }).then(rels => rels.some(r =>
+            }, trx).then(rels => rels.some(r =>
               (isSource ? r.targetId : r.sourceId) === otherId
             ));
 
@@ -572,34 +727,13 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
       }
 
       const embedding = await this.generateEmbedding(query);
+      const matches = await this.searchSimilar(embedding, { limit: limit * 2, type });
 
-      const queryOptions: any = {
-        queryEmbeddings: [embedding],
-        nResults: limit * 2,
-        include: ['metadatas', 'distances'],
-      };
-
-      if (type) {
-        queryOptions.where = { type };
-      }
-
-      const results = await this.collection.query(queryOptions);
-
-      if (!results.matches || !results.matches[0]) return [];
-
-      const scoredResults = results.matches[0]
-        .map((match: any) => {
-          const entity = {
-            id: match.id,
-            ...match.metadata,
-            metadata: typeof match.metadata.metadata === 'string'
-              ? JSON.parse(match.metadata.metadata)
-              : match.metadata.metadata || {}
-          };
-
+      const scoredResults = matches
+        .map(match => {
           const fieldValues = fields
             .map(field => {
-              const value = entity[field];
+              const value = match.entity[field];
               return typeof value === 'string' ? value : '';
             })
             .filter(Boolean)
@@ -609,12 +743,12 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
           const combinedScore = (match.score * 0.7) + (textScore * 0.3);
 
           return {
-            entity: this.toEntity(entity),
+            entity: match.entity,
             score: combinedScore
           };
         })
-        .filter((result: any) => result.score >= minScore)
-        .sort((a: any, b: any) => b.score - a.score)
+        .filter(result => result.score >= minScore)
+        .sort((a, b) => b.score - a.score)
         .slice(0, limit);
 
       return scoredResults;
@@ -639,41 +773,15 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
     const { types, limit = 10 } = options;
 
     try {
-      const typeClause = types && types.length > 0
-        ? `:${types.join('|')}`
-        : '';
-
-      const cypher = `
-        MATCH (e:Entity {id: $entityId})-[r${typeClause}]-(related:Entity)
-        RETURN DISTINCT related
-        ${limit ? 'LIMIT $limit' : ''}
-      `;
-
-      const result = await this.neo4jSession.readTransaction((tx: Transaction) =>
-        tx.run(cypher, { entityId, limit })
+      const edges = await this.graphStore.getEdges(
+        { label: 'Entity', id: entityId },
+        { types, direction: 'both', label: 'Entity' }
       );
 
-      return result.records.map(record => {
-        const node = record.get('related');
-        const props = node.properties as Record<string, any>;
-
-        let metadata: Record<string, unknown> = {};
-        if (props.metadata) {
-          try {
-            metadata = typeof props.metadata === 'string'
-              ? JSON.parse(props.metadata)
-              : props.metadata;
-          } catch (e) {
-            console.warn('Failed to parse metadata:', e);
-          }
-        }
-
-        return this.toEntity({
-          ...props,
-          id: String(props.id || ''),
-          metadata
-        });
-      });
+      const relatedIds = Array.from(new Set(
+        edges.map(edge => (edge.source === entityId ? edge.target : edge.source))
+      )).filter(id => id !== entityId);
+      return await this.findByIds(limit ? relatedIds.slice(0, limit) : relatedIds);
     } catch (error) {
       console.error('Error getting related entities:', error);
       return [];
@@ -781,6 +889,21 @@ export class EntityModel extends BaseModel<BaseEntity, EntityInput, EntityUpdate
       };
     }
   }
+
+  /**
+   * Convert a database record to the entity type
+   */
+  protected toEntity(data: any): BaseEntity {
+    // SQLite returns JSON columns as text
+    const parse = (value: unknown, fallback: unknown) =>
+      typeof value === 'string' ? JSON.parse(value || JSON.stringify(fallback)) : value ?? fallback;
+
+    return {
+      ...data,
+      metadata: parse(data.metadata, {}),
+      embedding: parse(data.embedding, null) ?? undefined,
+    };
+  }
 }
 
 export default EntityModel;
\ No newline at end of file
@@ -1,8 +1,10 @@
 import { Knex } from 'knex';
 import { z, type ZodType } from 'zod';
-import { BaseModel, type PaginationOptions, type PaginatedResult } from './BaseModel';
-import { Session } from 'neo4j-driver';
+import { BaseModel, RetentionLane, VerificationStatus, type PaginationOptions, type PaginatedResult } from './BaseModel';
 import { getEmbeddingFunction } from '../db/vector/chroma';
+import type { GraphStore } from '../db/graph/store';
+import type { VectorRecord, VectorStore } from '../db/vector/store';
+import { decryptFields, encryptFields, type FieldCipher } from '../db/crypto/fields';
 import type { BaseModel as BaseModelType } from './BaseModel';
 
 // Event types based on the design document
@@ -20,6 +22,28 @@ export const EventType = z.enum([
 
 export type EventType = z.infer<typeof EventType>;
 
+// Metadata fields that hold raw capture content rather than a summary of it
+export const RAW_METADATA_KEYS = [
+  'content',
+  'text',
+  'textContent',
+  'transcript',
+  'ocr',
+  'raw',
+  'audio',
+  'image',
+  'screenshot',
+  'screenshot_ref',
+  'bounds',
+];
+
+// Encrypted at rest when a cipher is configured: raw captures and email bodies
+export const SENSITIVE_METADATA_KEYS = [...RAW_METADATA_KEYS, 'body', 'html'];
+
+// Columns sealed whole alongside them. The description can hold a whole
+// transcript, and the title is its first 100 characters.
+export const SENSITIVE_EVENT_COLUMNS = ['title', 'description'];
+
 // Participant schema for events
 export const ParticipantSchema = z.object({
   entity_id: z.string().uuid(),
@@ -42,6 +66,12 @@ export const EventInputSchema = z.object({
   source_id: z.string().optional(),
   metadata: z.record(z.any()).default({}),
   embedding: z.array(z.number()).optional(),
+  embedding_model: z.string().nullable().optional(),
+  session_id: z.string().uuid().nullable().optional(),
+  verification_status: VerificationStatus.optional(),
+  retention_lane: RetentionLane.optional(),
+  // The original screenshot or recording in the blob store
+  blob_id: z.string().nullable().optional(),
 });
 
 // Base schema with required fields
@@ -54,14 +84,19 @@ const BaseEventSchema = z.object({
 
   // Optional fields with defaults
   description: z.string().optional(),
-  end_time: z.union([z.string(), z.date()]).optional(),
+  end_time: z.union([z.string(), z.date()]).nullable().optional(),
   participants: z.array(ParticipantSchema).default([]),
-  source: z.string().optional(),
-  source_id: z.string().optional(),
+  source: z.string().nullable().optional(),
+  source_id: z.string().nullable().optional(),
   metadata: z.record(z.any()).default({}),
   created_at: z.union([z.string(), z.date()]),
   updated_at: z.union([z.string(), z.date()]),
   embedding: z.array(z.number()).optional(),
+  embedding_model: z.string().nullable().optional(),
+  session_id: z.string().uuid().nullable().optional(),
+  verification_status: VerificationStatus.optional(),
+  retention_lane: RetentionLane.optional(),
+  blob_id: z.string().nullable().optional(),
 });
 
 // Full event schema with transformation to ensure metadata is always an object
@@ -90,10 +125,12 @@ export type Participant = z.infer<typeof ParticipantSchema>;
 export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
   constructor(
     protected db: Knex,
-    private neo4jSession: Session,
-    private collection: any // ChromaDB collection
+    private graphStore: GraphStore,
+    private vectorStore?: VectorStore,
+    private cipher?: FieldCipher
   ) {
-    super('events', BaseEventSchema as unknown as ZodType<BaseEvent, any, any>, db);
+    // Events are removed outright, there is no deleted_at column
+    super('events', BaseEventSchema as unknown as ZodType<BaseEvent, any, any>, db, false);
   }
 
   /**
@@ -103,13 +140,16 @@ export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
     // Generate embedding for the event title and description
     const textToEmbed = `${data.title} ${data.description || ''}`.trim();
     const embedding = await this.generateEmbedding(textToEmbed);
+    const embeddingModel = embedding.length > 0 ? getEmbeddingFunction().id : null;
 
     // Create the event with the generated embedding
     // We must stringify the embedding array to ensure Knex treats it as JSON
     // and not as a Postgres Array (which uses curly braces {})
     const eventData = {
-      ...data,
+      ...this.sealColumns(data),
+      metadata: this.sealMetadata(data.metadata),
       embedding: JSON.stringify(embedding) as any,
+      embedding_model: embeddingModel,
     };
 
     // Insert into the database
@@ -117,7 +157,36 @@ export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
       .insert(eventData)
       .returning('*');
 
-    return this.toEvent(result);
+    const event = this.toEvent(result);
+    await this.indexVector(event, embedding);
+    return event;
+  }
+
+  /**
+   * Find the events closest to a query embedding, optionally within a time
+   * window. Returns null when no vector store is configured.
+   */
+  async searchSimilar(
+    embedding: number[],
+    options: { limit: number; timeWindow?: { start: Date; end: Date } }
+  ): Promise<Array<{ event: Event; score: number }> | null> {
+    if (!this.vectorStore) return null;
+
+    const matches = await this.vectorStore.query('events', {
+      embedding,
+      limit: options.limit,
+      filter: options.timeWindow && {
+        range: {
+          start_time: {
+            gte: new Date(options.timeWindow.start),
+            lte: new Date(options.timeWindow.end),
+          },
+        },
+      },
+    });
+
+    const hydrated = await this.hydrateMatches(matches);
+    return hydrated.map(({ item, score }) => ({ event: item as Event, score }));
   }
 
   /**
@@ -139,9 +208,14 @@ export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
       query = query.where('start_time', '<=', filters.endTime);
     }
 
+    // Events already recorded at a moment, for point-in-time queries
+    if (filters.recordedBy) {
+      query = query.where('created_at', '<=', new Date(filters.recordedBy as Date | string).toISOString());
+    }
+
     // Apply other filters
     Object.entries(filters).forEach(([key, value]) => {
-      if (key !== 'startTime' && key !== 'endTime' && value !== undefined) {
+      if (!['startTime', 'endTime', 'recordedBy'].includes(key) && value !== undefined) {
         query = query.where(key, value);
       }
     });
@@ -184,11 +258,91 @@ export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
   /**
    * Find an event by ID
    */
-  async findById(id: string): Promise<Event | null> {
-    const result = await this.db(this.tableName).where({ id }).first();
+  async findById(id: string, trx?: Knex.Transaction): Promise<Event | null> {
+    const result = await (trx ?? this.db)(this.tableName).where({ id }).first();
     return result ? this.toEvent(result) : null;
   }
 
+  /**
+   * Events an entity participated in, newest first. Participants are a JSON
+   * column, so rows are narrowed with a text match and checked after parsing.
+   */
+  async findByParticipant(
+    entityId: string,
+    options: { startTime?: Date; endTime?: Date; limit?: number } = {}
+  ): Promise<Event[]> {
+    const isPg = this.db.client.config.client === 'pg';
+    const query = this.db(this.tableName)
+      .whereRaw(isPg ? 'participants::text like ?' : 'participants like ?', [`%${entityId}%`]);
+
+    if (options.startTime) query.where('start_time', '>=', options.startTime.toISOString());
+    if (options.endTime) query.where('start_time', '<=', options.endTime.toISOString());
+
+    const results = await query
+      .orderBy('start_time', 'desc')
+      .limit(options.limit || 500);
+
+    return results
+      .map(result => this.toEvent(result))
+      .filter(event => event.participants?.some(p => p.entity_id === entityId));
+  }
+
+  /**
+   * Events in a session, oldest first
+   */
+  async findBySession(sessionId: string, trx?: Knex.Transaction): Promise<Event[]> {
+    const results = await (trx || this.db)(this.tableName)
+      .where({ session_id: sessionId })
+      .orderBy('start_time', 'asc');
+
+    return results.map(result => this.toEvent(result));
+  }
+
+  /**
+   * Put an event in a session. Leaves the embedding and updated_at alone.
+   */
+  async setSession(id: string, sessionId: string | null, trx?: Knex.Transaction): Promise<void> {
+    await (trx || this.db)(this.tableName).where({ id }).update({ session_id: sessionId });
+  }
+
+  /**
+   * Events in a retention lane that started before `before`, oldest first
+   */
+  async findInLane(lane: RetentionLane, before: Date, limit: number): Promise<Event[]> {
+    const results = await this.db(this.tableName)
+      .where({ retention_lane: lane })
+      .andWhere('start_time', '<', before.toISOString())
+      .orderBy('start_time', 'asc')
+      .limit(limit);
+
+    return results.map(result => this.toEvent(result));
+  }
+
+  /**
+   * Move an event to the warm lane, replacing its raw content and letting go
+   * of its captured blob. Leaves the embedding and updated_at alone.
+   */
+  async demote(id: string, content: { description: string; metadata: Record<string, unknown> }): Promise<void> {
+    await this.db(this.tableName).where({ id }).update({
+      description: this.sealColumns({ description: content.description }).description,
+      metadata: JSON.stringify(this.sealMetadata(content.metadata)),
+      blob_id: null,
+      retention_lane: 'warm',
+    });
+  }
+
+  /**
+   * Remove events from the relational, vector and graph stores
+   */
+  async purge(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const count = await this.db(this.tableName).whereIn('id', ids).del();
+    await this.vectorStore?.delete('events', ids);
+    await this.graphStore.deleteNodes(ids.map(id => ({ label: 'Event' as const, id })));
+    return count;
+  }
+
   /**
    * Update an event and its vector/graph representations
    */
@@ -201,17 +355,25 @@ export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
 
     // If title or description changed, update the embedding
     const updatedData = { ...data };
+    let embedding: number[] | undefined;
     if (data.title || data.description) {
       const title = data.title || existing.title;
       const description = data.description || existing.description || '';
       const textToEmbed = `${title} ${description}`.trim();
-      const embedding = await this.generateEmbedding(textToEmbed);
+      embedding = await this.generateEmbedding(textToEmbed);
       updatedData.embedding = JSON.stringify(embedding) as any;
+      updatedData.embedding_model = embedding.length > 0 ? getEmbeddingFunction().id : null;
     }
 
     // Call the parent's update method
     const result = await super.update(id, updatedData);
-    return result ? this.toEvent(result) : null;
+    if (!result) return null;
+
+    const event = this.toEvent(result);
+    if (embedding) {
+      await this.indexVector(event, embedding);
+    }
+    return event;
   }
 
   /**
@@ -222,9 +384,9 @@ export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
       // Delete from the database
       const count = await this.db(this.tableName).where({ id }).del();
 
-      // If you need to delete from vector/graph store, add that logic here
-      // Example:
-      // await this.collection.delete(id);
+      if (count > 0) {
+        await this.vectorStore?.delete('events', [id]);
+      }
 
       return count > 0;
     } catch (error) {
@@ -241,7 +403,11 @@ export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
       throw new Error('Invalid data type for Event');
     }
 
-    const eventData = data as Record<string, any>;
+    const eventData = this.openColumns(data as Record<string, any>);
+    // SQLite returns JSON columns as text
+    const parse = (value: unknown, fallback: unknown) =>
+      typeof value === 'string' ? JSON.parse(value || JSON.stringify(fallback)) : value ?? fallback;
+
     return {
       id: eventData.id,
       type: eventData.type,
@@ -249,16 +415,45 @@ export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
       description: eventData.description,
       start_time: eventData.start_time,
       end_time: eventData.end_time,
-      participants: eventData.participants || [],
+      participants: parse(eventData.participants, []),
       source: eventData.source,
       source_id: eventData.source_id,
-      metadata: eventData.metadata || {},
+      metadata: this.openMetadata(parse(eventData.metadata, {})),
       created_at: eventData.created_at,
       updated_at: eventData.updated_at,
-      embedding: eventData.embedding,
+      embedding: parse(eventData.embedding, null) ?? undefined,
+      embedding_model: eventData.embedding_model,
+      session_id: eventData.session_id ?? null,
+      verification_status: eventData.verification_status ?? 'verified',
+      retention_lane: eventData.retention_lane ?? 'hot',
+      blob_id: eventData.blob_id ?? null,
     };
   }
 
+  /**
+   * Seal the sensitive columns and metadata of rows written through BaseModel
+   */
+  protected override toRow(data: Record<string, any>): Record<string, any> {
+    const sealed = this.sealColumns(data);
+    return super.toRow(data.metadata ? { ...sealed, metadata: this.sealMetadata(data.metadata) } : sealed);
+  }
+
+  private sealColumns<T extends Record<string, any>>(row: T): T {
+    return this.cipher ? encryptFields(row, SENSITIVE_EVENT_COLUMNS, this.cipher) as T : row;
+  }
+
+  private openColumns<T extends Record<string, any>>(row: T): T {
+    return this.cipher ? decryptFields(row, SENSITIVE_EVENT_COLUMNS, this.cipher) as T : row;
+  }
+
+  private sealMetadata(metadata: Record<string, unknown> = {}): Record<string, unknown> {
+    return this.cipher ? encryptFields(metadata, SENSITIVE_METADATA_KEYS, this.cipher) : metadata;
+  }
+
+  private openMetadata(metadata: Record<string, unknown>): Record<string, unknown> {
+    return this.cipher ? decryptFields(metadata, SENSITIVE_METADATA_KEYS, this.cipher) : metadata;
+  }
+
   /**
    * Convert a database record to an Event object
    */
@@ -283,12 +478,34 @@ export class EventModel extends BaseModel<BaseEvent, EventInput, EventUpdate> {
     });
   }
 
+  /**
+   * Add or refresh the event's vector. Failures are logged, the relational
+   * row stays the source of truth and re-embedding can index it later.
+   */
+  private async indexVector(event: Event, embedding: number[]): Promise<void> {
+    if (!this.vectorStore || embedding.length === 0) return;
+
+    const record: VectorRecord = {
+      id: event.id,
+      embedding,
+      metadata: { type: event.type, start_time: new Date(event.start_time) },
+      // The vector store keeps documents in plaintext
+      document: this.cipher ? undefined : `${event.title} ${event.description || ''}`.trim(),
+    };
+
+    try {
+      await this.vectorStore.upsert('events', [record]);
+    } catch (error) {
+      console.error('Error indexing event vector:', error);
+    }
+  }
+
   /**
    * Generate an embedding for the given text
    */
   private async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const embeddingFunction = await getEmbeddingFunction();
+      const embeddingFunction = getEmbeddingFunction();
       const result = await embeddingFunction.generate([text]);
       // Ensure the result is a plain array, not a TypedArray
       return Array.from(result[0]);
@@ -0,0 +1,260 @@
+import { Knex } from 'knex';
+import { z, type ZodType } from 'zod';
+import { BaseModel, NotFoundError } from './BaseModel';
+
+export const FactStatus = z.enum([
+  'active',
+  'superseded',
+  'retracted',
+]);
+
+export type FactStatus = z.infer<typeof FactStatus>;
+
+export const FactSchema = z.object({
+  id: z.string().uuid().optional(),
+  statement_text: z.string().min(1),
+  subject_entity_id: z.string().uuid().nullable().optional(),
+  predicate: z.string().nullable().optional(),
+  object_value: z.string().nullable().optional(),
+  source_event_id: z.string().uuid().nullable().optional(),
+  confidence: z.number().min(0).max(1).default(1),
+  last_verified_ts: z.string().or(z.date()).nullable().optional(),
+  status: FactStatus.default('active'),
+  version: z.number().int().positive().default(1),
+  superseded_by: z.string().uuid().nullable().optional(),
+  metadata: z.record(z.unknown()).default({}),
+  created_at: z.date().or(z.string()).optional(),
+  updated_at: z.date().or(z.string()).optional(),
+  deleted_at: z.date().or(z.string()).nullable().optional(),
+});
+
+export type Fact = z.infer<typeof FactSchema>;
+export type FactInput = Omit<Fact, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+type FactUpdate = Partial<FactInput>;
+
+export interface FactAssertion {
+  statement_text: string;
+  subject_entity_id?: string | null;
+  predicate?: string | null;
+  object_value?: string | null;
+  source_event_id?: string | null;
+  confidence?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface FactAssertionResult {
+  fact: Fact;
+  /** Older facts about the same subject and predicate that this one replaced */
+  superseded: Fact[];
+  /** True when the assertion matched an existing fact and only re-verified it */
+  reverified: boolean;
+}
+
+/**
+ * Normalize a predicate or object value so trivially different spellings
+ * ("VP Sales" vs "vp  sales") are not treated as contradictions.
+ */
+export function normalizeFactValue(value?: string | null): string {
+  return (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Two facts contradict each other when they make a claim about the same
+ * subject and predicate but disagree on the object.
+ */
+export function isContradiction(
+  a: Pick<Fact, 'subject_entity_id' | 'predicate' | 'object_value'>,
+  b: Pick<Fact, 'subject_entity_id' | 'predicate' | 'object_value'>
+): boolean {
+  if (!a.subject_entity_id || !a.predicate) return false;
+  return (
+    a.subject_entity_id === b.subject_entity_id &&
+    normalizeFactValue(a.predicate) === normalizeFactValue(b.predicate) &&
+    normalizeFactValue(a.object_value) !== normalizeFactValue(b.object_value)
+  );
+}
+
+export class FactModel extends BaseModel<Fact, FactInput, FactUpdate> {
+  constructor(db: Knex) {
+    super('facts', FactSchema as unknown as ZodType<Fact>, db, true, true);
+  }
+
+  /**
+   * Record a fact, re-verifying an identical active fact or superseding
+   * contradicting ones about the same subject and predicate.
+   */
+  async assert(data: FactAssertion, trx?: Knex.Transaction): Promise<FactAssertionResult> {
+    const assertFn = async (tx: Knex.Transaction): Promise<FactAssertionResult> => {
+      const now = new Date().toISOString();
+      const predicate = data.predicate ? normalizeFactValue(data.predicate) : null;
+
+      const related = data.subject_entity_id && predicate
+        ? await this.findActiveBySubject(data.subject_entity_id, predicate, tx)
+        : [];
+
+      const candidate = {
+        subject_entity_id: data.subject_entity_id,
+        predicate,
+        object_value: data.object_value,
+      };
+
+      // Same claim seen again: refresh provenance instead of storing a duplicate
+      const existing = related.find(fact => !isContradiction(candidate, fact));
+      if (existing?.id) {
+        const verifiedBy = Array.isArray(existing.metadata?.verified_by)
+          ? existing.metadata.verified_by as string[]
+          : [];
+        const fact = await this.update(existing.id, {
+          confidence: Math.max(existing.confidence ?? 0, data.confidence ?? 0),
+          last_verified_ts: now,
+          metadata: {
+            ...existing.metadata,
+            verified_by: data.source_event_id
+              ? Array.from(new Set([...verifiedBy, data.source_event_id]))
+              : verifiedBy,
+          },
+        }, tx);
+
+        return { fact: fact as Fact, superseded: [], reverified: true };
+      }
+
+      const contradicted = related.filter(fact => isContradiction(candidate, fact));
+      const version = contradicted.reduce((max, fact) => Math.max(max, fact.version ?? 1), 0) + 1;
+
+      const fact = await this.create({
+        statement_text: data.statement_text,
+        subject_entity_id: data.subject_entity_id ?? null,
+        predicate,
+        object_value: data.object_value ?? null,
+        source_event_id: data.source_event_id ?? null,
+        confidence: data.confidence ?? 1,
+        last_verified_ts: now,
+        status: 'active',
+        version,
+        superseded_by: null,
+        metadata: data.metadata || {},
+      }, tx);
+
+      const superseded: Fact[] = [];
+      for (const old of contradicted) {
+        const updated = await this.update(old.id as string, {
+          status: 'superseded',
+          superseded_by: fact.id,
+        }, tx);
+        if (updated) superseded.push(updated);
+      }
+
+      return { fact, superseded, reverified: false };
+    };
+
+    return trx ? assertFn(trx) : this.withTransaction(assertFn);
+  }
+
+  /**
+   * Mark a fact as verified now, optionally adjusting its confidence
+   */
+  async verify(id: string, confidence?: number, trx?: Knex.Transaction): Promise<Fact> {
+    const fact = await this.update(id, {
+      last_verified_ts: new Date().toISOString(),
+      ...(confidence !== undefined && { confidence }),
+    }, trx);
+
+    if (!fact) {
+      throw new NotFoundError(`Fact ${id} not found`);
+    }
+    return fact;
+  }
+
+  /**
+   * Find active facts about an entity, optionally restricted to one predicate
+   */
+  async findActiveBySubject(
+    entityId: string,
+    predicate?: string,
+    trx?: Knex.Transaction
+  ): Promise<Fact[]> {
+    const query = this.query(trx)
+      .where({ subject_entity_id: entityId, status: 'active' });
+
+    if (predicate) {
+      query.andWhere('predicate', normalizeFactValue(predicate));
+    }
+
+    const results = await query.orderBy('created_at', 'desc');
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Facts that came from any of the given events
+   */
+  async findByEvents(eventIds: string[], trx?: Knex.Transaction): Promise<Fact[]> {
+    if (eventIds.length === 0) return [];
+
+    const results = await this.query(trx)
+      .whereIn('source_event_id', eventIds)
+      .orderBy('created_at', 'asc');
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Get every version of the statement a fact belongs to, newest first
+   */
+  async getHistory(id: string, trx?: Knex.Transaction): Promise<Fact[]> {
+    const fact = await this.findById(id, trx);
+    if (!fact) {
+      throw new NotFoundError(`Fact ${id} not found`);
+    }
+
+    if (!fact.subject_entity_id || !fact.predicate) {
+      return [fact];
+    }
+
+    const results = await this.query(trx)
+      .where({ subject_entity_id: fact.subject_entity_id, predicate: fact.predicate })
+      .orderBy('version', 'desc')
+      .orderBy('created_at', 'desc');
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Find facts learned in a window, oldest first, optionally about one entity
+   */
+  async findInPeriod(
+    start?: Date,
+    end?: Date,
+    options: { subjectEntityId?: string; limit?: number } = {},
+    trx?: Knex.Transaction
+  ): Promise<Fact[]> {
+    const query = this.query(trx);
+
+    if (start) query.where('created_at', '>=', start.toISOString());
+    if (end) query.where('created_at', '<=', end.toISOString());
+    if (options.subjectEntityId) query.andWhere('subject_entity_id', options.subjectEntityId);
+
+    const results = await query
+      .orderBy('created_at', 'desc')
+      .limit(options.limit || 500);
+
+    return results.reverse().map(result => this.toEntity(result));
+  }
+
+  /**
+   * Convert a database record to the entity type
+   */
+  protected toEntity(data: any): Fact {
+    return {
+      ...data,
+      confidence: data.confidence !== null && data.confidence !== undefined
+        ? Number(data.confidence)
+        : 1,
+      version: data.version !== null && data.version !== undefined ? Number(data.version) : 1,
+      metadata: typeof data.metadata === 'string'
+        ? JSON.parse(data.metadata || '{}')
+        : data.metadata || {},
+    };
+  }
+}
+
+export default FactModel;
@@ -0,0 +1,156 @@
+import { Knex } from 'knex';
+import { z, type ZodType } from 'zod';
+import { BaseModel } from './BaseModel';
+import { getEmbeddingFunction } from '../db/vector/chroma';
+
+export const SummaryScope = z.enum([
+  'session',
+  'entity',
+  'day',
+]);
+
+export type SummaryScope = z.infer<typeof SummaryScope>;
+
+export const MemorySummarySchema = z.object({
+  id: z.string().uuid().optional(),
+  scope: SummaryScope,
+  scope_id: z.string().min(1),
+  period_start: z.string().or(z.date()),
+  period_end: z.string().or(z.date()),
+  summary_text: z.string().min(1),
+  event_count: z.number().int().nonnegative().default(0),
+  source_event_ids: z.array(z.string()).default([]),
+  embedding: z.array(z.number()).optional(),
+  embedding_model: z.string().nullable().optional(),
+  metadata: z.record(z.unknown()).default({}),
+  created_at: z.date().or(z.string()).optional(),
+  updated_at: z.date().or(z.string()).optional(),
+  deleted_at: z.date().or(z.string()).nullable().optional(),
+});
+
+export type MemorySummary = z.infer<typeof MemorySummarySchema>;
+export type MemorySummaryInput = Omit<MemorySummary, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'embedding' | 'embedding_model'>;
+type MemorySummaryUpdate = Partial<MemorySummaryInput>;
+
+export class MemorySummaryModel extends BaseModel<MemorySummary, MemorySummaryInput, MemorySummaryUpdate> {
+  constructor(db: Knex) {
+    super('memory_summaries', MemorySummarySchema as unknown as ZodType<MemorySummary>, db, true);
+  }
+
+  /**
+   * Create or replace the summary for a scope and period, re-embedding its text
+   */
+  async upsert(data: MemorySummaryInput, trx?: Knex.Transaction): Promise<MemorySummary> {
+    const embedding = await this.generateEmbedding(data.summary_text);
+    const periodStart = new Date(data.period_start).toISOString();
+
+    const upsertFn = async (tx: Knex.Transaction): Promise<MemorySummary> => {
+      const now = new Date().toISOString();
+      const validatedData = this.validate({
+        ...data,
+        period_start: periodStart,
+        period_end: new Date(data.period_end).toISOString(),
+        embedding,
+        embedding_model: embedding.length > 0 ? getEmbeddingFunction().id : null,
+        created_at: now,
+        updated_at: now,
+        deleted_at: null,
+      });
+
+      // Stringify JSON columns so Knex does not treat arrays as Postgres arrays
+      const dbData = {
+        ...validatedData,
+        source_event_ids: JSON.stringify(validatedData.source_event_ids),
+        embedding: JSON.stringify(embedding),
+        metadata: JSON.stringify(validatedData.metadata),
+      };
+
+      const existing = await tx(this.tableName)
+        .where({ scope: data.scope, scope_id: data.scope_id, period_start: periodStart })
+        .first();
+
+      if (existing) {
+        const { created_at: _createdAt, ...updateData } = dbData;
+        const [result] = await tx(this.tableName)
+          .where({ id: existing.id })
+          .update(updateData)
+          .returning('*');
+        return this.toEntity(result);
+      }
+
+      const [result] = await tx(this.tableName)
+        .insert(dbData)
+        .returning('*');
+      return this.toEntity(result);
+    };
+
+    return trx ? upsertFn(trx) : this.withTransaction(upsertFn);
+  }
+
+  /**
+   * Find summaries whose period overlaps the given window
+   */
+  async findInPeriod(
+    start: Date,
+    end: Date,
+    options: { scope?: SummaryScope; scopeId?: string; limit?: number } = {}
+  ): Promise<MemorySummary[]> {
+    const query = this.query()
+      .where('period_start', '<=', end.toISOString())
+      .andWhere('period_end', '>=', start.toISOString());
+
+    if (options.scope) query.andWhere('scope', options.scope);
+    if (options.scopeId) query.andWhere('scope_id', options.scopeId);
+
+    const results = await query
+      .orderBy('period_start', 'desc')
+      .limit(options.limit || 100);
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Summaries whose period ended before `before`, oldest first
+   */
+  async findEndedBefore(before: Date, limit = 500): Promise<MemorySummary[]> {
+    const results = await this.query()
+      .where('period_end', '<', before.toISOString())
+      .orderBy('period_end', 'asc')
+      .limit(limit);
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Convert a database record to the entity type
+   */
+  protected toEntity(data: any): MemorySummary {
+    const parse = (value: unknown, fallback: unknown) =>
+      typeof value === 'string' ? JSON.parse(value || JSON.stringify(fallback)) : value ?? fallback;
+
+    return {
+      ...data,
+      event_count: Number(data.event_count || 0),
+      source_event_ids: parse(data.source_event_ids, []),
+      embedding: parse(data.embedding, null) ?? undefined,
+      metadata: parse(data.metadata, {}),
+    };
+  }
+
+  /**
+   * Generate an embedding for the given text
+   */
+  private async generateEmbedding(text: string): Promise<number[]> {
+    try {
+      const embeddingFunction = getEmbeddingFunction();
+      const result = await embeddingFunction.generate([text]);
+      // Ensure the result is a plain array, not a TypedArray
+      return Array.from(result[0]);
+    } catch (error) {
+      console.error('Error generating embedding:', error);
+      return [];
+    }
+  }
+}
+
+export default MemorySummaryModel;
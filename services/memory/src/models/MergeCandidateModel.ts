@@ -0,0 +1,118 @@
+import { Knex } from 'knex';
+import { z, type ZodType } from 'zod';
+import { BaseModel, type PaginationOptions, type PaginatedResult } from './BaseModel';
+
+export const MergeCandidateStatus = z.enum([
+  'pending',
+  'accepted',
+  'rejected',
+]);
+
+export type MergeCandidateStatus = z.infer<typeof MergeCandidateStatus>;
+
+export const MergeCandidateSchema = z.object({
+  id: z.string().uuid().optional(),
+  entity_id: z.string().uuid(),
+  candidate_id: z.string().uuid(),
+  confidence: z.number().min(0).max(1),
+  reasons: z.array(z.string()).default([]),
+  status: MergeCandidateStatus.default('pending'),
+  merge_id: z.string().uuid().nullable().optional(),
+  resolved_at: z.date().or(z.string()).nullable().optional(),
+  created_at: z.date().or(z.string()).optional(),
+  updated_at: z.date().or(z.string()).optional(),
+  deleted_at: z.date().or(z.string()).nullable().optional(),
+});
+
+export type MergeCandidate = z.infer<typeof MergeCandidateSchema>;
+export type MergeCandidateInput = Omit<MergeCandidate, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+type MergeCandidateUpdate = Partial<MergeCandidateInput>;
+
+export class MergeCandidateModel extends BaseModel<MergeCandidate, MergeCandidateInput, MergeCandidateUpdate> {
+  constructor(db: Knex) {
+    super('entity_merge_candidates', MergeCandidateSchema as unknown as ZodType<MergeCandidate>, db, true);
+  }
+
+  /**
+   * Find the candidate for a pair of entities, in either direction
+   */
+  async findPair(a: string, b: string, trx?: Knex.Transaction): Promise<MergeCandidate | null> {
+    const result = await this.query(trx)
+      .where(query => query
+        .where({ entity_id: a, candidate_id: b })
+        .orWhere({ entity_id: b, candidate_id: a }))
+      .first();
+
+    return result ? this.toEntity(result) : null;
+  }
+
+  /**
+   * Candidates with a status, newest first. Pending candidates are only
+   * listed while both entities are still active.
+   */
+  async findByStatus(
+    status: MergeCandidateStatus,
+    options: PaginationOptions = {},
+    trx?: Knex.Transaction
+  ): Promise<PaginatedResult<MergeCandidate>> {
+    const { page = 1, pageSize = 20 } = options;
+    const query = this.query(trx).where({ status });
+
+    if (status === 'pending') {
+      const activeEntities = () => (trx || this.db)('entities').select('id').whereNull('deleted_at');
+      query.whereIn('entity_id', activeEntities()).whereIn('candidate_id', activeEntities());
+    }
+
+    const countResult = await query.clone().count('* as count').first();
+    const totalItems = countResult ? Number(countResult.count) : 0;
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    const results = await query
+      .orderBy('created_at', 'desc')
+      .offset((page - 1) * pageSize)
+      .limit(pageSize);
+
+    return {
+      data: results.map(result => this.toEntity(result)),
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Close a candidate with the user's (or the merge engine's) decision
+   */
+  async resolve(
+    id: string,
+    status: Exclude<MergeCandidateStatus, 'pending'>,
+    mergeId?: string | null,
+    trx?: Knex.Transaction
+  ): Promise<MergeCandidate | null> {
+    return this.update(id, {
+      status,
+      merge_id: mergeId ?? null,
+      resolved_at: new Date().toISOString(),
+    }, trx);
+  }
+
+  /**
+   * Convert a database record to the entity type
+   */
+  protected toEntity(data: any): MergeCandidate {
+    return {
+      ...data,
+      confidence: Number(data.confidence),
+      reasons: typeof data.reasons === 'string'
+        ? JSON.parse(data.reasons || '[]')
+        : data.reasons || [],
+    };
+  }
+}
+
+export default MergeCandidateModel;
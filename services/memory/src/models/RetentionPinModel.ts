@@ -0,0 +1,80 @@
+import { Knex } from 'knex';
+import { z, type ZodType } from 'zod';
+import { BaseModel } from './BaseModel';
+
+// What retention rules apply to. Screenshots stay on the edge agent, which
+// applies their rule itself.
+export const RetentionItemType = z.enum([
+  'event',
+  'session',
+  'summary',
+  'screenshot',
+]);
+
+export type RetentionItemType = z.infer<typeof RetentionItemType>;
+
+export const RetentionPinSchema = z.object({
+  id: z.string().uuid().optional(),
+  item_type: RetentionItemType,
+  // Row ID, or file name for screenshots
+  item_id: z.string().min(1).max(255),
+  reason: z.string().nullable().optional(),
+  created_at: z.date().or(z.string()).optional(),
+  updated_at: z.date().or(z.string()).optional(),
+  deleted_at: z.date().or(z.string()).nullable().optional(),
+});
+
+export type RetentionPin = z.infer<typeof RetentionPinSchema>;
+export type RetentionPinInput = Omit<RetentionPin, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+type RetentionPinUpdate = Partial<RetentionPinInput>;
+
+/**
+ * Pinned items are exempt from demotion and purging
+ */
+export class RetentionPinModel extends BaseModel<RetentionPin, RetentionPinInput, RetentionPinUpdate> {
+  constructor(db: Knex) {
+    super('retention_pins', RetentionPinSchema as unknown as ZodType<RetentionPin>, db);
+  }
+
+  /**
+   * Pin an item. Pinning it again returns the existing pin.
+   */
+  async pin(data: RetentionPinInput): Promise<RetentionPin> {
+    const existing = await this.findOne({ item_type: data.item_type, item_id: data.item_id });
+    return existing ?? this.create({ ...data, reason: data.reason ?? null });
+  }
+
+  /**
+   * Remove an item's pin. Returns false if it was not pinned.
+   */
+  async unpin(itemType: RetentionItemType, itemId: string): Promise<boolean> {
+    const existing = await this.findOne({ item_type: itemType, item_id: itemId });
+    return existing ? this.softDeleteById(existing.id as string) : false;
+  }
+
+  /**
+   * The pinned IDs among `itemIds`
+   */
+  async pinnedIds(itemType: RetentionItemType, itemIds: string[], trx?: Knex.Transaction): Promise<Set<string>> {
+    if (itemIds.length === 0) return new Set();
+
+    const rows = await this.query(trx)
+      .where('item_type', itemType)
+      .whereIn('item_id', itemIds)
+      .select('item_id');
+    return new Set(rows.map((row: { item_id: string }) => row.item_id));
+  }
+
+  /**
+   * List pins, most recent first
+   */
+  async list(itemType?: RetentionItemType, trx?: Knex.Transaction): Promise<RetentionPin[]> {
+    const query = this.query(trx);
+    if (itemType) query.where('item_type', itemType);
+
+    const results = await query.orderBy('created_at', 'desc');
+    return results.map(result => this.toEntity(result));
+  }
+}
+
+export default RetentionPinModel;
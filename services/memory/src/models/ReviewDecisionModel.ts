@@ -0,0 +1,116 @@
+import { Knex } from 'knex';
+import { z, type ZodType } from 'zod';
+import { BaseModel } from './BaseModel';
+
+export const ReviewItemType = z.enum([
+  'event',
+  'task',
+  'entity',
+]);
+
+export const ReviewDecision = z.enum([
+  'approved',
+  'edited',
+  'rejected',
+]);
+
+export type ReviewItemType = z.infer<typeof ReviewItemType>;
+export type ReviewDecision = z.infer<typeof ReviewDecision>;
+
+/**
+ * The user's answer to an unverified extraction. Together the answers
+ * measure how often the extraction prompt is wrong.
+ */
+export const ReviewDecisionSchema = z.object({
+  id: z.string().uuid().optional(),
+  item_type: ReviewItemType,
+  item_id: z.string().uuid(),
+  decision: ReviewDecision,
+  reason: z.string().nullable().optional(),
+  confidence: z.number().min(0).max(1).nullable().optional(),
+  source_event_id: z.string().uuid().nullable().optional(),
+  // The item as extracted
+  original: z.record(z.unknown()).default({}),
+  // Fields the user changed, for edits
+  changes: z.record(z.unknown()).nullable().optional(),
+  created_at: z.date().or(z.string()).optional(),
+  updated_at: z.date().or(z.string()).optional(),
+  deleted_at: z.date().or(z.string()).nullable().optional(),
+});
+
+export type ReviewDecisionRecord = z.infer<typeof ReviewDecisionSchema>;
+export type ReviewDecisionInput = Omit<ReviewDecisionRecord, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+type ReviewDecisionUpdate = Partial<ReviewDecisionInput>;
+
+export type ReviewDecisionStats = Record<ReviewItemType, Record<ReviewDecision, number>>;
+
+export class ReviewDecisionModel extends BaseModel<ReviewDecisionRecord, ReviewDecisionInput, ReviewDecisionUpdate> {
+  constructor(db: Knex) {
+    super('review_decisions', ReviewDecisionSchema as unknown as ZodType<ReviewDecisionRecord>, db);
+  }
+
+  /**
+   * List decisions, most recent first
+   */
+  async list(
+    options: {
+      decision?: ReviewDecision;
+      itemType?: ReviewItemType;
+      limit?: number;
+      offset?: number;
+    } = {},
+    trx?: Knex.Transaction
+  ): Promise<ReviewDecisionRecord[]> {
+    const query = this.query(trx);
+
+    if (options.decision) query.where('decision', options.decision);
+    if (options.itemType) query.where('item_type', options.itemType);
+
+    const results = await query
+      .orderBy('created_at', 'desc')
+      .limit(options.limit ?? 50)
+      .offset(options.offset ?? 0);
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Number of decisions per item type and decision
+   */
+  async stats(trx?: Knex.Transaction): Promise<ReviewDecisionStats> {
+    const rows = await this.query(trx)
+      .select('item_type', 'decision')
+      .count('* as count')
+      .groupBy('item_type', 'decision');
+
+    const stats = Object.fromEntries(ReviewItemType.options.map(type => [
+      type,
+      Object.fromEntries(ReviewDecision.options.map(decision => [decision, 0])),
+    ])) as ReviewDecisionStats;
+    for (const row of rows as Array<{ item_type: ReviewItemType; decision: ReviewDecision; count: number | string }>) {
+      if (stats[row.item_type] && row.decision in stats[row.item_type]) {
+        stats[row.item_type][row.decision] = Number(row.count);
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Convert a database record to the entity type
+   */
+  protected toEntity(data: any): ReviewDecisionRecord {
+    // SQLite returns JSON columns as text
+    const parse = (value: unknown, fallback: unknown) =>
+      typeof value === 'string' ? JSON.parse(value || JSON.stringify(fallback)) : value ?? fallback;
+
+    return {
+      ...data,
+      confidence: data.confidence === null || data.confidence === undefined ? null : Number(data.confidence),
+      original: parse(data.original, {}),
+      changes: parse(data.changes, null),
+    };
+  }
+}
+
+export default ReviewDecisionModel;
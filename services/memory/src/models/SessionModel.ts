@@ -0,0 +1,158 @@
+import { Knex } from 'knex';
+import { z, type ZodType } from 'zod';
+import { BaseModel } from './BaseModel';
+import { decryptFields, encryptFields, type FieldCipher } from '../db/crypto/fields';
+
+export const SessionKind = z.enum([
+  'meeting',
+  'work',
+]);
+
+export const SessionStatus = z.enum([
+  'open',
+  'closed',
+]);
+
+// Where the post-session "Captured 3 items — review?" prompt stands
+export const SessionReviewStatus = z.enum([
+  'pending',
+  'accepted',
+  'discarded',
+]);
+
+export type SessionKind = z.infer<typeof SessionKind>;
+export type SessionStatus = z.infer<typeof SessionStatus>;
+export type SessionReviewStatus = z.infer<typeof SessionReviewStatus>;
+
+export const SessionSchema = z.object({
+  id: z.string().uuid().optional(),
+  kind: SessionKind.default('work'),
+  title: z.string().min(1),
+  app_context: z.string().nullable().optional(),
+  start_time: z.string().or(z.date()),
+  end_time: z.string().or(z.date()),
+  status: SessionStatus.default('open'),
+  event_count: z.number().int().min(0).default(0),
+  transcript: z.string().default(''),
+  summary: z.string().nullable().optional(),
+  review_status: SessionReviewStatus.nullable().optional(),
+  participant_ids: z.array(z.string()).default([]),
+  metadata: z.record(z.unknown()).default({}),
+  created_at: z.date().or(z.string()).optional(),
+  updated_at: z.date().or(z.string()).optional(),
+  deleted_at: z.date().or(z.string()).nullable().optional(),
+});
+
+export type Session = z.infer<typeof SessionSchema>;
+export type SessionInput = Omit<Session, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+type SessionUpdate = Partial<SessionInput>;
+
+// The transcript joins the descriptions of the session's events, so it is
+// sealed like them when a cipher is configured
+export const SENSITIVE_SESSION_COLUMNS = ['transcript'];
+
+export class SessionModel extends BaseModel<Session, SessionInput, SessionUpdate> {
+  constructor(db: Knex, private cipher?: FieldCipher) {
+    super('sessions', SessionSchema as unknown as ZodType<Session>, db);
+  }
+
+  /**
+   * Open sessions with a capture at or after `since`, most recent first
+   */
+  async findOpen(since: Date, trx?: Knex.Transaction): Promise<Session[]> {
+    const results = await this.query(trx)
+      .where({ status: 'open' })
+      .andWhere('end_time', '>=', since.toISOString())
+      .orderBy('end_time', 'desc');
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Open sessions whose last capture was before `before`
+   */
+  async findIdle(before: Date, trx?: Knex.Transaction): Promise<Session[]> {
+    const results = await this.query(trx)
+      .where({ status: 'open' })
+      .andWhere('end_time', '<', before.toISOString())
+      .orderBy('end_time', 'asc');
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Sessions that ended before `before`, oldest first. With `withTranscript`,
+   * only those still holding a transcript.
+   */
+  async findEndedBefore(
+    before: Date,
+    options: { withTranscript?: boolean; limit?: number } = {},
+    trx?: Knex.Transaction
+  ): Promise<Session[]> {
+    const query = this.query(trx).where('end_time', '<', before.toISOString());
+    if (options.withTranscript) query.whereNot('transcript', '');
+
+    const results = await query
+      .orderBy('end_time', 'asc')
+      .limit(options.limit ?? 500);
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * List sessions, most recent first
+   */
+  async list(
+    options: {
+      status?: SessionStatus;
+      kind?: SessionKind;
+      reviewStatus?: SessionReviewStatus;
+      from?: Date;
+      to?: Date;
+      limit?: number;
+      offset?: number;
+    } = {},
+    trx?: Knex.Transaction
+  ): Promise<Session[]> {
+    const query = this.query(trx);
+
+    if (options.status) query.where('status', options.status);
+    if (options.kind) query.where('kind', options.kind);
+    if (options.reviewStatus) query.where('review_status', options.reviewStatus);
+    if (options.from) query.where('end_time', '>=', options.from.toISOString());
+    if (options.to) query.where('start_time', '<=', options.to.toISOString());
+
+    const results = await query
+      .orderBy('start_time', 'desc')
+      .limit(options.limit ?? 50)
+      .offset(options.offset ?? 0);
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Seal the transcript. An empty one stays empty, so sessions without a
+   * transcript can still be told apart.
+   */
+  protected override toRow(data: Record<string, any>): Record<string, any> {
+    return super.toRow(this.cipher && data.transcript ? encryptFields(data, SENSITIVE_SESSION_COLUMNS, this.cipher) : data);
+  }
+
+  /**
+   * Convert a database record to the entity type
+   */
+  protected toEntity(data: any): Session {
+    // SQLite returns JSON columns as text
+    const parse = (value: unknown, fallback: unknown) =>
+      typeof value === 'string' ? JSON.parse(value || JSON.stringify(fallback)) : value ?? fallback;
+
+    return {
+      ...(this.cipher ? decryptFields(data, SENSITIVE_SESSION_COLUMNS, this.cipher) : data),
+      event_count: Number(data.event_count ?? 0),
+      participant_ids: parse(data.participant_ids, []),
+      metadata: parse(data.metadata, {}),
+    };
+  }
+}
+
+export default SessionModel;
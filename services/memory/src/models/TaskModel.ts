@@ -1,8 +1,12 @@
 import { Knex } from 'knex';
 import { z, type ZodType } from 'zod';
-import { BaseModel } from './BaseModel';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseModel, NotFoundError, ValidationError, VerificationStatus } from './BaseModel';
 import type { PaginationOptions, PaginatedResult } from './BaseModel';
-import type { Session, Transaction } from 'neo4j-driver';
+import { getEmbeddingFunction } from '../db/vector/chroma';
+import type { GraphEdgeInput, GraphStore } from '../db/graph/store';
+import type { VectorStore } from '../db/vector/store';
+import { nextOccurrence, parseRecurrenceRule } from '../utils/recurrence';
 
 // Extend PaginationOptions to include status filter
 type TaskPaginationOptions = PaginationOptions & {
@@ -27,110 +31,848 @@ export const TaskPriority = z.enum([
 export type TaskStatus = z.infer<typeof TaskStatus>;
 export type TaskPriority = z.infer<typeof TaskPriority>;
 
-// Schema with defaults for runtime validation
-export const TaskSchema = z.object({
-  id: z.string().uuid().optional(),
-  title: z.string(),
-  description: z.string().optional(),
+// Statuses of tasks still waiting to be done
+export const OPEN_TASK_STATUSES: TaskStatus[] = ['pending', 'in_progress', 'blocked'];
+
+// Statuses of tasks that no longer hold up the tasks depending on them
+export const RESOLVED_TASK_STATUSES: TaskStatus[] = ['completed', 'cancelled'];
+
+// Reminders can be set up to 30 days before the due date
+export const MAX_REMINDER_OFFSET_MINUTES = 30 * 24 * 60;
+
+// Bounds on subtask trees, for both traversal and responses
+export const MAX_TREE_DEPTH = 10;
+export const MAX_TREE_SIZE = 500;
+
+const DEPENDENCIES_TABLE = 'task_dependencies';
+
+/**
+ * Fields clients may set on a task. The API validates requests with the
+ * schemas derived from it, and the model validates rows with TaskSchema,
+ * which extends it.
+ */
+export const TaskFieldsSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().nullable().optional(),
   status: TaskStatus.default('pending'),
   priority: TaskPriority.default('medium'),
-  due_date: z.string().or(z.date()).optional(),
-  completed_at: z.string().or(z.date()).optional(),
-  assignee_id: z.string().uuid().optional(),
-  created_by: z.string().uuid().optional(),
-  related_entity_id: z.string().uuid().optional(),
-  related_event_id: z.string().uuid().optional(),
+  due_date: z.string().or(z.date()).nullable().optional(),
+  assignee_id: z.string().uuid().nullable().optional(),
+  created_by: z.string().uuid().nullable().optional(),
+  related_entity_id: z.string().uuid().nullable().optional(),
+  related_event_id: z.string().uuid().nullable().optional(),
+  // Subtasks point at their parent
+  parent_id: z.string().uuid().nullable().optional(),
   metadata: z.record(z.unknown()).default({}),
+  // RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO; completing the task creates the next occurrence
+  recurrence_rule: z.string().nullable().optional(),
+  // Minutes before the due date to send a reminder
+  reminder_offsets: z.array(z.number().int().positive()).nullable().optional(),
+});
+
+export const TaskCreateSchema = TaskFieldsSchema;
+export const TaskUpdateSchema = TaskFieldsSchema.partial();
+
+// Schema with defaults for runtime validation
+export const TaskSchema = TaskFieldsSchema.extend({
+  id: z.string().uuid().optional(),
+  // Allows rows written before titles were required
+  title: z.string(),
+  completed_at: z.string().or(z.date()).nullable().optional(),
+  recurrence_index: z.number().int().optional(),
+  previous_occurrence_id: z.string().uuid().nullable().optional(),
+  snoozed_until: z.string().or(z.date()).nullable().optional(),
+  reminded_at: z.string().or(z.date()).nullable().optional(),
+  overdue_notified_at: z.string().or(z.date()).nullable().optional(),
+  escalation_level: z.number().int().optional(),
+  // Set while the task is blocked by its dependencies: the status to return to
+  status_before_block: TaskStatus.nullable().optional(),
+  verification_status: VerificationStatus.optional(),
+  embedding_model: z.string().nullable().optional(),
   created_at: z.date().or(z.string()).optional(),
   updated_at: z.date().or(z.string()).optional(),
   deleted_at: z.date().or(z.string()).nullable().optional(),
 });
 
+export const TASK_SORT_FIELDS = ['created_at', 'updated_at', 'due_date', 'priority', 'title'] as const;
+export type TaskSortField = typeof TASK_SORT_FIELDS[number];
+
+// Query strings arrive as text, typed callers pass dates and numbers
+const queryDate = z.union([z.string(), z.date()]).pipe(z.coerce.date());
+
+// Comma separated lists are accepted as well as repeated query parameters
+const listOf = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  value => typeof value === 'string' ? value.split(',').map(part => part.trim()).filter(Boolean) : value,
+  z.array(item).min(1)
+);
+
+/**
+ * Filters, sort order and cursor for listing tasks
+ */
+export const TaskListQuerySchema = z.object({
+  status: listOf(TaskStatus).optional(),
+  priority: listOf(TaskPriority).optional(),
+  assignee_id: z.string().uuid().optional(),
+  related_entity_id: z.string().uuid().optional(),
+  related_event_id: z.string().uuid().optional(),
+  parent_id: z.string().uuid().optional(),
+  // Due in [due_after, due_before)
+  due_after: queryDate.optional(),
+  due_before: queryDate.optional(),
+  // Case-insensitive match on title or description
+  q: z.string().min(1).max(200).optional(),
+  // Soft deleted tasks: left out, listed too, or listed alone
+  deleted: z.enum(['exclude', 'include', 'only']).default('exclude'),
+  sort_by: z.enum(TASK_SORT_FIELDS).default('created_at'),
+  sort_order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.union([z.string(), z.number()]).pipe(z.coerce.number().int().min(1).max(100)).default(20),
+  cursor: z.string().optional(),
+});
+
+export type TaskListQuery = z.input<typeof TaskListQuerySchema>;
+
+export interface TaskPage {
+  data: Task[];
+  pagination: {
+    limit: number;
+    /** Pass as `cursor` to get the next page; null on the last page */
+    next_cursor: string | null;
+    has_more: boolean;
+  };
+}
+
 export type Task = z.infer<typeof TaskSchema>;
 type TaskInput = Omit<Task, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
 type TaskUpdate = Partial<Omit<Task, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>>;
 
+export interface TaskSummary {
+  id: string;
+  title: string;
+  status: TaskStatus;
+}
+
+/**
+ * A task with its subtasks, recursively
+ */
+export interface TaskTree {
+  task: Task;
+  /** Tasks this one depends on directly */
+  depends_on: TaskSummary[];
+  /** Unfinished tasks holding this one up, its ancestors' dependencies included */
+  blocked_by: TaskSummary[];
+  subtasks: TaskTree[];
+}
+
+function toSummary(task: Task): TaskSummary {
+  return { id: task.id as string, title: task.title, status: task.status };
+}
+
+// SQL each sort field orders by. Tasks without a due date sort as due last,
+// and priorities sort by rank rather than by name.
+const SORT_KEYS: Record<TaskSortField, string> = {
+  created_at: 'created_at',
+  updated_at: 'updated_at',
+  due_date: `coalesce(due_date, '9999-12-31T23:59:59.999Z')`,
+  priority: `case priority ${TaskPriority.options.map((priority, rank) => `when '${priority}' then ${rank}`).join(' ')} end`,
+  title: 'title',
+};
+
+// Timestamps go into cursors as text: Postgres keeps microseconds that a
+// JavaScript Date would drop
+const TEXT_SORT_KEYS: TaskSortField[] = ['created_at', 'updated_at', 'due_date'];
+
+interface TaskCursor {
+  sort_by: TaskSortField;
+  sort_order: 'asc' | 'desc';
+  key: string | number;
+  id: string;
+}
+
+function encodeCursor(cursor: TaskCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string, sortBy: TaskSortField, sortOrder: 'asc' | 'desc'): TaskCursor {
+  let cursor: TaskCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+  if (!cursor || typeof cursor.id !== 'string' || !['string', 'number'].includes(typeof cursor.key)) {
+    throw new ValidationError('Invalid cursor');
+  }
+  if (cursor.sort_by !== sortBy || cursor.sort_order !== sortOrder) {
+    throw new ValidationError('The cursor belongs to a listing with another sort order');
+  }
+  return cursor;
+}
+
+// Scheduler state cleared when a task's due date moves
+const UNNOTIFIED: TaskUpdate = {
+  snoozed_until: null,
+  reminded_at: null,
+  overdue_notified_at: null,
+  escalation_level: 0,
+};
+
+function toIso(value: string | Date | null | undefined): string | null | undefined {
+  if (value === null || value === undefined) return value;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new ValidationError('Task dates must be ISO 8601 dates');
+  return date.toISOString();
+}
+
+/**
+ * Reject recurrence rules and reminder offsets the scheduler cannot act on
+ */
+function checkSchedule(data: TaskUpdate): void {
+  if (data.recurrence_rule) {
+    parseRecurrenceRule(data.recurrence_rule);
+  }
+  if (data.reminder_offsets !== undefined && data.reminder_offsets !== null) {
+    const valid = Array.isArray(data.reminder_offsets) && data.reminder_offsets.every(offset =>
+      Number.isInteger(offset) && offset >= 1 && offset <= MAX_REMINDER_OFFSET_MINUTES
+    );
+    if (!valid) {
+      throw new ValidationError(
+        `reminder_offsets must be a list of minutes from 1 to ${MAX_REMINDER_OFFSET_MINUTES}`
+      );
+    }
+  }
+}
+
 export class TaskModel extends BaseModel<Task, TaskInput, TaskUpdate> {
-  private neo4jSession: Session;
+  private graphStore: GraphStore;
+  private vectorStore?: VectorStore;
 
-  constructor(db: Knex, neo4jSession: Session) {
-    super('tasks', TaskSchema as unknown as ZodType<Task>, db, true);
-    this.neo4jSession = neo4jSession;
+  constructor(db: Knex, graphStore: GraphStore, vectorStore?: VectorStore) {
+    super('tasks', TaskSchema as unknown as ZodType<Task>, db, true, true);
+    this.graphStore = graphStore;
+    this.vectorStore = vectorStore;
   }
 
   /**
-   * Create a new task with graph relationships
+   * Create a new task with graph relationships, optionally depending on
+   * existing tasks. A task created under a blocked parent, or with
+   * unfinished dependencies, starts out blocked.
    */
   override async create(
     data: TaskInput,
     trx?: Knex.Transaction,
-    _options?: Record<string, unknown>
+    options: { dependsOn?: string[] } = {}
   ): Promise<Task> {
+    checkSchedule(data);
+
+    // A new task has no dependents or subtasks yet, so it cannot close a cycle
+    const dependsOn = Array.from(new Set(options.dependsOn ?? []));
+    const referenced = data.parent_id ? [...dependsOn, data.parent_id] : dependsOn;
+    const known = new Set((await this.findByIds(referenced, trx)).map(task => task.id));
+    const missing = referenced.filter(id => !known.has(id));
+    if (missing.length > 0) {
+      throw new NotFoundError(`Task ${missing[0]} not found`);
+    }
+
+    // Tasks keep only their vector in the vector store, not in the row
+    const embedding = this.vectorStore
+      ? await this.generateEmbedding(`${data.title} ${data.description || ''}`.trim())
+      : [];
+
     // Ensure required fields have default values
     const taskData: TaskInput = {
       ...data,
       status: data.status || 'pending',
       priority: data.priority || 'medium',
       metadata: data.metadata || {},
+      due_date: toIso(data.due_date),
+      embedding_model: embedding.length > 0 ? getEmbeddingFunction().id : null,
     };
 
     // Create in relational DB
     const task = await super.create(taskData, trx);
 
+    if (this.vectorStore && embedding.length > 0) {
+      try {
+        await this.vectorStore.upsert('tasks', [{
+          id: task.id as string,
+          embedding,
+          metadata: { status: task.status, priority: task.priority },
+          document: `${task.title} ${task.description || ''}`.trim(),
+        }]);
+      } catch (error) {
+        console.error('Error indexing task vector:', error);
+      }
+    }
+
     try {
       // Create in graph DB
-      await this.neo4jSession.writeTransaction((tx: Transaction) =>
-        tx.run(
-          `CREATE (t:Task {
-            id: $id,
-            title: $title,
-            status: $status,
-            priority: $priority,
-            dueDate: datetime($dueDate),
-            createdAt: datetime()
-          })`,
-          {
-            id: task.id,
-            title: task.title,
-            status: task.status,
-            priority: task.priority,
-            dueDate: task.due_date ? new Date(task.due_date).toISOString() : null,
-          }
-        )
-      );
+      await this.graphStore.upsertNode({
+        label: 'Task',
+        id: task.id as string,
+        properties: {
+          title: task.title,
+          status: task.status,
+          priority: task.priority,
+          dueDate: task.due_date ? new Date(task.due_date).toISOString() : null,
+          createdAt: new Date().toISOString(),
+        },
+      }, trx);
 
       // Create relationships if assignee or related entities exist
+      const edges: GraphEdgeInput[] = [];
       if (task.assignee_id) {
-        await this.neo4jSession.writeTransaction((tx: Transaction) =>
-          tx.run(
-            `MATCH (e:Entity {id: $assigneeId}), (t:Task {id: $taskId})
-             MERGE (e)-[:ASSIGNED_TO]->(t)`,
-            {
-              assigneeId: task.assignee_id,
-              taskId: task.id,
-            }
-          )
-        );
+        edges.push({
+          type: 'ASSIGNED_TO',
+          from: { label: 'Entity', id: task.assignee_id },
+          to: { label: 'Task', id: task.id as string },
+        });
       }
-
       if (task.related_entity_id) {
-        await this.neo4jSession.writeTransaction((tx: Transaction) =>
-          tx.run(
-            `MATCH (e:Entity {id: $entityId}), (t:Task {id: $taskId})
-             MERGE (t)-[:RELATED_TO]->(e)`,
-            {
-              entityId: task.related_entity_id,
-              taskId: task.id,
-            }
-          )
-        );
+        edges.push({
+          type: 'RELATED_TO',
+          from: { label: 'Task', id: task.id as string },
+          to: { label: 'Entity', id: task.related_entity_id },
+        });
       }
-
-      return task;
+      // Edges between tasks are removed again by ID, and Neo4j only
+      // matches edges on an id property
+      if (task.parent_id) {
+        edges.push({
+          type: 'SUBTASK_OF',
+          id: uuidv4(),
+          from: { label: 'Task', id: task.id as string },
+          to: { label: 'Task', id: task.parent_id },
+        });
+      }
+      await this.graphStore.mergeEdges(edges, trx);
     } catch (error) {
       console.error('Error creating task in graph DB:', error);
       throw error;
     }
+
+    if (dependsOn.length > 0) {
+      await (trx || this.db)(DEPENDENCIES_TABLE).insert(dependsOn.map(dependsOnId => ({
+        task_id: task.id,
+        depends_on_id: dependsOnId,
+        created_at: new Date().toISOString(),
+      })));
+      await this.graphStore.mergeEdges(dependsOn.map(dependsOnId => ({
+        type: 'DEPENDS_ON',
+        id: uuidv4(),
+        from: { label: 'Task', id: task.id as string },
+        to: { label: 'Task', id: dependsOnId },
+      })), trx);
+    }
+
+    if (dependsOn.length > 0 || task.parent_id) {
+      await this.refreshBlocked([task.id as string], trx);
+      return (await this.findById(task.id as string, trx)) ?? task;
+    }
+    return task;
+  }
+
+  /**
+   * Update a task. Moving the due date resets its reminders and escalation;
+   * completing a recurring task creates its next occurrence. Finishing or
+   * reopening a task, or moving it to another parent, updates the blocked
+   * state of the tasks waiting on it.
+   */
+  override async update(
+    id: string,
+    data: TaskUpdate,
+    trx?: Knex.Transaction
+  ): Promise<Task | null> {
+    checkSchedule(data);
+
+    const updateFn = async (tx: Knex.Transaction) => {
+      const existing = await this.findById(id, tx);
+      if (!existing) return null;
+      if (data.parent_id) {
+        await this.checkParent(id, data.parent_id, tx);
+      }
+
+      const changes: TaskUpdate = { ...data };
+      // A status set by hand replaces any status saved while blocked
+      if (data.status !== undefined && data.status_before_block === undefined) {
+        changes.status_before_block = null;
+      }
+      if (data.due_date !== undefined) {
+        changes.due_date = toIso(data.due_date);
+        if (toIso(existing.due_date) !== changes.due_date) Object.assign(changes, UNNOTIFIED);
+      }
+
+      const completing = data.status === 'completed' && existing.status !== 'completed';
+      if (completing && !data.completed_at) {
+        changes.completed_at = new Date().toISOString();
+      }
+
+      const task = await super.update(id, changes, tx);
+      if (!task) return null;
+
+      if (completing && task.recurrence_rule) {
+        await this.createNextOccurrence(task, tx);
+      }
+
+      const reparented = data.parent_id !== undefined && (data.parent_id ?? null) !== (existing.parent_id ?? null);
+      if (reparented) {
+        await this.moveSubtaskEdge(id, existing.parent_id ?? null, task.parent_id ?? null, tx);
+      }
+
+      const resolvedChanged = RESOLVED_TASK_STATUSES.includes(existing.status) !== RESOLVED_TASK_STATUSES.includes(task.status);
+      const waiting = [
+        ...(resolvedChanged ? await this.dependentIds([id], tx) : []),
+        ...(reparented ? [id] : []),
+      ];
+      if (waiting.length > 0) {
+        await this.refreshBlocked(waiting, tx);
+        return this.findById(id, tx);
+      }
+      return task;
+    };
+
+    return trx ? updateFn(trx) : this.withTransaction(updateFn);
+  }
+
+  /**
+   * Soft delete a task. A deleted task no longer holds up its dependents,
+   * and its subtasks stop inheriting its dependencies.
+   */
+  override async softDeleteById(id: string, trx?: Knex.Transaction): Promise<boolean> {
+    const deleteFn = async (tx: Knex.Transaction) => {
+      if (!await this.findById(id, tx)) return false;
+
+      const waiting = [...await this.dependentIds([id], tx), ...await this.childIds([id], tx)];
+      const deleted = await super.softDeleteById(id, tx);
+      if (deleted) await this.refreshBlocked(waiting, tx);
+      return deleted;
+    };
+
+    return trx ? deleteFn(trx) : this.withTransaction(deleteFn);
+  }
+
+  /**
+   * Restore a soft deleted task, blocking its dependents again if it is
+   * unfinished
+   */
+  override async restore(id: string, trx?: Knex.Transaction): Promise<Task | null> {
+    const restoreFn = async (tx: Knex.Transaction) => {
+      const task = await super.restore(id, tx);
+      if (!task) return null;
+
+      await this.refreshBlocked([id, ...await this.dependentIds([id], tx)], tx);
+      return this.findById(id, tx);
+    };
+
+    return trx ? restoreFn(trx) : this.withTransaction(restoreFn);
+  }
+
+  /**
+   * Make a task depend on another. Rejects dependencies that would form a
+   * cycle through dependencies and subtasks, since every task in it would
+   * wait on itself.
+   */
+  async addDependency(taskId: string, dependsOnId: string, trx?: Knex.Transaction): Promise<Task> {
+    if (taskId === dependsOnId) {
+      throw new ValidationError('A task cannot depend on itself');
+    }
+
+    // Checked in the same transaction as the insert, so two concurrent
+    // requests cannot each add half of a cycle
+    const addFn = async (tx: Knex.Transaction) => {
+      const [task, dependency] = await Promise.all([
+        this.findById(taskId, tx),
+        this.findById(dependsOnId, tx),
+      ]);
+      if (!task) throw new NotFoundError(`Task ${taskId} not found`);
+      if (!dependency) throw new NotFoundError(`Task ${dependsOnId} not found`);
+      if (await this.waitsOn(dependsOnId, taskId, tx)) {
+        throw new ValidationError(`Task ${taskId} cannot depend on ${dependsOnId}: it would create a cycle`);
+      }
+
+      const existing = await tx(DEPENDENCIES_TABLE).where({ task_id: taskId, depends_on_id: dependsOnId }).first();
+      if (!existing) {
+        await tx(DEPENDENCIES_TABLE).insert({
+          task_id: taskId,
+          depends_on_id: dependsOnId,
+          created_at: new Date().toISOString(),
+        });
+        await this.graphStore.mergeEdges([{
+          type: 'DEPENDS_ON',
+          id: uuidv4(),
+          from: { label: 'Task', id: taskId },
+          to: { label: 'Task', id: dependsOnId },
+        }], tx);
+        await this.refreshBlocked([taskId], tx);
+      }
+      return (await this.findById(taskId, tx)) as Task;
+    };
+
+    return trx ? addFn(trx) : this.withTransaction(addFn);
+  }
+
+  /**
+   * Remove a dependency, unblocking the task if nothing else holds it up.
+   * Returns false if the task had no such dependency.
+   */
+  async removeDependency(taskId: string, dependsOnId: string, trx?: Knex.Transaction): Promise<boolean> {
+    const removeFn = async (tx: Knex.Transaction) => {
+      const count = await tx(DEPENDENCIES_TABLE).where({ task_id: taskId, depends_on_id: dependsOnId }).del();
+      if (count === 0) return false;
+
+      const edges = await this.graphStore.getEdges(
+        { label: 'Task', id: taskId },
+        { types: ['DEPENDS_ON'], direction: 'out', label: 'Task' },
+        tx
+      );
+      for (const edge of edges.filter(edge => edge.target === dependsOnId)) {
+        await this.graphStore.deleteEdge(edge.id, tx);
+      }
+
+      await this.refreshBlocked([taskId], tx);
+      return true;
+    };
+
+    return trx ? removeFn(trx) : this.withTransaction(removeFn);
+  }
+
+  /**
+   * Tasks a task depends on directly, oldest dependency first
+   */
+  async getDependencies(taskId: string, trx?: Knex.Transaction): Promise<Task[]> {
+    const rows = await (trx || this.db)(DEPENDENCIES_TABLE)
+      .where({ task_id: taskId })
+      .orderBy('created_at', 'asc');
+    return this.findByIds(rows.map(row => String(row.depends_on_id)), trx);
+  }
+
+  /**
+   * A task with its subtasks, their dependencies and what blocks them,
+   * down to MAX_TREE_DEPTH levels and MAX_TREE_SIZE tasks
+   */
+  async getTree(id: string, trx?: Knex.Transaction): Promise<TaskTree | null> {
+    const root = await this.findById(id, trx);
+    if (!root) return null;
+
+    let size = 1;
+    const build = async (task: Task, depth: number): Promise<TaskTree> => {
+      const [dependencies, blockers] = await Promise.all([
+        this.getDependencies(task.id as string, trx),
+        this.findBlockers(task.id as string, trx),
+      ]);
+      const node: TaskTree = {
+        task,
+        depends_on: dependencies.map(toSummary),
+        blocked_by: blockers.map(toSummary),
+        subtasks: [],
+      };
+      if (depth >= MAX_TREE_DEPTH) return node;
+
+      const children = await this.query(trx)
+        .where({ parent_id: task.id })
+        .orderBy('created_at', 'asc')
+        .limit(Math.max(0, MAX_TREE_SIZE - size));
+      size += children.length;
+      for (const child of children) {
+        node.subtasks.push(await build(this.toEntity(child), depth + 1));
+      }
+      return node;
+    };
+
+    return build(root, 0);
+  }
+
+  /**
+   * Unfinished tasks holding a task up: its own dependencies and those of
+   * its ancestors
+   */
+  async findBlockers(taskId: string, trx?: Knex.Transaction): Promise<Task[]> {
+    const waiting = [taskId, ...await this.ancestorIds(taskId, trx)];
+    const rows = await (trx || this.db)(DEPENDENCIES_TABLE).whereIn('task_id', waiting);
+    const dependencies = await this.findByIds(
+      Array.from(new Set(rows.map(row => String(row.depends_on_id)))),
+      trx
+    );
+    return dependencies.filter(task => !RESOLVED_TASK_STATUSES.includes(task.status));
+  }
+
+  /**
+   * Block tasks (and their subtasks) that have unfinished dependencies, and
+   * unblock those that no longer do. Tasks blocked by hand, and finished
+   * tasks, are left alone.
+   */
+  private async refreshBlocked(ids: string[], trx?: Knex.Transaction): Promise<void> {
+    const targets = new Set(ids);
+    let frontier = ids;
+    for (let depth = 0; depth < MAX_TREE_DEPTH && frontier.length > 0 && targets.size < MAX_TREE_SIZE; depth++) {
+      frontier = (await this.childIds(frontier, trx)).filter(id => !targets.has(id));
+      frontier.forEach(id => targets.add(id));
+    }
+
+    for (const task of await this.findByIds(Array.from(targets), trx)) {
+      const blocked = (await this.findBlockers(task.id as string, trx)).length > 0;
+
+      if (blocked && (task.status === 'pending' || task.status === 'in_progress')) {
+        await this.update(task.id as string, { status: 'blocked', status_before_block: task.status }, trx);
+      } else if (!blocked && task.status === 'blocked' && task.status_before_block) {
+        await this.update(task.id as string, { status: task.status_before_block, status_before_block: null }, trx);
+      }
+    }
+  }
+
+  /**
+   * Whether `from` waits on `target`, following dependencies and subtasks'
+   * parents (a subtask waits on whatever its parent waits on)
+   */
+  private async waitsOn(from: string, target: string, trx?: Knex.Transaction): Promise<boolean> {
+    const db = trx || this.db;
+    const seen = new Set([from]);
+    let frontier = [from];
+
+    while (frontier.length > 0) {
+      if (frontier.includes(target)) return true;
+
+      const [dependencies, parents] = await Promise.all([
+        db(DEPENDENCIES_TABLE).whereIn('task_id', frontier).pluck('depends_on_id'),
+        db(this.tableName).whereIn('id', frontier).whereNotNull('parent_id').pluck('parent_id'),
+      ]);
+      frontier = [...dependencies, ...parents].map(String).filter(id => !seen.has(id));
+      frontier.forEach(id => seen.add(id));
+    }
+    return false;
+  }
+
+  /**
+   * Reject a parent that is the task itself or would make the task wait on
+   * itself through its new parent
+   */
+  private async checkParent(id: string, parentId: string, trx?: Knex.Transaction): Promise<void> {
+    if (parentId === id) {
+      throw new ValidationError('A task cannot be its own parent');
+    }
+    if (!await this.findById(parentId, trx)) {
+      throw new NotFoundError(`Task ${parentId} not found`);
+    }
+    if (await this.waitsOn(parentId, id, trx)) {
+      throw new ValidationError(`Task ${parentId} cannot be the parent of ${id}: it would create a cycle`);
+    }
+  }
+
+  private async moveSubtaskEdge(
+    id: string,
+    from: string | null,
+    to: string | null,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    if (from) {
+      const edges = await this.graphStore.getEdges(
+        { label: 'Task', id },
+        { types: ['SUBTASK_OF'], direction: 'out', label: 'Task' },
+        trx
+      );
+      for (const edge of edges.filter(edge => edge.target === from)) {
+        await this.graphStore.deleteEdge(edge.id, trx);
+      }
+    }
+    if (to) {
+      await this.graphStore.mergeEdges([{
+        type: 'SUBTASK_OF',
+        id: uuidv4(),
+        from: { label: 'Task', id },
+        to: { label: 'Task', id: to },
+      }], trx);
+    }
+  }
+
+  // Live tasks that depend directly on any of the given tasks
+  private async dependentIds(ids: string[], trx?: Knex.Transaction): Promise<string[]> {
+    const rows = await (trx || this.db)(DEPENDENCIES_TABLE).whereIn('depends_on_id', ids).pluck('task_id');
+    return Array.from(new Set(rows.map(String)));
+  }
+
+  // Live subtasks of any of the given tasks
+  private async childIds(ids: string[], trx?: Knex.Transaction): Promise<string[]> {
+    const rows = await this.query(trx).whereIn('parent_id', ids).pluck('id');
+    return rows.map(String);
+  }
+
+  // Live ancestors of a task, nearest first
+  private async ancestorIds(id: string, trx?: Knex.Transaction): Promise<string[]> {
+    const ancestors: string[] = [];
+    let current = await this.query(trx).where({ id }).first('parent_id');
+
+    while (current?.parent_id && ancestors.length < MAX_TREE_DEPTH && !ancestors.includes(String(current.parent_id))) {
+      const parent = await this.query(trx).where({ id: current.parent_id }).first('id', 'parent_id');
+      if (!parent) break;
+      ancestors.push(String(parent.id));
+      current = parent;
+    }
+    return ancestors;
+  }
+
+  /**
+   * Silence a task's reminders until a point in time. Overdue tasks are
+   * reported again once the snooze ends.
+   */
+  async snooze(id: string, until: Date, trx?: Knex.Transaction): Promise<Task | null> {
+    return this.update(id, { snoozed_until: until.toISOString(), overdue_notified_at: null }, trx);
+  }
+
+  /**
+   * The occurrence created when a recurring task was completed, if any
+   */
+  async findNextOccurrence(id: string, trx?: Knex.Transaction): Promise<Task | null> {
+    return this.findOne({ previous_occurrence_id: id }, trx);
+  }
+
+  /**
+   * Open tasks due by the horizon (overdue ones included), soonest first
+   */
+  async findDueBy(horizon: Date, limit = 500): Promise<Task[]> {
+    const results = await this.query()
+      .whereIn('status', OPEN_TASK_STATUSES)
+      .whereNotNull('due_date')
+      .where('due_date', '<=', horizon.toISOString())
+      .orderBy('due_date', 'asc')
+      .limit(limit);
+
+    return results.map(result => this.toEntity(result));
+  }
+
+  /**
+   * Record the reminders sent for a task. Not versioned: this is scheduler
+   * bookkeeping, not a change to the task.
+   */
+  async recordNotification(
+    id: string,
+    state: Pick<TaskUpdate, 'reminded_at' | 'overdue_notified_at'>
+  ): Promise<void> {
+    await this.query().where({ id }).update(this.toRow(state));
+  }
+
+  /**
+   * Create the occurrence after a completed one. Occurrences already in the
+   * past are skipped, so a task completed late comes back once, not once
+   * per missed occurrence.
+   */
+  private async createNextOccurrence(task: Task, trx: Knex.Transaction): Promise<Task | null> {
+    const rule = parseRecurrenceRule(task.recurrence_rule as string);
+    const now = Date.now();
+
+    let index = task.recurrence_index ?? 0;
+    let next = nextOccurrence(rule, new Date(task.due_date ?? task.completed_at ?? now), index);
+    while (next && next.getTime() <= now) {
+      index++;
+      next = nextOccurrence(rule, next, index);
+    }
+    if (!next) return null;
+
+    // The next occurrence starts from the priority the task had before escalation
+    const levels = TaskPriority.options;
+    const priority = levels[Math.max(0, levels.indexOf(task.priority) - (task.escalation_level ?? 0))];
+
+    return this.create({
+      title: task.title,
+      description: task.description,
+      status: 'pending',
+      priority,
+      due_date: next.toISOString(),
+      assignee_id: task.assignee_id,
+      created_by: task.created_by,
+      related_entity_id: task.related_entity_id,
+      related_event_id: task.related_event_id,
+      parent_id: task.parent_id,
+      metadata: task.metadata,
+      recurrence_rule: task.recurrence_rule,
+      recurrence_index: index + 1,
+      previous_occurrence_id: task.id,
+      reminder_offsets: task.reminder_offsets,
+    }, trx);
+  }
+
+  /**
+   * Find the tasks closest to a query embedding. Returns null when no vector
+   * store is configured.
+   */
+  async searchSimilar(
+    embedding: number[],
+    options: { limit: number; status?: TaskStatus }
+  ): Promise<Array<{ task: Task; score: number }> | null> {
+    if (!this.vectorStore) return null;
+
+    const matches = await this.vectorStore.query('tasks', {
+      embedding,
+      limit: options.limit,
+      filter: options.status && { equals: { status: options.status } },
+    });
+
+    const hydrated = await this.hydrateMatches(matches);
+    return hydrated.map(({ item, score }) => ({ task: item, score }));
+  }
+
+  /**
+   * List tasks matching the filters, a page at a time. Pages follow a cursor
+   * (the sort key and id of the last task), so tasks created or deleted
+   * while paging neither repeat nor go missing.
+   */
+  async list(query: TaskListQuery = {}, trx?: Knex.Transaction): Promise<TaskPage> {
+    const parsed = TaskListQuerySchema.safeParse(query);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid task query', parsed.error.issues);
+    }
+    const options = parsed.data;
+    const db = trx || this.db;
+
+    const builder = options.deleted === 'exclude' ? this.query(trx) : db(this.tableName);
+    if (options.deleted === 'only') builder.whereNotNull('deleted_at');
+    if (options.status) builder.whereIn('status', options.status);
+    if (options.priority) builder.whereIn('priority', options.priority);
+    for (const field of ['assignee_id', 'related_entity_id', 'related_event_id', 'parent_id'] as const) {
+      if (options[field]) builder.where(field, options[field]);
+    }
+    if (options.due_after) builder.where('due_date', '>=', options.due_after.toISOString());
+    if (options.due_before) builder.where('due_date', '<', options.due_before.toISOString());
+    if (options.q) {
+      const pattern = `%${options.q.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      builder.where(inner => inner
+        .whereRaw(`lower(title) like ? escape '\\'`, [pattern])
+        .orWhereRaw(`lower(description) like ? escape '\\'`, [pattern]));
+    }
+
+    const key = SORT_KEYS[options.sort_by];
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor, options.sort_by, options.sort_order);
+      const op = options.sort_order === 'asc' ? '>' : '<';
+      builder.where(inner => inner
+        .whereRaw(`${key} ${op} ?`, [cursor.key])
+        .orWhere(tie => tie.whereRaw(`${key} = ?`, [cursor.key]).where('id', op, cursor.id)));
+    }
+
+    const selectedKey = TEXT_SORT_KEYS.includes(options.sort_by) ? `cast(${key} as text)` : key;
+    const rows = await builder
+      .select('*', db.raw(`${selectedKey} as sort_key`))
+      .orderByRaw(`${key} ${options.sort_order}`)
+      .orderBy('id', options.sort_order)
+      .limit(options.limit + 1);
+
+    const hasMore = rows.length > options.limit;
+    const page = rows.slice(0, options.limit);
+    const last = page[page.length - 1];
+
+    return {
+      data: page.map(({ sort_key, ...row }) => this.toEntity(row)),
+      pagination: {
+        limit: options.limit,
+        next_cursor: hasMore
+          ? encodeCursor({
+            sort_by: options.sort_by,
+            sort_order: options.sort_order,
+            key: last.sort_key,
+            id: String(last.id),
+          })
+          : null,
+        has_more: hasMore,
+      },
+    };
   }
 
   /**
@@ -149,7 +891,7 @@ export class TaskModel extends BaseModel<Task, TaskInput, TaskUpdate> {
     }
 
     // Otherwise, use the standard SQL-based query with proper pagination
-    const query = (trx || this.db)(this.tableName).where(filters);
+    const query = this.query(trx).where(filters);
 
     // Apply pagination
     const page = options.page || 1;
@@ -157,7 +899,7 @@ export class TaskModel extends BaseModel<Task, TaskInput, TaskUpdate> {
     const queryOffset = (page - 1) * pageSize;
 
     // Get total count for pagination
-    const countResult = await (trx || this.db)(this.tableName)
+    const countResult = await this.query(trx)
       .where(filters)
       .count('* as count')
       .first();
@@ -187,7 +929,7 @@ export class TaskModel extends BaseModel<Task, TaskInput, TaskUpdate> {
   }
 
   /**
-   * Find tasks by assignee using graph DB
+   * Find tasks by assignee using the graph's ASSIGNED_TO edges
    */
   private async findByAssignee(
     userId: string,
@@ -200,68 +942,28 @@ export class TaskModel extends BaseModel<Task, TaskInput, TaskUpdate> {
     const queryOffset = (page - 1) * pageSize;
 
     try {
-      // First, get the count of all tasks for this assignee
-      let countCypher = `
-        MATCH (u:Entity {id: $userId})-[:ASSIGNED_TO]->(t:Task)
-        RETURN count(t) as count
-      `;
-
-      const countParams: Record<string, unknown> = { userId };
-      const countResult = await this.neo4jSession.readTransaction((tx: Transaction) =>
-        tx.run(countCypher, countParams)
+      const edges = await this.graphStore.getEdges(
+        { label: 'Entity', id: userId },
+        { types: ['ASSIGNED_TO'], direction: 'out', label: 'Task' },
+        trx
       );
+      const taskIds = edges.map(edge => edge.target);
 
-      const totalCount = countResult.records[0]?.get('count').toNumber() || 0;
-      const totalPages = Math.ceil(totalCount / pageSize);
-
-      // Then get the paginated results
-      let cypher = `
-        MATCH (u:Entity {id: $userId})-[:ASSIGNED_TO]->(t:Task)
-        WHERE 1=1
-      `;
-
-      const params: Record<string, unknown> = {
-        userId,
-        offset: queryOffset,
-        limit: pageSize
-      };
-
+      // Get full task details from the database
+      const query = this.query(trx).whereIn('id', taskIds);
       if (status && status.length > 0) {
-        cypher += ' AND t.status IN $status';
-        params.status = status;
+        query.whereIn('status', status);
       }
 
-      cypher += `
-        RETURN t
-        ORDER BY t.dueDate ASC, t.priority DESC
-        SKIP $offset
-        LIMIT $limit
-      `;
-
-      const result = await this.neo4jSession.readTransaction((tx: Transaction) =>
-        tx.run(cypher, params)
-      );
-
-      // Get full task details from the database
-      const taskIds = result.records.map(record => record.get('t').properties.id);
-      if (taskIds.length === 0) {
-        return {
-          data: [],
-          pagination: {
-            page,
-            pageSize,
-            totalItems: 0,
-            totalPages: 0,
-            hasNextPage: false,
-            hasPreviousPage: false,
-          },
-        };
-      }
+      const countResult = await query.clone().count('* as count').first();
+      const totalCount = countResult ? parseInt(countResult.count as string, 10) : 0;
+      const totalPages = Math.ceil(totalCount / pageSize);
 
-      const tasks = await (trx || this.db)('tasks')
-        .whereIn('id', taskIds)
+      const tasks = await query
         .orderBy('due_date', 'asc')
-        .orderBy('priority', 'desc');
+        .orderBy('priority', 'desc')
+        .offset(queryOffset)
+        .limit(pageSize);
 
       return {
         data: tasks.map(task => this.toEntity(task)),
@@ -304,46 +1006,115 @@ export class TaskModel extends BaseModel<Task, TaskInput, TaskUpdate> {
   ): Promise<Task[]> {
     const { status, limit = 10, offset = 0 } = options;
 
-    let cypher = `
-      MATCH (e:Entity {id: $entityId})<-[:RELATED_TO]-(t:Task)
-      WHERE 1=1
-    `;
+    try {
+      const edges = await this.graphStore.getEdges(
+        { label: 'Entity', id: entityId },
+        { types: ['RELATED_TO'], direction: 'in', label: 'Task' }
+      );
+      const taskIds = edges.map(edge => edge.source);
+      if (taskIds.length === 0) return [];
+
+      // Get full task details from the database
+      const query = this.query().whereIn('id', taskIds);
+      if (status && status.length > 0) {
+        query.whereIn('status', status);
+      }
+
+      const tasks = await query
+        .orderBy('due_date', 'asc')
+        .orderBy('priority', 'desc')
+        .offset(offset)
+        .limit(limit);
+
+      return tasks.map(task => this.toEntity(task));
+    } catch (error) {
+      console.error('Error finding tasks by entity:', error);
+      return [];
+    }
+  }
 
-    const params: Record<string, unknown> = { entityId };
+  /**
+   * Find tasks created in a window, oldest first, optionally only those
+   * assigned to or related to an entity
+   */
+  async findInPeriod(
+    start?: Date,
+    end?: Date,
+    options: { entityId?: string; limit?: number } = {}
+  ): Promise<Task[]> {
+    const query = this.query();
 
-    if (status && status.length > 0) {
-      cypher += ' AND t.status IN $status';
-      params.status = status;
+    if (start) query.where('created_at', '>=', start.toISOString());
+    if (end) query.where('created_at', '<=', end.toISOString());
+    if (options.entityId) {
+      query.andWhere(builder => builder
+        .where('assignee_id', options.entityId)
+        .orWhere('related_entity_id', options.entityId));
     }
 
-    cypher += `
-      RETURN t
-      ORDER BY t.dueDate ASC, t.priority DESC
-      SKIP $offset
-      LIMIT $limit
-    `;
+    const results = await query
+      .orderBy('created_at', 'desc')
+      .limit(options.limit || 500);
 
-    params.offset = offset;
-    params.limit = limit;
+    return results.reverse().map(result => this.toEntity(result));
+  }
 
-    try {
-      const result = await this.neo4jSession.readTransaction((tx: Transaction) =>
-        tx.run(cypher, params)
-      );
+  /**
+   * Unfinished tasks assigned to or related to an entity, soonest due first
+   */
+  async findOpenByEntity(entityId: string, limit = 100): Promise<Task[]> {
+    const results = await this.query()
+      .whereIn('status', ['pending', 'in_progress', 'blocked'])
+      .andWhere(builder => builder
+        .where('assignee_id', entityId)
+        .orWhere('related_entity_id', entityId))
+      .orderByRaw('due_date is null')
+      .orderBy('due_date', 'asc')
+      .limit(limit);
 
-      // Get full task details from the database
-      const taskIds = result.records.map(record => record.get('t').properties.id);
-      if (taskIds.length === 0) return [];
+    return results.map(result => this.toEntity(result));
+  }
 
-      const tasks = await this.db('tasks')
-        .whereIn('id', taskIds)
-        .orderBy('due_date', 'asc')
-        .orderBy('priority', 'desc');
+  /**
+   * Tasks extracted from any of the given events
+   */
+  async findByEvents(eventIds: string[], trx?: Knex.Transaction): Promise<Task[]> {
+    if (eventIds.length === 0) return [];
+
+    const results = await this.query(trx)
+      .whereIn('related_event_id', eventIds)
+      .orderBy('created_at', 'asc');
+
+    return results.map(result => this.toEntity(result));
+  }
 
-      return tasks.map(task => this.validate(task));
+  /**
+   * Convert a database record to a task
+   */
+  protected toEntity(data: any): Task {
+    // SQLite returns JSON columns as text
+    const parse = (value: unknown, fallback: unknown) =>
+      typeof value === 'string' ? JSON.parse(value || JSON.stringify(fallback)) : value ?? fallback;
+
+    return {
+      ...data,
+      metadata: parse(data.metadata, {}),
+      reminder_offsets: parse(data.reminder_offsets, null),
+      recurrence_index: data.recurrence_index !== undefined ? Number(data.recurrence_index) : undefined,
+      escalation_level: data.escalation_level !== undefined ? Number(data.escalation_level) : undefined,
+    };
+  }
+
+  /**
+   * Generate an embedding for the given text
+   */
+  private async generateEmbedding(text: string): Promise<number[]> {
+    try {
+      const result = await getEmbeddingFunction().generate([text]);
+      return Array.from(result[0]);
     } catch (error) {
-      console.error('Error finding tasks by entity:', error);
+      console.error('Error generating embedding:', error);
       return [];
     }
   }
-}
\ No newline at end of file
+}
@@ -9,14 +9,43 @@ import { RetrievalService } from './services/RetrievalService';
 import { EventModel } from './models/EventModel';
 import { EntityModel } from './models/EntityModel';
 import { TaskModel } from './models/TaskModel';
+import { FactModel } from './models/FactModel';
+import { CommitmentModel } from './models/CommitmentModel';
+import { SessionModel } from './models/SessionModel';
+import { ReviewDecisionModel } from './models/ReviewDecisionModel';
+import { RetentionPinModel } from './models/RetentionPinModel';
+import { BlobModel } from './models/BlobModel';
+import { MemorySummaryModel } from './models/MemorySummaryModel';
+import { MergeCandidateModel } from './models/MergeCandidateModel';
+import { EntityMergeModel } from './models/EntityMergeModel';
 import { WebSocketService } from './services/WebSocketService';
 import { EventProcessingService } from './services/EventProcessingService';
+import { ConsolidationService } from './services/ConsolidationService';
+import { ReembeddingService } from './services/ReembeddingService';
+import { TimelineService } from './services/TimelineService';
+import { EntityResolutionService } from './services/EntityResolutionService';
+import { PersonCardService } from './services/PersonCardService';
+import { RelationshipService } from './services/RelationshipService';
+import { GraphQueryService } from './services/GraphQueryService';
+import { TaskSchedulerService } from './services/TaskSchedulerService';
+import { SessionService } from './services/SessionService';
+import { ReviewService } from './services/ReviewService';
+import { RetentionService, type RetentionRuleInput } from './services/RetentionService';
+import { PrivacyService } from './services/PrivacyService';
+import { EmailCacheClient } from './services/EmailCacheClient';
+import { EncryptionService } from './services/EncryptionService';
+import { BlobService } from './services/BlobService';
+import { KeyRing } from './db/crypto/keyring';
+import { createBlobBackend } from './db/blob/store';
 import { initializeDatabases, closeConnections } from './db/init';
 import { logger } from './utils/logger';
-import { getChromaClient } from './db/vector/chroma';
-import { getDriver, getSession } from './db/graph/connection';
+import { getChromaClient, getEmbeddingFunction } from './db/vector/chroma';
+import type { VectorStore } from './db/vector/store';
+import type { GraphStore } from './db/graph/store';
+import { KeywordIndex } from './db/search/keywordIndex';
 import { getConnection, getKnexClient } from './db/relational/connection';
 import { PromptServiceClient } from './services/PromptServiceClient';
+import { HeuristicReranker, PromptServiceReranker } from './services/Reranker';
 import { TranscriptionService } from './services/TranscriptionService';
 import config from './config';
 
@@ -41,14 +70,34 @@ class MemoryServer {
   private server: Server;
   private io: SocketIOServer;
   private knex!: Knex;
-  private neo4jSession: any;
-  private chromaCollection: any;
+  private graphStore!: GraphStore;
+  private vectorStore!: VectorStore;
   private eventModel!: EventModel;
   private entityModel!: EntityModel;
   private taskModel!: TaskModel;
+  private factModel!: FactModel;
+  private commitmentModel!: CommitmentModel;
+  private sessionModel!: SessionModel;
+  private reviewDecisionModel!: ReviewDecisionModel;
+  private retentionPinModel!: RetentionPinModel;
+  private summaryModel!: MemorySummaryModel;
   private retrievalService!: RetrievalService;
   private webSocketService!: WebSocketService;
   private eventProcessingService!: EventProcessingService;
+  private consolidationService!: ConsolidationService;
+  private reembeddingService!: ReembeddingService;
+  private timelineService!: TimelineService;
+  private entityResolutionService!: EntityResolutionService;
+  private personCardService!: PersonCardService;
+  private relationshipService!: RelationshipService;
+  private graphQueryService!: GraphQueryService;
+  private taskSchedulerService!: TaskSchedulerService;
+  private sessionService!: SessionService;
+  private reviewService!: ReviewService;
+  private retentionService!: RetentionService;
+  private privacyService!: PrivacyService;
+  private encryptionService!: EncryptionService;
+  private blobService!: BlobService;
 
   private port: number;
 
@@ -70,7 +119,7 @@ class MemoryServer {
       await this.initializeDatabases();
 
       // Initialize models
-      this.initializeModels();
+      await this.initializeModels();
 
       // Initialize services
       await this.initializeServices();
@@ -97,72 +146,246 @@ class MemoryServer {
   private async initializeDatabases() {
     try {
       // Initialize all databases
-      const { knex, neo4jDriver, chromaCollections } = await initializeDatabases();
+      const { knex, graphStore, vectorStore } = await initializeDatabases();
 
       // Store connections
       this.knex = knex;
-      this.neo4jSession = getSession();
-      this.chromaCollection = chromaCollections.events; // Using events collection for now
+      this.graphStore = graphStore;
+      this.vectorStore = vectorStore;
 
       logger.info('All database connections established');
-      return { knex, neo4jSession: this.neo4jSession, chromaCollection: this.chromaCollection };
+      return { knex, graphStore: this.graphStore, vectorStore: this.vectorStore };
     } catch (error) {
       logger.error('Failed to initialize databases:', error);
       throw error;
     }
   }
 
-  private initializeModels() {
+  private async initializeModels() {
+    // Raw capture content and email bodies are sealed with the key ring when
+    // encryption is on; without a passphrase or key file it starts locked
+    const keyRing = config.encryption.enabled ? new KeyRing(config.encryption.keyRingPath) : null;
+
+    // Raw captures and attachments, sealed like event content when encryption is on
+    this.blobService = new BlobService(
+      new BlobModel(this.knex),
+      createBlobBackend(config.blobStore),
+      keyRing ?? undefined
+    );
+
+    this.encryptionService = new EncryptionService(this.knex, keyRing, { blobService: this.blobService });
+    if (keyRing && !await this.encryptionService.unlockFromConfig(config.encryption)) {
+      logger.warn('Encryption keys are locked; the API refuses requests until POST /api/v1/encryption/unlock');
+    }
+
     // Initialize models with proper types
     this.eventModel = new EventModel(
       this.knex,
-      this.neo4jSession,
-      this.chromaCollection
+      this.graphStore,
+      this.vectorStore,
+      this.encryptionService.cipher
     );
 
     this.entityModel = new EntityModel(
       this.knex,
-      this.neo4jSession,
-      this.chromaCollection
+      this.graphStore,
+      this.vectorStore
     );
 
     this.taskModel = new TaskModel(
       this.knex,
-      this.neo4jSession
+      this.graphStore,
+      this.vectorStore
     );
+
+    this.factModel = new FactModel(this.knex);
+
+    this.commitmentModel = new CommitmentModel(this.knex);
+
+    this.sessionModel = new SessionModel(this.knex, this.encryptionService.cipher);
+
+    this.reviewDecisionModel = new ReviewDecisionModel(this.knex);
+
+    this.retentionPinModel = new RetentionPinModel(this.knex);
+
+    this.summaryModel = new MemorySummaryModel(this.knex);
   }
 
   private async initializeServices() {
-    // Initialize RetrievalService with required models
+    // Initialize PromptServiceClient
+    const promptServiceUrl = process.env.PROMPT_SERVICE_URL || 'http://localhost:4003';
+    const promptService = new PromptServiceClient(promptServiceUrl);
+
+    // INTERACTED_WITH aggregates between entities, decayed daily
+    this.relationshipService = new RelationshipService(this.knex, this.graphStore, {
+      halfLifeDays: config.relationships.halfLifeDays,
+      runAtHour: config.relationships.decayHour,
+    });
+    this.relationshipService.start();
+
+    // Initialize RetrievalService with required models and the second-stage reranker
     this.retrievalService = new RetrievalService(
       this.eventModel,
       this.entityModel,
-      this.taskModel
+      this.taskModel,
+      this.summaryModel,
+      config.retrieval.reranker === 'prompt'
+        ? new PromptServiceReranker(promptService)
+        : new HeuristicReranker(),
+      this.relationshipService,
+      new KeywordIndex(this.knex)
     );
 
-    // Initialize PromptServiceClient
-    const promptServiceUrl = process.env.PROMPT_SERVICE_URL || 'http://localhost:4003';
-    const promptService = new PromptServiceClient(promptServiceUrl);
+    // Match mentions to canonical entities; close calls go to the review queue
+    this.entityResolutionService = new EntityResolutionService(
+      this.knex,
+      this.entityModel,
+      new MergeCandidateModel(this.knex),
+      new EntityMergeModel(this.knex),
+      config.entityResolution,
+      this.relationshipService
+    );
 
     // Initialize TranscriptionService
     const transcriptionService = new TranscriptionService(config.openaiApiKey || '');
 
+    // Group captures into meetings and work sessions; quiet sessions are
+    // closed and offered for review over the WebSocket
+    this.sessionService = new SessionService(
+      this.sessionModel,
+      this.eventModel,
+      { taskModel: this.taskModel, commitmentModel: this.commitmentModel, factModel: this.factModel },
+      promptService,
+      notification => this.webSocketService?.publish(notification),
+      config.sessions
+    );
+    if (config.sessions.enabled) {
+      this.sessionService.start();
+    }
+
+    // Low-confidence extractions wait in this queue for the user to verify them
+    this.reviewService = new ReviewService(
+      { eventModel: this.eventModel, taskModel: this.taskModel, entityModel: this.entityModel },
+      this.reviewDecisionModel
+    );
+
     // Initialize Event Processing Service
     this.eventProcessingService = new EventProcessingService({
       promptService: promptService as any,
       eventModel: this.eventModel,
       entityModel: this.entityModel,
       taskModel: this.taskModel,
-      neo4jSession: this.neo4jSession,
+      factModel: this.factModel,
+      commitmentModel: this.commitmentModel,
+      entityResolutionService: this.entityResolutionService,
+      relationshipService: this.relationshipService,
+      sessionService: this.sessionService,
+      graphStore: this.graphStore,
+      blobService: this.blobService,
       transcriptionService: transcriptionService,
+      confidenceThreshold: config.review.confidenceThreshold,
+      notify: notification => this.webSocketService?.publish(notification),
     });
 
+    // Initialize end-of-day memory consolidation
+    this.consolidationService = new ConsolidationService(
+      this.eventModel,
+      this.summaryModel,
+      promptService,
+      config.consolidation
+    );
+    if (config.consolidation.enabled) {
+      this.consolidationService.start();
+    }
+
+    // Hot, warm and cold lanes: raw captures are dropped, then whole events
+    // once their day is summarized
+    this.retentionService = new RetentionService(
+      {
+        eventModel: this.eventModel,
+        sessionModel: this.sessionModel,
+        summaryModel: this.summaryModel,
+        pinModel: this.retentionPinModel,
+        blobService: this.blobService,
+      },
+      this.consolidationService,
+      { ...config.retention, rules: config.retention.rules as RetentionRuleInput[] }
+    );
+    if (config.retention.enabled) {
+      this.retentionService.start();
+    }
+
+    // Export and erasure across every store, including the action service's email cache
+    const actionServiceUrl = process.env.ACTION_SERVICE_URL || 'http://localhost:4004';
+    this.privacyService = new PrivacyService(
+      this.knex,
+      this.entityModel,
+      this.graphStore,
+      this.vectorStore,
+      new EmailCacheClient(actionServiceUrl),
+      this.encryptionService.cipher,
+      this.blobService
+    );
+
+    // Re-embed rows produced by a previously configured embedding provider
+    this.reembeddingService = new ReembeddingService(this.knex, getEmbeddingFunction(), {
+      vectorStore: this.vectorStore,
+      cipher: this.encryptionService.cipher,
+      isLocked: () => this.encryptionService.locked,
+    });
+    this.reembeddingService.start();
+
+    // Chronologies for prompts, split into sessions like consolidation
+    this.timelineService = new TimelineService(
+      this.eventModel,
+      this.entityModel,
+      this.taskModel,
+      this.factModel,
+      { sessionGapMinutes: config.consolidation.sessionGapMinutes }
+    );
+
+    // Person cards for the assistant when composing to someone
+    this.personCardService = new PersonCardService(
+      this.eventModel,
+      this.entityModel,
+      this.taskModel,
+      promptService,
+      { halfLifeDays: config.relationships.halfLifeDays },
+      this.commitmentModel
+    );
+
+    // Bounded multi-hop queries over the graph
+    this.graphQueryService = new GraphQueryService(this.graphStore, this.entityModel);
+
     // Initialize WebSocket Service after HTTP server is started
-    this.webSocketService = new WebSocketService(this.server, this.eventProcessingService);
+    this.webSocketService = new WebSocketService(this.server, this.eventProcessingService, {
+      isLocked: () => this.encryptionService.locked,
+    });
+
+    // Due date reminders and escalation, pushed to connected clients
+    this.taskSchedulerService = new TaskSchedulerService(
+      this.taskModel,
+      notification => this.webSocketService.publish(notification),
+      config.tasks
+    );
+    if (config.tasks.enabled) {
+      this.taskSchedulerService.start();
+    }
   }
 
   public async close(): Promise<void> {
     try {
+      // Stop scheduled jobs
+      this.consolidationService?.stop();
+      this.reembeddingService?.stop();
+      this.relationshipService?.stop();
+      this.taskSchedulerService?.stop();
+      this.sessionService?.stop();
+      this.retentionService?.stop();
+      if (this.encryptionService?.enabled) {
+        this.encryptionService.lock();
+      }
+
       // Close WebSocket connections
       if (this.webSocketService) {
         try {
@@ -173,6 +396,7 @@ class MemoryServer {
       }
 
       // Close database connections
+      await this.graphStore?.close();
       await closeConnections();
 
       // Close HTTP server
@@ -206,6 +430,34 @@ class MemoryServer {
     this.app.get('/health', (req, res) => {
       res.json({ status: 'ok', timestamp: new Date().toISOString() });
     });
+
+    // Versioned REST API
+    this.app.use('/api', createApiRouter(
+      this.eventModel,
+      this.entityModel,
+      this.taskModel,
+      this.retrievalService,
+      this.factModel,
+      this.summaryModel,
+      this.consolidationService,
+      this.reembeddingService,
+      this.timelineService,
+      this.entityResolutionService,
+      this.personCardService,
+      this.relationshipService,
+      this.graphQueryService,
+      this.commitmentModel,
+      this.sessionModel,
+      this.sessionService,
+      this.reviewService,
+      this.reviewDecisionModel,
+      this.retentionService,
+      this.retentionPinModel,
+      this.privacyService,
+      this.encryptionService,
+      this.blobService,
+      notification => this.webSocketService?.publish(notification)
+    ));
   }
 
   private configureWebSocket() {
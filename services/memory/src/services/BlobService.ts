@@ -0,0 +1,233 @@
+import { createHash } from 'crypto';
+import type { BlobBackend, ByteRange } from '../db/blob/store';
+import { resolveMimeType } from '../db/blob/sniff';
+import { createThumbnail, pngDimensions, THUMBNAIL_MIME_TYPE } from '../db/blob/thumbnail';
+import type { FieldCipher } from '../db/crypto/fields';
+import { encode } from '../db/crypto/keyProvider';
+import { BlobModel, type BlobRecord } from '../models/BlobModel';
+import { NotFoundError, ValidationError } from '../models/BaseModel';
+import { logger } from '../utils/logger';
+
+export interface StoredBlob extends BlobRecord {
+  /** True when the content was already stored */
+  deduplicated: boolean;
+}
+
+export interface BlobContent {
+  blob: BlobRecord;
+  data: Buffer;
+  /** The bytes returned, when a range was asked for */
+  range?: ByteRange;
+}
+
+/**
+ * Content-addressed store for raw captures and attachments. Blobs are keyed
+ * by the sha256 of their content, so the same screenshot or attachment is
+ * stored once however often it is uploaded. The MIME type is sniffed from
+ * the content, and PNGs get a thumbnail, itself a blob.
+ */
+export class BlobService {
+  private readonly thumbnailSize: number;
+
+  constructor(
+    private blobModel: BlobModel,
+    private backend: BlobBackend,
+    private cipher?: FieldCipher,
+    options: { thumbnailSize?: number } = {}
+  ) {
+    this.thumbnailSize = options.thumbnailSize ?? 256;
+  }
+
+  /**
+   * Store content, or find it if the same bytes were stored before.
+   * `mimeType` is what the uploader declared; the sniffed type wins unless
+   * the declared one is a more specific form of it. An `owner` other than an
+   * event, such as `email:<message id>`, is recorded as holding the blob.
+   */
+  async put(data: Buffer, options: { mimeType?: string; filename?: string; owner?: string } = {}): Promise<StoredBlob> {
+    if (data.length === 0) {
+      throw new ValidationError('Blob is empty');
+    }
+
+    const mimeType = resolveMimeType(data, options.mimeType);
+    const existing = await this.blobModel.findById(this.idOf(data));
+    if (existing && await this.backend.exists(existing.id)) {
+      if (options.owner) await this.blobModel.addReference(existing.id, options.owner);
+      return { ...existing, deduplicated: true };
+    }
+
+    let thumbnailId: string | null = null;
+    let dimensions = mimeType === 'image/png' ? pngDimensions(data) : null;
+    if (mimeType === 'image/png') {
+      try {
+        const thumbnail = createThumbnail(data, this.thumbnailSize);
+        if (thumbnail) {
+          thumbnailId = (await this.store(thumbnail.data, THUMBNAIL_MIME_TYPE, { width: null, height: null })).id;
+          dimensions = { width: thumbnail.width, height: thumbnail.height };
+        }
+      } catch (error) {
+        // A damaged image is still worth keeping
+        logger.warn('Could not create a thumbnail', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const blob = await this.store(data, mimeType, {
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      thumbnail_id: thumbnailId,
+      filename: options.filename ?? null,
+    });
+    if (options.owner) await this.blobModel.addReference(blob.id, options.owner);
+    return { ...blob, deduplicated: false };
+  }
+
+  async get(id: string): Promise<BlobRecord | null> {
+    return /^[0-9a-f]{64}$/.test(id) ? this.blobModel.findById(id) : null;
+  }
+
+  /**
+   * A blob's content, or the bytes in `range`. Encrypted blobs are opened
+   * whole, then sliced.
+   */
+  async read(id: string, range?: ByteRange): Promise<BlobContent> {
+    const blob = await this.get(id);
+    if (!blob) {
+      throw new NotFoundError(`Blob ${id} not found`);
+    }
+    if (range && (range.start < 0 || range.start > range.end || range.start >= blob.size)) {
+      throw new ValidationError(`Range ${range.start}-${range.end} is outside the blob's ${blob.size} bytes`);
+    }
+    const bounded = range && { start: range.start, end: Math.min(range.end, blob.size - 1) };
+
+    if (!blob.encrypted) {
+      return { blob, data: await this.backend.get(blob.id, bounded), range: bounded };
+    }
+
+    if (!this.cipher) {
+      throw new ValidationError(`Blob ${id} is encrypted and encryption is not enabled`);
+    }
+    const sealed = await this.backend.get(blob.id);
+    const data = Buffer.from(this.cipher.decrypt(encode(sealed, 'utf8')), 'base64');
+    return { blob, data: bounded ? data.subarray(bounded.start, bounded.end + 1) : data, range: bounded };
+  }
+
+  /**
+   * The PNG thumbnail of an image blob
+   */
+  async thumbnail(id: string): Promise<BlobContent> {
+    const blob = await this.get(id);
+    if (!blob?.thumbnail_id) {
+      throw new NotFoundError(`Blob ${id} has no thumbnail`);
+    }
+    return this.read(blob.thumbnail_id);
+  }
+
+  /**
+   * A blob's content as stored: ciphertext for encrypted blobs, null for
+   * plaintext ones
+   */
+  async sealedContent(id: string): Promise<string | null> {
+    const blob = await this.get(id);
+    if (!blob) {
+      throw new NotFoundError(`Blob ${id} not found`);
+    }
+    return blob.encrypted ? encode(await this.backend.get(blob.id), 'utf8') : null;
+  }
+
+  /**
+   * Write a blob's content again, sealed with the cipher's active key: after
+   * a key rotation, or for blobs stored before encryption was turned on
+   */
+  async reseal(id: string): Promise<void> {
+    const { blob, data } = await this.read(id);
+    await this.store(data, blob.mime_type, {
+      width: blob.width ?? null,
+      height: blob.height ?? null,
+      thumbnail_id: blob.thumbnail_id ?? null,
+      filename: blob.filename ?? null,
+    });
+  }
+
+  /**
+   * Remove blobs and their thumbnails, unless another blob shares the
+   * thumbnail. Returns how many of `ids` were removed.
+   */
+  async delete(ids: string[]): Promise<number> {
+    let deleted = 0;
+    for (const id of new Set(ids)) {
+      const blob = await this.get(id);
+      if (!blob) continue;
+
+      await this.backend.delete(blob.id);
+      await this.blobModel.hardDeleteById(blob.id);
+      await this.blobModel.removeReference(blob.id);
+      deleted++;
+
+      if (blob.thumbnail_id && !await this.blobModel.findOne({ thumbnail_id: blob.thumbnail_id })) {
+        await this.backend.delete(blob.thumbnail_id);
+        await this.blobModel.hardDeleteById(blob.thumbnail_id);
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Drop `owner`'s hold on a blob, then remove the blob if nothing else holds
+   * it. Without an owner the blob is only removed when nothing holds it.
+   * Returns whether it was removed.
+   */
+  async release(id: string, owner?: string): Promise<boolean> {
+    const blob = await this.get(id);
+    if (!blob) {
+      throw new NotFoundError(`Blob ${id} not found`);
+    }
+    if (owner) await this.blobModel.removeReference(blob.id, owner);
+    return await this.deleteUnreferenced([blob.id]) > 0;
+  }
+
+  /**
+   * Remove those of `ids` that no event or attachment uses any more, as
+   * after the events that captured them were erased, purged or dropped
+   * their raw content
+   */
+  async deleteUnreferenced(ids: string[]): Promise<number> {
+    return this.delete(await this.blobModel.unreferenced(ids));
+  }
+
+  private idOf(data: Buffer): string {
+    return encode(createHash('sha256').update(data).digest(), 'hex');
+  }
+
+  private async store(
+    data: Buffer,
+    mimeType: string,
+    details: { width: number | null; height: number | null; thumbnail_id?: string | null; filename?: string | null }
+  ): Promise<BlobRecord> {
+    const id = this.idOf(data);
+
+    // With a key ring the content is sealed like event fields; the cipher
+    // takes text, so the bytes go through base64
+    const stored = this.cipher
+      ? Buffer.from(this.cipher.encrypt(encode(data, 'base64')), 'utf8')
+      : data;
+    await this.backend.put(id, stored, this.cipher ? 'application/octet-stream' : mimeType);
+
+    // A row whose object went missing is pointed at the rewritten one
+    const existing = await this.blobModel.findById(id);
+    if (existing) {
+      return await this.blobModel.update(id, { backend: this.backend.kind, encrypted: Boolean(this.cipher) }) ?? existing;
+    }
+
+    return this.blobModel.create({
+      id,
+      mime_type: mimeType,
+      size: data.length,
+      width: details.width,
+      height: details.height,
+      thumbnail_id: details.thumbnail_id ?? null,
+      filename: details.filename ?? null,
+      backend: this.backend.kind,
+      encrypted: Boolean(this.cipher),
+    });
+  }
+}
@@ -0,0 +1,269 @@
+import { EventModel, type Event } from '../models/EventModel';
+import { MemorySummaryModel, type MemorySummary, type SummaryScope } from '../models/MemorySummaryModel';
+import type { IPromptService } from './EventProcessingService';
+import { logger } from '../utils/logger';
+
+export interface ConsolidationOptions {
+  runAtHour?: number;
+  sessionGapMinutes?: number;
+  maxEventsPerSummary?: number;
+}
+
+export interface ConsolidationReport {
+  period_start: string;
+  period_end: string;
+  events: number;
+  summaries: Record<SummaryScope, number>;
+  failed: number;
+}
+
+interface EventGroup {
+  scope: SummaryScope;
+  scopeId: string;
+  events: Event[];
+}
+
+function eventTime(event: Event): number {
+  return new Date(event.start_time).getTime();
+}
+
+/**
+ * The YYYY-MM-DD of a date in local time, matching the local day bounds
+ * consolidation uses
+ */
+export function localDateKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Split events into sessions. Events that already carry a session id are
+ * grouped by it; the rest are clustered by the gap between consecutive events.
+ */
+export function groupEventsBySession(events: Event[], gapMinutes: number): Map<string, Event[]> {
+  const sessions = new Map<string, Event[]>();
+  const sorted = [...events].sort((a, b) => eventTime(a) - eventTime(b));
+  const gapMs = gapMinutes * 60 * 1000;
+
+  let currentId: string | null = null;
+  let lastTime = -Infinity;
+
+  for (const event of sorted) {
+    const explicitId = event.session_id ?? event.metadata?.session_id as string | undefined;
+    if (explicitId) {
+      sessions.set(explicitId, [...(sessions.get(explicitId) || []), event]);
+      continue;
+    }
+
+    const time = eventTime(event);
+    if (!currentId || time - lastTime > gapMs) {
+      currentId = event.id;
+      sessions.set(currentId, []);
+    }
+    sessions.get(currentId)!.push(event);
+    lastTime = time;
+  }
+
+  return sessions;
+}
+
+/**
+ * Group events by every entity that participated in them
+ */
+export function groupEventsByEntity(events: Event[]): Map<string, Event[]> {
+  const entities = new Map<string, Event[]>();
+  for (const event of events) {
+    for (const participant of event.participants || []) {
+      if (!participant.entity_id) continue;
+      entities.set(participant.entity_id, [...(entities.get(participant.entity_id) || []), event]);
+    }
+  }
+  return entities;
+}
+
+/**
+ * Nightly job that rolls the previous day's raw events into per-session,
+ * per-entity and per-day MemorySummary objects.
+ */
+export class ConsolidationService {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private readonly runAtHour: number;
+  private readonly sessionGapMinutes: number;
+  private readonly maxEventsPerSummary: number;
+
+  constructor(
+    private eventModel: EventModel,
+    private summaryModel: MemorySummaryModel,
+    private promptService: IPromptService,
+    options: ConsolidationOptions = {}
+  ) {
+    this.runAtHour = options.runAtHour ?? 0;
+    this.sessionGapMinutes = options.sessionGapMinutes ?? 30;
+    this.maxEventsPerSummary = options.maxEventsPerSummary ?? 50;
+  }
+
+  /**
+   * Schedule the job to run daily at the configured hour, after the day it
+   * consolidates has ended
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const now = new Date();
+    const next = new Date(now);
+    next.setHours(this.runAtHour, 0, 0, 0);
+    if (next.getTime() <= now.getTime()) {
+      next.setDate(next.getDate() + 1);
+    }
+    const previousDay = new Date(next);
+    previousDay.setDate(previousDay.getDate() - 1);
+
+    this.timer = setTimeout(async () => {
+      this.timer = undefined;
+      try {
+        await this.consolidateDay(previousDay);
+      } catch (error) {
+        logger.error('Scheduled consolidation failed:', error);
+      }
+      this.start();
+    }, next.getTime() - now.getTime());
+    this.timer.unref();
+
+    logger.info(`Memory consolidation scheduled for ${next.toISOString()}`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Consolidate all events that started on the given (local) day
+   */
+  async consolidateDay(day: Date): Promise<ConsolidationReport> {
+    if (this.running) {
+      throw new Error('Consolidation is already running');
+    }
+
+    this.running = true;
+    try {
+      const start = new Date(day);
+      start.setHours(0, 0, 0, 0);
+      // Days are not always 24 hours long across daylight saving changes
+      const nextDay = new Date(start);
+      nextDay.setDate(nextDay.getDate() + 1);
+      const end = new Date(nextDay.getTime() - 1);
+
+      const events = await this.loadEvents(start, end);
+      const report: ConsolidationReport = {
+        period_start: start.toISOString(),
+        period_end: end.toISOString(),
+        events: events.length,
+        summaries: { session: 0, entity: 0, day: 0 },
+        failed: 0,
+      };
+
+      if (events.length === 0) {
+        logger.info(`No events to consolidate for ${start.toDateString()}`);
+        return report;
+      }
+
+      const groups: EventGroup[] = [
+        ...Array.from(groupEventsBySession(events, this.sessionGapMinutes))
+          .map(([scopeId, group]) => ({ scope: 'session' as const, scopeId, events: group })),
+        ...Array.from(groupEventsByEntity(events))
+          .map(([scopeId, group]) => ({ scope: 'entity' as const, scopeId, events: group })),
+        { scope: 'day', scopeId: localDateKey(start), events },
+      ];
+
+      for (const group of groups) {
+        try {
+          await this.summarizeGroup(group, start, end);
+          report.summaries[group.scope]++;
+        } catch (error) {
+          report.failed++;
+          logger.error(`Failed to summarize ${group.scope} ${group.scopeId}:`, error);
+        }
+      }
+
+      logger.info(`Consolidated ${events.length} events into summaries`, report);
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async loadEvents(start: Date, end: Date): Promise<Event[]> {
+    const events: Event[] = [];
+    let page = 1;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const result = await this.eventModel.findAll(
+        { startTime: start.toISOString(), endTime: end.toISOString() },
+        { page, pageSize: 100, sortBy: 'start_time', sortOrder: 'asc' }
+      );
+      events.push(...result.data);
+      hasNextPage = result.pagination.hasNextPage;
+      page++;
+    }
+
+    return events;
+  }
+
+  private async summarizeGroup(group: EventGroup, dayStart: Date, dayEnd: Date): Promise<MemorySummary> {
+    const sorted = [...group.events].sort((a, b) => eventTime(a) - eventTime(b));
+    const periodStart = group.scope === 'session' ? new Date(eventTime(sorted[0])) : dayStart;
+    const periodEnd = group.scope === 'session'
+      ? new Date(eventTime(sorted[sorted.length - 1]))
+      : dayEnd;
+
+    const summaryText = await this.generateSummary(group.scope, sorted);
+
+    return this.summaryModel.upsert({
+      scope: group.scope,
+      scope_id: group.scopeId,
+      period_start: periodStart.toISOString(),
+      period_end: periodEnd.toISOString(),
+      summary_text: summaryText,
+      event_count: sorted.length,
+      source_event_ids: sorted.map(event => event.id),
+      metadata: {
+        topics: Array.from(new Set(sorted.flatMap(event => (event.metadata?.topics as string[]) || []))),
+      },
+    });
+  }
+
+  private async generateSummary(scope: SummaryScope, events: Event[]): Promise<string> {
+    // Screen captures repeat the same content many times; only keep distinct lines
+    const seen = new Set<string>();
+    const lines: string[] = [];
+    for (const event of events) {
+      const text = (event.description || event.title || '').replace(/\s+/g, ' ').trim();
+      const key = text.toLowerCase();
+      if (!text || seen.has(key)) continue;
+      seen.add(key);
+      lines.push(`- [${new Date(eventTime(event)).toISOString()}] ${text.substring(0, 300)}`);
+    }
+
+    const selected = lines.slice(-this.maxEventsPerSummary);
+    const prompt = `
+      Summarize the following ${scope} of activity from the user's memory in 2-4 sentences.
+      Focus on people involved, decisions, commitments and open questions. Do not invent details.
+
+      Events (chronological):
+      ${selected.join('\n')}
+    `;
+
+    const summary = (await this.promptService.generate(prompt)).trim();
+
+    // PromptServiceClient reports failures as text instead of throwing
+    if (!summary || summary.startsWith('Error generating response')) {
+      return selected.slice(0, 5).map(line => line.replace(/^- \[[^\]]+\] /, '')).join(' ');
+    }
+    return summary;
+  }
+}
@@ -0,0 +1,36 @@
+import type { CachedMessage, EmailCache } from './PrivacyService';
+
+/**
+ * The action service's cache of fetched emails and drafts, reached over its
+ * privacy endpoints
+ */
+export class EmailCacheClient implements EmailCache {
+  private baseUrl: string;
+
+  constructor(baseUrl: string, private timeoutMs = 10000) {
+    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+  }
+
+  async export(addresses: string[] | null): Promise<{ emails: CachedMessage[]; drafts: CachedMessage[] }> {
+    return this.post('/api/privacy/export', addresses);
+  }
+
+  async erase(addresses: string[] | null): Promise<{ emails: number; drafts: number }> {
+    const { erased } = await this.post('/api/privacy/erase', addresses);
+    return erased;
+  }
+
+  private async post(path: string, addresses: string[] | null): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(addresses === null ? { all: true } : { addresses }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Action service returned ${response.status}: ${await response.text()}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,254 @@
+import { Knex } from 'knex';
+import { FileKeyProvider, PassphraseKeyProvider, type KeyProvider } from '../db/crypto/keyProvider';
+import { isEncrypted, KeyError, type KeyRing, type KeyRingStatus } from '../db/crypto/keyring';
+import { decryptFields, encryptFields, type FieldCipher } from '../db/crypto/fields';
+import { SENSITIVE_EVENT_COLUMNS, SENSITIVE_METADATA_KEYS } from '../models/EventModel';
+import { SENSITIVE_SESSION_COLUMNS } from '../models/SessionModel';
+import { ValidationError } from '../models/BaseModel';
+import type { BlobService } from './BlobService';
+import { logger } from '../utils/logger';
+import type { EncryptionConfig } from '../config';
+
+export interface EncryptionStatus extends Partial<KeyRingStatus> {
+  enabled: boolean;
+  locked: boolean;
+}
+
+export interface ResealReport {
+  /** Events, sessions and blobs whose sensitive content was sealed or moved to the active key */
+  resealed: number;
+  /** Rows that could not be opened, e.g. sealed with a key the ring lacks */
+  failed: number;
+}
+
+// What is sealed in each table: whole columns, and keys of its metadata
+const SEALED_TABLES = [
+  { table: 'events', columns: SENSITIVE_EVENT_COLUMNS, metadataKeys: SENSITIVE_METADATA_KEYS },
+  { table: 'sessions', columns: SENSITIVE_SESSION_COLUMNS, metadataKeys: [] as string[] },
+];
+
+type ResealProgress = ResealReport & { stillUsed: Set<string> };
+
+export interface RotationReport extends ResealReport {
+  key_id: string;
+  retired: string[];
+}
+
+/**
+ * Encryption at rest for event content (design.md 10.3). Holds the key ring
+ * the event model seals with, and the locked state the API refuses to serve
+ * data in.
+ */
+export class EncryptionService {
+  private readonly batchSize: number;
+  private readonly blobService?: BlobService;
+
+  constructor(
+    private db: Knex,
+    private keyRing: KeyRing | null,
+    options: { batchSize?: number; blobService?: BlobService } = {}
+  ) {
+    this.batchSize = options.batchSize ?? 200;
+    // Blob content is sealed with the same key ring, so it is resealed with the rows
+    this.blobService = options.blobService;
+  }
+
+  get enabled(): boolean {
+    return this.keyRing !== null;
+  }
+
+  get locked(): boolean {
+    return this.keyRing !== null && this.keyRing.locked;
+  }
+
+  /** What models seal fields with, when encryption is on */
+  get cipher(): FieldCipher | undefined {
+    return this.keyRing ?? undefined;
+  }
+
+  async status(): Promise<EncryptionStatus> {
+    if (!this.keyRing) {
+      return { enabled: false, locked: false };
+    }
+    return { enabled: true, ...await this.keyRing.status() };
+  }
+
+  /**
+   * Unlock with the configured passphrase or key file, if any
+   */
+  async unlockFromConfig(config: EncryptionConfig): Promise<boolean> {
+    if (config.masterKeyPath) {
+      await this.unlockWith(new FileKeyProvider(config.masterKeyPath));
+    } else if (config.passphrase) {
+      await this.unlockWith(new PassphraseKeyProvider(config.passphrase));
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    await this.unlockWith(new PassphraseKeyProvider(passphrase));
+  }
+
+  async unlockWith(provider: KeyProvider): Promise<void> {
+    const keyRing = this.requireKeyRing();
+    if (!keyRing.locked) return;
+
+    try {
+      await keyRing.unlock(provider);
+    } catch (error) {
+      if (error instanceof KeyError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+    logger.info('Encryption keys unlocked', { provider: provider.kind });
+  }
+
+  lock(): void {
+    this.requireKeyRing().lock();
+    logger.info('Encryption keys locked');
+  }
+
+  /**
+   * Re-wrap the data keys under a new passphrase. Stored values are untouched.
+   */
+  async changePassphrase(current: string, next: string): Promise<void> {
+    try {
+      await this.requireKeyRing().rekey(new PassphraseKeyProvider(current), new PassphraseKeyProvider(next));
+    } catch (error) {
+      if (error instanceof KeyError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+    logger.info('Encryption passphrase changed');
+  }
+
+  /**
+   * Start sealing with a new data key, move every event, session and blob
+   * onto it and retire the keys nothing is sealed with any more
+   */
+  async rotate(): Promise<RotationReport> {
+    const keyRing = this.requireKeyRing();
+    const before = (await keyRing.status()).keys.map(key => key.id);
+    const keyId = await keyRing.rotate();
+
+    const { resealed, failed, stillUsed } = await this.resealAll();
+    const retired = await keyRing.retire(before.filter(id => !stillUsed.has(id)));
+
+    logger.info('Encryption key rotated', { key_id: keyId, resealed, failed, retired });
+    return { key_id: keyId, resealed, failed, retired };
+  }
+
+  /**
+   * Seal plaintext left from before encryption was enabled, and anything
+   * sealed with an older key, under the active key
+   */
+  async reseal(): Promise<ResealReport> {
+    const { resealed, failed } = await this.resealAll();
+    return { resealed, failed };
+  }
+
+  private async resealAll(): Promise<ResealProgress> {
+    const total = { resealed: 0, failed: 0, stillUsed: new Set<string>() };
+    for (const sealed of SEALED_TABLES) {
+      await this.resealTable(sealed.table, sealed.columns, sealed.metadataKeys, total);
+    }
+    if (this.blobService) {
+      await this.resealBlobs(this.blobService, total);
+    }
+    return total;
+  }
+
+  private async resealTable(
+    table: string,
+    columns: string[],
+    metadataKeys: string[],
+    report: ResealProgress
+  ): Promise<void> {
+    const keyRing = this.requireKeyRing();
+    const active = keyRing.activeKeyId;
+
+    // Keyset pagination, so rows rewritten along the way are not revisited
+    let after = '';
+    for (;;) {
+      const rows = await this.db(table)
+        .select('id', 'metadata', ...columns)
+        .where('id', '>', after)
+        .orderBy('id')
+        .limit(this.batchSize);
+      if (rows.length === 0) break;
+      after = rows[rows.length - 1].id;
+
+      for (const row of rows) {
+        const metadata: Record<string, unknown> = typeof row.metadata === 'string'
+          ? JSON.parse(row.metadata || '{}')
+          : row.metadata ?? {};
+        const values = [...metadataKeys.map(key => metadata[key]), ...columns.map(column => row[column])]
+          .filter(value => value !== undefined && value !== null && value !== '');
+        if (!values.some(value => !isEncrypted(value) || keyRing.keyIdOf(value) !== active)) continue;
+
+        try {
+          const sealedColumns = encryptFields(decryptFields(row, columns, keyRing), columns, keyRing);
+          const changes: Record<string, unknown> = Object.fromEntries(columns.map(column => [column, sealedColumns[column]]));
+          if (metadataKeys.length > 0) {
+            changes.metadata = JSON.stringify(encryptFields(decryptFields(metadata, metadataKeys, keyRing), metadataKeys, keyRing));
+          }
+          await this.db(table).where({ id: row.id }).update(changes);
+          report.resealed++;
+        } catch (error) {
+          logger.warn('Could not reseal row', { table, id: row.id, error: error instanceof Error ? error.message : String(error) });
+          for (const value of values) {
+            const keyId = isEncrypted(value) ? keyRing.keyIdOf(value) : null;
+            if (keyId) report.stillUsed.add(keyId);
+          }
+          report.failed++;
+        }
+      }
+    }
+  }
+
+  /**
+   * Rewrite blob content that is plaintext or sealed with an older key. A
+   * blob that cannot be opened keeps its key from being retired.
+   */
+  private async resealBlobs(blobService: BlobService, report: ResealProgress): Promise<void> {
+    const keyRing = this.requireKeyRing();
+
+    let after = '';
+    for (;;) {
+      const ids: string[] = await this.db('blobs')
+        .where('id', '>', after)
+        .orderBy('id')
+        .limit(this.batchSize)
+        .pluck('id');
+      if (ids.length === 0) break;
+      after = ids[ids.length - 1];
+
+      for (const id of ids) {
+        let keyId: string | null = null;
+        try {
+          const sealed = await blobService.sealedContent(id);
+          keyId = sealed === null ? null : keyRing.keyIdOf(sealed);
+          if (keyId === keyRing.activeKeyId) continue;
+
+          await blobService.reseal(id);
+          report.resealed++;
+        } catch (error) {
+          logger.warn('Could not reseal blob', { id, error: error instanceof Error ? error.message : String(error) });
+          if (keyId) report.stillUsed.add(keyId);
+          report.failed++;
+        }
+      }
+    }
+  }
+
+  private requireKeyRing(): KeyRing {
+    if (!this.keyRing) {
+      throw new ValidationError('Encryption is not enabled');
+    }
+    return this.keyRing;
+  }
+}
@@ -0,0 +1,708 @@
+import { Knex } from 'knex';
+import {
+  EntityModel,
+  normalizeAlias,
+  normalizeName,
+  type AliasSource,
+  type BaseEntity,
+  type EntityAlias,
+  type EntityType,
+} from '../models/EntityModel';
+import { MergeCandidateModel, type MergeCandidate, type MergeCandidateStatus } from '../models/MergeCandidateModel';
+import { EntityMergeModel, type EntityMerge, type MergeChanges, type MergeMethod } from '../models/EntityMergeModel';
+import {
+  NotFoundError,
+  ValidationError,
+  recordRowVersion,
+  type PaginatedResult,
+  type PaginationOptions,
+} from '../models/BaseModel';
+import type { Participant } from '../models/EventModel';
+import type { RelationshipService } from './RelationshipService';
+
+export interface EntityResolutionOptions {
+  /** Matches at or above this confidence resolve to the existing entity */
+  autoMergeThreshold?: number;
+  /** Matches at or above this confidence are queued for review */
+  reviewThreshold?: number;
+  /** Entities gathered per name before scoring */
+  maxCandidates?: number;
+}
+
+/**
+ * A reference to a person or thing as it appears in an event or extraction
+ */
+export interface EntityMention {
+  name?: string;
+  email?: string;
+  handle?: string;
+  type?: EntityType;
+  metadata?: Record<string, unknown>;
+}
+
+export type ResolutionMatch = 'alias' | 'name' | 'similar' | 'created' | 'none';
+
+export interface ResolutionResult {
+  /** Null only when nothing matched and creation was disabled */
+  entity: BaseEntity | null;
+  matched_by: ResolutionMatch;
+  /** Confidence of the match; 0 when the entity was created */
+  confidence: number;
+  /** Possible duplicates of a created entity queued for review */
+  queued: MergeCandidate[];
+}
+
+export interface ScoredCandidate {
+  entity: BaseEntity;
+  confidence: number;
+  reasons: string[];
+}
+
+/**
+ * An event participant as sent by ingestion: a known entity ID, or whatever
+ * identifies the person
+ */
+export interface ParticipantReference {
+  entity_id?: string;
+  name?: string;
+  email?: string;
+  handle?: string;
+  role?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface MergeCandidateView extends MergeCandidate {
+  entity: BaseEntity | null;
+  candidate: BaseEntity | null;
+}
+
+export interface EntityReview {
+  merged: EntityMerge[];
+  queued: MergeCandidate[];
+}
+
+const ALIASES_TABLE = 'entity_aliases';
+// An exact name is strong evidence, but weaker than a shared email or handle
+const EXACT_NAME_CONFIDENCE = 0.95;
+// A name guessed from an email's local part ("alice.chen") is weaker still
+const EMAIL_LOCAL_PART_WEIGHT = 0.9;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1]
+        : 1 + Math.min(previous[j - 1], previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * How likely two names refer to the same entity, from 0 to 1. Reordered
+ * names ("Chen, Alice") and names that add a middle name or abbreviate one
+ * to an initial ("A. Chen") score high; otherwise edit distance decides.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftTokens = left.split(' ');
+  const rightTokens = right.split(' ');
+  if ([...leftTokens].sort().join(' ') === [...rightTokens].sort().join(' ')) return 0.97;
+
+  const [shorter, longer] = leftTokens.length <= rightTokens.length
+    ? [leftTokens, rightTokens]
+    : [rightTokens, leftTokens];
+  const covered = shorter.every(token => longer.some(other =>
+    other === token ||
+    (token.length === 1 && other.startsWith(token)) ||
+    (other.length === 1 && token.startsWith(other))
+  ));
+
+  if (covered && shorter.length > 1) {
+    return shorter.every(token => longer.includes(token)) ? 0.93 : 0.86;
+  }
+  // A lone first or last name could be anyone with that name
+  if (covered) return 0.78;
+
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Matches names, emails and handles against known entities and their
+ * aliases. Confident matches resolve to the existing entity, ambiguous ones
+ * are queued for the user, and every merge can be undone.
+ */
+export class EntityResolutionService {
+  private readonly autoMergeThreshold: number;
+  private readonly reviewThreshold: number;
+  private readonly maxCandidates: number;
+
+  constructor(
+    private db: Knex,
+    private entityModel: EntityModel,
+    private candidateModel: MergeCandidateModel,
+    private mergeModel: EntityMergeModel,
+    options: EntityResolutionOptions = {},
+    private relationshipService?: RelationshipService
+  ) {
+    this.autoMergeThreshold = options.autoMergeThreshold ?? 0.92;
+    this.reviewThreshold = options.reviewThreshold ?? 0.75;
+    this.maxCandidates = options.maxCandidates ?? 10;
+  }
+
+  /**
+   * Resolve a mention to an entity: exact email or handle aliases first, then
+   * exact names, then similar names. Creates the entity when nothing matches
+   * confidently, queueing close calls for review.
+   */
+  async resolve(mention: EntityMention, options: { create?: boolean } = {}): Promise<ResolutionResult> {
+    const name = mention.name?.trim() || undefined;
+    const email = mention.email?.trim() || undefined;
+    const handle = mention.handle?.trim() || undefined;
+    if (!name && !email && !handle) {
+      throw new ValidationError('A name, email or handle is required to resolve an entity');
+    }
+    const cleaned: EntityMention = { ...mention, name, email, handle };
+
+    for (const [type, value] of [['email', email], ['handle', handle]] as const) {
+      if (!value) continue;
+      const [entity] = await this.entityModel.findByAlias(type, value, mention.type);
+      if (entity) return this.matched(entity, cleaned, 'alias', 1);
+    }
+
+    if (name) {
+      const [aliased] = await this.entityModel.findByAlias('name', name, mention.type);
+      const entity = aliased || await this.entityModel.findByName(name, mention.type);
+      if (entity && !this.conflicts(cleaned, await this.entityModel.getAliases(entity.id as string))) {
+        return this.matched(entity, cleaned, 'name', EXACT_NAME_CONFIDENCE);
+      }
+    }
+
+    const scored = await this.scoreCandidates(cleaned);
+    const best = scored[0];
+    if (best && best.confidence >= this.autoMergeThreshold) {
+      return this.matched(best.entity, cleaned, 'similar', best.confidence);
+    }
+
+    if (options.create === false) {
+      return { entity: null, matched_by: 'none', confidence: 0, queued: [] };
+    }
+
+    const entity = await this.entityModel.create({
+      name: (name || handle || email) as string,
+      type: mention.type || 'person',
+      metadata: mention.metadata || {},
+    });
+    await this.addIdentifiers(entity, cleaned, 'resolution');
+
+    const queued: MergeCandidate[] = [];
+    for (const candidate of scored.filter(c => c.confidence >= this.reviewThreshold)) {
+      queued.push(await this.queueCandidate(candidate.entity.id as string, entity.id as string, candidate.confidence, candidate.reasons));
+    }
+
+    return { entity, matched_by: 'created', confidence: 0, queued };
+  }
+
+  /**
+   * Map event participants to canonical entity IDs. Known IDs (including
+   * ones since merged away) are kept; anything else is resolved by name,
+   * email or handle.
+   */
+  async resolveParticipants(participants: ParticipantReference[]): Promise<Participant[]> {
+    const resolved: Participant[] = [];
+
+    // One at a time, so the same new person listed twice is created once
+    for (const participant of participants) {
+      const { entity_id, name, email, handle, role, metadata } = participant;
+
+      let entity = entity_id && UUID_PATTERN.test(entity_id)
+        ? await this.entityModel.findCanonical(entity_id)
+        : null;
+      if (!entity) {
+        ({ entity } = await this.resolve({
+          name: name || (!email && !handle ? `Participant ${entity_id || resolved.length + 1}` : undefined),
+          email,
+          handle,
+          type: 'person',
+          metadata,
+        }));
+      }
+
+      const entityId = entity?.id as string;
+      if (entityId && !resolved.some(p => p.entity_id === entityId)) {
+        resolved.push({ entity_id: entityId, ...(role && { role }), ...(metadata && { metadata }) });
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Score the entities that may be the one a mention refers to, best first
+   */
+  async scoreCandidates(mention: EntityMention, excludeIds: string[] = []): Promise<ScoredCandidate[]> {
+    const emailName = mention.email ? mention.email.split('@')[0].replace(/[._+-]+/g, ' ') : undefined;
+    const names = [mention.name || (!emailName ? mention.handle : undefined)].filter((n): n is string => !!n);
+    const queries = [...names, ...(emailName ? [emailName] : [])];
+
+    const pool = new Map<string, BaseEntity>();
+    for (const query of queries) {
+      const longestToken = normalizeName(query).split(' ').sort((a, b) => b.length - a.length)[0];
+      const found = [
+        ...await this.entityModel.findPotentialDuplicates(query, mention.type, 0),
+        ...await this.entityModel.findByNameToken(longestToken, { type: mention.type, limit: this.maxCandidates }),
+      ];
+      for (const entity of found) {
+        if (entity.id && !excludeIds.includes(entity.id)) pool.set(entity.id, entity);
+      }
+    }
+
+    const scored: ScoredCandidate[] = [];
+    for (const entity of pool.values()) {
+      if (mention.type && entity.type !== mention.type) continue;
+
+      const aliases = await this.entityModel.getAliases(entity.id as string);
+      const knownNames = [entity.name, ...aliases.filter(a => a.alias_type === 'name').map(a => a.value)];
+
+      let confidence = 0;
+      const reasons: string[] = [];
+      for (const known of knownNames) {
+        for (const name of names) {
+          const similarity = nameSimilarity(name, known);
+          if (similarity > confidence) {
+            confidence = similarity;
+            reasons.splice(0, reasons.length, `name "${name}" is ${round(similarity)} similar to "${known}"`);
+          }
+        }
+        if (emailName) {
+          const similarity = nameSimilarity(emailName, known) * EMAIL_LOCAL_PART_WEIGHT;
+          if (similarity > confidence) {
+            confidence = similarity;
+            reasons.splice(0, reasons.length, `email ${mention.email} looks like "${known}"`);
+          }
+        }
+      }
+
+      // Different emails or handles suggest different people however close the names
+      if (this.conflicts(mention, aliases)) {
+        confidence = Math.min(confidence, this.reviewThreshold);
+        reasons.push('known under a different email or handle');
+      }
+
+      if (confidence > 0) scored.push({ entity, confidence: round(confidence), reasons });
+    }
+
+    return scored
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, this.maxCandidates);
+  }
+
+  /**
+   * Look for duplicates of an existing entity. Confident ones are merged
+   * (unless autoMerge is off) and close calls queued; pairs the user
+   * rejected, or whose merge was undone, are left alone.
+   */
+  async reviewEntity(entityId: string, options: { autoMerge?: boolean } = {}): Promise<EntityReview> {
+    const { autoMerge = true } = options;
+    const entity = await this.entityModel.findById(entityId);
+    if (!entity) {
+      throw new NotFoundError(`Entity ${entityId} not found`);
+    }
+
+    const aliases = await this.entityModel.getAliases(entityId);
+    const scored = await this.scoreCandidates({
+      name: entity.name,
+      type: entity.type,
+      email: aliases.find(a => a.alias_type === 'email')?.value,
+      handle: aliases.find(a => a.alias_type === 'handle')?.value,
+    }, [entityId]);
+
+    const review: EntityReview = { merged: [], queued: [] };
+    for (const candidate of scored) {
+      if (candidate.confidence < this.reviewThreshold) break;
+
+      const other = candidate.entity.id as string;
+      const existing = await this.candidateModel.findPair(other, entityId);
+      if (existing?.status === 'rejected') continue;
+
+      if (autoMerge && candidate.confidence >= this.autoMergeThreshold) {
+        // Keep the older entity; either way this one has changed, so stop here
+        const [primary, duplicate] = new Date(candidate.entity.created_at as string) <= new Date(entity.created_at as string)
+          ? [other, entityId]
+          : [entityId, other];
+        review.merged.push(await this.merge(primary, duplicate, {
+          method: 'auto',
+          confidence: candidate.confidence,
+          candidateId: existing?.id,
+        }));
+        break;
+      }
+
+      review.queued.push(await this.queueCandidate(other, entityId, candidate.confidence, candidate.reasons));
+    }
+
+    return review;
+  }
+
+  /**
+   * Merge candidates with their entities, newest first. Pending candidates
+   * whose entities have since been merged or deleted are left out.
+   */
+  async listCandidates(
+    status: MergeCandidateStatus = 'pending',
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<MergeCandidateView>> {
+    const candidates = await this.candidateModel.findByStatus(status, options);
+
+    const data = await Promise.all(candidates.data.map(async candidate => ({
+      ...candidate,
+      entity: await this.entityModel.findById(candidate.entity_id),
+      candidate: await this.entityModel.findById(candidate.candidate_id),
+    })));
+
+    return { data, pagination: candidates.pagination };
+  }
+
+  /**
+   * Accept a merge candidate. The existing entity is kept unless primaryId
+   * names the other one.
+   */
+  async acceptCandidate(candidateId: string, primaryId?: string): Promise<EntityMerge> {
+    const candidate = await this.pendingCandidate(candidateId);
+
+    const primary = primaryId || candidate.entity_id;
+    if (primary !== candidate.entity_id && primary !== candidate.candidate_id) {
+      throw new ValidationError('primary_id must be one of the two candidate entities');
+    }
+    const duplicate = primary === candidate.entity_id ? candidate.candidate_id : candidate.entity_id;
+
+    return this.merge(primary, duplicate, {
+      method: 'review',
+      confidence: candidate.confidence,
+      candidateId: candidate.id,
+    });
+  }
+
+  /**
+   * Reject a merge candidate; the pair will not be suggested or merged again
+   */
+  async rejectCandidate(candidateId: string): Promise<MergeCandidate> {
+    await this.pendingCandidate(candidateId);
+    return await this.candidateModel.resolve(candidateId, 'rejected') as MergeCandidate;
+  }
+
+  /**
+   * Merge one entity into another. Aliases, task, fact and commitment
+   * references, interactions and event participants move to the primary
+   * entity, and the duplicate is
+   * soft deleted with merged_into pointing at it. Everything moved is
+   * recorded on the merge so undoMerge can put it back. Graph edges are
+   * left in place.
+   */
+  async merge(
+    primaryId: string,
+    duplicateId: string,
+    options: { method?: MergeMethod; confidence?: number | null; candidateId?: string } = {}
+  ): Promise<EntityMerge> {
+    if (primaryId === duplicateId) {
+      throw new ValidationError('An entity cannot be merged into itself');
+    }
+
+    const [primary, duplicate] = await Promise.all([
+      this.entityModel.findById(primaryId),
+      this.entityModel.findById(duplicateId),
+    ]);
+    if (!primary || !duplicate) {
+      throw new NotFoundError(`Entity ${!primary ? primaryId : duplicateId} not found`);
+    }
+
+    return this.entityModel.withTransaction(async trx => {
+      const now = new Date().toISOString();
+      const changes: MergeChanges = {
+        moved_alias_ids: [],
+        created_alias_ids: [],
+        assigned_task_ids: [],
+        related_task_ids: [],
+        fact_ids: [],
+        debtor_commitment_ids: [],
+        creditor_commitment_ids: [],
+        interactions: [],
+        events: [],
+      };
+
+      // Move the duplicate's aliases, except ones the primary already has
+      const aliasKey = (alias: Pick<EntityAlias, 'alias_type' | 'normalized'>) => `${alias.alias_type}:${alias.normalized}`;
+      const primaryAliases = new Set((await this.entityModel.getAliases(primaryId, trx)).map(aliasKey));
+      for (const alias of await this.entityModel.getAliases(duplicateId, trx)) {
+        if (primaryAliases.has(aliasKey(alias))) continue;
+        await trx(ALIASES_TABLE).where({ id: alias.id }).update({ entity_id: primaryId, updated_at: now });
+        changes.moved_alias_ids.push(alias.id);
+        primaryAliases.add(aliasKey(alias));
+      }
+
+      // The duplicate's name becomes a name alias of the primary
+      const duplicateName = normalizeAlias('name', duplicate.name);
+      if (duplicateName !== normalizeAlias('name', primary.name) && !primaryAliases.has(`name:${duplicateName}`)) {
+        const alias = await this.entityModel.addAlias(primaryId, 'name', duplicate.name, 'merge', trx);
+        changes.created_alias_ids.push(alias.id);
+      }
+
+      changes.assigned_task_ids = await this.repoint(trx, 'tasks', 'assignee_id', duplicateId, primaryId);
+      changes.related_task_ids = await this.repoint(trx, 'tasks', 'related_entity_id', duplicateId, primaryId);
+      changes.fact_ids = await this.repoint(trx, 'facts', 'subject_entity_id', duplicateId, primaryId);
+      changes.debtor_commitment_ids = await this.repoint(trx, 'commitments', 'debtor_entity_id', duplicateId, primaryId);
+      changes.creditor_commitment_ids = await this.repoint(trx, 'commitments', 'creditor_entity_id', duplicateId, primaryId);
+      if (this.relationshipService) {
+        changes.interactions = await this.relationshipService.moveInteractions(trx, duplicateId, primaryId);
+      }
+
+      for (const event of await this.eventsWithParticipant(trx, duplicateId)) {
+        const replaced = event.participants.map(p => p.entity_id === duplicateId ? { ...p, entity_id: primaryId } : p);
+        const participants = replaced.filter((p, i) => replaced.findIndex(other => other.entity_id === p.entity_id) === i);
+        await trx('events').where({ id: event.id }).update({ participants: JSON.stringify(participants) });
+        changes.events.push({ id: event.id, participants: event.participants });
+      }
+
+      const mergedFrom = Array.isArray(primary.metadata?.merged_from) ? primary.metadata.merged_from : [];
+      await this.entityModel.update(primaryId, {
+        metadata: {
+          ...primary.metadata,
+          merged_from: [...mergedFrom, { id: duplicateId, name: duplicate.name, merged_at: now }],
+        },
+      }, trx);
+      await this.entityModel.markMerged(duplicateId, primaryId, trx);
+
+      const merge = await this.mergeModel.create({
+        primary_id: primaryId,
+        merged_id: duplicateId,
+        method: options.method || 'manual',
+        confidence: options.confidence ?? null,
+        changes,
+        reverted_at: null,
+      }, trx);
+
+      const candidate = options.candidateId
+        ? await this.candidateModel.findById(options.candidateId, trx)
+        : await this.candidateModel.findPair(primaryId, duplicateId, trx);
+      if (candidate?.id && candidate.status === 'pending') {
+        await this.candidateModel.resolve(candidate.id, 'accepted', merge.id, trx);
+      }
+
+      return merge;
+    });
+  }
+
+  /**
+   * Undo a merge: bring the merged entity back and return whatever the merge
+   * moved to it. Rows re-pointed again since the merge are left alone; event
+   * participant lists and interactions are restored as they were. The pair is marked rejected
+   * so it is not merged again automatically.
+   */
+  async undoMerge(mergeId: string): Promise<{ merge: EntityMerge; entity: BaseEntity }> {
+    const merge = await this.mergeModel.findById(mergeId);
+    if (!merge) {
+      throw new NotFoundError(`Merge ${mergeId} not found`);
+    }
+    if (merge.reverted_at) {
+      throw new ValidationError('This merge has already been undone');
+    }
+
+    const { primary_id: primaryId, merged_id: mergedId, changes } = merge;
+    const later = (await this.mergeModel.findActiveFor(primaryId)).find(m => m.merged_id === primaryId);
+    if (later) {
+      throw new ValidationError(`Entity ${primaryId} was merged again later; undo merge ${later.id} first`);
+    }
+
+    return this.entityModel.withTransaction(async trx => {
+      const now = new Date().toISOString();
+      const entity = await this.entityModel.unmarkMerged(mergedId, trx);
+
+      if (changes.moved_alias_ids.length > 0) {
+        await trx(ALIASES_TABLE)
+          .whereIn('id', changes.moved_alias_ids)
+          .andWhere('entity_id', primaryId)
+          .update({ entity_id: mergedId, updated_at: now });
+      }
+      if (changes.created_alias_ids.length > 0) {
+        await trx(ALIASES_TABLE).whereIn('id', changes.created_alias_ids).del();
+      }
+
+      await this.repoint(trx, 'tasks', 'assignee_id', primaryId, mergedId, changes.assigned_task_ids);
+      await this.repoint(trx, 'tasks', 'related_entity_id', primaryId, mergedId, changes.related_task_ids);
+      await this.repoint(trx, 'facts', 'subject_entity_id', primaryId, mergedId, changes.fact_ids);
+      await this.repoint(trx, 'commitments', 'debtor_entity_id', primaryId, mergedId, changes.debtor_commitment_ids);
+      await this.repoint(trx, 'commitments', 'creditor_entity_id', primaryId, mergedId, changes.creditor_commitment_ids);
+      if (this.relationshipService && changes.interactions.length > 0) {
+        await this.relationshipService.restoreInteractions(trx, changes.interactions);
+      }
+
+      for (const event of changes.events) {
+        await trx('events').where({ id: event.id }).update({ participants: JSON.stringify(event.participants) });
+      }
+
+      const primary = await this.entityModel.findById(primaryId, trx);
+      if (primary && Array.isArray(primary.metadata?.merged_from)) {
+        await this.entityModel.update(primaryId, {
+          metadata: {
+            ...primary.metadata,
+            merged_from: primary.metadata.merged_from.filter((entry: any) => entry?.id !== mergedId),
+          },
+        }, trx);
+      }
+
+      const reverted = await this.mergeModel.update(merge.id as string, { reverted_at: now }, trx) as EntityMerge;
+
+      const candidate = await this.candidateModel.findPair(primaryId, mergedId, trx);
+      if (candidate?.id) {
+        await this.candidateModel.resolve(candidate.id, 'rejected', merge.id, trx);
+      } else {
+        await this.candidateModel.create({
+          entity_id: primaryId,
+          candidate_id: mergedId,
+          confidence: merge.confidence ?? 1,
+          reasons: ['merge was undone'],
+          status: 'rejected',
+          merge_id: merge.id,
+          resolved_at: now,
+        }, trx);
+      }
+
+      return { merge: reverted, entity: entity as BaseEntity };
+    });
+  }
+
+  /**
+   * Merges into or out of an entity that can still be undone, newest first
+   */
+  async listMerges(entityId: string): Promise<EntityMerge[]> {
+    return this.mergeModel.findActiveFor(entityId);
+  }
+
+  /**
+   * Queue a pair for review, or return the existing entry for the pair
+   */
+  private async queueCandidate(
+    entityId: string,
+    candidateId: string,
+    confidence: number,
+    reasons: string[]
+  ): Promise<MergeCandidate> {
+    const existing = await this.candidateModel.findPair(entityId, candidateId);
+    if (existing) return existing;
+
+    return this.candidateModel.create({
+      entity_id: entityId,
+      candidate_id: candidateId,
+      confidence,
+      reasons,
+      status: 'pending',
+    });
+  }
+
+  private async pendingCandidate(candidateId: string): Promise<MergeCandidate> {
+    const candidate = await this.candidateModel.findById(candidateId);
+    if (!candidate) {
+      throw new NotFoundError(`Merge candidate ${candidateId} not found`);
+    }
+    if (candidate.status !== 'pending') {
+      throw new ValidationError(`Merge candidate is already ${candidate.status}`);
+    }
+    return candidate;
+  }
+
+  /**
+   * Record the mention's name, email and handle as aliases of the entity it
+   * resolved to, so the next mention matches exactly
+   */
+  private async matched(
+    entity: BaseEntity,
+    mention: EntityMention,
+    matchedBy: ResolutionMatch,
+    confidence: number
+  ): Promise<ResolutionResult> {
+    await this.addIdentifiers(entity, mention, 'resolution');
+    return { entity, matched_by: matchedBy, confidence, queued: [] };
+  }
+
+  private async addIdentifiers(entity: BaseEntity, mention: EntityMention, source: AliasSource): Promise<void> {
+    const entityId = entity.id as string;
+
+    if (mention.email) await this.entityModel.addAlias(entityId, 'email', mention.email, source);
+    if (mention.handle) await this.entityModel.addAlias(entityId, 'handle', mention.handle, source);
+    if (mention.name && normalizeName(mention.name) && normalizeName(mention.name) !== normalizeName(entity.name)) {
+      await this.entityModel.addAlias(entityId, 'name', mention.name, source);
+    }
+  }
+
+  /**
+   * True if the entity is known under a different email or handle than the
+   * mention gives
+   */
+  private conflicts(mention: EntityMention, aliases: EntityAlias[]): boolean {
+    return (['email', 'handle'] as const).some(type => {
+      const value = mention[type];
+      const known = aliases.filter(alias => alias.alias_type === type);
+      return !!value && known.length > 0 && !known.some(alias => alias.normalized === normalizeAlias(type, value));
+    });
+  }
+
+  /**
+   * Point a reference column from one entity to another, limited to the
+   * given rows if any, and add the changed rows to their history (tasks,
+   * facts and commitments are all versioned). Returns the IDs of the rows
+   * changed.
+   */
+  private async repoint(
+    trx: Knex.Transaction,
+    table: string,
+    column: string,
+    fromId: string,
+    toId: string,
+    onlyIds?: string[]
+  ): Promise<string[]> {
+    if (onlyIds && onlyIds.length === 0) return [];
+
+    const query = trx(table).where(column, fromId);
+    if (onlyIds) query.whereIn('id', onlyIds);
+
+    const ids = (await query.clone().select('id')).map(row => String(row.id));
+    if (ids.length > 0) {
+      await trx(table).whereIn('id', ids).update({ [column]: toId, updated_at: new Date().toISOString() });
+      for (const row of await trx(table).whereIn('id', ids)) {
+        await recordRowVersion(trx, table, row, 'update');
+      }
+    }
+    return ids;
+  }
+
+  private async eventsWithParticipant(
+    trx: Knex.Transaction,
+    entityId: string
+  ): Promise<Array<{ id: string; participants: Participant[] }>> {
+    const isPg = this.db.client.config.client === 'pg';
+    const rows = await trx('events')
+      .select('id', 'participants')
+      .whereRaw(isPg ? 'participants::text like ?' : 'participants like ?', [`%${entityId}%`]);
+
+    return rows
+      .map(row => ({
+        id: String(row.id),
+        participants: (typeof row.participants === 'string'
+          ? JSON.parse(row.participants || '[]')
+          : row.participants || []) as Participant[],
+      }))
+      .filter(event => event.participants.some(p => p.entity_id === entityId));
+  }
+}
@@ -15,6 +15,25 @@ export interface ExtractionResult {
     due_date?: string;
   }>;
   suggestions?: string[];
+  facts?: Array<{
+    statement: string;
+    subject: string;
+    predicate: string;
+    object: string;
+    confidence?: number;
+  }>;
+  commitments?: Array<{
+    statement: string;
+    deliverable?: string;
+    /** Who owes; "me" for the user */
+    debtor?: string;
+    /** Who is owed; "me" for the user */
+    creditor?: string;
+    due?: string;
+    /** fulfilled: the content shows an earlier promise being kept */
+    status?: 'open' | 'fulfilled';
+    confidence?: number;
+  }>;
 }
 
 export interface IPromptService {
@@ -22,19 +41,72 @@ export interface IPromptService {
   generate(prompt: string, options?: any): Promise<string>;
 }
 
-import { EventModel } from '../models/EventModel';
+import { EventModel, type Event } from '../models/EventModel';
 import { EntityModel } from '../models/EntityModel';
 import { TaskModel } from '../models/TaskModel';
-import { Session } from 'neo4j-driver';
+import { FactModel } from '../models/FactModel';
+import { CommitmentModel, isUserReference, type CommitmentUserRole } from '../models/CommitmentModel';
+import type { GraphEdgeInput, GraphStore } from '../db/graph/store';
 import { v4 as uuidv4 } from 'uuid';
 import { TranscriptionService } from './TranscriptionService';
+import { EntityResolutionService } from './EntityResolutionService';
+import { RelationshipService } from './RelationshipService';
+import { SessionService, appContext } from './SessionService';
+import { BlobService } from './BlobService';
+
+// design.md 5.4: extractions less confident than this wait for the user
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+export type ProcessingStage = 'queued' | 'extracting' | 'stored' | 'completed' | 'failed';
+
+/**
+ * Messages published while a capture is processed: how far it has got, the
+ * event it became and the entities it mentioned
+ */
+export type ProcessingNotification =
+  | {
+      type: 'event:progress';
+      data: {
+        /** The ID the capture was submitted with */
+        id: string | null;
+        stage: ProcessingStage;
+        /** Once stored */
+        event_id?: string;
+        error?: string;
+      };
+      timestamp: string;
+    }
+  | { type: 'event:created'; data: { event: Event }; timestamp: string }
+  | {
+      type: 'entity:updated';
+      data: {
+        entity: { id: string; name: string; type: string };
+        /** False when the capture mentioned an entity already known */
+        created: boolean;
+        event_id: string;
+      };
+      timestamp: string;
+    };
 
 interface EventProcessingServiceOptions {
   promptService: IPromptService;
   eventModel: EventModel;
   entityModel: EntityModel;
   taskModel: TaskModel;
-  neo4jSession: Session;
+  factModel?: FactModel;
+  commitmentModel?: CommitmentModel;
+  entityResolutionService?: EntityResolutionService;
+  relationshipService?: RelationshipService;
+  sessionService?: SessionService;
+  graphStore: GraphStore;
+  /** Keeps the recording behind audio events */
+  blobService?: BlobService;
+  /** Events, tasks and new entities from less confident extractions are left unverified */
+  confidenceThreshold?: number;
+  /** Receives progress, new events and mentioned entities as they happen */
+  notify?: (notification: ProcessingNotification) => void;
 }
 
 export class EventProcessingService {
@@ -42,8 +114,16 @@ export class EventProcessingService {
   private eventModel: EventModel;
   private entityModel: EntityModel;
   private taskModel: TaskModel;
-  private neo4jSession: Session;
+  private factModel?: FactModel;
+  private commitmentModel?: CommitmentModel;
+  private entityResolutionService?: EntityResolutionService;
+  private relationshipService?: RelationshipService;
+  private sessionService?: SessionService;
+  private graphStore: GraphStore;
+  private blobService?: BlobService;
   private transcriptionService?: TranscriptionService;
+  private confidenceThreshold: number;
+  private notify?: (notification: ProcessingNotification) => void;
   private processingQueue: Array<() => Promise<void>> = [];
   private isProcessing = false;
 
@@ -52,22 +132,49 @@ export class EventProcessingService {
     this.eventModel = options.eventModel;
     this.entityModel = options.entityModel;
     this.taskModel = options.taskModel;
-    this.neo4jSession = options.neo4jSession;
+    this.factModel = options.factModel;
+    this.commitmentModel = options.commitmentModel;
+    this.entityResolutionService = options.entityResolutionService;
+    this.relationshipService = options.relationshipService;
+    this.sessionService = options.sessionService;
+    this.graphStore = options.graphStore;
+    this.blobService = options.blobService;
     this.transcriptionService = options.transcriptionService;
+    this.confidenceThreshold = options.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+    this.notify = options.notify;
   }
 
   /**
    * Process a new event with LLM extraction
    */
   async processEvent(content: string, metadata: Record<string, any> = {}) {
+    const progress = (stage: ProcessingStage, details: { event_id?: string; error?: string } = {}) => this.publish({
+      type: 'event:progress',
+      data: { id: typeof metadata.id === 'string' ? metadata.id : null, stage, ...details },
+    });
+
     // Add to processing queue
     return new Promise((resolve, reject) => {
+      progress('queued');
       this.processingQueue.push(async () => {
         try {
+          progress('extracting');
           let extraction: ExtractionResult;
+          // Screenshots are uploaded by the edge agent first and arrive with their blob_id
+          let blobId: string | undefined = typeof metadata.blob_id === 'string' ? metadata.blob_id : undefined;
 
           // Check if this is an audio event
           if (metadata.source === 'audio') {
+            // Keep the recording itself, not just what was said
+            if (this.blobService && !blobId) {
+              try {
+                blobId = (await this.blobService.put(Buffer.from(content, 'base64'), { mimeType: 'audio/webm' })).id;
+              } catch (error) {
+                console.error('Error storing audio blob:', error);
+              }
+            }
+
+
             if (this.transcriptionService) {
               try {
                 // Transcribe the audio
@@ -114,21 +221,59 @@ export class EventProcessingService {
             extraction = await this.promptService.extractStructuredData(truncatedContent);
           }
 
-          // 2. Create event
-          const event = await this.createEvent(extraction, metadata);
+          // 2. Create event, left for the user to verify when the extraction is unsure
+          const unverifiedConfidence = typeof extraction.confidence === 'number' && extraction.confidence < this.confidenceThreshold
+            ? extraction.confidence
+            : undefined;
+          const event = await this.createEvent(extraction, metadata, unverifiedConfidence !== undefined, blobId);
 
           // 3. Process entities and relationships
-          await this.processEntities(extraction.entities, event.id);
+          const { mentioned, participants } = await this.processEntities(extraction.entities, event.id, unverifiedConfidence);
+
+          // 4. Group the capture with the ones before it
+          if (this.sessionService) {
+            try {
+              const session = await this.sessionService.assign(event, { app: appContext(metadata), participants });
+              event.session_id = session.id;
+            } catch (error) {
+              console.error('Error assigning session:', error);
+            }
+          }
+          // Published once the session is known, so subscribers can filter by it
+          this.publish({ type: 'event:created', data: { event } });
+          progress('stored', { event_id: event.id });
+
+          // 5. Process action items
+          await this.processActionItems(extraction.action_items, event.id, unverifiedConfidence);
+
+          // 6. Record facts asserted by the content
+          await this.processFacts(extraction.facts, event.id, extraction.confidence);
 
-          // 4. Process action items
-          await this.processActionItems(extraction.action_items, event.id);
+          // 7. Keep earlier promises this content fulfils, record new ones
+          await this.processCommitments(extraction.commitments, event, participants, extraction.confidence);
 
-          // 5. Update graph relationships
-          await this.updateGraphRelationships(event.id, extraction);
+          // 8. Update graph relationships
+          await this.updateGraphRelationships(mentioned);
 
+          // 9. Count the interaction between the people and organizations involved
+          if (this.relationshipService && participants.length > 0) {
+            try {
+              await this.relationshipService.recordInteraction({
+                entityIds: participants,
+                timestamp: event.start_time,
+                channel: metadata.source || event.type,
+                sentiment: extraction.sentiment,
+              });
+            } catch (error) {
+              console.error('Error updating relationships:', error);
+            }
+          }
+
+          progress('completed', { event_id: event.id });
           resolve({ event, extraction });
         } catch (error) {
           console.error('Error processing event:', error);
+          progress('failed', { error: error instanceof Error ? error.message : String(error) });
           reject(error);
         }
       });
@@ -138,8 +283,8 @@ export class EventProcessingService {
     });
   }
 
-  private async createEvent(extraction: ExtractionResult, metadata: any) {
-    return this.eventModel.create({
+  private async createEvent(extraction: ExtractionResult, metadata: any, unverified = false, blobId?: string) {
+    const event = await this.eventModel.create({
       type: 'other',
       title: extraction.summary?.substring(0, 100) || 'Untitled Event',
       description: extraction.summary || '',
@@ -151,43 +296,103 @@ export class EventProcessingService {
         sentiment: extraction.sentiment,
         topics: extraction.topics || [],
       },
+      verification_status: unverified ? 'unverified' : 'verified',
+      blob_id: blobId ?? null,
     });
+
+    if (this.graphStore && event.id) {
+      try {
+        await this.graphStore.upsertNode({
+          label: 'Event',
+          id: event.id,
+          properties: {
+            type: event.type,
+            title: event.title,
+            start_time: new Date(event.start_time).toISOString(),
+          },
+        });
+      } catch (error) {
+        console.error('Error creating event node:', error);
+      }
+    }
+
+    return event;
   }
 
-  private async processEntities(entities: any[], eventId: string) {
-    if (!entities) return;
+  /**
+   * Resolve or create each mentioned entity. Returns the IDs of every entity
+   * mentioned and of the people and organizations involved. Entities created
+   * from an unverified extraction (one with `unverifiedConfidence`) are left
+   * unverified; known ones are not.
+   */
+  private async processEntities(
+    entities: any[],
+    eventId: string,
+    unverifiedConfidence?: number
+  ): Promise<{ mentioned: string[]; participants: string[] }> {
+    const mentioned = new Set<string>();
+    const participants = new Set<string>();
+    if (!entities) return { mentioned: [], participants: [] };
 
     for (const entity of entities) {
       try {
-        // Create entity in the database
-        await this.entityModel.create({
-          type: entity.type,
-          name: entity.value,
-          metadata: {
-            label: entity.label,
-            context: entity.context,
-          },
-        });
+        const metadata = {
+          label: entity.label,
+          context: entity.context,
+        };
+
+        // Match the mention against known entities before creating a new one
+        let canonical: { id?: string; name: string; type: string } = { name: entity.value, type: entity.type };
+        let created = false;
+        if (this.entityResolutionService) {
+          const isEmail = entity.type === 'email';
+          const { entity: resolved, matched_by } = await this.entityResolutionService.resolve({
+            ...(isEmail ? { email: entity.value } : { name: entity.value }),
+            type: isEmail ? 'person' : entity.type,
+            metadata,
+          });
+          if (resolved) canonical = { id: resolved.id, name: resolved.name, type: resolved.type };
+          created = matched_by === 'created';
+        } else {
+          const createdEntity = await this.entityModel.create({
+            type: entity.type,
+            name: entity.value,
+            metadata,
+          });
+          canonical = { id: createdEntity.id, name: createdEntity.name, type: createdEntity.type };
+          created = true;
+        }
+
+        if (unverifiedConfidence !== undefined && created && canonical.id) {
+          const stored = await this.entityModel.findById(canonical.id);
+          await this.entityModel.update(canonical.id, {
+            verification_status: 'unverified',
+            metadata: { ...stored?.metadata, extraction_confidence: unverifiedConfidence, source_event_id: eventId },
+          });
+        }
+
+        if (canonical.id) {
+          mentioned.add(canonical.id);
+          this.publish({
+            type: 'entity:updated',
+            data: { entity: { id: canonical.id, name: canonical.name, type: canonical.type }, created, event_id: eventId },
+          });
+        }
+        if (canonical.id && (canonical.type === 'person' || canonical.type === 'organization')) {
+          participants.add(canonical.id);
+        }
 
-        // Create relationship in Neo4j
-        if (this.neo4jSession) {
+        // Link the event to the entity in the graph
+        if (this.graphStore && canonical.id) {
           try {
-            await this.neo4jSession.writeTransaction(tx =>
-              tx.run(
-                `MATCH (e:Event {id: $eventId})
-                 MERGE (ent:Entity {name: $name, type: $type})
-                 MERGE (e)-[r:MENTIONS]->(ent)
-                 SET r.context = $context`,
-                {
-                  eventId,
-                  name: entity.value,
-                  type: entity.type,
-                  context: entity.context || ''
-                }
-              )
-            );
+            await this.graphStore.mergeEdges([{
+              type: 'MENTIONS',
+              from: { label: 'Event', id: eventId },
+              to: { label: 'Entity', id: canonical.id },
+              properties: { context: entity.context || '' },
+            }]);
           } catch (error) {
-            console.error('Error creating Neo4j relationship:', error);
+            console.error('Error creating graph relationship:', error);
           }
         }
       } catch (error) {
@@ -201,9 +406,16 @@ export class EventProcessingService {
         console.error('Failed entity data:', JSON.stringify(entity, null, 2));
       }
     }
+
+    return { mentioned: Array.from(mentioned), participants: Array.from(participants) };
   }
 
-  private async processActionItems(actionItems: any[] = [], eventId: string) {
+  /**
+   * Create a task per action item. Tasks from an unverified extraction keep
+   * its confidence and wait for the user to verify them.
+   */
+  private async processActionItems(actionItems: any[] = [], eventId: string, unverifiedConfidence?: number) {
+    const unverified = unverifiedConfidence !== undefined;
     for (const item of actionItems) {
       await this.taskModel.create({
         title: item.text?.substring(0, 100) || 'Untitled Task',
@@ -211,29 +423,147 @@ export class EventProcessingService {
         due_date: item.due ? new Date(item.due) : undefined,
         priority: (item.priority || 'medium') as 'low' | 'medium' | 'high' | 'urgent',
         status: (item.status || 'pending') as 'pending' | 'in_progress' | 'completed' | 'blocked' | 'cancelled',
-        metadata: {},
+        metadata: unverified ? { extraction_confidence: unverifiedConfidence } : {},
         related_event_id: eventId,
+        verification_status: unverified ? 'unverified' : 'verified',
       });
     }
   }
 
-  private async updateGraphRelationships(eventId: string, extraction: ExtractionResult) {
+  private async processFacts(
+    facts: ExtractionResult['facts'] = [],
+    eventId: string,
+    extractionConfidence?: number
+  ) {
+    if (!this.factModel) return;
+
+    for (const fact of facts) {
+      if (!fact?.statement) continue;
+
+      try {
+        // Link the fact to its subject so contradictions can be detected
+        const subject = !fact.subject
+          ? null
+          : this.entityResolutionService
+            ? (await this.entityResolutionService.resolve({ name: fact.subject }, { create: false })).entity
+            : await this.entityModel.findOne({ name: fact.subject });
+
+        const { superseded } = await this.factModel.assert({
+          statement_text: fact.statement,
+          subject_entity_id: subject?.id ?? null,
+          predicate: fact.predicate,
+          object_value: fact.object,
+          source_event_id: eventId,
+          confidence: fact.confidence ?? extractionConfidence,
+        });
+
+        if (superseded.length > 0) {
+          console.info(
+            `Fact "${fact.statement}" superseded ${superseded.length} older fact(s) about ${fact.subject}`
+          );
+        }
+      } catch (error) {
+        console.error('Error processing fact:', error);
+      }
+    }
+  }
+
+  private async processCommitments(
+    commitments: ExtractionResult['commitments'] = [],
+    event: { id: string; title?: string; description?: string; start_time?: string | Date },
+    participants: string[],
+    extractionConfidence?: number
+  ) {
+    if (!this.commitmentModel) return;
+
+    // Extraction reports promises kept; match those against what is still open
+    const claims = commitments
+      .filter(commitment => commitment?.status === 'fulfilled')
+      .map(commitment => commitment.deliverable || commitment.statement)
+      .filter(Boolean);
+    try {
+      const fulfilled = await this.commitmentModel.matchEvent(event, participants, { claims });
+      for (const commitment of fulfilled) {
+        console.info(`Commitment "${commitment.statement_text}" fulfilled by event ${event.id}`);
+      }
+    } catch (error) {
+      console.error('Error matching commitments:', error);
+    }
+
+    for (const commitment of commitments) {
+      if (!commitment?.statement || commitment.status === 'fulfilled') continue;
+
+      try {
+        const [debtor, creditor] = await Promise.all([
+          this.resolveParty(commitment.debtor),
+          this.resolveParty(commitment.creditor),
+        ]);
+        // A promise the user made to themselves is a task, not a commitment
+        if (debtor.isUser && creditor.isUser) continue;
+
+        const userRole: CommitmentUserRole | null = debtor.isUser ? 'debtor' : creditor.isUser ? 'creditor' : null;
+        await this.commitmentModel.assert({
+          statement_text: commitment.statement,
+          deliverable: commitment.deliverable,
+          debtor_entity_id: debtor.entityId,
+          debtor_name: debtor.name,
+          creditor_entity_id: creditor.entityId,
+          creditor_name: creditor.name,
+          user_role: userRole,
+          due_date: commitment.due,
+          source_event_id: event.id,
+          confidence: commitment.confidence ?? extractionConfidence,
+        });
+      } catch (error) {
+        console.error('Error processing commitment:', error);
+      }
+    }
+  }
+
+  /**
+   * Match a party named by extraction to the user or a known entity
+   */
+  private async resolveParty(
+    name?: string
+  ): Promise<{ isUser: boolean; entityId: string | null; name: string | null }> {
+    if (isUserReference(name)) return { isUser: true, entityId: null, name: null };
+    if (!name) return { isUser: false, entityId: null, name: null };
+
+    const entity = this.entityResolutionService
+      ? (await this.entityResolutionService.resolve({ name }, { create: false })).entity
+      : await this.entityModel.findOne({ name });
+    return { isUser: false, entityId: entity?.id ?? null, name };
+  }
+
+  private async updateGraphRelationships(entityIds: string[]) {
     // Create relationships between entities mentioned in the same event
-    const entities = extraction.entities.map(e => e.value);
-
-    for (let i = 0; i < entities.length; i++) {
-      for (let j = i + 1; j < entities.length; j++) {
-        await this.neo4jSession.writeTransaction(tx =>
-          tx.run(
-            `MATCH (e1:Entity {name: $name1}), (e2:Entity {name: $name2})
-             MERGE (e1)-[r:RELATED_TO]-(e2)
-             ON CREATE SET r.weight = 1, r.last_updated = datetime()
-             ON MATCH SET r.weight = r.weight + 1, r.last_updated = datetime()`,
-            { name1: entities[i], name2: entities[j] }
-          )
-        );
+    const edges: GraphEdgeInput[] = [];
+    const updatedAt = new Date().toISOString();
+
+    for (let i = 0; i < entityIds.length; i++) {
+      for (let j = i + 1; j < entityIds.length; j++) {
+        // Undirected, so always stored from the lower to the higher ID
+        const [a, b] = [entityIds[i], entityIds[j]].sort();
+        edges.push({
+          type: 'RELATED_TO',
+          from: { label: 'Entity', id: a },
+          to: { label: 'Entity', id: b },
+          properties: { last_updated: updatedAt },
+          counter: 'weight',
+        });
       }
     }
+
+    await this.graphStore.mergeEdges(edges);
+  }
+
+  // A failing subscriber must not fail the capture
+  private publish(notification: DistributiveOmit<ProcessingNotification, 'timestamp'>) {
+    try {
+      this.notify?.({ ...notification, timestamp: new Date().toISOString() } as ProcessingNotification);
+    } catch (error) {
+      console.error('Error publishing processing notification:', error);
+    }
   }
 
   private async processQueue() {
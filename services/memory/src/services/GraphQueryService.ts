@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import type { GraphPaths, GraphStore } from '../db/graph/store';
+import { EntityModel, EntityType, RelationshipType } from '../models/EntityModel';
+import { NotFoundError, ValidationError } from '../models/BaseModel';
+
+// Relationship types written by the service itself, next to the user-defined ones
+export const GraphEdgeType = z.enum([
+  ...RelationshipType.options,
+  'INTERACTED_WITH',
+  'MENTIONS',
+  'RELATED_TO',
+  'ASSIGNED_TO',
+  'SUBTASK_OF',
+  'DEPENDS_ON',
+  'PART_OF',
+  'HAS_ACTION',
+]);
+
+export type GraphEdgeType = z.infer<typeof GraphEdgeType>;
+
+export const GraphNodeLabel = z.enum(['Entity', 'Event', 'Task']);
+
+// Cost bounds: every query is a single path pattern of at most this shape
+export const MAX_STEPS = 3;
+export const MAX_HOPS_PER_STEP = 3;
+export const MAX_TOTAL_HOPS = 4;
+export const MAX_RESULTS = 100;
+
+const GraphStepSchema = z.object({
+  /** Relationship types to follow; any type when omitted */
+  edges: z.array(GraphEdgeType).max(10).optional(),
+  direction: z.enum(['out', 'in', 'both']).default('both'),
+  min_hops: z.number().int().min(1).max(MAX_HOPS_PER_STEP).default(1),
+  max_hops: z.number().int().min(1).max(MAX_HOPS_PER_STEP).optional(),
+  /** Constraints on the node the step ends at */
+  node: z.object({
+    label: GraphNodeLabel.default('Entity'),
+    types: z.array(EntityType).max(10).optional(),
+    ids: z.array(z.string().uuid()).max(50).optional(),
+  }).strict().default({}),
+}).strict();
+
+export const GraphQuerySchema = z.object({
+  /** Entity the paths start from, by ID or exact name */
+  start: z.union([
+    z.object({ id: z.string().uuid() }).strict(),
+    z.object({ name: z.string().min(1).max(200) }).strict(),
+  ]),
+  steps: z.array(GraphStepSchema).min(1).max(MAX_STEPS),
+  /** Only follow relationships last updated within this window */
+  time: z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  }).strict().optional(),
+  limit: z.number().int().min(1).max(MAX_RESULTS).default(25),
+}).strict().superRefine((query, ctx) => {
+  let total = 0;
+  query.steps.forEach((step, i) => {
+    const maxHops = step.max_hops ?? step.min_hops;
+    if (maxHops < step.min_hops) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', i, 'max_hops'], message: 'max_hops must be at least min_hops' });
+    }
+    total += maxHops;
+  });
+  if (total > MAX_TOTAL_HOPS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps'], message: `A query can follow at most ${MAX_TOTAL_HOPS} hops` });
+  }
+});
+
+export type GraphQuery = z.infer<typeof GraphQuerySchema>;
+
+export interface GraphQueryResult extends GraphPaths {
+  start: { id: string; name: string };
+}
+
+/**
+ * Parse a query, reporting the first problem as a ValidationError
+ */
+export function parseGraphQuery(input: unknown): GraphQuery {
+  const result = GraphQuerySchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    throw new ValidationError(`${where}${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Multi-hop relationship questions ("who introduced me to people at ACME")
+ * over the graph, expressed in a constrained JSON DSL and run by the
+ * configured graph store
+ */
+export class GraphQueryService {
+  private readonly timeoutMs: number;
+
+  constructor(
+    private graphStore: GraphStore,
+    private entityModel: EntityModel,
+    options: { timeoutMs?: number } = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  async query(input: unknown): Promise<GraphQueryResult> {
+    const query = parseGraphQuery(input);
+
+    // Start from the canonical entity so merged IDs and names still work
+    const start = 'id' in query.start
+      ? await this.entityModel.findCanonical(query.start.id)
+      : await this.entityModel.findByName(query.start.name);
+    if (!start?.id) {
+      throw new NotFoundError('Start entity not found');
+    }
+
+    const result = await this.graphStore.findPaths(query, start.id, { timeoutMs: this.timeoutMs });
+    return { start: { id: start.id, name: start.name }, ...result };
+  }
+}
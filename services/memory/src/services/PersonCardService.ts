@@ -0,0 +1,329 @@
+import { EventModel, type Event } from '../models/EventModel';
+import { EntityModel, type EntityAlias } from '../models/EntityModel';
+import { TaskModel, type Task } from '../models/TaskModel';
+import { CommitmentModel, type Commitment } from '../models/CommitmentModel';
+import type { IPromptService } from './EventProcessingService';
+import { decayWeight, sentimentScore, toStrength } from './RelationshipService';
+import { logger } from '../utils/logger';
+
+export interface PersonCardOptions {
+  /** Interactions listed on the card (default 3) */
+  interactions?: number;
+  /** How far back tone and relationship history go (default 90 days) */
+  windowDays?: number;
+  /** Suggested openers to ask for (default 3) */
+  openers?: number;
+  /** Days after which an interaction counts half towards relationship strength */
+  halfLifeDays?: number;
+}
+
+export interface PersonCardRequest {
+  windowDays?: number;
+  /** Skip the LLM call and return no openers */
+  openers?: boolean;
+}
+
+export interface CardInteraction {
+  event_id: string;
+  kind: 'event' | 'email';
+  type: string;
+  title: string;
+  timestamp: string;
+  summary?: string;
+  sentiment?: string;
+}
+
+export interface TonePoint {
+  event_id: string;
+  timestamp: string;
+  sentiment: string;
+  /** -1 (negative) to 1 (positive) */
+  score: number;
+}
+
+export interface StrengthPoint {
+  /** Start of the week, YYYY-MM-DD */
+  date: string;
+  value: number;
+}
+
+export interface PersonCard {
+  entity: {
+    id: string;
+    name: string;
+    type: string;
+    description?: string | null;
+    aliases: Array<Pick<EntityAlias, 'alias_type' | 'value'>>;
+  };
+  interaction_count: number;
+  last_interactions: CardInteraction[];
+  open_promises: {
+    /** Tasks assigned to the person */
+    by_them: Task[];
+    /** Tasks related to the person that someone else owes them */
+    to_them: Task[];
+    /** Open commitments the person made to the user */
+    owed_to_me: Commitment[];
+    /** Open commitments the user made to the person */
+    i_owe: Commitment[];
+  };
+  tone_history: {
+    points: TonePoint[];
+    average: number | null;
+  };
+  relationship_strength: {
+    current: number;
+    trend: 'rising' | 'falling' | 'steady';
+    series: StrengthPoint[];
+  };
+  suggested_openers: string[];
+  opener_source: 'llm' | 'heuristic' | null;
+  generated_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+// Change over the last four weeks that counts as a trend
+const TREND_THRESHOLD = 0.05;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function eventTime(event: Event): number {
+  return new Date(event.start_time).getTime();
+}
+
+/**
+ * Relationship strength at a point in time, from 0 to 1, counting only the
+ * interactions before `at`
+ */
+export function relationshipStrength(timestamps: number[], at: number, halfLifeDays = 30): number {
+  let total = 0;
+  for (const time of timestamps) {
+    if (time > at) continue;
+    total += decayWeight(at - time, halfLifeDays);
+  }
+  return toStrength(total);
+}
+
+/**
+ * Build a person card: recent interactions, open promises in both
+ * directions, tone and relationship history, and conversation openers
+ * (design.md 9.4).
+ */
+export class PersonCardService {
+  private readonly interactions: number;
+  private readonly windowDays: number;
+  private readonly openers: number;
+  private readonly halfLifeDays: number;
+
+  constructor(
+    private eventModel: EventModel,
+    private entityModel: EntityModel,
+    private taskModel: TaskModel,
+    private promptService?: IPromptService,
+    options: PersonCardOptions = {},
+    private commitmentModel?: CommitmentModel
+  ) {
+    this.interactions = options.interactions ?? 3;
+    this.windowDays = options.windowDays ?? 90;
+    this.openers = options.openers ?? 3;
+    this.halfLifeDays = options.halfLifeDays ?? 30;
+  }
+
+  /**
+   * Card for an entity, or null if it does not exist. Merged IDs resolve to
+   * the entity that absorbed them.
+   */
+  async build(entityId: string, request: PersonCardRequest = {}): Promise<PersonCard | null> {
+    const entity = await this.entityModel.findCanonical(entityId);
+    if (!entity?.id) return null;
+
+    const now = Date.now();
+    const windowDays = request.windowDays ?? this.windowDays;
+    const windowStart = now - windowDays * DAY_MS;
+
+    // Older interactions still add to strength, so look back a few half-lives
+    const [events, tasks, aliases, commitments] = await Promise.all([
+      this.eventModel.findByParticipant(entity.id, {
+        startTime: new Date(windowStart - 4 * this.halfLifeDays * DAY_MS),
+        endTime: new Date(now),
+      }),
+      this.taskModel.findOpenByEntity(entity.id),
+      this.entityModel.getAliases(entity.id),
+      this.commitmentModel?.findForEntity(entity.id),
+    ]);
+
+    const inWindow = events.filter(event => eventTime(event) >= windowStart);
+    const lastInteractions = events.slice(0, this.interactions).map(event => this.toInteraction(event));
+    const openPromises = {
+      by_them: tasks.filter(task => task.assignee_id === entity.id),
+      to_them: tasks.filter(task => task.assignee_id !== entity.id),
+      owed_to_me: commitments?.owed_to_me ?? [],
+      i_owe: commitments?.i_owe ?? [],
+    };
+    const toneHistory = this.toneHistory(inWindow);
+    const strength = this.strengthHistory(events.map(eventTime), windowStart, now);
+
+    const card: PersonCard = {
+      entity: {
+        id: entity.id,
+        name: entity.name,
+        type: entity.type,
+        description: entity.description,
+        aliases: aliases.map(({ alias_type, value }) => ({ alias_type, value })),
+      },
+      interaction_count: inWindow.length,
+      last_interactions: lastInteractions,
+      open_promises: openPromises,
+      tone_history: toneHistory,
+      relationship_strength: strength,
+      suggested_openers: [],
+      opener_source: null,
+      generated_at: new Date(now).toISOString(),
+    };
+
+    if (request.openers !== false) {
+      const openers = await this.suggestOpeners(card);
+      card.suggested_openers = openers.suggestions;
+      card.opener_source = openers.source;
+    }
+
+    return card;
+  }
+
+  private toInteraction(event: Event): CardInteraction {
+    const summary = (event.description || '').replace(/\s+/g, ' ').trim();
+    const sentiment = event.metadata?.sentiment;
+    return {
+      event_id: event.id,
+      kind: event.type === 'email' ? 'email' : 'event',
+      type: event.type,
+      title: event.title,
+      timestamp: new Date(event.start_time).toISOString(),
+      summary: summary ? summary.substring(0, 200) : undefined,
+      sentiment: typeof sentiment === 'string' ? sentiment : undefined,
+    };
+  }
+
+  /**
+   * Scored sentiment of each interaction, oldest first
+   */
+  private toneHistory(events: Event[]): PersonCard['tone_history'] {
+    const points: TonePoint[] = [];
+    for (const event of [...events].reverse()) {
+      const sentiment = event.metadata?.sentiment;
+      const score = sentimentScore(sentiment);
+      if (score === null) continue;
+      points.push({
+        event_id: event.id,
+        timestamp: new Date(event.start_time).toISOString(),
+        sentiment: String(sentiment),
+        score,
+      });
+    }
+
+    const average = points.length > 0
+      ? round(points.reduce((sum, point) => sum + point.score, 0) / points.length)
+      : null;
+    return { points, average };
+  }
+
+  /**
+   * Weekly relationship strength across the window, ending now
+   */
+  private strengthHistory(
+    timestamps: number[],
+    windowStart: number,
+    now: number
+  ): PersonCard['relationship_strength'] {
+    const series: StrengthPoint[] = [];
+    for (let at = now; at >= windowStart; at -= WEEK_MS) {
+      series.unshift({
+        date: new Date(at).toISOString().substring(0, 10),
+        value: relationshipStrength(timestamps, at, this.halfLifeDays),
+      });
+    }
+
+    const current = series[series.length - 1].value;
+    const monthAgo = series[Math.max(0, series.length - 5)].value;
+    const change = current - monthAgo;
+    const trend = change > TREND_THRESHOLD ? 'rising' : change < -TREND_THRESHOLD ? 'falling' : 'steady';
+
+    return { current, trend, series };
+  }
+
+  private async suggestOpeners(card: PersonCard): Promise<{ suggestions: string[]; source: 'llm' | 'heuristic' }> {
+    if (this.promptService) {
+      const interactions = card.last_interactions
+        .map(item => `- [${item.timestamp.substring(0, 10)}] ${item.kind}: ${item.title}${item.summary ? ` (${item.summary})` : ''}`)
+        .join('\n');
+      const promises = [
+        ...card.open_promises.by_them.map(task => `- ${card.entity.name} owes: ${task.title}`),
+        ...card.open_promises.to_them.map(task => `- Owed to ${card.entity.name}: ${task.title}`),
+        ...card.open_promises.owed_to_me.map(item => `- ${card.entity.name} promised the user: ${item.deliverable}`),
+        ...card.open_promises.i_owe.map(item => `- The user promised ${card.entity.name}: ${item.deliverable}`),
+      ].join('\n');
+
+      const prompt = `
+        Suggest ${this.openers} short, natural opening lines for the user's next message to ${card.entity.name}.
+        Refer to recent context where it helps. Do not invent details. One opener per line, no numbering.
+
+        Recent interactions:
+        ${interactions || '- none'}
+
+        Open promises:
+        ${promises || '- none'}
+
+        Overall tone so far: ${card.tone_history.average === null ? 'unknown' : card.tone_history.average}
+      `;
+
+      try {
+        const response = (await this.promptService.generate(prompt)).trim();
+
+        // PromptServiceClient reports failures as text instead of throwing
+        if (response && !response.startsWith('Error generating response')) {
+          const suggestions = response
+            .split('\n')
+            .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^["']|["']$/g, '').trim())
+            .filter(Boolean)
+            .slice(0, this.openers);
+          if (suggestions.length > 0) {
+            return { suggestions, source: 'llm' };
+          }
+        }
+      } catch (error) {
+        logger.warn('Opener generation failed, using heuristic openers:', error);
+      }
+    }
+
+    return { suggestions: this.heuristicOpeners(card), source: 'heuristic' };
+  }
+
+  /**
+   * Openers built from the card itself, used when no LLM answer is available
+   */
+  private heuristicOpeners(card: PersonCard): string[] {
+    const firstName = card.entity.name.split(/\s+/)[0];
+    const suggestions: string[] = [];
+
+    const owedToThem = card.open_promises.i_owe[0]?.deliverable ?? card.open_promises.to_them[0]?.title;
+    if (owedToThem) {
+      suggestions.push(`Hi ${firstName}, a quick update on ${owedToThem}.`);
+    }
+    const owedByThem = card.open_promises.owed_to_me[0]?.deliverable ?? card.open_promises.by_them[0]?.title;
+    if (owedByThem) {
+      suggestions.push(`Hi ${firstName}, just checking in on ${owedByThem}.`);
+    }
+    const last = card.last_interactions[0];
+    if (last) {
+      suggestions.push(`Hi ${firstName}, following up on "${last.title}".`);
+    }
+    if (suggestions.length === 0) {
+      suggestions.push(`Hi ${firstName}, it's been a while. How are things going?`);
+    }
+
+    return suggestions.slice(0, this.openers);
+  }
+}
@@ -0,0 +1,612 @@
+import { createHash, randomUUID } from 'crypto';
+import { Knex } from 'knex';
+import type { GraphNodeLabel, GraphStore } from '../db/graph/store';
+import type { VectorCollection, VectorStore } from '../db/vector/store';
+import { decryptFields, type FieldCipher } from '../db/crypto/fields';
+import { encode } from '../db/crypto/keyProvider';
+import { NotFoundError, ValidationError } from '../models/BaseModel';
+import type { BaseEntity, EntityModel } from '../models/EntityModel';
+import type { BlobService } from './BlobService';
+import { SENSITIVE_EVENT_COLUMNS, SENSITIVE_METADATA_KEYS } from '../models/EventModel';
+import { SENSITIVE_SESSION_COLUMNS } from '../models/SessionModel';
+import { logger } from '../utils/logger';
+
+/**
+ * Whose data a request covers: everything stored, or one contact and what
+ * was captured with them
+ */
+export type PrivacySubject =
+  | { scope: 'user' }
+  | { scope: 'contact'; entity_id?: string; name?: string; email?: string; handle?: string };
+
+export interface PrivacySubjectSummary {
+  scope: 'user' | 'contact';
+  /** The contact's canonical entity and any merged into it */
+  entity_ids?: string[];
+  name?: string;
+}
+
+/**
+ * Email cache kept outside this service (the action service's inbox cache).
+ * `null` addresses mean every cached message.
+ */
+export interface EmailCache {
+  export(addresses: string[] | null): Promise<{ emails: CachedMessage[]; drafts: CachedMessage[] }>;
+  erase(addresses: string[] | null): Promise<{ emails: number; drafts: number }>;
+}
+
+export interface CachedMessage {
+  id?: string;
+  attachments?: Array<{ filename: string; mimeType: string; size?: number; content: string }>;
+  [key: string]: unknown;
+}
+
+export interface ExportAttachment {
+  /** Where the file sits in the archive; records refer to it by this path */
+  path: string;
+  mime_type: string;
+  size: number;
+  encoding: 'base64';
+  content: string;
+}
+
+/**
+ * Portable archive of a subject's data: table rows as JSON, without
+ * embeddings, and files alongside them
+ */
+export interface PrivacyExport {
+  format: 'ellipsa-memory-export';
+  version: 1;
+  exported_at: string;
+  subject: PrivacySubjectSummary;
+  counts: Record<string, number>;
+  data: Record<string, Record<string, unknown>[]>;
+  attachments: ExportAttachment[];
+  /** Stores that could not be read, so the archive lacks their data */
+  unavailable: string[];
+}
+
+export interface ErasureReport {
+  id: string;
+  dry_run: boolean;
+  subject: PrivacySubjectSummary;
+  started_at: string;
+  completed_at: string;
+  /** Rows per table, then vectors, graph nodes and cached emails */
+  erased: Record<string, number>;
+  /** Rows kept but cut loose from what was erased */
+  unlinked: Record<string, number>;
+  /** Stores that could not be erased; the rest of the erasure stands */
+  failures: Array<{ store: string; error: string }>;
+  /** Stores queried again after erasing. Not run for dry runs. */
+  verification: { verified: boolean; remaining: Record<string, number> } | null;
+  /** SHA-256 of the sorted table:id keys erased, to check a later copy against */
+  digest: string;
+}
+
+// Rows of one table in the subject's scope
+interface Selection {
+  table: string;
+  where: (query: Knex.QueryBuilder) => Knex.QueryBuilder;
+}
+
+// A subject resolved to the rows and store entries that hold its data
+interface Scope {
+  subject: PrivacySubjectSummary;
+  selections: Selection[];
+  nodes: Record<GraphNodeLabel, string[]>;
+  /** Email addresses to look up in the email cache; null for all */
+  addresses: string[] | null;
+  /** Rows outside the scope that point into it */
+  unlink: Array<{ table: string; where: (query: Knex.QueryBuilder) => Knex.QueryBuilder; changes: Record<string, null> }>;
+}
+
+// Tables holding memories, dependents before what they depend on
+const TABLES = [
+  'review_decisions',
+  'retention_pins',
+  'row_versions',
+  'memory_summaries',
+  'task_dependencies',
+  'commitments',
+  'facts',
+  'tasks',
+  'sessions',
+  'event_participants',
+  'events',
+  'entity_interactions',
+  'entity_merge_candidates',
+  'entity_merges',
+  'entity_aliases',
+  'entities',
+] as const;
+
+// JSON columns, returned as text by SQLite
+const JSON_COLUMNS = new Set([
+  'participants',
+  'participant_ids',
+  'metadata',
+  'source_event_ids',
+  'reminder_offsets',
+  'channels',
+  'changes',
+  'original',
+  'reasons',
+  'fulfilment_evidence',
+  'data',
+]);
+
+// Left out of exports: derived, large and meaningless outside this service
+const EXPORT_EXCLUDED_COLUMNS = new Set(['embedding', 'embedding_vec']);
+
+const VECTOR_COLLECTIONS: Record<GraphNodeLabel, VectorCollection> = {
+  Entity: 'entities',
+  Event: 'events',
+  Task: 'tasks',
+};
+
+function portableRow(row: Record<string, unknown>): Record<string, unknown> {
+  const portable: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (EXPORT_EXCLUDED_COLUMNS.has(column)) continue;
+    if (JSON_COLUMNS.has(column) && typeof value === 'string') {
+      try {
+        portable[column] = JSON.parse(value);
+        continue;
+      } catch {
+        // Not JSON after all: keep the text
+      }
+    }
+    portable[column] = value;
+  }
+  return portable;
+}
+
+function parseList<T = string>(value: unknown): T[] {
+  const parsed = typeof value === 'string' ? JSON.parse(value || '[]') : value;
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+function blobIds(rows: Array<Record<string, unknown>> = []): string[] {
+  return Array.from(new Set(rows.map(row => row.blob_id).filter((id): id is string => typeof id === 'string')));
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '_') || 'attachment';
+}
+
+/**
+ * Data access and erasure (design.md 10.4). Export gathers a subject's rows
+ * from every table into a portable archive. Erasure removes them from the
+ * relational tables, their row versions, the vector and graph stores, the
+ * blob store and the email cache, then checks each store again.
+ */
+export class PrivacyService {
+  constructor(
+    private db: Knex,
+    private entityModel: EntityModel,
+    private graphStore: GraphStore,
+    private vectorStore?: VectorStore,
+    private emailCache?: EmailCache,
+    private cipher?: FieldCipher,
+    private blobService?: BlobService
+  ) {}
+
+  /**
+   * Everything stored about the subject
+   */
+  async export(subject: PrivacySubject): Promise<PrivacyExport> {
+    const scope = await this.scope(subject);
+    const data: Record<string, Record<string, unknown>[]> = {};
+    const attachments: ExportAttachment[] = [];
+    const unavailable: string[] = [];
+
+    for (const { table, where } of scope.selections) {
+      const rows = await where(this.db(table).select('*'));
+      data[table] = rows.map(portableRow);
+    }
+    // Sealed capture content is exported readable, like everything else
+    if (this.cipher) {
+      const cipher = this.cipher;
+      if (data.events) {
+        data.events = data.events.map(event => ({
+          ...decryptFields(event, SENSITIVE_EVENT_COLUMNS, cipher),
+          metadata: decryptFields((event.metadata ?? {}) as Record<string, unknown>, SENSITIVE_METADATA_KEYS, cipher),
+        }));
+      }
+      if (data.sessions) {
+        data.sessions = data.sessions.map(session => decryptFields(session, SENSITIVE_SESSION_COLUMNS, cipher));
+      }
+    }
+
+    // The screenshots and recordings behind the events
+    if (this.blobService) {
+      for (const id of blobIds(data.events)) {
+        try {
+          const { blob, data: content } = await this.blobService.read(id);
+          attachments.push({
+            path: `blobs/${id}`,
+            mime_type: blob.mime_type,
+            size: blob.size,
+            encoding: 'base64',
+            content: encode(content, 'base64'),
+          });
+        } catch (error) {
+          logger.warn(`Blob ${id} unavailable for export:`, error);
+          if (!unavailable.includes('blobs')) unavailable.push('blobs');
+        }
+      }
+    }
+
+    // Graph relationships of the contact's entities, as the graph store has them
+    if (subject.scope === 'contact') {
+      const edges = await Promise.all(scope.nodes.Entity.map(id => this.graphStore.getEdges({ label: 'Entity', id })));
+      const unique = new Map(edges.flat().map(edge => [edge.id, { ...edge }]));
+      data.graph_edges = Array.from(unique.values());
+    }
+
+    const cached = await this.cachedEmails(scope).catch(error => {
+      logger.warn('Email cache unavailable for export:', error);
+      unavailable.push('email_cache');
+      return null;
+    });
+    if (cached) {
+      const withFiles = (kind: 'emails' | 'drafts') => (message: CachedMessage, index: number) => ({
+        ...message,
+        attachments: message.attachments?.map(attachment => {
+          const path = `attachments/${kind}/${safeFileName(message.id ?? String(index))}/${safeFileName(attachment.filename)}`;
+          attachments.push({
+            path,
+            mime_type: attachment.mimeType,
+            size: attachment.size ?? Buffer.from(attachment.content, 'base64').length,
+            encoding: 'base64',
+            content: attachment.content,
+          });
+          return { filename: attachment.filename, mime_type: attachment.mimeType, path };
+        }),
+      });
+      data.cached_emails = cached.emails.map(withFiles('emails'));
+      data.cached_drafts = cached.drafts.map(withFiles('drafts'));
+    }
+
+    return {
+      format: 'ellipsa-memory-export',
+      version: 1,
+      exported_at: new Date().toISOString(),
+      subject: scope.subject,
+      counts: Object.fromEntries(Object.entries(data).map(([table, rows]) => [table, rows.length])),
+      data,
+      attachments,
+      unavailable,
+    };
+  }
+
+  /**
+   * Remove everything stored about the subject. A dry run counts what would
+   * be removed and changes nothing.
+   */
+  async erase(subject: PrivacySubject, options: { dryRun?: boolean } = {}): Promise<ErasureReport> {
+    const startedAt = new Date().toISOString();
+    const scope = await this.scope(subject);
+    const report: ErasureReport = {
+      id: randomUUID(),
+      dry_run: options.dryRun ?? false,
+      subject: scope.subject,
+      started_at: startedAt,
+      completed_at: startedAt,
+      erased: {},
+      unlinked: {},
+      failures: [],
+      verification: null,
+      digest: '',
+    };
+
+    const events = scope.selections.find(selection => selection.table === 'events');
+    const blobs = this.blobService && events
+      ? blobIds(await events.where(this.db('events').select('blob_id')))
+      : [];
+
+    const keys: string[] = [];
+    for (const { table, where } of scope.selections) {
+      const rows = await where(this.db(table).select(table === 'event_participants' ? ['event_id', 'entity_id'] : ['id']));
+      report.erased[table] = rows.length;
+      keys.push(...rows.map((row: Record<string, string>) => `${table}:${row.id ?? `${row.event_id}/${row.entity_id}`}`));
+    }
+    report.digest = createHash('sha256').update(keys.sort().join('\n')).digest('hex');
+
+    const nodes = (Object.entries(scope.nodes) as Array<[GraphNodeLabel, string[]]>)
+      .flatMap(([label, ids]) => ids.map(id => ({ label, id })));
+    report.erased['graph.nodes'] = nodes.length;
+    if (this.blobService) {
+      report.erased.blobs = blobs.length;
+    }
+
+    if (report.dry_run) {
+      for (const { table, where } of scope.unlink) {
+        report.unlinked[table] = Number((await where(this.db(table)).count('* as count').first())?.count ?? 0);
+      }
+      report.completed_at = new Date().toISOString();
+      return report;
+    }
+
+    // Relational rows and graph nodes together, so a failure leaves both
+    await this.db.transaction(async trx => {
+      for (const { table, where, changes } of scope.unlink) {
+        report.unlinked[table] = await where(trx(table)).update(changes);
+      }
+      for (const { table, where } of scope.selections) {
+        report.erased[table] = await where(trx(table)).del();
+      }
+      await this.graphStore.deleteNodes(nodes, trx);
+    });
+
+    // Vectors are rebuilt from rows, so a vector left behind is removed on
+    // the next erasure rather than undoing this one
+    for (const [label, collection] of Object.entries(VECTOR_COLLECTIONS) as Array<[GraphNodeLabel, VectorCollection]>) {
+      const ids = scope.nodes[label];
+      if (!this.vectorStore || ids.length === 0) continue;
+      try {
+        await this.vectorStore.delete(collection, ids);
+        report.erased[`vectors.${collection}`] = ids.length;
+      } catch (error) {
+        report.failures.push({ store: `vectors.${collection}`, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // A blob another event still points at stays
+    if (this.blobService && blobs.length > 0) {
+      try {
+        report.erased.blobs = await this.blobService.deleteUnreferenced(blobs);
+      } catch (error) {
+        report.failures.push({ store: 'blobs', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (this.emailCache && this.hasEmails(scope)) {
+      try {
+        const erased = await this.emailCache.erase(scope.addresses);
+        report.erased['email_cache.emails'] = erased.emails;
+        report.erased['email_cache.drafts'] = erased.drafts;
+      } catch (error) {
+        report.failures.push({ store: 'email_cache', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    report.verification = await this.verify(scope, nodes);
+    report.completed_at = new Date().toISOString();
+    logger.info('Privacy erasure finished', { id: report.id, scope: subject.scope, verified: report.verification.verified });
+    return report;
+  }
+
+  /**
+   * The contact a request names: by entity ID, then email, handle or exact name
+   */
+  async findContact(subject: Extract<PrivacySubject, { scope: 'contact' }>): Promise<BaseEntity> {
+    let entity: BaseEntity | null = null;
+    if (subject.entity_id) {
+      entity = await this.entityModel.findCanonical(subject.entity_id);
+    } else if (subject.email || subject.handle) {
+      [entity] = await this.entityModel.findByAlias(subject.email ? 'email' : 'handle', (subject.email || subject.handle) as string);
+    } else if (subject.name) {
+      [entity] = await this.entityModel.findByAlias('name', subject.name);
+      entity = entity || await this.entityModel.findByName(subject.name);
+    } else {
+      throw new ValidationError('An entity_id, email, handle or name is required to find a contact');
+    }
+
+    if (!entity) {
+      throw new NotFoundError('No contact matches the request');
+    }
+    return entity;
+  }
+
+  private async scope(subject: PrivacySubject): Promise<Scope> {
+    if (subject.scope === 'user') {
+      const ids = async (table: string) => this.db(table).pluck('id') as Promise<string[]>;
+      return {
+        subject: { scope: 'user' },
+        selections: TABLES.map(table => ({ table, where: query => query })),
+        nodes: { Entity: await ids('entities'), Event: await ids('events'), Task: await ids('tasks') },
+        addresses: null,
+        unlink: [],
+      };
+    }
+
+    const contact = await this.findContact(subject);
+    const entityIds = await this.mergedInto(contact.id as string);
+
+    // Events the contact took part in, and everything captured from them
+    const eventIds = Array.from(new Set([
+      ...await this.participantEventIds(entityIds),
+      ...await this.db('event_participants').whereIn('entity_id', entityIds).pluck('event_id'),
+    ]));
+    const taskIds = await this.withDescendantTasks(await this.db('tasks')
+      .whereIn('assignee_id', entityIds)
+      .orWhereIn('related_entity_id', entityIds)
+      .orWhereIn('related_event_id', eventIds)
+      .pluck('id'));
+    const factIds: string[] = await this.db('facts')
+      .whereIn('subject_entity_id', entityIds)
+      .orWhereIn('source_event_id', eventIds)
+      .pluck('id');
+    const commitmentIds: string[] = await this.db('commitments')
+      .whereIn('debtor_entity_id', entityIds)
+      .orWhereIn('creditor_entity_id', entityIds)
+      .orWhereIn('source_event_id', eventIds)
+      .pluck('id');
+
+    // Sessions with the contact, or holding their events' text
+    const sessionIds = new Set<string>(await this.db('events').whereIn('id', eventIds).whereNotNull('session_id').pluck('session_id'));
+    for (const session of await this.db('sessions').select('id', 'participant_ids')) {
+      if (parseList(session.participant_ids).some(id => entityIds.includes(id))) sessionIds.add(session.id);
+    }
+
+    // Summaries of the contact, of those sessions, or drawn from those events
+    const summaryIds: string[] = [];
+    for (const summary of await this.db('memory_summaries').select('id', 'scope', 'scope_id', 'source_event_ids')) {
+      if ((summary.scope === 'entity' && entityIds.includes(summary.scope_id))
+        || (summary.scope === 'session' && sessionIds.has(summary.scope_id))
+        || parseList(summary.source_event_ids).some(id => eventIds.includes(id))) {
+        summaryIds.push(summary.id);
+      }
+    }
+
+    // Rows in the scope by table; whichever of them a model versions, the
+    // versions go with them
+    const rowIds: Record<string, string[]> = {
+      entities: entityIds,
+      events: eventIds,
+      tasks: taskIds,
+      facts: factIds,
+      commitments: commitmentIds,
+      sessions: Array.from(sessionIds),
+      memory_summaries: summaryIds,
+    };
+    const itemIds = Object.values(rowIds).flat();
+    const byId = (ids: Iterable<string>) => (query: Knex.QueryBuilder) => query.whereIn('id', Array.from(ids));
+    const addresses: string[] = await this.db('entity_aliases')
+      .whereIn('entity_id', entityIds)
+      .where('alias_type', 'email')
+      .pluck('value');
+    const metadataEmail = contact.metadata?.email;
+    if (typeof metadataEmail === 'string' && !addresses.includes(metadataEmail)) addresses.push(metadataEmail);
+
+    const selections: Record<typeof TABLES[number], Selection['where']> = {
+      review_decisions: query => query.whereIn('item_id', itemIds).orWhereIn('source_event_id', eventIds),
+      retention_pins: query => query.whereIn('item_id', itemIds),
+      row_versions: query => query.where(versions => {
+        for (const [table, ids] of Object.entries(rowIds)) {
+          versions.orWhere(q => q.where('table_name', table).whereIn('row_id', ids));
+        }
+      }),
+      memory_summaries: byId(summaryIds),
+      task_dependencies: query => query.whereIn('task_id', taskIds).orWhereIn('depends_on_id', taskIds),
+      commitments: byId(commitmentIds),
+      facts: byId(factIds),
+      tasks: byId(taskIds),
+      sessions: byId(sessionIds),
+      event_participants: query => query.whereIn('event_id', eventIds).orWhereIn('entity_id', entityIds),
+      events: byId(eventIds),
+      entity_interactions: query => query.whereIn('entity_id', entityIds).orWhereIn('contact_id', entityIds),
+      entity_merge_candidates: query => query.whereIn('entity_id', entityIds).orWhereIn('candidate_id', entityIds),
+      entity_merges: query => query.whereIn('primary_id', entityIds).orWhereIn('merged_id', entityIds),
+      entity_aliases: query => query.whereIn('entity_id', entityIds),
+      entities: byId(entityIds),
+    };
+
+    return {
+      subject: { scope: 'contact', entity_ids: entityIds, name: contact.name },
+      selections: TABLES.map(table => ({ table, where: selections[table] })),
+      nodes: { Entity: entityIds, Event: eventIds, Task: taskIds },
+      addresses,
+      unlink: [
+        // Other captures from the erased sessions stay, outside any session
+        {
+          table: 'events',
+          where: query => query.whereIn('session_id', Array.from(sessionIds)).whereNotIn('id', eventIds),
+          changes: { session_id: null },
+        },
+        // Promises kept in an erased event stay kept, without the evidence
+        {
+          table: 'commitments',
+          where: query => query.whereIn('fulfilled_by_event_id', eventIds).whereNotIn('id', commitmentIds),
+          changes: { fulfilled_by_event_id: null, fulfilment_evidence: null },
+        },
+      ],
+    };
+  }
+
+  /**
+   * The entity and every entity merged into it, directly or not
+   */
+  private async mergedInto(entityId: string): Promise<string[]> {
+    const ids = [entityId];
+    for (let frontier = [entityId]; frontier.length > 0;) {
+      frontier = (await this.db('entities').whereIn('merged_into', frontier).pluck('id'))
+        .filter((id: string) => !ids.includes(id));
+      ids.push(...frontier);
+    }
+    return ids;
+  }
+
+  /**
+   * Events any of the entities took part in. Participants are a JSON column,
+   * so rows are narrowed with a text match and checked after parsing.
+   */
+  private async participantEventIds(entityIds: string[]): Promise<string[]> {
+    const isPg = this.db.client.config.client === 'pg';
+    const rows = await this.db('events')
+      .where(query => {
+        for (const id of entityIds) {
+          query.orWhereRaw(isPg ? 'participants::text like ?' : 'participants like ?', [`%${id}%`]);
+        }
+      })
+      .select('id', 'participants');
+
+    return rows
+      .filter((row: { participants: unknown }) =>
+        parseList<{ entity_id?: string }>(row.participants).some(participant => entityIds.includes(participant?.entity_id as string)))
+      .map((row: { id: string }) => row.id);
+  }
+
+  /**
+   * The tasks with their subtasks and later occurrences
+   */
+  private async withDescendantTasks(taskIds: string[]): Promise<string[]> {
+    const ids = [...taskIds];
+    for (let frontier = taskIds; frontier.length > 0;) {
+      frontier = (await this.db('tasks')
+        .whereIn('parent_id', frontier)
+        .orWhereIn('previous_occurrence_id', frontier)
+        .pluck('id'))
+        .filter((id: string) => !ids.includes(id));
+      ids.push(...frontier);
+    }
+    return ids;
+  }
+
+  private hasEmails(scope: Scope): boolean {
+    return scope.addresses === null || scope.addresses.length > 0;
+  }
+
+  /**
+   * Cached emails in the scope; null without an email cache or addresses
+   */
+  private async cachedEmails(scope: Scope): Promise<{ emails: CachedMessage[]; drafts: CachedMessage[] } | null> {
+    return this.emailCache && this.hasEmails(scope) ? this.emailCache.export(scope.addresses) : null;
+  }
+
+  /**
+   * Count what is left of the scope in each store
+   */
+  private async verify(scope: Scope, nodes: Array<{ label: GraphNodeLabel; id: string }>): Promise<{ verified: boolean; remaining: Record<string, number> }> {
+    const remaining: Record<string, number> = {};
+
+    for (const { table, where } of scope.selections) {
+      const row = await where(this.db(table)).count('* as count').first();
+      remaining[table] = Number(row?.count ?? 0);
+    }
+
+    let edges = 0;
+    for (const node of nodes) {
+      edges += (await this.graphStore.getEdges(node)).length;
+    }
+    remaining['graph.edges'] = edges;
+
+    try {
+      const cached = await this.cachedEmails(scope);
+      if (cached) {
+        remaining['email_cache.emails'] = cached.emails.length;
+        remaining['email_cache.drafts'] = cached.drafts.length;
+      }
+    } catch {
+      // Unknown, so not verified
+      remaining['email_cache.emails'] = -1;
+    }
+
+    return {
+      verified: Object.values(remaining).every(count => count === 0),
+      remaining,
+    };
+  }
+}
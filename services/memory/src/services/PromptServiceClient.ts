@@ -35,8 +35,19 @@ export class PromptServiceClient implements IPromptService {
         "suggestions": [
           "Suggestion 1",
           "Suggestion 2"
+        ],
+        "facts": [
+          { "statement": "Alice Jones is VP Sales at ACME", "subject": "Alice Jones", "predicate": "job_title", "object": "VP Sales at ACME", "confidence": 0.0 to 1.0 }
+        ],
+        "commitments": [
+          { "statement": "Bob promised an updated forecast by 2025-10-02", "deliverable": "updated forecast", "debtor": "Bob", "creditor": "me", "due": "ISO date string (optional)", "status": "open", "confidence": 0.0 to 1.0 }
         ]
       }
+
+      Only include facts that are stated as durable truths about an entity (roles, affiliations, contact details, preferences).
+      Use the exact entity name from "entities" as the subject and a short snake_case predicate.
+      Only include commitments where someone promises to deliver something to someone else. The debtor owes, the creditor is owed; use "me" for the user.
+      Use status "fulfilled" when the content shows an earlier promise being kept (e.g. the forecast arriving), with the same deliverable wording.
     `;
 
         try {
@@ -56,7 +67,9 @@ export class PromptServiceClient implements IPromptService {
                 topics: result.topics || [],
                 entities: result.entities || [],
                 action_items: result.action_items || [],
-                suggestions: result.suggestions || []
+                suggestions: result.suggestions || [],
+                facts: result.facts || [],
+                commitments: result.commitments || []
             };
         } catch (error) {
             logger.error('Error extracting structured data:', error);
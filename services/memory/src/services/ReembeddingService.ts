@@ -0,0 +1,221 @@
+import { Knex } from 'knex';
+import { decryptFields, type FieldCipher } from '../db/crypto/fields';
+import type { EmbeddingProvider } from '../db/vector/embeddings';
+import type { VectorCollection, VectorMetadataValue, VectorStore } from '../db/vector/store';
+import { SENSITIVE_EVENT_COLUMNS } from '../models/EventModel';
+import { logger } from '../utils/logger';
+
+interface ReembedTarget {
+  table: string;
+  text: (row: Record<string, any>) => string;
+  // Whether the row keeps its own copy of the embedding
+  storesEmbedding: boolean;
+  // Soft deleted rows are not embedded, nor put back into the vector store
+  softDelete: boolean;
+  // Columns sealed when encryption is on, opened before the text is built
+  sealedColumns?: readonly string[];
+  // Vector store collection the row is indexed in, with its filterable attributes
+  collection?: VectorCollection;
+  metadata?: (row: Record<string, any>) => Record<string, VectorMetadataValue>;
+}
+
+// Every table that is embedded, and the text each embedding is built from
+const TARGETS: ReembedTarget[] = [
+  {
+    table: 'events',
+    text: row => `${row.title} ${row.description || ''}`.trim(),
+    storesEmbedding: true,
+    softDelete: false,
+    sealedColumns: SENSITIVE_EVENT_COLUMNS,
+    collection: 'events',
+    metadata: row => ({ type: row.type, start_time: new Date(row.start_time) }),
+  },
+  {
+    table: 'entities',
+    text: row => `${row.name} ${row.description || ''}`.trim(),
+    storesEmbedding: true,
+    softDelete: true,
+    collection: 'entities',
+    metadata: row => ({ name: row.name, type: row.type }),
+  },
+  {
+    table: 'tasks',
+    text: row => `${row.title} ${row.description || ''}`.trim(),
+    storesEmbedding: false,
+    softDelete: true,
+    collection: 'tasks',
+    metadata: row => ({ status: row.status, priority: row.priority }),
+  },
+  { table: 'memory_summaries', text: row => row.summary_text || '', storesEmbedding: true, softDelete: true },
+];
+
+export interface ReembeddingStatus {
+  provider: string;
+  dimensions: number;
+  running: boolean;
+  pending: Record<string, number>;
+}
+
+export interface ReembeddingOptions {
+  batchSize?: number;
+  vectorStore?: VectorStore;
+  /** Opens sealed event columns when encryption is on */
+  cipher?: FieldCipher;
+  /** Whether the encryption keys are locked; sealed tables wait until they are not */
+  isLocked?: () => boolean;
+}
+
+/**
+ * Brings stored embeddings in line with the active embedding provider.
+ * Rows embedded by another provider (or never embedded) are re-embedded in
+ * batches in the background; until then retrieval embeds them on the fly.
+ */
+export class ReembeddingService {
+  private running = false;
+  private stopped = false;
+  private readonly batchSize: number;
+
+  constructor(
+    private db: Knex,
+    private provider: EmbeddingProvider,
+    private options: ReembeddingOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? 50;
+  }
+
+  /**
+   * Count rows that still need to be re-embedded
+   */
+  async status(): Promise<ReembeddingStatus> {
+    const pending: Record<string, number> = {};
+    for (const target of TARGETS) {
+      const result = await this.pendingQuery(target).count('* as count').first();
+      pending[target.table] = result ? Number(result.count) : 0;
+    }
+
+    return {
+      provider: this.provider.id,
+      dimensions: this.provider.dimensions,
+      running: this.running,
+      pending,
+    };
+  }
+
+  /**
+   * Start re-embedding in the background if anything is pending
+   */
+  start(): void {
+    this.stopped = false;
+    this.run().catch(error => logger.error('Re-embedding failed:', error));
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Re-embed every pending row. Returns the number of rows updated per table.
+   * Tables with sealed columns are skipped while the keys are locked.
+   */
+  async run(): Promise<Record<string, number>> {
+    if (this.running) {
+      throw new Error('Re-embedding is already running');
+    }
+
+    this.running = true;
+    const updated: Record<string, number> = {};
+
+    try {
+      for (const target of TARGETS) {
+        if (target.sealedColumns && this.options.cipher && this.options.isLocked?.()) {
+          logger.warn(`Skipping re-embedding of ${target.table} while the encryption keys are locked`);
+          updated[target.table] = 0;
+          continue;
+        }
+        updated[target.table] = await this.reembedTable(target);
+        if (this.stopped) break;
+      }
+
+      const total = Object.values(updated).reduce((sum, count) => sum + count, 0);
+      if (total > 0) {
+        logger.info(`Re-embedded ${total} rows with ${this.provider.id}`, updated);
+      }
+      return updated;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private pendingQuery(target: ReembedTarget) {
+    const query = this.db(target.table).where(builder =>
+      builder
+        .whereNull('embedding_model')
+        .orWhereNot('embedding_model', this.provider.id)
+    );
+    return target.softDelete ? query.whereNull('deleted_at') : query;
+  }
+
+  /**
+   * The text a row is embedded from, with its sealed columns opened
+   */
+  private textOf(target: ReembedTarget, row: Record<string, any>): string {
+    const { cipher } = this.options;
+    return target.text(target.sealedColumns && cipher ? decryptFields(row, target.sealedColumns, cipher) : row);
+  }
+
+  private async reembedTable(target: ReembedTarget): Promise<number> {
+    let updated = 0;
+
+    while (!this.stopped) {
+      const rows = await this.pendingQuery(target)
+        .orderBy('created_at', 'asc')
+        .limit(this.batchSize);
+
+      if (rows.length === 0) break;
+
+      // A provider failure aborts the run rather than spinning on the same batch
+      const embeddings = await this.provider.generate(rows.map(row => this.textOf(target, row)));
+
+      await this.db.transaction(async trx => {
+        for (let i = 0; i < rows.length; i++) {
+          await trx(target.table)
+            .where({ id: rows[i].id })
+            .update({
+              ...(target.storesEmbedding && { embedding: JSON.stringify(embeddings[i]) }),
+              embedding_model: this.provider.id,
+            });
+        }
+      });
+
+      await this.indexVectors(target, rows, embeddings);
+
+      updated += rows.length;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Add re-embedded rows to the vector store
+   */
+  private async indexVectors(
+    target: ReembedTarget,
+    rows: Record<string, any>[],
+    embeddings: number[][]
+  ): Promise<void> {
+    if (!target.collection || !this.options.vectorStore) return;
+
+    // The vector store keeps documents in plaintext, so sealed rows send none
+    const sealed = Boolean(target.sealedColumns && this.options.cipher);
+    try {
+      await this.options.vectorStore.upsert(target.collection, rows.map((row, i) => ({
+        id: row.id,
+        embedding: Array.from(embeddings[i]),
+        metadata: target.metadata?.(row),
+        document: sealed ? undefined : this.textOf(target, row),
+      })));
+    } catch (error) {
+      logger.warn(`Failed to index re-embedded ${target.table}:`, error);
+    }
+  }
+}
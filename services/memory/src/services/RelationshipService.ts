@@ -0,0 +1,486 @@
+import { Knex } from 'knex';
+import type { GraphStore } from '../db/graph/store';
+import { recordRowVersion } from '../models/BaseModel';
+import type { Event } from '../models/EventModel';
+import { logger } from '../utils/logger';
+
+export interface RelationshipOptions {
+  /** Days after which an interaction counts half (default 30) */
+  halfLifeDays?: number;
+  /** Local hour of day (0-23) for the daily decay job (default 3) */
+  runAtHour?: number;
+}
+
+export interface InteractionInput {
+  /** Entities that took part; every pair gets an INTERACTED_WITH edge */
+  entityIds: string[];
+  timestamp?: Date | string;
+  /** Event type the interaction happened through (email, meeting, ...) */
+  channel?: string;
+  /** Extraction sentiment: a label or a number from -1 to 1 */
+  sentiment?: unknown;
+}
+
+export interface NetworkContact {
+  entity: { id: string; name: string; type: string };
+  interaction_count: number;
+  first_interaction_at: string | null;
+  last_interaction_at: string | null;
+  channels: Record<string, number>;
+  /** Average sentiment of shared interactions, -1 to 1 */
+  sentiment: number | null;
+  /** 0-1, decayed to now */
+  strength: number;
+}
+
+export interface EntityNetwork {
+  entity: { id: string; name: string; type: string };
+  relationship_strength: number;
+  last_interaction_at: string | null;
+  contacts: NetworkContact[];
+}
+
+export interface DecayReport {
+  entities: number;
+  edges: number;
+}
+
+const TABLE = 'entity_interactions';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Decayed interaction count at which strength reaches 1 - 1/e
+const STRENGTH_SATURATION = 5;
+const SENTIMENT_SCORES: Record<string, number> = {
+  positive: 1,
+  mixed: 0,
+  neutral: 0,
+  negative: -1,
+};
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function toTime(value: Date | string | null | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+function toIso(value: Date | string | null | undefined): string | null {
+  const time = toTime(value);
+  return time === null ? null : new Date(time).toISOString();
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  return typeof value === 'string' ? JSON.parse(value || JSON.stringify(fallback)) : (value as T) ?? fallback;
+}
+
+/**
+ * Map an extraction sentiment to a score from -1 to 1. Labels and numbers
+ * are accepted; anything else has no score.
+ */
+export function sentimentScore(sentiment: unknown): number | null {
+  if (typeof sentiment === 'number') {
+    return isFinite(sentiment) ? Math.max(-1, Math.min(1, sentiment)) : null;
+  }
+  if (typeof sentiment !== 'string') return null;
+
+  const label = sentiment.trim().toLowerCase();
+  if (label in SENTIMENT_SCORES) return SENTIMENT_SCORES[label];
+
+  const numeric = parseFloat(label);
+  return isNaN(numeric) ? null : Math.max(-1, Math.min(1, numeric));
+}
+
+/**
+ * Weight left of an interaction after elapsedMs, halving every halfLifeDays
+ */
+export function decayWeight(elapsedMs: number, halfLifeDays: number): number {
+  return Math.pow(0.5, Math.max(0, elapsedMs) / (halfLifeDays * DAY_MS));
+}
+
+/**
+ * Strength from 0 to 1 for a decayed interaction count. The count saturates,
+ * so a handful of recent interactions already reads as strong.
+ */
+export function toStrength(score: number): number {
+  return round(1 - Math.exp(-Math.max(0, score) / STRENGTH_SATURATION));
+}
+
+/**
+ * Add one interaction at `at` to a decayed count last brought up to date at
+ * `last`. Late arrivals are decayed back instead of moving the clock.
+ */
+export function accumulateScore(
+  score: number,
+  last: number | null,
+  at: number,
+  halfLifeDays: number
+): { score: number; last: number } {
+  if (last === null) return { score: 1, last: at };
+  if (at >= last) return { score: score * decayWeight(at - last, halfLifeDays) + 1, last: at };
+  return { score: score + decayWeight(last - at, halfLifeDays), last };
+}
+
+/**
+ * Relationship engine: keeps per-entity relationship strength and
+ * INTERACTED_WITH aggregates (count, recency, channels, sentiment) between
+ * entities that take part in the same events and emails (design.md 4.2).
+ * Aggregates live in SQL and are mirrored to the graph store.
+ */
+export class RelationshipService {
+  private timer?: NodeJS.Timeout;
+  private readonly halfLifeDays: number;
+  private readonly runAtHour: number;
+
+  constructor(
+    private db: Knex,
+    private graphStore?: GraphStore,
+    options: RelationshipOptions = {}
+  ) {
+    this.halfLifeDays = options.halfLifeDays ?? 30;
+    this.runAtHour = options.runAtHour ?? 3;
+  }
+
+  /**
+   * Schedule the decay job to run daily at the configured hour
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const now = new Date();
+    const next = new Date(now);
+    next.setHours(this.runAtHour, 0, 0, 0);
+    if (next.getTime() <= now.getTime()) {
+      next.setTime(next.getTime() + DAY_MS);
+    }
+
+    this.timer = setTimeout(async () => {
+      this.timer = undefined;
+      try {
+        await this.decay();
+      } catch (error) {
+        logger.error('Scheduled relationship decay failed:', error);
+      }
+      this.start();
+    }, next.getTime() - now.getTime());
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Record an event's participants as an interaction
+   */
+  async recordEvent(event: Event): Promise<void> {
+    await this.recordInteraction({
+      entityIds: (event.participants || []).map(p => p.entity_id),
+      timestamp: event.start_time,
+      channel: event.type,
+      sentiment: event.metadata?.sentiment,
+    });
+  }
+
+  /**
+   * Count one interaction for every entity and every pair of entities.
+   * Unknown and merged entities are skipped.
+   */
+  async recordInteraction(input: InteractionInput): Promise<void> {
+    const at = toTime(input.timestamp ?? null) ?? Date.now();
+    const now = Date.now();
+    const channel = input.channel || 'other';
+    const sentiment = sentimentScore(input.sentiment);
+
+    const requested = Array.from(new Set(input.entityIds.filter(Boolean)));
+    if (requested.length === 0) return;
+
+    const edges = await this.db.transaction(async trx => {
+      const entities = await trx('entities')
+        .whereIn('id', requested)
+        .whereNull('deleted_at')
+        .select('id', 'interaction_score', 'last_interaction_at');
+
+      for (const entity of entities) {
+        const next = accumulateScore(
+          Number(entity.interaction_score) || 0,
+          toTime(entity.last_interaction_at),
+          at,
+          this.halfLifeDays
+        );
+        await trx('entities').where({ id: entity.id }).update({
+          interaction_score: next.score,
+          last_interaction_at: new Date(next.last).toISOString(),
+          relationship_strength: toStrength(next.score * decayWeight(now - next.last, this.halfLifeDays)),
+        });
+        await recordRowVersion(trx, 'entities', await trx('entities').where({ id: entity.id }).first(), 'update');
+      }
+
+      const ids = requested.filter(id => entities.some(entity => entity.id === id));
+      const updated: Array<Record<string, unknown>> = [];
+      for (const entityId of ids) {
+        for (const contactId of ids) {
+          if (entityId === contactId) continue;
+          updated.push(await this.recordEdge(trx, entityId, contactId, { at, now, channel, sentiment }));
+        }
+      }
+      return updated;
+    });
+
+    await this.mirrorEdges(edges);
+  }
+
+  /**
+   * Bring every strength up to date with the time that passed since the
+   * last interaction, and refresh the graph edges
+   */
+  async decay(now: Date = new Date()): Promise<DecayReport> {
+    const at = now.getTime();
+    let entityCount = 0;
+    let edgeCount = 0;
+
+    const entities = await this.db('entities')
+      .whereNotNull('last_interaction_at')
+      .select('id', 'interaction_score', 'last_interaction_at', 'relationship_strength');
+    for (const entity of entities) {
+      const strength = toStrength(
+        Number(entity.interaction_score) * decayWeight(at - toTime(entity.last_interaction_at)!, this.halfLifeDays)
+      );
+      // Entities are versioned, so only a changed strength is written
+      if (strength !== Number(entity.relationship_strength)) {
+        await this.db.transaction(async trx => {
+          await trx('entities').where({ id: entity.id }).update({ relationship_strength: strength });
+          await recordRowVersion(trx, 'entities', await trx('entities').where({ id: entity.id }).first(), 'update');
+        });
+      }
+      entityCount++;
+    }
+
+    const edges = await this.db(TABLE).select('*');
+    const refreshed: Array<Record<string, unknown>> = [];
+    for (const edge of edges) {
+      const strength = toStrength(
+        Number(edge.score) * decayWeight(at - toTime(edge.last_interaction_at)!, this.halfLifeDays)
+      );
+      await this.db(TABLE).where({ id: edge.id }).update({ strength, updated_at: now.toISOString() });
+      refreshed.push({ ...edge, strength });
+      edgeCount++;
+    }
+
+    await this.mirrorEdges(refreshed);
+    logger.info(`Relationship decay refreshed ${entityCount} entities and ${edgeCount} edges`);
+    return { entities: entityCount, edges: edgeCount };
+  }
+
+  /**
+   * An entity's strongest contacts, or null if the entity does not exist
+   */
+  async getNetwork(entityId: string, options: { limit?: number } = {}): Promise<EntityNetwork | null> {
+    const entity = await this.db('entities').where({ id: entityId }).whereNull('deleted_at').first();
+    if (!entity) return null;
+
+    const now = Date.now();
+    const rows = await this.db(`${TABLE} as i`)
+      .join('entities as e', 'e.id', 'i.contact_id')
+      .where('i.entity_id', entityId)
+      .whereNull('e.deleted_at')
+      .select('i.*', 'e.name as contact_name', 'e.type as contact_type');
+
+    const contacts = rows
+      .map(row => this.toContact(row, now))
+      .sort((a, b) => b.strength - a.strength || b.interaction_count - a.interaction_count)
+      .slice(0, options.limit || 10);
+
+    const last = toTime(entity.last_interaction_at);
+    return {
+      entity: { id: entity.id, name: entity.name, type: entity.type },
+      relationship_strength: last === null
+        ? 0
+        : toStrength(Number(entity.interaction_score) * decayWeight(now - last, this.halfLifeDays)),
+      last_interaction_at: toIso(entity.last_interaction_at),
+      contacts,
+    };
+  }
+
+  /**
+   * Current edge strengths from each of the given entities, keyed
+   * `${entityId}:${contactId}`
+   */
+  async getStrengths(entityIds: string[]): Promise<Map<string, number>> {
+    const strengths = new Map<string, number>();
+    if (entityIds.length === 0) return strengths;
+
+    const now = Date.now();
+    const rows = await this.db(TABLE)
+      .whereIn('entity_id', entityIds)
+      .select('entity_id', 'contact_id', 'score', 'last_interaction_at');
+    for (const row of rows) {
+      const last = toTime(row.last_interaction_at);
+      if (last === null) continue;
+      strengths.set(
+        `${row.entity_id}:${row.contact_id}`,
+        toStrength(Number(row.score) * decayWeight(now - last, this.halfLifeDays))
+      );
+    }
+    return strengths;
+  }
+
+  /**
+   * Move an entity's interactions to the entity it is merged into. Pairs
+   * both had are folded into one, and interactions between the two are
+   * dropped. Returns the rows changed, as they were before, so the merge can
+   * be undone with restoreInteractions.
+   */
+  async moveInteractions(trx: Knex.Transaction, fromId: string, toId: string): Promise<Array<Record<string, unknown>>> {
+    const before: Array<Record<string, unknown>> = [];
+    const rows = await trx(TABLE).where('entity_id', fromId).orWhere('contact_id', fromId);
+
+    for (const row of rows) {
+      before.push(row);
+      const pair = {
+        entity_id: row.entity_id === fromId ? toId : row.entity_id,
+        contact_id: row.contact_id === fromId ? toId : row.contact_id,
+      };
+      if (pair.entity_id === pair.contact_id) {
+        await trx(TABLE).where({ id: row.id }).del();
+        continue;
+      }
+
+      const existing = await trx(TABLE).where(pair).first();
+      if (!existing) {
+        await trx(TABLE).where({ id: row.id }).update({ ...pair, updated_at: new Date().toISOString() });
+        continue;
+      }
+      before.push(existing);
+      await trx(TABLE).where({ id: row.id }).del();
+      await trx(TABLE).where({ id: existing.id }).update(this.fold(existing, row));
+    }
+    return before;
+  }
+
+  /**
+   * Put back interaction rows as moveInteractions found them
+   */
+  async restoreInteractions(trx: Knex.Transaction, rows: Array<Record<string, unknown>>): Promise<void> {
+    for (const row of rows) {
+      await trx(TABLE).where({ id: row.id }).del();
+      await trx(TABLE).insert(row);
+    }
+  }
+
+  // One pair's aggregates from two rows for it
+  private fold(a: Record<string, any>, b: Record<string, any>): Record<string, unknown> {
+    const lastA = toTime(a.last_interaction_at);
+    const lastB = toTime(b.last_interaction_at);
+    const last = Math.max(lastA ?? 0, lastB ?? 0);
+    const decayed = (score: unknown, at: number | null) =>
+      at === null ? 0 : Number(score) * decayWeight(last - at, this.halfLifeDays);
+    const firsts = [toTime(a.first_interaction_at), toTime(b.first_interaction_at)].filter((time): time is number => time !== null);
+
+    const channels = parseJson<Record<string, number>>(a.channels, {});
+    for (const [channel, count] of Object.entries(parseJson<Record<string, number>>(b.channels, {}))) {
+      channels[channel] = (channels[channel] || 0) + count;
+    }
+    const score = decayed(a.score, lastA) + decayed(b.score, lastB);
+
+    return {
+      interaction_count: Number(a.interaction_count) + Number(b.interaction_count),
+      first_interaction_at: firsts.length > 0 ? new Date(Math.min(...firsts)).toISOString() : null,
+      last_interaction_at: lastA === null && lastB === null ? null : new Date(last).toISOString(),
+      channels: JSON.stringify(channels),
+      sentiment_sum: Number(a.sentiment_sum) + Number(b.sentiment_sum),
+      sentiment_count: Number(a.sentiment_count) + Number(b.sentiment_count),
+      score,
+      strength: toStrength(score * decayWeight(Date.now() - last, this.halfLifeDays)),
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  private async recordEdge(
+    trx: Knex.Transaction,
+    entityId: string,
+    contactId: string,
+    interaction: { at: number; now: number; channel: string; sentiment: number | null }
+  ): Promise<Record<string, unknown>> {
+    const { at, now, channel, sentiment } = interaction;
+    const existing = await trx(TABLE).where({ entity_id: entityId, contact_id: contactId }).first();
+
+    const channels = parseJson<Record<string, number>>(existing?.channels, {});
+    channels[channel] = (channels[channel] || 0) + 1;
+
+    const first = toTime(existing?.first_interaction_at);
+    const next = accumulateScore(
+      Number(existing?.score) || 0,
+      toTime(existing?.last_interaction_at),
+      at,
+      this.halfLifeDays
+    );
+
+    const row = {
+      entity_id: entityId,
+      contact_id: contactId,
+      interaction_count: (Number(existing?.interaction_count) || 0) + 1,
+      first_interaction_at: new Date(first === null ? at : Math.min(first, at)).toISOString(),
+      last_interaction_at: new Date(next.last).toISOString(),
+      channels: JSON.stringify(channels),
+      sentiment_sum: (Number(existing?.sentiment_sum) || 0) + (sentiment ?? 0),
+      sentiment_count: (Number(existing?.sentiment_count) || 0) + (sentiment === null ? 0 : 1),
+      score: next.score,
+      strength: toStrength(next.score * decayWeight(now - next.last, this.halfLifeDays)),
+      updated_at: new Date(now).toISOString(),
+    };
+
+    if (existing) {
+      await trx(TABLE).where({ id: existing.id }).update(row);
+    } else {
+      await trx(TABLE).insert(row);
+    }
+    return row;
+  }
+
+  /**
+   * Write INTERACTED_WITH edges to the graph store. Failures are logged, the
+   * SQL aggregates stay the source of truth.
+   */
+  private async mirrorEdges(rows: Array<Record<string, any>>): Promise<void> {
+    if (!this.graphStore || rows.length === 0) return;
+
+    const edges = rows.map(row => ({
+      type: 'INTERACTED_WITH',
+      from: { label: 'Entity' as const, id: row.entity_id },
+      to: { label: 'Entity' as const, id: row.contact_id },
+      properties: {
+        count: Number(row.interaction_count),
+        last_ts: toIso(row.last_interaction_at),
+        strength: Number(row.strength),
+        sentiment: Number(row.sentiment_count) > 0
+          ? round(Number(row.sentiment_sum) / Number(row.sentiment_count))
+          : null,
+        channels: Object.keys(parseJson<Record<string, number>>(row.channels, {})),
+      },
+    }));
+
+    try {
+      await this.graphStore.mergeEdges(edges);
+    } catch (error) {
+      logger.warn('Failed to update INTERACTED_WITH edges:', error);
+    }
+  }
+
+  private toContact(row: Record<string, any>, now: number): NetworkContact {
+    const last = toTime(row.last_interaction_at);
+    const sentimentCount = Number(row.sentiment_count);
+    return {
+      entity: { id: row.contact_id, name: row.contact_name, type: row.contact_type },
+      interaction_count: Number(row.interaction_count),
+      first_interaction_at: toIso(row.first_interaction_at),
+      last_interaction_at: toIso(row.last_interaction_at),
+      channels: parseJson<Record<string, number>>(row.channels, {}),
+      sentiment: sentimentCount > 0 ? round(Number(row.sentiment_sum) / sentimentCount) : null,
+      strength: last === null ? 0 : toStrength(Number(row.score) * decayWeight(now - last, this.halfLifeDays)),
+    };
+  }
+}
@@ -0,0 +1,172 @@
+import type { IPromptService } from './EventProcessingService';
+import { logger } from '../utils/logger';
+
+export interface RerankCandidate {
+  id: string;
+  type: string;
+  content: string;
+}
+
+export interface RerankResult {
+  /** Relevance of each candidate to the query in [0, 1], in candidate order */
+  scores: number[];
+  /** Name of the reranker that produced the scores */
+  reranker: string;
+}
+
+/**
+ * Second retrieval stage: scores query/candidate pairs jointly, which a
+ * single vector similarity cannot do.
+ */
+export interface Reranker {
+  readonly name: string;
+  rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult>;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'for', 'from', 'has', 'have',
+  'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'we', 'what', 'when', 'where', 'who', 'with', 'you', 'your',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Local reranker: IDF-weighted query term coverage plus bigram and exact
+ * phrase matches. Needs no network, so it is also the fallback when the
+ * prompt service is unavailable.
+ */
+export class HeuristicReranker implements Reranker {
+  readonly name = 'heuristic';
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || candidates.length === 0) {
+      return { scores: candidates.map(() => 0), reranker: this.name };
+    }
+
+    const documents = candidates.map(candidate => tokenize(candidate.content));
+    const documentTerms = documents.map(tokens => new Set(tokens));
+
+    // Terms that appear in fewer candidates discriminate better
+    const idf = new Map(queryTerms.map(term => {
+      const df = documentTerms.filter(terms => terms.has(term)).length;
+      return [term, Math.log(1 + candidates.length / (1 + df))];
+    }));
+    const totalWeight = queryTerms.reduce((sum, term) => sum + (idf.get(term) || 0), 0);
+
+    const queryBigrams = bigrams(tokenize(query));
+    const phrase = query.toLowerCase().replace(/\s+/g, ' ').trim();
+
+    const scores = candidates.map((candidate, i) => {
+      const matchedWeight = queryTerms
+        .filter(term => documentTerms[i].has(term))
+        .reduce((sum, term) => sum + (idf.get(term) || 0), 0);
+      const coverage = totalWeight > 0 ? matchedWeight / totalWeight : 0;
+
+      const candidateBigrams = new Set(bigrams(documents[i]));
+      const bigramScore = queryBigrams.length > 0
+        ? queryBigrams.filter(bigram => candidateBigrams.has(bigram)).length / queryBigrams.length
+        : 0;
+
+      const phraseScore = phrase.length > 0
+        && candidate.content.toLowerCase().replace(/\s+/g, ' ').includes(phrase) ? 1 : 0;
+
+      return Math.min(1, 0.7 * coverage + 0.2 * bigramScore + 0.1 * phraseScore);
+    });
+
+    return { scores, reranker: this.name };
+  }
+}
+
+function bigrams(tokens: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    result.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return result;
+}
+
+/**
+ * LLM reranker through the prompt service. The model grades every candidate
+ * in one call; candidates it skips, or the whole batch if the call fails,
+ * are scored by the fallback reranker.
+ */
+export class PromptServiceReranker implements Reranker {
+  readonly name = 'prompt';
+  private readonly maxCandidates: number;
+  private readonly maxChars: number;
+
+  constructor(
+    private promptService: IPromptService,
+    private fallback: Reranker = new HeuristicReranker(),
+    options: { maxCandidates?: number; maxChars?: number } = {}
+  ) {
+    this.maxCandidates = options.maxCandidates ?? 20;
+    this.maxChars = options.maxChars ?? 300;
+  }
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult> {
+    const fallback = await this.fallback.rerank(query, candidates);
+    if (candidates.length === 0) return fallback;
+
+    const graded = candidates.slice(0, this.maxCandidates);
+    const prompt = `
+      Rate how relevant each memory is to the query, from 0 (unrelated) to 1 (directly answers it).
+
+      Query: ${query}
+
+      Memories:
+      ${graded.map((candidate, i) =>
+        `[${i}] (${candidate.type}) ${candidate.content.replace(/\s+/g, ' ').substring(0, this.maxChars)}`
+      ).join('\n')}
+
+      Return only JSON: {"scores": [{"index": 0, "score": 0.0}]}
+    `;
+
+    try {
+      const response = await this.promptService.generate(prompt, { temperature: 0 });
+      const llmScores = parseScores(response, graded.length);
+      if (llmScores.size === 0) {
+        return fallback;
+      }
+
+      return {
+        scores: candidates.map((_, i) => llmScores.get(i) ?? fallback.scores[i]),
+        reranker: this.name,
+      };
+    } catch (error) {
+      logger.warn('Prompt service reranking failed, using fallback:', error);
+      return fallback;
+    }
+  }
+}
+
+/**
+ * Read {"scores": [{"index", "score"}]} from a model response. Anything
+ * malformed yields no scores rather than an error.
+ */
+export function parseScores(response: string, count: number): Map<number, number> {
+  const scores = new Map<number, number>();
+  const json = response.match(/\{[\s\S]*\}/);
+  if (!json) return scores;
+
+  try {
+    const parsed = JSON.parse(json[0]);
+    for (const entry of Array.isArray(parsed.scores) ? parsed.scores : []) {
+      const index = Number(entry?.index);
+      const score = Number(entry?.score);
+      if (Number.isInteger(index) && index >= 0 && index < count && Number.isFinite(score)) {
+        scores.set(index, Math.max(0, Math.min(1, score)));
+      }
+    }
+  } catch {
+    // Not JSON after all; the caller falls back
+  }
+  return scores;
+}
@@ -0,0 +1,443 @@
+import { z } from 'zod';
+import { ValidationError } from '../models/BaseModel';
+import { RAW_METADATA_KEYS, type Event, type EventModel } from '../models/EventModel';
+import type { MemorySummaryModel } from '../models/MemorySummaryModel';
+import { RetentionItemType, type RetentionPinModel } from '../models/RetentionPinModel';
+import type { SessionModel } from '../models/SessionModel';
+import type { BlobService } from './BlobService';
+import type { ConsolidationService } from './ConsolidationService';
+import { logger } from '../utils/logger';
+
+export const RetentionRuleSchema = z.object({
+  type: RetentionItemType,
+  /** Events only: the capture source in metadata.source, e.g. screen or audio */
+  source: z.string().min(1).optional(),
+  /** Days an item stays hot; null keeps it hot */
+  hotDays: z.number().min(0).nullable().optional(),
+  /** Days before an item is purged; null keeps it */
+  warmDays: z.number().min(0).nullable().optional(),
+});
+
+export type RetentionRuleInput = z.infer<typeof RetentionRuleSchema>;
+
+export interface RetentionRule {
+  type: RetentionItemType;
+  source: string | null;
+  hotDays: number | null;
+  warmDays: number | null;
+}
+
+export interface RetentionOptions {
+  /** Hour of the daily run (default 3) */
+  runAtHour?: number;
+  /** Days raw captures are kept, for events, sessions and screenshots (default 7) */
+  hotDays?: number;
+  /** Days before events and sessions are purged, leaving their summaries (default 90) */
+  warmDays?: number;
+  /** Overrides per type, or per type and source */
+  rules?: RetentionRuleInput[];
+  /** Most items of each type handled by one run (default 500) */
+  batchSize?: number;
+}
+
+// Item types stored by this service; screenshots stay on the edge agent
+type StoredType = Exclude<RetentionItemType, 'screenshot'>;
+
+export interface RetentionAction {
+  type: StoredType;
+  id: string;
+  action: 'demote' | 'purge';
+  age_days: number;
+}
+
+export interface RetentionReport {
+  dry_run: boolean;
+  as_of: string;
+  demoted: Record<StoredType, number>;
+  purged: Record<StoredType, number>;
+  /** Items due for demotion or purging but pinned */
+  pinned: number;
+  /** Days summarized before their events were purged */
+  summarized_days: string[];
+  /** Days whose events were kept because no summary could be made */
+  unsummarized_days: string[];
+  actions: RetentionAction[];
+}
+
+export interface RetentionModels {
+  eventModel: EventModel;
+  sessionModel: SessionModel;
+  summaryModel: MemorySummaryModel;
+  pinModel: RetentionPinModel;
+  /** Deletes the screenshots and recordings of demoted and purged events */
+  blobService?: BlobService;
+}
+
+// State of one run, shared by its steps
+interface RetentionRun {
+  report: RetentionReport;
+  now: Date;
+  dryRun: boolean;
+  /** type:id of the pinned items met so far */
+  pinned: Set<string>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Warm events keep this much of their description
+export const WARM_DESCRIPTION_CHARS = 500;
+
+/**
+ * An event's content once it leaves the hot lane: the description cut to a
+ * summary's length and the raw capture fields dropped from its metadata
+ */
+export function warmContent(event: Pick<Event, 'description' | 'metadata'>): { description: string; metadata: Record<string, unknown> } {
+  const description = event.description || '';
+  const metadata = Object.fromEntries(
+    Object.entries(event.metadata || {}).filter(([key]) => !RAW_METADATA_KEYS.includes(key))
+  );
+
+  return {
+    description: description.length > WARM_DESCRIPTION_CHARS
+      ? `${description.slice(0, WARM_DESCRIPTION_CHARS - 1)}…`
+      : description,
+    metadata,
+  };
+}
+
+function ageDays(time: Date | string, now: Date): number {
+  return (now.getTime() - new Date(time).getTime()) / DAY_MS;
+}
+
+function eventSource(event: Event): string | null {
+  const source = event.metadata?.source ?? event.source;
+  return typeof source === 'string' && source ? source : null;
+}
+
+/**
+ * Hot, warm and cold memory lanes (design.md 6.2 and 10.2). Events start
+ * hot; after `hotDays` their raw content is dropped, keeping the summary and
+ * embedding, and after `warmDays` they are purged from the relational, vector
+ * and graph stores once their day has a summary. Sessions lose their
+ * transcript and are purged on the same schedule. Summaries are kept unless a
+ * rule says otherwise, and pinned items are never touched.
+ */
+export class RetentionService {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private readonly runAtHour: number;
+  private readonly batchSize: number;
+  private readonly rules: RetentionRule[];
+
+  constructor(
+    private models: RetentionModels,
+    private consolidationService?: ConsolidationService,
+    options: RetentionOptions = {}
+  ) {
+    this.runAtHour = options.runAtHour ?? 3;
+    this.batchSize = options.batchSize ?? 500;
+
+    const hotDays = options.hotDays ?? 7;
+    const warmDays = options.warmDays ?? 90;
+    const defaults: RetentionRule[] = [
+      { type: 'event', source: null, hotDays, warmDays },
+      { type: 'session', source: null, hotDays, warmDays },
+      { type: 'summary', source: null, hotDays: null, warmDays: null },
+      // Screenshots are raw captures only: nothing is left after the hot lane
+      { type: 'screenshot', source: null, hotDays, warmDays: hotDays },
+    ];
+
+    const parsed = z.array(RetentionRuleSchema).safeParse(options.rules ?? []);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid retention rules', parsed.error.issues);
+    }
+
+    // Rules without a source replace the type's default; the rest are added
+    this.rules = defaults.map(rule => {
+      const override = parsed.data.find(candidate => candidate.type === rule.type && !candidate.source);
+      return override ? { ...rule, ...override, source: null } : rule;
+    });
+    for (const rule of parsed.data.filter(candidate => candidate.source)) {
+      const base = this.ruleFor(rule.type);
+      this.rules.push({
+        type: rule.type,
+        source: rule.source!.toLowerCase(),
+        hotDays: rule.hotDays === undefined ? base.hotDays : rule.hotDays,
+        warmDays: rule.warmDays === undefined ? base.warmDays : rule.warmDays,
+      });
+    }
+  }
+
+  /**
+   * Every rule in force, the defaults included
+   */
+  policy(): RetentionRule[] {
+    return this.rules.map(rule => ({ ...rule }));
+  }
+
+  /**
+   * The rule for a type, and for events their source
+   */
+  ruleFor(type: RetentionItemType, source?: string | null): RetentionRule {
+    const bySource = source
+      ? this.rules.find(rule => rule.type === type && rule.source === source.toLowerCase())
+      : undefined;
+    return bySource ?? this.rules.find(rule => rule.type === type && rule.source === null)!;
+  }
+
+  /**
+   * Schedule the job to run daily at the configured hour
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const now = new Date();
+    const next = new Date(now);
+    next.setHours(this.runAtHour, 0, 0, 0);
+    if (next.getTime() <= now.getTime()) {
+      next.setTime(next.getTime() + DAY_MS);
+    }
+
+    this.timer = setTimeout(async () => {
+      this.timer = undefined;
+      try {
+        await this.run();
+      } catch (error) {
+        logger.error('Scheduled retention run failed:', error);
+      }
+      this.start();
+    }, next.getTime() - now.getTime());
+    this.timer.unref();
+
+    logger.info(`Retention run scheduled for ${next.toISOString()}`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Demote and purge what the rules say is due. A dry run changes nothing
+   * and reports what a run would do.
+   */
+  async run(options: { dryRun?: boolean; now?: Date } = {}): Promise<RetentionReport> {
+    if (this.running) {
+      throw new ValidationError('Retention is already running');
+    }
+
+    this.running = true;
+    try {
+      const { dryRun = false, now = new Date() } = options;
+      const report: RetentionReport = {
+        dry_run: dryRun,
+        as_of: now.toISOString(),
+        demoted: { event: 0, session: 0, summary: 0 },
+        purged: { event: 0, session: 0, summary: 0 },
+        pinned: 0,
+        summarized_days: [],
+        unsummarized_days: [],
+        actions: [],
+      };
+
+      const state: RetentionRun = { report, now, dryRun, pinned: new Set() };
+
+      // Purge first, so nothing is demoted just before it goes
+      const purgedEvents = await this.purgeEvents(state);
+      await this.demoteEvents(state, purgedEvents);
+      await this.retainSessions(state);
+      await this.purgeSummaries(state);
+      report.pinned = state.pinned.size;
+
+      if (!dryRun) {
+        logger.info('Retention run finished', { demoted: report.demoted, purged: report.purged, pinned: report.pinned });
+      }
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async purgeEvents(state: RetentionRun): Promise<Set<string>> {
+    const { report, now, dryRun } = state;
+    const cutoff = this.earliestCutoff('event', 'warmDays', now);
+    if (!cutoff) return new Set();
+
+    const candidates = [
+      ...await this.models.eventModel.findInLane('hot', cutoff, this.batchSize),
+      ...await this.models.eventModel.findInLane('warm', cutoff, this.batchSize),
+    ];
+    const due = await this.unpinned('event', candidates.filter(event => {
+      const { warmDays } = this.ruleFor('event', eventSource(event));
+      return warmDays !== null && ageDays(event.start_time, now) >= warmDays;
+    }), state);
+
+    // Cold events live on in their day's summary, so make sure it exists
+    const byDay = new Map<string, { start: Date; events: Event[] }>();
+    for (const event of due) {
+      const start = new Date(event.start_time);
+      start.setHours(0, 0, 0, 0);
+      const key = start.toISOString();
+      byDay.set(key, { start, events: [...(byDay.get(key)?.events ?? []), event] });
+    }
+
+    const purgeable: Event[] = [];
+    for (const { start, events } of byDay.values()) {
+      if (await this.ensureDaySummary(start, state)) {
+        purgeable.push(...events);
+      }
+    }
+
+    for (const event of purgeable) {
+      report.actions.push({ type: 'event', id: event.id, action: 'purge', age_days: ageDays(event.start_time, now) });
+    }
+    const ids = purgeable.map(event => event.id);
+    report.purged.event = dryRun ? ids.length : await this.models.eventModel.purge(ids);
+    if (!dryRun) {
+      await this.deleteBlobs(purgeable);
+    }
+    return new Set(ids);
+  }
+
+  private async demoteEvents(state: RetentionRun, purged: Set<string>): Promise<void> {
+    const { report, now, dryRun } = state;
+    const cutoff = this.earliestCutoff('event', 'hotDays', now);
+    if (!cutoff) return;
+
+    const candidates = await this.models.eventModel.findInLane('hot', cutoff, this.batchSize);
+    const due = await this.unpinned('event', candidates.filter(event => {
+      const { hotDays } = this.ruleFor('event', eventSource(event));
+      return !purged.has(event.id) && hotDays !== null && ageDays(event.start_time, now) >= hotDays;
+    }), state);
+
+    for (const event of due) {
+      report.actions.push({ type: 'event', id: event.id, action: 'demote', age_days: ageDays(event.start_time, now) });
+      if (!dryRun) {
+        await this.models.eventModel.demote(event.id, warmContent(event));
+      }
+      report.demoted.event++;
+    }
+    if (!dryRun) {
+      await this.deleteBlobs(due);
+    }
+  }
+
+  /**
+   * Delete the blobs the events captured, unless other events still use them.
+   * A blob left behind is retried with the next events that let go of it.
+   */
+  private async deleteBlobs(events: Event[]): Promise<void> {
+    const ids = events.map(event => event.blob_id).filter((id): id is string => Boolean(id));
+    if (!this.models.blobService || ids.length === 0) return;
+
+    try {
+      await this.models.blobService.deleteUnreferenced(ids);
+    } catch (error) {
+      logger.warn('Could not delete the blobs of retired events:', error);
+    }
+  }
+
+  /**
+   * Drop the transcript of sessions past the hot lane and purge those past
+   * the warm lane. Open sessions are left alone.
+   */
+  private async retainSessions(state: RetentionRun): Promise<void> {
+    const { report, now, dryRun } = state;
+    const { hotDays, warmDays } = this.ruleFor('session');
+    const purged = new Set<string>();
+
+    if (warmDays !== null) {
+      const candidates = await this.models.sessionModel.findEndedBefore(this.cutoff(warmDays, now), { limit: this.batchSize });
+      const due = await this.unpinned('session', candidates.filter(session => session.status === 'closed'), state);
+      for (const session of due) {
+        report.actions.push({ type: 'session', id: session.id as string, action: 'purge', age_days: ageDays(session.end_time, now) });
+        if (dryRun || await this.models.sessionModel.hardDeleteById(session.id as string)) {
+          report.purged.session++;
+        }
+        purged.add(session.id as string);
+      }
+    }
+
+    if (hotDays !== null) {
+      const candidates = await this.models.sessionModel.findEndedBefore(this.cutoff(hotDays, now), { withTranscript: true, limit: this.batchSize });
+      const due = await this.unpinned('session', candidates.filter(session => session.status === 'closed' && !purged.has(session.id as string)), state);
+      for (const session of due) {
+        report.actions.push({ type: 'session', id: session.id as string, action: 'demote', age_days: ageDays(session.end_time, now) });
+        if (!dryRun) {
+          await this.models.sessionModel.update(session.id as string, { transcript: '' });
+        }
+        report.demoted.session++;
+      }
+    }
+  }
+
+  private async purgeSummaries(state: RetentionRun): Promise<void> {
+    const { report, now, dryRun } = state;
+    const { warmDays } = this.ruleFor('summary');
+    if (warmDays === null) return;
+
+    const candidates = await this.models.summaryModel.findEndedBefore(this.cutoff(warmDays, now), this.batchSize);
+    for (const summary of await this.unpinned('summary', candidates, state)) {
+      report.actions.push({ type: 'summary', id: summary.id as string, action: 'purge', age_days: ageDays(summary.period_end, now) });
+      if (dryRun || await this.models.summaryModel.hardDeleteById(summary.id as string)) {
+        report.purged.summary++;
+      }
+    }
+  }
+
+  /**
+   * Whether the day starting at `start` has a day summary, consolidating it
+   * first if needed. In a dry run, days without one are reported as to be
+   * summarized.
+   */
+  private async ensureDaySummary(start: Date, { report, dryRun }: RetentionRun): Promise<boolean> {
+    const day = start.toISOString().slice(0, 10);
+    const end = new Date(start.getTime() + DAY_MS - 1);
+    const hasSummary = async () =>
+      (await this.models.summaryModel.findInPeriod(start, end, { scope: 'day', limit: 1 })).length > 0;
+
+    if (await hasSummary()) return true;
+    if (dryRun && this.consolidationService) {
+      report.summarized_days.push(day);
+      return true;
+    }
+
+    if (!dryRun && this.consolidationService) {
+      try {
+        await this.consolidationService.consolidateDay(start);
+      } catch (error) {
+        logger.error(`Failed to summarize ${day} before purging its events:`, error);
+      }
+      if (await hasSummary()) {
+        report.summarized_days.push(day);
+        return true;
+      }
+    }
+
+    report.unsummarized_days.push(day);
+    return false;
+  }
+
+  private async unpinned<T extends { id?: string }>(type: StoredType, items: T[], state: RetentionRun): Promise<T[]> {
+    const pinned = await this.models.pinModel.pinnedIds(type, items.map(item => item.id as string));
+    pinned.forEach(id => state.pinned.add(`${type}:${id}`));
+    return items.filter(item => !pinned.has(item.id as string));
+  }
+
+  /**
+   * The cutoff of the type's shortest window, or null when no rule of the
+   * type sets one
+   */
+  private earliestCutoff(type: StoredType, window: 'hotDays' | 'warmDays', now: Date): Date | null {
+    const days = this.rules
+      .filter(rule => rule.type === type && rule[window] !== null)
+      .map(rule => rule[window] as number);
+    return days.length > 0 ? this.cutoff(Math.min(...days), now) : null;
+  }
+
+  private cutoff(days: number, now: Date): Date {
+    return new Date(now.getTime() - days * DAY_MS);
+  }
+}
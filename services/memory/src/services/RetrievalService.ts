@@ -1,98 +1,422 @@
-import { EventModel } from '../models/EventModel';
-import { EntityModel } from '../models/EntityModel';
-import { TaskModel } from '../models/TaskModel';
+import { EventModel, type Event } from '../models/EventModel';
+import { EntityModel, type BaseEntity } from '../models/EntityModel';
+import { TaskModel, type Task } from '../models/TaskModel';
+import { MemorySummaryModel } from '../models/MemorySummaryModel';
 import { getEmbeddingFunction } from '../db/vector/chroma';
+import type { EmbeddingProvider } from '../db/vector/embeddings';
+import type { KeywordIndex, KeywordMatch } from '../db/search/keywordIndex';
+import { HeuristicReranker, type Reranker } from './Reranker';
+import type { RelationshipService } from './RelationshipService';
+
+export interface RetrievalWeights {
+  semantic: number;
+  rerank: number;
+  temporal: number;
+  relational: number;
+  actionability: number;
+}
+
+export type RetrievalIntent =
+  | 'default'
+  | 'drafting_email'
+  | 'morning_briefing'
+  | 'task_planning'
+  | 'recall';
+
+/**
+ * How first-stage candidates are found: vector similarity, keyword matches,
+ * or both fused by reciprocal rank
+ */
+export type RetrievalMode = 'semantic' | 'keyword' | 'hybrid';
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['semantic', 'keyword', 'hybrid'];
+
+export interface WeightProfile {
+  weights: RetrievalWeights;
+  /** Recency decay per day: recency = exp(-lambda * age_days) */
+  lambda: number;
+}
+
+// Tunable weights per retrieval intent (design.md 7.1)
+export const WEIGHT_PROFILES: Record<RetrievalIntent, WeightProfile> = {
+  default: {
+    weights: { semantic: 0.35, rerank: 0.2, temporal: 0.2, relational: 0.15, actionability: 0.1 },
+    lambda: 0.1,
+  },
+  // Recent interactions with the recipient matter most
+  drafting_email: {
+    weights: { semantic: 0.25, rerank: 0.2, temporal: 0.15, relational: 0.35, actionability: 0.05 },
+    lambda: 0.05,
+  },
+  // What happened lately and what needs doing today
+  morning_briefing: {
+    weights: { semantic: 0.1, rerank: 0.1, temporal: 0.3, relational: 0.1, actionability: 0.4 },
+    lambda: 0.5,
+  },
+  task_planning: {
+    weights: { semantic: 0.2, rerank: 0.15, temporal: 0.1, relational: 0.1, actionability: 0.45 },
+    lambda: 0.1,
+  },
+  // Finding a specific memory regardless of age
+  recall: {
+    weights: { semantic: 0.45, rerank: 0.35, temporal: 0.05, relational: 0.1, actionability: 0.05 },
+    lambda: 0.01,
+  },
+};
+
+/**
+ * What to do with memories awaiting verification: rank them lower, or leave
+ * them out. Rejected ones are always left out.
+ */
+export type UnverifiedHandling = 'downweight' | 'exclude';
+
+export const UNVERIFIED_HANDLING: UnverifiedHandling[] = ['downweight', 'exclude'];
+
+/** Factor applied to the final score of unverified memories when down-weighted */
+export const UNVERIFIED_WEIGHT = 0.5;
 
 export interface RetrievalOptions {
-  weights?: {
-    semantic: number;
-    temporal: number;
-    relational: number;
-  };
+  intent?: RetrievalIntent;
+  /** First-stage search; hybrid by default when a keyword index is configured */
+  mode?: RetrievalMode;
+  /** Overrides individual weights of the intent's profile */
+  weights?: Partial<RetrievalWeights>;
+  /** Overrides the intent's recency decay */
+  lambda?: number;
+  /** Run the second-stage reranker (default true) */
+  rerank?: boolean;
+  /** Number of first-stage candidates passed to the reranker */
+  candidateLimit?: number;
   entityContext?: string[];
   timeWindow?: {
     start: Date;
     end: Date;
   };
   limit?: number;
+  /**
+   * Answer as of a past moment: only memories recorded by then are searched,
+   * entities and tasks in their historical state, and recency is measured
+   * from that moment
+   */
+  asOf?: Date;
+  /** Unverified extractions are down-weighted by default */
+  unverified?: UnverifiedHandling;
+}
+
+export interface RetrievalBreakdown {
+  /** Vector similarity to the query */
+  semantic: number;
+  /** Keyword relevance relative to the best keyword match, null when not matched by keyword */
+  keyword: number | null;
+  /** Reciprocal rank fusion score in [0, 1], null outside hybrid mode */
+  fused: number | null;
+  /** Reranker relevance, null when reranking was skipped */
+  rerank: number | null;
+  temporal: number;
+  relational: number;
+  actionability: number;
+  /** Factor applied to the final score: UNVERIFIED_WEIGHT for unverified memories, 1 otherwise */
+  verification: number;
+  ageDays: number;
+  /** Position after the first (vector) stage */
+  firstStageRank: number;
+  mode: RetrievalMode;
+  intent: RetrievalIntent;
+  reranker: string | null;
+  lambda: number;
+  weights: RetrievalWeights;
 }
 
 export interface RetrievalResult {
   id: string;
-  type: 'event' | 'entity' | 'task';
+  type: 'event' | 'entity' | 'task' | 'summary';
+  content: string;
+  metadata: Record<string, any>;
+  score: number;
+  breakdown: RetrievalBreakdown;
+}
+
+interface Candidate {
+  id: string;
+  type: RetrievalResult['type'];
   content: string;
   metadata: Record<string, any>;
+  /** Vector similarity to the query */
   score: number;
-  breakdown: {
-    semantic: number;
-    temporal: number;
-    relational: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/** Rank offset of reciprocal rank fusion; dampens the weight of the top ranks */
+export const RRF_K = 60;
+/** Factor by which as-of event searches widen the vector query, up to three times */
+const AS_OF_OVERFETCH = 4;
+const OPEN_TASK_STATUSES = new Set(['pending', 'in_progress', 'blocked']);
+const PRIORITY_BOOST: Record<string, number> = { low: 0, medium: 0.05, high: 0.1, urgent: 0.2 };
+
+/**
+ * Whether a row had been recorded by the as-of moment
+ */
+function recordedBy(row: { created_at?: Date | string }, asOf?: Date): boolean {
+  return !asOf || !row.created_at || new Date(row.created_at).getTime() <= asOf.getTime();
+}
+
+function eventResult(event: Event, score: number) {
+  return {
+    id: event.id as string,
+    content: `${event.title}\n${event.description || ''}`,
+    metadata: {
+      ...event,
+      timestamp: event.start_time,
+      related_entities: event.participants?.map(p => p.entity_id) || [],
+    },
+    score,
+  };
+}
+
+function entityResult(entity: BaseEntity, score: number) {
+  return {
+    id: entity.id as string,
+    content: `${entity.name}\n${entity.description || ''}`,
+    metadata: {
+      ...entity,
+      timestamp: entity.updated_at || entity.created_at,
+      related_entities: [], // Would be populated with related entities
+    },
+    score,
+  };
+}
+
+function taskResult(task: Task, score: number) {
+  return {
+    id: task.id as string,
+    content: `${task.title}\n${task.description || ''}`,
+    metadata: {
+      ...task,
+      timestamp: task.due_date || task.created_at,
+      related_entities: task.assignee_id ? [task.assignee_id] : [],
+    },
+    score,
   };
 }
 
+/**
+ * Reciprocal rank fusion: each ranking contributes 1 / (k + rank) for every
+ * key it contains, so items ranked well by several rankings come first
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((key, index) => {
+      scores.set(key, (scores.get(key) || 0) + 1 / (k + index + 1));
+    });
+  }
+  return scores;
+}
+
+/**
+ * How much a result calls for action, in [0, 1]. Open tasks score by due
+ * date (overdue highest), events by their open action items; finished
+ * tasks and everything else score 0.
+ */
+export function computeActionability(
+  type: RetrievalResult['type'],
+  metadata: Record<string, any>,
+  now: number = Date.now()
+): number {
+  if (type === 'task') {
+    if (!OPEN_TASK_STATUSES.has(metadata.status)) return 0;
+
+    let score = 0.3;
+    if (metadata.due_date) {
+      const daysUntilDue = (new Date(metadata.due_date).getTime() - now) / DAY_MS;
+      if (daysUntilDue < 0) {
+        score = 1;
+      } else {
+        // 0.9 when due now, halving roughly every three days
+        score = Math.max(0.3, 0.9 * Math.exp(-daysUntilDue / 4));
+      }
+    }
+    if (metadata.status === 'blocked') score *= 0.5;
+    return Math.min(1, score + (PRIORITY_BOOST[metadata.priority] || 0));
+  }
+
+  if (type === 'event') {
+    const actionItems = metadata.metadata?.action_items;
+    if (Array.isArray(actionItems)) {
+      const open = actionItems.filter((item: any) => !item?.status || item.status === 'open' || item.status === 'pending');
+      return open.length > 0 ? Math.min(1, 0.4 + 0.1 * open.length) : 0;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * How closely a result is tied to the entities in context, in [0, 1]. Each
+ * context entity scores 1 if the result involves it, otherwise its strongest
+ * INTERACTED_WITH edge to an entity the result involves; the scores are
+ * averaged. Without strengths this is the share of context entities involved.
+ */
+export function computeRelational(
+  entityContext: string[],
+  relatedEntities: string[],
+  strengths: Map<string, number> = new Map()
+): number {
+  if (entityContext.length === 0 || relatedEntities.length === 0) return 0;
+
+  const related = new Set(relatedEntities);
+  let total = 0;
+  for (const contextId of entityContext) {
+    if (related.has(contextId)) {
+      total += 1;
+      continue;
+    }
+    let best = 0;
+    for (const relatedId of related) {
+      best = Math.max(best, strengths.get(`${contextId}:${relatedId}`) || 0);
+    }
+    total += best;
+  }
+  return total / entityContext.length;
+}
+
 export class RetrievalService {
-  private embeddingFunction: any;
+  private embeddingFunction: EmbeddingProvider;
 
   constructor(
     private eventModel: EventModel,
     private entityModel: EntityModel,
-    private taskModel: TaskModel
+    private taskModel: TaskModel,
+    private summaryModel?: MemorySummaryModel,
+    private reranker: Reranker = new HeuristicReranker(),
+    private relationshipService?: RelationshipService,
+    private keywordIndex?: KeywordIndex
   ) {
     this.embeddingFunction = getEmbeddingFunction();
   }
 
+  /**
+   * Resolve the weights and recency decay for a request
+   */
+  static resolveProfile(options: Pick<RetrievalOptions, 'intent' | 'weights' | 'lambda'> = {}): WeightProfile {
+    const profile = WEIGHT_PROFILES[options.intent || 'default'] || WEIGHT_PROFILES.default;
+    const weights = { ...profile.weights };
+    for (const [key, value] of Object.entries(options.weights || {})) {
+      if (key in weights && Number.isFinite(value) && value >= 0) {
+        weights[key as keyof RetrievalWeights] = value;
+      }
+    }
+
+    return {
+      weights,
+      lambda: Number.isFinite(options.lambda) && options.lambda! >= 0 ? options.lambda! : profile.lambda,
+    };
+  }
+
   async retrieve(
     query: string,
     options: RetrievalOptions = {}
   ): Promise<RetrievalResult[]> {
     const {
-      weights = { semantic: 0.4, temporal: 0.3, relational: 0.3 },
+      intent = 'default',
       entityContext = [],
       timeWindow,
       limit = 10,
+      rerank = true,
+      candidateLimit = Math.max(limit * 3, 30),
+      asOf,
+      unverified = 'downweight',
     } = options;
+    const mode = options.mode ?? (this.keywordIndex ? 'hybrid' : 'semantic');
+    const { weights, lambda } = RetrievalService.resolveProfile(options);
 
     // 1. Generate query embedding
     const queryEmbedding = await this.embeddingFunction.generate([query]);
 
-    // 2. Search across all collections (events, entities, tasks)
-    const [eventResults, entityResults, taskResults] = await Promise.all([
-      this.searchEvents(queryEmbedding[0], { timeWindow, limit: limit * 3 }),
-      entityContext.length > 0
-        ? this.searchEntities(queryEmbedding[0], { entityContext, limit: limit * 2 })
-        : Promise.resolve([]),
-      this.searchTasks(queryEmbedding[0], { limit: limit * 2 }),
+    // 2. First stage: vector search across events, entities, tasks and
+    // summaries, and keyword search over events, tasks and entities
+    const [semanticMatches, keywordMatches] = await Promise.all([
+      mode === 'keyword'
+        ? Promise.resolve([])
+        : this.searchSemantic(queryEmbedding[0], { entityContext, timeWindow, limit, asOf }),
+      mode === 'semantic' || !this.keywordIndex
+        ? Promise.resolve([])
+        : this.keywordIndex.search(query, { limit: candidateLimit }),
     ]);
 
-    // 3. Combine and score all results
-    const allResults = [
-      ...eventResults.map(r => ({ ...r, type: 'event' as const })),
-      ...entityResults.map(r => ({ ...r, type: 'entity' as const })),
-      ...taskResults.map(r => ({ ...r, type: 'task' as const })),
-    ];
+    // Rejected extractions never come back; unverified ones only when asked
+    const visible = (candidate: Candidate) => {
+      const status = candidate.metadata.verification_status;
+      return status !== 'rejected' && (status !== 'unverified' || unverified !== 'exclude');
+    };
+    const semanticResults = semanticMatches.filter(visible);
+
+    const keyOf = (item: { type: string; id: string }) => `${item.type}:${item.id}`;
+    const byKey = new Map(semanticResults.map(result => [keyOf(result), result]));
+    const keywordOnly = keywordMatches.filter(match => !byKey.has(keyOf(match)));
+    for (const result of await this.hydrateKeywordMatches(keywordOnly, queryEmbedding[0], { timeWindow, asOf })) {
+      if (visible(result)) byKey.set(keyOf(result), result);
+    }
+
+    // Keyword scores relative to the best match; matches dropped by the
+    // time window, as-of or verification filter take no rank
+    const keywordRanked = keywordMatches.filter(match => byKey.has(keyOf(match)));
+    const topKeyword = keywordRanked[0]?.score || 1;
+    const keywordScores = new Map(keywordRanked.map(match => [keyOf(match), match.score / topKeyword]));
+
+    const rankings = [semanticResults.map(keyOf), keywordRanked.map(keyOf)].filter(ranking => ranking.length > 0);
+    const fusedScores = reciprocalRankFusion(rankings);
+    // A candidate ranked first by every search scores 1
+    const maxFused = rankings.length / (RRF_K + 1);
+
+    const ordered = mode === 'semantic'
+      ? semanticResults
+      : mode === 'keyword'
+        ? keywordRanked.map(match => byKey.get(keyOf(match))!)
+        : Array.from(byKey.values()).sort((a, b) => fusedScores.get(keyOf(b))! - fusedScores.get(keyOf(a))!);
+
+    const candidates = ordered.slice(0, candidateLimit).map(result => {
+      const key = keyOf(result);
+      const keyword = keywordScores.get(key) ?? null;
+      const fused = mode === 'hybrid' ? fusedScores.get(key)! / maxFused : null;
+      // First-stage relevance, used where the vector similarity used to be
+      const relevance = mode === 'semantic' ? result.score : mode === 'keyword' ? keyword ?? 0 : fused!;
+      return { ...result, keyword, fused, relevance };
+    });
+
+    // 3. Second stage: rerank the candidates against the query
+    const reranked = rerank && weights.rerank > 0 && candidates.length > 0
+      ? await this.reranker.rerank(query, candidates.map(c => ({ id: c.id, type: c.type, content: c.content })))
+      : null;
+
+    // Relationship strengths from the context entities to everyone else
+    const strengths = entityContext.length > 0 && this.relationshipService
+      ? await this.relationshipService.getStrengths(entityContext)
+      : undefined;
 
-    // 4. Apply temporal decay and relationship scoring
-    const now = Date.now();
-    const scoredResults: RetrievalResult[] = allResults.map(result => {
-      // Calculate temporal score (decay over time)
+    // 4. Combine every component with the profile's weights
+    const now = asOf ? asOf.getTime() : Date.now();
+    const scoredResults: RetrievalResult[] = candidates.map((result, index) => {
       const ageDays = result.metadata.timestamp
-        ? (now - new Date(result.metadata.timestamp).getTime()) / (1000 * 60 * 60 * 24)
+        ? Math.max(0, (now - new Date(result.metadata.timestamp).getTime()) / DAY_MS)
         : 0;
-      const temporalScore = Math.exp(-0.1 * ageDays); // Decay factor of 0.1
-
-      // Calculate relationship score (if entity context is provided)
-      let relationalScore = 0;
-      if (entityContext.length > 0 && result.metadata.related_entities?.length) {
-        const relatedEntities = new Set(result.metadata.related_entities);
-        const overlap = entityContext.filter(id => relatedEntities.has(id)).length;
-        relationalScore = overlap / entityContext.length;
-      }
+      const temporalScore = Math.exp(-lambda * ageDays);
+
+      const relationalScore = computeRelational(entityContext, result.metadata.related_entities || [], strengths);
+
+      const actionabilityScore = computeActionability(result.type, result.metadata, now);
+      const rerankScore = reranked ? reranked.scores[index] : null;
+      const verification = result.metadata.verification_status === 'unverified' ? UNVERIFIED_WEIGHT : 1;
 
-      // Calculate final weighted score
-      const finalScore =
-        weights.semantic * result.score +
+      const finalScore = verification * (
+        weights.semantic * result.relevance +
+        // Without a rerank stage its weight falls back to the first-stage relevance
+        weights.rerank * (rerankScore ?? result.relevance) +
         weights.temporal * temporalScore +
-        weights.relational * relationalScore;
+        weights.relational * relationalScore +
+        weights.actionability * actionabilityScore
+      );
 
       return {
         id: result.id,
@@ -102,8 +426,20 @@ export class RetrievalService {
         score: finalScore,
         breakdown: {
           semantic: result.score,
+          keyword: result.keyword,
+          fused: result.fused,
+          rerank: rerankScore,
           temporal: temporalScore,
           relational: relationalScore,
+          actionability: actionabilityScore,
+          verification,
+          ageDays,
+          firstStageRank: index + 1,
+          mode,
+          intent,
+          reranker: reranked?.reranker ?? null,
+          lambda,
+          weights,
         },
       };
     });
@@ -114,14 +450,102 @@ export class RetrievalService {
       .slice(0, limit);
   }
 
+  /**
+   * Vector search across events, entities, tasks and summaries, most
+   * similar first
+   */
+  private async searchSemantic(
+    queryEmbedding: number[],
+    options: {
+      entityContext: string[];
+      timeWindow?: { start: Date; end: Date };
+      limit: number;
+      asOf?: Date;
+    }
+  ): Promise<Candidate[]> {
+    const { entityContext, timeWindow, limit, asOf } = options;
+
+    const [eventResults, entityResults, taskResults, summaryResults] = await Promise.all([
+      this.searchEvents(queryEmbedding, { timeWindow, limit: limit * 3, asOf }),
+      entityContext.length > 0
+        ? this.searchEntities(queryEmbedding, { entityContext, limit: limit * 2, asOf })
+        : Promise.resolve([]),
+      this.searchTasks(queryEmbedding, { limit: limit * 2, asOf }),
+      this.searchSummaries(queryEmbedding, { timeWindow, limit: limit * 2, asOf }),
+    ]);
+
+    return [
+      ...eventResults.map(r => ({ ...r, type: 'event' as const })),
+      ...entityResults.map(r => ({ ...r, type: 'entity' as const })),
+      ...taskResults.map(r => ({ ...r, type: 'task' as const })),
+      ...summaryResults.map(r => ({ ...r, type: 'summary' as const })),
+    ].sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Load the rows found by keyword search and score their vector similarity
+   */
+  private async hydrateKeywordMatches(
+    matches: KeywordMatch[],
+    queryEmbedding: number[],
+    options: { timeWindow?: { start: Date; end: Date }; asOf?: Date }
+  ): Promise<Candidate[]> {
+    if (matches.length === 0) return [];
+
+    const { timeWindow, asOf } = options;
+    const idsOf = (type: KeywordMatch['type']) => matches.filter(match => match.type === type).map(match => match.id);
+    const inWindow = (event: Event) => !timeWindow || (
+      new Date(event.start_time).getTime() >= new Date(timeWindow.start).getTime() &&
+      new Date(event.start_time).getTime() <= new Date(timeWindow.end).getTime()
+    );
+
+    const [events, tasks, entities] = await Promise.all([
+      this.eventModel.findByIds(idsOf('event')),
+      this.taskModel.findByIds(idsOf('task')),
+      this.entityModel.findByIds(idsOf('entity')),
+    ]);
+
+    return Promise.all([
+      ...events.filter(event => recordedBy(event, asOf) && inWindow(event)).map(async event => {
+        const result = eventResult(event, 0);
+        const embedding = await this.embeddingFor(event.embedding, event.embedding_model, result.content);
+        return { ...result, type: 'event' as const, score: this.cosineSimilarity(queryEmbedding, embedding) };
+      }),
+      ...tasks.filter(task => recordedBy(task, asOf)).map(async task => {
+        const result = taskResult(task, 0);
+        const embedding = await this.embeddingFor(undefined, undefined, result.content);
+        return { ...result, type: 'task' as const, score: this.cosineSimilarity(queryEmbedding, embedding) };
+      }),
+      ...entities.filter(entity => recordedBy(entity, asOf)).map(async entity => {
+        const result = entityResult(entity, 0);
+        const embedding = await this.embeddingFor(entity.embedding, entity.embedding_model, result.content);
+        return { ...result, type: 'entity' as const, score: this.cosineSimilarity(queryEmbedding, embedding) };
+      }),
+    ]);
+  }
+
   private async searchEvents(
     queryEmbedding: number[],
     options: {
       timeWindow?: { start: Date; end: Date };
       limit: number;
+      asOf?: Date;
     }
   ) {
-    const { timeWindow, limit } = options;
+    const { timeWindow, limit, asOf } = options;
+
+    // Nearest-neighbour search in the vector store when one is configured.
+    // Vectors do not carry when an event was recorded, so an as-of search
+    // asks for more neighbours until enough of them had been recorded by then.
+    for (let fetch = limit; ; fetch *= AS_OF_OVERFETCH) {
+      const similar = await this.eventModel.searchSimilar(queryEmbedding, { limit: fetch, timeWindow });
+      if (!similar) break;
+
+      const recorded = similar.filter(({ event }) => recordedBy(event, asOf));
+      if (recorded.length >= limit || similar.length < fetch || fetch >= limit * AS_OF_OVERFETCH ** 3) {
+        return recorded.slice(0, limit).map(({ event, score }) => eventResult(event, score));
+      }
+    }
     
     // Get all events with proper pagination options
     const events = await this.eventModel.findAll(
@@ -130,6 +554,7 @@ export class RetrievalService {
           startTime: timeWindow.start,
           endTime: timeWindow.end,
         }),
+        ...(asOf && { recordedBy: asOf }),
       },
       { 
         pageSize: 100,
@@ -141,19 +566,8 @@ export class RetrievalService {
     const results = await Promise.all(
       events.data.map(async (event) => {
         const content = `${event.title}\n${event.description || ''}`;
-        const embedding = event.embedding || await this.embeddingFunction.generate([content]);
-        const similarity = this.cosineSimilarity(queryEmbedding, Array.isArray(embedding) ? embedding : embedding[0]);
-        
-        return {
-          id: event.id as string,
-          content,
-          metadata: {
-            ...event,
-            timestamp: event.start_time,
-            related_entities: event.participants?.map(p => p.entity_id) || [],
-          },
-          score: similarity,
-        };
+        const embedding = await this.embeddingFor(event.embedding, event.embedding_model, content);
+        return eventResult(event, this.cosineSimilarity(queryEmbedding, embedding));
       })
     );
 
@@ -168,18 +582,21 @@ export class RetrievalService {
     options: {
       entityContext: string[];
       limit: number;
+      asOf?: Date;
     }
   ) {
-    const { entityContext, limit } = options;
+    const { entityContext, limit, asOf } = options;
     
-    // Get entities with proper pagination options
-    const entities = await this.entityModel.findAll(
-      {},
-      { 
-        pageSize: 100,
-        page: 1
-      }
-    );
+    // Get entities with proper pagination options, as they were at asOf if given
+    const entities = asOf
+      ? await this.entityModel.findAllAsOf(asOf, { id: entityContext }, { pageSize: 100, page: 1 })
+      : await this.entityModel.findAll(
+        {},
+        { 
+          pageSize: 100,
+          page: 1
+        }
+      );
 
     // Filter to only include entities in context
     const contextEntities = entities.data.filter(e => 
@@ -190,19 +607,8 @@ export class RetrievalService {
     const results = await Promise.all(
       contextEntities.map(async (entity) => {
         const content = `${entity.name}\n${entity.description || ''}`;
-        const embedding = entity.embedding || await this.embeddingFunction.generate([content]);
-        const similarity = this.cosineSimilarity(queryEmbedding, Array.isArray(embedding) ? embedding : embedding[0]);
-        
-        return {
-          id: entity.id as string,
-          content,
-          metadata: {
-            ...entity,
-            timestamp: entity.updated_at || entity.created_at,
-            related_entities: [], // Would be populated with related entities
-          },
-          score: similarity,
-        };
+        const embedding = await this.embeddingFor(entity.embedding, entity.embedding_model, content);
+        return entityResult(entity, this.cosineSimilarity(queryEmbedding, embedding));
       })
     );
 
@@ -214,37 +620,35 @@ export class RetrievalService {
 
   private async searchTasks(
     queryEmbedding: number[],
-    options: { limit: number }
+    options: { limit: number; asOf?: Date }
   ) {
-    const { limit } = options;
+    const { limit, asOf } = options;
+
+    // The vector store only indexes current task text, so historical
+    // queries score the tasks as they were at asOf instead
+    const similar = asOf ? null : await this.taskModel.searchSimilar(queryEmbedding, { limit });
+    if (similar) {
+      return similar.map(({ task, score }) => taskResult(task, score));
+    }
     
     // Get all tasks with proper pagination options
-    const tasks = await this.taskModel.findAll(
-      {}, 
-      { 
-        pageSize: 100,
-        page: 1
-      }
-    );
+    const tasks = asOf
+      ? await this.taskModel.findAllAsOf(asOf, {}, { pageSize: 100, page: 1 })
+      : await this.taskModel.findAll(
+        {}, 
+        { 
+          pageSize: 100,
+          page: 1
+        }
+      );
 
     // Calculate similarity scores
     const results = await Promise.all(
       tasks.data.map(async (task) => {
         const content = `${task.title}\n${task.description || ''}`;
         // Generate embedding for task content
-        const embedding = await this.embeddingFunction.generate([content]);
-        const similarity = this.cosineSimilarity(queryEmbedding, Array.isArray(embedding) ? embedding : embedding[0]);
-        
-        return {
-          id: task.id as string,
-          content,
-          metadata: {
-            ...task,
-            timestamp: task.due_date || task.created_at,
-            related_entities: task.assignee_id ? [task.assignee_id] : [],
-          },
-          score: similarity,
-        };
+        const embedding = await this.embeddingFor(undefined, undefined, content);
+        return taskResult(task, this.cosineSimilarity(queryEmbedding, embedding));
       })
     );
 
@@ -254,6 +658,67 @@ export class RetrievalService {
       .slice(0, limit);
   }
 
+  private async searchSummaries(
+    queryEmbedding: number[],
+    options: {
+      timeWindow?: { start: Date; end: Date };
+      limit: number;
+      asOf?: Date;
+    }
+  ) {
+    if (!this.summaryModel) return [];
+
+    const { timeWindow, limit, asOf } = options;
+
+    const summaries = timeWindow
+      ? await this.summaryModel.findInPeriod(new Date(timeWindow.start), new Date(timeWindow.end))
+      : (await this.summaryModel.findAll({}, { pageSize: 100, page: 1, sortBy: 'period_start' })).data;
+
+    const results = await Promise.all(summaries.filter(summary => recordedBy(summary, asOf)).map(async summary => {
+      const embedding = await this.embeddingFor(summary.embedding, summary.embedding_model, summary.summary_text);
+      const similarity = this.cosineSimilarity(queryEmbedding, embedding);
+
+      return {
+        id: summary.id as string,
+        content: summary.summary_text,
+        metadata: {
+          ...summary,
+          embedding: undefined,
+          timestamp: summary.period_end,
+          related_entities: summary.scope === 'entity' ? [summary.scope_id] : [],
+        },
+        score: similarity,
+      };
+    }));
+
+    return results
+      .filter(r => r.id) // Filter out any results without IDs
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Use a stored embedding only if the active provider produced it; vectors
+   * from another model live in a different space, so re-embed on the fly.
+   */
+  private async embeddingFor(stored: unknown, model: unknown, content: string): Promise<number[]> {
+    let embedding = stored;
+    if (typeof embedding === 'string') {
+      try {
+        embedding = JSON.parse(embedding);
+      } catch {
+        embedding = undefined;
+      }
+    }
+
+    if (Array.isArray(embedding) && embedding.length > 0 && model === this.embeddingFunction.id) {
+      return embedding as number[];
+    }
+
+    const [generated] = await this.embeddingFunction.generate([content]);
+    return generated;
+  }
+
   private cosineSimilarity(a: number[], b: number[]): number {
     if (!a || !b || a.length !== b.length) return 0;
     
@@ -0,0 +1,228 @@
+import { z } from 'zod';
+import { NotFoundError, ValidationError } from '../models/BaseModel';
+import { EventType, SENSITIVE_EVENT_COLUMNS, SENSITIVE_METADATA_KEYS, type Event, type EventModel } from '../models/EventModel';
+import { EntityType, type BaseEntity, type EntityModel } from '../models/EntityModel';
+import { TaskUpdateSchema, type Task, type TaskModel } from '../models/TaskModel';
+import type {
+  ReviewDecision,
+  ReviewDecisionModel,
+  ReviewDecisionRecord,
+  ReviewItemType,
+} from '../models/ReviewDecisionModel';
+
+export interface ReviewModels {
+  eventModel: EventModel;
+  taskModel: TaskModel;
+  entityModel: EntityModel;
+}
+
+/**
+ * An event, task or entity waiting for the user to verify it
+ */
+export interface ReviewItem {
+  type: ReviewItemType;
+  id: string;
+  title: string;
+  /** Confidence of the extraction that produced the item */
+  confidence: number | null;
+  source_event_id: string | null;
+  created_at: Date | string | undefined;
+  item: Event | Task | BaseEntity;
+}
+
+export interface ReviewQueue {
+  items: ReviewItem[];
+  total: number;
+}
+
+export interface ReviewOutcome {
+  item: Event | Task | BaseEntity;
+  decision: ReviewDecisionRecord;
+}
+
+// Fields the user may correct on each kind of item
+const EDIT_SCHEMAS: Record<ReviewItemType, z.ZodTypeAny> = {
+  event: z.object({
+    title: z.string().min(1),
+    description: z.string(),
+    type: EventType,
+    start_time: z.string().datetime(),
+    end_time: z.string().datetime(),
+  }).partial().strict(),
+  task: TaskUpdateSchema.strict(),
+  entity: z.object({
+    name: z.string().min(1),
+    type: EntityType,
+    description: z.string().nullable(),
+  }).partial().strict(),
+};
+
+/**
+ * An event without what the event model seals. Decisions are stored in
+ * plaintext, so raw captures and transcripts stay out of them.
+ */
+function withoutSealed(event: Record<string, unknown>): Record<string, unknown> {
+  const kept = Object.fromEntries(Object.entries(event).filter(([key]) => !SENSITIVE_EVENT_COLUMNS.includes(key)));
+  if (kept.metadata && typeof kept.metadata === 'object') {
+    kept.metadata = Object.fromEntries(
+      Object.entries(kept.metadata as Record<string, unknown>).filter(([key]) => !SENSITIVE_METADATA_KEYS.includes(key))
+    );
+  }
+  return kept;
+}
+
+function confidenceOf(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * The verification queue: events, tasks and entities created from
+ * low-confidence extractions stay unverified until the user approves, edits
+ * or rejects them. Every answer is recorded.
+ */
+export class ReviewService {
+  constructor(
+    private models: ReviewModels,
+    private decisionModel: ReviewDecisionModel
+  ) {}
+
+  /**
+   * Unverified items, newest first
+   */
+  async queue(options: { type?: ReviewItemType; limit?: number; offset?: number } = {}): Promise<ReviewQueue> {
+    const { type, limit = 50, offset = 0 } = options;
+    const filters = { verification_status: 'unverified' };
+    // Enough of each kind to fill the requested page once merged
+    const page = { page: 1, pageSize: offset + limit, sortBy: 'created_at', sortOrder: 'desc' as const };
+
+    const [events, tasks, entities] = await Promise.all([
+      !type || type === 'event' ? this.models.eventModel.findAll(filters, page) : null,
+      !type || type === 'task' ? this.models.taskModel.findAll(filters, page) : null,
+      !type || type === 'entity' ? this.models.entityModel.findAll(filters, page) : null,
+    ]);
+
+    const items = [
+      ...(events?.data ?? []).map(event => this.toItem('event', event)),
+      ...(tasks?.data ?? []).map(task => this.toItem('task', task)),
+      ...(entities?.data ?? []).map(entity => this.toItem('entity', entity)),
+    ].sort((a, b) => new Date(b.created_at ?? 0).getTime() - new Date(a.created_at ?? 0).getTime());
+
+    return {
+      items: items.slice(offset, offset + limit),
+      total: [events, tasks, entities].reduce((sum, result) => sum + (result?.pagination.totalItems ?? 0), 0),
+    };
+  }
+
+  /**
+   * Keep an item as extracted
+   */
+  async approve(type: ReviewItemType, id: string): Promise<ReviewOutcome> {
+    const original = await this.findUnverified(type, id);
+    const item = await this.save(type, id, { verification_status: 'verified' });
+    return { item, decision: await this.record('approved', original) };
+  }
+
+  /**
+   * Correct an item and keep it
+   */
+  async edit(type: ReviewItemType, id: string, changes: Record<string, unknown>): Promise<ReviewOutcome> {
+    const parsed = EDIT_SCHEMAS[type].safeParse(changes);
+    if (!parsed.success) {
+      throw new ValidationError(`Invalid ${type} changes`, parsed.error.issues);
+    }
+    if (Object.keys(parsed.data).length === 0) {
+      throw new ValidationError('No changes given');
+    }
+
+    const original = await this.findUnverified(type, id);
+    const item = await this.save(type, id, { ...parsed.data, verification_status: 'verified' });
+    return { item, decision: await this.record('edited', original, { changes: parsed.data }) };
+  }
+
+  /**
+   * Mark an item as wrongly extracted. Rejected events are kept out of
+   * retrieval; rejected tasks and entities are deleted.
+   */
+  async reject(type: ReviewItemType, id: string, reason?: string): Promise<ReviewOutcome> {
+    const original = await this.findUnverified(type, id);
+    const item = await this.save(type, id, { verification_status: 'rejected' });
+    if (type === 'task') await this.models.taskModel.softDeleteById(id);
+    if (type === 'entity') await this.models.entityModel.softDeleteById(id);
+    return { item, decision: await this.record('rejected', original, { reason }) };
+  }
+
+  private async findUnverified(type: ReviewItemType, id: string): Promise<ReviewItem> {
+    const found = type === 'event'
+      ? await this.models.eventModel.findById(id)
+      : type === 'task'
+        ? await this.models.taskModel.findById(id)
+        : await this.models.entityModel.findById(id);
+    if (!found) {
+      throw new NotFoundError(`${type} ${id} not found`);
+    }
+    if (found.verification_status !== 'unverified') {
+      throw new ValidationError(`${type} ${id} is not awaiting verification`);
+    }
+
+    return this.toItem(type, found);
+  }
+
+  private async save(type: ReviewItemType, id: string, changes: Record<string, unknown>) {
+    const saved = type === 'event'
+      ? await this.models.eventModel.update(id, changes)
+      : type === 'task'
+        ? await this.models.taskModel.update(id, changes)
+        : await this.models.entityModel.update(id, changes);
+    if (!saved) {
+      throw new NotFoundError(`${type} ${id} not found`);
+    }
+
+    return saved;
+  }
+
+  private record(
+    decision: ReviewDecision,
+    original: ReviewItem,
+    details: { changes?: Record<string, unknown>; reason?: string } = {}
+  ): Promise<ReviewDecisionRecord> {
+    const { embedding, ...snapshot } = original.item as Record<string, unknown>;
+    const changes = details.changes ?? null;
+    return this.decisionModel.create({
+      item_type: original.type,
+      item_id: original.id,
+      decision,
+      reason: details.reason ?? null,
+      confidence: original.confidence,
+      source_event_id: original.source_event_id,
+      original: original.type === 'event' ? withoutSealed(snapshot) : snapshot,
+      changes: original.type === 'event' && changes ? withoutSealed(changes) : changes,
+    });
+  }
+
+  private toItem(type: ReviewItemType, item: Event | Task | BaseEntity): ReviewItem {
+    const metadata = (item.metadata ?? {}) as Record<string, unknown>;
+    const common = { type, id: item.id as string, created_at: item.created_at, item };
+
+    if (type === 'event') {
+      const event = item as Event;
+      return { ...common, title: event.title, confidence: confidenceOf(metadata.confidence), source_event_id: event.id };
+    }
+    if (type === 'task') {
+      const task = item as Task;
+      return {
+        ...common,
+        title: task.title,
+        confidence: confidenceOf(metadata.extraction_confidence),
+        source_event_id: task.related_event_id ?? null,
+      };
+    }
+
+    const entity = item as BaseEntity;
+    return {
+      ...common,
+      title: entity.name,
+      confidence: confidenceOf(metadata.extraction_confidence),
+      source_event_id: typeof metadata.source_event_id === 'string' ? metadata.source_event_id : null,
+    };
+  }
+}
@@ -0,0 +1,379 @@
+import type { Event, EventModel } from '../models/EventModel';
+import type { Commitment, CommitmentModel } from '../models/CommitmentModel';
+import type { Fact, FactModel } from '../models/FactModel';
+import { NotFoundError, ValidationError } from '../models/BaseModel';
+import type { Session, SessionKind, SessionModel } from '../models/SessionModel';
+import type { Task, TaskModel } from '../models/TaskModel';
+import type { IPromptService } from './EventProcessingService';
+import { logger } from '../utils/logger';
+
+export interface SessionOptions {
+  /** Captures further apart than this start a new session, and an open session this quiet is closed (default 10) */
+  gapMinutes?: number;
+  /** Seconds between checks for quiet sessions (default 60) */
+  intervalSeconds?: number;
+}
+
+/**
+ * What is known about a capture besides its time
+ */
+export interface SessionContext {
+  /** Application the capture came from */
+  app?: string | null;
+  /** Entities taking part in or mentioned by the capture */
+  participants?: string[];
+}
+
+export interface SessionItems {
+  tasks: Task[];
+  commitments: Commitment[];
+  facts: Fact[];
+}
+
+export interface SessionReview {
+  session: Session;
+  items: SessionItems;
+  item_count: number;
+}
+
+/**
+ * Message broadcast to connected clients when a session with extracted
+ * items closes
+ */
+export interface SessionNotification {
+  type: 'session:review';
+  data: {
+    session: Session;
+    item_count: number;
+    /** e.g. "Captured 3 items — review?" */
+    message: string;
+  };
+  timestamp: string;
+}
+
+export type SessionReviewAction =
+  | { action: 'accept'; discard?: string[] }
+  | { action: 'discard' };
+
+export interface SessionReviewResult {
+  session: Session;
+  kept: number;
+  discarded: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Transcripts stop growing past this many characters
+export const MAX_TRANSCRIPT_CHARS = 100_000;
+
+// Applications whose captures make a session a meeting
+const MEETING_APPS = ['zoom', 'teams', 'meet', 'webex', 'skype', 'facetime', 'huddle'];
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+function sameApp(a?: string | null, b?: string | null): boolean {
+  return (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+}
+
+/**
+ * Application a capture came from, as the edge agent and processor name it
+ */
+export function appContext(metadata: Record<string, unknown> = {}): string | null {
+  for (const key of ['appName', 'application_name', 'source_app', 'app']) {
+    const value = metadata[key];
+    if (typeof value === 'string' && value.trim() && value !== 'Unknown') return value.trim();
+  }
+  return null;
+}
+
+export function isMeetingApp(app?: string | null): boolean {
+  const name = (app || '').toLowerCase();
+  return MEETING_APPS.some(meetingApp => name.includes(meetingApp));
+}
+
+/**
+ * Whether a capture at `time` carries on an open session: it came within the
+ * gap, and either shares a participant with the session or was not made in a
+ * different application
+ */
+export function continuesSession(
+  session: Pick<Session, 'end_time' | 'app_context' | 'participant_ids'>,
+  time: number,
+  context: SessionContext,
+  gapMs: number
+): boolean {
+  if (time - toTime(session.end_time) > gapMs) return false;
+
+  const participants = context.participants ?? [];
+  if (participants.some(id => session.participant_ids.includes(id))) return true;
+
+  return !context.app || !session.app_context || sameApp(context.app, session.app_context);
+}
+
+/**
+ * Groups captures into sessions as they are stored. A capture joins the open
+ * session it carries on (see continuesSession) or starts a new one; sessions
+ * that go quiet for the gap are closed, summarized and, when extraction
+ * found tasks, commitments or facts in them, offered for review.
+ */
+export class SessionService {
+  private timer?: NodeJS.Timeout;
+  private readonly gapMs: number;
+  private readonly intervalMs: number;
+
+  constructor(
+    private sessionModel: SessionModel,
+    private eventModel: EventModel,
+    private models: { taskModel: TaskModel; commitmentModel: CommitmentModel; factModel: FactModel },
+    private promptService?: IPromptService,
+    private notify?: (notification: SessionNotification) => void,
+    options: SessionOptions = {}
+  ) {
+    this.gapMs = (options.gapMinutes ?? 10) * MINUTE_MS;
+    this.intervalMs = (options.intervalSeconds ?? 60) * 1000;
+  }
+
+  /**
+   * Close quiet sessions at the configured interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.tick();
+      } catch (error) {
+        logger.error('Session check failed:', error);
+      }
+      if (this.timer) {
+        this.timer = undefined;
+        this.start();
+      }
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Close the sessions that have been quiet for the gap at `now`. Returns
+   * how many were closed.
+   */
+  async tick(now: Date = new Date()): Promise<number> {
+    const idle = await this.sessionModel.findIdle(new Date(now.getTime() - this.gapMs));
+
+    let closed = 0;
+    for (const session of idle) {
+      try {
+        await this.close(session.id as string);
+        closed++;
+      } catch (error) {
+        logger.error(`Failed to close session ${session.id}:`, error);
+      }
+    }
+
+    if (closed > 0) {
+      logger.info(`Closed ${closed} idle sessions`);
+    }
+    return closed;
+  }
+
+  /**
+   * Put a stored event in a session and record the session on the event
+   */
+  async assign(
+    event: Pick<Event, 'id' | 'type' | 'title' | 'description' | 'start_time' | 'metadata'>,
+    context: SessionContext = {}
+  ): Promise<Session> {
+    const time = toTime(event.start_time);
+    const app = context.app ?? appContext(event.metadata);
+    const participants = context.participants ?? [];
+    const meeting = event.type === 'meeting' || event.metadata?.source === 'audio' || isMeetingApp(app);
+
+    const candidates = (await this.sessionModel.findOpen(new Date(time - this.gapMs)))
+      .filter(session => continuesSession(session, time, { app, participants }, this.gapMs));
+    // Prefer the session sharing a participant, then the one in the same app
+    const current = candidates.find(session => participants.some(id => session.participant_ids.includes(id)))
+      ?? candidates.find(session => sameApp(app, session.app_context))
+      ?? candidates[0];
+
+    const line = this.transcriptLine(event);
+    let session: Session | null;
+    if (current?.id) {
+      const transcript = this.appendTranscript(current, line);
+      session = await this.sessionModel.update(current.id, {
+        kind: meeting ? 'meeting' : current.kind,
+        app_context: current.app_context ?? app,
+        start_time: time < toTime(current.start_time) ? new Date(time).toISOString() : current.start_time,
+        end_time: time > toTime(current.end_time) ? new Date(time).toISOString() : current.end_time,
+        event_count: current.event_count + 1,
+        participant_ids: Array.from(new Set([...current.participant_ids, ...participants])),
+        transcript: transcript.text,
+        metadata: transcript.truncated ? { ...current.metadata, transcript_truncated: true } : current.metadata,
+      });
+    } else {
+      const kind: SessionKind = meeting ? 'meeting' : 'work';
+      session = await this.sessionModel.create({
+        kind,
+        title: `${kind === 'meeting' ? 'Meeting' : 'Work session'}${app ? ` in ${app}` : ''}`,
+        app_context: app,
+        start_time: new Date(time).toISOString(),
+        end_time: new Date(time).toISOString(),
+        status: 'open',
+        event_count: 1,
+        transcript: line.substring(0, MAX_TRANSCRIPT_CHARS),
+        review_status: null,
+        participant_ids: Array.from(new Set(participants)),
+        metadata: {},
+      });
+    }
+
+    await this.eventModel.setSession(event.id, session!.id as string);
+    return session!;
+  }
+
+  /**
+   * Close a session: summarize it and, when extraction found items in it,
+   * ask for a review. Closing a closed session only returns its review.
+   */
+  async close(id: string): Promise<SessionReview> {
+    const session = await this.sessionModel.findById(id);
+    if (!session) {
+      throw new NotFoundError(`Session ${id} not found`);
+    }
+    if (session.status === 'closed') {
+      return this.getReview(id);
+    }
+
+    const events = await this.eventModel.findBySession(id);
+    const items = await this.findItems(events);
+    const itemCount = items.tasks.length + items.commitments.length + items.facts.length;
+
+    const closed = await this.sessionModel.update(id, {
+      status: 'closed',
+      summary: await this.summarize(session, events),
+      review_status: itemCount > 0 ? 'pending' : null,
+    }) as Session;
+
+    if (itemCount > 0 && this.notify) {
+      this.notify({
+        type: 'session:review',
+        data: {
+          session: closed,
+          item_count: itemCount,
+          message: `Captured ${itemCount} item${itemCount === 1 ? '' : 's'} — review?`,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return { session: closed, items, item_count: itemCount };
+  }
+
+  /**
+   * A session with the tasks, commitments and facts extracted from its events
+   */
+  async getReview(id: string): Promise<SessionReview> {
+    const session = await this.sessionModel.findById(id);
+    if (!session) {
+      throw new NotFoundError(`Session ${id} not found`);
+    }
+
+    const items = await this.findItems(await this.eventModel.findBySession(id));
+    return { session, items, item_count: items.tasks.length + items.commitments.length + items.facts.length };
+  }
+
+  /**
+   * Answer a session's review. Accepting keeps its items except those listed
+   * in `discard` (the unticked ones); discarding deletes them all.
+   */
+  async review(id: string, answer: SessionReviewAction): Promise<SessionReviewResult> {
+    const { session, items } = await this.getReview(id);
+    if (session.status !== 'closed') {
+      throw new ValidationError('Only closed sessions can be reviewed');
+    }
+
+    const unwanted = answer.action === 'discard' ? null : new Set(answer.discard ?? []);
+    const removes = (item: { id?: string }) => unwanted === null || unwanted.has(item.id as string);
+
+    let discarded = 0;
+    const remove = async (item: { id?: string }, model: { softDeleteById(id: string): Promise<boolean> }) => {
+      if (removes(item) && await model.softDeleteById(item.id as string)) discarded++;
+    };
+    for (const task of items.tasks) await remove(task, this.models.taskModel);
+    for (const commitment of items.commitments) await remove(commitment, this.models.commitmentModel);
+    for (const fact of items.facts) await remove(fact, this.models.factModel);
+
+    const updated = await this.sessionModel.update(id, {
+      review_status: answer.action === 'discard' ? 'discarded' : 'accepted',
+    }) as Session;
+
+    const total = items.tasks.length + items.commitments.length + items.facts.length;
+    return { session: updated, kept: total - discarded, discarded };
+  }
+
+  private async findItems(events: Event[]): Promise<SessionItems> {
+    const eventIds = events.map(event => event.id);
+    const [tasks, commitments, facts] = await Promise.all([
+      this.models.taskModel.findByEvents(eventIds),
+      this.models.commitmentModel.findByEvents(eventIds),
+      this.models.factModel.findByEvents(eventIds),
+    ]);
+    return { tasks, commitments, facts };
+  }
+
+  private transcriptLine(event: Pick<Event, 'title' | 'description' | 'start_time'>): string {
+    const text = (event.description || event.title || '').trim();
+    return text ? `[${new Date(event.start_time).toISOString()}] ${text}` : '';
+  }
+
+  /**
+   * Append a line to the session transcript. Screen captures repeat while a
+   * window does not change, so a line with the same text as the last one is
+   * skipped.
+   */
+  private appendTranscript(session: Session, line: string): { text: string; truncated: boolean } {
+    if (!line) return { text: session.transcript, truncated: false };
+
+    const lines = session.transcript ? session.transcript.split('\n') : [];
+    const withoutTime = (value: string) => value.replace(/^\[[^\]]*\] /, '');
+    if (lines.length > 0 && withoutTime(lines[lines.length - 1]) === withoutTime(line)) {
+      return { text: session.transcript, truncated: false };
+    }
+
+    const text = session.transcript ? `${session.transcript}\n${line}` : line;
+    return text.length > MAX_TRANSCRIPT_CHARS
+      ? { text: session.transcript, truncated: true }
+      : { text, truncated: false };
+  }
+
+  private async summarize(session: Session, events: Event[]): Promise<string> {
+    if (this.promptService && session.transcript) {
+      const prompt = `
+        Summarize this ${session.kind === 'meeting' ? 'meeting' : 'work session'} in two or three sentences.
+        Mention decisions, promises and open questions. Do not invent details.
+
+        ${session.transcript.substring(0, 12000)}
+      `;
+
+      try {
+        const response = (await this.promptService.generate(prompt)).trim();
+        // PromptServiceClient reports failures as text instead of throwing
+        if (response && !response.startsWith('Error generating response')) {
+          return response;
+        }
+      } catch (error) {
+        logger.warn(`Summary generation failed for session ${session.id}, using event titles:`, error);
+      }
+    }
+
+    const titles = Array.from(new Set(events.map(event => event.title).filter(Boolean)));
+    return titles.join('; ').substring(0, 500);
+  }
+}
@@ -0,0 +1,214 @@
+import {
+  MAX_REMINDER_OFFSET_MINUTES,
+  TaskPriority,
+  type Task,
+  type TaskModel,
+} from '../models/TaskModel';
+import { logger } from '../utils/logger';
+
+export interface TaskSchedulerOptions {
+  /** Seconds between checks (default 60) */
+  intervalSeconds?: number;
+  /** Minutes before the due date to remind about tasks without their own offsets (default [15]) */
+  reminderMinutes?: number[];
+  /** Hours overdue per priority level added; 0 disables escalation (default 24) */
+  escalationHours?: number;
+  /** Highest priority escalation raises a task to (default urgent) */
+  escalationMaxPriority?: TaskPriority;
+}
+
+export type TaskNotificationType = 'task:due' | 'task:overdue';
+
+/**
+ * Message broadcast to connected clients when a task needs attention
+ */
+export interface TaskNotification {
+  type: TaskNotificationType;
+  data: {
+    task: Task;
+    due_at: string;
+    /** task:due only: minutes left until the due date */
+    minutes_left?: number;
+    /** task:overdue only: minutes since the due date */
+    overdue_minutes?: number;
+    /** task:overdue only: priority change made by escalation */
+    escalated?: { from: TaskPriority; to: TaskPriority };
+  };
+  timestamp: string;
+}
+
+export interface SchedulerReport {
+  due: number;
+  overdue: number;
+  escalated: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+function toTime(value: Date | string | null | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Acts on task due dates: sends task:due reminders ahead of them and
+ * task:overdue once they pass, and raises the priority of overdue tasks
+ * step by step. Snoozed tasks are left alone until the snooze ends.
+ */
+export class TaskSchedulerService {
+  private timer?: NodeJS.Timeout;
+  private readonly intervalMs: number;
+  private readonly reminderMinutes: number[];
+  private readonly escalationHours: number;
+  private readonly escalationMaxPriority: TaskPriority;
+
+  constructor(
+    private taskModel: TaskModel,
+    private notify: (notification: TaskNotification) => void,
+    options: TaskSchedulerOptions = {}
+  ) {
+    this.intervalMs = (options.intervalSeconds ?? 60) * 1000;
+    this.reminderMinutes = options.reminderMinutes ?? [15];
+    this.escalationHours = options.escalationHours ?? 24;
+    this.escalationMaxPriority = options.escalationMaxPriority ?? 'urgent';
+  }
+
+  /**
+   * Check tasks at the configured interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.tick();
+      } catch (error) {
+        logger.error('Scheduled task check failed:', error);
+      }
+      if (this.timer) {
+        this.timer = undefined;
+        this.start();
+      }
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Send the reminders and overdue notices due at `now` and escalate
+   * overdue tasks
+   */
+  async tick(now: Date = new Date()): Promise<SchedulerReport> {
+    const report: SchedulerReport = { due: 0, overdue: 0, escalated: 0 };
+    const tasks = await this.taskModel.findDueBy(new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * MINUTE_MS));
+
+    for (const task of tasks) {
+      const due = toTime(task.due_date);
+      const snoozedUntil = toTime(task.snoozed_until);
+      if (due === null || (snoozedUntil !== null && snoozedUntil > now.getTime())) continue;
+
+      try {
+        if (due > now.getTime()) {
+          if (await this.remind(task, due, snoozedUntil, now)) report.due++;
+        } else {
+          const outcome = await this.checkOverdue(task, due, now);
+          if (outcome.notified) report.overdue++;
+          if (outcome.escalated) report.escalated++;
+        }
+      } catch (error) {
+        logger.error(`Failed to check task ${task.id}:`, error);
+      }
+    }
+
+    if (report.due + report.overdue + report.escalated > 0) {
+      logger.info(`Task scheduler sent ${report.due} reminders and ${report.overdue} overdue notices, escalated ${report.escalated} tasks`);
+    }
+    return report;
+  }
+
+  /**
+   * Send a task:due reminder when a reminder time (or the end of a snooze)
+   * has passed since the last one
+   */
+  private async remind(task: Task, due: number, snoozedUntil: number | null, now: Date): Promise<boolean> {
+    const offsets = task.reminder_offsets ?? this.reminderMinutes;
+    const times = offsets.map(minutes => due - minutes * MINUTE_MS);
+    if (snoozedUntil !== null) times.push(snoozedUntil);
+
+    const passed = times.filter(time => time <= now.getTime());
+    if (passed.length === 0) return false;
+
+    const remindedAt = toTime(task.reminded_at);
+    if (remindedAt !== null && remindedAt >= Math.max(...passed)) return false;
+
+    this.send('task:due', task, due, now, {
+      minutes_left: Math.round((due - now.getTime()) / MINUTE_MS),
+    });
+    await this.taskModel.recordNotification(task.id as string, { reminded_at: now.toISOString() });
+    return true;
+  }
+
+  /**
+   * Escalate an overdue task as far as the policy allows, and send a
+   * task:overdue notice the first time it is seen overdue or when its
+   * priority rises
+   */
+  private async checkOverdue(
+    task: Task,
+    due: number,
+    now: Date
+  ): Promise<{ notified: boolean; escalated: boolean }> {
+    let current = task;
+    let escalated: { from: TaskPriority; to: TaskPriority } | undefined;
+
+    if (this.escalationHours > 0) {
+      const level = Math.floor((now.getTime() - due) / (this.escalationHours * HOUR_MS));
+      const previousLevel = task.escalation_level ?? 0;
+
+      if (level > previousLevel) {
+        const levels = TaskPriority.options;
+        const ceiling = levels.indexOf(this.escalationMaxPriority);
+        const from = levels.indexOf(task.priority);
+        const to = Math.max(from, Math.min(ceiling, from + level - previousLevel));
+
+        current = await this.taskModel.update(task.id as string, {
+          priority: levels[to],
+          escalation_level: level,
+        }) ?? task;
+        if (to > from) escalated = { from: levels[from], to: levels[to] };
+      }
+    }
+
+    if (task.overdue_notified_at && !escalated) {
+      return { notified: false, escalated: false };
+    }
+
+    this.send('task:overdue', current, due, now, {
+      overdue_minutes: Math.round((now.getTime() - due) / MINUTE_MS),
+      escalated,
+    });
+    await this.taskModel.recordNotification(task.id as string, { overdue_notified_at: now.toISOString() });
+    return { notified: true, escalated: escalated !== undefined };
+  }
+
+  private send(
+    type: TaskNotificationType,
+    task: Task,
+    due: number,
+    now: Date,
+    details: Partial<TaskNotification['data']>
+  ): void {
+    this.notify({
+      type,
+      data: { task, due_at: new Date(due).toISOString(), ...details },
+      timestamp: now.toISOString(),
+    });
+  }
+}
@@ -0,0 +1,339 @@
+import { EventModel, type Event } from '../models/EventModel';
+import { EntityModel } from '../models/EntityModel';
+import { TaskModel, type Task } from '../models/TaskModel';
+import { FactModel, type Fact } from '../models/FactModel';
+import { tokenize } from './Reranker';
+
+export interface TimelineOptions {
+  sessionGapMinutes?: number;
+  /** Rows loaded per source before filtering */
+  maxRowsPerSource?: number;
+}
+
+export interface TimelineQuery {
+  /** Entity ID or exact (case-insensitive) name */
+  entity?: string;
+  /** Free-text topic; items must mention at least half of its terms */
+  topic?: string;
+  from?: Date;
+  to?: Date;
+  /** Keep the most recent items (default 200) */
+  limit?: number;
+}
+
+export type TimelineItemKind = 'event' | 'email' | 'task' | 'fact';
+
+/**
+ * Where a timeline item came from. Merged duplicates keep one entry each.
+ */
+export interface TimelineProvenance {
+  table: 'events' | 'tasks' | 'facts';
+  id: string;
+  source?: string | null;
+  source_id?: string | null;
+  source_event_id?: string | null;
+  confidence?: number;
+}
+
+export interface TimelineItem {
+  id: string;
+  kind: TimelineItemKind;
+  timestamp: string;
+  title: string;
+  detail?: string;
+  /** Event type, task status or fact status */
+  label?: string;
+  due_date?: string | null;
+  entity_ids: string[];
+  /** Session the source event was recorded in, if it carries one */
+  session_id?: string;
+  provenance: TimelineProvenance[];
+}
+
+export interface TimelineSession {
+  id: string;
+  start: string;
+  end: string;
+  items: TimelineItem[];
+}
+
+export interface TimelineDay {
+  /** Local calendar date, YYYY-MM-DD */
+  date: string;
+  sessions: TimelineSession[];
+}
+
+export interface Timeline {
+  entity: { id: string; name: string } | null;
+  topic: string | null;
+  from: string | null;
+  to: string | null;
+  count: number;
+  days: TimelineDay[];
+  /** Chronology block for prompts (design.md 7.3) */
+  chronology: string;
+}
+
+// Items with the same title this close together are one occurrence
+const DUPLICATE_WINDOW_MS = 10 * 60 * 1000;
+// Preferred survivor when duplicates are merged
+const KIND_RANK: Record<TimelineItemKind, number> = { email: 0, event: 1, task: 2, fact: 3 };
+const TOPIC_MATCH_RATIO = 0.5;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toIso(value: Date | string | undefined | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function localDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function localTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/^(re|fwd?):\s*/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Merge items that describe the same occurrence: events sharing a source
+ * record, or items of any kind with the same title within a few minutes.
+ * Input must be sorted by time.
+ */
+export function dedupeTimelineItems(items: TimelineItem[]): TimelineItem[] {
+  const result: TimelineItem[] = [];
+  const bySource = new Map<string, TimelineItem>();
+
+  for (const item of items) {
+    const origin = item.provenance[0];
+    const sourceKey = origin.source && origin.source_id ? `${origin.source}:${origin.source_id}` : null;
+    const time = new Date(item.timestamp).getTime();
+    const title = normalizeTitle(item.title);
+
+    const duplicate = (sourceKey && bySource.get(sourceKey)) || result.find(existing =>
+      normalizeTitle(existing.title) === title &&
+      Math.abs(new Date(existing.timestamp).getTime() - time) <= DUPLICATE_WINDOW_MS
+    );
+
+    if (!duplicate) {
+      result.push(item);
+      if (sourceKey) bySource.set(sourceKey, item);
+      continue;
+    }
+
+    // Keep the richer kind's fields, but the union of provenance and entities
+    const keep = KIND_RANK[item.kind] < KIND_RANK[duplicate.kind] ? item : duplicate;
+    const drop = keep === item ? duplicate : item;
+    const merged: TimelineItem = {
+      ...keep,
+      detail: keep.detail || drop.detail,
+      entity_ids: Array.from(new Set([...keep.entity_ids, ...drop.entity_ids])),
+      provenance: [...keep.provenance, ...drop.provenance],
+    };
+
+    result[result.indexOf(duplicate)] = merged;
+    if (sourceKey) bySource.set(sourceKey, merged);
+  }
+
+  return result;
+}
+
+/**
+ * Group time-ordered items by local day, then into sessions. Items that carry
+ * a session ID keep it; otherwise a gap longer than gapMinutes starts a new one.
+ */
+export function groupTimeline(items: TimelineItem[], gapMinutes: number): TimelineDay[] {
+  const days: TimelineDay[] = [];
+  const gapMs = gapMinutes * 60 * 1000;
+
+  for (const item of items) {
+    const date = localDate(item.timestamp);
+    let day = days[days.length - 1];
+    if (!day || day.date !== date) {
+      day = { date, sessions: [] };
+      days.push(day);
+    }
+
+    const time = new Date(item.timestamp).getTime();
+    let session = day.sessions[day.sessions.length - 1];
+    const sameSession = session && item.session_id === session.id;
+    const otherSession = session && item.session_id && item.session_id !== session.id;
+    if (!session || otherSession || (!sameSession && time - new Date(session.end).getTime() > gapMs)) {
+      session = { id: item.session_id || item.id, start: item.timestamp, end: item.timestamp, items: [] };
+      day.sessions.push(session);
+    }
+
+    session.items.push(item);
+    session.end = item.timestamp;
+  }
+
+  return days;
+}
+
+/**
+ * Render a timeline as a plain-text chronology block for prompts
+ */
+export function formatChronology(timeline: Pick<Timeline, 'entity' | 'topic' | 'days'>): string {
+  const subject = [timeline.entity?.name, timeline.topic && `"${timeline.topic}"`].filter(Boolean).join(' / ');
+  const lines = [`Chronology${subject ? ` for ${subject}` : ''}:`];
+
+  if (timeline.days.length === 0) {
+    lines.push('  No recorded activity.');
+  }
+
+  for (const day of timeline.days) {
+    lines.push(day.date);
+    for (const session of day.sessions) {
+      if (day.sessions.length > 1) {
+        lines.push(`  Session ${localTime(session.start)}-${localTime(session.end)}`);
+      }
+      for (const item of session.items) {
+        const indent = day.sessions.length > 1 ? '    ' : '  ';
+        const label = item.label ? `${item.kind}: ${item.label}` : item.kind;
+        const due = item.due_date ? ` (due ${localDate(item.due_date)})` : '';
+        const detail = item.detail ? ` - ${item.detail.length > 160 ? `${item.detail.slice(0, 157)}...` : item.detail}` : '';
+        lines.push(`${indent}${localTime(item.timestamp)} [${label}] ${item.title}${due}${detail}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Builds deduplicated, chronologically ordered timelines for a person or
+ * topic from events, emails, tasks and facts.
+ */
+export class TimelineService {
+  private readonly sessionGapMinutes: number;
+  private readonly maxRowsPerSource: number;
+
+  constructor(
+    private eventModel: EventModel,
+    private entityModel: EntityModel,
+    private taskModel: TaskModel,
+    private factModel: FactModel,
+    options: TimelineOptions = {}
+  ) {
+    this.sessionGapMinutes = options.sessionGapMinutes ?? 30;
+    this.maxRowsPerSource = options.maxRowsPerSource ?? 500;
+  }
+
+  /**
+   * Resolve an entity reference given as an ID or a name. IDs of merged
+   * entities resolve to the entity that absorbed them.
+   */
+  async resolveEntity(reference: string): Promise<{ id: string; name: string } | null> {
+    const entity = UUID_PATTERN.test(reference)
+      ? await this.entityModel.findCanonical(reference)
+      : await this.entityModel.findByName(reference);
+
+    return entity?.id ? { id: entity.id, name: entity.name } : null;
+  }
+
+  /**
+   * Build the timeline. Returns null when the entity cannot be resolved.
+   */
+  async build(query: TimelineQuery): Promise<Timeline | null> {
+    const entity = query.entity ? await this.resolveEntity(query.entity) : null;
+    if (query.entity && !entity) return null;
+
+    const { from, to, limit = 200 } = query;
+    const [events, tasks, facts] = await Promise.all([
+      entity
+        ? this.eventModel.findByParticipant(entity.id, { startTime: from, endTime: to, limit: this.maxRowsPerSource })
+        : this.eventModel.findAll(
+          {
+            ...(from && { startTime: from.toISOString() }),
+            ...(to && { endTime: to.toISOString() }),
+          },
+          { page: 1, pageSize: this.maxRowsPerSource, sortBy: 'start_time', sortOrder: 'desc' }
+        ).then(result => result.data),
+      this.taskModel.findInPeriod(from, to, { entityId: entity?.id, limit: this.maxRowsPerSource }),
+      this.factModel.findInPeriod(from, to, { subjectEntityId: entity?.id, limit: this.maxRowsPerSource }),
+    ]);
+
+    const items = [
+      ...events.map(event => this.fromEvent(event)),
+      ...tasks.map(task => this.fromTask(task)),
+      ...facts.map(fact => this.fromFact(fact)),
+    ]
+      .filter(item => this.matchesTopic(item, query.topic))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    const deduped = dedupeTimelineItems(items);
+    const recent = deduped.slice(Math.max(0, deduped.length - limit));
+    const days = groupTimeline(recent, this.sessionGapMinutes);
+    const topic = query.topic || null;
+
+    return {
+      entity,
+      topic,
+      from: toIso(from),
+      to: toIso(to),
+      count: recent.length,
+      days,
+      chronology: formatChronology({ entity, topic, days }),
+    };
+  }
+
+  private matchesTopic(item: TimelineItem, topic?: string): boolean {
+    const terms = topic ? Array.from(new Set(tokenize(topic))) : [];
+    if (terms.length === 0) return true;
+
+    const text = new Set(tokenize(`${item.title} ${item.detail || ''}`));
+    const matched = terms.filter(term => text.has(term)).length;
+    return matched >= Math.ceil(terms.length * TOPIC_MATCH_RATIO);
+  }
+
+  private fromEvent(event: Event): TimelineItem {
+    return {
+      id: event.id,
+      kind: event.type === 'email' ? 'email' : 'event',
+      timestamp: toIso(event.start_time) as string,
+      title: event.title,
+      detail: event.description,
+      label: event.type === 'email' ? undefined : event.type,
+      entity_ids: (event.participants || []).map(p => p.entity_id),
+      session_id: event.session_id
+        ?? (typeof event.metadata?.session_id === 'string' ? event.metadata.session_id : undefined),
+      provenance: [{ table: 'events', id: event.id, source: event.source ?? null, source_id: event.source_id ?? null }],
+    };
+  }
+
+  private fromTask(task: Task): TimelineItem {
+    return {
+      id: task.id as string,
+      kind: 'task',
+      timestamp: toIso(task.created_at) as string,
+      title: task.title,
+      detail: task.description ?? undefined,
+      label: task.status,
+      due_date: toIso(task.due_date),
+      entity_ids: [task.assignee_id, task.related_entity_id].filter((id): id is string => !!id),
+      provenance: [{ table: 'tasks', id: task.id as string, source_event_id: task.related_event_id ?? null }],
+    };
+  }
+
+  private fromFact(fact: Fact): TimelineItem {
+    return {
+      id: fact.id as string,
+      kind: 'fact',
+      timestamp: toIso(fact.created_at) as string,
+      title: fact.statement_text,
+      label: fact.status,
+      entity_ids: fact.subject_entity_id ? [fact.subject_entity_id] : [],
+      provenance: [{
+        table: 'facts',
+        id: fact.id as string,
+        source_event_id: fact.source_event_id ?? null,
+        confidence: fact.confidence,
+      }],
+    };
+  }
+}
@@ -1,15 +1,19 @@
+import { randomUUID } from 'crypto';
 import { Server as WebSocketServer, WebSocket as WS, RawData } from 'ws';
+import { z } from 'zod';
 
 // Extend the WebSocket interface to include our custom properties
 interface ExtendedWebSocket extends WS {
   isAlive: boolean;
   id: string;
+  subscriptions: Map<string, Subscription>;
 }
 
 declare module 'ws' {
   interface WebSocket {
     isAlive: boolean;
     id: string;
+    subscriptions: Map<string, Subscription>;
   }
 }
 
@@ -33,14 +37,136 @@ export interface WebSocketMessage {
   [key: string]: unknown;
 }
 
+/**
+ * Topics a client can subscribe to. Each is also the `type` of the
+ * notifications published on it.
+ */
+export const CHANNELS = [
+  'event:created',
+  'event:progress',
+  'entity:updated',
+  'task:due',
+  'task:overdue',
+  'session:review',
+  'email:received',
+] as const;
+
+export type Channel = typeof CHANNELS[number];
+
+/**
+ * What services publish: task reminders, session reviews, processing
+ * progress and the like
+ */
+export interface ChannelNotification {
+  type: Channel;
+  data: Record<string, any>;
+  timestamp: string;
+}
+
+// The fields each channel can be filtered on, read from a notification's data
+const CHANNEL_FILTERS: Record<Channel, Record<string, (data: Record<string, any>) => unknown>> = {
+  'event:created': {
+    type: data => data.event?.type,
+    source: data => data.event?.metadata?.source,
+    session_id: data => data.event?.session_id,
+  },
+  'event:progress': {
+    id: data => data.id,
+    event_id: data => data.event_id,
+  },
+  'entity:updated': {
+    entity_id: data => data.entity?.id,
+    type: data => data.entity?.type,
+  },
+  'task:due': {
+    task_id: data => data.task?.id,
+    priority: data => data.task?.priority,
+  },
+  'task:overdue': {
+    task_id: data => data.task?.id,
+    priority: data => data.task?.priority,
+  },
+  'session:review': {
+    kind: data => data.session?.kind,
+  },
+  'email:received': {
+    from: data => data.email?.from?.address?.toLowerCase(),
+    thread_id: data => data.email?.thread_id,
+  },
+};
+
+// Fields read lowercased above, whose filter values are lowercased to match
+const CASE_INSENSITIVE_FILTERS: Partial<Record<Channel, string[]>> = {
+  'email:received': ['from'],
+};
+
+type FilterValue = string | number | boolean;
+
+interface Subscription {
+  id: string;
+  channel: Channel;
+  /** Every field must match one of its values */
+  filter: Record<string, FilterValue[]>;
+}
+
+const FilterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const SubscribeSchema = z.object({
+  type: z.literal('subscribe'),
+  /** Chosen by the client so it can tell its subscriptions apart */
+  id: z.string().min(1).max(100).optional(),
+  channel: z.enum(CHANNELS),
+  filter: z.record(z.union([FilterValueSchema, z.array(FilterValueSchema).min(1)])).optional(),
+  /** Last sequence number the client saw, to replay what it missed */
+  since: z.number().int().nonnegative().optional(),
+  /** The stream `since` came from; sequence numbers restart with the service */
+  stream: z.string().optional(),
+}).superRefine((message, ctx) => {
+  for (const field of Object.keys(message.filter ?? {})) {
+    if (!(field in CHANNEL_FILTERS[message.channel])) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['filter', field],
+        message: `${message.channel} can be filtered by ${Object.keys(CHANNEL_FILTERS[message.channel]).join(', ')}`,
+      });
+    }
+  }
+});
+
+const UnsubscribeSchema = z.object({
+  type: z.literal('unsubscribe'),
+  subscription: z.string().min(1),
+});
+
+interface SequencedNotification extends ChannelNotification {
+  seq: number;
+}
+
+export interface WebSocketServiceOptions {
+  /** Notifications kept for clients resuming after a reconnect */
+  historySize?: number;
+  /** True while the encryption keys are locked; captures are refused and replays skipped until then */
+  isLocked?: () => boolean;
+}
+
 export class WebSocketService {
   private wss: WebSocketServer;
   private clients = new Set<ExtendedWebSocket>();
   private eventProcessingService: EventProcessingService;
   private heartbeatInterval?: NodeJS.Timeout;
-  constructor(server: any, eventProcessingService: EventProcessingService) {
+  // Identifies this run, so a client resuming across a restart is not
+  // replayed numbers from the previous one
+  private readonly stream = randomUUID();
+  private seq = 0;
+  private history: SequencedNotification[] = [];
+  private readonly historySize: number;
+  private readonly isLocked: () => boolean;
+
+  constructor(server: any, eventProcessingService: EventProcessingService, options: WebSocketServiceOptions = {}) {
     this.wss = new WebSocketServer({ server });
     this.eventProcessingService = eventProcessingService;
+    this.historySize = options.historySize ?? 1000;
+    this.isLocked = options.isLocked ?? (() => false);
     this.setupWebSocket();
   }
 
@@ -64,6 +190,7 @@ export class WebSocketService {
     this.wss.on('connection', (ws: ExtendedWebSocket) => {
       ws.id = Math.random().toString(36).substring(2, 15);
       ws.isAlive = true;
+      ws.subscriptions = new Map();
 
       logger.info(`New WebSocket connection: ${ws.id}`);
       this.clients.add(ws);
@@ -99,7 +226,10 @@ export class WebSocketService {
               await this.handleProcessEvent(ws, message);
               break;
             case 'subscribe':
-              // Handle subscription logic
+              this.handleSubscribe(ws, message);
+              break;
+            case 'unsubscribe':
+              this.handleUnsubscribe(ws, message);
               break;
             default:
               this.sendError(ws, 'Unknown message type');
@@ -112,16 +242,112 @@ export class WebSocketService {
     });
   }
 
-  public broadcast(message: unknown, excludeIds: string[] = []): void {
-    const data = JSON.stringify(message);
+  /**
+   * Number the notification and send it to the clients subscribed to its
+   * channel whose filters it matches. It is kept for clients that resume.
+   */
+  public publish(notification: ChannelNotification): void {
+    const sequenced: SequencedNotification = { ...notification, seq: ++this.seq };
+    this.history.push(sequenced);
+    if (this.history.length > this.historySize) {
+      this.history.shift();
+    }
+
     this.clients.forEach(client => {
-      if (client.readyState === 1 && !excludeIds.includes(client.id)) {
-        client.send(data, (error?: Error) => {
-          if (error) {
-            logger.error('Error broadcasting message:', error);
-            this.clients.delete(client);
-          }
-        });
+      const subscriptions = this.matching(client, sequenced);
+      if (subscriptions.length > 0) {
+        this.deliver(client, sequenced, subscriptions);
+      }
+    });
+  }
+
+  /**
+   * Start a subscription and replay what the client missed since `since`.
+   * The reply says whether the replay is complete; when it is not, the
+   * client should reload instead of relying on the stream.
+   */
+  private handleSubscribe(ws: ExtendedWebSocket, message: WebSocketMessage): void {
+    const parsed = SubscribeSchema.safeParse(message);
+    if (!parsed.success) {
+      return this.sendError(ws, 'Invalid subscription', { issues: parsed.error.issues });
+    }
+
+    const { id = randomUUID(), channel, filter = {}, since, stream } = parsed.data;
+    const caseInsensitive = CASE_INSENSITIVE_FILTERS[channel] ?? [];
+    const subscription: Subscription = {
+      id,
+      channel,
+      filter: Object.fromEntries(Object.entries(filter).map(([field, value]) => [
+        field,
+        (Array.isArray(value) ? value : [value]).map(item =>
+          caseInsensitive.includes(field) && typeof item === 'string' ? item.toLowerCase() : item),
+      ])),
+    };
+    ws.subscriptions.set(id, subscription);
+
+    // While locked nothing is replayed; the subscription starts now and the
+    // client is told it missed something. Without its stream, or with a
+    // different one (the service restarted and its numbers began again),
+    // `since` says nothing about what the client saw.
+    const locked = since !== undefined && this.isLocked();
+    const restarted = since !== undefined && stream !== this.stream;
+    const from = locked ? undefined : restarted ? 0 : since;
+    const replay = from === undefined
+      ? []
+      : this.history.filter(notification => notification.seq > from && this.matches(subscription, notification));
+    const oldest = this.history[0]?.seq ?? this.seq + 1;
+    const complete = since === undefined || (!locked && !restarted && since >= oldest - 1);
+
+    this.send(ws, {
+      type: 'subscribed',
+      subscription: id,
+      channel,
+      filter,
+      stream: this.stream,
+      seq: this.seq,
+      replayed: replay.length,
+      complete,
+      timestamp: new Date().toISOString(),
+    });
+    for (const notification of replay) {
+      this.deliver(ws, notification, [id]);
+    }
+  }
+
+  private handleUnsubscribe(ws: ExtendedWebSocket, message: WebSocketMessage): void {
+    const parsed = UnsubscribeSchema.safeParse(message);
+    if (!parsed.success) {
+      return this.sendError(ws, 'Invalid unsubscribe request', { issues: parsed.error.issues });
+    }
+    if (!ws.subscriptions.delete(parsed.data.subscription)) {
+      return this.sendError(ws, 'Unknown subscription', { subscription: parsed.data.subscription });
+    }
+    this.send(ws, { type: 'unsubscribed', subscription: parsed.data.subscription, timestamp: new Date().toISOString() });
+  }
+
+  private matching(client: ExtendedWebSocket, notification: ChannelNotification): string[] {
+    return Array.from(client.subscriptions.values())
+      .filter(subscription => this.matches(subscription, notification))
+      .map(subscription => subscription.id);
+  }
+
+  private matches(subscription: Subscription, notification: ChannelNotification): boolean {
+    if (subscription.channel !== notification.type) return false;
+
+    const fields = CHANNEL_FILTERS[subscription.channel];
+    return Object.entries(subscription.filter).every(([field, values]) => values.includes(fields[field](notification.data) as FilterValue));
+  }
+
+  private deliver(client: ExtendedWebSocket, notification: SequencedNotification, subscriptions: string[]): void {
+    this.send(client, { ...notification, subscriptions });
+  }
+
+  private send(client: ExtendedWebSocket, message: Record<string, unknown>): void {
+    if (client.readyState !== 1) return; // 1 = OPEN
+    client.send(JSON.stringify(message), (error?: Error) => {
+      if (error) {
+        logger.error(`Error sending to WebSocket client ${client.id}:`, error);
+        this.clients.delete(client);
       }
     });
   }
@@ -146,6 +372,9 @@ export class WebSocketService {
     if (!content) {
       return this.sendError(ws, 'Missing content', { id: eventId });
     }
+    if (this.isLocked()) {
+      return this.sendError(ws, 'Memory is locked', { code: 'LOCKED', id: eventId });
+    }
 
     try {
       // Process the event using the event processing service
@@ -174,6 +403,7 @@ export class WebSocketService {
           timestamp: new Date().toISOString(),
           metadata: {
             eventId: (result as any).event?.id,
+            sessionId: (result as any).event?.session_id,
             entities: (result as any).extraction?.entities,
             action_items: (result as any).extraction?.action_items
           }
@@ -198,14 +428,7 @@ export class WebSocketService {
           });
         }
 
-        // Broadcast to other clients
-        this.broadcast(
-          {
-            ...response,
-            data: { summary: 'New event processed' } // Don't send full result to other clients
-          },
-          [ws.id] // Exclude sender
-        );
+        // Other clients learn of the event through their event:created subscriptions
       }
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,236 @@
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { deflateSync } from 'zlib';
+import { Knex } from 'knex';
+import { parseRange } from '../api/v1/blobs';
+import { FilesystemBlobBackend } from '../db/blob/fsBackend';
+import { LocalS3Client, S3BlobBackend } from '../db/blob/s3Backend';
+import { pngDimensions } from '../db/blob/thumbnail';
+import { FileKeyProvider } from '../db/crypto/keyProvider';
+import { KeyRing } from '../db/crypto/keyring';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { BlobModel } from '../models/BlobModel';
+import { EntityModel } from '../models/EntityModel';
+import { EventModel, type Event } from '../models/EventModel';
+import { TaskModel } from '../models/TaskModel';
+import { BlobService } from '../services/BlobService';
+import { EventProcessingService } from '../services/EventProcessingService';
+import { PrivacyService } from '../services/PrivacyService';
+import { createTestDb } from './helpers/db';
+
+// A solid-colour RGB PNG, filtered with Sub on every row
+function png(width: number, height: number, rgb: [number, number, number]): Buffer {
+  const row = Buffer.alloc(1 + width * 3);
+  row[0] = 1;
+  row.set(rgb, 1);
+  const raw = Buffer.concat(Array.from({ length: height }, () => row));
+
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    // The decoder does not check CRCs
+    return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 2;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// EBML magic, then filler standing in for the recording
+const WEBM = Buffer.concat([Buffer.from([0x1a, 0x45, 0xdf, 0xa3]), Buffer.from('0123456789abcdefghij')]);
+
+describe('blob store', () => {
+  let db: Knex;
+  let dir: string;
+  let blobModel: BlobModel;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    blobModel = new BlobModel(db);
+    dir = await mkdtemp(path.join(tmpdir(), 'ellipsa-blobs-'));
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('stores identical content once, sniffs its type and thumbnails screenshots', async () => {
+    const blobs = new BlobService(blobModel, new FilesystemBlobBackend(dir));
+    const screenshot = png(600, 300, [200, 40, 40]);
+
+    const first = await blobs.put(screenshot, { mimeType: 'application/octet-stream', filename: 'capture.png' });
+    expect(first).toMatchObject({ mime_type: 'image/png', size: screenshot.length, width: 600, height: 300, backend: 'fs', deduplicated: false });
+    expect(first.id).toMatch(/^[0-9a-f]{64}$/);
+
+    const again = await blobs.put(Buffer.from(screenshot));
+    expect(again).toMatchObject({ id: first.id, deduplicated: true, filename: 'capture.png' });
+
+    const thumbnail = await blobs.thumbnail(first.id);
+    expect(thumbnail.blob).toMatchObject({ id: first.thumbnail_id, mime_type: 'image/png' });
+    expect(pngDimensions(thumbnail.data)).toEqual({ width: 256, height: 128 });
+    expect(await db('blobs').count('* as count').first()).toEqual({ count: 2 });
+
+    const text = await blobs.put(Buffer.from('Meeting notes\n'), { mimeType: 'text/markdown; charset=utf-8' });
+    expect(text.mime_type).toBe('text/markdown');
+    expect(text.thumbnail_id).toBeNull();
+  });
+
+  test('reads byte ranges of audio through the S3 interface', async () => {
+    const blobs = new BlobService(blobModel, new S3BlobBackend(new LocalS3Client(dir), 'captures', 'blobs/'));
+    const { id, mime_type, backend } = await blobs.put(WEBM);
+    expect({ mime_type, backend }).toEqual({ mime_type: 'audio/webm', backend: 's3' });
+    expect(await readdir(path.join(dir, 'captures', 'blobs'))).toContain(id);
+
+    const head = await blobs.read(id, { start: 4, end: 9 });
+    expect(head.data.toString()).toBe('012345');
+    expect(head.range).toEqual({ start: 4, end: 9 });
+
+    // A suffix range: the last four bytes
+    const tail = parseRange('bytes=-4', WEBM.length);
+    expect(tail).toEqual({ start: 20, end: 23 });
+    expect((await blobs.read(id, tail as { start: number; end: number })).data.toString()).toBe('ghij');
+    // Ranges running past the end are cut short
+    expect(parseRange('bytes=10-100', WEBM.length)).toEqual({ start: 10, end: 23 });
+    expect(parseRange('bytes=30-', WEBM.length)).toBe('unsatisfiable');
+    expect(parseRange('bytes=0-1,4-5', WEBM.length)).toBeNull();
+  });
+
+  test('seals content with the key ring when encryption is on', async () => {
+    const keyRing = new KeyRing(path.join(dir, 'keyring.json'), { N: 2 ** 10, r: 8, p: 1 });
+    await keyRing.unlock(new FileKeyProvider(path.join(dir, 'master.key')));
+    const blobs = new BlobService(blobModel, new FilesystemBlobBackend(path.join(dir, 'blobs')), keyRing);
+
+    const note = Buffer.from('The lease is attached');
+    const { id, encrypted, mime_type } = await blobs.put(note);
+    expect({ encrypted, mime_type }).toEqual({ encrypted: true, mime_type: 'text/plain' });
+
+    const stored = await readFile(path.join(dir, 'blobs', id.slice(0, 2), id.slice(2, 4), id), 'utf8');
+    expect(stored.startsWith('enc:v1:')).toBe(true);
+    expect(stored).not.toContain('lease');
+
+    expect((await blobs.read(id)).data.toString()).toBe('The lease is attached');
+    expect((await blobs.read(id, { start: 4, end: 8 })).data.toString()).toBe('lease');
+  });
+
+  test('links audio events to their recording', async () => {
+    const graph = new SqlGraphStore(db);
+    const vectorStore = new InMemoryVectorStore();
+    const eventModel = new EventModel(db, graph, vectorStore);
+    const blobs = new BlobService(blobModel, new FilesystemBlobBackend(dir));
+
+    // SQLite cannot bind the participants array EventModel.create writes
+    jest.spyOn(eventModel, 'create').mockImplementation(async ({ participants, metadata, start_time, ...input }) => {
+      const id = '00000000-0000-4000-8000-000000000001';
+      await db('events').insert({
+        ...input,
+        id,
+        start_time: new Date(start_time).toISOString(),
+        participants: '[]',
+        metadata: JSON.stringify(metadata),
+      });
+      return (await eventModel.findById(id))!;
+    });
+
+    const processing = new EventProcessingService({
+      promptService: { extractStructuredData: async () => ({ summary: '', entities: [] }), generate: async () => '' },
+      eventModel,
+      entityModel: new EntityModel(db, graph, vectorStore),
+      taskModel: new TaskModel(db, graph, vectorStore),
+      graphStore: graph,
+      blobService: blobs,
+    });
+
+    const { event } = await processing.processEvent(WEBM.toString('base64'), { source: 'audio' }) as { event: Event };
+    expect(event.blob_id).toMatch(/^[0-9a-f]{64}$/);
+    expect(Buffer.compare((await blobs.read(event.blob_id as string)).data, WEBM)).toBe(0);
+  });
+
+  test('exports and erases a contact\'s captures, keeping content other events share', async () => {
+    const graph = new SqlGraphStore(db);
+    const entityModel = new EntityModel(db, graph, new InMemoryVectorStore());
+    const blobs = new BlobService(blobModel, new FilesystemBlobBackend(dir));
+    const privacy = new PrivacyService(db, entityModel, graph, undefined, undefined, undefined, blobs);
+
+    const bob = (await entityModel.create({ name: 'Bob Stone', type: 'person' })).id as string;
+    const shared = await blobs.put(png(40, 20, [0, 0, 255]));
+    const recording = await blobs.put(WEBM);
+    const capture = (id: string, participants: string[], blob_id: string) => ({
+      id,
+      type: 'meeting',
+      title: 'Screen share',
+      start_time: '2026-10-19T09:00:00.000Z',
+      participants: JSON.stringify(participants.map(entity_id => ({ entity_id }))),
+      metadata: '{}',
+      blob_id,
+    });
+    await db('events').insert([
+      capture('00000000-0000-4000-8000-000000000001', [bob], shared.id),
+      capture('00000000-0000-4000-8000-000000000002', [bob], recording.id),
+      capture('00000000-0000-4000-8000-000000000003', [], shared.id),
+    ]);
+
+    const archive = await privacy.export({ scope: 'contact', entity_id: bob });
+    expect(archive.attachments.map(attachment => attachment.path).sort()).toEqual([`blobs/${recording.id}`, `blobs/${shared.id}`].sort());
+    expect(archive.attachments.find(attachment => attachment.path === `blobs/${recording.id}`)).toMatchObject({
+      mime_type: 'audio/webm',
+      content: WEBM.toString('base64'),
+    });
+
+    const report = await privacy.erase({ scope: 'contact', entity_id: bob });
+    expect(report.erased.blobs).toBe(1);
+    expect(await blobs.get(recording.id)).toBeNull();
+    expect(await blobs.get(shared.id)).not.toBeNull();
+    expect((await blobs.thumbnail(shared.id)).blob.mime_type).toBe('image/png');
+  });
+
+  test('keeps a blob an event and an email share until both let it go', async () => {
+    const graph = new SqlGraphStore(db);
+    const entityModel = new EntityModel(db, graph, new InMemoryVectorStore());
+    const blobs = new BlobService(blobModel, new FilesystemBlobBackend(dir));
+    const privacy = new PrivacyService(db, entityModel, graph, undefined, undefined, undefined, blobs);
+
+    const bob = (await entityModel.create({ name: 'Bob Stone', type: 'person' })).id as string;
+    const screenshot = await blobs.put(png(40, 20, [255, 0, 0]));
+    await db('events').insert({
+      id: '00000000-0000-4000-8000-000000000001',
+      type: 'meeting',
+      title: 'Forecast slide',
+      start_time: '2026-10-19T09:00:00.000Z',
+      participants: JSON.stringify([{ entity_id: bob }]),
+      metadata: '{}',
+      blob_id: screenshot.id,
+    });
+    // The same slide, mailed as an attachment
+    const attachment = await blobs.put(png(40, 20, [255, 0, 0]), { filename: 'slide.png', owner: 'email:msg-1' });
+    expect(attachment).toMatchObject({ id: screenshot.id, deduplicated: true });
+
+    // Neither holder can remove it from under the other
+    expect(await blobs.release(screenshot.id)).toBe(false);
+    expect(await blobs.release(screenshot.id, 'email:msg-1')).toBe(false);
+    expect(await blobs.get(screenshot.id)).not.toBeNull();
+
+    await blobs.put(png(40, 20, [255, 0, 0]), { owner: 'email:msg-1' });
+    const report = await privacy.erase({ scope: 'contact', entity_id: bob });
+    expect(report.erased.blobs).toBe(0);
+    expect((await blobs.read(screenshot.id)).data.length).toBe(screenshot.size);
+
+    // Once the email lets go, nothing holds it
+    expect(await blobs.release(screenshot.id, 'email:msg-1')).toBe(true);
+    expect(await blobs.get(screenshot.id)).toBeNull();
+    expect(await blobs.get(screenshot.thumbnail_id as string)).toBeNull();
+    expect(await db('blob_references').count({ count: '*' }).first()).toEqual({ count: 0 });
+    await expect(blobs.release(screenshot.id)).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,170 @@
+import { Knex } from 'knex';
+import { ValidationError } from '../models/BaseModel';
+import {
+  CommitmentModel,
+  fulfilmentScore,
+  isUserReference,
+} from '../models/CommitmentModel';
+import { createTestDb } from './helpers/db';
+
+const BOB = '6f1d2c3b-4a5e-4f60-8a7b-9c0d1e2f3a4b';
+const ALICE = '0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d';
+const SOURCE_EVENT = '1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e';
+const LATER_EVENT = '2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f';
+
+describe('commitments', () => {
+  let db: Knex;
+  let commitmentModel: CommitmentModel;
+
+  const bobPromisesForecast = (extra: { source_event_id?: string; due_date?: string } = {}) =>
+    commitmentModel.assert({
+      statement_text: 'Bob said he would send the updated forecast by Friday',
+      deliverable: 'updated forecast',
+      debtor_entity_id: BOB,
+      debtor_name: 'Bob',
+      user_role: 'creditor',
+      confidence: 0.8,
+      ...extra,
+    });
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    commitmentModel = new CommitmentModel(db);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('scores deliverables against text and recognises the user', () => {
+    expect(fulfilmentScore('updated Q3 forecast', 'Attached is the updated forecast for Q3')).toEqual({
+      score: 1,
+      matched: ['updated', 'q3', 'forecast'],
+    });
+    expect(fulfilmentScore('updated Q3 forecast', 'Forecast meeting moved').score).toBeCloseTo(1 / 3);
+    expect(fulfilmentScore('the', 'the').score).toBe(0);
+
+    expect(isUserReference(' Me ')).toBe(true);
+    expect(isUserReference('the user')).toBe(true);
+    expect(isUserReference('Bob')).toBe(false);
+    expect(isUserReference(null)).toBe(false);
+  });
+
+  test('refreshes an open commitment when it is asserted again', async () => {
+    const first = await bobPromisesForecast({ source_event_id: SOURCE_EVENT });
+    expect(first.duplicate).toBe(false);
+
+    const repeat = await bobPromisesForecast({ source_event_id: LATER_EVENT, due_date: '2026-10-23T17:00:00Z' });
+    expect(repeat.duplicate).toBe(true);
+    expect(repeat.commitment.id).toBe(first.commitment.id);
+    expect(repeat.commitment.metadata).toEqual({ seen_in: [LATER_EVENT] });
+    expect(repeat.commitment.due_date).toBeTruthy();
+
+    // A different deliverable or a different debtor is a new commitment
+    expect((await commitmentModel.assert({
+      statement_text: 'Bob will book the venue',
+      deliverable: 'book the venue',
+      debtor_entity_id: BOB,
+      user_role: 'creditor',
+    })).duplicate).toBe(false);
+    expect((await commitmentModel.assert({
+      statement_text: 'Alice will send the updated forecast',
+      deliverable: 'updated forecast',
+      debtor_entity_id: ALICE,
+      user_role: 'creditor',
+    })).duplicate).toBe(false);
+
+    await expect(commitmentModel.assert({ statement_text: 'Someone will do something' })).rejects.toThrow(ValidationError);
+  });
+
+  test('fulfils commitments from matching events between the parties', async () => {
+    const { commitment } = await bobPromisesForecast({ source_event_id: SOURCE_EVENT });
+
+    // The event the promise came from, events without the debtor and events
+    // that do not mention the deliverable leave it open
+    expect(await commitmentModel.matchEvent(
+      { id: SOURCE_EVENT, title: 'Updated forecast coming Friday' }, [BOB])).toEqual([]);
+    expect(await commitmentModel.matchEvent(
+      { id: LATER_EVENT, title: 'Updated forecast attached' }, [ALICE])).toEqual([]);
+    expect(await commitmentModel.matchEvent(
+      { id: LATER_EVENT, title: 'Lunch on Thursday?' }, [BOB])).toEqual([]);
+
+    // With claims only the claims count, not the event text
+    expect(await commitmentModel.matchEvent(
+      { id: LATER_EVENT, title: 'Updated forecast attached' }, [BOB], { claims: ['Sent the slides'] })).toEqual([]);
+
+    const [fulfilled] = await commitmentModel.matchEvent(
+      { id: LATER_EVENT, title: 'Re: numbers', description: 'Here is the updated forecast', start_time: '2026-10-22T10:00:00Z' },
+      [BOB]
+    );
+    expect(fulfilled).toMatchObject({
+      id: commitment.id,
+      status: 'fulfilled',
+      fulfilled_by_event_id: LATER_EVENT,
+      fulfilment_evidence: { event_id: LATER_EVENT, score: 1, matched_terms: ['updated', 'forecast'], source: 'event' },
+    });
+    expect(fulfilled.fulfilment_evidence).toMatchObject({ delivery: 'reply' });
+    expect(new Date(fulfilled.fulfilled_at as string).toISOString()).toBe('2026-10-22T10:00:00.000Z');
+  });
+
+  test('needs the debtor and something handed over before an event fulfils a commitment', async () => {
+    const { commitment } = await bobPromisesForecast({ source_event_id: SOURCE_EVENT });
+    const { commitment: review } = await commitmentModel.assert({
+      statement_text: 'I told Alice I would review the updated forecast',
+      deliverable: 'review updated forecast',
+      creditor_entity_id: ALICE,
+      user_role: 'debtor',
+    });
+
+    // Talking about the deliverable is not delivering it
+    expect(await commitmentModel.matchEvent(
+      { id: LATER_EVENT, title: 'Updated forecast', description: 'Still waiting on the updated forecast' }, [BOB])).toEqual([]);
+
+    // Alice took part, which keeps the user's promise to her but not Bob's
+    expect(await commitmentModel.matchEvent(
+      { id: LATER_EVENT, title: 'Re: updated forecast review', metadata: { attachments: [{ filename: 'forecast.xlsx' }] } },
+      [ALICE]
+    )).toEqual([expect.objectContaining({ id: review.id })]);
+    expect((await commitmentModel.findById(commitment.id as string))?.status).toBe('open');
+
+    const [fulfilled] = await commitmentModel.matchEvent(
+      { id: LATER_EVENT, title: 'Updated forecast', blob_id: 'a'.repeat(64) }, [BOB, ALICE]);
+    expect(fulfilled).toMatchObject({
+      id: commitment.id,
+      fulfilment_evidence: { source: 'event', delivery: 'attachment' },
+    });
+  });
+
+  test('splits an entity\'s commitments into owed to me and I owe, and reopens them', async () => {
+    const { commitment: owed } = await bobPromisesForecast();
+    const { commitment: promised } = await commitmentModel.assert({
+      statement_text: 'I told Bob I would review his draft',
+      deliverable: 'review the draft',
+      creditor_entity_id: BOB,
+      user_role: 'debtor',
+    });
+    // Between two other people: on neither list
+    await commitmentModel.assert({
+      statement_text: 'Bob promised Alice the budget',
+      deliverable: 'budget',
+      debtor_entity_id: BOB,
+      creditor_entity_id: ALICE,
+    });
+
+    const open = await commitmentModel.findForEntity(BOB);
+    expect(open.owed_to_me.map(item => item.id)).toEqual([owed.id]);
+    expect(open.i_owe.map(item => item.id)).toEqual([promised.id]);
+    expect((await commitmentModel.list({ role: 'i_owe' })).map(item => item.id)).toEqual([promised.id]);
+    expect(await commitmentModel.list({ entityId: ALICE })).toHaveLength(1);
+
+    await commitmentModel.setStatus(promised.id as string, 'fulfilled');
+    expect((await commitmentModel.findForEntity(BOB)).i_owe).toEqual([]);
+    expect((await commitmentModel.findForEntity(BOB, { status: 'fulfilled' })).i_owe[0]).toMatchObject({
+      fulfilment_evidence: { source: 'manual' },
+    });
+
+    const reopened = await commitmentModel.setStatus(promised.id as string, 'open');
+    expect(reopened).toMatchObject({ status: 'open', fulfilled_at: null, fulfilment_evidence: null });
+    await expect(commitmentModel.setStatus('00000000-0000-4000-8000-000000000000', 'cancelled')).rejects.toThrow(/not found/);
+  });
+});
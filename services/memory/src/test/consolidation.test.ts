@@ -0,0 +1,145 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { EventModel, type Event } from '../models/EventModel';
+import { MemorySummaryModel } from '../models/MemorySummaryModel';
+import {
+  ConsolidationService,
+  groupEventsByEntity,
+  groupEventsBySession,
+  localDateKey,
+} from '../services/ConsolidationService';
+import type { IPromptService } from '../services/EventProcessingService';
+import { createTestDb } from './helpers/db';
+
+const BOB = '6f1d2c3b-4a5e-4f60-8a7b-9c0d1e2f3a4b';
+const ALICE = '0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d';
+
+// A local time on 19 October 2026, whatever the machine's time zone
+const at = (hours: number, minutes = 0, day = 19) => new Date(2026, 9, day, hours, minutes);
+
+const event = (id: string, start: Date, extra: Partial<Event> = {}): Event => ({
+  id,
+  type: 'other',
+  title: `Capture ${id}`,
+  start_time: start.toISOString(),
+  participants: [],
+  metadata: {},
+  ...extra,
+} as Event);
+
+describe('consolidation', () => {
+  let db: Knex;
+  let summaryModel: MemorySummaryModel;
+  let prompt: { extractStructuredData: jest.Mock; generate: jest.Mock };
+  let service: ConsolidationService;
+  let counter = 0;
+
+  // Events are inserted directly so no embeddings are computed
+  const capture = async (start: Date, title: string, participants: string[] = []) => {
+    const id = `00000000-0000-4000-8000-${String(++counter).padStart(12, '0')}`;
+    await db('events').insert({
+      id,
+      type: 'other',
+      title,
+      start_time: start.toISOString(),
+      participants: JSON.stringify(participants.map(entity_id => ({ entity_id }))),
+      metadata: '{}',
+    });
+    return id;
+  };
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    const eventModel = new EventModel(db, new SqlGraphStore(db), new InMemoryVectorStore());
+    summaryModel = new MemorySummaryModel(db);
+    prompt = { extractStructuredData: jest.fn(), generate: jest.fn().mockResolvedValue('Talked to Bob about the forecast.') };
+    service = new ConsolidationService(eventModel, summaryModel, prompt as IPromptService);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('groups events into sessions by id or by the gap between them, and by entity', () => {
+    const events = [
+      event('c', at(9, 50)),
+      event('a', at(9, 0), { participants: [{ entity_id: BOB }] }),
+      event('b', at(9, 25), { participants: [{ entity_id: BOB }, { entity_id: ALICE }] }),
+      event('d', at(9, 10), { session_id: 'call' }),
+      event('e', at(11, 0), { metadata: { session_id: 'call' } }),
+      event('f', at(10, 21)),
+    ];
+
+    const sessions = groupEventsBySession(events, 30);
+    expect(Array.from(sessions, ([id, group]) => [id, group.map(item => item.id)])).toEqual([
+      ['a', ['a', 'b', 'c']],
+      ['call', ['d', 'e']],
+      ['f', ['f']],
+    ]);
+
+    const entities = groupEventsByEntity(events);
+    expect(Array.from(entities, ([id, group]) => [id, group.map(item => item.id)])).toEqual([
+      [BOB, ['a', 'b']],
+      [ALICE, ['b']],
+    ]);
+  });
+
+  test('keys and bounds days in local time', async () => {
+    expect(localDateKey(at(0, 0))).toBe('2026-10-19');
+    expect(localDateKey(at(23, 59))).toBe('2026-10-19');
+    expect(localDateKey(new Date(2026, 0, 5, 12))).toBe('2026-01-05');
+
+    await capture(at(23, 59, 18), 'The evening before');
+    const first = await capture(at(0, 1), 'Just after midnight');
+    const last = await capture(at(23, 58), 'Just before midnight');
+    await capture(at(0, 0, 20), 'The next day');
+
+    const report = await service.consolidateDay(at(15));
+    expect(report).toMatchObject({
+      period_start: at(0).toISOString(),
+      period_end: new Date(at(0, 0, 20).getTime() - 1).toISOString(),
+      events: 2,
+      summaries: { session: 2, entity: 0, day: 1 },
+      failed: 0,
+    });
+
+    const [day] = await summaryModel.findInPeriod(at(0), at(23, 59), { scope: 'day' });
+    expect(day).toMatchObject({ scope_id: '2026-10-19', event_count: 2, source_event_ids: [first, last] });
+  });
+
+  test('replaces the summaries of a day consolidated again', async () => {
+    await capture(at(9), 'Forecast call with Bob', [BOB]);
+    await capture(at(9, 20), 'Forecast notes', [BOB]);
+
+    const first = await service.consolidateDay(at(12));
+    expect(first.summaries).toEqual({ session: 1, entity: 1, day: 1 });
+    const before = await db('memory_summaries').orderBy('scope').select('id', 'scope', 'scope_id');
+
+    prompt.generate.mockResolvedValue('Went through the forecast with Bob.');
+    expect(await service.consolidateDay(at(18))).toEqual(first);
+
+    const after = await db('memory_summaries').orderBy('scope').select('id', 'scope', 'scope_id', 'summary_text');
+    expect(after.map(({ summary_text: _text, ...row }) => row)).toEqual(before);
+    expect(after.map(row => row.summary_text)).toEqual(Array(3).fill('Went through the forecast with Bob.'));
+  });
+
+  test('falls back to the event text when the prompt service fails', async () => {
+    await capture(at(9), 'Forecast call with Bob');
+    await capture(at(9, 5), 'Forecast call with Bob');
+    await capture(at(9, 10), 'Sent the slides');
+
+    // PromptServiceClient reports failures as text
+    prompt.generate.mockResolvedValue('Error generating response: service unavailable');
+    expect((await service.consolidateDay(at(12))).failed).toBe(0);
+    const [day] = await summaryModel.findInPeriod(at(0), at(23, 59), { scope: 'day' });
+    expect(day.summary_text).toBe('Forecast call with Bob Sent the slides');
+
+    // A prompt service that throws fails the group, not the run
+    prompt.generate.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    expect(await service.consolidateDay(at(12))).toMatchObject({
+      summaries: { session: 0, entity: 0, day: 0 },
+      failed: 2,
+    });
+  });
+});
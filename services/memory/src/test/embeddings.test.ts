@@ -0,0 +1,39 @@
+import { LocalHashEmbeddingProvider, createEmbeddingProvider } from '../db/vector/embeddings';
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('LocalHashEmbeddingProvider', () => {
+  const provider = new LocalHashEmbeddingProvider(256);
+
+  test('produces deterministic unit vectors of the configured size', async () => {
+    const [first] = await provider.generate(['Quarterly forecast for ACME']);
+    const [second] = await provider.generate(['Quarterly forecast for ACME']);
+
+    expect(first).toHaveLength(256);
+    expect(first).toEqual(second);
+    expect(cosine(first, first)).toBeCloseTo(1, 6);
+  });
+
+  test('ranks related text above unrelated text', async () => {
+    const [query, related, unrelated] = await provider.generate([
+      'invoice INV-2041 from ACME',
+      'ACME sent invoice INV-2041 for September',
+      'lunch with the design team on Friday',
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  test('returns a zero vector for empty text', async () => {
+    const [embedding] = await provider.generate(['']);
+    expect(embedding.every(value => value === 0)).toBe(true);
+  });
+
+  test('encodes its dimensions in the provider id', () => {
+    expect(provider.id).toBe('local:hash-ngram-v1:256');
+    expect(createEmbeddingProvider({ provider: 'local', dimensions: 384 }).id)
+      .toBe('local:hash-ngram-v1:384');
+  });
+});
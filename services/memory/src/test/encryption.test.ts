@@ -0,0 +1,190 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Knex } from 'knex';
+import { FilesystemBlobBackend } from '../db/blob/fsBackend';
+import { FileKeyProvider, encode } from '../db/crypto/keyProvider';
+import { KeyRing, LockedError, isEncrypted } from '../db/crypto/keyring';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { LocalHashEmbeddingProvider } from '../db/vector/embeddings';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { ValidationError } from '../models/BaseModel';
+import { BlobModel } from '../models/BlobModel';
+import { EventModel } from '../models/EventModel';
+import { SessionModel } from '../models/SessionModel';
+import { BlobService } from '../services/BlobService';
+import { EncryptionService } from '../services/EncryptionService';
+import { ReembeddingService } from '../services/ReembeddingService';
+import { createTestDb } from './helpers/db';
+
+// Cheap scrypt parameters; the defaults take about 100ms per derivation
+const FAST_KDF = { N: 2 ** 10, r: 8, p: 1 };
+
+describe('encryption at rest', () => {
+  let db: Knex;
+  let dir: string;
+  let keyRing: KeyRing;
+  let service: EncryptionService;
+  let eventModel: EventModel;
+  let counter = 0;
+
+  // Events are inserted directly, as they were stored before encryption was enabled
+  const capture = async (metadata: Record<string, unknown>) => {
+    const id = `00000000-0000-4000-8000-${String(++counter).padStart(12, '0')}`;
+    await db('events').insert({
+      id,
+      type: 'email',
+      title: `Capture ${counter}`,
+      start_time: '2026-10-19T09:00:00.000Z',
+      participants: '[]',
+      metadata: JSON.stringify(metadata),
+    });
+    return id;
+  };
+
+  const storedMetadata = async (id: string) =>
+    JSON.parse((await db('events').where({ id }).first()).metadata);
+
+  beforeEach(async () => {
+    db = await createTestDb();
+
+    dir = await mkdtemp(path.join(tmpdir(), 'ellipsa-keys-'));
+    keyRing = new KeyRing(path.join(dir, 'keyring.json'), FAST_KDF);
+    service = new EncryptionService(db, keyRing, { batchSize: 2 });
+    eventModel = new EventModel(db, new SqlGraphStore(db), undefined, service.cipher);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('seals email bodies and raw captures, and refuses to open them while locked', async () => {
+    const id = await capture({ subject: 'Lease', body: 'The lease is attached', bounds: { x: 1, y: 2 } });
+    expect(service.locked).toBe(true);
+    await expect(service.reseal()).rejects.toBeInstanceOf(LockedError);
+
+    await service.unlockWith(new FileKeyProvider(path.join(dir, 'master.key')));
+    expect(await service.reseal()).toEqual({ resealed: 1, failed: 0 });
+
+    const stored = await storedMetadata(id);
+    expect(stored.subject).toBe('Lease');
+    expect(isEncrypted(stored.body)).toBe(true);
+    expect(isEncrypted(stored.bounds)).toBe(true);
+    expect(JSON.stringify(stored)).not.toContain('lease is attached');
+    expect(isEncrypted((await db('events').where({ id }).first()).title)).toBe(true);
+
+    expect((await eventModel.findById(id))?.metadata).toEqual({ subject: 'Lease', body: 'The lease is attached', bounds: { x: 1, y: 2 } });
+
+    // Writes through the model stay sealed
+    await eventModel.demote(id, { description: 'Lease', metadata: { subject: 'Lease', body: 'Signed copy' } });
+    expect(isEncrypted((await storedMetadata(id)).body)).toBe(true);
+    expect(isEncrypted((await db('events').where({ id }).first()).description)).toBe(true);
+
+    service.lock();
+    await expect(eventModel.findById(id)).rejects.toBeInstanceOf(LockedError);
+
+    // The same key file opens it again
+    await service.unlockWith(new FileKeyProvider(path.join(dir, 'master.key')));
+    expect((await eventModel.findById(id))?.metadata.body).toBe('Signed copy');
+  });
+
+  test('changes the passphrase without touching stored values', async () => {
+    await service.unlock('correct horse battery');
+    const id = await capture({ body: 'Hello' });
+    await service.reseal();
+    const sealed = (await storedMetadata(id)).body;
+    service.lock();
+
+    await expect(service.unlock('wrong passphrase')).rejects.toBeInstanceOf(ValidationError);
+    await expect(service.changePassphrase('wrong passphrase', 'staple tray lamp')).rejects.toBeInstanceOf(ValidationError);
+    await service.changePassphrase('correct horse battery', 'staple tray lamp');
+
+    await expect(service.unlock('correct horse battery')).rejects.toBeInstanceOf(ValidationError);
+    await service.unlock('staple tray lamp');
+    expect((await storedMetadata(id)).body).toBe(sealed);
+    expect((await eventModel.findById(id))?.metadata.body).toBe('Hello');
+  });
+
+  test('rotates to a new data key and retires the old one', async () => {
+    await service.unlock('correct horse battery');
+    const first = keyRing.activeKeyId;
+    const ids = [await capture({ body: 'One' }), await capture({ transcript: 'Two' }), await capture({ subject: 'Three' })];
+    await service.reseal();
+
+    const report = await service.rotate();
+    expect(report).toEqual({ key_id: expect.any(String), resealed: 3, failed: 0, retired: [first] });
+    expect(keyRing.keyIdOf((await storedMetadata(ids[0])).body)).toBe(report.key_id);
+    expect(keyRing.keyIdOf((await storedMetadata(ids[1])).transcript)).toBe(report.key_id);
+
+    const file = JSON.parse(await readFile(path.join(dir, 'keyring.json'), 'utf8'));
+    expect(file.keys.map((key: { id: string }) => key.id)).toEqual([report.key_id]);
+    expect(await service.status()).toMatchObject({ enabled: true, locked: false, provider: 'passphrase', active_key_id: report.key_id });
+
+    // Still readable after locking and unlocking with the same passphrase
+    service.lock();
+    await service.unlock('correct horse battery');
+    expect((await eventModel.findById(ids[1]))?.metadata.transcript).toBe('Two');
+  });
+
+  test('seals session transcripts and reseals them on rotation', async () => {
+    await service.unlock('correct horse battery');
+    const sessionModel = new SessionModel(db, service.cipher);
+    const session = await sessionModel.create({
+      kind: 'meeting',
+      title: 'Meeting',
+      start_time: '2026-10-19T09:00:00.000Z',
+      end_time: '2026-10-19T09:30:00.000Z',
+      status: 'open',
+      event_count: 1,
+      transcript: 'Pria will send the contract',
+      participant_ids: [],
+      metadata: {},
+    });
+    const storedTranscript = async () => (await db('sessions').where({ id: session.id }).first()).transcript;
+    expect(isEncrypted(await storedTranscript())).toBe(true);
+    expect(session.transcript).toBe('Pria will send the contract');
+
+    const report = await service.rotate();
+    expect(keyRing.keyIdOf(await storedTranscript())).toBe(report.key_id);
+    expect((await sessionModel.findById(session.id!))?.transcript).toBe('Pria will send the contract');
+  });
+
+  test('reseals blob content on rotation, so blobs stored earlier stay readable', async () => {
+    await service.unlock('correct horse battery');
+    const blobs = new BlobService(new BlobModel(db), new FilesystemBlobBackend(path.join(dir, 'blobs')), keyRing);
+    service = new EncryptionService(db, keyRing, { blobService: blobs });
+    const { id } = await blobs.put(Buffer.from('Recorded standup audio'), { mimeType: 'audio/ogg' });
+    const first = keyRing.activeKeyId;
+    expect(keyRing.keyIdOf(await blobs.sealedContent(id) as string)).toBe(first);
+
+    const report = await service.rotate();
+    expect(report).toMatchObject({ resealed: 1, failed: 0, retired: [first] });
+    expect(keyRing.keyIdOf(await blobs.sealedContent(id) as string)).toBe(report.key_id);
+    expect(encode((await blobs.read(id)).data, 'utf8')).toBe('Recorded standup audio');
+  });
+
+  test('re-embeds sealed events from their plaintext, and only while unlocked', async () => {
+    const id = await capture({});
+    const provider = new LocalHashEmbeddingProvider(64);
+    const vectorStore = new InMemoryVectorStore();
+    const upsert = jest.spyOn(vectorStore, 'upsert');
+    const reembedding = new ReembeddingService(db, provider, {
+      vectorStore,
+      cipher: service.cipher,
+      isLocked: () => service.locked,
+    });
+
+    expect((await reembedding.run()).events).toBe(0);
+    expect((await reembedding.status()).pending.events).toBe(1);
+
+    await service.unlock('correct horse battery');
+    await service.reseal();
+    expect((await reembedding.run()).events).toBe(1);
+
+    const [expected] = await provider.generate([`Capture ${counter}`]);
+    expect(JSON.parse((await db('events').where({ id }).first()).embedding)).toEqual(expected);
+    const [, records] = upsert.mock.calls.find(([collection]) => collection === 'events')!;
+    expect(records).toEqual([expect.objectContaining({ id, document: undefined })]);
+  });
+});
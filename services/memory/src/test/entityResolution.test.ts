@@ -0,0 +1,129 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { EntityModel } from '../models/EntityModel';
+import { MergeCandidateModel } from '../models/MergeCandidateModel';
+import { EntityMergeModel } from '../models/EntityMergeModel';
+import { EntityResolutionService, nameSimilarity } from '../services/EntityResolutionService';
+import { RelationshipService } from '../services/RelationshipService';
+import { createTestDb } from './helpers/db';
+
+describe('nameSimilarity', () => {
+  test('scores reordered, abbreviated and misspelled names', () => {
+    expect(nameSimilarity('Dr. Alice Chen', 'alice chen')).toBe(1);
+    expect(nameSimilarity('Chen, Alice', 'Alice Chen')).toBe(0.97);
+    expect(nameSimilarity('Alice M. Chen', 'Alice Chen')).toBe(0.93);
+    expect(nameSimilarity('A. Chen', 'Alice Chen')).toBe(0.86);
+    expect(nameSimilarity('Alice', 'Alice Chen')).toBe(0.78);
+    expect(nameSimilarity('Bob Stone', 'Alice Chen')).toBeLessThan(0.5);
+  });
+});
+
+describe('EntityResolutionService', () => {
+  let db: Knex;
+  let entityModel: EntityModel;
+  let service: EntityResolutionService;
+  let relationships: RelationshipService;
+
+  beforeAll(async () => {
+    db = await createTestDb();
+
+    const graph = new SqlGraphStore(db);
+    entityModel = new EntityModel(db, graph, new InMemoryVectorStore());
+    relationships = new RelationshipService(db);
+    service = new EntityResolutionService(db, entityModel, new MergeCandidateModel(db), new EntityMergeModel(db), {}, relationships);
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  test('matches emails, exact names and close names to one entity', async () => {
+    const created = await service.resolve({ name: 'Alice Chen', email: 'Alice.Chen@acme.com' });
+    expect(created.matched_by).toBe('created');
+
+    const byEmail = await service.resolve({ name: 'A. Chen', email: 'mailto:alice.chen@ACME.com' });
+    const byName = await service.resolve({ name: 'alice chen' });
+    const bySimilarName = await service.resolve({ name: 'Alice M. Chen' });
+
+    expect(byEmail).toMatchObject({ matched_by: 'alias', entity: { id: created.entity!.id } });
+    expect(byName).toMatchObject({ matched_by: 'name', entity: { id: created.entity!.id } });
+    expect(bySimilarName).toMatchObject({ matched_by: 'similar', entity: { id: created.entity!.id } });
+
+    // The variants are remembered and now match exactly
+    const again = await service.resolve({ name: 'A. Chen' });
+    expect(again.matched_by).toBe('name');
+  });
+
+  test('queues ambiguous matches and merges reversibly on accept', async () => {
+    const bob = (await service.resolve({ name: 'Robert Stone', email: 'robert@stone.io' })).entity!;
+    const result = await service.resolve({ name: 'R. Stone' });
+    const duplicate = result.entity!;
+
+    expect(result.matched_by).toBe('created');
+    expect(result.queued).toHaveLength(1);
+    expect(result.queued[0]).toMatchObject({ entity_id: bob.id, candidate_id: duplicate.id, status: 'pending' });
+
+    await db('tasks').insert({ id: '00000000-0000-4000-8000-000000000001', title: 'Call R. Stone', assignee_id: duplicate.id, metadata: '{}' });
+    await db('events').insert({
+      id: '00000000-0000-4000-8000-000000000002',
+      type: 'meeting',
+      title: 'Sync',
+      start_time: new Date().toISOString(),
+      participants: JSON.stringify([{ entity_id: bob.id }, { entity_id: duplicate.id, role: 'guest' }]),
+      metadata: '{}',
+    });
+    await db('commitments').insert({ statement_text: 'R. Stone will send the deck', deliverable: 'deck', debtor_entity_id: duplicate.id, metadata: '{}' });
+    const dana = await entityModel.create({ name: 'Dana Reed', type: 'person' });
+    await relationships.recordInteraction({ entityIds: [dana.id as string, bob.id as string], channel: 'email' });
+    await relationships.recordInteraction({ entityIds: [dana.id as string, duplicate.id as string], channel: 'meeting' });
+    const contactsOf = async (id: string) => (await relationships.getNetwork(id))!.contacts
+      .map(contact => [contact.entity.id, contact.interaction_count, contact.channels]);
+
+    const pending = await service.listCandidates('pending');
+    expect(pending.data.map(c => c.candidate?.name)).toContain('R. Stone');
+
+    const merge = await service.acceptCandidate(result.queued[0].id as string);
+    expect(await entityModel.findById(duplicate.id as string)).toBeNull();
+    expect((await entityModel.findCanonical(duplicate.id as string))?.id).toBe(bob.id);
+    expect((await db('tasks').first()).assignee_id).toBe(bob.id);
+    expect((await db('commitments').first()).debtor_entity_id).toBe(bob.id);
+    expect(await contactsOf(dana.id as string)).toEqual([[bob.id, 2, { email: 1, meeting: 1 }]]);
+    expect(await db('entity_interactions').where('entity_id', duplicate.id).orWhere('contact_id', duplicate.id).first()).toBeUndefined();
+    expect(JSON.parse((await db('events').first()).participants)).toEqual([{ entity_id: bob.id }]);
+    expect((await entityModel.getAliases(bob.id as string)).map(a => a.value)).toContain('R. Stone');
+
+    const { entity } = await service.undoMerge(merge.id as string);
+    expect(entity.id).toBe(duplicate.id);
+    expect((await db('tasks').first()).assignee_id).toBe(duplicate.id);
+    expect((await db('commitments').first()).debtor_entity_id).toBe(duplicate.id);
+    const taskHistory = await db('row_versions').where({ table_name: 'tasks' }).orderBy('version');
+    expect(taskHistory.map(version => JSON.parse(version.data).assignee_id)).toEqual([bob.id, duplicate.id]);
+    expect(await contactsOf(dana.id as string)).toEqual(expect.arrayContaining([
+      [bob.id, 1, { email: 1 }],
+      [duplicate.id, 1, { meeting: 1 }],
+    ]));
+    expect(JSON.parse((await db('events').first()).participants)[1]).toEqual({ entity_id: duplicate.id, role: 'guest' });
+    expect((await entityModel.getAliases(bob.id as string)).map(a => a.value)).not.toContain('R. Stone');
+    expect((await entityModel.findById(bob.id as string))?.metadata?.merged_from).toEqual([]);
+
+    // An undone merge is remembered as a rejection and not suggested again
+    const review = await service.reviewEntity(duplicate.id as string);
+    expect(review).toEqual({ merged: [], queued: [] });
+  });
+
+  test('resolves participants without creating an entity per unknown ID', async () => {
+    const participants = await service.resolveParticipants([
+      { entity_id: '00000000-0000-4000-8000-00000000ffff', name: 'Alice Chen', role: 'organizer' },
+      { email: 'alice.chen@acme.com' },
+      { name: 'Dana Kim' },
+    ]);
+
+    const alice = await entityModel.findByName('Alice Chen');
+    expect(participants).toEqual([
+      { entity_id: alice!.id, role: 'organizer' },
+      { entity_id: expect.any(String) },
+    ]);
+    expect((await entityModel.findById(participants[1].entity_id))?.name).toBe('Dana Kim');
+  });
+});
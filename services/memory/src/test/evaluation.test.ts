@@ -0,0 +1,157 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { KeywordIndex } from '../db/search/keywordIndex';
+import { getEmbeddingFunction } from '../db/vector/chroma';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { diffReports, evaluate, seedCorpus, type EvaluationReport, type GoldenFixture } from '../eval/harness';
+import { ndcgAtK, recallAtK, reciprocalRank } from '../eval/metrics';
+import { EntityModel } from '../models/EntityModel';
+import { EventModel } from '../models/EventModel';
+import { MemorySummaryModel } from '../models/MemorySummaryModel';
+import { TaskModel } from '../models/TaskModel';
+import { ReembeddingService } from '../services/ReembeddingService';
+import { HeuristicReranker } from '../services/Reranker';
+import { RetrievalService } from '../services/RetrievalService';
+import { createTestDb } from './helpers/db';
+
+describe('ranking metrics', () => {
+  const judgements = { a: 2, b: 1 };
+
+  test('recall@k counts relevant results in the top k', () => {
+    expect(recallAtK(['a', 'x', 'b'], judgements, 2)).toBe(0.5);
+    expect(recallAtK(['a', 'x', 'b'], judgements, 3)).toBe(1);
+  });
+
+  test('reciprocal rank uses the first relevant result', () => {
+    expect(reciprocalRank(['x', 'b', 'a'], judgements)).toBe(0.5);
+    expect(reciprocalRank(['x', 'y'], judgements)).toBe(0);
+  });
+
+  test('nDCG is 1 for the ideal ordering and lower otherwise', () => {
+    expect(ndcgAtK(['a', 'b'], judgements, 10)).toBeCloseTo(1);
+    expect(ndcgAtK(['b', 'a'], judgements, 10)).toBeLessThan(1);
+    expect(ndcgAtK(['x', 'y'], judgements, 10)).toBe(0);
+  });
+});
+
+describe('diffReports', () => {
+  const report = (config: string, ranked: string[], ndcg: number): EvaluationReport => ({
+    config,
+    k: 10,
+    recall: 1,
+    mrr: 1,
+    ndcg,
+    queries: [{ id: 'q1', query: 'budget', ranked, recall: 1, reciprocalRank: 1, ndcg }],
+  });
+
+  test('lists moved relevant results and metric deltas', () => {
+    const diff = diffReports(
+      report('base', ['a', 'b', 'x'], 0.9),
+      report('candidate', ['a', 'x', 'b'], 0.8),
+      [{ id: 'q1', query: 'budget', relevant: ['a', 'b'] }]
+    );
+
+    expect(diff.delta.ndcg).toBeCloseTo(-0.1);
+    expect(diff.queries).toHaveLength(1);
+    expect(diff.queries[0].moved).toEqual([{ key: 'b', baseRank: 2, candidateRank: 3 }]);
+  });
+
+  test('omits unchanged queries', () => {
+    const diff = diffReports(report('a', ['a'], 1), report('b', ['a'], 1), [{ id: 'q1', query: 'budget', relevant: ['a'] }]);
+
+    expect(diff.queries).toEqual([]);
+  });
+});
+
+describe('InMemoryVectorStore', () => {
+  test('returns the nearest vectors that match the filter', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsert('events', [
+      { id: 'recent', embedding: [1, 0], metadata: { type: 'meeting', start_time: new Date('2026-10-18') } },
+      { id: 'old', embedding: [1, 0.1], metadata: { type: 'meeting', start_time: new Date('2026-01-01') } },
+      { id: 'email', embedding: [0.9, 0.1], metadata: { type: 'email', start_time: new Date('2026-10-18') } },
+    ]);
+
+    const matches = await store.query('events', {
+      embedding: [1, 0],
+      limit: 5,
+      filter: { equals: { type: 'meeting' }, range: { start_time: { gte: new Date('2026-10-01') } } },
+    });
+
+    expect(matches.map(match => match.id)).toEqual(['recent']);
+    expect(matches[0].score).toBeCloseTo(1);
+
+    await store.delete('events', ['recent']);
+    expect(await store.query('events', { embedding: [1, 0], limit: 5 })).toHaveLength(2);
+  });
+});
+
+describe('retrieval evaluation', () => {
+  const fixture: GoldenFixture = {
+    corpus: {
+      entities: [{ key: 'pria', name: 'Pria Natarajan', type: 'person', description: 'Finance lead at Northwind' }],
+      events: [
+        { key: 'budget', type: 'meeting', title: 'Q3 budget review', description: 'Went through the marketing budget with Pria', daysAgo: 1, participants: ['pria'] },
+        { key: 'offsite', type: 'email', title: 'Offsite venue options', description: 'Three venues for the team offsite', daysAgo: 3 },
+        { key: 'standup', type: 'meeting', title: 'Daily standup', description: 'Deploy went out, no blockers', daysAgo: 0 },
+      ],
+      tasks: [
+        { key: 'forecast', title: 'Send Pria the revised budget forecast', dueInDays: 2, assignee: 'pria' },
+      ],
+    },
+    queries: [
+      { id: 'budget', query: 'marketing budget review', relevant: { budget: 2, forecast: 1 } },
+      { id: 'offsite', query: 'offsite venue', relevant: ['offsite'] },
+    ],
+  };
+
+  let db: Knex;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('seeds a golden corpus and scores retrieval over it', async () => {
+    // The same deterministic embeddings the eval script uses
+    const provider = getEmbeddingFunction({ provider: 'local', dimensions: 384 });
+    const vectorStore = new InMemoryVectorStore();
+    const graphStore = new SqlGraphStore(db);
+
+    const ids = await seedCorpus(db, fixture.corpus, new ReembeddingService(db, provider, { vectorStore }), new Date('2026-10-19T12:00:00.000Z'));
+    expect(Array.from(ids.keys()).sort()).toEqual(['budget', 'forecast', 'offsite', 'pria', 'standup']);
+    expect(await db('events').whereNull('embedding_model').count({ count: '*' }).first()).toEqual({ count: 0 });
+
+    const retrievalService = new RetrievalService(
+      new EventModel(db, graphStore, vectorStore),
+      new EntityModel(db, graphStore, vectorStore),
+      new TaskModel(db, graphStore, vectorStore),
+      new MemorySummaryModel(db),
+      new HeuristicReranker(),
+      undefined,
+      new KeywordIndex(db)
+    );
+    const report = await evaluate(retrievalService, fixture.queries, ids, { name: 'default', options: {} }, 5);
+
+    expect(report).toMatchObject({ config: 'default', k: 5 });
+    expect(report.queries.map(query => query.id)).toEqual(['budget', 'offsite']);
+    for (const query of report.queries) {
+      // Rankings come back as fixture keys
+      expect(query.ranked.every(key => ids.has(key))).toBe(true);
+    }
+
+    const [budget, offsite] = report.queries;
+    expect(budget.ranked[0]).toBe('budget');
+    expect(budget.recall).toBe(1);
+    expect(offsite.ranked[0]).toBe('offsite');
+    expect(offsite).toMatchObject({ recall: 1, reciprocalRank: 1, ndcg: 1 });
+
+    expect(report.recall).toBe(1);
+    expect(report.mrr).toBe(1);
+    expect(report.ndcg).toBeCloseTo((budget.ndcg + 1) / 2);
+    expect(budget.ndcg).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,152 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { Knex } from 'knex';
+import { createFactsRouter } from '../api/v1/facts';
+import { FactModel, isContradiction, normalizeFactValue } from '../models/FactModel';
+import { createTestDb } from './helpers/db';
+
+const ALICE = '7d7c3e0a-4b52-4d8e-9c1e-2f4a5b6c7d8e';
+const BOB = '1a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c8d';
+const FIRST_EVENT = '1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e';
+const LATER_EVENT = '2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f';
+
+describe('Fact contradiction detection', () => {
+  test('normalizes case and whitespace', () => {
+    expect(normalizeFactValue('  VP   Sales ')).toBe('vp sales');
+    expect(normalizeFactValue(undefined)).toBe('');
+  });
+
+  test('flags a different object for the same subject and predicate', () => {
+    expect(isContradiction(
+      { subject_entity_id: ALICE, predicate: 'job_title', object_value: 'VP Sales' },
+      { subject_entity_id: ALICE, predicate: 'job_title', object_value: 'CFO' }
+    )).toBe(true);
+  });
+
+  test('treats the same claim with different spelling as consistent', () => {
+    expect(isContradiction(
+      { subject_entity_id: ALICE, predicate: 'Job_Title', object_value: 'VP Sales' },
+      { subject_entity_id: ALICE, predicate: 'job_title', object_value: 'vp  sales' }
+    )).toBe(false);
+  });
+
+  test('ignores facts about other subjects or predicates', () => {
+    expect(isContradiction(
+      { subject_entity_id: ALICE, predicate: 'job_title', object_value: 'VP Sales' },
+      { subject_entity_id: BOB, predicate: 'job_title', object_value: 'CFO' }
+    )).toBe(false);
+    expect(isContradiction(
+      { subject_entity_id: ALICE, predicate: 'job_title', object_value: 'VP Sales' },
+      { subject_entity_id: ALICE, predicate: 'employer', object_value: 'ACME' }
+    )).toBe(false);
+  });
+
+  test('never flags unstructured facts', () => {
+    expect(isContradiction(
+      { subject_entity_id: null, predicate: null, object_value: 'VP Sales' },
+      { subject_entity_id: null, predicate: null, object_value: 'CFO' }
+    )).toBe(false);
+  });
+});
+
+describe('Fact assertion', () => {
+  let db: Knex;
+  let factModel: FactModel;
+
+  const aliceIs = (title: string, source_event_id: string, confidence = 0.8) => factModel.assert({
+    statement_text: `Alice is ${title}`,
+    subject_entity_id: ALICE,
+    predicate: 'Job_Title',
+    object_value: title,
+    source_event_id,
+    confidence,
+  });
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    factModel = new FactModel(db);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('supersedes a contradicted fact with a new version', async () => {
+    const { fact: old } = await aliceIs('VP Sales', FIRST_EVENT);
+    expect(old).toMatchObject({ predicate: 'job_title', status: 'active', version: 1, superseded_by: null });
+
+    const { fact, superseded, reverified } = await aliceIs('CFO', LATER_EVENT);
+    expect(reverified).toBe(false);
+    expect(fact).toMatchObject({ object_value: 'CFO', status: 'active', version: 2 });
+    expect(superseded).toEqual([expect.objectContaining({ id: old.id, status: 'superseded', superseded_by: fact.id })]);
+
+    expect((await factModel.findActiveBySubject(ALICE, 'job_title')).map(active => active.id)).toEqual([fact.id]);
+    expect(await factModel.findById(old.id as string)).toMatchObject({ status: 'superseded', superseded_by: fact.id });
+  });
+
+  test('re-verifies the same claim instead of storing it again', async () => {
+    const { fact: first } = await aliceIs('VP Sales', FIRST_EVENT, 0.6);
+
+    const again = await aliceIs('vp  sales', LATER_EVENT, 0.9);
+    expect(again).toMatchObject({ reverified: true, superseded: [] });
+    expect(again.fact).toMatchObject({ id: first.id, version: 1, confidence: 0.9, metadata: { verified_by: [LATER_EVENT] } });
+
+    const third = await aliceIs('VP Sales', FIRST_EVENT, 0.5);
+    expect(third.fact).toMatchObject({ id: first.id, confidence: 0.9, metadata: { verified_by: [LATER_EVENT, FIRST_EVENT] } });
+    expect(await db('facts').count({ count: '*' }).first()).toEqual({ count: 1 });
+  });
+});
+
+describe('Facts API validation', () => {
+  let db: Knex;
+  let server: Server;
+  let url: string;
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${url}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    const app = express();
+    app.use(express.json());
+    app.use('/facts', createFactsRouter(new FactModel(db)));
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await db.destroy();
+  });
+
+  test('refuses malformed facts, statuses and confidences', async () => {
+    const missing = await request('POST', '/facts', { subject_entity_id: ALICE, predicate: 'job_title' });
+    expect(missing).toMatchObject({ status: 400, body: { success: false, error: { code: 'INVALID_FACT' } } });
+    expect(missing.body.error.details[0].path).toEqual(['statement_text']);
+
+    expect(await request('POST', '/facts', { statement_text: 'Alice is CFO', subject_entity_id: 'alice' }))
+      .toMatchObject({ status: 400, body: { error: { code: 'INVALID_FACT' } } });
+    expect(await request('POST', '/facts', { statement_text: 'Alice is CFO', confidence: 1.5 }))
+      .toMatchObject({ status: 400, body: { error: { code: 'INVALID_FACT' } } });
+    expect(await request('GET', '/facts?status=retired'))
+      .toMatchObject({ status: 400, body: { error: { code: 'INVALID_STATUS' } } });
+
+    const created = await request('POST', '/facts', { statement_text: 'Alice is CFO', subject_entity_id: ALICE, predicate: 'job_title', object_value: 'CFO' });
+    expect(created.status).toBe(201);
+    expect((await request('POST', '/facts', { statement_text: 'Alice is CFO', subject_entity_id: ALICE, predicate: 'job_title', object_value: 'cfo' })).status).toBe(200);
+
+    const id = created.body.data.fact.id;
+    expect(await request('POST', `/facts/${id}/verify`, { confidence: '0.9' }))
+      .toMatchObject({ status: 400, body: { error: { code: 'INVALID_CONFIDENCE' } } });
+    expect(await request('POST', `/facts/${BOB}/verify`, {}))
+      .toMatchObject({ status: 404, body: { error: { code: 'NOT_FOUND' } } });
+  });
+});
@@ -0,0 +1,199 @@
+import { Knex } from 'knex';
+import { Node, Path, PathSegment, Relationship, int, type Session } from 'neo4j-driver';
+import { Neo4jGraphStore, compileGraphQuery } from '../db/graph/neo4jStore';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { ValidationError } from '../models/BaseModel';
+import { EntityModel } from '../models/EntityModel';
+import { GraphQueryService, parseGraphQuery } from '../services/GraphQueryService';
+import { createTestDb } from './helpers/db';
+
+const START = '00000000-0000-4000-8000-000000000001';
+
+describe('compileGraphQuery', () => {
+  test('compiles steps to a single parameterized path pattern', () => {
+    const query = parseGraphQuery({
+      start: { id: START },
+      steps: [
+        { edges: ['works_at'], direction: 'in', node: { types: ['person'] } },
+        { edges: ['introduced', 'knows'], direction: 'in', max_hops: 2 },
+      ],
+      time: { from: '2026-01-01T00:00:00.000Z' },
+      limit: 10,
+    });
+
+    const { cypher, params } = compileGraphQuery(query, START);
+    expect(cypher).toContain('MATCH p = (n0:Entity {id: $startId})<-[r0:works_at*1..1]-(n1:Entity)<-[r1:introduced|knows*1..2]-(n2:Entity)');
+    expect(cypher).toContain('n1.type IN $types1');
+    expect(cypher).toContain('ALL(rel IN r1 WHERE');
+    expect(cypher).toMatch(/LIMIT \$limit$/);
+    expect(params).toMatchObject({ startId: START, types1: ['person'], from: '2026-01-01T00:00:00.000Z' });
+    expect(params.limit).toEqual(int(10));
+  });
+
+  test('rejects unknown fields, edge types and unbounded queries', () => {
+    const steps = [{ edges: ['knows'] }];
+    const invalid = [
+      { start: { name: 'ACME' }, steps: [{ edges: ['knows]->(x) DETACH DELETE x //'] }] },
+      { start: { name: 'ACME' }, steps: [{ ...steps[0], node: { label: 'User' } }] },
+      { start: { name: 'ACME' }, steps, cypher: 'MATCH (n) DETACH DELETE n' },
+      { start: { id: "' OR 1=1" }, steps },
+      { start: { name: 'ACME' }, steps: [{ max_hops: 3 }, { max_hops: 2 }] },
+      { start: { name: 'ACME' }, steps: [{ min_hops: 2, max_hops: 1 }] },
+      { start: { name: 'ACME' }, steps, limit: 1000 },
+      { start: { name: 'ACME' }, steps: [] },
+    ];
+
+    for (const input of invalid) {
+      expect(() => parseGraphQuery(input)).toThrow(ValidationError);
+    }
+  });
+});
+
+describe('GraphQueryService', () => {
+  let db: Knex;
+  let entityModel: EntityModel;
+
+  beforeAll(async () => {
+    db = await createTestDb();
+
+    const graph = new SqlGraphStore(db);
+    entityModel = new EntityModel(db, graph, new InMemoryVectorStore());
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  test('returns the nodes and edges of matching paths', async () => {
+    const acme = await entityModel.create({ name: 'ACME', type: 'organization', metadata: {} });
+    const node = (elementId: string, id: string, name: string) =>
+      new Node(int(0), ['Entity'], { id, name, createdAt: int(5) }, elementId);
+
+    const acmeNode = node('e0', acme.id!, 'ACME');
+    const dana = node('e1', '00000000-0000-4000-8000-000000000002', 'Dana');
+    const sam = node('e2', '00000000-0000-4000-8000-000000000003', 'Sam');
+    const worksAt = new Relationship(int(0), int(0), int(0), 'works_at', {}, 'r0', 'e1', 'e0');
+    const introduced = new Relationship(int(0), int(0), int(0), 'introduced', { count: int(2) }, 'r1', 'e2', 'e1');
+    const found = new Path(acmeNode, sam, [
+      new PathSegment(acmeNode, worksAt, dana),
+      new PathSegment(dana, introduced, sam),
+    ]);
+
+    const runs: Array<{ cypher: string; params: Record<string, unknown>; config: any }> = [];
+    const session = {
+      readTransaction: async (work: (tx: any) => Promise<unknown>, config: any) =>
+        work({
+          run: async (cypher: string, params: Record<string, unknown>) => {
+            runs.push({ cypher, params, config });
+            return { records: [{ get: () => found }] };
+          },
+        }),
+    } as unknown as Session;
+
+    const service = new GraphQueryService(new Neo4jGraphStore(session), entityModel, { timeoutMs: 1000 });
+    const result = await service.query({
+      start: { name: 'acme' },
+      steps: [{ edges: ['works_at'], direction: 'in' }, { edges: ['introduced'], direction: 'in' }],
+    });
+
+    expect(runs[0].params.startId).toBe(acme.id);
+    expect(runs[0].config).toEqual({ timeout: 1000 });
+    expect(result.start).toEqual({ id: acme.id, name: 'ACME' });
+    expect(result.nodes.map(n => n.properties.name)).toEqual(['ACME', 'Dana', 'Sam']);
+    expect(result.nodes[0].properties.createdAt).toBe(5);
+    expect(result.edges).toEqual([
+      { id: 'r0', type: 'works_at', source: dana.properties.id, target: acme.id, properties: {} },
+      { id: 'r1', type: 'introduced', source: sam.properties.id, target: dana.properties.id, properties: { count: 2 } },
+    ]);
+    expect(result.paths).toEqual([[acme.id, dana.properties.id, sam.properties.id]]);
+
+    await expect(service.query({ start: { name: 'Nobody' }, steps: [{}] })).rejects.toThrow('Start entity not found');
+  });
+});
+
+describe('SqlGraphStore', () => {
+  let db: Knex;
+  let graph: SqlGraphStore;
+  let entityModel: EntityModel;
+
+  beforeAll(async () => {
+    db = await createTestDb();
+
+    graph = new SqlGraphStore(db);
+    entityModel = new EntityModel(db, graph, new InMemoryVectorStore());
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  test('merges edges on their ID or endpoints and reads them back', async () => {
+    const [alice, bob] = await Promise.all(
+      ['Alice', 'Bob'].map(name => entityModel.create({ name, type: 'person', metadata: {} }))
+    );
+    const related = {
+      type: 'RELATED_TO',
+      from: { label: 'Entity' as const, id: alice.id! },
+      to: { label: 'Entity' as const, id: bob.id! },
+      counter: 'weight',
+    };
+    await graph.mergeEdges([{ ...related, properties: { source: 'email' } }]);
+    await graph.mergeEdges([related]);
+    const knows = await entityModel.createRelationship(bob.id!, alice.id!, 'knows', { since: 2020 });
+
+    const edges = await graph.getEdges({ label: 'Entity', id: alice.id! }, { types: ['RELATED_TO'] });
+    expect(edges).toHaveLength(1);
+    expect(edges[0].properties).toEqual({ source: 'email', weight: 2 });
+
+    expect(await entityModel.getRelationships(alice.id!, { direction: 'outgoing' })).toHaveLength(1);
+    expect(await entityModel.getRelationships(alice.id!, { direction: 'incoming' })).toMatchObject([
+      { id: knows.id, sourceId: bob.id, targetId: alice.id, type: 'knows', metadata: { since: 2020 } },
+    ]);
+    expect((await entityModel.getRelatedEntities(alice.id!)).map(entity => entity.name)).toEqual(['Bob']);
+
+    await entityModel.removeRelationship(knows.id);
+    expect(await entityModel.getRelationships(alice.id!, { type: 'knows' })).toEqual([]);
+  });
+
+  test('answers path queries like the Neo4j store', async () => {
+    const [acme, dana, sam, lee] = await Promise.all([
+      entityModel.create({ name: 'ACME Corp', type: 'organization', metadata: {} }),
+      ...['Dana', 'Sam', 'Lee'].map(name => entityModel.create({ name, type: 'person', metadata: {} })),
+    ]);
+    const edge = (type: string, from: string, to: string, at: string) => ({
+      type,
+      from: { label: 'Entity' as const, id: from },
+      to: { label: 'Entity' as const, id: to },
+      properties: { updated_at: at },
+    });
+    await graph.mergeEdges([
+      edge('works_at', dana.id!, acme.id!, '2026-03-01T00:00:00.000Z'),
+      edge('introduced', sam.id!, dana.id!, '2026-03-02T00:00:00.000Z'),
+      edge('introduced', lee.id!, dana.id!, '2025-06-01T00:00:00.000Z'),
+    ]);
+
+    const service = new GraphQueryService(graph, entityModel);
+    const result = await service.query({
+      start: { name: 'ACME Corp' },
+      steps: [
+        { edges: ['works_at'], direction: 'in', node: { types: ['person'] } },
+        { edges: ['introduced'], direction: 'in' },
+      ],
+      time: { from: '2026-01-01T00:00:00.000Z' },
+    });
+
+    expect(result.paths).toEqual([[acme.id, dana.id, sam.id]]);
+    expect(result.nodes.map(node => node.properties.name)).toEqual(['ACME Corp', 'Dana', 'Sam']);
+    expect(result.edges.map(({ type, source, target }) => ({ type, source, target }))).toEqual([
+      { type: 'works_at', source: dana.id, target: acme.id },
+      { type: 'introduced', source: sam.id, target: dana.id },
+    ]);
+
+    const organizations = await service.query({
+      start: { id: sam.id! },
+      steps: [{ direction: 'out', max_hops: 2, node: { types: ['organization'] } }],
+    });
+    expect(organizations.paths).toEqual([[sam.id, dana.id, acme.id]]);
+  });
+});
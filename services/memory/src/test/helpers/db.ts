@@ -0,0 +1,18 @@
+import path from 'path';
+import knex, { Knex } from 'knex';
+
+/**
+ * An in-memory SQLite database with every migration applied. It has a
+ * single connection, since each connection to :memory: opens a database of
+ * its own; destroy it when the tests are done.
+ */
+export async function createTestDb(): Promise<Knex> {
+  const db = knex({
+    client: 'better-sqlite3',
+    connection: { filename: ':memory:' },
+    pool: { min: 1, max: 1 },
+    useNullAsDefault: true,
+  });
+  await db.migrate.latest({ directory: path.resolve(__dirname, '../../../migrations') });
+  return db;
+}
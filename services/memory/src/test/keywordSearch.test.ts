@@ -0,0 +1,112 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { KeywordIndex, keywordTerms } from '../db/search/keywordIndex';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { EntityModel } from '../models/EntityModel';
+import { EventModel } from '../models/EventModel';
+import { TaskModel } from '../models/TaskModel';
+import { HeuristicReranker } from '../services/Reranker';
+import { RetrievalService, reciprocalRankFusion } from '../services/RetrievalService';
+import { createTestDb } from './helpers/db';
+
+describe('keyword helpers', () => {
+  test('splits queries into terms without stopwords', () => {
+    expect(keywordTerms('What is the status of INV-2024-0042?')).toEqual(['status', 'inv', '2024', '0042']);
+    expect(keywordTerms('"; DROP TABLE events --')).toEqual(['drop', 'table', 'events']);
+  });
+
+  test('reciprocal rank fusion favours items ranked by both lists', () => {
+    const fused = reciprocalRankFusion([['a', 'b', 'c'], ['c', 'a']], 60);
+    expect(fused.get('a')).toBeCloseTo(1 / 61 + 1 / 62);
+    expect(fused.get('b')).toBeCloseTo(1 / 62);
+    expect(Array.from(fused.keys()).sort((x, y) => fused.get(y)! - fused.get(x)!)).toEqual(['a', 'c', 'b']);
+  });
+});
+
+const INVOICE = '00000000-0000-4000-8000-000000000001';
+const PLANNING = '00000000-0000-4000-8000-000000000002';
+const TICKET = '00000000-0000-4000-8000-000000000003';
+const XIOMARA = '00000000-0000-4000-8000-000000000004';
+const RECEIPT = '00000000-0000-4000-8000-000000000005';
+
+describe('KeywordIndex', () => {
+  let db: Knex;
+  let eventModel: EventModel;
+  let taskModel: TaskModel;
+  let entityModel: EntityModel;
+  let index: KeywordIndex;
+
+  beforeAll(async () => {
+    db = await createTestDb();
+
+    const graph = new SqlGraphStore(db);
+    const vectorStore = new InMemoryVectorStore();
+    eventModel = new EventModel(db, graph, vectorStore);
+    taskModel = new TaskModel(db, graph, vectorStore);
+    entityModel = new EntityModel(db, graph, vectorStore);
+    index = new KeywordIndex(db);
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  test('finds exact identifiers and follows edits and deletes', async () => {
+    await db('events').insert([
+      {
+        id: INVOICE,
+        type: 'email',
+        title: 'Invoice from Globex',
+        description: 'Payment reminder for invoice INV-2024-0042, due end of month.',
+        start_time: new Date().toISOString(),
+        metadata: '{}',
+      },
+      {
+        id: PLANNING,
+        type: 'meeting',
+        title: 'Quarterly planning',
+        description: 'Roadmap and hiring for next quarter.',
+        start_time: new Date().toISOString(),
+        metadata: '{}',
+      },
+    ]);
+    await db('tasks').insert({ id: TICKET, title: 'Close ticket JIRA-7781', metadata: '{}' });
+    await db('entities').insert({ id: XIOMARA, name: 'Xiomara Quispe', type: 'person', metadata: '{}' });
+
+    expect(await index.search('INV-2024-0042', { limit: 5 })).toEqual([
+      { type: 'event', id: INVOICE, score: expect.any(Number) },
+    ]);
+    expect((await index.search('jira 7781', { limit: 5 }))[0]).toMatchObject({ type: 'task', id: TICKET });
+    expect(await index.search('quispe', { types: ['event'], limit: 5 })).toEqual([]);
+    expect((await index.search('quispe', { limit: 5 }))[0]).toMatchObject({ type: 'entity', id: XIOMARA });
+
+    await db('tasks').where({ id: TICKET }).update({ title: 'Close ticket JIRA-9000' });
+    expect(await index.search('7781', { limit: 5 })).toEqual([]);
+    await db('events').where({ id: INVOICE }).delete();
+    expect(await index.search('INV-2024-0042', { limit: 5 })).toEqual([]);
+  });
+
+  test('keyword and hybrid retrieval surface rare identifiers', async () => {
+    await db('events').insert({
+      id: RECEIPT,
+      type: 'document_edit',
+      title: 'Scanned receipt',
+      description: 'OCR text: order number ZX-55120 shipped to the warehouse.',
+      start_time: new Date().toISOString(),
+      metadata: '{}',
+    });
+
+    const service = new RetrievalService(eventModel, entityModel, taskModel, undefined, new HeuristicReranker(), undefined, index);
+    const [keywordTop] = await service.retrieve('ZX-55120', { mode: 'keyword', limit: 3 });
+    expect(keywordTop).toMatchObject({ id: RECEIPT, type: 'event' });
+    expect(keywordTop.breakdown).toMatchObject({ mode: 'keyword', keyword: 1, fused: null });
+
+    const hybrid = await service.retrieve('ZX-55120', { limit: 3 });
+    expect(hybrid[0].id).toBe(RECEIPT);
+    expect(hybrid[0].breakdown.mode).toBe('hybrid');
+    expect(hybrid[0].breakdown.fused).toBeGreaterThan(0);
+
+    const semantic = await service.retrieve('ZX-55120', { mode: 'semantic', limit: 3 });
+    expect(semantic.every(result => result.breakdown.keyword === null)).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { EntityModel } from '../models/EntityModel';
+import { EventModel } from '../models/EventModel';
+import { TaskModel } from '../models/TaskModel';
+import type { IPromptService } from '../services/EventProcessingService';
+import { PersonCardService, relationshipStrength } from '../services/PersonCardService';
+import { sentimentScore } from '../services/RelationshipService';
+import { createTestDb } from './helpers/db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('person card helpers', () => {
+  test('scores sentiment labels and numbers', () => {
+    expect(sentimentScore('Positive')).toBe(1);
+    expect(sentimentScore('neutral')).toBe(0);
+    expect(sentimentScore('negative')).toBe(-1);
+    expect(sentimentScore('0.4')).toBe(0.4);
+    expect(sentimentScore(3)).toBe(1);
+    expect(sentimentScore('unsure')).toBeNull();
+  });
+
+  test('relationship strength decays with time and grows with interactions', () => {
+    const now = Date.now();
+    const recent = relationshipStrength([now - DAY_MS, now - 2 * DAY_MS], now);
+    const old = relationshipStrength([now - 60 * DAY_MS, now - 61 * DAY_MS], now);
+
+    expect(recent).toBeGreaterThan(old);
+    expect(relationshipStrength([now - DAY_MS], now)).toBeLessThan(recent);
+    expect(relationshipStrength([], now)).toBe(0);
+    // Interactions after the point in time do not count
+    expect(relationshipStrength([now + DAY_MS], now)).toBe(0);
+  });
+});
+
+describe('PersonCardService', () => {
+  let db: Knex;
+  let entityModel: EntityModel;
+  let taskModel: TaskModel;
+  let eventModel: EventModel;
+  let prompts: string[];
+  let reply: string;
+
+  const promptService = {
+    generate: async (prompt: string) => {
+      prompts.push(prompt);
+      return reply;
+    },
+  } as unknown as IPromptService;
+
+  beforeAll(async () => {
+    db = await createTestDb();
+
+    const graph = new SqlGraphStore(db);
+    entityModel = new EntityModel(db, graph, new InMemoryVectorStore());
+    taskModel = new TaskModel(db, graph);
+    eventModel = new EventModel(db, graph);
+  });
+
+  beforeEach(() => {
+    prompts = [];
+    reply = '1. Hi Alice, how did the launch go?\n- "Any news on the contract?"';
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  test('aggregates interactions, promises, tone and strength', async () => {
+    const alice = await entityModel.create({ name: 'Alice Chen', type: 'person', metadata: {} });
+    const bob = await entityModel.create({ name: 'Bob Stone', type: 'person', metadata: {} });
+    const now = Date.now();
+
+    const insertEvent = (id: string, type: string, title: string, daysAgo: number, sentiment: string, entityId: string) =>
+      db('events').insert({
+        id,
+        type,
+        title,
+        start_time: new Date(now - daysAgo * DAY_MS).toISOString(),
+        participants: JSON.stringify([{ entity_id: entityId }]),
+        metadata: JSON.stringify({ sentiment }),
+      });
+
+    await insertEvent('00000000-0000-4000-8000-000000000011', 'meeting', 'Kickoff', 20, 'negative', alice.id as string);
+    await insertEvent('00000000-0000-4000-8000-000000000012', 'email', 'Re: Contract', 10, 'neutral', alice.id as string);
+    await insertEvent('00000000-0000-4000-8000-000000000013', 'conversation', 'Launch call', 2, 'positive', alice.id as string);
+    await insertEvent('00000000-0000-4000-8000-000000000014', 'email', 'Launch plan', 1, 'positive', alice.id as string);
+    await insertEvent('00000000-0000-4000-8000-000000000015', 'meeting', 'Bob only', 1, 'negative', bob.id as string);
+
+    await db('tasks').insert([
+      { id: '00000000-0000-4000-8000-000000000021', title: 'Send signed contract', assignee_id: alice.id, status: 'pending', metadata: '{}' },
+      { id: '00000000-0000-4000-8000-000000000022', title: 'Share launch deck', related_entity_id: alice.id, status: 'in_progress', metadata: '{}' },
+      { id: '00000000-0000-4000-8000-000000000023', title: 'Book venue', assignee_id: alice.id, status: 'completed', metadata: '{}' },
+    ]);
+
+    const service = new PersonCardService(eventModel, entityModel, taskModel, promptService);
+    const card = (await service.build(alice.id as string))!;
+
+    expect(card.entity.name).toBe('Alice Chen');
+    expect(card.interaction_count).toBe(4);
+    expect(card.last_interactions.map(item => [item.title, item.kind])).toEqual([
+      ['Launch plan', 'email'],
+      ['Launch call', 'event'],
+      ['Re: Contract', 'email'],
+    ]);
+    expect(card.open_promises.by_them.map(task => task.title)).toEqual(['Send signed contract']);
+    expect(card.open_promises.to_them.map(task => task.title)).toEqual(['Share launch deck']);
+    expect(card.tone_history.points.map(point => point.score)).toEqual([-1, 0, 1, 1]);
+    expect(card.tone_history.average).toBe(0.25);
+    expect(card.relationship_strength.current).toBeGreaterThan(0);
+    expect(card.relationship_strength.trend).toBe('rising');
+    expect(card.relationship_strength.series).toHaveLength(13);
+
+    expect(card.opener_source).toBe('llm');
+    expect(card.suggested_openers).toEqual(['Hi Alice, how did the launch go?', 'Any news on the contract?']);
+    expect(prompts[0]).toContain('Owed to Alice Chen: Share launch deck');
+  });
+
+  test('falls back to heuristic openers and can skip them', async () => {
+    const alice = (await entityModel.findByName('Alice Chen'))!;
+    const service = new PersonCardService(eventModel, entityModel, taskModel, promptService);
+
+    reply = 'Error generating response: timeout';
+    const card = (await service.build(alice.id as string))!;
+    expect(card.opener_source).toBe('heuristic');
+    expect(card.suggested_openers[0]).toBe('Hi Alice, a quick update on Share launch deck.');
+
+    const skipped = (await service.build(alice.id as string, { openers: false }))!;
+    expect(skipped.suggested_openers).toEqual([]);
+    expect(skipped.opener_source).toBeNull();
+    expect(prompts).toHaveLength(1);
+
+    expect(await service.build('00000000-0000-4000-8000-0000000000ff')).toBeNull();
+  });
+});
@@ -0,0 +1,209 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { CommitmentModel } from '../models/CommitmentModel';
+import { EntityModel } from '../models/EntityModel';
+import { MemorySummaryModel } from '../models/MemorySummaryModel';
+import { SessionModel } from '../models/SessionModel';
+import { PrivacyService, type CachedMessage, type EmailCache } from '../services/PrivacyService';
+import { createTestDb } from './helpers/db';
+
+const WITH_BOB = '00000000-0000-4000-8000-000000000001';
+const SAME_SESSION = '00000000-0000-4000-8000-000000000002';
+const WITH_ALICE = '00000000-0000-4000-8000-000000000003';
+
+describe('privacy', () => {
+  let db: Knex;
+  let graphStore: SqlGraphStore;
+  let vectorStore: InMemoryVectorStore;
+  let entityModel: EntityModel;
+  let emails: Array<CachedMessage & { to: string }>;
+  let service: PrivacyService;
+  let bob: string;
+  let alice: string;
+
+  // Stands in for the action service's cache
+  const emailCache: EmailCache = {
+    export: async addresses => ({
+      emails: emails.filter(email => addresses === null || addresses.includes(email.to)),
+      drafts: [],
+    }),
+    erase: async addresses => {
+      const before = emails.length;
+      emails = emails.filter(email => addresses !== null && !addresses.includes(email.to));
+      return { emails: before - emails.length, drafts: 0 };
+    },
+  };
+
+  const count = async (table: string) => Number((await db(table).count('* as count').first())?.count);
+
+  beforeEach(async () => {
+    db = await createTestDb();
+
+    graphStore = new SqlGraphStore(db);
+    vectorStore = new InMemoryVectorStore();
+    entityModel = new EntityModel(db, graphStore, vectorStore);
+    emails = [
+      {
+        id: 'msg-1',
+        to: 'bob@example.com',
+        subject: 'Lease draft',
+        attachments: [{ filename: 'lease draft.pdf', mimeType: 'application/pdf', content: Buffer.from('%PDF').toString('base64') }],
+      },
+      { id: 'msg-2', to: 'alice@example.com', subject: 'Lunch' },
+    ];
+    service = new PrivacyService(db, entityModel, graphStore, vectorStore, emailCache);
+
+    bob = (await entityModel.create({ name: 'Bob Stone', type: 'person' })).id as string;
+    alice = (await entityModel.create({ name: 'Alice Jones', type: 'person' })).id as string;
+    await entityModel.addAlias(bob, 'email', 'bob@example.com', 'manual');
+    const oldBob = (await entityModel.create({ name: 'Bobby', type: 'person' })).id as string;
+    await db('entities').where({ id: oldBob }).update({ merged_into: bob, deleted_at: new Date().toISOString() });
+
+    // Bob's call and a note taken during it share a session
+    const sessionId = (await new SessionModel(db).create({
+      kind: 'meeting',
+      title: 'Call with Bob',
+      start_time: '2026-10-19T09:00:00.000Z',
+      end_time: '2026-10-19T09:30:00.000Z',
+      status: 'closed',
+      event_count: 2,
+      transcript: 'Bob: the lease is ready',
+      participant_ids: [bob],
+      metadata: {},
+    })).id as string;
+    const capture = (id: string, title: string, participants: string[], session_id: string | null) => ({
+      id,
+      type: 'meeting',
+      title,
+      start_time: '2026-10-19T09:00:00.000Z',
+      participants: JSON.stringify(participants.map(entity_id => ({ entity_id }))),
+      metadata: '{}',
+      embedding: '[1,0]',
+      session_id,
+    });
+    await db('events').insert([
+      capture(WITH_BOB, 'Lease call with Bob', [bob], sessionId),
+      capture(SAME_SESSION, 'Note during the call', [], sessionId),
+      capture(WITH_ALICE, 'Lunch with Alice', [alice], null),
+    ]);
+    for (const id of [WITH_BOB, SAME_SESSION, WITH_ALICE]) {
+      await vectorStore.upsert('events', [{ id, embedding: [1, 0] }]);
+      await graphStore.upsertNode({ label: 'Event', id, properties: {} });
+    }
+    await graphStore.mergeEdges([{ type: 'INTERACTED_WITH', from: { label: 'Entity', id: bob }, to: { label: 'Entity', id: alice } }]);
+
+    await db('tasks').insert([
+      { id: '00000000-0000-4000-8000-000000000011', title: 'Sign the lease', status: 'pending', priority: 'high', related_event_id: WITH_BOB, metadata: '{}' },
+      { id: '00000000-0000-4000-8000-000000000012', title: 'Book lunch', status: 'pending', priority: 'low', related_entity_id: alice, metadata: '{}' },
+    ]);
+    await db('facts').insert([
+      { statement_text: 'Bob lives in Leeds', subject_entity_id: bob, predicate: 'city', object_value: 'Leeds', metadata: '{}' },
+      { statement_text: 'Alice likes sushi', subject_entity_id: alice, predicate: 'likes', object_value: 'sushi', metadata: '{}' },
+    ]);
+    await new CommitmentModel(db).create({
+      statement_text: 'Bob will send the lease',
+      deliverable: 'lease',
+      debtor_entity_id: bob,
+      user_role: 'creditor',
+      status: 'open',
+      confidence: 1,
+      metadata: {},
+    });
+    const summaries = new MemorySummaryModel(db);
+    for (const [scope, scope_id, source_event_ids] of [['day', '2026-10-19', [WITH_BOB, WITH_ALICE]], ['entity', alice, [WITH_ALICE]]] as const) {
+      await summaries.create({
+        scope,
+        scope_id,
+        period_start: '2026-10-19T00:00:00.000Z',
+        period_end: '2026-10-19T23:59:59.999Z',
+        summary_text: 'Summary',
+        event_count: source_event_ids.length,
+        source_event_ids: [...source_event_ids],
+        metadata: {},
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('exports a contact as a portable archive with attachments', async () => {
+    const archive = await service.export({ scope: 'contact', email: 'Bob@Example.com' });
+
+    expect(archive.subject).toMatchObject({ scope: 'contact', name: 'Bob Stone' });
+    expect(archive.subject.entity_ids).toHaveLength(2);
+    expect(archive.counts).toMatchObject({
+      entities: 2,
+      events: 1,
+      tasks: 1,
+      facts: 1,
+      commitments: 1,
+      sessions: 1,
+      memory_summaries: 1,
+      graph_edges: 1,
+      cached_emails: 1,
+    });
+    expect(archive.data.events.find(event => event.id === WITH_BOB)).toMatchObject({ participants: [{ entity_id: bob }] });
+    expect(archive.data.events[0]).not.toHaveProperty('embedding');
+
+    expect(archive.attachments).toEqual([{
+      path: 'attachments/emails/msg-1/lease_draft.pdf',
+      mime_type: 'application/pdf',
+      size: 4,
+      encoding: 'base64',
+      content: Buffer.from('%PDF').toString('base64'),
+    }]);
+    expect(archive.data.cached_emails[0].attachments).toEqual([{ filename: 'lease draft.pdf', mime_type: 'application/pdf', path: archive.attachments[0].path }]);
+  });
+
+  test('forgets a contact in every store and verifies it', async () => {
+    const dryRun = await service.erase({ scope: 'contact', name: 'bob stone' }, { dryRun: true });
+    expect(dryRun.erased).toMatchObject({ events: 1, entities: 2 });
+    // The note taken during Bob's call is not about Bob, so it only leaves the session
+    expect(dryRun.unlinked).toEqual({ events: 1, commitments: 0 });
+    expect(await count('events')).toBe(3);
+
+    const report = await service.erase({ scope: 'contact', entity_id: bob });
+    expect(report.digest).toBe(dryRun.digest);
+    expect(report.erased).toMatchObject({
+      entities: 2,
+      entity_aliases: 1,
+      events: 1,
+      tasks: 1,
+      facts: 1,
+      commitments: 1,
+      sessions: 1,
+      memory_summaries: 1,
+      'vectors.events': 1,
+      'email_cache.emails': 1,
+    });
+    expect(report.failures).toEqual([]);
+    expect(report.verification).toMatchObject({ verified: true });
+
+    expect(await db('events').orderBy('id').select('id', 'session_id')).toEqual([
+      { id: SAME_SESSION, session_id: null },
+      { id: WITH_ALICE, session_id: null },
+    ]);
+    expect(await db('entities').pluck('name')).toEqual(['Alice Jones']);
+    expect(await db('facts').pluck('statement_text')).toEqual(['Alice likes sushi']);
+    expect(await db('tasks').pluck('title')).toEqual(['Book lunch']);
+    expect(await db('memory_summaries').pluck('scope')).toEqual(['entity']);
+    expect(await db('row_versions').whereIn('row_id', report.subject.entity_ids!).first()).toBeUndefined();
+    expect(await db('row_versions').where({ table_name: 'commitments' }).first()).toBeUndefined();
+    expect(await graphStore.getEdges({ label: 'Entity', id: alice })).toEqual([]);
+    expect((await vectorStore.query('events', { embedding: [1, 0], limit: 10 })).map(match => match.id).sort()).toEqual([SAME_SESSION, WITH_ALICE]);
+    expect(emails.map(email => email.id)).toEqual(['msg-2']);
+  });
+
+  test('erases everything for the user', async () => {
+    const report = await service.erase({ scope: 'user' });
+
+    expect(report.verification).toMatchObject({ verified: true });
+    for (const table of ['events', 'entities', 'tasks', 'facts', 'sessions', 'memory_summaries', 'graph_nodes', 'graph_edges']) {
+      expect(await count(table)).toBe(0);
+    }
+    expect(emails).toEqual([]);
+  });
+});
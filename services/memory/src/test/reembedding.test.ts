@@ -0,0 +1,102 @@
+import { Knex } from 'knex';
+import { LocalHashEmbeddingProvider } from '../db/vector/embeddings';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { ReembeddingService } from '../services/ReembeddingService';
+import { createTestDb } from './helpers/db';
+
+const id = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+describe('ReembeddingService', () => {
+  let db: Knex;
+  let provider: LocalHashEmbeddingProvider;
+  let vectorStore: InMemoryVectorStore;
+  let service: ReembeddingService;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    provider = new LocalHashEmbeddingProvider(64);
+    vectorStore = new InMemoryVectorStore();
+    service = new ReembeddingService(db, provider, { batchSize: 2, vectorStore });
+
+    await db('events').insert({
+      id: id(1),
+      type: 'meeting',
+      title: 'Forecast review',
+      description: 'With Bob',
+      start_time: '2026-10-19T09:00:00.000Z',
+      participants: '[]',
+      metadata: '{}',
+    });
+    await db('entities').insert([
+      { id: id(2), name: 'Bob Stone', type: 'person', metadata: '{}' },
+      { id: id(3), name: 'Gone Entity', type: 'person', metadata: '{}', deleted_at: '2026-10-01T00:00:00.000Z' },
+    ]);
+    await db('tasks').insert([
+      { id: id(4), title: 'Send the forecast', metadata: '{}', created_at: '2026-10-19T09:00:00.000Z' },
+      { id: id(5), title: 'Book the room', metadata: '{}', created_at: '2026-10-19T09:01:00.000Z' },
+      { id: id(6), title: 'Order lunch', metadata: '{}', created_at: '2026-10-19T09:02:00.000Z' },
+      { id: id(7), title: 'Deleted task', metadata: '{}', deleted_at: '2026-10-01T00:00:00.000Z' },
+    ]);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('counts pending rows per table, leaving soft deleted ones out', async () => {
+    expect(await service.status()).toEqual({
+      provider: provider.id,
+      dimensions: 64,
+      running: false,
+      pending: { events: 1, entities: 1, tasks: 3, memory_summaries: 0 },
+    });
+
+    await db('tasks').where({ id: id(4) }).update({ embedding_model: provider.id });
+    await db('tasks').where({ id: id(5) }).update({ embedding_model: 'local:hash-ngram-v1:32' });
+    expect((await service.status()).pending.tasks).toBe(2);
+  });
+
+  test('embeds pending rows in batches and stamps the provider', async () => {
+    const generate = jest.spyOn(provider, 'generate');
+
+    expect(await service.run()).toEqual({ events: 1, entities: 1, tasks: 3, memory_summaries: 0 });
+    expect(generate.mock.calls.map(([texts]) => texts)).toEqual([
+      ['Forecast review With Bob'],
+      ['Bob Stone'],
+      ['Send the forecast', 'Book the room'],
+      ['Order lunch'],
+    ]);
+
+    const [expected] = await provider.generate(['Forecast review With Bob']);
+    const event = await db('events').where({ id: id(1) }).first();
+    expect(event.embedding_model).toBe(provider.id);
+    expect(JSON.parse(event.embedding)).toEqual(expected);
+
+    // Tasks keep no embedding of their own, only the stamp
+    const tasks = await db('tasks').orderBy('id');
+    expect(tasks.map(task => task.embedding_model)).toEqual([provider.id, provider.id, provider.id, null]);
+    expect((await db('entities').where({ id: id(3) }).first()).embedding_model).toBeNull();
+
+    expect((await service.status()).pending).toEqual({ events: 0, entities: 0, tasks: 0, memory_summaries: 0 });
+    expect(await service.run()).toEqual({ events: 0, entities: 0, tasks: 0, memory_summaries: 0 });
+  });
+
+  test('puts re-embedded rows into the vector store, but not soft deleted ones', async () => {
+    const upsert = jest.spyOn(vectorStore, 'upsert');
+    await service.run();
+
+    const indexed = upsert.mock.calls.flatMap(([collection, records]) =>
+      records.map(record => [collection, record.id, record.document]));
+    expect(indexed).toEqual([
+      ['events', id(1), 'Forecast review With Bob'],
+      ['entities', id(2), 'Bob Stone'],
+      ['tasks', id(4), 'Send the forecast'],
+      ['tasks', id(5), 'Book the room'],
+      ['tasks', id(6), 'Order lunch'],
+    ]);
+
+    const [query] = await provider.generate(['Book the room']);
+    const [match] = await vectorStore.query('tasks', { embedding: query, limit: 1 });
+    expect(match.id).toBe(id(5));
+  });
+});
@@ -0,0 +1,117 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { EntityModel } from '../models/EntityModel';
+import { RelationshipService, accumulateScore, toStrength } from '../services/RelationshipService';
+import { computeRelational } from '../services/RetrievalService';
+import { createTestDb } from './helpers/db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('relationship scoring', () => {
+  test('decays interactions and counts late arrivals at their own time', () => {
+    const now = Date.now();
+    const first = accumulateScore(0, null, now - 30 * DAY_MS, 30);
+    expect(first).toEqual({ score: 1, last: now - 30 * DAY_MS });
+
+    const second = accumulateScore(first.score, first.last, now, 30);
+    expect(second.score).toBeCloseTo(1.5);
+
+    const late = accumulateScore(second.score, second.last, now - 30 * DAY_MS, 30);
+    expect(late).toEqual({ score: 2, last: now });
+    expect(toStrength(0)).toBe(0);
+    expect(toStrength(5)).toBe(0.632);
+  });
+
+  test('relational score uses edge strength for entities not directly involved', () => {
+    const strengths = new Map([['a:b', 0.6], ['a:c', 0.2]]);
+    expect(computeRelational(['a'], ['a'])).toBe(1);
+    expect(computeRelational(['a'], ['b', 'c'], strengths)).toBe(0.6);
+    expect(computeRelational(['a', 'x'], ['b'], strengths)).toBe(0.3);
+    expect(computeRelational(['a'], ['b'])).toBe(0);
+  });
+});
+
+describe('RelationshipService', () => {
+  let db: Knex;
+  let entityModel: EntityModel;
+  let service: RelationshipService;
+  let graph: SqlGraphStore;
+
+  beforeAll(async () => {
+    db = await createTestDb();
+
+    graph = new SqlGraphStore(db);
+    entityModel = new EntityModel(db, graph, new InMemoryVectorStore());
+    service = new RelationshipService(db, graph);
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  test('aggregates interactions into edges and a network', async () => {
+    const [alice, bob, carol] = await Promise.all(
+      ['Alice Chen', 'Bob Stone', 'Carol Diaz'].map(name => entityModel.create({ name, type: 'person', metadata: {} }))
+    );
+    const now = Date.now();
+
+    await service.recordInteraction({
+      entityIds: [alice.id!, bob.id!],
+      timestamp: new Date(now - 2 * DAY_MS),
+      channel: 'email',
+      sentiment: 'positive',
+    });
+    await service.recordInteraction({
+      entityIds: [alice.id!, bob.id!, alice.id!],
+      timestamp: new Date(now - DAY_MS),
+      channel: 'meeting',
+      sentiment: 'negative',
+    });
+    await service.recordInteraction({
+      entityIds: [alice.id!, carol.id!, '00000000-0000-4000-8000-00000000ffff'],
+      timestamp: new Date(now - 60 * DAY_MS),
+      channel: 'email',
+    });
+
+    const network = (await service.getNetwork(alice.id!))!;
+    expect(network.contacts.map(contact => contact.entity.name)).toEqual(['Bob Stone', 'Carol Diaz']);
+    expect(network.contacts[0]).toMatchObject({
+      interaction_count: 2,
+      channels: { email: 1, meeting: 1 },
+      sentiment: 0,
+    });
+    expect(network.contacts[0].strength).toBeGreaterThan(network.contacts[1].strength);
+    expect(network.contacts[1].sentiment).toBeNull();
+    expect(network.relationship_strength).toBeGreaterThan(0);
+    expect((await entityModel.findById(alice.id!))?.relationship_strength).toBe(network.relationship_strength);
+
+    // Edges are mirrored both ways with their aggregates
+    const outgoing = await graph.getEdges({ label: 'Entity', id: alice.id! }, { types: ['INTERACTED_WITH'], direction: 'out' });
+    const incoming = await graph.getEdges({ label: 'Entity', id: alice.id! }, { types: ['INTERACTED_WITH'], direction: 'in' });
+    expect(outgoing.map(edge => edge.target).sort()).toEqual([bob.id, carol.id].sort());
+    expect(incoming).toHaveLength(2);
+    expect(outgoing.find(edge => edge.target === carol.id)?.properties).toMatchObject({ count: 1, channels: ['email'] });
+
+    const strengths = await service.getStrengths([bob.id!]);
+    expect(strengths.get(`${bob.id}:${alice.id}`)).toBe(network.contacts[0].strength);
+    expect(await service.getNetwork('00000000-0000-4000-8000-00000000ffff')).toBeNull();
+  });
+
+  test('decay lowers stored strengths as time passes', async () => {
+    const before = await db('entity_interactions').select('id', 'strength');
+    const report = await service.decay(new Date(Date.now() + 90 * DAY_MS));
+    const after = await db('entity_interactions').select('id', 'strength');
+
+    expect(report).toEqual({ entities: 3, edges: 4 });
+    for (const edge of after) {
+      expect(edge.strength).toBeLessThan(before.find(row => row.id === edge.id)!.strength);
+    }
+
+    // Entities are versioned, so their history holds the decayed strength
+    for (const entity of await db('entities').whereNotNull('last_interaction_at')) {
+      const current = await db('row_versions').where({ table_name: 'entities', row_id: entity.id }).whereNull('valid_to').first();
+      expect(JSON.parse(current.data).relationship_strength).toBe(entity.relationship_strength);
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { HeuristicReranker, PromptServiceReranker, parseScores } from '../services/Reranker';
+import { RetrievalService, WEIGHT_PROFILES, computeActionability } from '../services/RetrievalService';
+import type { IPromptService } from '../services/EventProcessingService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const candidates = [
+  { id: 'a', type: 'event', content: 'Lunch with the design team on Friday' },
+  { id: 'b', type: 'event', content: 'Bob promised the updated budget forecast by Thursday' },
+  { id: 'c', type: 'task', content: 'Ask Bob about the forecast' },
+];
+
+function promptService(response: string | Error): IPromptService {
+  return {
+    extractStructuredData: jest.fn(),
+    generate: jest.fn(async () => {
+      if (response instanceof Error) throw response;
+      return response;
+    }),
+  };
+}
+
+describe('HeuristicReranker', () => {
+  test('ranks candidates covering the query above unrelated ones', async () => {
+    const { scores, reranker } = await new HeuristicReranker().rerank('Bob budget forecast', candidates);
+
+    expect(reranker).toBe('heuristic');
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+    expect(scores[2]).toBeGreaterThan(scores[0]);
+    expect(scores[0]).toBe(0);
+  });
+});
+
+describe('PromptServiceReranker', () => {
+  test('uses model scores and fills skipped candidates from the fallback', async () => {
+    const reranker = new PromptServiceReranker(
+      promptService('Here you go: {"scores": [{"index": 0, "score": 0.1}, {"index": 1, "score": 0.95}]}')
+    );
+
+    const { scores, reranker: name } = await reranker.rerank('Bob budget forecast', candidates);
+
+    expect(name).toBe('prompt');
+    expect(scores[0]).toBe(0.1);
+    expect(scores[1]).toBe(0.95);
+    expect(scores[2]).toBeGreaterThan(0);
+  });
+
+  test('falls back to the heuristic when the prompt service fails', async () => {
+    const reranker = new PromptServiceReranker(promptService(new Error('offline')));
+
+    const result = await reranker.rerank('Bob budget forecast', candidates);
+
+    expect(result.reranker).toBe('heuristic');
+  });
+});
+
+describe('parseScores', () => {
+  test('ignores out of range indexes and clamps scores', () => {
+    const scores = parseScores('{"scores": [{"index": 0, "score": 1.4}, {"index": 7, "score": 0.5}]}', 2);
+
+    expect(Array.from(scores.entries())).toEqual([[0, 1]]);
+    expect(parseScores('not json', 2).size).toBe(0);
+  });
+});
+
+describe('computeActionability', () => {
+  const now = new Date('2026-10-19T09:00:00Z').getTime();
+
+  test('scores overdue open tasks highest and finished tasks zero', () => {
+    const overdue = computeActionability('task', { status: 'pending', due_date: new Date(now - DAY_MS) }, now);
+    const dueSoon = computeActionability('task', { status: 'pending', due_date: new Date(now + DAY_MS) }, now);
+    const dueLater = computeActionability('task', { status: 'pending', due_date: new Date(now + 30 * DAY_MS) }, now);
+    const done = computeActionability('task', { status: 'completed', due_date: new Date(now - DAY_MS) }, now);
+
+    expect(overdue).toBe(1);
+    expect(dueSoon).toBeGreaterThan(dueLater);
+    expect(done).toBe(0);
+  });
+
+  test('scores events by their open action items', () => {
+    const withItems = computeActionability('event', { metadata: { action_items: [{ status: 'open' }] } }, now);
+    const closed = computeActionability('event', { metadata: { action_items: [{ status: 'done' }] } }, now);
+
+    expect(withItems).toBeGreaterThan(0);
+    expect(closed).toBe(0);
+    expect(computeActionability('summary', {}, now)).toBe(0);
+  });
+});
+
+describe('RetrievalService.resolveProfile', () => {
+  test('applies intent profiles with weight and lambda overrides', () => {
+    const profile = RetrievalService.resolveProfile({
+      intent: 'morning_briefing',
+      weights: { semantic: 0.5, actionability: Number.NaN },
+      lambda: 0.2,
+    });
+
+    expect(profile.weights).toEqual({
+      ...WEIGHT_PROFILES.morning_briefing.weights,
+      semantic: 0.5,
+    });
+    expect(profile.lambda).toBe(0.2);
+    expect(RetrievalService.resolveProfile().lambda).toBe(WEIGHT_PROFILES.default.lambda);
+  });
+});
@@ -0,0 +1,186 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Knex } from 'knex';
+import { FilesystemBlobBackend } from '../db/blob/fsBackend';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { BlobModel } from '../models/BlobModel';
+import { EventModel } from '../models/EventModel';
+import { MemorySummaryModel } from '../models/MemorySummaryModel';
+import { RetentionPinModel } from '../models/RetentionPinModel';
+import { SessionModel } from '../models/SessionModel';
+import { BlobService } from '../services/BlobService';
+import type { ConsolidationService } from '../services/ConsolidationService';
+import { RetentionService, type RetentionOptions } from '../services/RetentionService';
+import { createTestDb } from './helpers/db';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('retention', () => {
+  let db: Knex;
+  let graphStore: SqlGraphStore;
+  let vectorStore: InMemoryVectorStore;
+  let eventModel: EventModel;
+  let sessionModel: SessionModel;
+  let summaryModel: MemorySummaryModel;
+  let pinModel: RetentionPinModel;
+  let counter = 0;
+
+  const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY).toISOString();
+
+  // Events are inserted directly so no embeddings are computed
+  const capture = async (days: number, metadata: Record<string, unknown> = {}, blobId: string | null = null) => {
+    const id = `00000000-0000-4000-8000-${String(++counter).padStart(12, '0')}`;
+    await db('events').insert({
+      id,
+      type: 'other',
+      title: `Capture ${counter}`,
+      description: `Captured ${days} days ago`,
+      start_time: daysAgo(days),
+      participants: '[]',
+      metadata: JSON.stringify(metadata),
+      blob_id: blobId,
+    });
+    await vectorStore.upsert('events', [{ id, embedding: [1, 0] }]);
+    await graphStore.upsertNode({ label: 'Event', id, properties: {} });
+    return id;
+  };
+
+  // A day summary around the capture, whatever the local time zone
+  const summarize = (days: number) => summaryModel.create({
+    scope: 'day',
+    scope_id: daysAgo(days).slice(0, 10),
+    period_start: daysAgo(days + 0.5),
+    period_end: daysAgo(days - 0.5),
+    summary_text: 'A quiet day',
+    event_count: 1,
+    source_event_ids: [],
+    metadata: {},
+  });
+
+  const service = (options: RetentionOptions = {}, consolidationService?: ConsolidationService) =>
+    new RetentionService({ eventModel, sessionModel, summaryModel, pinModel }, consolidationService, options);
+
+  beforeEach(async () => {
+    db = await createTestDb();
+
+    graphStore = new SqlGraphStore(db);
+    vectorStore = new InMemoryVectorStore();
+    eventModel = new EventModel(db, graphStore, vectorStore);
+    sessionModel = new SessionModel(db);
+    summaryModel = new MemorySummaryModel(db);
+    pinModel = new RetentionPinModel(db);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('reports what a run would do without changing anything', async () => {
+    const fresh = await capture(3);
+    const old = await capture(10, { content: 'raw text' });
+    const expired = await capture(100);
+    await summarize(100);
+
+    const report = await service().run({ dryRun: true, now: NOW });
+    expect(report).toMatchObject({
+      dry_run: true,
+      demoted: { event: 1, session: 0, summary: 0 },
+      purged: { event: 1, session: 0, summary: 0 },
+      unsummarized_days: [],
+    });
+    expect(report.actions.map(action => [action.id, action.action])).toEqual([[expired, 'purge'], [old, 'demote']]);
+    expect(report.actions.map(action => action.id)).not.toContain(fresh);
+
+    expect((await eventModel.findById(old))).toMatchObject({ retention_lane: 'hot', metadata: { content: 'raw text' } });
+    expect(await eventModel.findById(expired)).not.toBeNull();
+  });
+
+  test('demotes raw content and purges old events from every store, leaving pinned ones', async () => {
+    const old = await capture(10, { source: 'screen', content: 'raw text', app: 'Zoom' });
+    const expired = await capture(100);
+    const kept = await capture(100);
+    await summarize(100);
+    await pinModel.pin({ item_type: 'event', item_id: kept, reason: 'Contract signed' });
+
+    const report = await service().run({ now: NOW });
+    expect(report).toMatchObject({ demoted: { event: 1 }, purged: { event: 1 }, pinned: 1 });
+
+    expect(await eventModel.findById(old)).toMatchObject({ retention_lane: 'warm', metadata: { source: 'screen', app: 'Zoom' } });
+    expect((await eventModel.findById(old))!.metadata).not.toHaveProperty('content');
+
+    expect(await eventModel.findById(expired)).toBeNull();
+    expect((await vectorStore.query('events', { embedding: [1, 0], limit: 10 })).map(match => match.id).sort()).toEqual([old, kept]);
+    expect(await db('graph_nodes').where({ label: 'Event', id: expired }).first()).toBeUndefined();
+
+    expect(await eventModel.findById(kept)).toMatchObject({ retention_lane: 'hot' });
+  });
+
+  test('deletes the blobs of demoted and purged events once no event uses them', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'ellipsa-blobs-'));
+    try {
+      const blobService = new BlobService(new BlobModel(db), new FilesystemBlobBackend(dir));
+      const screenshot = (await blobService.put(Buffer.from('screenshot'), { mimeType: 'text/plain' })).id;
+      const recording = (await blobService.put(Buffer.from('recording'), { mimeType: 'text/plain' })).id;
+      const shared = (await blobService.put(Buffer.from('shared'), { mimeType: 'text/plain' })).id;
+
+      const old = await capture(10, { source: 'screen' }, screenshot);
+      await capture(100, { source: 'audio' }, recording);
+      await capture(100, {}, shared);
+      await capture(3, {}, shared);
+      await summarize(100);
+
+      await new RetentionService({ eventModel, sessionModel, summaryModel, pinModel, blobService }).run({ now: NOW });
+      expect(await eventModel.findById(old)).toMatchObject({ retention_lane: 'warm', blob_id: null });
+      expect(await blobService.get(screenshot)).toBeNull();
+      expect(await blobService.get(recording)).toBeNull();
+      // Still captured by a fresh event
+      expect(await blobService.get(shared)).not.toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('applies per-source rules and keeps days it cannot summarize', async () => {
+    const audio = await capture(10, { source: 'audio' });
+    const screen = await capture(10, { source: 'screen' });
+    const rules = [{ type: 'event' as const, source: 'Audio', warmDays: 5 }];
+
+    const unsummarized = await service({ rules }).run({ now: NOW });
+    expect(unsummarized.purged.event).toBe(0);
+    expect(unsummarized.unsummarized_days).toHaveLength(1);
+    expect(await eventModel.findById(audio)).not.toBeNull();
+
+    const consolidation = { consolidateDay: jest.fn(async () => summarize(10)) } as unknown as ConsolidationService;
+    const report = await service({ rules }, consolidation).run({ now: NOW });
+    expect(report.purged.event).toBe(1);
+    expect(report.summarized_days).toHaveLength(1);
+    expect(await eventModel.findById(audio)).toBeNull();
+    expect(await eventModel.findById(screen)).toMatchObject({ retention_lane: 'warm' });
+  });
+
+  test('drops old transcripts and purges expired sessions once closed', async () => {
+    const session = (days: number, status: 'open' | 'closed') => sessionModel.create({
+      kind: 'meeting',
+      title: 'Standup',
+      start_time: daysAgo(days),
+      end_time: daysAgo(days),
+      status,
+      event_count: 1,
+      transcript: 'Alice: shipping Friday',
+      participant_ids: [],
+      metadata: {},
+    });
+    const recent = await session(10, 'closed');
+    const open = await session(10, 'open');
+    const expired = await session(100, 'closed');
+
+    const report = await service().run({ now: NOW });
+    expect(report).toMatchObject({ demoted: { session: 1 }, purged: { session: 1 } });
+    expect(await sessionModel.findById(recent.id as string)).toMatchObject({ transcript: '' });
+    expect(await sessionModel.findById(open.id as string)).toMatchObject({ transcript: 'Alice: shipping Friday' });
+    expect(await sessionModel.findById(expired.id as string)).toBeNull();
+  });
+});
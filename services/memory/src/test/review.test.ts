@@ -0,0 +1,152 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { KeywordIndex } from '../db/search/keywordIndex';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { EntityModel } from '../models/EntityModel';
+import { EventModel, type Event } from '../models/EventModel';
+import { ReviewDecisionModel } from '../models/ReviewDecisionModel';
+import { TaskModel } from '../models/TaskModel';
+import { EventProcessingService, type ExtractionResult } from '../services/EventProcessingService';
+import { HeuristicReranker } from '../services/Reranker';
+import { RetrievalService, UNVERIFIED_WEIGHT } from '../services/RetrievalService';
+import { ReviewService } from '../services/ReviewService';
+import { createTestDb } from './helpers/db';
+
+const GUESSED = '00000000-0000-4000-8000-000000000001';
+const CONFIRMED = '00000000-0000-4000-8000-000000000002';
+const WRONG = '00000000-0000-4000-8000-000000000003';
+
+describe('verification queue', () => {
+  let db: Knex;
+  let eventModel: EventModel;
+  let taskModel: TaskModel;
+  let entityModel: EntityModel;
+  let decisionModel: ReviewDecisionModel;
+  let review: ReviewService;
+
+  const ingest = (extraction: ExtractionResult) => new EventProcessingService({
+    promptService: {
+      extractStructuredData: async () => extraction,
+      generate: async () => '',
+    },
+    eventModel,
+    entityModel,
+    taskModel,
+    graphStore: new SqlGraphStore(db),
+  }).processEvent('captured text') as Promise<{ event: Event }>;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+
+    const graph = new SqlGraphStore(db);
+    const vectorStore = new InMemoryVectorStore();
+    eventModel = new EventModel(db, graph, vectorStore);
+    taskModel = new TaskModel(db, graph, vectorStore);
+    entityModel = new EntityModel(db, graph, vectorStore);
+    decisionModel = new ReviewDecisionModel(db);
+    review = new ReviewService({ eventModel, taskModel, entityModel }, decisionModel);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('leaves low-confidence extractions unverified', async () => {
+    // SQLite cannot bind the participants array EventModel.create writes
+    let counter = 100;
+    jest.spyOn(eventModel, 'create').mockImplementation(async ({ participants, metadata, start_time, ...input }) => {
+      const id = `00000000-0000-4000-8000-${String(++counter).padStart(12, '0')}`;
+      await db('events').insert({
+        ...input,
+        id,
+        start_time: new Date(start_time).toISOString(),
+        participants: '[]',
+        metadata: JSON.stringify(metadata),
+      });
+      return (await eventModel.findById(id))!;
+    });
+
+    const { event } = await ingest({
+      summary: 'Maybe a call with Priya about the lease',
+      confidence: 0.4,
+      entities: [{ type: 'person', value: 'Priya' }],
+      action_items: [{ text: 'Send the lease draft', priority: 'high' }],
+    });
+    const { event: sure } = await ingest({
+      summary: 'Invoice received from Globex',
+      confidence: 0.9,
+      entities: [{ type: 'organization', value: 'Globex' }],
+      action_items: [{ text: 'Pay the invoice', priority: 'medium' }],
+    });
+
+    expect(event.verification_status).toBe('unverified');
+    expect(sure.verification_status).toBe('verified');
+
+    const { items, total } = await review.queue();
+    expect(total).toBe(3);
+    expect(items.map(item => [item.type, item.title]).sort()).toEqual([
+      ['entity', 'Priya'],
+      ['event', 'Maybe a call with Priya about the lease'],
+      ['task', 'Send the lease draft'],
+    ]);
+    expect(items.every(item => item.confidence === 0.4 && item.source_event_id === event.id)).toBe(true);
+    expect((await review.queue({ type: 'task' })).items).toHaveLength(1);
+
+    // Decisions are not sealed, so the captured text stays out of them
+    const { decision } = await review.approve('event', event.id as string);
+    expect(decision.original).toMatchObject({ id: event.id, type: event.type });
+    expect(JSON.stringify(decision.original)).not.toMatch(/captured text|call with Priya/);
+  });
+
+  test('records approvals, edits and rejections', async () => {
+    const task = await taskModel.create({
+      title: 'Send the lease draft',
+      status: 'pending',
+      priority: 'high',
+      metadata: { extraction_confidence: 0.5 },
+      verification_status: 'unverified',
+    });
+    const entity = await entityModel.create({ name: 'Pria', type: 'person', verification_status: 'unverified' });
+    const other = await taskModel.create({ title: 'Water the plants', status: 'pending', priority: 'low', metadata: {}, verification_status: 'unverified' });
+
+    const edited = await review.edit('entity', entity.id as string, { name: 'Priya' });
+    expect(edited.item).toMatchObject({ name: 'Priya', verification_status: 'verified' });
+    expect(edited.decision).toMatchObject({ decision: 'edited', changes: { name: 'Priya' }, original: { name: 'Pria' } });
+
+    const approved = await review.approve('task', task.id as string);
+    expect(approved.decision).toMatchObject({ item_type: 'task', decision: 'approved', confidence: 0.5 });
+    await expect(review.approve('task', task.id as string)).rejects.toThrow(/not awaiting verification/);
+    await expect(review.edit('task', other.id as string, { owner: 'me' })).rejects.toThrow(/Invalid task changes/);
+
+    await review.reject('task', other.id as string, 'Not a task');
+    expect(await taskModel.findById(other.id as string)).toBeNull();
+    expect(await review.queue()).toEqual({ items: [], total: 0 });
+
+    expect((await decisionModel.list({ decision: 'rejected' }))[0]).toMatchObject({ item_id: other.id, reason: 'Not a task' });
+    expect(await decisionModel.stats()).toMatchObject({
+      task: { approved: 1, edited: 0, rejected: 1 },
+      entity: { approved: 0, edited: 1, rejected: 0 },
+    });
+  });
+
+  test('down-weights unverified memories and leaves out rejected ones', async () => {
+    const capture = (id: string, verification_status: string) => ({
+      id,
+      type: 'email',
+      title: `Shipment ZX-55120 (${verification_status})`,
+      description: 'Order ZX-55120 shipped to the warehouse.',
+      start_time: new Date().toISOString(),
+      metadata: '{}',
+      verification_status,
+    });
+    await db('events').insert([capture(GUESSED, 'unverified'), capture(CONFIRMED, 'verified'), capture(WRONG, 'rejected')]);
+
+    const service = new RetrievalService(eventModel, entityModel, taskModel, undefined, new HeuristicReranker(), undefined, new KeywordIndex(db));
+    const results = await service.retrieve('ZX-55120', { mode: 'keyword', limit: 5 });
+    expect(results.map(result => result.id)).toEqual([CONFIRMED, GUESSED]);
+    expect(results[1].breakdown.verification).toBe(UNVERIFIED_WEIGHT);
+
+    const verifiedOnly = await service.retrieve('ZX-55120', { mode: 'keyword', limit: 5, unverified: 'exclude' });
+    expect(verifiedOnly.map(result => result.id)).toEqual([CONFIRMED]);
+  });
+});
@@ -0,0 +1,144 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { CommitmentModel } from '../models/CommitmentModel';
+import { EventModel, type Event } from '../models/EventModel';
+import { FactModel } from '../models/FactModel';
+import { SessionModel } from '../models/SessionModel';
+import { TaskModel } from '../models/TaskModel';
+import { SessionService, continuesSession, type SessionNotification } from '../services/SessionService';
+import { createTestDb } from './helpers/db';
+
+const ALICE = '6f1d2c3b-4a5e-4f60-8a7b-9c0d1e2f3a4b';
+const BOB = '0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d';
+const MINUTE = 60 * 1000;
+
+describe('sessions', () => {
+  let db: Knex;
+  let sessionModel: SessionModel;
+  let taskModel: TaskModel;
+  let factModel: FactModel;
+  let commitmentModel: CommitmentModel;
+  let notifications: SessionNotification[];
+  let service: SessionService;
+  let counter = 0;
+
+  // Events are inserted directly so no embeddings are computed
+  const capture = async (minute: number, title: string, metadata: Record<string, unknown> = {}, type = 'other') => {
+    const id = `00000000-0000-4000-8000-${String(++counter).padStart(12, '0')}`;
+    const start_time = new Date(Date.UTC(2026, 9, 19, 9, 0) + minute * MINUTE).toISOString();
+    await db('events').insert({ id, type, title, description: title, start_time, participants: '[]', metadata: JSON.stringify(metadata) });
+    return { id, type, title, description: title, start_time, metadata } as Event;
+  };
+
+  beforeEach(async () => {
+    db = await createTestDb();
+
+    const graphStore = new SqlGraphStore(db);
+    sessionModel = new SessionModel(db);
+    taskModel = new TaskModel(db, graphStore);
+    factModel = new FactModel(db);
+    commitmentModel = new CommitmentModel(db);
+    notifications = [];
+    service = new SessionService(
+      sessionModel,
+      new EventModel(db, graphStore),
+      { taskModel, commitmentModel, factModel },
+      undefined,
+      notification => notifications.push(notification),
+      { gapMinutes: 10 }
+    );
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('continues a session within the gap unless the app changes without shared participants', () => {
+    const session = { end_time: '2026-10-19T09:00:00.000Z', app_context: 'Zoom', participant_ids: [ALICE] };
+    const at = (minutes: number) => Date.parse('2026-10-19T09:00:00.000Z') + minutes * MINUTE;
+    const gap = 10 * MINUTE;
+
+    expect(continuesSession(session, at(5), { app: 'zoom' }, gap)).toBe(true);
+    expect(continuesSession(session, at(5), {}, gap)).toBe(true);
+    expect(continuesSession(session, at(11), { app: 'Zoom' }, gap)).toBe(false);
+    expect(continuesSession(session, at(5), { app: 'Notion' }, gap)).toBe(false);
+    expect(continuesSession(session, at(5), { app: 'Notion', participants: [BOB, ALICE] }, gap)).toBe(true);
+  });
+
+  test('groups captures by gap, app and participants', async () => {
+    const call = await service.assign(await capture(0, 'Standup with Alice', { appName: 'Zoom' }), { participants: [ALICE] });
+    expect(call).toMatchObject({ kind: 'meeting', title: 'Meeting in Zoom', event_count: 1, status: 'open' });
+
+    // Same window captured again: counted, but the transcript is not repeated
+    await service.assign(await capture(1, 'Standup with Alice', { appName: 'Zoom' }));
+    // Notes about Alice in another app belong to the call
+    await service.assign(await capture(3, 'Notes on the release', { appName: 'Notion' }), { participants: [ALICE] });
+    // Unrelated work in another app starts its own session
+    const editor = await service.assign(await capture(4, 'Editing budget.xlsx', { appName: 'Excel' }));
+    expect(editor.id).not.toBe(call.id);
+    expect(editor).toMatchObject({ kind: 'work', title: 'Work session in Excel' });
+
+    // Back in the call within the gap, then again after a long break
+    const back = await service.assign(await capture(12, 'Standup wrap-up', { appName: 'Zoom' }));
+    expect(back.id).toBe(call.id);
+    const later = await service.assign(await capture(40, 'Standup wrap-up', { appName: 'Zoom' }));
+    expect(later.id).not.toBe(call.id);
+
+    const session = await sessionModel.findById(call.id as string);
+    expect(session).toMatchObject({ event_count: 4, participant_ids: [ALICE], end_time: '2026-10-19T09:12:00.000Z' });
+    expect(session?.transcript.split('\n')).toEqual([
+      '[2026-10-19T09:00:00.000Z] Standup with Alice',
+      '[2026-10-19T09:03:00.000Z] Notes on the release',
+      '[2026-10-19T09:12:00.000Z] Standup wrap-up',
+    ]);
+    expect((await db('events').where({ session_id: call.id })).length).toBe(4);
+  });
+
+  test('closes quiet sessions and asks to review what they captured', async () => {
+    const first = await capture(0, 'Budget call', { source: 'audio', appName: 'Teams' });
+    const session = await service.assign(first);
+    await service.assign(await capture(2, 'Budget call follow-up'));
+    const quiet = await service.assign(await capture(1, 'Reading email', { appName: 'Mail' }));
+
+    await taskModel.create({ title: 'Send forecast', status: 'pending', priority: 'medium', related_event_id: first.id, metadata: {} });
+    await factModel.assert({ statement_text: 'The budget is frozen', source_event_id: first.id });
+    await commitmentModel.assert({ statement_text: 'Bob will share the deck', debtor_name: 'Bob', user_role: 'creditor', source_event_id: first.id });
+
+    // The call's last capture is still within the gap
+    expect(await service.tick(new Date('2026-10-19T09:11:30.000Z'))).toBe(1);
+    expect(await sessionModel.findById(quiet.id as string)).toMatchObject({ status: 'closed', review_status: null });
+    expect(notifications).toEqual([]);
+
+    expect(await service.tick(new Date('2026-10-19T09:12:30.000Z'))).toBe(1);
+    const closed = await sessionModel.findById(session.id as string);
+    expect(closed).toMatchObject({
+      kind: 'meeting',
+      status: 'closed',
+      review_status: 'pending',
+      summary: 'Budget call; Budget call follow-up',
+    });
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].data).toMatchObject({ item_count: 3, message: 'Captured 3 items — review?' });
+  });
+
+  test('keeps accepted items and deletes the discarded ones', async () => {
+    const event = await capture(0, 'Planning meeting', {}, 'meeting');
+    const session = await service.assign(event);
+    const keep = await taskModel.create({ title: 'Book the room', status: 'pending', priority: 'medium', related_event_id: event.id, metadata: {} });
+    const drop = await taskModel.create({ title: 'Buy snacks', status: 'pending', priority: 'low', related_event_id: event.id, metadata: {} });
+    const { fact } = await factModel.assert({ statement_text: 'Planning happens on Mondays', source_event_id: event.id });
+
+    await expect(service.review(session.id as string, { action: 'accept' })).rejects.toThrow(/closed/);
+    expect((await service.close(session.id as string)).item_count).toBe(3);
+
+    const accepted = await service.review(session.id as string, { action: 'accept', discard: [drop.id as string] });
+    expect(accepted).toMatchObject({ kept: 2, discarded: 1, session: { review_status: 'accepted' } });
+    expect(await taskModel.findById(keep.id as string)).not.toBeNull();
+    expect(await taskModel.findById(drop.id as string)).toBeNull();
+
+    const discarded = await service.review(session.id as string, { action: 'discard' });
+    expect(discarded).toMatchObject({ kept: 0, discarded: 2, session: { review_status: 'discarded' } });
+    expect(await factModel.findById(fact.id as string)).toBeNull();
+    expect((await service.getReview(session.id as string)).item_count).toBe(0);
+  });
+});
@@ -0,0 +1,184 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import type { EventProcessingService } from '../services/EventProcessingService';
+import { WebSocketService, type ChannelNotification } from '../services/WebSocketService';
+
+// Collects what a client receives, so tests can wait for the next message
+class TestClient {
+  private received: any[] = [];
+  private waiting: Array<(message: any) => void> = [];
+
+  constructor(readonly socket: WebSocket) {
+    socket.on('message', data => {
+      const message = JSON.parse(data.toString());
+      const resolve = this.waiting.shift();
+      if (resolve) resolve(message);
+      else this.received.push(message);
+    });
+  }
+
+  static async connect(url: string): Promise<TestClient> {
+    const socket = new WebSocket(url);
+    await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+    return new TestClient(socket);
+  }
+
+  send(message: Record<string, unknown>) {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  next(): Promise<any> {
+    const message = this.received.shift();
+    return message ? Promise.resolve(message) : new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  // Nothing more arrives once a ping sent after it comes back
+  async drained(): Promise<void> {
+    await new Promise(resolve => this.socket.once('pong', resolve).ping());
+    expect(this.received).toEqual([]);
+  }
+}
+
+const taskDue = (id: string, priority: string): ChannelNotification => ({
+  type: 'task:due',
+  data: { task: { id, title: `Task ${id}`, priority }, due_at: '2026-10-19T12:00:00.000Z', minutes_left: 30 },
+  timestamp: '2026-10-19T11:30:00.000Z',
+});
+
+describe('WebSocket subscriptions', () => {
+  let server: Server;
+  let service: WebSocketService;
+  let url: string;
+  let locked: boolean;
+  const clients: TestClient[] = [];
+
+  const connect = async () => {
+    const client = await TestClient.connect(url);
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    server = createServer();
+    locked = false;
+    service = new WebSocketService(server, {} as EventProcessingService, { historySize: 3, isLocked: () => locked });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `ws://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.socket.close());
+    await service.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('delivers only the notifications matching a subscription\'s channel and filter', async () => {
+    const urgent = await connect();
+    const sessions = await connect();
+
+    urgent.send({ type: 'subscribe', id: 'urgent', channel: 'task:due', filter: { priority: ['high', 'urgent'] } });
+    expect(await urgent.next()).toMatchObject({ type: 'subscribed', subscription: 'urgent', seq: 0, complete: true });
+    sessions.send({ type: 'subscribe', channel: 'session:review' });
+    await sessions.next();
+
+    service.publish(taskDue('t1', 'low'));
+    service.publish(taskDue('t2', 'high'));
+    service.publish({ type: 'event:progress', data: { id: 'capture-1', stage: 'completed' }, timestamp: '2026-10-19T11:30:00.000Z' });
+
+    expect(await urgent.next()).toMatchObject({ type: 'task:due', seq: 2, subscriptions: ['urgent'], data: { task: { id: 't2' } } });
+    await urgent.drained();
+    await sessions.drained();
+
+    urgent.send({ type: 'unsubscribe', subscription: 'urgent' });
+    expect(await urgent.next()).toMatchObject({ type: 'unsubscribed', subscription: 'urgent' });
+    service.publish(taskDue('t3', 'high'));
+    await urgent.drained();
+  });
+
+  test('rejects filters the channel does not support', async () => {
+    const client = await connect();
+    client.send({ type: 'subscribe', channel: 'event:progress', filter: { priority: 'high' } });
+
+    const reply = await client.next();
+    expect(reply).toMatchObject({ type: 'error', error: 'Invalid subscription' });
+    expect(reply.issues[0].path).toEqual(['filter', 'priority']);
+  });
+
+  test('replays what a reconnecting client missed, and says when history ran out', async () => {
+    const first = await connect();
+    first.send({ type: 'subscribe', id: 'progress', channel: 'event:progress', filter: { id: 'capture-1' } });
+    const { stream } = await first.next();
+    const progress = (id: string, stage: string): ChannelNotification =>
+      ({ type: 'event:progress', data: { id, stage }, timestamp: '2026-10-19T11:30:00.000Z' });
+
+    service.publish(progress('capture-1', 'queued'));
+    const { seq: lastSeen } = await first.next();
+    first.socket.close();
+
+    service.publish(progress('capture-1', 'extracting'));
+    service.publish(progress('capture-2', 'queued'));
+    service.publish(progress('capture-1', 'stored'));
+
+    const resumed = await connect();
+    resumed.send({ type: 'subscribe', id: 'progress', channel: 'event:progress', filter: { id: 'capture-1' }, since: lastSeen, stream });
+    expect(await resumed.next()).toMatchObject({ type: 'subscribed', seq: 4, replayed: 2, complete: true });
+    expect((await resumed.next()).data.stage).toBe('extracting');
+    expect((await resumed.next()).data.stage).toBe('stored');
+
+    // Only the last three are kept, so a client that saw nothing has gaps
+    const late = await connect();
+    late.send({ type: 'subscribe', channel: 'event:progress', since: 0, stream });
+    expect(await late.next()).toMatchObject({ replayed: 3, complete: false });
+
+    // Numbers from another run of the service mean nothing here
+    const restarted = await connect();
+    restarted.send({ type: 'subscribe', channel: 'event:progress', since: 3, stream: 'an-earlier-run' });
+    expect(await restarted.next()).toMatchObject({ replayed: 3, complete: false });
+  });
+
+  test('refuses captures while memory is locked, and resumes subscriptions without a replay', async () => {
+    const client = await connect();
+    client.send({ type: 'subscribe', id: 'progress', channel: 'event:progress' });
+    const { stream } = await client.next();
+    service.publish({ type: 'event:progress', data: { id: 'capture-0', stage: 'queued' }, timestamp: '2026-10-19T11:30:00.000Z' });
+    const { seq: lastSeen } = await client.next();
+    service.publish({ type: 'event:progress', data: { id: 'capture-0', stage: 'stored' }, timestamp: '2026-10-19T11:30:00.000Z' });
+    await client.next();
+    locked = true;
+
+    client.send({ type: 'process_event', content: 'Call Pria about the contract', metadata: { id: 'capture-1' } });
+    expect(await client.next()).toMatchObject({ type: 'error', code: 'LOCKED', id: 'capture-1' });
+
+    // A reconnecting client still gets its subscription, and is told to reload
+    const resumed = await connect();
+    resumed.send({ type: 'subscribe', id: 'progress', channel: 'event:progress', since: lastSeen, stream });
+    expect(await resumed.next()).toMatchObject({ type: 'subscribed', subscription: 'progress', replayed: 0, complete: false });
+    await resumed.drained();
+
+    service.publish({ type: 'event:progress', data: { id: 'capture-2', stage: 'queued' }, timestamp: '2026-10-19T11:31:00.000Z' });
+    expect(await resumed.next()).toMatchObject({ subscriptions: ['progress'], data: { id: 'capture-2' } });
+  });
+
+  test('treats a position without its stream as unknown', async () => {
+    const client = await connect();
+    service.publish(taskDue('task-1', 'high'));
+
+    client.send({ type: 'subscribe', channel: 'task:due', since: 1 });
+    expect(await client.next()).toMatchObject({ type: 'subscribed', replayed: 1, complete: false });
+    expect(await client.next()).toMatchObject({ data: { task: { id: 'task-1' } } });
+  });
+
+  test('matches email senders whatever the case of the filter', async () => {
+    const client = await connect();
+    client.send({ type: 'subscribe', id: 'pria', channel: 'email:received', filter: { from: ['Pria@Example.com'] } });
+    await client.next();
+
+    service.publish({
+      type: 'email:received',
+      data: { email: { id: 'msg-1', thread_id: 'thread-1', from: { address: 'PRIA@example.com' } } },
+      timestamp: '2026-10-19T11:30:00.000Z',
+    });
+    expect(await client.next()).toMatchObject({ subscriptions: ['pria'], data: { email: { id: 'msg-1' } } });
+  });
+});
@@ -0,0 +1,179 @@
+import { Knex } from 'knex';
+import { Relationship, int, type Session } from 'neo4j-driver';
+import { Neo4jGraphStore } from '../db/graph/neo4jStore';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { ValidationError } from '../models/BaseModel';
+import { TaskModel, type TaskStatus } from '../models/TaskModel';
+import { createTestDb } from './helpers/db';
+
+describe('task dependencies', () => {
+  let db: Knex;
+  let graphStore: SqlGraphStore;
+  let taskModel: TaskModel;
+
+  const createTask = async (title: string, extra: { status?: TaskStatus; parent_id?: string } = {}, dependsOn?: string[]) =>
+    taskModel.create({
+      title,
+      status: extra.status ?? 'pending',
+      priority: 'medium',
+      parent_id: extra.parent_id,
+      metadata: {},
+    }, undefined, { dependsOn });
+
+  const statusOf = async (id: string) => (await taskModel.findById(id))?.status;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    graphStore = new SqlGraphStore(db);
+    taskModel = new TaskModel(db, graphStore);
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('blocks a task until its dependencies are done', async () => {
+    const design = await createTask('Design the schema');
+    const review = await createTask('Review the schema');
+    const build = await createTask('Build the API', { status: 'in_progress' }, [design.id as string]);
+    expect(build).toMatchObject({ status: 'blocked', status_before_block: 'in_progress' });
+
+    await taskModel.addDependency(build.id as string, review.id as string);
+    await taskModel.update(design.id as string, { status: 'completed' });
+    // Still waiting on the review
+    expect(await statusOf(build.id as string)).toBe('blocked');
+
+    await taskModel.update(review.id as string, { status: 'cancelled' });
+    expect(await taskModel.findById(build.id as string)).toMatchObject({ status: 'in_progress', status_before_block: null });
+
+    // Reopening a dependency blocks the task again
+    await taskModel.update(design.id as string, { status: 'pending' });
+    expect(await statusOf(build.id as string)).toBe('blocked');
+    await taskModel.removeDependency(build.id as string, design.id as string);
+    expect(await statusOf(build.id as string)).toBe('in_progress');
+    // Blocking and unblocking are part of the task's history
+    expect((await taskModel.getVersions(build.id as string)).map(version => version.data.status))
+      .toEqual(['in_progress', 'blocked', 'in_progress', 'blocked', 'in_progress']);
+
+    const edges = await graphStore.getEdges({ label: 'Task', id: build.id as string }, { types: ['DEPENDS_ON'], direction: 'out' });
+    expect(edges.map(edge => edge.target)).toEqual([review.id]);
+  });
+
+  test('rejects dependencies and parents that would form a cycle', async () => {
+    const a = await createTask('A');
+    const b = await createTask('B', {}, [a.id as string]);
+    const c = await createTask('C', { parent_id: b.id as string });
+
+    await expect(taskModel.addDependency(a.id as string, a.id as string)).rejects.toThrow(ValidationError);
+    await expect(taskModel.addDependency(a.id as string, b.id as string)).rejects.toThrow(/cycle/);
+    // C waits on whatever its parent B waits on
+    await expect(taskModel.addDependency(a.id as string, c.id as string)).rejects.toThrow(/cycle/);
+    await expect(taskModel.update(b.id as string, { parent_id: c.id as string })).rejects.toThrow(/cycle/);
+    await expect(taskModel.update(b.id as string, { parent_id: b.id as string })).rejects.toThrow(ValidationError);
+  });
+
+  test('subtasks inherit their ancestors\' dependencies', async () => {
+    const approval = await createTask('Get budget approval');
+    const project = await createTask('Launch project', {}, [approval.id as string]);
+    const subtask = await createTask('Book venue', { parent_id: project.id as string });
+    const nested = await createTask('Pay deposit', { parent_id: subtask.id as string });
+    const loose = await createTask('Write invitations');
+
+    expect(await statusOf(subtask.id as string)).toBe('blocked');
+    expect(await statusOf(nested.id as string)).toBe('blocked');
+
+    // Moving a task under a blocked parent blocks it; moving it out unblocks it
+    await taskModel.update(loose.id as string, { parent_id: project.id as string });
+    expect(await statusOf(loose.id as string)).toBe('blocked');
+    await taskModel.update(loose.id as string, { parent_id: null });
+    expect(await statusOf(loose.id as string)).toBe('pending');
+
+    await taskModel.update(approval.id as string, { status: 'completed' });
+    expect(await statusOf(project.id as string)).toBe('pending');
+    expect(await statusOf(nested.id as string)).toBe('pending');
+  });
+
+  test('leaves tasks blocked by hand alone', async () => {
+    const dependency = await createTask('Wait for the contract');
+    const task = await createTask('Sign the contract', {}, [dependency.id as string]);
+
+    // Setting a status by hand takes the task out of automatic blocking
+    await taskModel.update(task.id as string, { status: 'blocked' });
+    await taskModel.update(dependency.id as string, { status: 'completed' });
+    expect(await taskModel.findById(task.id as string)).toMatchObject({ status: 'blocked', status_before_block: null });
+
+    // Deleting an unfinished dependency releases the task
+    const other = await createTask('Pick a date');
+    const event = await createTask('Schedule the event', {}, [other.id as string]);
+    await taskModel.softDeleteById(other.id as string);
+    expect(await statusOf(event.id as string)).toBe('pending');
+    await taskModel.restore(other.id as string);
+    expect(await statusOf(event.id as string)).toBe('blocked');
+  });
+
+  test('builds a task tree with dependencies and blockers', async () => {
+    const approval = await createTask('Get approval');
+    const root = await createTask('Plan offsite', {}, [approval.id as string]);
+    const first = await createTask('Book flights', { parent_id: root.id as string });
+    await createTask('Book hotel', { parent_id: root.id as string });
+    await createTask('Choose seats', { parent_id: first.id as string });
+
+    const tree = await taskModel.getTree(root.id as string);
+    expect(tree).toMatchObject({
+      task: { id: root.id, status: 'blocked' },
+      depends_on: [{ id: approval.id, title: 'Get approval', status: 'pending' }],
+      blocked_by: [{ id: approval.id }],
+    });
+    expect(tree?.subtasks.map(node => node.task.title)).toEqual(['Book flights', 'Book hotel']);
+    expect(tree?.subtasks[0]).toMatchObject({
+      depends_on: [],
+      blocked_by: [{ id: approval.id }],
+      subtasks: [{ task: { title: 'Choose seats' }, subtasks: [] }],
+    });
+
+    expect(await taskModel.getTree('00000000-0000-4000-8000-000000000000')).toBeNull();
+  });
+
+  test('removes dependency and subtask edges from Neo4j', async () => {
+    // Keeps relationships in memory and, like Cypher's {id: $id}, deletes
+    // only those whose id property matches
+    const relationships: Array<{ type: string; from: string; to: string; properties: Record<string, unknown> }> = [];
+    const tx = {
+      run: async (cypher: string, params: any) => {
+        if (cypher.includes('MERGE (a)')) {
+          const type = /\[r:(\w+)/.exec(cypher)![1];
+          for (const edge of params.edges) {
+            relationships.push({ type, from: edge.from, to: edge.to, properties: edge.id ? { ...edge.properties, id: edge.id } : edge.properties });
+          }
+        } else if (cypher.includes('DELETE r')) {
+          relationships.splice(0, relationships.length, ...relationships.filter(rel => rel.properties.id !== params.id));
+        } else if (cypher.includes('RETURN r')) {
+          const type = /\[r:(\w+)\]/.exec(cypher)![1];
+          return {
+            records: relationships.flatMap((rel, i) => rel.type === type && rel.from === params.id
+              ? [{ get: (key: string) => ({ r: new Relationship(int(i), int(0), int(0), rel.type, rel.properties, `5:${i}`), source: rel.from, target: rel.to })[key] }]
+              : []),
+          };
+        }
+        return { records: [] };
+      },
+    };
+    const session = {
+      writeTransaction: async (work: (tx: any) => Promise<unknown>) => work(tx),
+      readTransaction: async (work: (tx: any) => Promise<unknown>) => work(tx),
+    } as unknown as Session;
+    taskModel = new TaskModel(db, new Neo4jGraphStore(session));
+    const targets = (type: string, from: string) =>
+      relationships.filter(rel => rel.type === type && rel.from === from).map(rel => rel.to);
+
+    const design = await createTask('Design the schema');
+    const review = await createTask('Review the schema');
+    const build = await createTask('Build the API', { parent_id: design.id as string }, [design.id as string]);
+    await taskModel.addDependency(build.id as string, review.id as string);
+
+    await taskModel.removeDependency(build.id as string, design.id as string);
+    await taskModel.update(build.id as string, { parent_id: review.id as string });
+    expect(targets('DEPENDS_ON', build.id as string)).toEqual([review.id]);
+    expect(targets('SUBTASK_OF', build.id as string)).toEqual([review.id]);
+  });
+});
@@ -0,0 +1,128 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { ValidationError } from '../models/BaseModel';
+import {
+  TaskCreateSchema,
+  TaskModel,
+  TaskUpdateSchema,
+  type TaskListQuery,
+  type TaskPriority,
+  type TaskStatus,
+} from '../models/TaskModel';
+import { createTestDb } from './helpers/db';
+
+const ENTITY_ID = '6f1d2c3b-4a5e-4f60-8a7b-9c0d1e2f3a4b';
+
+describe('task listing', () => {
+  let db: Knex;
+  let taskModel: TaskModel;
+
+  const createTask = (title: string, fields: {
+    status?: TaskStatus;
+    priority?: TaskPriority;
+    due_date?: string;
+    description?: string;
+    related_entity_id?: string;
+  } = {}) => taskModel.create({
+    title,
+    status: fields.status ?? 'pending',
+    priority: fields.priority ?? 'medium',
+    due_date: fields.due_date,
+    description: fields.description,
+    related_entity_id: fields.related_entity_id,
+    metadata: {},
+  });
+
+  const titles = async (query: TaskListQuery) => (await taskModel.list(query)).data.map(task => task.title);
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    taskModel = new TaskModel(db, new SqlGraphStore(db));
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('filters by status, priority, entity, due window and text', async () => {
+    await createTask('File taxes', { priority: 'urgent', due_date: '2026-10-20T09:00:00Z', related_entity_id: ENTITY_ID });
+    await createTask('Book dentist', { status: 'in_progress', due_date: '2026-10-25T09:00:00Z' });
+    await createTask('Water plants', { status: 'completed', priority: 'low', description: 'The 50% watering can' });
+    await createTask('Renew insurance', { priority: 'high', due_date: '2026-11-02T09:00:00Z' });
+
+    const sorted = { sort_by: 'title', sort_order: 'asc' } as const;
+    expect(await titles({ ...sorted, status: 'pending,in_progress' })).toEqual(['Book dentist', 'File taxes', 'Renew insurance']);
+    expect(await titles({ ...sorted, priority: ['high', 'urgent'] })).toEqual(['File taxes', 'Renew insurance']);
+    expect(await titles({ related_entity_id: ENTITY_ID })).toEqual(['File taxes']);
+    expect(await titles({ ...sorted, due_after: '2026-10-20T09:00:00Z', due_before: '2026-11-02T09:00:00Z' }))
+      .toEqual(['Book dentist', 'File taxes']);
+    expect(await titles({ q: 'DENTIST' })).toEqual(['Book dentist']);
+    // LIKE wildcards in the query are matched literally
+    expect(await titles({ q: '50%' })).toEqual(['Water plants']);
+    expect(await titles({ q: '_' })).toEqual([]);
+
+    await expect(taskModel.list({ status: 'done' })).rejects.toThrow(ValidationError);
+    await expect(taskModel.list({ limit: '500' })).rejects.toThrow(ValidationError);
+  });
+
+  test('pages through every task once with a cursor', async () => {
+    const priorities: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+    for (let i = 0; i < 11; i++) {
+      await createTask(`Task ${i}`, {
+        priority: priorities[i % 4],
+        due_date: i % 3 === 0 ? undefined : `2026-10-${String(20 + (i % 5)).padStart(2, '0')}T09:00:00Z`,
+      });
+    }
+
+    for (const sort_by of ['priority', 'due_date', 'created_at'] as const) {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page = await taskModel.list({ sort_by, sort_order: 'desc', limit: 4, cursor });
+        seen.push(...page.data.map(task => task.id as string));
+        cursor = page.pagination.next_cursor ?? undefined;
+        expect(page.pagination.has_more).toBe(cursor !== undefined);
+        pages++;
+      } while (cursor);
+
+      expect(pages).toBe(3);
+      expect(new Set(seen).size).toBe(11);
+    }
+
+    // Urgent first; tasks without a due date sort as due last
+    expect((await taskModel.list({ sort_by: 'priority', limit: 3 })).data.map(task => task.priority))
+      .toEqual(['urgent', 'urgent', 'high']);
+    const byDue = (await taskModel.list({ sort_by: 'due_date', sort_order: 'asc' })).data;
+    expect(byDue[byDue.length - 1].due_date).toBeNull();
+
+    const first = await taskModel.list({ sort_by: 'priority', limit: 4 });
+    await expect(taskModel.list({ sort_by: 'title', cursor: first.pagination.next_cursor as string }))
+      .rejects.toThrow(/sort order/);
+    await expect(taskModel.list({ cursor: 'not-a-cursor' })).rejects.toThrow(/Invalid cursor/);
+  });
+
+  test('soft deletes and restores tasks', async () => {
+    const kept = await createTask('Keep me');
+    const removed = await createTask('Remove me');
+
+    expect(await taskModel.softDeleteById(removed.id as string)).toBe(true);
+    expect(await taskModel.softDeleteById(removed.id as string)).toBe(false);
+    expect(await taskModel.findById(removed.id as string)).toBeNull();
+    expect(await titles({})).toEqual(['Keep me']);
+    expect(await titles({ deleted: 'only' })).toEqual(['Remove me']);
+    expect((await taskModel.findAll()).data.map(task => task.id)).toEqual([kept.id]);
+
+    expect(await taskModel.restore(removed.id as string)).toMatchObject({ title: 'Remove me', deleted_at: null });
+    expect(await taskModel.restore(removed.id as string)).toBeNull();
+    expect(await titles({ sort_by: 'title', sort_order: 'asc' })).toEqual(['Keep me', 'Remove me']);
+  });
+
+  test('shares one schema between requests and rows', () => {
+    expect(TaskCreateSchema.parse({ title: 'Plan trip' })).toMatchObject({ status: 'pending', priority: 'medium', metadata: {} });
+    expect(TaskCreateSchema.safeParse({ title: '' }).success).toBe(false);
+    expect(TaskUpdateSchema.parse({ status: 'blocked' })).toEqual({ status: 'blocked' });
+    expect(TaskUpdateSchema.safeParse({ status: 'failed' }).success).toBe(false);
+    expect(TaskUpdateSchema.safeParse({ assignee_id: 'someone' }).success).toBe(false);
+  });
+});
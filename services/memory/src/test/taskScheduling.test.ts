@@ -0,0 +1,152 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { ValidationError } from '../models/BaseModel';
+import { TaskModel } from '../models/TaskModel';
+import { TaskSchedulerService, type TaskNotification } from '../services/TaskSchedulerService';
+import { nextOccurrence, parseRecurrenceRule } from '../utils/recurrence';
+import { createTestDb } from './helpers/db';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+describe('recurrence rules', () => {
+  const next = (rule: string, after: string, index = 0) =>
+    nextOccurrence(parseRecurrenceRule(rule), new Date(after), index)?.toISOString() ?? null;
+
+  test('steps through daily, weekly, monthly and yearly series', () => {
+    expect(next('FREQ=DAILY;INTERVAL=2', '2026-10-19T09:00:00Z')).toBe('2026-10-21T09:00:00.000Z');
+    // Monday 19 October: Wednesday of the same week, then Monday two weeks on
+    expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', '2026-10-19T09:00:00Z')).toBe('2026-10-21T09:00:00.000Z');
+    expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', '2026-10-21T09:00:00Z')).toBe('2026-11-02T09:00:00.000Z');
+    expect(next('RRULE:FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-31T17:00:00Z')).toBe('2026-02-28T17:00:00.000Z');
+    expect(next('FREQ=MONTHLY', '2026-01-31T17:00:00Z')).toBe('2026-03-31T17:00:00.000Z');
+    expect(next('FREQ=YEARLY', '2028-02-29T08:00:00Z')).toBe('2032-02-29T08:00:00.000Z');
+  });
+
+  test('ends series at COUNT and UNTIL and rejects unsupported rules', () => {
+    expect(next('FREQ=DAILY;COUNT=3', '2026-10-20T09:00:00Z', 1)).toBe('2026-10-21T09:00:00.000Z');
+    expect(next('FREQ=DAILY;COUNT=3', '2026-10-21T09:00:00Z', 2)).toBeNull();
+    expect(next('FREQ=DAILY;UNTIL=20261020', '2026-10-20T09:00:00Z')).toBeNull();
+
+    expect(() => parseRecurrenceRule('FREQ=HOURLY')).toThrow(ValidationError);
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYDAY=1MO')).toThrow(/BYDAY/);
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow(/BYSETPOS/);
+  });
+});
+
+describe('task scheduling', () => {
+  let db: Knex;
+  let taskModel: TaskModel;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    taskModel = new TaskModel(db, new SqlGraphStore(db));
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  test('completing a recurring task creates the next occurrence', async () => {
+    const due = new Date(Date.now() + HOUR_MS);
+    const task = await taskModel.create({
+      title: 'Send weekly report',
+      status: 'pending',
+      priority: 'high',
+      due_date: due.toISOString(),
+      recurrence_rule: 'FREQ=WEEKLY;COUNT=2',
+      reminder_offsets: [60, 10],
+      metadata: {},
+    });
+    await taskModel.update(task.id as string, { priority: 'urgent', escalation_level: 1 });
+
+    const completed = await taskModel.update(task.id as string, { status: 'completed' });
+    expect(completed?.completed_at).toBeTruthy();
+
+    const next = await taskModel.findNextOccurrence(task.id as string);
+    expect(next).toMatchObject({
+      title: 'Send weekly report',
+      status: 'pending',
+      priority: 'high',
+      recurrence_index: 1,
+      reminder_offsets: [60, 10],
+      due_date: new Date(due.getTime() + 7 * 24 * HOUR_MS).toISOString(),
+    });
+
+    // COUNT=2: the series ends with the second occurrence
+    await taskModel.update(next!.id as string, { status: 'completed' });
+    expect(await taskModel.findNextOccurrence(next!.id as string)).toBeNull();
+
+    await expect(taskModel.create({
+      title: 'Bad rule',
+      status: 'pending',
+      priority: 'low',
+      recurrence_rule: 'FREQ=SECONDLY',
+      metadata: {},
+    })).rejects.toThrow(ValidationError);
+  });
+
+  test('sends reminders, overdue notices and escalates overdue tasks', async () => {
+    const notifications: TaskNotification[] = [];
+    const scheduler = new TaskSchedulerService(taskModel, notification => notifications.push(notification), {
+      reminderMinutes: [30],
+      escalationHours: 24,
+      escalationMaxPriority: 'high',
+    });
+
+    const start = new Date('2026-10-19T09:00:00Z');
+    const task = await taskModel.create({
+      title: 'Renew passport',
+      status: 'pending',
+      priority: 'low',
+      due_date: new Date(start.getTime() + HOUR_MS).toISOString(),
+      metadata: {},
+    });
+
+    expect(await scheduler.tick(start)).toEqual({ due: 0, overdue: 0, escalated: 0 });
+    expect(await scheduler.tick(new Date(start.getTime() + 35 * MINUTE_MS))).toMatchObject({ due: 1 });
+    expect(notifications[0]).toMatchObject({ type: 'task:due', data: { minutes_left: 25, task: { id: task.id } } });
+    // Each reminder is sent once
+    expect(await scheduler.tick(new Date(start.getTime() + 40 * MINUTE_MS))).toMatchObject({ due: 0 });
+
+    expect(await scheduler.tick(new Date(start.getTime() + 2 * HOUR_MS))).toEqual({ due: 0, overdue: 1, escalated: 0 });
+    expect(notifications[1]).toMatchObject({ type: 'task:overdue', data: { overdue_minutes: 60 } });
+    expect(await scheduler.tick(new Date(start.getTime() + 3 * HOUR_MS))).toMatchObject({ overdue: 0 });
+
+    // Two escalation steps overdue, capped at high
+    expect(await scheduler.tick(new Date(start.getTime() + 50 * HOUR_MS))).toEqual({ due: 0, overdue: 1, escalated: 1 });
+    expect(notifications[2].data.escalated).toEqual({ from: 'low', to: 'high' });
+    expect(await taskModel.findById(task.id as string)).toMatchObject({ priority: 'high', escalation_level: 2 });
+    expect(await scheduler.tick(new Date(start.getTime() + 74 * HOUR_MS))).toMatchObject({ overdue: 0, escalated: 0 });
+  });
+
+  test('snoozed tasks are silent until the snooze ends', async () => {
+    const notifications: TaskNotification[] = [];
+    const scheduler = new TaskSchedulerService(taskModel, notification => notifications.push(notification), {
+      reminderMinutes: [60],
+      escalationHours: 0,
+    });
+
+    const now = Date.now();
+    const task = await taskModel.create({
+      title: 'Call the landlord',
+      status: 'pending',
+      priority: 'medium',
+      due_date: new Date(now + 30 * MINUTE_MS).toISOString(),
+      metadata: {},
+    });
+    await scheduler.tick(new Date(now));
+    expect(notifications.map(n => n.type)).toEqual(['task:due']);
+
+    await taskModel.snooze(task.id as string, new Date(now + 10 * MINUTE_MS));
+    expect(await scheduler.tick(new Date(now + 5 * MINUTE_MS))).toMatchObject({ due: 0 });
+    expect(await scheduler.tick(new Date(now + 11 * MINUTE_MS))).toMatchObject({ due: 1 });
+
+    // Moving the due date resets the reminders
+    await taskModel.update(task.id as string, { due_date: new Date(now + 5 * HOUR_MS).toISOString() });
+    expect(await taskModel.findById(task.id as string)).toMatchObject({ reminded_at: null, snoozed_until: null });
+    expect(await scheduler.tick(new Date(now + HOUR_MS))).toMatchObject({ due: 0 });
+    expect(await scheduler.tick(new Date(now + 4 * HOUR_MS + 30 * MINUTE_MS))).toMatchObject({ due: 1 });
+    expect(notifications).toHaveLength(3);
+  });
+});
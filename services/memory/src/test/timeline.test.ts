@@ -0,0 +1,154 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { EventModel } from '../models/EventModel';
+import { EntityModel } from '../models/EntityModel';
+import { TaskModel } from '../models/TaskModel';
+import { FactModel } from '../models/FactModel';
+import {
+  TimelineService,
+  dedupeTimelineItems,
+  groupTimeline,
+  type TimelineItem,
+} from '../services/TimelineService';
+import { createTestDb } from './helpers/db';
+
+const ALICE = '7d7c3e0a-4b52-4d8e-9c1e-2f4a5b6c7d8e';
+const MERGED = '7d7c3e0a-4b52-4d8e-9c1e-2f4a5b6c7d8f';
+
+const item = (id: string, timestamp: string, title: string, extra: Partial<TimelineItem> = {}): TimelineItem => ({
+  id,
+  kind: 'event',
+  timestamp,
+  title,
+  entity_ids: [],
+  provenance: [{ table: 'events', id }],
+  ...extra,
+});
+
+describe('timeline helpers', () => {
+  test('merges the same occurrence and keeps every provenance', () => {
+    const items = dedupeTimelineItems([
+      item('task', '2026-10-17T09:00:00Z', 'Re: Budget follow-up', { kind: 'task', provenance: [{ table: 'tasks', id: 'task' }] }),
+      item('email', '2026-10-17T09:05:00Z', 'Budget follow-up', { kind: 'email' }),
+      item('later', '2026-10-17T11:00:00Z', 'Budget follow-up'),
+    ]);
+
+    expect(items.map(i => i.id)).toEqual(['email', 'later']);
+    expect(items[0].provenance.map(p => p.table)).toEqual(['events', 'tasks']);
+  });
+
+  test('merges events ingested twice from the same source record', () => {
+    const items = dedupeTimelineItems([
+      item('a', '2026-10-17T09:00:00Z', 'Call', { provenance: [{ table: 'events', id: 'a', source: 'gmail', source_id: 'm1' }] }),
+      item('b', '2026-10-17T12:00:00Z', 'Call with ACME', { provenance: [{ table: 'events', id: 'b', source: 'gmail', source_id: 'm1' }] }),
+    ]);
+
+    expect(items).toHaveLength(1);
+  });
+
+  test('splits sessions on gaps and explicit session ids', () => {
+    const [day] = groupTimeline([
+      item('a', '2026-10-17T09:00:00', 'One'),
+      item('b', '2026-10-17T09:20:00', 'Two'),
+      item('c', '2026-10-17T11:00:00', 'Three'),
+      item('d', '2026-10-17T11:05:00', 'Four', { session_id: 'standup' }),
+    ], 30);
+
+    expect(day.sessions.map(s => s.items.map(i => i.id))).toEqual([['a', 'b'], ['c'], ['d']]);
+    expect(day.sessions[2].id).toBe('standup');
+  });
+});
+
+describe('TimelineService', () => {
+  let db: Knex;
+  let service: TimelineService;
+  let models: [EventModel, EntityModel, TaskModel, FactModel];
+
+  beforeAll(async () => {
+    db = await createTestDb();
+
+    const graph = new SqlGraphStore(db);
+    const vectorStore = new InMemoryVectorStore();
+    models = [
+      new EventModel(db, graph, vectorStore),
+      new EntityModel(db, graph, vectorStore),
+      new TaskModel(db, graph),
+      new FactModel(db),
+    ];
+    service = new TimelineService(...models);
+
+    await db('entities').insert([
+      { id: ALICE, name: 'Alice Chen', type: 'person', metadata: '{}' },
+      { id: MERGED, name: 'A. Chen', type: 'person', metadata: '{}', deleted_at: '2026-10-17T00:00:00.000Z', merged_into: ALICE },
+    ]);
+    await db('events').insert([
+      {
+        id: '00000000-0000-4000-8000-000000000001',
+        type: 'meeting',
+        title: 'Q4 budget review',
+        start_time: '2026-10-15T09:00:00.000Z',
+        participants: JSON.stringify([{ entity_id: ALICE }]),
+        metadata: '{}',
+      },
+      {
+        id: '00000000-0000-4000-8000-000000000002',
+        type: 'email',
+        title: 'Lunch plans',
+        start_time: '2026-10-16T12:00:00.000Z',
+        participants: '[]',
+        metadata: '{}',
+      },
+    ]);
+    await db('tasks').insert({
+      id: '00000000-0000-4000-8000-000000000003',
+      title: 'Send the revised budget',
+      status: 'pending',
+      priority: 'high',
+      assignee_id: ALICE,
+      metadata: '{}',
+      created_at: '2026-10-15T09:30:00.000Z',
+    });
+    await db('facts').insert({
+      id: '00000000-0000-4000-8000-000000000004',
+      statement_text: 'Alice owns the annual budget',
+      subject_entity_id: ALICE,
+      metadata: '{}',
+      created_at: '2026-10-14T08:00:00.000Z',
+    });
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  test('orders events, tasks and facts about an entity by time', async () => {
+    const timeline = await service.build({ entity: 'alice chen' });
+
+    const items = timeline!.days.flatMap(day => day.sessions.flatMap(s => s.items));
+    expect(items.map(i => i.kind)).toEqual(['fact', 'event', 'task']);
+    expect(timeline!.entity?.id).toBe(ALICE);
+    expect(timeline!.chronology).toContain('Q4 budget review');
+    expect(timeline!.chronology).not.toContain('Lunch plans');
+  });
+
+  test('filters by topic and time window', async () => {
+    const timeline = await service.build({ topic: 'budget', from: new Date('2026-10-15T00:00:00Z') });
+
+    const ids = timeline!.days.flatMap(day => day.sessions.flatMap(s => s.items.map(i => i.title)));
+    expect(ids).toEqual(['Q4 budget review', 'Send the revised budget']);
+  });
+
+  test('finds an entity\'s events however many newer ones there are', async () => {
+    // Only one event per source is read, and the newest is not Alice's
+    const narrow = new TimelineService(...models, { maxRowsPerSource: 1 });
+    const timeline = await narrow.build({ entity: MERGED });
+
+    expect(timeline!.entity).toEqual({ id: ALICE, name: 'Alice Chen' });
+    expect(timeline!.chronology).toContain('Q4 budget review');
+  });
+
+  test('returns null for an unknown entity', async () => {
+    expect(await service.build({ entity: 'Nobody' })).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { ChromaVectorStore } from '../db/vector/chromaStore';
+import { LocalHashEmbeddingProvider } from '../db/vector/embeddings';
+import { toPgVector } from '../db/vector/pgvector';
+
+const collection = {
+  upsert: jest.fn(),
+  query: jest.fn(),
+  delete: jest.fn(),
+};
+
+jest.mock('../db/vector/chroma', () => ({
+  getCollectionName: (name: string) => `${name}_test`,
+  getOrCreateCollection: jest.fn(async () => collection),
+}));
+
+describe('ChromaVectorStore', () => {
+  const store = new ChromaVectorStore(new LocalHashEmbeddingProvider(8));
+
+  beforeEach(() => jest.clearAllMocks());
+
+  test('stores dates as epoch milliseconds and drops empty metadata', async () => {
+    const startTime = new Date('2026-10-19T09:00:00Z');
+
+    await store.upsert('events', [{
+      id: 'e1',
+      embedding: [1, 0],
+      metadata: { type: 'meeting', start_time: startTime, source: null },
+    }]);
+
+    expect(collection.upsert).toHaveBeenCalledWith({
+      ids: ['e1'],
+      embeddings: [[1, 0]],
+      metadatas: [{ type: 'meeting', start_time: startTime.getTime() }],
+      documents: [''],
+    });
+  });
+
+  test('translates filters and converts cosine distances to similarities', async () => {
+    collection.query.mockResolvedValue({
+      ids: [['e1', 'e2']],
+      distances: [[0.1, 0.6]],
+      metadatas: [[{ type: 'meeting' }, { type: 'meeting' }]],
+    });
+
+    const start = new Date('2026-10-01T00:00:00Z');
+    const matches = await store.query('events', {
+      embedding: [1, 0],
+      limit: 2,
+      filter: { equals: { type: 'meeting' }, range: { start_time: { gte: start } } },
+    });
+
+    expect(collection.query).toHaveBeenCalledWith(expect.objectContaining({
+      nResults: 2,
+      where: { $and: [{ type: { $eq: 'meeting' } }, { start_time: { $gte: start.getTime() } }] },
+    }));
+    expect(matches.map(match => match.id)).toEqual(['e1', 'e2']);
+    expect(matches[0].score).toBeCloseTo(0.9);
+    expect(matches[1].score).toBeCloseTo(0.4);
+  });
+});
+
+describe('toPgVector', () => {
+  test('serializes vectors in pgvector text format', () => {
+    expect(toPgVector([0.5, -1, 2])).toBe('[0.5,-1,2]');
+    expect(toPgVector([NaN, 1])).toBe('[0,1]');
+  });
+});
@@ -0,0 +1,112 @@
+import { Knex } from 'knex';
+import { SqlGraphStore } from '../db/graph/sqlStore';
+import { getEmbeddingFunction } from '../db/vector/chroma';
+import { InMemoryVectorStore } from '../db/vector/memoryStore';
+import { EntityModel } from '../models/EntityModel';
+import { EventModel } from '../models/EventModel';
+import { FactModel } from '../models/FactModel';
+import { TaskModel } from '../models/TaskModel';
+import { RetrievalService } from '../services/RetrievalService';
+import { createTestDb } from './helpers/db';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('row versioning', () => {
+  let db: Knex;
+  let factModel: FactModel;
+
+  beforeAll(async () => {
+    db = await createTestDb();
+    factModel = new FactModel(db);
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  test('reconstructs a record as it was at a past moment', async () => {
+    const beforeCreate = new Date();
+    await tick();
+    const fact = await factModel.create({
+      statement_text: 'Alice is VP Sales',
+      confidence: 0.6,
+      status: 'active',
+      version: 1,
+      metadata: {},
+    });
+    await tick();
+    const afterCreate = new Date();
+    await tick();
+    await factModel.update(fact.id as string, { confidence: 0.9 });
+    await tick();
+    const afterUpdate = new Date();
+    await tick();
+    await factModel.delete(fact.id as string);
+
+    expect(await factModel.findByIdAsOf(fact.id as string, beforeCreate)).toBeNull();
+    expect((await factModel.findByIdAsOf(fact.id as string, afterCreate))?.confidence).toBe(0.6);
+    expect((await factModel.findByIdAsOf(fact.id as string, afterUpdate))?.confidence).toBe(0.9);
+    expect(await factModel.findByIdAsOf(fact.id as string, new Date())).toBeNull();
+
+    const versions = await factModel.getVersions(fact.id as string);
+    expect(versions.map(version => version.operation)).toEqual(['create', 'update', 'delete']);
+    expect(versions.slice(0, 2).every(version => version.valid_to !== null)).toBe(true);
+    expect(versions[2].valid_to).toBeNull();
+  });
+
+  test('filters and pages the historical table', async () => {
+    await factModel.create({ statement_text: 'Bob is an analyst', confidence: 1, status: 'active', version: 1, metadata: {} });
+    const retracted = await factModel.create({ statement_text: 'Carol left', confidence: 1, status: 'active', version: 1, metadata: {} });
+    await tick();
+    const beforeRetraction = new Date();
+    await tick();
+    await factModel.update(retracted.id as string, { status: 'retracted' });
+
+    const then = await factModel.findAllAsOf(beforeRetraction, { status: 'active' });
+    const now = await factModel.findAllAsOf(new Date(), { status: 'active' });
+
+    expect(then.data.map(fact => fact.statement_text).sort()).toEqual(['Bob is an analyst', 'Carol left']);
+    expect(now.data.map(fact => fact.statement_text)).toEqual(['Bob is an analyst']);
+    expect(now.pagination.totalItems).toBe(1);
+
+    const page = await factModel.findAllAsOf(
+      beforeRetraction,
+      { status: ['active', 'retracted'] },
+      { page: 2, pageSize: 1, sortBy: 'statement_text', sortOrder: 'asc' }
+    );
+    expect(page.data.map(fact => fact.statement_text)).toEqual(['Carol left']);
+    expect(page.pagination).toMatchObject({ totalItems: 2, totalPages: 2, hasNextPage: false });
+  });
+
+  test('searches past events that newer, closer matches would crowd out', async () => {
+    const graph = new SqlGraphStore(db);
+    const vectorStore = new InMemoryVectorStore();
+    const service = new RetrievalService(
+      new EventModel(db, graph, vectorStore),
+      new EntityModel(db, graph, vectorStore),
+      new TaskModel(db, graph, vectorStore)
+    );
+    const query = 'budget forecast review';
+    const [embedding] = await getEmbeddingFunction().generate([query]);
+
+    const event = (id: number, createdAt: string) => ({
+      id: `00000000-0000-4000-8000-0000000000${String(id).padStart(2, '0')}`,
+      type: 'meeting',
+      title: query,
+      start_time: createdAt,
+      created_at: createdAt,
+      metadata: '{}',
+    });
+    const old = event(1, '2026-01-05T09:00:00.000Z');
+    const recent = [2, 3, 4, 5, 6].map(id => event(id, '2026-06-01T09:00:00.000Z'));
+    await db('events').insert([old, ...recent]);
+    // The recent events match the query exactly, the old one less closely
+    await vectorStore.upsert('events', [
+      { id: old.id, embedding: embedding.map((value, i) => (i === 0 ? value + 0.5 : value)) },
+      ...recent.map(row => ({ id: row.id, embedding })),
+    ]);
+
+    const results = await service.retrieve(query, { mode: 'semantic', limit: 1, asOf: new Date('2026-02-01T00:00:00Z') });
+    expect(results.map(result => result.id)).toEqual([old.id]);
+  });
+});
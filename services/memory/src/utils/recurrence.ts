@@ -0,0 +1,185 @@
+import { ValidationError } from '../models/BaseModel';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * The subset of RFC 5545 recurrence rules tasks support: FREQ, INTERVAL,
+ * COUNT, UNTIL, BYDAY (weekdays without ordinals) and BYMONTHDAY
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Total number of occurrences, the first included */
+  count?: number;
+  until?: Date;
+  /** Weekdays, 0 = Sunday */
+  byDay?: number[];
+  /** Days of the month; negative values count from the end (-1 = last day) */
+  byMonthDay?: number[];
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Bounds the search for the next occurrence, e.g. BYMONTHDAY=31 with a large INTERVAL
+const MAX_STEPS = 1000;
+
+function positiveInteger(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new ValidationError(`${name} must be a positive integer`);
+  }
+  return number;
+}
+
+function parseUntil(value: string): Date {
+  // Basic iCalendar form (20261231 or 20261231T170000Z) or ISO 8601
+  const basic = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  const until = basic
+    ? new Date(Date.UTC(+basic[1], +basic[2] - 1, +basic[3], +(basic[4] ?? 23), +(basic[5] ?? 59), +(basic[6] ?? 59)))
+    : new Date(value);
+  if (isNaN(until.getTime())) {
+    throw new ValidationError('UNTIL must be a date');
+  }
+  return until;
+}
+
+/**
+ * Parse a recurrence rule such as "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10".
+ * Throws a ValidationError for anything outside the supported subset.
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [name, setting] = part.split('=');
+    if (!name || setting === undefined || setting === '') {
+      throw new ValidationError(`Malformed recurrence rule part "${part}"`);
+    }
+    parts.set(name.toUpperCase(), setting.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new ValidationError(`FREQ must be one of: ${FREQUENCIES.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  for (const [name, setting] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = positiveInteger('INTERVAL', setting);
+        break;
+      case 'COUNT':
+        rule.count = positiveInteger('COUNT', setting);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(setting);
+        break;
+      case 'BYDAY':
+        if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+          throw new ValidationError('BYDAY is only supported with FREQ=DAILY or FREQ=WEEKLY');
+        }
+        rule.byDay = setting.split(',').map(day => {
+          const index = WEEKDAYS.indexOf(day);
+          if (index === -1) throw new ValidationError(`Unsupported BYDAY value "${day}"`);
+          return index;
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (freq !== 'MONTHLY') {
+          throw new ValidationError('BYMONTHDAY is only supported with FREQ=MONTHLY');
+        }
+        rule.byMonthDay = setting.split(',').map(day => {
+          const number = Number(day);
+          if (!Number.isInteger(number) || number === 0 || number < -31 || number > 31) {
+            throw new ValidationError(`Unsupported BYMONTHDAY value "${day}"`);
+          }
+          return number;
+        });
+        break;
+      default:
+        throw new ValidationError(`Unsupported recurrence rule part ${name}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new ValidationError('COUNT and UNTIL cannot be combined');
+  }
+  return rule;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Monday of the week containing the date, at midnight UTC
+function weekStart(date: Date): number {
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return midnight - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+function withTimeOf(time: Date, year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(
+    year, month, day,
+    time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds(), time.getUTCMilliseconds()
+  ));
+}
+
+function nextCandidate(rule: RecurrenceRule, after: Date): Date | null {
+  const { interval } = rule;
+
+  if (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') {
+    // Walk forward a day at a time, keeping days in an active period
+    const byDay = rule.byDay ?? (rule.freq === 'WEEKLY' ? [after.getUTCDay()] : undefined);
+    for (let step = 1; step <= MAX_STEPS; step++) {
+      const candidate = new Date(after.getTime() + step * DAY_MS);
+      const period = rule.freq === 'DAILY'
+        ? step
+        : Math.round((weekStart(candidate) - weekStart(after)) / (7 * DAY_MS));
+      if (period % interval !== 0) continue;
+      if (byDay && !byDay.includes(candidate.getUTCDay())) continue;
+      return candidate;
+    }
+    return null;
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    const byMonthDay = rule.byMonthDay ?? [after.getUTCDate()];
+    for (let months = 0; months <= MAX_STEPS; months += interval) {
+      const year = after.getUTCFullYear() + Math.floor((after.getUTCMonth() + months) / 12);
+      const month = (after.getUTCMonth() + months) % 12;
+      const length = daysInMonth(year, month);
+      const days = byMonthDay
+        .map(day => (day < 0 ? length + day + 1 : day))
+        .filter(day => day >= 1 && day <= length)
+        .sort((a, b) => a - b);
+      for (const day of days) {
+        const candidate = withTimeOf(after, year, month, day);
+        if (candidate.getTime() > after.getTime()) return candidate;
+      }
+    }
+    return null;
+  }
+
+  // YEARLY: same month and day, skipping years without it (29 February)
+  for (let years = interval; years <= MAX_STEPS; years += interval) {
+    const year = after.getUTCFullYear() + years;
+    if (after.getUTCDate() > daysInMonth(year, after.getUTCMonth())) continue;
+    return withTimeOf(after, year, after.getUTCMonth(), after.getUTCDate());
+  }
+  return null;
+}
+
+/**
+ * The occurrence following one at `after`, where `index` is the zero-based
+ * position of `after` in the series. Returns null once the series has ended.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date, index: number = 0): Date | null {
+  if (rule.count !== undefined && index + 1 >= rule.count) return null;
+
+  const next = nextCandidate(rule, after);
+  if (!next || (rule.until && next.getTime() > rule.until.getTime())) return null;
+  return next;
+}
@@ -130,6 +130,8 @@ export class PromptService {
       action_items: [],
       entities: [],
       topics: [],
+      facts: [],
+      commitments: [],
       confidence: 0.5
     };
   }
@@ -5,6 +5,8 @@ You are an advanced information extraction system. Analyze the following content
 3. Named entities (people, organizations, locations, etc.)
 4. Key topics
 5. Overall sentiment
+6. Durable facts about entities (roles, affiliations, contact details)
+7. Commitments: promises someone made to deliver something to someone else, with who owes (debtor) and who is owed (creditor). Use "me" for the user. Mark a commitment "fulfilled" when the content shows an earlier promise being kept.
 
 Content:
 {content}
@@ -24,6 +26,22 @@ Respond with a JSON object matching this schema:
     "label": "string"
   }],
   "topics": ["string"],
+  "facts": [{
+    "statement": "string",
+    "subject": "entity name",
+    "predicate": "snake_case_relation",
+    "object": "string",
+    "confidence": 0.0-1.0
+  }],
+  "commitments": [{
+    "statement": "Bob promised an updated forecast by 2025-10-02",
+    "deliverable": "updated forecast",
+    "debtor": "person who owes, or me",
+    "creditor": "person who is owed, or me",
+    "due": "YYYY-MM-DD",
+    "status": "open|fulfilled",
+    "confidence": 0.0-1.0
+  }],
   "sentiment": "positive|neutral|negative",
   "confidence": 0.0-1.0
 }`;
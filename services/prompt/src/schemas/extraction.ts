@@ -15,17 +15,41 @@ export const EntitySchema = z.object({
   context: z.string().optional(),
 });
 
+export const FactSchema = z.object({
+  statement: z.string(),
+  subject: z.string(),
+  predicate: z.string(),
+  object: z.string(),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+// A promise one party made to another. "me" stands for the user.
+export const CommitmentSchema = z.object({
+  statement: z.string(),
+  deliverable: z.string(),
+  debtor: z.string(),
+  creditor: z.string(),
+  due: z.string().optional(),
+  // fulfilled: the content shows an earlier promise being kept
+  status: z.enum(['open', 'fulfilled']).default('open'),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
 export const ExtractionSchema = z.object({
   summary: z.string(),
   action_items: z.array(ActionItemSchema).default([]),
   entities: z.array(EntitySchema).default([]),
   topics: z.array(z.string()).default([]),
+  facts: z.array(FactSchema).default([]),
+  commitments: z.array(CommitmentSchema).default([]),
   sentiment: z.enum(['positive', 'neutral', 'negative']).optional(),
   confidence: z.number().min(0).max(1).default(0.8),
 });
 
 export type ActionItem = z.infer<typeof ActionItemSchema>;
 export type Entity = z.infer<typeof EntitySchema>;
+export type Fact = z.infer<typeof FactSchema>;
+export type Commitment = z.infer<typeof CommitmentSchema>;
 export type ExtractionResult = z.infer<typeof ExtractionSchema>;
 
 // Function to validate extraction results